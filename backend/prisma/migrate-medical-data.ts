@@ -0,0 +1,101 @@
+// prisma/migrate-medical-data.ts
+// Convierte alergias, padecimientos y medicamentos guardados como texto libre al formato
+// codificado del catálogo (CIE-10, medicamentos, alérgenos). Es idempotente: los perfiles
+// que ya están codificados se dejan igual.
+//
+// Uso: npm run db:migrate-medical-data [-- --dry-run]
+
+import { PrismaClient } from '@prisma/client';
+import { decryptJSON, encryptJSON } from '../src/common/utils/encryption';
+import { catalogService } from '../src/modules/catalog/catalog.service';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+const dryRun = process.argv.includes('--dry-run');
+
+type Field = 'allergiesEnc' | 'conditionsEnc' | 'medicationsEnc';
+
+const NORMALIZERS: Record<Field, (input: unknown[]) => { code: string | null; suggestion?: unknown }[]> = {
+  allergiesEnc: (input) => catalogService.normalizeAllergies(input),
+  conditionsEnc: (input) => catalogService.normalizeConditions(input),
+  medicationsEnc: (input) => catalogService.normalizeMedications(input),
+};
+
+const withoutSuggestion = (entry: unknown) => {
+  if (!entry || typeof entry !== 'object') return entry;
+  const { suggestion: _suggestion, ...rest } = entry as Record<string, unknown>;
+  return rest;
+};
+
+async function migrateMedicalData() {
+  console.log(`🩺 Codificando datos médicos${dryRun ? ' (simulación)' : ''}...\n`);
+
+  const stats = { profiles: 0, updated: 0, entries: 0, coded: 0, suggested: 0, failed: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const profiles = await prisma.patientProfile.findMany({
+      select: { id: true, allergiesEnc: true, conditionsEnc: true, medicationsEnc: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    if (profiles.length === 0) break;
+    cursor = profiles[profiles.length - 1].id;
+
+    for (const profile of profiles) {
+      stats.profiles++;
+      const data: Partial<Record<Field, string>> = {};
+
+      try {
+        for (const field of Object.keys(NORMALIZERS) as Field[]) {
+          const ciphertext = profile[field];
+          if (!ciphertext) continue;
+
+          const current = decryptJSON<unknown[]>(ciphertext);
+          if (!Array.isArray(current)) continue;
+
+          const normalized = NORMALIZERS[field](current);
+          stats.entries += normalized.length;
+          stats.coded += normalized.filter((entry) => entry.code).length;
+          stats.suggested += normalized.filter((entry) => !entry.code && entry.suggestion).length;
+
+          // Solo se reescribe si había texto libre o entradas incompletas; una sugerencia nueva
+          // del catálogo no es motivo (se recalcula al leer el perfil)
+          if (JSON.stringify(normalized.map(withoutSuggestion)) !== JSON.stringify(current.map(withoutSuggestion))) {
+            data[field] = encryptJSON(normalized);
+          }
+        }
+      } catch (error) {
+        stats.failed++;
+        console.error(`  ✗ Perfil ${profile.id}:`, error instanceof Error ? error.message : error);
+        continue;
+      }
+
+      if (Object.keys(data).length === 0) continue;
+
+      if (!dryRun) {
+        await prisma.patientProfile.update({ where: { id: profile.id }, data });
+      }
+      stats.updated++;
+      console.log(`  ✓ Perfil ${profile.id}: ${Object.keys(data).join(', ')}`);
+    }
+  }
+
+  console.log(`\n✅ ${stats.updated} de ${stats.profiles} perfiles ${dryRun ? 'por actualizar' : 'actualizados'}`);
+  console.log(`   Entradas: ${stats.entries} (${stats.coded} con código de catálogo, ${stats.suggested} con sugerencia por confirmar)`);
+  if (stats.failed > 0) {
+    console.log(`   ⚠️  ${stats.failed} perfiles no se pudieron descifrar`);
+  }
+}
+
+migrateMedicalData()
+  .catch((e) => {
+    console.error('Error en migración:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "EmergencyAccess" ADD COLUMN     "accessorVerified" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "StaffSession" (
+    "id" TEXT NOT NULL,
+    "staffId" TEXT NOT NULL,
+    "refreshToken" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StaffSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StaffSession_refreshToken_key" ON "StaffSession"("refreshToken");
+
+-- CreateIndex
+CREATE INDEX "StaffSession_staffId_idx" ON "StaffSession"("staffId");
+
+-- CreateIndex
+CREATE INDEX "StaffSession_refreshToken_idx" ON "StaffSession"("refreshToken");
+
+-- CreateIndex
+CREATE INDEX "EmergencyAccess_accessorId_idx" ON "EmergencyAccess"("accessorId");
+
+-- AddForeignKey
+ALTER TABLE "EmergencyAccess" ADD CONSTRAINT "EmergencyAccess_accessorId_fkey" FOREIGN KEY ("accessorId") REFERENCES "MedicalStaff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StaffSession" ADD CONSTRAINT "StaffSession_staffId_fkey" FOREIGN KEY ("staffId") REFERENCES "MedicalStaff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
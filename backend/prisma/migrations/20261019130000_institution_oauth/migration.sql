@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "EmergencyAccess" ADD COLUMN     "accessMethod" TEXT NOT NULL DEFAULT 'MANUAL';
+
+-- AlterTable
+ALTER TABLE "MedicalInstitution" ADD COLUMN     "oauthIssuedAt" TIMESTAMP(3),
+ADD COLUMN     "oauthScopes" TEXT[];
+
+-- Los secretos existentes se guardaron en texto plano; se invalidan para forzar rotacion
+UPDATE "MedicalInstitution" SET "oauthClientSecret" = NULL WHERE "oauthClientSecret" IS NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PatientProfile" ADD COLUMN     "emergencyVisibility" JSONB;
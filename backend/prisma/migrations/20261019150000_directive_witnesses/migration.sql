@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'WITNESS_INVITATION';
+
+-- AlterTable
+ALTER TABLE "Witness" ADD COLUMN     "identityConfirmedAt" TIMESTAMP(3),
+ADD COLUMN     "inviteExpires" TIMESTAMP(3),
+ADD COLUMN     "inviteToken" TEXT,
+ADD COLUMN     "invitedAt" TIMESTAMP(3),
+ADD COLUMN     "signatureIp" TEXT,
+ADD COLUMN     "signatureUserAgent" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Witness_inviteToken_key" ON "Witness"("inviteToken");
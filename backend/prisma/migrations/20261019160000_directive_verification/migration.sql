@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "AdvanceDirective" ADD COLUMN     "verificationCode" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdvanceDirective_verificationCode_key" ON "AdvanceDirective"("verificationCode");
+
+-- CreateIndex
+CREATE INDEX "AdvanceDirective_documentHash_idx" ON "AdvanceDirective"("documentHash");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AdvanceDirective" ADD COLUMN     "documentKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "PatientProfile" ADD COLUMN     "photoKey" TEXT;
@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'REPRESENTATIVE_INVITATION';
+
+-- CreateEnum
+CREATE TYPE "RepresentativeStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED');
+
+-- AlterTable
+ALTER TABLE "Representative" ADD COLUMN     "status" "RepresentativeStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "inviteToken" TEXT,
+ADD COLUMN     "inviteExpires" TIMESTAMP(3),
+ADD COLUMN     "invitedAt" TIMESTAMP(3),
+ADD COLUMN     "verificationCodeHash" TEXT,
+ADD COLUMN     "verificationChannel" TEXT,
+ADD COLUMN     "verificationExpires" TIMESTAMP(3),
+ADD COLUMN     "verificationAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "acceptedAt" TIMESTAMP(3),
+ADD COLUMN     "declinedAt" TIMESTAMP(3),
+ADD COLUMN     "accountUserId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Representative_inviteToken_key" ON "Representative"("inviteToken");
+
+-- CreateIndex
+CREATE INDEX "Representative_accountUserId_idx" ON "Representative"("accountUserId");
+
+-- AddForeignKey
+ALTER TABLE "Representative" ADD CONSTRAINT "Representative_accountUserId_fkey" FOREIGN KEY ("accountUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
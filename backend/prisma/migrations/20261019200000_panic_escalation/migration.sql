@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "PanicAlert" ADD COLUMN     "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "escalationSteps" JSONB,
+ADD COLUMN     "nextEscalationAt" TIMESTAMP(3),
+ADD COLUMN     "operatorQueuedAt" TIMESTAMP(3),
+ADD COLUMN     "acknowledgedAt" TIMESTAMP(3),
+ADD COLUMN     "acknowledgements" JSONB;
+
+-- CreateIndex
+CREATE INDEX "PanicAlert_nextEscalationAt_idx" ON "PanicAlert"("nextEscalationAt");
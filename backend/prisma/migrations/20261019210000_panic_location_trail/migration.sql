@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "PanicAlert" ADD COLUMN     "lastLocationAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PanicLocationPoint" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "accuracy" DOUBLE PRECISION,
+    "heading" DOUBLE PRECISION,
+    "speed" DOUBLE PRECISION,
+    "recordedAt" TIMESTAMP(3) NOT NULL,
+    "hospitalsRefreshed" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PanicLocationPoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PanicLocationPoint_alertId_recordedAt_idx" ON "PanicLocationPoint"("alertId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "PanicLocationPoint" ADD CONSTRAINT "PanicLocationPoint_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "PanicAlert"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "PanicCallContact" AS ENUM ('PATIENT', 'REPRESENTATIVE', 'EMERGENCY_SERVICES', 'HOSPITAL', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "PanicResolutionOutcome" AS ENUM ('PATIENT_SAFE', 'ASSISTED_BY_REPRESENTATIVE', 'EMERGENCY_SERVICES_DISPATCHED', 'TRANSFERRED_TO_HOSPITAL', 'FALSE_ALARM', 'UNREACHABLE', 'OTHER');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'PANIC_RESOLVED';
+
+-- AlterTable
+ALTER TABLE "PanicAlert" ADD COLUMN     "assignedAdminId" TEXT,
+ADD COLUMN     "assignedAt" TIMESTAMP(3),
+ADD COLUMN     "resolvedByAdminId" TEXT,
+ADD COLUMN     "resolutionOutcome" "PanicResolutionOutcome",
+ADD COLUMN     "resolutionNotes" TEXT;
+
+-- CreateTable
+CREATE TABLE "PanicCallNote" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "contactType" "PanicCallContact" NOT NULL,
+    "contactName" TEXT,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PanicCallNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PanicAlert_assignedAdminId_idx" ON "PanicAlert"("assignedAdminId");
+
+-- CreateIndex
+CREATE INDEX "PanicCallNote_alertId_idx" ON "PanicCallNote"("alertId");
+
+-- AddForeignKey
+ALTER TABLE "PanicAlert" ADD CONSTRAINT "PanicAlert_assignedAdminId_fkey" FOREIGN KEY ("assignedAdminId") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PanicAlert" ADD CONSTRAINT "PanicAlert_resolvedByAdminId_fkey" FOREIGN KEY ("resolvedByAdminId") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PanicCallNote" ADD CONSTRAINT "PanicCallNote_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "PanicAlert"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PanicCallNote" ADD CONSTRAINT "PanicCallNote_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "AdminUser"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
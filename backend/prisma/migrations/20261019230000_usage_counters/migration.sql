@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "UsageCounter" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "limitKey" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UsageCounter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UsageCounter_userId_idx" ON "UsageCounter"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageCounter_userId_limitKey_periodStart_key" ON "UsageCounter"("userId", "limitKey", "periodStart");
+
+-- AddForeignKey
+ALTER TABLE "UsageCounter" ADD CONSTRAINT "UsageCounter_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "QrTokenMedium" AS ENUM ('WALLET_CARD', 'BRACELET', 'LOCK_SCREEN', 'STICKER', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "QrToken" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "medium" "QrTokenMedium" NOT NULL DEFAULT 'OTHER',
+    "lastScannedAt" TIMESTAMP(3),
+    "scanCount" INTEGER NOT NULL DEFAULT 0,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QrToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QrToken_token_key" ON "QrToken"("token");
+
+-- CreateIndex
+CREATE INDEX "QrToken_userId_idx" ON "QrToken"("userId");
+
+-- AddForeignKey
+ALTER TABLE "QrToken" ADD CONSTRAINT "QrToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- El QR existente de cada perfil pasa a ser su código principal (los impresos siguen funcionando)
+INSERT INTO "QrToken" ("id", "userId", "token", "label", "medium", "lastScannedAt", "scanCount", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    p."userId",
+    p."qrToken",
+    'Código principal',
+    'OTHER',
+    a."lastScannedAt",
+    COALESCE(a."scanCount", 0),
+    p."qrGeneratedAt",
+    CURRENT_TIMESTAMP
+FROM "PatientProfile" p
+LEFT JOIN (
+    SELECT "qrTokenUsed", MAX("accessedAt") AS "lastScannedAt", COUNT(*)::int AS "scanCount"
+    FROM "EmergencyAccess"
+    GROUP BY "qrTokenUsed"
+) a ON a."qrTokenUsed" = p."qrToken";
+
+-- DropIndex
+DROP INDEX "PatientProfile_qrToken_idx";
+
+-- DropIndex
+DROP INDEX "PatientProfile_qrToken_key";
+
+-- AlterTable
+ALTER TABLE "PatientProfile" DROP COLUMN "qrGeneratedAt",
+DROP COLUMN "qrToken";
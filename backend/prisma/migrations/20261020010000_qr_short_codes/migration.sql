@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "QrToken" ADD COLUMN "shortCode" TEXT;
+
+-- Códigos para los QR existentes: 7 caracteres Crockford base32 + verificador Luhn mod 32
+-- (mismo algoritmo que src/common/utils/short-code.ts)
+DO $$
+DECLARE
+    alphabet CONSTANT TEXT := '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+    row RECORD;
+    code TEXT;
+    factor INT;
+    total INT;
+    addend INT;
+BEGIN
+    FOR row IN SELECT "id" FROM "QrToken" LOOP
+        LOOP
+            code := '';
+            FOR i IN 1..7 LOOP
+                code := code || substr(alphabet, floor(random() * 32)::int + 1, 1);
+            END LOOP;
+
+            factor := 2;
+            total := 0;
+            FOR i IN REVERSE 7..1 LOOP
+                addend := factor * (strpos(alphabet, substr(code, i, 1)) - 1);
+                factor := CASE WHEN factor = 2 THEN 1 ELSE 2 END;
+                total := total + (addend / 32) + (addend % 32);
+            END LOOP;
+            code := code || substr(alphabet, ((32 - (total % 32)) % 32) + 1, 1);
+
+            EXIT WHEN NOT EXISTS (SELECT 1 FROM "QrToken" WHERE "shortCode" = code);
+        END LOOP;
+
+        UPDATE "QrToken" SET "shortCode" = code WHERE "id" = row."id";
+    END LOOP;
+END $$;
+
+ALTER TABLE "QrToken" ALTER COLUMN "shortCode" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QrToken_shortCode_key" ON "QrToken"("shortCode");
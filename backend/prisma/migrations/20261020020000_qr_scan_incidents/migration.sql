@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'QR_ABUSE_ALERT';
+
+-- CreateEnum
+CREATE TYPE "QrScanIncidentType" AS ENUM ('SCAN_BURST', 'MANY_IPS', 'IMPOSSIBLE_TRAVEL', 'INVALID_TOKEN_PROBE');
+
+-- AlterTable
+ALTER TABLE "QrToken" ADD COLUMN "suspendedAt" TIMESTAMP(3),
+ADD COLUMN "suspendedReason" "QrScanIncidentType";
+
+-- CreateTable
+CREATE TABLE "QrScanIncident" (
+    "id" TEXT NOT NULL,
+    "type" "QrScanIncidentType" NOT NULL,
+    "userId" TEXT,
+    "qrTokenId" TEXT,
+    "ipAddress" TEXT,
+    "details" JSONB NOT NULL,
+    "tokenSuspended" BOOLEAN NOT NULL DEFAULT false,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolutionNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QrScanIncident_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QrScanIncident_createdAt_idx" ON "QrScanIncident"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "QrScanIncident_qrTokenId_type_createdAt_idx" ON "QrScanIncident"("qrTokenId", "type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "QrScanIncident_userId_idx" ON "QrScanIncident"("userId");
+
+-- AddForeignKey
+ALTER TABLE "QrScanIncident" ADD CONSTRAINT "QrScanIncident_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QrScanIncident" ADD CONSTRAINT "QrScanIncident_qrTokenId_fkey" FOREIGN KEY ("qrTokenId") REFERENCES "QrToken"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -2,6 +2,7 @@
 // Seed de datos de prueba para el panel de administracion
 import { PrismaClient, AdminRole, DirectiveStatus, DirectiveType, PanicStatus, InstitutionType, AttentionLevel, StaffRole, InsuranceType } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { generateShortCode } from '../src/common/utils/short-code';
 
 const prisma = new PrismaClient();
 
@@ -356,7 +357,7 @@ async function main() {
         permissions: [
           'metrics:read', 'users:read', 'users:write',
           'audit:read', 'audit:export', 'institutions:read',
-          'institutions:write', 'health:read'
+          'institutions:write', 'panic:respond', 'health:read'
         ],
         isSuperAdmin: false,
         isActive: true,
@@ -370,7 +371,7 @@ async function main() {
         role: 'MODERATOR',
         permissions: [
           'metrics:read', 'users:read', 'audit:read',
-          'institutions:read', 'health:read'
+          'institutions:read', 'panic:respond', 'health:read'
         ],
         isSuperAdmin: false,
         isActive: true,
@@ -394,7 +395,7 @@ async function main() {
         name: 'Soporte Tecnico',
         role: 'SUPPORT',
         permissions: [
-          'metrics:read', 'users:read', 'audit:read', 'health:read'
+          'metrics:read', 'users:read', 'audit:read', 'panic:respond', 'health:read'
         ],
         isSuperAdmin: false,
         isActive: true,
@@ -668,6 +669,10 @@ async function main() {
           isDonor: Math.random() > 0.6,
         },
       });
+
+      await prisma.qrToken.create({
+        data: { userId: user.id, shortCode: generateShortCode(), label: 'Código principal' },
+      });
     }
 
     // Crear representantes (60% de usuarios)
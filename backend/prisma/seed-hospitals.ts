@@ -5,27 +5,6 @@ import { PrismaClient, InstitutionType, AttentionLevel } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
-// Mapeo de condiciones médicas a especialidades relevantes
-export const conditionToSpecialties: Record<string, string[]> = {
-  'Diabetes': ['Endocrinologia', 'Medicina Interna', 'Nefrologia', 'Oftalmologia'],
-  'Diabetes Mellitus': ['Endocrinologia', 'Medicina Interna', 'Nefrologia'],
-  'Hipertension': ['Cardiologia', 'Medicina Interna', 'Nefrologia'],
-  'Hipertension Arterial': ['Cardiologia', 'Medicina Interna'],
-  'Cardiopatia': ['Cardiologia', 'Cirugia Cardiovascular'],
-  'Infarto': ['Cardiologia', 'Urgencias', 'UCI'],
-  'Asma': ['Neumologia', 'Alergologia', 'Medicina Interna'],
-  'EPOC': ['Neumologia', 'Medicina Interna'],
-  'Cancer': ['Oncologia', 'Cirugia Oncologica', 'Radioterapia'],
-  'Traumatismo': ['Traumatologia', 'Ortopedia', 'Urgencias'],
-  'Fractura': ['Traumatologia', 'Ortopedia'],
-  'Embarazo': ['Ginecologia', 'Obstetricia', 'Neonatologia'],
-  'Pediatrico': ['Pediatria', 'Neonatologia'],
-  'Renal': ['Nefrologia', 'Urologia'],
-  'Neurologico': ['Neurologia', 'Neurocirugia'],
-  'ACV': ['Neurologia', 'Urgencias', 'UCI'],
-  'Psiquiatrico': ['Psiquiatria', 'Salud Mental'],
-};
-
 // Hospitales reales de CDMX con coordenadas y especialidades
 const hospitalesCDMX = [
   {
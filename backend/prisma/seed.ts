@@ -2,6 +2,7 @@
 import { PrismaClient, DirectiveType, DirectiveStatus, SubscriptionStatus, BillingCycle, PaymentStatus, PaymentMethodType } from '@prisma/client';
 import * as bcrypt from 'bcryptjs';
 import * as crypto from 'crypto';
+import { generateShortCode } from '../src/common/utils/short-code';
 
 const prisma = new PrismaClient();
 
@@ -260,13 +261,22 @@ async function main() {
   console.log('Usuario demo:', testUser.email);
 
   // Crear perfil de paciente con datos medicos
-  const allergies = ['Penicilina', 'Sulfonamidas', 'Mariscos'];
-  const conditions = ['Diabetes Mellitus Tipo 2', 'Hipertension Arterial', 'Hipotiroidismo'];
+  // Mismo formato que guarda catalogService (src/modules/catalog)
+  const allergies = [
+    { code: 'penicilinas', name: 'Penicilinas', category: 'MEDICATION', severity: 'SEVERE', reaction: 'Anafilaxia' },
+    { code: 'sulfonamidas', name: 'Sulfonamidas', category: 'MEDICATION', severity: 'MODERATE', reaction: 'Urticaria' },
+    { code: 'mariscos', name: 'Mariscos', category: 'FOOD', severity: 'MODERATE', reaction: null },
+  ];
+  const conditions = [
+    { code: 'E11', name: 'Diabetes mellitus tipo 2' },
+    { code: 'I10', name: 'Hipertensión arterial' },
+    { code: 'E03.9', name: 'Hipotiroidismo' },
+  ];
   const medications = [
-    'Metformina 850mg - 1 cada 12 horas',
-    'Losartan 50mg - 1 cada 24 horas',
-    'Levotiroxina 100mcg - 1 en ayunas',
-    'Aspirina 100mg - 1 cada 24 horas'
+    { code: 'metformina', name: 'Metformina', dose: '850 mg', frequency: '1 cada 12 horas' },
+    { code: 'losartan', name: 'Losartán', dose: '50 mg', frequency: '1 cada 24 horas' },
+    { code: 'levotiroxina', name: 'Levotiroxina', dose: '100 mcg', frequency: '1 en ayunas' },
+    { code: 'acido-acetilsalicilico', name: 'Ácido acetilsalicílico', dose: '100 mg', frequency: '1 cada 24 horas' },
   ];
   const donorPreferences = {
     organs: ['corazon', 'rinones', 'higado', 'pulmones', 'pancreas'],
@@ -275,7 +285,7 @@ async function main() {
     notes: 'Deseo ayudar a quien lo necesite. Sin restricciones.'
   };
 
-  const profile = await prisma.patientProfile.create({
+  await prisma.patientProfile.create({
     data: {
       userId: testUser.id,
       bloodType: 'O+',
@@ -290,7 +300,17 @@ async function main() {
     },
   });
 
-  console.log('Perfil medico creado con QR Token:', profile.qrToken);
+  // Un código por objeto físico que lleva el paciente
+  const [walletQr] = await Promise.all([
+    prisma.qrToken.create({
+      data: { userId: testUser.id, shortCode: generateShortCode(), label: 'Tarjeta de la cartera', medium: 'WALLET_CARD' },
+    }),
+    prisma.qrToken.create({
+      data: { userId: testUser.id, shortCode: generateShortCode(), label: 'Pulsera', medium: 'BRACELET' },
+    }),
+  ]);
+
+  console.log('Perfil medico creado con QR Token:', walletQr.token, '- código manual:', walletQr.shortCode);
 
   // Crear representantes
   const representatives = await Promise.all([
@@ -370,6 +390,31 @@ Confio en mi esposa Maria Elena como mi representante principal para tomar decis
 
   console.log('Directiva de voluntad anticipada creada:', directive.id);
 
+  // Campos y documento base de las plantillas estatales
+  const templateFields = [
+    { key: 'acceptsCPR', label: 'Reanimacion cardiopulmonar', required: true },
+    { key: 'acceptsIntubation', label: 'Intubacion y ventilacion mecanica', required: true },
+    { key: 'acceptsArtificialNutrition', label: 'Nutricion e hidratacion artificial', required: true },
+    { key: 'acceptsDialysis', label: 'Dialisis', required: false },
+    { key: 'acceptsTransfusion', label: 'Transfusion sanguinea', required: false },
+    { key: 'palliativeCareOnly', label: 'Solo cuidados paliativos', required: false },
+    { key: 'additionalNotes', label: 'Indicaciones adicionales', required: false },
+  ];
+
+  const templateHtml = `<h1>Documento de Voluntad Anticipada</h1>
+<p>Con fundamento en la {{ law.name }} ({{ law.date }}), yo, <strong>{{ patient.name }}</strong>, con CURP {{ patient.curp }}, nacido(a) el {{ patient.dateOfBirth }}, residente de {{ state.name }}, manifiesto en pleno uso de mis facultades mi voluntad respecto a los siguientes tratamientos:</p>
+<ul>
+  <li>Reanimacion cardiopulmonar: {{ directive.acceptsCPR }}</li>
+  <li>Intubacion y ventilacion mecanica: {{ directive.acceptsIntubation }}</li>
+  <li>Nutricion e hidratacion artificial: {{ directive.acceptsArtificialNutrition }}</li>
+  <li>Dialisis: {{ directive.acceptsDialysis }}</li>
+  <li>Transfusion sanguinea: {{ directive.acceptsTransfusion }}</li>
+  <li>Solo cuidados paliativos: {{ directive.palliativeCareOnly }}</li>
+</ul>
+<p>Indicaciones adicionales: {{ directive.additionalNotes }}</p>
+<p>Testigos: {{ witnesses }}</p>
+<p>Documento generado el {{ date }}.</p>`;
+
   // Crear plantillas legales de algunos estados
   await Promise.all([
     prisma.stateLegalTemplate.create({
@@ -382,6 +427,8 @@ Confio en mi esposa Maria Elena como mi representante principal para tomar decis
         requiresNotary: true,
         requiresWitnesses: 2,
         requiresMedicalCert: true,
+        templateFields,
+        templateHtml,
       },
     }),
     prisma.stateLegalTemplate.create({
@@ -394,6 +441,8 @@ Confio en mi esposa Maria Elena como mi representante principal para tomar decis
         requiresNotary: true,
         requiresWitnesses: 2,
         requiresMedicalCert: false,
+        templateFields,
+        templateHtml,
       },
     }),
     prisma.stateLegalTemplate.create({
@@ -406,6 +455,8 @@ Confio en mi esposa Maria Elena como mi representante principal para tomar decis
         requiresNotary: true,
         requiresWitnesses: 2,
         requiresMedicalCert: true,
+        templateFields,
+        templateHtml,
       },
     }),
   ]);
@@ -462,7 +513,7 @@ Confio en mi esposa Maria Elena como mi representante principal para tomar decis
   console.log('🔐 DATOS DE ACCESO DE PRUEBA:');
   console.log('   Email:      demo@sistemavida.mx');
   console.log('   Password:   Demo123!');
-  console.log(`   QR Token:   ${profile.qrToken}`);
+  console.log(`   QR Token:   ${walletQr.token}`);
   console.log('');
   console.log('🔑 ACCESO ADMIN:');
   console.log('   Email:      admin@sistemavida.mx');
@@ -171,6 +171,13 @@ export const ADMIN_PERMISSIONS = {
   INSTITUTIONS_READ: 'institutions:read',
   INSTITUTIONS_WRITE: 'institutions:write',
 
+  // Plantillas legales estatales
+  LEGAL_TEMPLATES_READ: 'legal_templates:read',
+  LEGAL_TEMPLATES_WRITE: 'legal_templates:write',
+
+  // Cola de operadores de alertas de panico
+  PANIC_RESPOND: 'panic:respond',
+
   // Salud del sistema
   HEALTH_READ: 'health:read',
 
@@ -194,6 +201,9 @@ export const DEFAULT_PERMISSIONS_BY_ROLE: Record<AdminRole, string[]> = {
     ADMIN_PERMISSIONS.AUDIT_EXPORT,
     ADMIN_PERMISSIONS.INSTITUTIONS_READ,
     ADMIN_PERMISSIONS.INSTITUTIONS_WRITE,
+    ADMIN_PERMISSIONS.LEGAL_TEMPLATES_READ,
+    ADMIN_PERMISSIONS.LEGAL_TEMPLATES_WRITE,
+    ADMIN_PERMISSIONS.PANIC_RESPOND,
     ADMIN_PERMISSIONS.HEALTH_READ,
   ],
   MODERATOR: [
@@ -201,6 +211,8 @@ export const DEFAULT_PERMISSIONS_BY_ROLE: Record<AdminRole, string[]> = {
     ADMIN_PERMISSIONS.USERS_READ,
     ADMIN_PERMISSIONS.AUDIT_READ,
     ADMIN_PERMISSIONS.INSTITUTIONS_READ,
+    ADMIN_PERMISSIONS.LEGAL_TEMPLATES_READ,
+    ADMIN_PERMISSIONS.PANIC_RESPOND,
     ADMIN_PERMISSIONS.HEALTH_READ,
   ],
   VIEWER: [
@@ -211,6 +223,7 @@ export const DEFAULT_PERMISSIONS_BY_ROLE: Record<AdminRole, string[]> = {
     ADMIN_PERMISSIONS.METRICS_READ,
     ADMIN_PERMISSIONS.USERS_READ,
     ADMIN_PERMISSIONS.AUDIT_READ,
+    ADMIN_PERMISSIONS.PANIC_RESPOND,
     ADMIN_PERMISSIONS.HEALTH_READ,
   ],
 };
@@ -0,0 +1,75 @@
+// src/common/guards/oauth.middleware.ts
+import { Request, Response, NextFunction } from 'express';
+import { oauthService, OAuthError, OAuthClientContext } from '../../modules/oauth/oauth.service';
+
+// Extender tipos de Express
+declare global {
+  namespace Express {
+    interface Request {
+      oauthClient?: OAuthClientContext;
+    }
+  }
+}
+
+/**
+ * Middleware para clientes institucionales (OAuth2 client_credentials)
+ * Verifica el token Bearer y que incluya todos los scopes requeridos
+ */
+export const requireOAuthScope = (...requiredScopes: string[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authHeader = req.headers.authorization;
+
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        res.set('WWW-Authenticate', 'Bearer');
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'NO_CLIENT_TOKEN',
+            message: 'Token de cliente institucional requerido',
+          },
+        });
+      }
+
+      const client = await oauthService.verifyAccessToken(authHeader.split(' ')[1]);
+
+      const missingScopes = requiredScopes.filter((scope) => !client.scopes.includes(scope));
+      if (missingScopes.length > 0) {
+        res.set('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${requiredScopes.join(' ')}"`);
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'INSUFFICIENT_SCOPE',
+            message: `Scope requerido: ${missingScopes.join(' ')}`,
+          },
+        });
+      }
+
+      req.oauthClient = client;
+
+      next();
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        res.set('WWW-Authenticate', `Bearer error="${error.error}"`);
+        return res.status(error.status).json({
+          success: false,
+          error: {
+            code: 'INVALID_CLIENT_TOKEN',
+            message: error.description,
+          },
+        });
+      }
+
+      console.error('Error en OAuth middleware:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Error de autenticación',
+        },
+      });
+    }
+  };
+};
+
+export default requireOAuthScope;
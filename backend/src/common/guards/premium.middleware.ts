@@ -1,6 +1,20 @@
 // src/common/guards/premium.middleware.ts
 import { Request, Response, NextFunction } from 'express';
-import { premiumFeaturesService, FeatureKey, LimitKey } from '../../modules/payments/services/premium-features.service';
+import { premiumFeaturesService, FeatureKey, LimitKey, EntitlementError } from '../../modules/payments/services/premium-features.service';
+
+/**
+ * Responde con el error estructurado (FEATURE_REQUIRED / LIMIT_REACHED)
+ */
+export const sendEntitlementError = (res: Response, error: EntitlementError) => {
+  return res.status(error.status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+    },
+  });
+};
 
 /**
  * Middleware para verificar acceso a una feature premium
@@ -24,23 +38,14 @@ export const requirePremiumFeature = (featureKey: FeatureKey) => {
       if (!userId) {
         return res.status(401).json({
           success: false,
-          error: 'No autenticado',
-          code: 'UNAUTHORIZED',
+          error: { code: 'UNAUTHORIZED', message: 'No autenticado' },
         });
       }
 
       const hasAccess = await premiumFeaturesService.hasFeature(userId, featureKey);
 
       if (!hasAccess) {
-        return res.status(403).json({
-          success: false,
-          error: 'Esta función requiere una suscripción Premium',
-          code: 'PREMIUM_REQUIRED',
-          data: {
-            feature: featureKey,
-            upgradeUrl: '/subscription/plans',
-          },
-        });
+        return sendEntitlementError(res, premiumFeaturesService.featureRequiredError(featureKey));
       }
 
       next();
@@ -48,7 +53,7 @@ export const requirePremiumFeature = (featureKey: FeatureKey) => {
       console.error('Error verificando feature premium:', error);
       res.status(500).json({
         success: false,
-        error: 'Error verificando acceso premium',
+        error: { code: 'SERVER_ERROR', message: 'Error verificando acceso premium' },
       });
     }
   };
@@ -68,23 +73,16 @@ export const requireAllPremiumFeatures = (featureKeys: FeatureKey[]) => {
       if (!userId) {
         return res.status(401).json({
           success: false,
-          error: 'No autenticado',
-          code: 'UNAUTHORIZED',
+          error: { code: 'UNAUTHORIZED', message: 'No autenticado' },
         });
       }
 
       const hasAllAccess = await premiumFeaturesService.hasAllFeatures(userId, featureKeys);
 
       if (!hasAllAccess) {
-        return res.status(403).json({
-          success: false,
-          error: 'Esta función requiere una suscripción Premium',
-          code: 'PREMIUM_REQUIRED',
-          data: {
-            features: featureKeys,
-            upgradeUrl: '/subscription/plans',
-          },
-        });
+        const { features } = await premiumFeaturesService.getUserFeaturesAndLimits(userId);
+        const missing = featureKeys.find((key) => features[key] !== true) || featureKeys[0];
+        return sendEntitlementError(res, premiumFeaturesService.featureRequiredError(missing));
       }
 
       next();
@@ -92,7 +90,7 @@ export const requireAllPremiumFeatures = (featureKeys: FeatureKey[]) => {
       console.error('Error verificando features premium:', error);
       res.status(500).json({
         success: false,
-        error: 'Error verificando acceso premium',
+        error: { code: 'SERVER_ERROR', message: 'Error verificando acceso premium' },
       });
     }
   };
@@ -112,23 +110,14 @@ export const requireAnyPremiumFeature = (featureKeys: FeatureKey[]) => {
       if (!userId) {
         return res.status(401).json({
           success: false,
-          error: 'No autenticado',
-          code: 'UNAUTHORIZED',
+          error: { code: 'UNAUTHORIZED', message: 'No autenticado' },
         });
       }
 
       const hasAnyAccess = await premiumFeaturesService.hasAnyFeature(userId, featureKeys);
 
       if (!hasAnyAccess) {
-        return res.status(403).json({
-          success: false,
-          error: 'Esta función requiere una suscripción Premium',
-          code: 'PREMIUM_REQUIRED',
-          data: {
-            features: featureKeys,
-            upgradeUrl: '/subscription/plans',
-          },
-        });
+        return sendEntitlementError(res, premiumFeaturesService.featureRequiredError(featureKeys[0]));
       }
 
       next();
@@ -136,7 +125,7 @@ export const requireAnyPremiumFeature = (featureKeys: FeatureKey[]) => {
       console.error('Error verificando features premium:', error);
       res.status(500).json({
         success: false,
-        error: 'Error verificando acceso premium',
+        error: { code: 'SERVER_ERROR', message: 'Error verificando acceso premium' },
       });
     }
   };
@@ -170,8 +159,7 @@ export const checkResourceLimit = (
       if (!userId) {
         return res.status(401).json({
           success: false,
-          error: 'No autenticado',
-          code: 'UNAUTHORIZED',
+          error: { code: 'UNAUTHORIZED', message: 'No autenticado' },
         });
       }
 
@@ -179,17 +167,10 @@ export const checkResourceLimit = (
       const result = await premiumFeaturesService.canCreateResource(userId, limitKey, currentCount);
 
       if (!result.allowed) {
-        return res.status(403).json({
-          success: false,
-          error: `Has alcanzado el límite de ${result.limit} elementos. Actualiza a Premium para más.`,
-          code: 'LIMIT_REACHED',
-          data: {
-            limit: result.limit,
-            current: result.current,
-            limitKey,
-            upgradeUrl: '/subscription/plans',
-          },
-        });
+        return sendEntitlementError(
+          res,
+          premiumFeaturesService.limitReachedError(limitKey, result.limit, result.current)
+        );
       }
 
       // Agregar info del límite al request para uso posterior
@@ -200,7 +181,7 @@ export const checkResourceLimit = (
       console.error('Error verificando límite de recursos:', error);
       res.status(500).json({
         success: false,
-        error: 'Error verificando límite',
+        error: { code: 'SERVER_ERROR', message: 'Error verificando límite' },
       });
     }
   };
@@ -218,8 +199,7 @@ export const requirePremium = async (req: Request, res: Response, next: NextFunc
     if (!userId) {
       return res.status(401).json({
         success: false,
-        error: 'No autenticado',
-        code: 'UNAUTHORIZED',
+        error: { code: 'UNAUTHORIZED', message: 'No autenticado' },
       });
     }
 
@@ -228,10 +208,10 @@ export const requirePremium = async (req: Request, res: Response, next: NextFunc
     if (!isPremium) {
       return res.status(403).json({
         success: false,
-        error: 'Esta función requiere una suscripción Premium activa',
-        code: 'PREMIUM_REQUIRED',
-        data: {
-          upgradeUrl: '/subscription/plans',
+        error: {
+          code: 'PREMIUM_REQUIRED',
+          message: 'Esta función requiere una suscripción Premium activa',
+          details: { upgradeUrl: '/subscription/plans' },
         },
       });
     }
@@ -241,7 +221,7 @@ export const requirePremium = async (req: Request, res: Response, next: NextFunc
     console.error('Error verificando suscripción premium:', error);
     res.status(500).json({
       success: false,
-      error: 'Error verificando acceso premium',
+      error: { code: 'SERVER_ERROR', message: 'Error verificando acceso premium' },
     });
   }
 };
@@ -0,0 +1,103 @@
+// src/common/guards/staff-auth.middleware.ts
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { staffAuthService } from '../../modules/staff/staff-auth.service';
+
+const prisma = new PrismaClient();
+
+// Extender tipos de Express
+declare global {
+  namespace Express {
+    interface Request {
+      staffId?: string;
+      staffEmail?: string;
+      staffRole?: string;
+      staffInstitutionId?: string;
+    }
+  }
+}
+
+/**
+ * Resuelve el personal médico a partir del header Authorization
+ * Devuelve null si no hay token; lanza error si el token o la cuenta no son válidos
+ */
+async function resolveStaff(req: Request) {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const payload = staffAuthService.verifyAccessToken(authHeader.split(' ')[1]);
+
+  const staff = await prisma.medicalStaff.findUnique({
+    where: { id: payload.staffId },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      isActive: true,
+      institutionId: true,
+      institution: { select: { isActive: true } },
+    },
+  });
+
+  if (!staff) {
+    throw { code: 'STAFF_NOT_FOUND', message: 'Personal no encontrado', status: 401 };
+  }
+
+  if (!staff.isActive || !staff.institution.isActive) {
+    throw { code: 'STAFF_INACTIVE', message: 'Cuenta de personal desactivada', status: 403 };
+  }
+
+  return staff;
+}
+
+/**
+ * Middleware para autenticación de personal médico institucional
+ * Verifica el token JWT de staff y agrega datos al request
+ */
+export const staffAuthMiddleware = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const staff = await resolveStaff(req);
+
+    if (!staff) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'NO_STAFF_TOKEN',
+          message: 'Token de personal médico requerido',
+        },
+      });
+    }
+
+    req.staffId = staff.id;
+    req.staffEmail = staff.email;
+    req.staffRole = staff.role;
+    req.staffInstitutionId = staff.institutionId;
+
+    next();
+  } catch (error: any) {
+    if (error.code) {
+      return res.status(error.status || 401).json({
+        success: false,
+        error: { code: error.code, message: error.message },
+      });
+    }
+
+    console.error('Error en staff auth middleware:', error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'AUTH_ERROR',
+        message: 'Error de autenticación',
+      },
+    });
+  }
+};
+
+export default staffAuthMiddleware;
@@ -0,0 +1,30 @@
+// src/common/storage/index.ts
+import config from '../../config';
+import { StorageProvider } from './storage.provider';
+import { LocalStorageProvider } from './local.storage';
+import { S3StorageProvider } from './s3.storage';
+
+export const localStorageProvider = new LocalStorageProvider();
+
+const providers: Record<string, () => StorageProvider> = {
+  local: () => localStorageProvider,
+  s3: () => new S3StorageProvider(),
+};
+
+let instance: StorageProvider | null = null;
+
+/**
+ * Obtiene el almacenamiento configurado en STORAGE_PROVIDER
+ */
+export function getStorageProvider(): StorageProvider {
+  if (!instance) {
+    const factory = providers[config.storage.provider];
+    if (!factory) {
+      throw new Error(`STORAGE_PROVIDER desconocido: ${config.storage.provider}`);
+    }
+    instance = factory();
+  }
+  return instance;
+}
+
+export * from './storage.provider';
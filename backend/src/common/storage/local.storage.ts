@@ -0,0 +1,91 @@
+// src/common/storage/local.storage.ts
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import config from '../../config';
+import { StorageProvider, StoredObject } from './storage.provider';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Almacenamiento en disco para desarrollo y pruebas
+ * Las URLs firmadas apuntan a /api/v1/files y se validan con HMAC
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly key = 'local';
+
+  async put(key: string, body: Buffer, contentType: string): Promise<StoredObject> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+
+    return { key, size: body.length, contentType };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolvePath(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+
+  getSignedUrl(key: string, expiresInSeconds = config.storage.signedUrlExpiresSeconds): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = this.sign(key, expires);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+
+    return `${config.storage.localBaseUrl}/${encodedKey}?expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Valida una URL firmada y devuelve la ruta del archivo
+   */
+  verifySignedRequest(key: string, expires: string, signature: string): { filePath: string; contentType: string } | null {
+    const expiresAt = parseInt(expires, 10);
+    if (!expiresAt || expiresAt < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(key, expiresAt), 'hex');
+    const received = Buffer.from(signature || '', 'hex');
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    return {
+      filePath: this.resolvePath(key),
+      contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream',
+    };
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', config.storage.signingSecret)
+      .update(`${key}:${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Impide salir del directorio de almacenamiento con claves manipuladas
+   */
+  private resolvePath(key: string): string {
+    const root = path.resolve(config.storage.localPath);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw { code: 'INVALID_STORAGE_KEY', message: 'Clave de almacenamiento inválida', status: 400 };
+    }
+    return filePath;
+  }
+}
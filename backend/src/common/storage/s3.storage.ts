@@ -0,0 +1,58 @@
+// src/common/storage/s3.storage.ts
+import AWS from 'aws-sdk';
+import config from '../../config';
+import { StorageProvider, StoredObject } from './storage.provider';
+
+/**
+ * Almacenamiento en S3 con cifrado en reposo y objetos privados
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly key = 's3';
+
+  private client = new AWS.S3({
+    accessKeyId: config.aws.accessKeyId,
+    secretAccessKey: config.aws.secretAccessKey,
+    region: config.aws.region,
+    signatureVersion: 'v4',
+  });
+
+  async put(key: string, body: Buffer, contentType: string): Promise<StoredObject> {
+    await this.client.putObject({
+      Bucket: config.aws.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      ServerSideEncryption: 'AES256',
+    }).promise();
+
+    return { key, size: body.length, contentType };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const object = await this.client.getObject({
+        Bucket: config.aws.bucket,
+        Key: key,
+      }).promise();
+      return object.Body as Buffer;
+    } catch (error: any) {
+      if (error.code === 'NoSuchKey') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.deleteObject({
+      Bucket: config.aws.bucket,
+      Key: key,
+    }).promise();
+  }
+
+  getSignedUrl(key: string, expiresInSeconds = config.storage.signedUrlExpiresSeconds): string {
+    return this.client.getSignedUrl('getObject', {
+      Bucket: config.aws.bucket,
+      Key: key,
+      Expires: expiresInSeconds,
+    });
+  }
+}
@@ -0,0 +1,35 @@
+// src/common/storage/storage.provider.ts
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Almacenamiento de archivos (documentos de directivas y fotos de perfil)
+ * Los archivos son privados; se descargan con URLs firmadas de corta vigencia
+ */
+export interface StorageProvider {
+  readonly key: string;
+
+  /**
+   * Guarda un archivo bajo la clave indicada
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<StoredObject>;
+
+  /**
+   * Lee un archivo; null si no existe
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Elimina un archivo (no falla si no existe)
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Genera una URL firmada de descarga
+   */
+  getSignedUrl(key: string, expiresInSeconds?: number): string;
+}
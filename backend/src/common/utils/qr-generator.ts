@@ -1,5 +1,6 @@
 // src/common/utils/qr-generator.ts
 import QRCode from 'qrcode';
+import sharp from 'sharp';
 import config from '../../config';
 
 interface QRGenerationResult {
@@ -8,14 +9,25 @@ interface QRGenerationResult {
   emergencyUrl: string;
 }
 
+/**
+ * URL que abre el perfil de emergencia de un código
+ */
+export function getEmergencyUrl(qrToken: string): string {
+  return `${config.frontendUrl}/emergency/${qrToken}`;
+}
+
+// Alto de la franja bajo el QR donde se imprime el código manual
+const CAPTION_HEIGHT = 56;
+
 /**
  * Genera un código QR para acceso de emergencia
  * @param qrToken - Token único del paciente
+ * @param caption - Texto impreso bajo el QR (código manual, ej. "7KQ2-M9XD")
  * @returns Objeto con el token, imagen en base64 y URL de emergencia
  */
-export async function generateEmergencyQR(qrToken: string): Promise<QRGenerationResult> {
+export async function generateEmergencyQR(qrToken: string, caption?: string): Promise<QRGenerationResult> {
   // URL que escaneará el personal de emergencia
-  const emergencyUrl = `${config.frontendUrl}/emergency/${qrToken}`;
+  const emergencyUrl = getEmergencyUrl(qrToken);
   
   // Opciones de generación del QR
   const options: QRCode.QRCodeToDataURLOptions = {
@@ -30,7 +42,9 @@ export async function generateEmergencyQR(qrToken: string): Promise<QRGeneration
   };
   
   // Generar la imagen en base64
-  const qrDataUrl = await QRCode.toDataURL(emergencyUrl, options);
+  const qrDataUrl = caption
+    ? await withCaption(await QRCode.toBuffer(emergencyUrl, { ...options, type: 'png' }), caption)
+    : await QRCode.toDataURL(emergencyUrl, options);
   
   return {
     qrToken,
@@ -39,6 +53,65 @@ export async function generateEmergencyQR(qrToken: string): Promise<QRGeneration
   };
 }
 
+/**
+ * Agrega una franja blanca con el texto centrado debajo del QR (data URL PNG)
+ */
+async function withCaption(qrBuffer: Buffer, caption: string): Promise<string> {
+  const { width = 400 } = await sharp(qrBuffer).metadata();
+  const text = caption.replace(/[<>&"']/g, '');
+
+  const label = Buffer.from(
+    `<svg width="${width}" height="${CAPTION_HEIGHT}" xmlns="http://www.w3.org/2000/svg">` +
+    `<text x="50%" y="36" text-anchor="middle" font-family="DejaVu Sans Mono, monospace" ` +
+    `font-size="30" font-weight="bold" letter-spacing="4" fill="#1E40AF">${text}</text></svg>`
+  );
+
+  const png = await sharp(qrBuffer)
+    .extend({ bottom: CAPTION_HEIGHT, background: '#FFFFFF' })
+    .composite([{ input: label, gravity: 'south' }])
+    .png()
+    .toBuffer();
+
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+/**
+ * Genera el QR de la tarjeta offline: el JWS firmado va en el fragmento de la URL,
+ * así no se envía al servidor y la app lo verifica localmente
+ * @param cardToken - JWS compacto con el resumen de emergencia
+ */
+export async function generateOfflineCardQR(cardToken: string): Promise<{ cardUrl: string; qrDataUrl: string }> {
+  const cardUrl = `${config.frontendUrl}/emergency/offline#${cardToken}`;
+
+  // Corrección media: el contenido es largo y alta corrección haría el QR muy denso
+  const qrDataUrl = await QRCode.toDataURL(cardUrl, {
+    type: 'image/png',
+    width: 600,
+    margin: 2,
+    color: {
+      dark: '#991B1B',  // Rojo para distinguirla del QR en línea
+      light: '#FFFFFF',
+    },
+    errorCorrectionLevel: 'M',
+  });
+
+  return { cardUrl, qrDataUrl };
+}
+
+/**
+ * Genera el QR de verificación de una voluntad anticipada
+ * @param documentHash - SHA-256 del contenido de la directiva
+ * @returns URL pública de verificación e imagen PNG
+ */
+export async function generateDirectiveVerificationQR(
+  documentHash: string
+): Promise<{ verificationUrl: string; qrBuffer: Buffer }> {
+  const verificationUrl = `${config.frontendUrl}/verificar-directiva/${documentHash}`;
+  const qrBuffer = await generateQRBuffer(verificationUrl);
+
+  return { verificationUrl, qrBuffer };
+}
+
 /**
  * Genera un QR como Buffer (para guardar como archivo)
  */
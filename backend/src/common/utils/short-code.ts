@@ -0,0 +1,63 @@
+// src/common/utils/short-code.ts
+// Código corto de acceso para dictarlo por teléfono: 7 caracteres Crockford base32
+// más un dígito verificador (Luhn mod 32), ej. "7KQ2-M9XD"
+import { randomInt } from 'crypto';
+
+// Crockford base32: sin I, L, O ni U para evitar confusiones al dictar
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const BASE = ALPHABET.length;
+const DATA_LENGTH = 7;
+
+export const SHORT_CODE_LENGTH = DATA_LENGTH + 1;
+
+// Luhn mod N: detecta un carácter equivocado y la mayoría de transposiciones
+function checkCharacter(data: string): string {
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = data.length - 1; i >= 0; i--) {
+    let addend = factor * ALPHABET.indexOf(data[i]);
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / BASE) + (addend % BASE);
+    sum += addend;
+  }
+
+  return ALPHABET[(BASE - (sum % BASE)) % BASE];
+}
+
+/**
+ * Genera un código nuevo (sin formato, 8 caracteres)
+ */
+export function generateShortCode(): string {
+  let data = '';
+  for (let i = 0; i < DATA_LENGTH; i++) {
+    data += ALPHABET[randomInt(BASE)];
+  }
+  return data + checkCharacter(data);
+}
+
+/**
+ * Normaliza lo que se capturó o dictó: mayúsculas, sin guiones ni espacios,
+ * I/L → 1 y O → 0. Regresa null si el formato o el dígito verificador no cuadran.
+ */
+export function normalizeShortCode(input: string): string | null {
+  const code = input
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/[IL]/g, '1')
+    .replace(/O/g, '0');
+
+  if (code.length !== SHORT_CODE_LENGTH || [...code].some((char) => !ALPHABET.includes(char))) {
+    return null;
+  }
+
+  const data = code.slice(0, DATA_LENGTH);
+  return checkCharacter(data) === code[DATA_LENGTH] ? code : null;
+}
+
+/**
+ * Formato para imprimir y dictar: dos grupos de cuatro
+ */
+export function formatShortCode(code: string): string {
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
@@ -0,0 +1,98 @@
+// src/common/utils/upload.ts
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import sharp from 'sharp';
+
+const MB = 1024 * 1024;
+
+const DOCUMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+const PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const DOCUMENT_MAX_SIZE = 10 * MB;
+export const PHOTO_MAX_SIZE = 5 * MB;
+
+// Dimensión de la foto de perfil (cuadrada)
+const PHOTO_SIZE = 512;
+
+function createUpload(allowedTypes: string[], maxSize: number) {
+  return multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxSize, files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (allowedTypes.includes(file.mimetype)) {
+        callback(null, true);
+      } else {
+        callback(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+      }
+    },
+  });
+}
+
+/**
+ * Recibe un único archivo multipart y responde con el formato de error de la API
+ */
+function singleFile(allowedTypes: string[], maxSize: number, field: string) {
+  const handler = createUpload(allowedTypes, maxSize).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        if (err.code === 'LIMIT_FILE_SIZE') {
+          return res.status(413).json({
+            success: false,
+            error: { code: 'FILE_TOO_LARGE', message: `El archivo excede ${maxSize / MB} MB` },
+          });
+        }
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_FILE_TYPE',
+            message: `Tipo de archivo no permitido. Formatos aceptados: ${allowedTypes.join(', ')}`,
+          },
+        });
+      }
+      if (err) {
+        return next(err);
+      }
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'FILE_REQUIRED', message: `El archivo "${field}" es requerido` },
+        });
+      }
+      next();
+    });
+  };
+}
+
+export const documentUpload = (field: string) => singleFile(DOCUMENT_MIME_TYPES, DOCUMENT_MAX_SIZE, field);
+export const photoUpload = (field: string) => singleFile(PHOTO_MIME_TYPES, PHOTO_MAX_SIZE, field);
+
+/**
+ * Comprueba que el contenido coincida con el tipo declarado
+ * (el MIME lo envía el cliente y no es confiable)
+ */
+export async function assertFileContent(file: Express.Multer.File): Promise<void> {
+  const valid = file.mimetype === 'application/pdf'
+    ? file.buffer.subarray(0, 5).toString('latin1') === '%PDF-'
+    : await sharp(file.buffer).metadata().then(() => true, () => false);
+
+  if (!valid) {
+    throw { code: 'INVALID_FILE_CONTENT', message: 'El contenido del archivo no corresponde a su tipo', status: 400 };
+  }
+}
+
+/**
+ * Normaliza la foto de perfil: orientación EXIF, recorte cuadrado y WebP sin metadatos
+ */
+export async function processProfilePhoto(buffer: Buffer): Promise<Buffer> {
+  try {
+    return await sharp(buffer)
+      .rotate()
+      .resize(PHOTO_SIZE, PHOTO_SIZE, { fit: 'cover', position: 'attention' })
+      .webp({ quality: 85 })
+      .toBuffer();
+  } catch {
+    throw { code: 'INVALID_FILE_CONTENT', message: 'La imagen no se pudo procesar', status: 400 };
+  }
+}
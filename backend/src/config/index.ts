@@ -22,10 +22,17 @@ export const config = {
   jwt: {
     secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production',
     adminSecret: process.env.JWT_ADMIN_SECRET || 'admin-super-secret-jwt-key-change-in-production',
+    staffSecret: process.env.JWT_STAFF_SECRET || 'staff-super-secret-jwt-key-change-in-production',
     accessExpiresIn: process.env.JWT_ACCESS_EXPIRES_IN || '15m',
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
   },
 
+  // OAuth2 client_credentials para instituciones (PAE)
+  oauth: {
+    secret: process.env.OAUTH_TOKEN_SECRET || 'oauth-super-secret-jwt-key-change-in-production',
+    tokenExpiresInSeconds: parseInt(process.env.OAUTH_TOKEN_EXPIRES_IN || '3600', 10),
+  },
+
   // Admin settings
   admin: {
     maxLoginAttempts: 5,
@@ -40,8 +47,16 @@ export const config = {
   
   // PSC NOM-151
   psc: {
+    provider: process.env.PSC_PROVIDER || 'local', // 'local' (pruebas, sin validez legal) | 'http'
     endpoint: process.env.PSC_ENDPOINT || 'https://api.psc-demo.mx/v1',
     apiKey: process.env.PSC_API_KEY || 'demo-key',
+    policyOid: process.env.PSC_POLICY_OID || '2.16.484.101.10.316.2.1',
+    timeoutMs: parseInt(process.env.PSC_TIMEOUT_MS || '10000', 10),
+    localSecret: process.env.PSC_LOCAL_SECRET || 'psc-local-secret-only-for-testing',
+    // Confianza en el certificado que trae la constancia: CA(s) emisora(s) en PEM o huella SHA-256.
+    // Sin ninguna de las dos, la firma se verifica con el PSC (/timestamps/verify)
+    caCert: (process.env.PSC_CA_CERT || '').replace(/\\n/g, '\n'),
+    certFingerprint: process.env.PSC_CERT_FINGERPRINT || '',
   },
   
   // Email (SendGrid/SMTP)
@@ -58,6 +73,8 @@ export const config = {
     sid: process.env.TWILIO_ACCOUNT_SID || '',
     token: process.env.TWILIO_AUTH_TOKEN || '',
     phone: process.env.TWILIO_PHONE_NUMBER || '',
+    // URL pública del webhook de SMS entrantes tal como la configura Twilio (para validar la firma)
+    inboundWebhookUrl: process.env.TWILIO_INBOUND_WEBHOOK_URL || '',
   },
   
   // AWS S3
@@ -68,6 +85,106 @@ export const config = {
     region: process.env.AWS_REGION || 'us-east-1',
   },
 
+  // Almacenamiento de archivos (documentos y fotos)
+  storage: {
+    provider: process.env.STORAGE_PROVIDER || 'local', // 'local' (desarrollo/pruebas) | 's3'
+    localPath: process.env.STORAGE_LOCAL_PATH || './uploads',
+    localBaseUrl: process.env.STORAGE_LOCAL_BASE_URL || 'http://localhost:3001/api/v1/files',
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || 'storage-signing-secret-change-in-production',
+    signedUrlExpiresSeconds: parseInt(process.env.STORAGE_SIGNED_URL_EXPIRES || '300', 10),
+  },
+
+  // Representantes
+  representatives: {
+    // Notificar emergencias a representantes que aún no aceptan la designación (se marcan como no confirmados)
+    notifyUnconfirmed: process.env.REPRESENTATIVE_NOTIFY_UNCONFIRMED !== 'false',
+  },
+
+  // Alertas de pánico: ubicación en vivo
+  panic: {
+    // Distancia recorrida (km) a partir de la cual se recalculan los hospitales cercanos
+    hospitalRefreshKm: parseFloat(process.env.PANIC_HOSPITAL_REFRESH_KM || '1'),
+    // Puntos del trayecto que se devuelven al consultar la alerta
+    trailMaxPoints: parseInt(process.env.PANIC_TRAIL_MAX_POINTS || '500', 10),
+  },
+
+  // Interoperabilidad FHIR R4 (exportación/importación del perfil)
+  fhir: {
+    // Base de los identificadores y extensiones propias de VIDA
+    systemBase: process.env.FHIR_SYSTEM_BASE || 'https://sistemavida.mx/fhir',
+    // Recursos máximos aceptados en un Bundle importado
+    maxImportEntries: parseInt(process.env.FHIR_MAX_IMPORT_ENTRIES || '500', 10),
+  },
+
+  // Tarjeta de emergencia offline (QR firmado con ES256 y verificable sin red)
+  offlineCard: {
+    // Llave privada EC P-256 en PEM (PKCS#8); sin ella se genera una efímera al iniciar
+    privateKey: (process.env.OFFLINE_CARD_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+    keyId: process.env.OFFLINE_CARD_KEY_ID || 'vida-card-1',
+    // JWKs públicos de llaves anteriores (JSON), para que las tarjetas ya impresas sigan validando
+    previousPublicKeys: process.env.OFFLINE_CARD_PREVIOUS_KEYS || '[]',
+    validityDays: parseInt(process.env.OFFLINE_CARD_VALIDITY_DAYS || '365', 10),
+    maxAllergies: parseInt(process.env.OFFLINE_CARD_MAX_ALLERGIES || '3', 10),
+    // Accesos offline más antiguos que esto no se aceptan al sincronizar
+    syncMaxAgeDays: parseInt(process.env.OFFLINE_CARD_SYNC_MAX_AGE_DAYS || '30', 10),
+    // /offline/sync es público: solicitudes y entradas por ventana, por IP y por tarjeta
+    syncWindowMinutes: parseInt(process.env.OFFLINE_CARD_SYNC_WINDOW_MINUTES || '15', 10),
+    syncMaxRequestsPerIp: parseInt(process.env.OFFLINE_CARD_SYNC_MAX_REQUESTS_PER_IP || '20', 10),
+    syncMaxEntriesPerIp: parseInt(process.env.OFFLINE_CARD_SYNC_MAX_ENTRIES_PER_IP || '200', 10),
+    syncMaxEntriesPerCard: parseInt(process.env.OFFLINE_CARD_SYNC_MAX_ENTRIES_PER_CARD || '20', 10),
+  },
+
+  // Código manual de acceso (8 caracteres): el espacio es pequeño, los límites son estrictos
+  shortCode: {
+    windowMinutes: parseInt(process.env.SHORT_CODE_WINDOW_MINUTES || '15', 10),
+    // Códigos bien formados que no existen por IP (se rechazan) y en todo el servidor (solo alerta)
+    maxFailuresPerIp: parseInt(process.env.SHORT_CODE_MAX_FAILURES_PER_IP || '10', 10),
+    globalFailuresAlert: parseInt(process.env.SHORT_CODE_GLOBAL_FAILURES_ALERT || '300', 10),
+    // Accesos exitosos con el mismo código (un código filtrado no se puede reusar sin límite)
+    maxUsesPerCode: parseInt(process.env.SHORT_CODE_MAX_USES_PER_CODE || '10', 10),
+  },
+
+  // Detección de abuso en escaneos de QR (ver scan-anomaly.service.ts)
+  scanAnomaly: {
+    windowMinutes: parseInt(process.env.SCAN_ANOMALY_WINDOW_MINUTES || '10', 10),
+    // Accesos públicos al mismo código dentro de la ventana
+    maxScansPerToken: parseInt(process.env.SCAN_ANOMALY_MAX_SCANS_PER_TOKEN || '8', 10),
+    maxDistinctIps: parseInt(process.env.SCAN_ANOMALY_MAX_DISTINCT_IPS || '5', 10),
+    // Dos escaneos con ubicación que exigirían viajar más rápido que esto
+    maxTravelSpeedKmh: parseInt(process.env.SCAN_ANOMALY_MAX_TRAVEL_SPEED_KMH || '900', 10),
+    minTravelDistanceKm: parseInt(process.env.SCAN_ANOMALY_MIN_TRAVEL_DISTANCE_KM || '50', 10),
+    // Tokens inexistentes desde una misma IP antes de bloquearla
+    maxInvalidTokensPerIp: parseInt(process.env.SCAN_ANOMALY_MAX_INVALID_TOKENS_PER_IP || '20', 10),
+    // Tipos de incidente que suspenden el código; el resto solo alerta.
+    // SCAN_BURST es opcional (en urgencias se escanea muchas veces) e IMPOSSIBLE_TRAVEL nunca suspende
+    autoSuspendTypes: (process.env.SCAN_ANOMALY_AUTO_SUSPEND_TYPES || 'MANY_IPS')
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean),
+  },
+
+  // Tareas programadas (expiración y recordatorios)
+  jobs: {
+    enabled: process.env.JOBS_ENABLED !== 'false',
+    directiveIntervalMinutes: parseInt(process.env.JOBS_DIRECTIVE_INTERVAL_MINUTES || '60', 10),
+    panicIntervalMinutes: parseInt(process.env.JOBS_PANIC_INTERVAL_MINUTES || '15', 10),
+    // Vigencia de una directiva desde su activación o renovación
+    directiveValidityDays: parseInt(process.env.DIRECTIVE_VALIDITY_DAYS || '730', 10),
+    // Días antes de expiresAt en que se recuerda renovar la directiva
+    directiveReminderDays: (process.env.DIRECTIVE_REMINDER_DAYS || '90,30,7')
+      .split(',')
+      .map((days) => parseInt(days.trim(), 10))
+      .filter((days) => days > 0)
+      .sort((a, b) => b - a),
+    panicAlertExpirationHours: parseInt(process.env.PANIC_ALERT_EXPIRATION_HOURS || '24', 10),
+    panicEscalationIntervalMinutes: parseInt(process.env.JOBS_PANIC_ESCALATION_INTERVAL_MINUTES || '1', 10),
+    // Minutos que espera cada nivel de prioridad antes de notificar al siguiente
+    panicEscalationMinutes: parseInt(process.env.PANIC_ESCALATION_MINUTES || '5', 10),
+    // Historial de JobRun (el escalamiento corre cada minuto: ~1,440 registros diarios)
+    runCleanupIntervalMinutes: parseInt(process.env.JOBS_RUN_CLEANUP_INTERVAL_MINUTES || '1440', 10),
+    runRetentionDays: parseInt(process.env.JOBS_RUN_RETENTION_DAYS || '14', 10),
+  },
+
   // Stripe - Pagos
   stripe: {
     secretKey: process.env.STRIPE_SECRET_KEY || '',
@@ -13,10 +13,16 @@ import config from './config';
 import authController from './modules/auth/auth.controller';
 import pupController from './modules/pup/pup.controller';
 import directivesController from './modules/directives/directives.controller';
+import witnessController from './modules/directives/witness.controller';
+import directiveVerificationController from './modules/directives/directive-verification.controller';
 import representativesController from './modules/representatives/representatives.controller';
+import representativeInvitationController from './modules/representatives/representative-invitation.controller';
+import representativePortalController from './modules/representatives/representative-portal.controller';
 import emergencyController from './modules/emergency/emergency.controller';
+import { offlineCardService } from './modules/emergency/offline-card.service';
 import hospitalController from './modules/hospital/hospital.controller';
 import panicController from './modules/panic/panic.controller';
+import panicSmsWebhookController from './modules/panic/panic-sms-webhook.controller';
 import insuranceController from './modules/insurance/insurance.controller';
 import adminAuthController from './modules/admin/admin-auth.controller';
 import adminController from './modules/admin/admin.controller';
@@ -24,6 +30,13 @@ import webauthnController from './modules/auth/webauthn.controller';
 import paymentsController from './modules/payments/payments.controller';
 import paymentsAdminController from './modules/payments/payments-admin.controller';
 import paymentsWebhookController from './modules/payments/payments-webhook.controller';
+import staffAuthController from './modules/staff/staff-auth.controller';
+import oauthController from './modules/oauth/oauth.controller';
+import filesController from './modules/files/files.controller';
+import fhirController from './modules/fhir/fhir.controller';
+import catalogController from './modules/catalog/catalog.controller';
+import { jobScheduler } from './modules/jobs';
+import { registerSocketHandlers } from './modules/realtime/socket.gateway';
 
 // Socket.io
 import { createServer } from 'http';
@@ -88,6 +101,7 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
+  exposedHeaders: ['Content-Disposition', 'X-Document-Hash'],
 }));
 
 // Compresión
@@ -132,6 +146,32 @@ const authLimiter = rateLimit({
   },
 });
 
+// Rate limiting para verificación pública de directivas
+const verificationLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutos
+  max: config.env === 'development' ? 100 : 30,
+  message: {
+    success: false,
+    error: {
+      code: 'VERIFICATION_RATE_LIMIT',
+      message: 'Demasiadas verificaciones. Por favor, espere 15 minutos.',
+    },
+  },
+});
+
+// Rate limiting para la sincronización de accesos offline (pública, sin cuenta)
+const offlineSyncLimiter = rateLimit({
+  windowMs: config.offlineCard.syncWindowMinutes * 60 * 1000,
+  max: config.env === 'development' ? 100 : config.offlineCard.syncMaxRequestsPerIp,
+  message: {
+    success: false,
+    error: {
+      code: 'OFFLINE_SYNC_RATE_LIMIT',
+      message: `Demasiadas sincronizaciones. Por favor, espere ${config.offlineCard.syncWindowMinutes} minutos.`,
+    },
+  },
+});
+
 // ==================== RUTAS DE SALUD ====================
 
 app.get('/health', (req: Request, res: Response) => {
@@ -180,13 +220,41 @@ app.use('/api/v1/auth/webauthn', authLimiter, webauthnController);
 // Perfil del paciente
 app.use('/api/v1/profile', pupController);
 
+// Interoperabilidad FHIR R4 (exportación/importación del perfil)
+app.use('/api/v1/fhir', fhirController);
+
+// Catálogos médicos codificados (CIE-10, medicamentos, alérgenos) para autocompletado
+app.use('/api/v1/catalog', catalogController);
+
 // Directivas de voluntad anticipada
 app.use('/api/v1/directives', directivesController);
 
+// Firma de testigos de voluntades anticipadas (enlace público con rate limiting)
+app.use('/api/v1/witness', authLimiter, witnessController);
+
+// Verificación pública de autenticidad de directivas (con rate limiting)
+app.use('/api/v1/directive-verification', verificationLimiter, directiveVerificationController);
+
+// Archivos del almacenamiento local (URLs firmadas)
+app.use('/api/v1/files', filesController);
+
 // Representantes
 app.use('/api/v1/representatives', representativesController);
 
+// Invitaciones a representantes (enlace público con rate limiting)
+app.use('/api/v1/representative-invitations', authLimiter, representativeInvitationController);
+
+// Portal de representantes
+app.use('/api/v1/representative-portal', representativePortalController);
+
+// Autenticación de personal médico institucional (con rate limiting)
+app.use('/api/v1/staff/auth', authLimiter, staffAuthController);
+
+// OAuth2 para sistemas hospitalarios (con rate limiting)
+app.use('/api/v1/oauth', authLimiter, oauthController);
+
 // Acceso de emergencia
+app.use('/api/v1/emergency/offline/sync', offlineSyncLimiter);
 app.use('/api/v1/emergency', emergencyController);
 
 // Hospitales
@@ -198,6 +266,9 @@ app.use('/api/v1/insurance', insuranceController);
 // Alertas de panico
 app.use('/api/v1/emergency/panic', panicController);
 
+// Respuestas SMS de representantes (Twilio)
+app.use('/api/v1/webhooks/sms', panicSmsWebhookController);
+
 // Pagos y suscripciones
 app.use('/api/v1/payments', paymentsController);
 
@@ -244,30 +315,15 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 
 const startServer = async () => {
   try {
+    // Llave de las tarjetas offline (obligatoria en producción)
+    offlineCardService.assertSigningKeyConfigured();
+
     // Conectar a la base de datos
     await prisma.$connect();
     console.log('✅ Conectado a la base de datos PostgreSQL');
 
-    // Configurar eventos de Socket.io
-    io.on('connection', (socket) => {
-      console.log(`🔌 Cliente conectado: ${socket.id}`);
-
-      // Unirse a una sala por userId (para recibir alertas)
-      socket.on('join-user', (userId: string) => {
-        socket.join(`user-${userId}`);
-        console.log(`👤 Usuario ${userId} unido a su sala`);
-      });
-
-      // Unirse a sala de representante
-      socket.on('join-representative', (userId: string) => {
-        socket.join(`representative-${userId}`);
-        console.log(`👥 Representante unido a sala de usuario ${userId}`);
-      });
-
-      socket.on('disconnect', () => {
-        console.log(`🔌 Cliente desconectado: ${socket.id}`);
-      });
-    });
+    // Configurar autenticación y salas de Socket.io
+    registerSocketHandlers(io);
 
     // Iniciar servidor HTTP con Socket.io
     httpServer.listen(config.port, config.host, () => {
@@ -284,6 +340,13 @@ const startServer = async () => {
  ║                                                               ║
  ╚═══════════════════════════════════════════════════════════════╝
       `);
+
+      // Expiración de directivas y alertas, recordatorios de renovación
+      if (config.jobs.enabled) {
+        jobScheduler.start().catch((error) => {
+          console.error('❌ Error iniciando tareas programadas:', error);
+        });
+      }
     });
   } catch (error) {
     console.error('❌ Error iniciando el servidor:', error);
@@ -294,12 +357,14 @@ const startServer = async () => {
 // Manejo de señales de terminación
 process.on('SIGINT', async () => {
   console.log('\n🛑 Cerrando servidor...');
+  jobScheduler.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Cerrando servidor...');
+  jobScheduler.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -1,5 +1,5 @@
 // src/modules/admin/admin-audit.service.ts
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, QrScanIncidentType } from '@prisma/client';
 import { adminAuthService } from './admin-auth.service';
 
 const prisma = new PrismaClient();
@@ -310,6 +310,8 @@ export class AdminAuditService {
               phone: true,
             },
           },
+          assignedAdmin: { select: { id: true, name: true } },
+          resolvedByAdmin: { select: { id: true, name: true } },
         },
         orderBy: { createdAt: 'desc' },
         skip: (page - 1) * limit,
@@ -337,6 +339,149 @@ export class AdminAuditService {
     };
   }
 
+  /**
+   * Lista incidentes de abuso en escaneos de QR (ver scan-anomaly.service.ts)
+   */
+  async listQrIncidents(
+    options: {
+      page?: number;
+      limit?: number;
+      userId?: string;
+      type?: QrScanIncidentType;
+      status?: 'open' | 'resolved';
+      startDate?: Date;
+      endDate?: Date;
+    },
+    requesterId: string
+  ) {
+    const {
+      page = 1,
+      limit = 50,
+      userId,
+      type,
+      status,
+      startDate,
+      endDate,
+    } = options;
+
+    const where: any = {};
+
+    if (userId) {
+      where.userId = userId;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (status) {
+      where.resolvedAt = status === 'open' ? null : { not: null };
+    }
+
+    if (startDate || endDate) {
+      where.createdAt = {};
+      if (startDate) where.createdAt.gte = startDate;
+      if (endDate) where.createdAt.lte = endDate;
+    }
+
+    const [incidents, total] = await Promise.all([
+      prisma.qrScanIncident.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+          qrToken: {
+            select: {
+              id: true,
+              label: true,
+              medium: true,
+              suspendedAt: true,
+              revokedAt: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.qrScanIncident.count({ where }),
+    ]);
+
+    // Registrar acceso
+    await adminAuthService.logAudit({
+      adminId: requesterId,
+      action: 'VIEW_QR_INCIDENTS',
+      resource: 'qr_scan_incidents',
+      details: { filters: { userId, type, status, startDate, endDate } },
+    });
+
+    return {
+      incidents,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Cierra un incidente de QR; opcionalmente reactiva el codigo suspendido
+   */
+  async resolveQrIncident(
+    incidentId: string,
+    data: { reactivateToken?: boolean; notes?: string },
+    adminId: string
+  ) {
+    const incident = await prisma.qrScanIncident.findUnique({
+      where: { id: incidentId },
+      include: { qrToken: { select: { id: true, suspendedAt: true, revokedAt: true } } },
+    });
+
+    if (!incident) {
+      throw { code: 'NOT_FOUND', message: 'Incidente no encontrado', status: 404 };
+    }
+
+    if (incident.resolvedAt) {
+      throw { code: 'ALREADY_RESOLVED', message: 'El incidente ya fue resuelto', status: 400 };
+    }
+
+    const reactivate = !!data.reactivateToken && !!incident.qrToken?.suspendedAt && !incident.qrToken.revokedAt;
+
+    const [resolved] = await prisma.$transaction([
+      prisma.qrScanIncident.update({
+        where: { id: incidentId },
+        data: {
+          resolvedAt: new Date(),
+          resolvedById: adminId,
+          resolutionNotes: data.notes?.trim() || null,
+        },
+      }),
+      ...(reactivate
+        ? [prisma.qrToken.update({
+            where: { id: incident.qrToken!.id },
+            data: { suspendedAt: null, suspendedReason: null },
+          })]
+        : []),
+    ]);
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'RESOLVE_QR_INCIDENT',
+      resource: 'qr_scan_incidents',
+      resourceId: incidentId,
+      details: { type: incident.type, userId: incident.userId, tokenReactivated: reactivate },
+    });
+
+    return { ...resolved, tokenReactivated: reactivate };
+  }
+
   /**
    * Exporta logs de auditoria a CSV
    */
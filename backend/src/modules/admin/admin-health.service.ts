@@ -2,6 +2,8 @@
 import { PrismaClient } from '@prisma/client';
 import { adminAuthService } from './admin-auth.service';
 import config from '../../config';
+import { getNom151Provider } from '../directives/nom151';
+import { jobScheduler } from '../jobs';
 
 const prisma = new PrismaClient();
 
@@ -155,6 +157,9 @@ export class AdminHealthService {
     // Verificar PSC NOM-151
     services.push(await this.checkPSCStatus());
 
+    // Verificar tareas programadas
+    services.push(await this.checkJobsStatus());
+
     return services;
   }
 
@@ -216,19 +221,147 @@ export class AdminHealthService {
    * Verifica estado de PSC NOM-151
    */
   private async checkPSCStatus(): Promise<ServiceStatus> {
-    const configured = !!(config.psc.apiKey && config.psc.endpoint);
+    const provider = getNom151Provider();
+
+    if (!provider) {
+      return {
+        name: 'PSC NOM-151',
+        status: 'down',
+        lastCheck: new Date(),
+        details: {
+          provider: config.psc.provider,
+          error: config.psc.provider === 'local' && config.env === 'production'
+            ? 'El PSC de pruebas no está permitido en producción'
+            : 'Proveedor desconocido',
+        },
+      };
+    }
+
+    const result = await provider.checkStatus();
+
+    let status: ServiceStatus['status'] = result.available ? 'healthy' : 'down';
+    if (!result.available && result.details?.configured === false) {
+      status = 'degraded';
+    }
 
     return {
       name: 'PSC NOM-151',
-      status: configured ? 'healthy' : 'degraded',
+      status,
+      responseTime: result.responseTime,
       lastCheck: new Date(),
       details: {
-        configured,
-        endpoint: config.psc.endpoint,
+        provider: provider.key,
+        providerName: provider.name,
+        endpoint: provider.key === 'http' ? config.psc.endpoint : null,
+        ...result.details,
       },
     };
   }
 
+  /**
+   * Verifica la ultima ejecucion de cada tarea programada
+   * Degradado si alguna fallo o no ha corrido en el doble de su intervalo
+   */
+  private async checkJobsStatus(): Promise<ServiceStatus> {
+    const jobs = await this.getJobsStatus();
+    const now = Date.now();
+
+    const stale = jobs.filter((job) =>
+      !job.lastRun || now - job.lastRun.startedAt.getTime() > job.intervalMinutes * 2 * 60 * 1000
+    );
+    const failed = jobs.filter((job) => job.lastRun?.status === 'FAILED');
+
+    let status: ServiceStatus['status'] = 'healthy';
+    if (!config.jobs.enabled || stale.length > 0 || failed.length > 0) {
+      status = 'degraded';
+    }
+
+    return {
+      name: 'Tareas programadas',
+      status,
+      lastCheck: new Date(),
+      optional: !config.jobs.enabled,
+      details: {
+        enabled: config.jobs.enabled,
+        jobs,
+      },
+    };
+  }
+
+  /**
+   * Estado de cada tarea con su ultima ejecucion
+   */
+  async getJobsStatus() {
+    return Promise.all(jobScheduler.getJobs().map(async (job) => {
+      const [lastRun, lastSuccess] = await Promise.all([
+        prisma.jobRun.findFirst({
+          where: { job: job.name },
+          orderBy: { startedAt: 'desc' },
+        }),
+        prisma.jobRun.findFirst({
+          where: { job: job.name, status: 'SUCCEEDED' },
+          orderBy: { startedAt: 'desc' },
+          select: { startedAt: true },
+        }),
+      ]);
+
+      return {
+        name: job.name,
+        description: job.description,
+        intervalMinutes: job.intervalMinutes,
+        running: jobScheduler.isRunning(job.name),
+        lastRun,
+        lastSuccessAt: lastSuccess?.startedAt ?? null,
+      };
+    }));
+  }
+
+  /**
+   * Historial de ejecuciones de tareas programadas
+   */
+  async listJobRuns(options: { job?: string; page?: number; limit?: number }) {
+    const page = options.page || 1;
+    const limit = Math.min(options.limit || 20, 100);
+    const where = options.job ? { job: options.job } : {};
+
+    const [runs, total] = await Promise.all([
+      prisma.jobRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.jobRun.count({ where }),
+    ]);
+
+    return {
+      runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Ejecuta manualmente una tarea programada
+   */
+  async runJob(adminId: string, name: string) {
+    const run = await jobScheduler.runJob(name, 'MANUAL', adminId);
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'JOB_RUN',
+      resource: 'system',
+      resourceId: run.id,
+      details: { job: name, status: run.status },
+    });
+
+    return run;
+  }
+
   /**
    * Obtiene informacion del sistema
    */
@@ -1,6 +1,9 @@
 // src/modules/admin/admin-institutions.service.ts
 import { PrismaClient, InstitutionType, AttentionLevel } from '@prisma/client';
+import bcrypt from 'bcryptjs';
 import { adminAuthService } from './admin-auth.service';
+import { generateSecureToken } from '../../common/utils/encryption';
+import { ALL_OAUTH_SCOPES, OAUTH_SCOPES } from '../oauth/oauth.service';
 
 const prisma = new PrismaClient();
 
@@ -103,6 +106,9 @@ export class AdminInstitutionsService {
           isVerified: true,
           verifiedAt: true,
           createdAt: true,
+          oauthClientId: true,
+          oauthScopes: true,
+          oauthIssuedAt: true,
           _count: {
             select: {
               emergencyAccesses: true,
@@ -367,8 +373,9 @@ export class AdminInstitutionsService {
 
   /**
    * Genera credenciales OAuth para una institucion
+   * Si ya existian, se reemplazan (nuevo client_id y secret)
    */
-  async generateOAuthCredentials(institutionId: string, adminId: string) {
+  async generateOAuthCredentials(institutionId: string, adminId: string, scopes?: string[]) {
     const institution = await prisma.medicalInstitution.findUnique({
       where: { id: institutionId },
     });
@@ -377,18 +384,19 @@ export class AdminInstitutionsService {
       throw { code: 'INSTITUTION_NOT_FOUND', message: 'Institucion no encontrada', status: 404 };
     }
 
+    const grantedScopes = this.validateScopes(scopes);
+
     // Generar credenciales
-    const clientId = `vida_${institutionId.slice(0, 8)}_${Date.now().toString(36)}`;
-    const clientSecret = Array.from({ length: 32 }, () =>
-      Math.random().toString(36).charAt(2)
-    ).join('');
+    const clientId = `vida_${institutionId.slice(0, 8)}_${generateSecureToken(6)}`;
+    const clientSecret = generateSecureToken(32);
 
-    // Guardar hash del secret (en produccion usar bcrypt)
     const updated = await prisma.medicalInstitution.update({
       where: { id: institutionId },
       data: {
         oauthClientId: clientId,
-        oauthClientSecret: clientSecret, // En produccion, guardar hash
+        oauthClientSecret: await bcrypt.hash(clientSecret, 12),
+        oauthScopes: grantedScopes,
+        oauthIssuedAt: new Date(),
       },
       select: {
         id: true,
@@ -403,6 +411,7 @@ export class AdminInstitutionsService {
       action: 'GENERATE_OAUTH_CREDENTIALS',
       resource: 'institutions',
       resourceId: institutionId,
+      details: { clientId, scopes: grantedScopes, replacedClientId: institution.oauthClientId },
     });
 
     // Devolver credenciales (solo esta vez se muestra el secret)
@@ -411,9 +420,111 @@ export class AdminInstitutionsService {
       institutionName: updated.name,
       clientId,
       clientSecret, // Solo se muestra una vez
+      scopes: grantedScopes,
+      warning: 'Guarde estas credenciales. El secreto no se mostrara de nuevo.',
+    };
+  }
+
+  /**
+   * Rota el secret OAuth manteniendo el client_id
+   * Los tokens emitidos con el secret anterior dejan de ser validos
+   */
+  async rotateOAuthSecret(institutionId: string, adminId: string) {
+    const institution = await prisma.medicalInstitution.findUnique({
+      where: { id: institutionId },
+      select: { id: true, name: true, oauthClientId: true, oauthScopes: true },
+    });
+
+    if (!institution) {
+      throw { code: 'INSTITUTION_NOT_FOUND', message: 'Institucion no encontrada', status: 404 };
+    }
+
+    if (!institution.oauthClientId) {
+      throw { code: 'NO_OAUTH_CREDENTIALS', message: 'La institucion no tiene credenciales OAuth', status: 400 };
+    }
+
+    const clientSecret = generateSecureToken(32);
+
+    await prisma.medicalInstitution.update({
+      where: { id: institutionId },
+      data: {
+        oauthClientSecret: await bcrypt.hash(clientSecret, 12),
+        oauthIssuedAt: new Date(),
+      },
+    });
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'ROTATE_OAUTH_SECRET',
+      resource: 'institutions',
+      resourceId: institutionId,
+      details: { clientId: institution.oauthClientId },
+    });
+
+    return {
+      institutionId: institution.id,
+      institutionName: institution.name,
+      clientId: institution.oauthClientId,
+      clientSecret, // Solo se muestra una vez
+      scopes: institution.oauthScopes,
       warning: 'Guarde estas credenciales. El secreto no se mostrara de nuevo.',
     };
   }
+
+  /**
+   * Revoca las credenciales OAuth de una institucion
+   * Invalida el client_id, el secret y todos los tokens emitidos
+   */
+  async revokeOAuthCredentials(institutionId: string, adminId: string) {
+    const institution = await prisma.medicalInstitution.findUnique({
+      where: { id: institutionId },
+      select: { id: true, oauthClientId: true },
+    });
+
+    if (!institution) {
+      throw { code: 'INSTITUTION_NOT_FOUND', message: 'Institucion no encontrada', status: 404 };
+    }
+
+    if (!institution.oauthClientId) {
+      throw { code: 'NO_OAUTH_CREDENTIALS', message: 'La institucion no tiene credenciales OAuth', status: 400 };
+    }
+
+    await prisma.medicalInstitution.update({
+      where: { id: institutionId },
+      data: {
+        oauthClientId: null,
+        oauthClientSecret: null,
+        oauthScopes: [],
+        oauthIssuedAt: new Date(),
+      },
+    });
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'REVOKE_OAUTH_CREDENTIALS',
+      resource: 'institutions',
+      resourceId: institutionId,
+      details: { clientId: institution.oauthClientId },
+    });
+
+    return { revoked: true };
+  }
+
+  /**
+   * Valida los scopes solicitados; por defecto solo emergency:read
+   */
+  private validateScopes(scopes?: string[]): string[] {
+    if (!scopes || scopes.length === 0) {
+      return [OAUTH_SCOPES.EMERGENCY_READ];
+    }
+
+    const invalid = scopes.filter((scope) => !ALL_OAUTH_SCOPES.includes(scope));
+    if (invalid.length > 0) {
+      throw { code: 'INVALID_SCOPE', message: `Scopes invalidos: ${invalid.join(', ')}`, status: 400 };
+    }
+
+    return Array.from(new Set(scopes));
+  }
 }
 
 export const adminInstitutionsService = new AdminInstitutionsService();
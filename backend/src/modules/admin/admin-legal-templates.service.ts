@@ -0,0 +1,232 @@
+// src/modules/admin/admin-legal-templates.service.ts
+import { PrismaClient, Prisma } from '@prisma/client';
+import { adminAuthService } from './admin-auth.service';
+import { legalTemplateService } from '../directives/legal-template.service';
+
+const prisma = new PrismaClient();
+
+interface LegalTemplateData {
+  stateCode: string;
+  stateName: string;
+  lawName: string;
+  lawDate?: string | null;
+  lawSummary?: string | null;
+  templateHtml?: string | null;
+  templateFields?: unknown;
+  requiresNotary?: boolean;
+  requiresWitnesses?: number;
+  requiresMedicalCert?: boolean;
+  isActive?: boolean;
+}
+
+export class AdminLegalTemplatesService {
+  /**
+   * Lista plantillas legales estatales
+   */
+  async listTemplates(adminId: string) {
+    const templates = await prisma.stateLegalTemplate.findMany({
+      orderBy: { stateName: 'asc' },
+    });
+
+    // Directivas por estado para dimensionar el impacto de un cambio
+    const directivesByState = await prisma.advanceDirective.groupBy({
+      by: ['originState'],
+      _count: { originState: true },
+      where: { originState: { in: templates.map(t => t.stateCode) } },
+    });
+
+    const countByState = directivesByState.reduce((acc, item) => {
+      acc[item.originState!] = item._count.originState;
+      return acc;
+    }, {} as Record<string, number>);
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'LIST_LEGAL_TEMPLATES',
+      resource: 'legal_templates',
+      details: { resultsCount: templates.length },
+    });
+
+    return templates.map(t => ({
+      ...t,
+      directivesCount: countByState[t.stateCode] || 0,
+    }));
+  }
+
+  /**
+   * Obtiene detalle de una plantilla
+   */
+  async getTemplate(adminId: string, templateId: string) {
+    const template = await prisma.stateLegalTemplate.findUnique({
+      where: { id: templateId },
+    });
+
+    if (!template) {
+      throw { code: 'TEMPLATE_NOT_FOUND', message: 'Plantilla no encontrada', status: 404 };
+    }
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'VIEW_LEGAL_TEMPLATE',
+      resource: 'legal_templates',
+      resourceId: templateId,
+    });
+
+    return template;
+  }
+
+  /**
+   * Crea una plantilla para un estado
+   */
+  async createTemplate(adminId: string, data: LegalTemplateData) {
+    if (!data.stateCode || !data.stateName || !data.lawName) {
+      throw { code: 'VALIDATION_ERROR', message: 'stateCode, stateName y lawName son requeridos', status: 400 };
+    }
+
+    const stateCode = data.stateCode.toUpperCase();
+    const existing = await prisma.stateLegalTemplate.findUnique({
+      where: { stateCode },
+    });
+    if (existing) {
+      throw { code: 'DUPLICATE_STATE', message: 'Ya existe una plantilla para ese estado', status: 409 };
+    }
+
+    this.validate(data);
+
+    const template = await prisma.stateLegalTemplate.create({
+      data: {
+        ...this.toPrismaData(data),
+        stateCode,
+        stateName: data.stateName,
+        lawName: data.lawName,
+      },
+    });
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'CREATE_LEGAL_TEMPLATE',
+      resource: 'legal_templates',
+      resourceId: template.id,
+      details: { stateCode },
+    });
+
+    return template;
+  }
+
+  /**
+   * Actualiza una plantilla
+   * Los resumenes legales de las directivas del estado se recalculan
+   */
+  async updateTemplate(adminId: string, templateId: string, data: Partial<LegalTemplateData>) {
+    const existing = await prisma.stateLegalTemplate.findUnique({
+      where: { id: templateId },
+    });
+
+    if (!existing) {
+      throw { code: 'TEMPLATE_NOT_FOUND', message: 'Plantilla no encontrada', status: 404 };
+    }
+
+    // El codigo de estado identifica las directivas asociadas; no se modifica
+    if (data.stateCode && data.stateCode.toUpperCase() !== existing.stateCode) {
+      throw { code: 'STATE_CODE_IMMUTABLE', message: 'El codigo de estado no se puede modificar', status: 400 };
+    }
+
+    this.validate(data);
+
+    const template = await prisma.stateLegalTemplate.update({
+      where: { id: templateId },
+      data: this.toPrismaData(data),
+    });
+
+    const refreshed = await this.refreshLegalBasisSummaries(template.stateCode);
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'UPDATE_LEGAL_TEMPLATE',
+      resource: 'legal_templates',
+      resourceId: templateId,
+      details: { changes: Object.keys(data), directivesRefreshed: refreshed },
+    });
+
+    return template;
+  }
+
+  /**
+   * Elimina una plantilla
+   */
+  async deleteTemplate(adminId: string, templateId: string) {
+    const existing = await prisma.stateLegalTemplate.findUnique({
+      where: { id: templateId },
+    });
+
+    if (!existing) {
+      throw { code: 'TEMPLATE_NOT_FOUND', message: 'Plantilla no encontrada', status: 404 };
+    }
+
+    await prisma.stateLegalTemplate.delete({ where: { id: templateId } });
+
+    const refreshed = await this.refreshLegalBasisSummaries(existing.stateCode);
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'DELETE_LEGAL_TEMPLATE',
+      resource: 'legal_templates',
+      resourceId: templateId,
+      details: { stateCode: existing.stateCode, directivesRefreshed: refreshed },
+    });
+
+    return { deleted: true };
+  }
+
+  /**
+   * Recalcula legalBasisSummary de las directivas vigentes de un estado
+   */
+  private async refreshLegalBasisSummaries(stateCode: string): Promise<number> {
+    const template = await legalTemplateService.getTemplate(stateCode);
+
+    const result = await prisma.advanceDirective.updateMany({
+      where: {
+        originState: stateCode,
+        status: { in: ['DRAFT', 'PENDING_VALIDATION', 'ACTIVE'] },
+      },
+      data: { legalBasisSummary: legalTemplateService.buildLegalBasisSummary(template) },
+    });
+
+    return result.count;
+  }
+
+  private validate(data: Partial<LegalTemplateData>) {
+    if (data.requiresWitnesses !== undefined &&
+        (!Number.isInteger(data.requiresWitnesses) || data.requiresWitnesses < 0 || data.requiresWitnesses > 5)) {
+      throw { code: 'VALIDATION_ERROR', message: 'requiresWitnesses debe ser un entero entre 0 y 5', status: 400 };
+    }
+
+    const errors = legalTemplateService.validateDefinition(data.templateFields, data.templateHtml);
+    if (errors.length > 0) {
+      throw { code: 'INVALID_TEMPLATE', message: errors.join('; '), status: 400 };
+    }
+  }
+
+  private toPrismaData(data: Partial<LegalTemplateData>): Partial<Prisma.StateLegalTemplateCreateInput> {
+    const result: Partial<Prisma.StateLegalTemplateCreateInput> = {};
+
+    if (data.stateName !== undefined) result.stateName = data.stateName;
+    if (data.lawName !== undefined) result.lawName = data.lawName;
+    if (data.lawDate !== undefined) result.lawDate = data.lawDate ? new Date(data.lawDate) : null;
+    if (data.lawSummary !== undefined) result.lawSummary = data.lawSummary;
+    if (data.templateHtml !== undefined) result.templateHtml = data.templateHtml;
+    if (data.templateFields !== undefined) {
+      result.templateFields = data.templateFields === null
+        ? Prisma.JsonNull
+        : (data.templateFields as Prisma.InputJsonValue);
+    }
+    if (data.requiresNotary !== undefined) result.requiresNotary = data.requiresNotary;
+    if (data.requiresWitnesses !== undefined) result.requiresWitnesses = data.requiresWitnesses;
+    if (data.requiresMedicalCert !== undefined) result.requiresMedicalCert = data.requiresMedicalCert;
+    if (data.isActive !== undefined) result.isActive = data.isActive;
+
+    return result;
+  }
+}
+
+export const adminLegalTemplatesService = new AdminLegalTemplatesService();
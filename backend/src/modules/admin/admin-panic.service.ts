@@ -0,0 +1,379 @@
+// src/modules/admin/admin-panic.service.ts
+import { PrismaClient, PanicStatus, PanicCallContact, PanicResolutionOutcome, RepresentativeStatus } from '@prisma/client';
+import { adminAuthService } from './admin-auth.service';
+import { ADMIN_PERMISSIONS } from '../../common/guards/admin-roles.guard';
+import { panicEscalationService, PanicAcknowledgement } from '../panic/panic-escalation.service';
+import { panicService } from '../panic/panic.service';
+import { notificationService, NotificationResult } from '../notification/notification.service';
+import { notifyOperators } from '../realtime/operator-events';
+import { io } from '../../main';
+
+const prisma = new PrismaClient();
+
+const MAX_NOTE_LENGTH = 2000;
+
+// Texto que reciben el paciente y sus representantes al cerrar la alerta
+const OUTCOME_LABELS: Record<PanicResolutionOutcome, string> = {
+  PATIENT_SAFE: 'el paciente se encuentra a salvo',
+  ASSISTED_BY_REPRESENTATIVE: 'un representante atendio la emergencia',
+  EMERGENCY_SERVICES_DISPATCHED: 'se enviaron servicios de emergencia',
+  TRANSFERRED_TO_HOSPITAL: 'el paciente fue trasladado a un hospital',
+  FALSE_ALARM: 'activacion accidental',
+  UNREACHABLE: 'no fue posible contactar al paciente ni a sus representantes',
+  OTHER: 'cerrada por el operador',
+};
+
+export class AdminPanicService {
+  /**
+   * Cola de operadores: alertas activas en las que ningun representante confirmo
+   * Las no atendidas primero, de la mas antigua a la mas reciente
+   */
+  async listQueue() {
+    const alerts = await prisma.panicAlert.findMany({
+      where: {
+        status: PanicStatus.ACTIVE,
+        operatorQueuedAt: { not: null },
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+            representatives: {
+              orderBy: { priority: 'asc' },
+              select: { id: true, name: true, phone: true, relation: true, priority: true, status: true },
+            },
+          },
+        },
+      },
+      orderBy: { operatorQueuedAt: 'asc' },
+    });
+
+    return alerts.sort((a, b) => Number(!!a.acknowledgedAt) - Number(!!b.acknowledgedAt));
+  }
+
+  /**
+   * El operador confirma que atiende la alerta
+   */
+  async acknowledge(alertId: string, adminId: string) {
+    const admin = await prisma.adminUser.findUnique({
+      where: { id: adminId },
+      select: { id: true, name: true },
+    });
+
+    if (!admin) {
+      throw { code: 'NOT_FOUND', message: 'Administrador no encontrado', status: 404 };
+    }
+
+    const result = await panicEscalationService.acknowledgeByOperator(alertId, admin);
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'ACKNOWLEDGE_PANIC_ALERT',
+      resource: 'panic_alerts',
+      resourceId: alertId,
+    });
+
+    return result;
+  }
+
+  /**
+   * Consola de operadores: todas las alertas activas con su ultima ubicacion
+   * Primero las que estan en cola sin confirmar, despues por antiguedad
+   */
+  async listActive() {
+    const alerts = await prisma.panicAlert.findMany({
+      where: { status: PanicStatus.ACTIVE },
+      include: {
+        user: { select: { id: true, name: true, email: true, phone: true } },
+        assignedAdmin: { select: { id: true, name: true } },
+        locationPoints: {
+          orderBy: { recordedAt: 'desc' },
+          take: 1,
+          select: { latitude: true, longitude: true, recordedAt: true },
+        },
+        _count: { select: { callNotes: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const needsOperator = (alert: { operatorQueuedAt: Date | null; acknowledgedAt: Date | null }) =>
+      !!alert.operatorQueuedAt && !alert.acknowledgedAt;
+
+    return alerts
+      .map(({ locationPoints, ...alert }) => ({
+        ...alert,
+        currentLocation: locationPoints[0] || {
+          latitude: alert.latitude,
+          longitude: alert.longitude,
+          recordedAt: alert.createdAt,
+        },
+      }))
+      .sort((a, b) => Number(needsOperator(b)) - Number(needsOperator(a)));
+  }
+
+  /**
+   * Operadores a los que se puede asignar una alerta
+   */
+  async listOperators() {
+    const admins = await prisma.adminUser.findMany({
+      where: { isActive: true },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true, email: true, isSuperAdmin: true, permissions: true },
+    });
+
+    return admins
+      .filter((admin) => admin.isSuperAdmin
+        || admin.permissions.includes('*')
+        || admin.permissions.includes(ADMIN_PERMISSIONS.PANIC_RESPOND))
+      .map(({ id, name, email }) => ({ id, name, email }));
+  }
+
+  /**
+   * Detalle de una alerta: paciente, representantes, trayecto, notas y resolucion
+   */
+  async getAlert(alertId: string, adminId: string) {
+    const alert = await prisma.panicAlert.findUnique({
+      where: { id: alertId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+            representatives: {
+              orderBy: { priority: 'asc' },
+              select: { id: true, name: true, phone: true, email: true, relation: true, priority: true, status: true },
+            },
+          },
+        },
+        assignedAdmin: { select: { id: true, name: true } },
+        resolvedByAdmin: { select: { id: true, name: true } },
+        callNotes: {
+          orderBy: { createdAt: 'asc' },
+          include: { admin: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    if (!alert) {
+      throw { code: 'NOT_FOUND', message: 'Alerta no encontrada', status: 404 };
+    }
+
+    const trail = await panicService.getLocationTrail(alert);
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'VIEW_PANIC_ALERT',
+      resource: 'panic_alerts',
+      resourceId: alertId,
+    });
+
+    return { ...alert, trail: trail.points };
+  }
+
+  /**
+   * Asigna la alerta a un operador (por defecto, a quien la toma)
+   */
+  async assign(alertId: string, adminId: string, assigneeId?: string) {
+    const alert = await this.findActiveAlert(alertId);
+    const targetId = assigneeId || adminId;
+
+    const assignee = await prisma.adminUser.findUnique({
+      where: { id: targetId },
+      select: { id: true, name: true, isActive: true, isSuperAdmin: true, permissions: true },
+    });
+
+    const canRespond = !!assignee && (
+      assignee.isSuperAdmin
+      || assignee.permissions.includes('*')
+      || assignee.permissions.includes(ADMIN_PERMISSIONS.PANIC_RESPOND)
+    );
+
+    if (!assignee?.isActive || !canRespond) {
+      throw { code: 'INVALID_ASSIGNEE', message: 'El operador no existe o no puede atender alertas', status: 400 };
+    }
+
+    const updated = await prisma.panicAlert.update({
+      where: { id: alertId },
+      data: { assignedAdminId: assignee.id, assignedAt: new Date() },
+      select: { id: true, assignedAt: true },
+    });
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'ASSIGN_PANIC_ALERT',
+      resource: 'panic_alerts',
+      resourceId: alertId,
+      details: { assigneeId: assignee.id, previousAssigneeId: alert.assignedAdminId },
+    });
+
+    notifyOperators(alertId, 'ASSIGNED', { assignedAdmin: { id: assignee.id, name: assignee.name } });
+
+    return { ...updated, assignedAdmin: { id: assignee.id, name: assignee.name } };
+  }
+
+  /**
+   * Registra una nota de llamada
+   */
+  async addNote(
+    alertId: string,
+    adminId: string,
+    data: { contactType: string; contactName?: string; content: string }
+  ) {
+    const { contactType, contactName, content } = data;
+
+    if (!Object.values(PanicCallContact).includes(contactType as PanicCallContact)) {
+      throw { code: 'INVALID_CONTACT_TYPE', message: 'Tipo de contacto invalido', status: 400 };
+    }
+
+    const text = typeof content === 'string' ? content.trim() : '';
+    if (!text || text.length > MAX_NOTE_LENGTH) {
+      throw { code: 'INVALID_NOTE', message: `La nota es requerida (maximo ${MAX_NOTE_LENGTH} caracteres)`, status: 400 };
+    }
+
+    const alert = await prisma.panicAlert.findUnique({ where: { id: alertId }, select: { id: true } });
+    if (!alert) {
+      throw { code: 'NOT_FOUND', message: 'Alerta no encontrada', status: 404 };
+    }
+
+    const note = await prisma.panicCallNote.create({
+      data: {
+        alertId,
+        adminId,
+        contactType: contactType as PanicCallContact,
+        contactName: contactName?.trim() || null,
+        content: text,
+      },
+      include: { admin: { select: { id: true, name: true } } },
+    });
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'ADD_PANIC_CALL_NOTE',
+      resource: 'panic_alerts',
+      resourceId: alertId,
+      details: { noteId: note.id, contactType },
+    });
+
+    notifyOperators(alertId, 'NOTE_ADDED');
+
+    return note;
+  }
+
+  /**
+   * Cierra la alerta con el resultado de la atencion
+   * Avisa al paciente y a los representantes que fueron notificados o la confirmaron
+   */
+  async resolve(alertId: string, adminId: string, data: { outcome: string; notes?: string }) {
+    const { outcome, notes } = data;
+
+    if (!Object.values(PanicResolutionOutcome).includes(outcome as PanicResolutionOutcome)) {
+      throw { code: 'INVALID_OUTCOME', message: 'Resultado de la atencion invalido', status: 400 };
+    }
+
+    const alert = await this.findActiveAlert(alertId);
+    const resolvedAt = new Date();
+
+    // Condicionado al estado para no cerrar dos veces (o una alerta cancelada en paralelo)
+    const { count } = await prisma.panicAlert.updateMany({
+      where: { id: alertId, status: PanicStatus.ACTIVE },
+      data: {
+        status: PanicStatus.RESOLVED,
+        resolvedAt,
+        resolvedByAdminId: adminId,
+        resolutionOutcome: outcome as PanicResolutionOutcome,
+        resolutionNotes: notes?.trim() || null,
+        nextEscalationAt: null,
+      },
+    });
+
+    if (count === 0) {
+      throw { code: 'ALERT_NOT_ACTIVE', message: 'La alerta ya no esta activa', status: 409 };
+    }
+
+    const notifications = await this.notifyResolution(alert, OUTCOME_LABELS[outcome as PanicResolutionOutcome]);
+
+    const payload = { alertId, status: PanicStatus.RESOLVED, outcome, timestamp: resolvedAt };
+    io.to(`user-${alert.userId}`).emit('panic-resolved', payload);
+    io.to(`representative-${alert.userId}`).emit('panic-resolved', payload);
+
+    await adminAuthService.logAudit({
+      adminId,
+      action: 'RESOLVE_PANIC_ALERT',
+      resource: 'panic_alerts',
+      resourceId: alertId,
+      details: { outcome, notified: notifications.length },
+    });
+
+    notifyOperators(alertId, 'RESOLVED');
+
+    return { alertId, status: PanicStatus.RESOLVED, resolvedAt, outcome, notifications };
+  }
+
+  /**
+   * Paciente + representantes notificados durante el escalamiento o que confirmaron la alerta
+   */
+  private async notifyResolution(
+    alert: { id: string; userId: string; notificationsSent: unknown; acknowledgements: unknown },
+    outcome: string
+  ) {
+    const patient = await prisma.user.findUnique({
+      where: { id: alert.userId },
+      select: { name: true, email: true, phone: true },
+    });
+
+    if (!patient) {
+      return [];
+    }
+
+    const notified = ((alert.notificationsSent as NotificationResult[] | null) || [])
+      .filter((result) => result.smsStatus === 'sent' || result.emailStatus === 'sent')
+      .map((result) => result.representativeId);
+    const acknowledged = ((alert.acknowledgements as PanicAcknowledgement[] | null) || [])
+      .map((ack) => ack.representativeId)
+      .filter((id): id is string => !!id);
+
+    const representatives = await prisma.representative.findMany({
+      where: {
+        id: { in: [...new Set([...notified, ...acknowledged])] },
+        userId: alert.userId,
+        status: { not: RepresentativeStatus.DECLINED },
+      },
+      select: { name: true, phone: true, email: true },
+    });
+
+    try {
+      return await notificationService.sendPanicResolved({
+        userId: alert.userId,
+        alertId: alert.id,
+        patientName: patient.name,
+        outcome,
+        recipients: [
+          { name: patient.name, phone: patient.phone, email: patient.email, isPatient: true },
+          ...representatives.map((rep) => ({ ...rep, isPatient: false })),
+        ],
+      });
+    } catch (error) {
+      console.error('Error notificando cierre de alerta:', error);
+      return [];
+    }
+  }
+
+  private async findActiveAlert(alertId: string) {
+    const alert = await prisma.panicAlert.findFirst({
+      where: { id: alertId, status: PanicStatus.ACTIVE },
+    });
+
+    if (!alert) {
+      throw { code: 'ALERT_NOT_FOUND', message: 'Alerta no encontrada o ya no esta activa', status: 404 };
+    }
+
+    return alert;
+  }
+}
+
+export const adminPanicService = new AdminPanicService();
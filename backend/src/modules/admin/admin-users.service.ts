@@ -1,6 +1,7 @@
 // src/modules/admin/admin-users.service.ts
 import { PrismaClient } from '@prisma/client';
 import { adminAuthService } from './admin-auth.service';
+import { getStorageProvider } from '../../common/storage';
 
 const prisma = new PrismaClient();
 
@@ -109,7 +110,7 @@ export class AdminUsersService {
             insurancePolicy: true,
             isDonor: true,
             photoUrl: true,
-            qrToken: true,
+            photoKey: true,
             createdAt: true,
             updatedAt: true,
           },
@@ -139,6 +140,18 @@ export class AdminUsersService {
           },
           orderBy: { priority: 'asc' },
         },
+        qrTokens: {
+          select: {
+            id: true,
+            label: true,
+            medium: true,
+            lastScannedAt: true,
+            scanCount: true,
+            revokedAt: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
         emergencyAccesses: {
           select: {
             id: true,
@@ -196,6 +209,18 @@ export class AdminUsersService {
     // Ocultar datos sensibles (hash de password, tokens)
     const { passwordHash, resetToken, resetExpires, verificationToken, verificationExpires, ...safeUser } = user;
 
+    // La foto almacenada se entrega con URL firmada de corta duracion
+    if (safeUser.profile) {
+      const { photoKey, ...profile } = safeUser.profile;
+      return {
+        ...safeUser,
+        profile: {
+          ...profile,
+          photoUrl: photoKey ? getStorageProvider().getSignedUrl(photoKey) : profile.photoUrl,
+        },
+      };
+    }
+
     return safeUser;
   }
 
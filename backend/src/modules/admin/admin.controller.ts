@@ -1,5 +1,6 @@
 // src/modules/admin/admin.controller.ts
 import { Router, Request, Response } from 'express';
+import { QrScanIncidentType } from '@prisma/client';
 import { adminAuthMiddleware } from '../../common/guards/admin-auth.middleware';
 import { requirePermission, requireSuperAdmin, ADMIN_PERMISSIONS } from '../../common/guards/admin-roles.guard';
 import { adminMetricsService } from './admin-metrics.service';
@@ -8,6 +9,8 @@ import { adminAuditService } from './admin-audit.service';
 import { adminHealthService } from './admin-health.service';
 import { adminInstitutionsService } from './admin-institutions.service';
 import { adminInsuranceService } from './admin-insurance.service';
+import { adminLegalTemplatesService } from './admin-legal-templates.service';
+import { adminPanicService } from './admin-panic.service';
 
 const router = Router();
 
@@ -400,6 +403,73 @@ router.get('/audit/panic-alerts',
   }
 );
 
+/**
+ * GET /api/v1/admin/audit/qr-incidents
+ * Lista incidentes de abuso en escaneos de QR
+ */
+router.get('/audit/qr-incidents',
+  requirePermission(ADMIN_PERMISSIONS.AUDIT_READ),
+  async (req: Request, res: Response) => {
+    try {
+      const { page, limit, userId, type, status, startDate, endDate } = req.query;
+
+      const result = await adminAuditService.listQrIncidents({
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        userId: userId as string,
+        type: Object.values(QrScanIncidentType).includes(type as QrScanIncidentType)
+          ? type as QrScanIncidentType
+          : undefined,
+        status: status === 'open' || status === 'resolved' ? status : undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      }, req.adminId!);
+
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      console.error('Error listing QR incidents:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'AUDIT_ERROR', message: error.message || 'Error al listar incidentes' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/audit/qr-incidents/:id/resolve
+ * Cierra un incidente de QR y opcionalmente reactiva el codigo
+ */
+router.post('/audit/qr-incidents/:id/resolve',
+  requirePermission(ADMIN_PERMISSIONS.USERS_WRITE),
+  async (req: Request, res: Response) => {
+    try {
+      const { reactivateToken, notes } = req.body;
+
+      if (notes !== undefined && (typeof notes !== 'string' || notes.length > 2000)) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_FIELD', message: 'notes debe ser texto de hasta 2000 caracteres' },
+        });
+      }
+
+      const incident = await adminAuditService.resolveQrIncident(
+        req.params.id,
+        { reactivateToken: reactivateToken === true, notes },
+        req.adminId!
+      );
+
+      res.json({ success: true, data: incident });
+    } catch (error: any) {
+      console.error('Error resolving QR incident:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'ERROR', message: error.message || 'Error al resolver incidente' },
+      });
+    }
+  }
+);
+
 /**
  * GET /api/v1/admin/audit/export
  * Exporta logs de auditoria
@@ -633,7 +703,8 @@ router.post('/institutions/:id/oauth-credentials',
     try {
       const credentials = await adminInstitutionsService.generateOAuthCredentials(
         req.params.id,
-        req.adminId!
+        req.adminId!,
+        Array.isArray(req.body.scopes) ? req.body.scopes : undefined
       );
       res.json({ success: true, data: credentials });
     } catch (error: any) {
@@ -646,6 +717,52 @@ router.post('/institutions/:id/oauth-credentials',
   }
 );
 
+/**
+ * POST /api/v1/admin/institutions/:id/oauth-credentials/rotate
+ * Rota el secret OAuth de una institucion (mantiene client_id)
+ */
+router.post('/institutions/:id/oauth-credentials/rotate',
+  requireSuperAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const credentials = await adminInstitutionsService.rotateOAuthSecret(
+        req.params.id,
+        req.adminId!
+      );
+      res.json({ success: true, data: credentials });
+    } catch (error: any) {
+      console.error('Error rotating OAuth secret:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'ERROR', message: error.message || 'Error al rotar credenciales' },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/admin/institutions/:id/oauth-credentials
+ * Revoca las credenciales OAuth de una institucion
+ */
+router.delete('/institutions/:id/oauth-credentials',
+  requireSuperAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await adminInstitutionsService.revokeOAuthCredentials(
+        req.params.id,
+        req.adminId!
+      );
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      console.error('Error revoking OAuth credentials:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'ERROR', message: error.message || 'Error al revocar credenciales' },
+      });
+    }
+  }
+);
+
 // ==================== ASEGURADORAS ====================
 
 /**
@@ -937,6 +1054,294 @@ router.delete('/insurance/:id/network/:hospitalId',
   }
 );
 
+// ==================== PLANTILLAS LEGALES ====================
+
+/**
+ * GET /api/v1/admin/legal-templates
+ * Lista plantillas legales por estado
+ */
+router.get('/legal-templates',
+  requirePermission(ADMIN_PERMISSIONS.LEGAL_TEMPLATES_READ),
+  async (req: Request, res: Response) => {
+    try {
+      const templates = await adminLegalTemplatesService.listTemplates(req.adminId!);
+      res.json({ success: true, data: { templates } });
+    } catch (error: any) {
+      console.error('Error listing legal templates:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'ERROR', message: error.message || 'Error al listar plantillas' },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/legal-templates/:id
+ * Detalle de una plantilla legal
+ */
+router.get('/legal-templates/:id',
+  requirePermission(ADMIN_PERMISSIONS.LEGAL_TEMPLATES_READ),
+  async (req: Request, res: Response) => {
+    try {
+      const template = await adminLegalTemplatesService.getTemplate(req.adminId!, req.params.id);
+      res.json({ success: true, data: template });
+    } catch (error: any) {
+      console.error('Error getting legal template:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'ERROR', message: error.message || 'Error al obtener plantilla' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/legal-templates
+ * Crea una plantilla legal para un estado
+ */
+router.post('/legal-templates',
+  requirePermission(ADMIN_PERMISSIONS.LEGAL_TEMPLATES_WRITE),
+  async (req: Request, res: Response) => {
+    try {
+      const template = await adminLegalTemplatesService.createTemplate(req.adminId!, req.body);
+      res.status(201).json({ success: true, data: template });
+    } catch (error: any) {
+      console.error('Error creating legal template:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'ERROR', message: error.message || 'Error al crear plantilla' },
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/admin/legal-templates/:id
+ * Actualiza una plantilla legal
+ */
+router.put('/legal-templates/:id',
+  requirePermission(ADMIN_PERMISSIONS.LEGAL_TEMPLATES_WRITE),
+  async (req: Request, res: Response) => {
+    try {
+      const template = await adminLegalTemplatesService.updateTemplate(req.adminId!, req.params.id, req.body);
+      res.json({ success: true, data: template });
+    } catch (error: any) {
+      console.error('Error updating legal template:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'ERROR', message: error.message || 'Error al actualizar plantilla' },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/admin/legal-templates/:id
+ * Elimina una plantilla legal
+ */
+router.delete('/legal-templates/:id',
+  requirePermission(ADMIN_PERMISSIONS.LEGAL_TEMPLATES_WRITE),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await adminLegalTemplatesService.deleteTemplate(req.adminId!, req.params.id);
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      console.error('Error deleting legal template:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'ERROR', message: error.message || 'Error al eliminar plantilla' },
+      });
+    }
+  }
+);
+
+// ==================== COLA DE OPERADORES (ALERTAS DE PANICO) ====================
+
+/**
+ * GET /api/v1/admin/panic-queue
+ * Alertas activas que ningun representante confirmo
+ */
+router.get('/panic-queue',
+  requirePermission(ADMIN_PERMISSIONS.PANIC_RESPOND),
+  async (req: Request, res: Response) => {
+    try {
+      const alerts = await adminPanicService.listQueue();
+      res.json({ success: true, data: { alerts } });
+    } catch (error: any) {
+      console.error('Error listing panic queue:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'PANIC_QUEUE_ERROR', message: error.message || 'Error al obtener la cola de alertas' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/panic-queue/:alertId/acknowledge
+ * El operador confirma que atiende la alerta
+ */
+router.post('/panic-queue/:alertId/acknowledge',
+  requirePermission(ADMIN_PERMISSIONS.PANIC_RESPOND),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await adminPanicService.acknowledge(req.params.alertId, req.adminId!);
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      console.error('Error acknowledging panic alert:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'PANIC_QUEUE_ERROR', message: error.message || 'Error al confirmar la alerta' },
+      });
+    }
+  }
+);
+
+// ==================== CONSOLA DE OPERADORES ====================
+
+/**
+ * GET /api/v1/admin/panic-console/alerts
+ * Alertas activas con su ultima ubicacion
+ */
+router.get('/panic-console/alerts',
+  requirePermission(ADMIN_PERMISSIONS.PANIC_RESPOND),
+  async (req: Request, res: Response) => {
+    try {
+      const alerts = await adminPanicService.listActive();
+      res.json({ success: true, data: { alerts } });
+    } catch (error: any) {
+      console.error('Error listing active panic alerts:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'PANIC_CONSOLE_ERROR', message: error.message || 'Error al obtener las alertas activas' },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/panic-console/operators
+ * Operadores que pueden recibir una alerta
+ */
+router.get('/panic-console/operators',
+  requirePermission(ADMIN_PERMISSIONS.PANIC_RESPOND),
+  async (req: Request, res: Response) => {
+    try {
+      const operators = await adminPanicService.listOperators();
+      res.json({ success: true, data: { operators } });
+    } catch (error: any) {
+      console.error('Error listing operators:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'PANIC_CONSOLE_ERROR', message: error.message || 'Error al obtener operadores' },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/panic-console/alerts/:alertId
+ * Detalle de la alerta: trayecto, representantes, notas y resolucion
+ */
+router.get('/panic-console/alerts/:alertId',
+  requirePermission(ADMIN_PERMISSIONS.PANIC_RESPOND),
+  async (req: Request, res: Response) => {
+    try {
+      const alert = await adminPanicService.getAlert(req.params.alertId, req.adminId!);
+      res.json({ success: true, data: alert });
+    } catch (error: any) {
+      console.error('Error getting panic alert:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'PANIC_CONSOLE_ERROR', message: error.message || 'Error al obtener la alerta' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/panic-console/alerts/:alertId/assign
+ * Asigna la alerta a un operador (por defecto, a quien la toma)
+ */
+router.post('/panic-console/alerts/:alertId/assign',
+  requirePermission(ADMIN_PERMISSIONS.PANIC_RESPOND),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await adminPanicService.assign(req.params.alertId, req.adminId!, req.body.adminId);
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      console.error('Error assigning panic alert:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'PANIC_CONSOLE_ERROR', message: error.message || 'Error al asignar la alerta' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/panic-console/alerts/:alertId/notes
+ * Registra una nota de llamada
+ */
+router.post('/panic-console/alerts/:alertId/notes',
+  requirePermission(ADMIN_PERMISSIONS.PANIC_RESPOND),
+  async (req: Request, res: Response) => {
+    try {
+      const { contactType, contactName, content } = req.body;
+
+      if (!contactType || !content) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'MISSING_FIELD', message: 'contactType y content son requeridos' },
+        });
+      }
+
+      const note = await adminPanicService.addNote(req.params.alertId, req.adminId!, {
+        contactType,
+        contactName,
+        content,
+      });
+      res.status(201).json({ success: true, data: note });
+    } catch (error: any) {
+      console.error('Error adding call note:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'PANIC_CONSOLE_ERROR', message: error.message || 'Error al guardar la nota' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/panic-console/alerts/:alertId/resolve
+ * Cierra la alerta y avisa al paciente y a sus representantes
+ */
+router.post('/panic-console/alerts/:alertId/resolve',
+  requirePermission(ADMIN_PERMISSIONS.PANIC_RESPOND),
+  async (req: Request, res: Response) => {
+    try {
+      const { outcome, notes } = req.body;
+
+      if (!outcome) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'MISSING_FIELD', message: 'outcome es requerido' },
+        });
+      }
+
+      const result = await adminPanicService.resolve(req.params.alertId, req.adminId!, { outcome, notes });
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      console.error('Error resolving panic alert:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'PANIC_CONSOLE_ERROR', message: error.message || 'Error al cerrar la alerta' },
+      });
+    }
+  }
+);
+
 // ==================== SALUD DEL SISTEMA ====================
 
 /**
@@ -999,6 +1404,53 @@ router.get('/health/performance',
   }
 );
 
+/**
+ * GET /api/v1/admin/health/jobs
+ * Historial de ejecuciones de tareas programadas
+ */
+router.get('/health/jobs',
+  requirePermission(ADMIN_PERMISSIONS.HEALTH_READ),
+  async (req: Request, res: Response) => {
+    try {
+      const [jobs, history] = await Promise.all([
+        adminHealthService.getJobsStatus(),
+        adminHealthService.listJobRuns({
+          job: req.query.job as string,
+          page: parseInt(req.query.page as string) || 1,
+          limit: parseInt(req.query.limit as string) || 20,
+        }),
+      ]);
+      res.json({ success: true, data: { jobs, ...history } });
+    } catch (error: any) {
+      console.error('Error listing job runs:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'JOBS_ERROR', message: error.message || 'Error al obtener tareas' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/health/jobs/:name/run
+ * Ejecuta manualmente una tarea programada
+ */
+router.post('/health/jobs/:name/run',
+  requireSuperAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const run = await adminHealthService.runJob(req.adminId!, req.params.name);
+      res.json({ success: true, data: run });
+    } catch (error: any) {
+      console.error('Error running job:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: { code: error.code || 'JOBS_ERROR', message: error.message || 'Error al ejecutar tarea' },
+      });
+    }
+  }
+);
+
 /**
  * POST /api/v1/admin/health/cleanup
  * Ejecuta limpieza de datos antiguos
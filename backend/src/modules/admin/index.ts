@@ -5,6 +5,8 @@ export { adminUsersService } from './admin-users.service';
 export { adminAuditService } from './admin-audit.service';
 export { adminHealthService } from './admin-health.service';
 export { adminInstitutionsService } from './admin-institutions.service';
+export { adminLegalTemplatesService } from './admin-legal-templates.service';
+export { adminPanicService } from './admin-panic.service';
 
 export { default as adminAuthController } from './admin-auth.controller';
 export { default as adminController } from './admin.controller';
@@ -2,9 +2,9 @@
 import { PrismaClient, User } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { v4 as uuidv4 } from 'uuid';
 import config from '../../config';
 import { generateSecureToken } from '../../common/utils/encryption';
+import { DEFAULT_QR_TOKEN_LABEL, qrTokenService } from '../pup/qr-token.service';
 
 const prisma = new PrismaClient();
 
@@ -77,29 +77,32 @@ class AuthService {
     const verificationToken = generateSecureToken(32);
     const verificationExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 horas
     
-    // Crear usuario
-    const user = await prisma.user.create({
-      data: {
-        email: input.email.toLowerCase(),
-        passwordHash,
-        curp: input.curp.toUpperCase(),
-        name: input.name,
-        phone: input.phone,
-        dateOfBirth: input.dateOfBirth,
-        sex: input.sex?.toUpperCase(),
-        verificationToken,
-        verificationExpires,
-        // Crear perfil vacío
-        profile: {
-          create: {
-            qrToken: uuidv4(),
+    // Crear usuario (el código manual se regenera si choca con uno existente)
+    const user = await qrTokenService.withUniqueShortCode((shortCode) =>
+      prisma.user.create({
+        data: {
+          email: input.email.toLowerCase(),
+          passwordHash,
+          curp: input.curp.toUpperCase(),
+          name: input.name,
+          phone: input.phone,
+          dateOfBirth: input.dateOfBirth,
+          sex: input.sex?.toUpperCase(),
+          verificationToken,
+          verificationExpires,
+          // Crear perfil vacío y su primer código QR
+          profile: {
+            create: {},
+          },
+          qrTokens: {
+            create: { label: DEFAULT_QR_TOKEN_LABEL, shortCode },
           },
         },
-      },
-      include: {
-        profile: true,
-      },
-    });
+        include: {
+          profile: true,
+        },
+      })
+    );
     
     // Generar tokens
     const tokens = await this.generateTokens(user);
@@ -0,0 +1,64 @@
+// src/modules/catalog/catalog.controller.ts
+import { Router, Request, Response } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { catalogService } from './catalog.service';
+import { ALLERGEN_CATEGORIES, ALLERGY_SEVERITIES, CatalogType } from './catalog.types';
+
+const router = Router();
+
+const CATALOG_TYPES: CatalogType[] = ['conditions', 'medications', 'allergens'];
+
+/**
+ * GET /api/v1/catalog/allergen-categories
+ * Categorías de alérgenos y severidades válidas (público)
+ */
+router.get('/allergen-categories', (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      categories: ALLERGEN_CATEGORIES,
+      severities: ALLERGY_SEVERITIES,
+    },
+  });
+});
+
+/**
+ * GET /api/v1/catalog/:type?q=&limit=
+ * Búsqueda en el catálogo de padecimientos (CIE-10), medicamentos o alérgenos para autocompletado (público)
+ */
+router.get('/:type',
+  param('type').isIn(CATALOG_TYPES),
+  query('q').optional().isString().isLength({ max: 100 }),
+  query('limit').optional().isInt({ min: 1, max: 50 }),
+  (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    try {
+      const type = req.params.type as CatalogType;
+      const results = catalogService.search(
+        type,
+        (req.query.q as string) || '',
+        req.query.limit ? parseInt(req.query.limit as string, 10) : 10
+      );
+
+      res.json({
+        success: true,
+        data: { results },
+      });
+    } catch (error) {
+      console.error('Error buscando en catálogo:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+      });
+    }
+  }
+);
+
+export default router;
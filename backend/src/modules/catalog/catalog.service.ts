@@ -0,0 +1,391 @@
+// src/modules/catalog/catalog.service.ts
+import { CIE10_CONDITIONS, CIE10_SPECIALTY_RULES } from './data/cie10';
+import { DRUG_CATALOG } from './data/drugs';
+import { ALLERGEN_CATALOG } from './data/allergens';
+import {
+  ALLERGEN_CATEGORIES,
+  ALLERGY_SEVERITIES,
+  AllergenCategory,
+  AllergyEntry,
+  AllergySeverity,
+  CatalogAllergen,
+  CatalogCondition,
+  CatalogDrug,
+  CatalogSuggestion,
+  CatalogType,
+  ConditionEntry,
+  MedicationEntry,
+} from './catalog.types';
+
+type CatalogItem = CatalogCondition | CatalogDrug | CatalogAllergen;
+
+// Formato de código CIE-10: letra, dos dígitos y subcategoría opcional (I21.9)
+const CIE10_CODE_PATTERN = /^[A-Z]\d{2}(\.\d{1,2})?$/;
+
+// Dosis dentro de texto libre: "850mg", "160/800 mg", "100 mcg", "0.4 mg"
+const DOSE_PATTERN = /(\d+(?:[.,]\d+)?(?:\/\d+(?:[.,]\d+)?)?)\s*(mg|mcg|µg|g|ml|ui|u|%)(?![a-z])/i;
+
+// Frecuencia dentro de texto libre: "cada 8 horas", "2 veces al día"
+const FREQUENCY_PATTERN = /(cada\s+\d+\s*(?:horas?|hrs?|h|d[ií]as?)|\d+\s+veces?\s+al\s+d[ií]a|en ayunas|una vez al d[ií]a)/i;
+
+const MAX_TEXT_LENGTH = 200;
+
+const CATALOGS: Record<CatalogType, CatalogItem[]> = {
+  conditions: CIE10_CONDITIONS,
+  medications: DRUG_CATALOG,
+  allergens: ALLERGEN_CATALOG,
+};
+
+/**
+ * Minúsculas, sin acentos y con espacios colapsados para comparar términos
+ */
+export function normalizeTerm(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const invalidData = (message: string) => ({ code: 'INVALID_MEDICAL_DATA', message, status: 400 });
+
+const cleanText = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().replace(/\s+/g, ' ').slice(0, MAX_TEXT_LENGTH);
+  return text || null;
+};
+
+const formatDose = (match: RegExpMatchArray): string =>
+  `${match[1]} ${match[2].toLowerCase() === 'ui' ? 'UI' : match[2].toLowerCase()}`;
+
+class CatalogService {
+  private readonly byCode: Record<CatalogType, Map<string, CatalogItem>>;
+  private readonly terms: Record<CatalogType, { term: string; item: CatalogItem }[]>;
+
+  constructor() {
+    this.byCode = {} as Record<CatalogType, Map<string, CatalogItem>>;
+    this.terms = {} as Record<CatalogType, { term: string; item: CatalogItem }[]>;
+
+    for (const type of Object.keys(CATALOGS) as CatalogType[]) {
+      this.byCode[type] = new Map(CATALOGS[type].map((item) => [item.code.toUpperCase(), item]));
+      // Términos más largos primero para que "diabetes tipo 2" gane sobre "diabetes"
+      this.terms[type] = CATALOGS[type]
+        .flatMap((item) => [item.name, ...(item.synonyms || [])].map((term) => ({ term: normalizeTerm(term), item })))
+        .sort((a, b) => b.term.length - a.term.length);
+    }
+  }
+
+  /**
+   * Búsqueda para autocompletado: código, inicio de nombre/sinónimo y coincidencia parcial
+   */
+  search(type: 'conditions', query: string, limit?: number): CatalogCondition[];
+  search(type: 'medications', query: string, limit?: number): CatalogDrug[];
+  search(type: 'allergens', query: string, limit?: number): CatalogAllergen[];
+  search(type: CatalogType, query: string, limit?: number): CatalogItem[];
+  search(type: CatalogType, query: string, limit = 10): CatalogItem[] {
+    const q = normalizeTerm(query);
+    const items = CATALOGS[type];
+
+    if (!q) {
+      return [...items].sort((a, b) => a.name.localeCompare(b.name, 'es')).slice(0, limit);
+    }
+
+    const scored: { item: CatalogItem; score: number }[] = [];
+
+    for (const item of items) {
+      const code = item.code.toLowerCase();
+      const terms = [item.name, ...(item.synonyms || [])].map(normalizeTerm);
+
+      let score: number | null = null;
+      if (code === q) score = 0;
+      else if (code.startsWith(q)) score = 1;
+      else if (terms[0].startsWith(q)) score = 2;
+      else if (terms.some((term) => term.startsWith(q))) score = 3;
+      else if (terms.some((term) => term.split(' ').some((word) => word.startsWith(q)))) score = 4;
+      else if (terms.some((term) => term.includes(q))) score = 5;
+
+      if (score !== null) scored.push({ item, score });
+    }
+
+    return scored
+      .sort((a, b) => a.score - b.score || a.item.name.localeCompare(b.item.name, 'es'))
+      .slice(0, limit)
+      .map(({ item }) => item);
+  }
+
+  findCondition(code: string): CatalogCondition | null {
+    return (this.byCode.conditions.get(code.toUpperCase()) as CatalogCondition) || null;
+  }
+
+  findDrug(code: string): CatalogDrug | null {
+    return (this.byCode.medications.get(code.toUpperCase()) as CatalogDrug) || null;
+  }
+
+  findDrugByAtc(atc: string): CatalogDrug | null {
+    const normalized = atc.trim().toUpperCase();
+    return DRUG_CATALOG.find((drug) => drug.atc === normalized) || null;
+  }
+
+  findAllergen(code: string): CatalogAllergen | null {
+    return (this.byCode.allergens.get(code.toUpperCase()) as CatalogAllergen) || null;
+  }
+
+  /**
+   * Resuelve texto libre contra el catálogo
+   * exact: solo coincidencia completa con nombre, sinónimo o código; si no, también el
+   * término más largo contenido como palabras completas ("Metformina de liberación prolongada")
+   */
+  matchTerm(type: 'conditions', text: string, exact?: boolean): CatalogCondition | null;
+  matchTerm(type: 'medications', text: string, exact?: boolean): CatalogDrug | null;
+  matchTerm(type: 'allergens', text: string, exact?: boolean): CatalogAllergen | null;
+  matchTerm(type: CatalogType, text: string, exact?: boolean): CatalogItem | null;
+  matchTerm(type: CatalogType, text: string, exact = false): CatalogItem | null {
+    const normalized = normalizeTerm(text);
+    if (!normalized) return null;
+
+    const byCode = this.byCode[type].get(text.trim().toUpperCase());
+    if (byCode) return byCode;
+
+    const exactMatch = this.terms[type].find(({ term }) => term === normalized);
+    if (exactMatch || exact) return exactMatch?.item || null;
+
+    const words = (value: string) => value.replace(/[^a-z0-9]+/g, ' ').trim();
+    const padded = ` ${words(normalized)} `;
+    return this.terms[type].find(({ term }) => padded.includes(` ${words(term)} `))?.item || null;
+  }
+
+  // ==================== NORMALIZACION DE DATOS DEL PERFIL ====================
+  // strict = datos enviados por el usuario (códigos desconocidos son error)
+  // lenient = datos guardados o heredados (texto libre del formato anterior)
+  // El nombre siempre es el texto capturado; el código solo se asigna con coincidencia exacta
+  // y una coincidencia parcial queda como sugerencia
+
+  normalizeConditions(input: unknown[], strict = false): ConditionEntry[] {
+    return this.dedupe(input.map((value) => this.toConditionEntry(value, strict)).filter(Boolean) as ConditionEntry[]);
+  }
+
+  normalizeMedications(input: unknown[], strict = false): MedicationEntry[] {
+    return this.dedupe(input.map((value) => this.toMedicationEntry(value, strict)).filter(Boolean) as MedicationEntry[]);
+  }
+
+  normalizeAllergies(input: unknown[], strict = false): AllergyEntry[] {
+    return this.dedupe(input.map((value) => this.toAllergyEntry(value, strict)).filter(Boolean) as AllergyEntry[]);
+  }
+
+  /**
+   * Especialidades requeridas para un conjunto de padecimientos (códigos CIE-10 o texto)
+   * critical indica que alguno requiere UCI o atención de trauma
+   */
+  getSpecialtiesForConditions(conditions: string[]): { specialties: string[]; critical: boolean } {
+    const specialties = new Set<string>();
+    let critical = false;
+
+    for (const condition of conditions) {
+      const code = this.resolveConditionCode(condition);
+      if (!code) continue;
+
+      for (const rule of CIE10_SPECIALTY_RULES) {
+        if (rule.patterns.some((pattern) => this.codeMatches(code, pattern))) {
+          rule.specialties.forEach((specialty) => specialties.add(specialty));
+          if (rule.critical) critical = true;
+        }
+      }
+    }
+
+    return { specialties: Array.from(specialties), critical };
+  }
+
+  /**
+   * Código CIE-10 de un padecimiento: el propio valor si ya es código, o el del catálogo
+   */
+  resolveConditionCode(value: string): string | null {
+    const upper = value.trim().toUpperCase();
+    if (CIE10_CODE_PATTERN.test(upper)) return upper;
+    return this.matchTerm('conditions', value)?.code || null;
+  }
+
+  private codeMatches(code: string, pattern: string): boolean {
+    if (!pattern.includes('-')) {
+      return code.startsWith(pattern);
+    }
+
+    const [from, to] = pattern.split('-');
+    const category = code.slice(0, 3);
+    return category >= from && category <= to;
+  }
+
+  private toConditionEntry(value: unknown, strict: boolean): ConditionEntry | null {
+    if (typeof value === 'string') {
+      const name = cleanText(value);
+      if (!name) return null;
+      return { ...this.resolveName('conditions', name), name };
+    }
+
+    if (!value || typeof value !== 'object') {
+      if (strict) throw invalidData('Padecimiento con formato inválido');
+      return null;
+    }
+
+    const input = value as Record<string, unknown>;
+    const name = cleanText(input.name);
+    const code = cleanText(input.code)?.toUpperCase() || null;
+
+    if (code) {
+      const item = this.findCondition(code);
+      if (item) return { code: item.code, name: name || item.name };
+
+      // Códigos CIE-10 válidos fuera del subconjunto (p. ej. importados de un EHR) requieren nombre
+      if (CIE10_CODE_PATTERN.test(code) && name) return { code, name };
+      if (strict) throw invalidData(`Código CIE-10 desconocido: ${code}`);
+    }
+
+    if (!name) {
+      if (strict) throw invalidData('El padecimiento requiere nombre o código');
+      return null;
+    }
+
+    return { ...this.resolveName('conditions', name), name };
+  }
+
+  private toMedicationEntry(value: unknown, strict: boolean): MedicationEntry | null {
+    if (typeof value === 'string') {
+      return this.parseMedicationText(value);
+    }
+
+    if (!value || typeof value !== 'object') {
+      if (strict) throw invalidData('Medicamento con formato inválido');
+      return null;
+    }
+
+    const input = value as Record<string, unknown>;
+    const name = cleanText(input.name);
+    const code = cleanText(input.code);
+    const dose = cleanText(input.dose);
+    const frequency = cleanText(input.frequency);
+
+    if (code) {
+      const item = this.findDrug(code);
+      if (item) return { code: item.code, name: name || item.name, dose, frequency };
+      if (strict) throw invalidData(`Medicamento desconocido en el catálogo: ${code}`);
+    }
+
+    if (!name) {
+      if (strict) throw invalidData('El medicamento requiere nombre o código');
+      return null;
+    }
+
+    return { ...this.resolveName('medications', name), name, dose, frequency };
+  }
+
+  private toAllergyEntry(value: unknown, strict: boolean): AllergyEntry | null {
+    const input: Record<string, unknown> = typeof value === 'string'
+      ? { name: value }
+      : value && typeof value === 'object' ? value as Record<string, unknown> : {};
+
+    const name = cleanText(input.name);
+    const code = cleanText(input.code);
+    const reaction = cleanText(input.reaction);
+
+    const severity = (ALLERGY_SEVERITIES as readonly unknown[]).includes(input.severity)
+      ? input.severity as AllergySeverity
+      : null;
+    if (strict && input.severity != null && !severity) {
+      throw invalidData('Severidad de alergia inválida');
+    }
+
+    if (code) {
+      const item = this.findAllergen(code);
+      if (item) return { code: item.code, name: name || item.name, category: item.category, severity, reaction };
+      if (strict) throw invalidData(`Alérgeno desconocido en el catálogo: ${code}`);
+    }
+
+    if (!name) {
+      if (strict) throw invalidData('La alergia requiere nombre o código');
+      return null;
+    }
+
+    // La categoría solo se toma del catálogo con coincidencia exacta, no de la sugerencia
+    const resolved = this.resolveName('allergens', name);
+    const category = (ALLERGEN_CATEGORIES as readonly unknown[]).includes(input.category)
+      ? input.category as AllergenCategory
+      : (resolved.code && this.findAllergen(resolved.code)?.category) || 'OTHER';
+
+    return { ...resolved, name, category, severity, reaction };
+  }
+
+  /**
+   * Código por coincidencia exacta (nombre, sinónimo o código); si solo hay un término
+   * contenido en el texto ("Sospecha de alergia a penicilina") se regresa como sugerencia
+   */
+  private resolveName(type: CatalogType, name: string): { code: string | null; suggestion?: CatalogSuggestion } {
+    const exact = this.matchTerm(type, name, true);
+    if (exact) return { code: exact.code };
+
+    const partial = this.matchTerm(type, name);
+    return partial
+      ? { code: null, suggestion: { code: partial.code, name: partial.name } }
+      : { code: null };
+  }
+
+  /**
+   * Separa un texto libre de posología en dosis y frecuencia
+   */
+  parseDosage(text: string): { dose: string | null; frequency: string | null } {
+    const cleaned = cleanText(text);
+    if (!cleaned) return { dose: null, frequency: null };
+
+    const doseMatch = cleaned.match(DOSE_PATTERN);
+    const rest = (doseMatch ? cleaned.replace(doseMatch[0], ' ') : cleaned)
+      .replace(/^[\s,;.-]+|[\s,;.-]+$/g, '')
+      .replace(/\s+/g, ' ');
+
+    return {
+      dose: doseMatch ? formatDose(doseMatch) : null,
+      frequency: rest || null,
+    };
+  }
+
+  /**
+   * Clave de deduplicación de una entrada: código si existe, nombre normalizado si no
+   */
+  entryKey(entry: { code: string | null; name: string }): string {
+    return entry.code ? `code:${entry.code}` : `name:${normalizeTerm(entry.name)}`;
+  }
+
+  /**
+   * Separa nombre, dosis y frecuencia de texto libre ("Metformina 850mg - 1 cada 12 horas")
+   */
+  private parseMedicationText(text: string): MedicationEntry | null {
+    const cleaned = cleanText(text);
+    if (!cleaned) return null;
+
+    const [main, ...rest] = cleaned.split(/\s+-\s+/);
+    const doseMatch = main.match(DOSE_PATTERN);
+    const frequencyMatch = main.match(FREQUENCY_PATTERN);
+
+    let namePart = main;
+    if (doseMatch) namePart = namePart.replace(doseMatch[0], ' ');
+    if (frequencyMatch) namePart = namePart.replace(frequencyMatch[0], ' ');
+    namePart = namePart.replace(/\s+/g, ' ').trim();
+
+    const dose = doseMatch ? formatDose(doseMatch) : null;
+    const frequency = rest.join(' - ').trim() || frequencyMatch?.[0] || null;
+
+    const name = namePart || cleaned;
+    return { ...this.resolveName('medications', name), name, dose, frequency };
+  }
+
+  private dedupe<T extends { code: string | null; name: string }>(entries: T[]): T[] {
+    const seen = new Set<string>();
+    return entries.filter((entry) => {
+      const key = this.entryKey(entry);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+}
+
+export const catalogService = new CatalogService();
+export default catalogService;
@@ -0,0 +1,105 @@
+// src/modules/catalog/catalog.types.ts
+
+// ==================== CATALOGOS ====================
+
+// Padecimiento de la CIE-10 (subconjunto relevante para emergencias)
+export interface CatalogCondition {
+  code: string;        // Código CIE-10 (E11, I21.9)
+  name: string;
+  synonyms?: string[]; // Nombres comunes para búsqueda y migración de texto libre
+}
+
+// Medicamento del catálogo local
+export interface CatalogDrug {
+  code: string;        // Clave interna estable (metformina)
+  name: string;
+  atc: string;         // Clasificación ATC de la OMS
+  group: string;       // Grupo terapéutico
+  strengths: string[]; // Presentaciones comunes para sugerir la dosis
+  synonyms?: string[]; // Marcas o nombres alternos
+}
+
+// Categorías de alérgenos (equivalentes a AllergyIntolerance.category de FHIR)
+export const ALLERGEN_CATEGORIES = ['MEDICATION', 'FOOD', 'ENVIRONMENT', 'BIOLOGIC', 'OTHER'] as const;
+export type AllergenCategory = typeof ALLERGEN_CATEGORIES[number];
+
+export interface CatalogAllergen {
+  code: string;
+  name: string;
+  category: AllergenCategory;
+  atcPrefixes?: string[]; // Medicamentos del catálogo que contienen el alérgeno
+  synonyms?: string[];
+}
+
+export type CatalogType = 'conditions' | 'medications' | 'allergens';
+
+// ==================== DATOS MEDICOS CODIFICADOS ====================
+
+export const ALLERGY_SEVERITIES = ['MILD', 'MODERATE', 'SEVERE'] as const;
+export type AllergySeverity = typeof ALLERGY_SEVERITIES[number];
+
+// Término del catálogo contenido en el texto libre ("Descartado infarto" → I21.9):
+// se ofrece al paciente para confirmar, nunca reemplaza el dato ni se usa como código
+export interface CatalogSuggestion {
+  code: string;
+  name: string;
+}
+
+// code = null cuando el dato no está en el catálogo (texto libre); name conserva el texto capturado
+export interface AllergyEntry {
+  code: string | null;
+  name: string;
+  category: AllergenCategory;
+  severity: AllergySeverity | null;
+  reaction: string | null;
+  suggestion?: CatalogSuggestion;
+}
+
+export interface ConditionEntry {
+  code: string | null;
+  name: string;
+  suggestion?: CatalogSuggestion;
+}
+
+export interface MedicationEntry {
+  code: string | null;
+  name: string;
+  dose: string | null;
+  frequency: string | null;
+  suggestion?: CatalogSuggestion;
+}
+
+// ==================== INTERACCIONES ====================
+
+// CONTRAINDICATED = no administrar; MAJOR = riesgo grave, solo con vigilancia; MODERATE = precaución
+export const INTERACTION_SEVERITIES = ['CONTRAINDICATED', 'MAJOR', 'MODERATE'] as const;
+export type InteractionSeverity = typeof INTERACTION_SEVERITIES[number];
+
+// Par de grupos de medicamentos (prefijos ATC) que interactúan
+export interface DrugInteractionRule {
+  id: string;
+  drugsA: string[];
+  drugsB: string[];
+  severity: InteractionSeverity;
+  effect: string;
+  recommendation: string;
+}
+
+// Reactividad cruzada de un alérgeno con otros grupos de medicamentos
+export interface AllergyCrossReactivityRule {
+  allergen: string; // Código del catálogo de alérgenos
+  atcPrefixes: string[];
+  severity: InteractionSeverity;
+  effect: string;
+}
+
+export type ClinicalWarningType = 'DRUG_ALLERGY' | 'DRUG_DRUG' | 'DUPLICATE_THERAPY';
+
+export interface ClinicalWarning {
+  type: ClinicalWarningType;
+  severity: InteractionSeverity;
+  drug: string;          // Medicamento evaluado
+  conflictsWith: string; // Alergia o medicamento del paciente
+  message: string;
+  recommendation: string | null;
+}
@@ -0,0 +1,57 @@
+// src/modules/catalog/data/allergens.ts
+// Alérgenos frecuentes; los de medicamentos indican los prefijos ATC que los contienen
+import type { CatalogAllergen } from '../catalog.types';
+
+export const ALLERGEN_CATALOG: CatalogAllergen[] = [
+  // Medicamentos
+  { code: 'penicilinas', name: 'Penicilinas', category: 'MEDICATION', atcPrefixes: ['J01C'], synonyms: ['penicilina', 'amoxicilina', 'ampicilina'] },
+  { code: 'cefalosporinas', name: 'Cefalosporinas', category: 'MEDICATION', atcPrefixes: ['J01DB', 'J01DC', 'J01DD', 'J01DE'], synonyms: ['cefalosporina', 'ceftriaxona', 'cefalexina'] },
+  { code: 'sulfonamidas', name: 'Sulfonamidas', category: 'MEDICATION', atcPrefixes: ['J01E'], synonyms: ['sulfas', 'sulfa', 'sulfametoxazol'] },
+  { code: 'macrolidos', name: 'Macrólidos', category: 'MEDICATION', atcPrefixes: ['J01FA'], synonyms: ['azitromicina', 'claritromicina', 'eritromicina'] },
+  { code: 'quinolonas', name: 'Quinolonas', category: 'MEDICATION', atcPrefixes: ['J01MA'], synonyms: ['ciprofloxacino', 'levofloxacino'] },
+  { code: 'tetraciclinas', name: 'Tetraciclinas', category: 'MEDICATION', atcPrefixes: ['J01AA'], synonyms: ['doxiciclina'] },
+  { code: 'clindamicina', name: 'Clindamicina', category: 'MEDICATION', atcPrefixes: ['J01FF01'] },
+  { code: 'vancomicina', name: 'Vancomicina', category: 'MEDICATION', atcPrefixes: ['J01XA01'] },
+  { code: 'metronidazol', name: 'Metronidazol', category: 'MEDICATION', atcPrefixes: ['P01AB01'] },
+  { code: 'aines', name: 'Antiinflamatorios no esteroideos (AINE)', category: 'MEDICATION', atcPrefixes: ['M01A', 'B01AC06', 'N02BA'], synonyms: ['aine', 'ibuprofeno', 'naproxeno', 'diclofenaco', 'ketorolaco'] },
+  { code: 'acido-acetilsalicilico', name: 'Ácido acetilsalicílico', category: 'MEDICATION', atcPrefixes: ['B01AC06', 'N02BA01'], synonyms: ['aspirina', 'asa'] },
+  { code: 'metamizol', name: 'Metamizol', category: 'MEDICATION', atcPrefixes: ['N02BB02'], synonyms: ['dipirona', 'neomelubrina'] },
+  { code: 'paracetamol', name: 'Paracetamol', category: 'MEDICATION', atcPrefixes: ['N02BE01'], synonyms: ['acetaminofen'] },
+  { code: 'opioides', name: 'Opioides', category: 'MEDICATION', atcPrefixes: ['N02A'], synonyms: ['morfina', 'tramadol', 'codeina'] },
+  { code: 'anticonvulsivos-aromaticos', name: 'Anticonvulsivos aromáticos', category: 'MEDICATION', atcPrefixes: ['N03AF', 'N03AB', 'N03AX09'], synonyms: ['carbamazepina', 'fenitoina', 'lamotrigina'] },
+  { code: 'ieca', name: 'Inhibidores de la ECA (angioedema)', category: 'MEDICATION', atcPrefixes: ['C09A'], synonyms: ['enalapril', 'captopril', 'lisinopril'] },
+  { code: 'insulina', name: 'Insulina', category: 'MEDICATION', atcPrefixes: ['A10A'] },
+  { code: 'heparina', name: 'Heparinas', category: 'MEDICATION', atcPrefixes: ['B01AB'], synonyms: ['heparina', 'enoxaparina'] },
+  { code: 'anestesicos-locales', name: 'Anestésicos locales', category: 'MEDICATION', atcPrefixes: ['N01B'], synonyms: ['lidocaina', 'anestesia local'] },
+  { code: 'relajantes-musculares', name: 'Relajantes neuromusculares', category: 'MEDICATION', atcPrefixes: ['M03A'], synonyms: ['succinilcolina', 'rocuronio'] },
+  { code: 'medio-contraste-yodado', name: 'Medio de contraste yodado', category: 'MEDICATION', atcPrefixes: ['V08A'], synonyms: ['contraste yodado', 'yodo', 'medio de contraste'] },
+
+  // Alimentos
+  { code: 'cacahuate', name: 'Cacahuate', category: 'FOOD', synonyms: ['cacahuates', 'mani'] },
+  { code: 'frutos-secos', name: 'Frutos secos', category: 'FOOD', synonyms: ['nueces', 'almendras', 'nuez'] },
+  { code: 'mariscos', name: 'Mariscos', category: 'FOOD', synonyms: ['camaron', 'crustaceos', 'moluscos'] },
+  { code: 'pescado', name: 'Pescado', category: 'FOOD' },
+  { code: 'huevo', name: 'Huevo', category: 'FOOD' },
+  { code: 'leche', name: 'Proteína de leche de vaca', category: 'FOOD', synonyms: ['leche', 'lacteos'] },
+  { code: 'trigo', name: 'Trigo', category: 'FOOD', synonyms: ['gluten'] },
+  { code: 'soya', name: 'Soya', category: 'FOOD', synonyms: ['soja'] },
+  { code: 'ajonjoli', name: 'Ajonjolí', category: 'FOOD', synonyms: ['sesamo'] },
+  { code: 'fresa', name: 'Fresa', category: 'FOOD', synonyms: ['fresas'] },
+
+  // Ambientales
+  { code: 'latex', name: 'Látex', category: 'ENVIRONMENT' },
+  { code: 'polen', name: 'Polen', category: 'ENVIRONMENT', synonyms: ['polen de pasto'] },
+  { code: 'acaros', name: 'Ácaros del polvo', category: 'ENVIRONMENT', synonyms: ['acaros', 'polvo'] },
+  { code: 'epitelio-gato', name: 'Epitelio de gato', category: 'ENVIRONMENT', synonyms: ['gatos', 'pelo de gato'] },
+  { code: 'epitelio-perro', name: 'Epitelio de perro', category: 'ENVIRONMENT', synonyms: ['perros', 'pelo de perro'] },
+  { code: 'moho', name: 'Moho', category: 'ENVIRONMENT', synonyms: ['hongos ambientales'] },
+  { code: 'picadura-abeja', name: 'Picadura de abeja', category: 'ENVIRONMENT', synonyms: ['abeja', 'abejas'] },
+  { code: 'picadura-avispa', name: 'Picadura de avispa', category: 'ENVIRONMENT', synonyms: ['avispa', 'avispas'] },
+  { code: 'hormiga-fuego', name: 'Picadura de hormiga de fuego', category: 'ENVIRONMENT', synonyms: ['hormiga', 'hormigas'] },
+  { code: 'niquel', name: 'Níquel', category: 'ENVIRONMENT' },
+
+  // Biológicos
+  { code: 'hemoderivados', name: 'Sangre y hemoderivados', category: 'BIOLOGIC', synonyms: ['transfusion', 'plasma'] },
+  { code: 'vacunas', name: 'Vacunas', category: 'BIOLOGIC', synonyms: ['vacuna'] },
+  { code: 'antiveneno', name: 'Sueros antiveneno', category: 'BIOLOGIC', synonyms: ['suero antialacran', 'antiveneno'] },
+];
@@ -0,0 +1,184 @@
+// src/modules/catalog/data/cie10.ts
+// Subconjunto de la CIE-10 (OMS) con los padecimientos más relevantes en una emergencia
+import type { CatalogCondition } from '../catalog.types';
+
+export const CIE10_CONDITIONS: CatalogCondition[] = [
+  // Endocrinas y metabólicas
+  { code: 'E10', name: 'Diabetes mellitus tipo 1', synonyms: ['diabetes tipo 1', 'dm1', 'diabetes insulinodependiente'] },
+  { code: 'E11', name: 'Diabetes mellitus tipo 2', synonyms: ['diabetes tipo 2', 'dm2', 'diabetes mellitus'] },
+  { code: 'E14', name: 'Diabetes mellitus, no especificada', synonyms: ['diabetes'] },
+  { code: 'E03.9', name: 'Hipotiroidismo', synonyms: ['tiroides baja'] },
+  { code: 'E05.9', name: 'Hipertiroidismo', synonyms: ['tirotoxicosis'] },
+  { code: 'E27.1', name: 'Insuficiencia suprarrenal primaria', synonyms: ['enfermedad de addison', 'addison'] },
+  { code: 'E66.9', name: 'Obesidad' },
+  { code: 'E78.5', name: 'Dislipidemia', synonyms: ['hiperlipidemia', 'colesterol alto', 'trigliceridos altos'] },
+  { code: 'E84.9', name: 'Fibrosis quística' },
+
+  // Circulatorias
+  { code: 'I10', name: 'Hipertensión arterial', synonyms: ['hipertension', 'hipertension esencial', 'presion alta'] },
+  { code: 'I20.9', name: 'Angina de pecho', synonyms: ['angina'] },
+  { code: 'I21.9', name: 'Infarto agudo de miocardio', synonyms: ['infarto', 'infarto al corazon'] },
+  { code: 'I25.9', name: 'Cardiopatía isquémica crónica', synonyms: ['cardiopatia', 'enfermedad cardiaca', 'enfermedad coronaria'] },
+  { code: 'I26.9', name: 'Embolia pulmonar', synonyms: ['tromboembolia pulmonar', 'tep'] },
+  { code: 'I42.9', name: 'Cardiomiopatía', synonyms: ['miocardiopatia'] },
+  { code: 'I48', name: 'Fibrilación auricular', synonyms: ['fibrilacion', 'aleteo auricular'] },
+  { code: 'I49.9', name: 'Arritmia cardiaca', synonyms: ['arritmia'] },
+  { code: 'I50.9', name: 'Insuficiencia cardiaca', synonyms: ['falla cardiaca'] },
+  { code: 'I61.9', name: 'Hemorragia intracerebral', synonyms: ['derrame cerebral'] },
+  { code: 'I63.9', name: 'Infarto cerebral', synonyms: ['evc isquemico', 'ictus'] },
+  { code: 'I64', name: 'Accidente cerebrovascular', synonyms: ['acv', 'evc', 'embolia cerebral'] },
+  { code: 'G45.9', name: 'Isquemia cerebral transitoria', synonyms: ['ait'] },
+  { code: 'I71.4', name: 'Aneurisma de aorta abdominal', synonyms: ['aneurisma aortico'] },
+  { code: 'I73.9', name: 'Enfermedad vascular periférica', synonyms: ['insuficiencia arterial periferica'] },
+  { code: 'I80.2', name: 'Trombosis venosa profunda', synonyms: ['tvp', 'trombosis'] },
+  { code: 'Z95.0', name: 'Portador de marcapasos', synonyms: ['marcapasos'] },
+  { code: 'Z95.2', name: 'Portador de prótesis valvular cardiaca', synonyms: ['valvula cardiaca', 'protesis valvular'] },
+  { code: 'Z92.1', name: 'Tratamiento anticoagulante prolongado', synonyms: ['anticoagulado', 'anticoagulacion'] },
+
+  // Respiratorias
+  { code: 'J45.9', name: 'Asma', synonyms: ['asma bronquial'] },
+  { code: 'J44.9', name: 'Enfermedad pulmonar obstructiva crónica', synonyms: ['epoc', 'enfisema', 'bronquitis cronica'] },
+  { code: 'J47', name: 'Bronquiectasias' },
+  { code: 'J84.1', name: 'Fibrosis pulmonar' },
+  { code: 'J30.4', name: 'Rinitis alérgica' },
+  { code: 'G47.3', name: 'Apnea del sueño', synonyms: ['apnea obstructiva del sueno'] },
+
+  // Renales y urológicas
+  { code: 'N18.9', name: 'Enfermedad renal crónica', synonyms: ['insuficiencia renal', 'insuficiencia renal cronica', 'erc'] },
+  { code: 'N17.9', name: 'Insuficiencia renal aguda', synonyms: ['lesion renal aguda'] },
+  { code: 'Z99.2', name: 'Dependencia de diálisis', synonyms: ['dialisis', 'hemodialisis', 'dialisis peritoneal'] },
+  { code: 'N20.0', name: 'Litiasis renal', synonyms: ['calculos renales', 'piedras en el rinon'] },
+
+  // Neurológicas
+  { code: 'G40.9', name: 'Epilepsia', synonyms: ['convulsiones', 'crisis convulsivas'] },
+  { code: 'G30.9', name: 'Enfermedad de Alzheimer', synonyms: ['alzheimer'] },
+  { code: 'F03', name: 'Demencia' },
+  { code: 'G20', name: 'Enfermedad de Parkinson', synonyms: ['parkinson'] },
+  { code: 'G35', name: 'Esclerosis múltiple' },
+  { code: 'G43.9', name: 'Migraña', synonyms: ['jaqueca'] },
+  { code: 'G70.0', name: 'Miastenia gravis', synonyms: ['miastenia'] },
+  { code: 'G12.2', name: 'Esclerosis lateral amiotrófica', synonyms: ['ela'] },
+  { code: 'G80.9', name: 'Parálisis cerebral' },
+
+  // Salud mental
+  { code: 'F32.9', name: 'Depresión', synonyms: ['episodio depresivo'] },
+  { code: 'F41.1', name: 'Trastorno de ansiedad generalizada', synonyms: ['ansiedad'] },
+  { code: 'F31.9', name: 'Trastorno bipolar', synonyms: ['bipolaridad'] },
+  { code: 'F20.9', name: 'Esquizofrenia' },
+  { code: 'F84.0', name: 'Trastorno del espectro autista', synonyms: ['autismo'] },
+  { code: 'F90.0', name: 'Trastorno por déficit de atención e hiperactividad', synonyms: ['tdah'] },
+  { code: 'F10.2', name: 'Dependencia del alcohol', synonyms: ['alcoholismo'] },
+
+  // Oncológicas
+  { code: 'C80', name: 'Cáncer (sitio no especificado)', synonyms: ['cancer', 'tumor maligno'] },
+  { code: 'C50.9', name: 'Cáncer de mama' },
+  { code: 'C61', name: 'Cáncer de próstata' },
+  { code: 'C34.9', name: 'Cáncer de pulmón' },
+  { code: 'C18.9', name: 'Cáncer de colon' },
+  { code: 'C53.9', name: 'Cáncer cervicouterino', synonyms: ['cancer de cervix'] },
+  { code: 'C71.9', name: 'Tumor maligno del encéfalo', synonyms: ['cancer cerebral'] },
+  { code: 'C91.0', name: 'Leucemia linfoblástica aguda', synonyms: ['leucemia'] },
+  { code: 'C92.0', name: 'Leucemia mieloide aguda' },
+  { code: 'C81.9', name: 'Linfoma de Hodgkin' },
+  { code: 'C85.9', name: 'Linfoma no Hodgkin', synonyms: ['linfoma'] },
+
+  // Sangre e inmunidad
+  { code: 'D50.9', name: 'Anemia por deficiencia de hierro', synonyms: ['anemia', 'anemia ferropenica'] },
+  { code: 'D57.1', name: 'Anemia de células falciformes', synonyms: ['anemia falciforme'] },
+  { code: 'D66', name: 'Hemofilia A', synonyms: ['hemofilia'] },
+  { code: 'D67', name: 'Hemofilia B' },
+  { code: 'D68.9', name: 'Trastorno de la coagulación', synonyms: ['coagulopatia'] },
+  { code: 'D69.6', name: 'Trombocitopenia', synonyms: ['plaquetas bajas'] },
+  { code: 'D84.9', name: 'Inmunodeficiencia' },
+  { code: 'B20', name: 'Enfermedad por VIH', synonyms: ['vih', 'sida'] },
+
+  // Digestivas e hígado
+  { code: 'K21.9', name: 'Enfermedad por reflujo gastroesofágico', synonyms: ['reflujo', 'erge'] },
+  { code: 'K25.9', name: 'Úlcera gástrica', synonyms: ['ulcera', 'gastritis'] },
+  { code: 'K50.9', name: 'Enfermedad de Crohn', synonyms: ['crohn'] },
+  { code: 'K51.9', name: 'Colitis ulcerosa', synonyms: ['colitis ulcerativa'] },
+  { code: 'K74.6', name: 'Cirrosis hepática', synonyms: ['cirrosis'] },
+  { code: 'K90.0', name: 'Enfermedad celiaca', synonyms: ['celiaquia'] },
+  { code: 'B18.1', name: 'Hepatitis B crónica' },
+  { code: 'B18.2', name: 'Hepatitis C crónica' },
+
+  // Reumatológicas y musculoesqueléticas
+  { code: 'M06.9', name: 'Artritis reumatoide' },
+  { code: 'M13.9', name: 'Artritis, no especificada', synonyms: ['artritis'] },
+  { code: 'M32.9', name: 'Lupus eritematoso sistémico', synonyms: ['lupus'] },
+  { code: 'M45', name: 'Espondilitis anquilosante' },
+  { code: 'M10.9', name: 'Gota' },
+  { code: 'M19.9', name: 'Artrosis', synonyms: ['osteoartritis', 'osteoartrosis'] },
+  { code: 'M81.9', name: 'Osteoporosis' },
+  { code: 'M79.7', name: 'Fibromialgia' },
+
+  // Alergias e inmunológicas
+  { code: 'T78.2', name: 'Antecedente de choque anafiláctico', synonyms: ['anafilaxia', 'alergias severas'] },
+  { code: 'T78.3', name: 'Angioedema', synonyms: ['edema angioneurotico'] },
+  { code: 'L20.9', name: 'Dermatitis atópica' },
+
+  // Trasplantes
+  { code: 'Z94.0', name: 'Trasplante de riñón', synonyms: ['trasplante renal'] },
+  { code: 'Z94.1', name: 'Trasplante de corazón', synonyms: ['trasplante cardiaco'] },
+  { code: 'Z94.2', name: 'Trasplante de pulmón' },
+  { code: 'Z94.4', name: 'Trasplante de hígado', synonyms: ['trasplante hepatico'] },
+
+  // Embarazo
+  { code: 'Z33', name: 'Embarazo', synonyms: ['embarazada'] },
+  { code: 'O09.9', name: 'Embarazo de alto riesgo' },
+  { code: 'O24.4', name: 'Diabetes gestacional' },
+  { code: 'O14.9', name: 'Preeclampsia' },
+
+  // Sentidos y congénitas
+  { code: 'H40.9', name: 'Glaucoma' },
+  { code: 'H91.9', name: 'Hipoacusia', synonyms: ['sordera'] },
+  { code: 'Q90.9', name: 'Síndrome de Down' },
+];
+
+/**
+ * Especialidades requeridas por rango de la CIE-10
+ * Un patrón con guion es un rango de categorías (E10-E14); sin guion es un prefijo (Z99.2)
+ * critical: la condición requiere UCI/trauma y da prioridad a hospitales que los tienen
+ */
+export const CIE10_SPECIALTY_RULES: { patterns: string[]; specialties: string[]; critical?: boolean }[] = [
+  { patterns: ['E10-E14', 'O24'], specialties: ['Endocrinologia', 'Medicina Interna', 'Nefrologia', 'Oftalmologia'] },
+  { patterns: ['E00-E07', 'E20-E35', 'E66'], specialties: ['Endocrinologia', 'Medicina Interna'] },
+  { patterns: ['E78'], specialties: ['Cardiologia', 'Medicina Interna'] },
+  { patterns: ['E84'], specialties: ['Neumologia', 'Medicina Interna'] },
+  { patterns: ['I10-I15'], specialties: ['Cardiologia', 'Medicina Interna', 'Nefrologia'] },
+  { patterns: ['I20-I25'], specialties: ['Cardiologia', 'Cirugia Cardiovascular', 'Urgencias'] },
+  { patterns: ['I21-I22'], specialties: ['Terapia Intensiva'], critical: true },
+  { patterns: ['I26'], specialties: ['Neumologia', 'Urgencias', 'Terapia Intensiva'], critical: true },
+  { patterns: ['I30-I52', 'Z95.0', 'Z95.2'], specialties: ['Cardiologia', 'Medicina Interna', 'Terapia Intensiva'] },
+  { patterns: ['I60-I69', 'G45'], specialties: ['Neurologia', 'Neurocirugia', 'Urgencias', 'Terapia Intensiva'] },
+  { patterns: ['I60-I64'], specialties: [], critical: true },
+  { patterns: ['I70-I79'], specialties: ['Cirugia Cardiovascular', 'Angiologia'] },
+  { patterns: ['I80-I89', 'Z92.1'], specialties: ['Angiologia', 'Hematologia', 'Medicina Interna'] },
+  { patterns: ['J40-J47', 'J84'], specialties: ['Neumologia', 'Medicina Interna', 'Urgencias'] },
+  { patterns: ['J45-J46', 'J30'], specialties: ['Neumologia', 'Alergologia', 'Urgencias'] },
+  { patterns: ['G47'], specialties: ['Neumologia', 'Neurologia'] },
+  { patterns: ['N17-N19', 'Z99.2', 'Z94.0'], specialties: ['Nefrologia', 'Dialisis', 'Medicina Interna'] },
+  { patterns: ['N20-N23'], specialties: ['Urologia', 'Urgencias'] },
+  { patterns: ['G40-G41'], specialties: ['Neurologia', 'Urgencias'] },
+  { patterns: ['G10-G37', 'G43', 'G70', 'G80'], specialties: ['Neurologia'] },
+  { patterns: ['G30', 'F00-F03'], specialties: ['Neurologia', 'Geriatria', 'Psiquiatria'] },
+  { patterns: ['F10-F99'], specialties: ['Psiquiatria', 'Salud Mental'] },
+  { patterns: ['C00-D48'], specialties: ['Oncologia', 'Cirugia Oncologica', 'Radioterapia', 'Quimioterapia'] },
+  { patterns: ['C81-C96', 'D50-D89'], specialties: ['Hematologia', 'Medicina Interna'] },
+  { patterns: ['D65-D69'], specialties: ['Hematologia', 'Urgencias'] },
+  { patterns: ['B20-B24', 'D84'], specialties: ['Infectologia', 'Medicina Interna'] },
+  { patterns: ['B15-B19', 'K70-K77', 'Z94.4'], specialties: ['Gastroenterologia', 'Hepatologia', 'Medicina Interna'] },
+  { patterns: ['K20-K31', 'K50-K52', 'K90'], specialties: ['Gastroenterologia', 'Cirugia General'] },
+  { patterns: ['M05-M14', 'M30-M36', 'M45', 'M79'], specialties: ['Reumatologia', 'Medicina Interna'] },
+  { patterns: ['M15-M19', 'M80-M81'], specialties: ['Ortopedia', 'Traumatologia'] },
+  { patterns: ['T78', 'L20'], specialties: ['Alergologia', 'Urgencias', 'Terapia Intensiva'] },
+  { patterns: ['Z94.1'], specialties: ['Cardiologia', 'Cirugia Cardiovascular', 'Trasplantes'] },
+  { patterns: ['Z94'], specialties: ['Trasplantes', 'Medicina Interna'] },
+  { patterns: ['S00-T14'], specialties: ['Traumatologia', 'Ortopedia', 'Cirugia General', 'Urgencias', 'Terapia Intensiva'], critical: true },
+  { patterns: ['T20-T32'], specialties: ['Cirugia Plastica', 'Urgencias', 'Terapia Intensiva'], critical: true },
+  { patterns: ['O00-O99', 'Z33-Z36'], specialties: ['Ginecologia', 'Obstetricia', 'Neonatologia'] },
+  { patterns: ['O09', 'O10-O16'], specialties: ['Medicina Materno Fetal', 'Terapia Intensiva'] },
+  { patterns: ['H40-H42'], specialties: ['Oftalmologia'] },
+  { patterns: ['H90-H91'], specialties: ['Otorrinolaringologia'] },
+  { patterns: ['Q90'], specialties: ['Medicina Interna', 'Cardiologia'] },
+];
@@ -0,0 +1,142 @@
+// src/modules/catalog/data/drugs.ts
+// Catálogo local de medicamentos de uso frecuente en México (principio activo + clasificación ATC)
+import type { CatalogDrug } from '../catalog.types';
+
+export const DRUG_CATALOG: CatalogDrug[] = [
+  // Diabetes
+  { code: 'metformina', name: 'Metformina', atc: 'A10BA02', group: 'Antidiabético', strengths: ['500 mg', '850 mg', '1000 mg'] },
+  { code: 'glibenclamida', name: 'Glibenclamida', atc: 'A10BB01', group: 'Antidiabético', strengths: ['5 mg'] },
+  { code: 'sitagliptina', name: 'Sitagliptina', atc: 'A10BH01', group: 'Antidiabético', strengths: ['50 mg', '100 mg'] },
+  { code: 'dapagliflozina', name: 'Dapagliflozina', atc: 'A10BK01', group: 'Antidiabético', strengths: ['10 mg'] },
+  { code: 'empagliflozina', name: 'Empagliflozina', atc: 'A10BK03', group: 'Antidiabético', strengths: ['10 mg', '25 mg'] },
+  { code: 'insulina-nph', name: 'Insulina NPH', atc: 'A10AC01', group: 'Insulina', strengths: ['100 UI/ml'], synonyms: ['insulina intermedia'] },
+  { code: 'insulina-glargina', name: 'Insulina glargina', atc: 'A10AE04', group: 'Insulina', strengths: ['100 UI/ml'], synonyms: ['lantus'] },
+  { code: 'insulina-lispro', name: 'Insulina lispro', atc: 'A10AB04', group: 'Insulina', strengths: ['100 UI/ml'], synonyms: ['humalog'] },
+
+  // Cardiovascular
+  { code: 'losartan', name: 'Losartán', atc: 'C09CA01', group: 'Antihipertensivo (ARA II)', strengths: ['50 mg', '100 mg'] },
+  { code: 'telmisartan', name: 'Telmisartán', atc: 'C09CA07', group: 'Antihipertensivo (ARA II)', strengths: ['40 mg', '80 mg'] },
+  { code: 'valsartan', name: 'Valsartán', atc: 'C09CA03', group: 'Antihipertensivo (ARA II)', strengths: ['80 mg', '160 mg'] },
+  { code: 'enalapril', name: 'Enalapril', atc: 'C09AA02', group: 'Antihipertensivo (IECA)', strengths: ['10 mg', '20 mg'] },
+  { code: 'captopril', name: 'Captopril', atc: 'C09AA01', group: 'Antihipertensivo (IECA)', strengths: ['25 mg', '50 mg'] },
+  { code: 'lisinopril', name: 'Lisinopril', atc: 'C09AA03', group: 'Antihipertensivo (IECA)', strengths: ['10 mg', '20 mg'] },
+  { code: 'amlodipino', name: 'Amlodipino', atc: 'C08CA01', group: 'Antihipertensivo (calcioantagonista)', strengths: ['5 mg', '10 mg'] },
+  { code: 'nifedipino', name: 'Nifedipino', atc: 'C08CA05', group: 'Antihipertensivo (calcioantagonista)', strengths: ['30 mg', '60 mg'] },
+  { code: 'metoprolol', name: 'Metoprolol', atc: 'C07AB02', group: 'Betabloqueador', strengths: ['50 mg', '100 mg'] },
+  { code: 'atenolol', name: 'Atenolol', atc: 'C07AB03', group: 'Betabloqueador', strengths: ['50 mg', '100 mg'] },
+  { code: 'propranolol', name: 'Propranolol', atc: 'C07AA05', group: 'Betabloqueador', strengths: ['10 mg', '40 mg'] },
+  { code: 'carvedilol', name: 'Carvedilol', atc: 'C07AG02', group: 'Betabloqueador', strengths: ['6.25 mg', '25 mg'] },
+  { code: 'hidroclorotiazida', name: 'Hidroclorotiazida', atc: 'C03AA03', group: 'Diurético', strengths: ['25 mg'] },
+  { code: 'clortalidona', name: 'Clortalidona', atc: 'C03BA04', group: 'Diurético', strengths: ['25 mg', '50 mg'] },
+  { code: 'furosemida', name: 'Furosemida', atc: 'C03CA01', group: 'Diurético', strengths: ['40 mg'] },
+  { code: 'espironolactona', name: 'Espironolactona', atc: 'C03DA01', group: 'Diurético', strengths: ['25 mg', '100 mg'] },
+  { code: 'digoxina', name: 'Digoxina', atc: 'C01AA05', group: 'Antiarrítmico', strengths: ['0.25 mg'] },
+  { code: 'amiodarona', name: 'Amiodarona', atc: 'C01BD01', group: 'Antiarrítmico', strengths: ['200 mg'] },
+  { code: 'isosorbida', name: 'Dinitrato de isosorbida', atc: 'C01DA08', group: 'Antianginoso', strengths: ['5 mg', '10 mg'] },
+  { code: 'nitroglicerina', name: 'Nitroglicerina', atc: 'C01DA02', group: 'Antianginoso', strengths: ['0.4 mg'] },
+  { code: 'atorvastatina', name: 'Atorvastatina', atc: 'C10AA05', group: 'Hipolipemiante', strengths: ['20 mg', '40 mg', '80 mg'] },
+  { code: 'simvastatina', name: 'Simvastatina', atc: 'C10AA01', group: 'Hipolipemiante', strengths: ['20 mg', '40 mg'] },
+  { code: 'rosuvastatina', name: 'Rosuvastatina', atc: 'C10AA07', group: 'Hipolipemiante', strengths: ['10 mg', '20 mg'] },
+  { code: 'bezafibrato', name: 'Bezafibrato', atc: 'C10AB02', group: 'Hipolipemiante', strengths: ['200 mg'] },
+
+  // Antitrombóticos
+  { code: 'acido-acetilsalicilico', name: 'Ácido acetilsalicílico', atc: 'B01AC06', group: 'Antiagregante', strengths: ['100 mg', '500 mg'], synonyms: ['aspirina', 'asa'] },
+  { code: 'clopidogrel', name: 'Clopidogrel', atc: 'B01AC04', group: 'Antiagregante', strengths: ['75 mg'] },
+  { code: 'warfarina', name: 'Warfarina', atc: 'B01AA03', group: 'Anticoagulante', strengths: ['5 mg'] },
+  { code: 'acenocumarol', name: 'Acenocumarol', atc: 'B01AA07', group: 'Anticoagulante', strengths: ['4 mg'], synonyms: ['sintrom'] },
+  { code: 'rivaroxaban', name: 'Rivaroxabán', atc: 'B01AF01', group: 'Anticoagulante', strengths: ['15 mg', '20 mg'], synonyms: ['xarelto'] },
+  { code: 'apixaban', name: 'Apixabán', atc: 'B01AF02', group: 'Anticoagulante', strengths: ['2.5 mg', '5 mg'], synonyms: ['eliquis'] },
+  { code: 'dabigatran', name: 'Dabigatrán', atc: 'B01AE07', group: 'Anticoagulante', strengths: ['110 mg', '150 mg'] },
+  { code: 'enoxaparina', name: 'Enoxaparina', atc: 'B01AB05', group: 'Anticoagulante', strengths: ['40 mg', '60 mg'] },
+
+  // Endocrino
+  { code: 'levotiroxina', name: 'Levotiroxina', atc: 'H03AA01', group: 'Hormona tiroidea', strengths: ['50 mcg', '100 mcg'] },
+  { code: 'metimazol', name: 'Metimazol', atc: 'H03BB02', group: 'Antitiroideo', strengths: ['5 mg'] },
+  { code: 'prednisona', name: 'Prednisona', atc: 'H02AB07', group: 'Corticosteroide', strengths: ['5 mg', '50 mg'] },
+  { code: 'dexametasona', name: 'Dexametasona', atc: 'H02AB02', group: 'Corticosteroide', strengths: ['4 mg', '8 mg'] },
+  { code: 'hidrocortisona', name: 'Hidrocortisona', atc: 'H02AB09', group: 'Corticosteroide', strengths: ['20 mg', '100 mg'] },
+
+  // Digestivo
+  { code: 'omeprazol', name: 'Omeprazol', atc: 'A02BC01', group: 'Inhibidor de bomba de protones', strengths: ['20 mg', '40 mg'] },
+  { code: 'pantoprazol', name: 'Pantoprazol', atc: 'A02BC02', group: 'Inhibidor de bomba de protones', strengths: ['20 mg', '40 mg'] },
+  { code: 'ranitidina', name: 'Ranitidina', atc: 'A02BA02', group: 'Antiácido (anti H2)', strengths: ['150 mg'] },
+
+  // Analgésicos y antiinflamatorios
+  { code: 'paracetamol', name: 'Paracetamol', atc: 'N02BE01', group: 'Analgésico', strengths: ['500 mg', '1 g'], synonyms: ['acetaminofen', 'tempra', 'tylenol'] },
+  { code: 'metamizol', name: 'Metamizol', atc: 'N02BB02', group: 'Analgésico', strengths: ['500 mg'], synonyms: ['dipirona', 'neomelubrina'] },
+  { code: 'ibuprofeno', name: 'Ibuprofeno', atc: 'M01AE01', group: 'Antiinflamatorio no esteroideo', strengths: ['400 mg', '600 mg'], synonyms: ['advil'] },
+  { code: 'naproxeno', name: 'Naproxeno', atc: 'M01AE02', group: 'Antiinflamatorio no esteroideo', strengths: ['250 mg', '500 mg'] },
+  { code: 'diclofenaco', name: 'Diclofenaco', atc: 'M01AB05', group: 'Antiinflamatorio no esteroideo', strengths: ['50 mg', '100 mg'] },
+  { code: 'ketorolaco', name: 'Ketorolaco', atc: 'M01AB15', group: 'Antiinflamatorio no esteroideo', strengths: ['10 mg'] },
+  { code: 'celecoxib', name: 'Celecoxib', atc: 'M01AH01', group: 'Antiinflamatorio no esteroideo', strengths: ['100 mg', '200 mg'] },
+  { code: 'tramadol', name: 'Tramadol', atc: 'N02AX02', group: 'Opioide', strengths: ['50 mg', '100 mg'] },
+  { code: 'morfina', name: 'Morfina', atc: 'N02AA01', group: 'Opioide', strengths: ['10 mg', '30 mg'] },
+  { code: 'sumatriptan', name: 'Sumatriptán', atc: 'N02CC01', group: 'Antimigrañoso', strengths: ['50 mg'] },
+
+  // Antibióticos
+  { code: 'amoxicilina', name: 'Amoxicilina', atc: 'J01CA04', group: 'Antibiótico (penicilina)', strengths: ['500 mg', '875 mg'] },
+  { code: 'amoxicilina-clavulanato', name: 'Amoxicilina con ácido clavulánico', atc: 'J01CR02', group: 'Antibiótico (penicilina)', strengths: ['875/125 mg'], synonyms: ['augmentin'] },
+  { code: 'penicilina-benzatinica', name: 'Penicilina G benzatínica', atc: 'J01CE08', group: 'Antibiótico (penicilina)', strengths: ['1 200 000 UI'], synonyms: ['benzetacil'] },
+  { code: 'cefalexina', name: 'Cefalexina', atc: 'J01DB01', group: 'Antibiótico (cefalosporina)', strengths: ['500 mg'] },
+  { code: 'ceftriaxona', name: 'Ceftriaxona', atc: 'J01DD04', group: 'Antibiótico (cefalosporina)', strengths: ['1 g'] },
+  { code: 'azitromicina', name: 'Azitromicina', atc: 'J01FA10', group: 'Antibiótico (macrólido)', strengths: ['500 mg'] },
+  { code: 'claritromicina', name: 'Claritromicina', atc: 'J01FA09', group: 'Antibiótico (macrólido)', strengths: ['500 mg'] },
+  { code: 'clindamicina', name: 'Clindamicina', atc: 'J01FF01', group: 'Antibiótico (lincosamida)', strengths: ['300 mg'] },
+  { code: 'ciprofloxacino', name: 'Ciprofloxacino', atc: 'J01MA02', group: 'Antibiótico (quinolona)', strengths: ['500 mg'] },
+  { code: 'levofloxacino', name: 'Levofloxacino', atc: 'J01MA12', group: 'Antibiótico (quinolona)', strengths: ['500 mg', '750 mg'] },
+  { code: 'trimetoprima-sulfametoxazol', name: 'Trimetoprima con sulfametoxazol', atc: 'J01EE01', group: 'Antibiótico (sulfonamida)', strengths: ['160/800 mg'], synonyms: ['bactrim'] },
+  { code: 'nitrofurantoina', name: 'Nitrofurantoína', atc: 'J01XE01', group: 'Antibiótico', strengths: ['100 mg'] },
+  { code: 'doxiciclina', name: 'Doxiciclina', atc: 'J01AA02', group: 'Antibiótico (tetraciclina)', strengths: ['100 mg'] },
+  { code: 'metronidazol', name: 'Metronidazol', atc: 'P01AB01', group: 'Antibiótico / antiparasitario', strengths: ['500 mg'] },
+
+  // Respiratorio y alergia
+  { code: 'salbutamol', name: 'Salbutamol', atc: 'R03AC02', group: 'Broncodilatador', strengths: ['100 mcg/dosis'], synonyms: ['ventolin'] },
+  { code: 'budesonida-formoterol', name: 'Budesonida con formoterol', atc: 'R03AK07', group: 'Broncodilatador + corticosteroide', strengths: ['160/4.5 mcg'], synonyms: ['symbicort'] },
+  { code: 'fluticasona-salmeterol', name: 'Fluticasona con salmeterol', atc: 'R03AK06', group: 'Broncodilatador + corticosteroide', strengths: ['250/50 mcg'], synonyms: ['seretide'] },
+  { code: 'tiotropio', name: 'Tiotropio', atc: 'R03BB04', group: 'Broncodilatador', strengths: ['18 mcg'], synonyms: ['spiriva'] },
+  { code: 'montelukast', name: 'Montelukast', atc: 'R03DC03', group: 'Antiasmático', strengths: ['10 mg'] },
+  { code: 'loratadina', name: 'Loratadina', atc: 'R06AX13', group: 'Antihistamínico', strengths: ['10 mg'] },
+  { code: 'cetirizina', name: 'Cetirizina', atc: 'R06AE07', group: 'Antihistamínico', strengths: ['10 mg'] },
+  { code: 'epinefrina-autoinyector', name: 'Epinefrina autoinyectable', atc: 'C01CA24', group: 'Emergencia anafiláctica', strengths: ['0.3 mg', '0.15 mg'], synonyms: ['epipen', 'adrenalina'] },
+
+  // Sistema nervioso
+  { code: 'sertralina', name: 'Sertralina', atc: 'N06AB06', group: 'Antidepresivo (ISRS)', strengths: ['50 mg', '100 mg'] },
+  { code: 'fluoxetina', name: 'Fluoxetina', atc: 'N06AB03', group: 'Antidepresivo (ISRS)', strengths: ['20 mg'], synonyms: ['prozac'] },
+  { code: 'escitalopram', name: 'Escitalopram', atc: 'N06AB10', group: 'Antidepresivo (ISRS)', strengths: ['10 mg', '20 mg'] },
+  { code: 'paroxetina', name: 'Paroxetina', atc: 'N06AB05', group: 'Antidepresivo (ISRS)', strengths: ['20 mg'] },
+  { code: 'venlafaxina', name: 'Venlafaxina', atc: 'N06AX16', group: 'Antidepresivo', strengths: ['75 mg', '150 mg'] },
+  { code: 'amitriptilina', name: 'Amitriptilina', atc: 'N06AA09', group: 'Antidepresivo tricíclico', strengths: ['25 mg'] },
+  { code: 'clonazepam', name: 'Clonazepam', atc: 'N03AE01', group: 'Benzodiacepina', strengths: ['0.5 mg', '2 mg'], synonyms: ['rivotril'] },
+  { code: 'alprazolam', name: 'Alprazolam', atc: 'N05BA12', group: 'Benzodiacepina', strengths: ['0.25 mg', '0.5 mg'] },
+  { code: 'diazepam', name: 'Diazepam', atc: 'N05BA01', group: 'Benzodiacepina', strengths: ['5 mg', '10 mg'] },
+  { code: 'lorazepam', name: 'Lorazepam', atc: 'N05BA06', group: 'Benzodiacepina', strengths: ['1 mg', '2 mg'] },
+  { code: 'quetiapina', name: 'Quetiapina', atc: 'N05AH04', group: 'Antipsicótico', strengths: ['25 mg', '100 mg'] },
+  { code: 'risperidona', name: 'Risperidona', atc: 'N05AX08', group: 'Antipsicótico', strengths: ['1 mg', '2 mg'] },
+  { code: 'olanzapina', name: 'Olanzapina', atc: 'N05AH03', group: 'Antipsicótico', strengths: ['5 mg', '10 mg'] },
+  { code: 'haloperidol', name: 'Haloperidol', atc: 'N05AD01', group: 'Antipsicótico', strengths: ['5 mg'] },
+  { code: 'litio', name: 'Carbonato de litio', atc: 'N05AN01', group: 'Estabilizador del ánimo', strengths: ['300 mg'], synonyms: ['litio'] },
+  { code: 'levetiracetam', name: 'Levetiracetam', atc: 'N03AX14', group: 'Antiepiléptico', strengths: ['500 mg', '1000 mg'] },
+  { code: 'valproato', name: 'Ácido valproico', atc: 'N03AG01', group: 'Antiepiléptico', strengths: ['250 mg', '500 mg'], synonyms: ['valproato', 'depakene'] },
+  { code: 'carbamazepina', name: 'Carbamazepina', atc: 'N03AF01', group: 'Antiepiléptico', strengths: ['200 mg'], synonyms: ['tegretol'] },
+  { code: 'fenitoina', name: 'Fenitoína', atc: 'N03AB02', group: 'Antiepiléptico', strengths: ['100 mg'], synonyms: ['epamin'] },
+  { code: 'lamotrigina', name: 'Lamotrigina', atc: 'N03AX09', group: 'Antiepiléptico', strengths: ['25 mg', '100 mg'] },
+  { code: 'topiramato', name: 'Topiramato', atc: 'N03AX11', group: 'Antiepiléptico', strengths: ['25 mg', '100 mg'] },
+  { code: 'gabapentina', name: 'Gabapentina', atc: 'N03AX12', group: 'Antiepiléptico / neuropático', strengths: ['300 mg'] },
+  { code: 'pregabalina', name: 'Pregabalina', atc: 'N03AX16', group: 'Antiepiléptico / neuropático', strengths: ['75 mg', '150 mg'] },
+  { code: 'levodopa-carbidopa', name: 'Levodopa con carbidopa', atc: 'N04BA02', group: 'Antiparkinsoniano', strengths: ['250/25 mg'] },
+  { code: 'donepezilo', name: 'Donepezilo', atc: 'N06DA02', group: 'Antidemencia', strengths: ['5 mg', '10 mg'] },
+  { code: 'memantina', name: 'Memantina', atc: 'N06DX01', group: 'Antidemencia', strengths: ['10 mg'] },
+
+  // Reumatología, urología y otros
+  { code: 'alopurinol', name: 'Alopurinol', atc: 'M04AA01', group: 'Antigotoso', strengths: ['100 mg', '300 mg'] },
+  { code: 'colchicina', name: 'Colchicina', atc: 'M04AC01', group: 'Antigotoso', strengths: ['1 mg'] },
+  { code: 'metotrexato', name: 'Metotrexato', atc: 'L04AX03', group: 'Inmunosupresor', strengths: ['2.5 mg'] },
+  { code: 'hidroxicloroquina', name: 'Hidroxicloroquina', atc: 'P01BA02', group: 'Antirreumático', strengths: ['200 mg'] },
+  { code: 'tacrolimus', name: 'Tacrolimus', atc: 'L04AD02', group: 'Inmunosupresor', strengths: ['1 mg', '5 mg'] },
+  { code: 'tamoxifeno', name: 'Tamoxifeno', atc: 'L02BA01', group: 'Antineoplásico hormonal', strengths: ['20 mg'] },
+  { code: 'sildenafil', name: 'Sildenafil', atc: 'G04BE03', group: 'Inhibidor de PDE5', strengths: ['50 mg', '100 mg'], synonyms: ['viagra'] },
+  { code: 'tamsulosina', name: 'Tamsulosina', atc: 'G04CA02', group: 'Alfabloqueador', strengths: ['0.4 mg'] },
+  { code: 'finasterida', name: 'Finasterida', atc: 'G04CB01', group: 'Inhibidor de 5-alfa reductasa', strengths: ['5 mg'] },
+  { code: 'sulfato-ferroso', name: 'Sulfato ferroso', atc: 'B03AA07', group: 'Antianémico', strengths: ['200 mg'] },
+  { code: 'acido-folico', name: 'Ácido fólico', atc: 'B03BB01', group: 'Vitamina', strengths: ['5 mg'] },
+];
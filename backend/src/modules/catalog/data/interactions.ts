@@ -0,0 +1,241 @@
+// src/modules/catalog/data/interactions.ts
+// Base local de interacciones para alertas en emergencias. No sustituye el criterio clínico:
+// cubre los pares de mayor riesgo en atención prehospitalaria y urgencias.
+import type { AllergyCrossReactivityRule, DrugInteractionRule } from '../catalog.types';
+
+// Grupos ATC reutilizados
+const VKA = ['B01AA'];                       // Antagonistas de vitamina K (warfarina, acenocumarol)
+const DOAC = ['B01AE', 'B01AF'];             // Anticoagulantes orales directos
+const HEPARINS = ['B01AB'];
+const ANTIPLATELETS = ['B01AC'];
+const NSAIDS = ['M01A', 'N02BA'];
+const ACE_ARB = ['C09A', 'C09C'];
+const POTASSIUM_SPARING = ['C03DA'];
+const NITRATES = ['C01DA'];
+const PDE5 = ['G04BE03'];
+const SSRI_SNRI = ['N06AB', 'N06AX16'];
+const SEROTONERGIC_OPIOIDS = ['N02AX02'];    // Tramadol
+const OPIOIDS = ['N02A'];
+const BENZODIAZEPINES = ['N05BA', 'N05CD', 'N03AE'];
+const BETA_BLOCKERS = ['C07A'];
+const NONSELECTIVE_BETA_BLOCKERS = ['C07AA'];
+const RATE_CCB = ['C08DA', 'C08DB'];         // Verapamilo, diltiazem
+const QT_PROLONGING = ['C01BD', 'J01MA', 'J01FA09', 'N05AD01', 'N05AH04'];
+const STATINS_CYP3A4 = ['C10AA01', 'C10AA05'];
+const STRONG_CYP3A4_INHIBITORS = ['J01FA09'];
+const HYPOGLYCEMICS = ['A10A', 'A10BB'];
+
+export const DRUG_INTERACTIONS: DrugInteractionRule[] = [
+  {
+    id: 'anticoagulant-nsaid',
+    drugsA: [...VKA, ...DOAC, ...HEPARINS],
+    drugsB: NSAIDS,
+    severity: 'MAJOR',
+    effect: 'Riesgo alto de sangrado (gastrointestinal e intracraneal)',
+    recommendation: 'Evitar AINE; usar paracetamol para analgesia',
+  },
+  {
+    id: 'anticoagulant-antiplatelet',
+    drugsA: [...VKA, ...DOAC],
+    drugsB: ANTIPLATELETS,
+    severity: 'MAJOR',
+    effect: 'Efecto antitrombótico sumado con riesgo alto de sangrado',
+    recommendation: 'Administrar solo con indicación clara (síndrome coronario) y vigilar sangrado',
+  },
+  {
+    id: 'anticoagulant-anticoagulant',
+    drugsA: [...VKA, ...DOAC],
+    drugsB: [...VKA, ...DOAC, ...HEPARINS],
+    severity: 'MAJOR',
+    effect: 'Doble anticoagulación con riesgo alto de sangrado',
+    recommendation: 'Confirmar el anticoagulante vigente y la hora de la última dosis',
+  },
+  {
+    id: 'vka-amiodarone',
+    drugsA: VKA,
+    drugsB: ['C01BD01'],
+    severity: 'MAJOR',
+    effect: 'La amiodarona potencia el efecto anticoagulante (INR elevado)',
+    recommendation: 'Vigilar datos de sangrado y solicitar INR',
+  },
+  {
+    id: 'ace-arb-potassium-sparing',
+    drugsA: ACE_ARB,
+    drugsB: POTASSIUM_SPARING,
+    severity: 'MAJOR',
+    effect: 'Hiperpotasemia con riesgo de arritmias',
+    recommendation: 'Solicitar potasio sérico y electrocardiograma',
+  },
+  {
+    id: 'ace-arb-dual',
+    drugsA: ['C09A'],
+    drugsB: ['C09C'],
+    severity: 'MODERATE',
+    effect: 'Doble bloqueo del sistema renina-angiotensina: hiperpotasemia, hipotensión y falla renal',
+    recommendation: 'Vigilar presión arterial, potasio y función renal',
+  },
+  {
+    id: 'nitrate-pde5',
+    drugsA: NITRATES,
+    drugsB: PDE5,
+    severity: 'CONTRAINDICATED',
+    effect: 'Hipotensión grave y potencialmente fatal',
+    recommendation: 'No administrar nitratos si tomó sildenafil en las últimas 24 horas',
+  },
+  {
+    id: 'serotonergic-tramadol',
+    drugsA: SSRI_SNRI,
+    drugsB: SEROTONERGIC_OPIOIDS,
+    severity: 'MAJOR',
+    effect: 'Síndrome serotoninérgico y menor umbral convulsivo',
+    recommendation: 'Preferir otro analgésico; vigilar hipertermia, rigidez y agitación',
+  },
+  {
+    id: 'opioid-benzodiazepine',
+    drugsA: OPIOIDS,
+    drugsB: BENZODIAZEPINES,
+    severity: 'MAJOR',
+    effect: 'Depresión respiratoria y sedación profunda',
+    recommendation: 'Reducir dosis, monitorizar saturación y tener naloxona disponible',
+  },
+  {
+    id: 'beta-blocker-rate-ccb',
+    drugsA: BETA_BLOCKERS,
+    drugsB: RATE_CCB,
+    severity: 'MAJOR',
+    effect: 'Bradicardia grave, bloqueo AV e insuficiencia cardiaca',
+    recommendation: 'Evitar verapamilo o diltiazem intravenoso; monitorizar ritmo',
+  },
+  {
+    id: 'epinephrine-nonselective-beta-blocker',
+    drugsA: ['C01CA24'],
+    drugsB: NONSELECTIVE_BETA_BLOCKERS,
+    severity: 'MODERATE',
+    effect: 'Hipertensión grave con bradicardia refleja y menor respuesta a la epinefrina en anafilaxia',
+    recommendation: 'Si la anafilaxia no responde, considerar glucagón',
+  },
+  {
+    id: 'digoxin-amiodarone',
+    drugsA: ['C01AA05'],
+    drugsB: ['C01BD01'],
+    severity: 'MAJOR',
+    effect: 'Toxicidad por digoxina (arritmias, náusea, alteraciones visuales)',
+    recommendation: 'Reducir la dosis de digoxina y vigilar niveles',
+  },
+  {
+    id: 'qt-prolongation',
+    drugsA: QT_PROLONGING,
+    drugsB: QT_PROLONGING,
+    severity: 'MAJOR',
+    effect: 'Prolongación del QT con riesgo de torsades de pointes',
+    recommendation: 'Tomar electrocardiograma y corregir potasio y magnesio',
+  },
+  {
+    id: 'statin-cyp3a4',
+    drugsA: STATINS_CYP3A4,
+    drugsB: STRONG_CYP3A4_INHIBITORS,
+    severity: 'MAJOR',
+    effect: 'Miopatía y rabdomiólisis',
+    recommendation: 'Suspender la estatina mientras dure el tratamiento',
+  },
+  {
+    id: 'metformin-contrast',
+    drugsA: ['A10BA02'],
+    drugsB: ['V08A'],
+    severity: 'MODERATE',
+    effect: 'Acidosis láctica si hay falla renal tras el medio de contraste',
+    recommendation: 'Suspender metformina 48 horas y valorar función renal',
+  },
+  {
+    id: 'methotrexate-interactions',
+    drugsA: ['L04AX03', 'L01BA01'],
+    drugsB: [...NSAIDS, 'J01EE01'],
+    severity: 'MAJOR',
+    effect: 'Toxicidad por metotrexato (mielosupresión, mucositis)',
+    recommendation: 'Evitar la combinación; vigilar biometría hemática',
+  },
+  {
+    id: 'lithium-renal',
+    drugsA: ['N05AN01'],
+    drugsB: [...NSAIDS, ...ACE_ARB, 'C03AA', 'C03BA'],
+    severity: 'MAJOR',
+    effect: 'Toxicidad por litio (temblor, confusión, arritmias)',
+    recommendation: 'Solicitar niveles de litio y vigilar estado neurológico',
+  },
+  {
+    id: 'hypoglycemic-beta-blocker',
+    drugsA: HYPOGLYCEMICS,
+    drugsB: BETA_BLOCKERS,
+    severity: 'MODERATE',
+    effect: 'Los betabloqueadores enmascaran los síntomas de hipoglucemia',
+    recommendation: 'Medir glucosa capilar ante cualquier alteración del estado de alerta',
+  },
+  {
+    id: 'clopidogrel-omeprazole',
+    drugsA: ['B01AC04'],
+    drugsB: ['A02BC01'],
+    severity: 'MODERATE',
+    effect: 'El omeprazol reduce la activación del clopidogrel',
+    recommendation: 'Preferir pantoprazol como protector gástrico',
+  },
+  {
+    id: 'potassium-sparing-nsaid',
+    drugsA: [...POTASSIUM_SPARING, ...ACE_ARB],
+    drugsB: NSAIDS,
+    severity: 'MODERATE',
+    effect: 'Falla renal aguda e hiperpotasemia',
+    recommendation: 'Evitar AINE en pacientes deshidratados o con falla renal',
+  },
+];
+
+// Reactividad cruzada conocida entre clases alergénicas
+export const ALLERGY_CROSS_REACTIVITY: AllergyCrossReactivityRule[] = [
+  {
+    allergen: 'penicilinas',
+    atcPrefixes: ['J01DB', 'J01DC', 'J01DD', 'J01DE', 'J01DH'],
+    severity: 'MAJOR',
+    effect: 'Posible reactividad cruzada con cefalosporinas y carbapenémicos',
+  },
+  {
+    allergen: 'cefalosporinas',
+    atcPrefixes: ['J01C'],
+    severity: 'MAJOR',
+    effect: 'Posible reactividad cruzada con penicilinas',
+  },
+  {
+    allergen: 'acido-acetilsalicilico',
+    atcPrefixes: ['M01A'],
+    severity: 'MAJOR',
+    effect: 'Reactividad cruzada frecuente con otros AINE (broncoespasmo, urticaria)',
+  },
+  {
+    allergen: 'aines',
+    atcPrefixes: ['N02BB02'],
+    severity: 'MODERATE',
+    effect: 'Posible reactividad cruzada con metamizol',
+  },
+  {
+    allergen: 'anticonvulsivos-aromaticos',
+    atcPrefixes: ['N03AF', 'N03AB', 'N03AX09'],
+    severity: 'MAJOR',
+    effect: 'Reactividad cruzada entre anticonvulsivos aromáticos (síndrome de Stevens-Johnson)',
+  },
+  {
+    allergen: 'sulfonamidas',
+    atcPrefixes: ['C03AA', 'C03BA', 'C03CA'],
+    severity: 'MODERATE',
+    effect: 'Baja reactividad cruzada con diuréticos derivados de sulfonamida',
+  },
+  {
+    allergen: 'huevo',
+    atcPrefixes: ['N01AX10'],
+    severity: 'MODERATE',
+    effect: 'El propofol contiene lecitina de huevo; riesgo bajo pero documentado',
+  },
+  {
+    allergen: 'mariscos',
+    atcPrefixes: ['V08A'],
+    severity: 'MODERATE',
+    effect: 'La alergia a mariscos no contraindica el contraste yodado, pero indica atopia: vigilar reacción',
+  },
+];
@@ -0,0 +1,204 @@
+// src/modules/catalog/drug-interactions.service.ts
+import { catalogService } from './catalog.service';
+import { ALLERGY_CROSS_REACTIVITY, DRUG_INTERACTIONS } from './data/interactions';
+import {
+  INTERACTION_SEVERITIES,
+  AllergyEntry,
+  ClinicalWarning,
+  MedicationEntry,
+} from './catalog.types';
+
+// Medicamento resuelto contra el catálogo; atc puede ser un grupo ("J01C") si solo se
+// reconoció la clase (ej. "penicilina" o "medio de contraste")
+export interface ResolvedDrug {
+  code: string | null;
+  name: string;
+  atc: string[];
+}
+
+export interface DrugCheckResult {
+  drug: ResolvedDrug;
+  recognized: boolean;
+  warnings: ClinicalWarning[];
+}
+
+interface InteractionContext {
+  allergies: AllergyEntry[];
+  medications: MedicationEntry[];
+}
+
+const SEVERITY_LABELS: Record<NonNullable<AllergyEntry['severity']>, string> = {
+  MILD: 'leve',
+  MODERATE: 'moderada',
+  SEVERE: 'grave',
+};
+
+// Un prefijo ATC cubre al código más específico en cualquier dirección (clase vs. principio activo)
+const atcMatches = (atc: string[], prefixes: string[]) =>
+  atc.some((code) => prefixes.some((prefix) => code.startsWith(prefix) || prefix.startsWith(code)));
+
+const bySeverity = (a: ClinicalWarning, b: ClinicalWarning) =>
+  INTERACTION_SEVERITIES.indexOf(a.severity) - INTERACTION_SEVERITIES.indexOf(b.severity);
+
+class DrugInteractionsService {
+  /**
+   * Resuelve un medicamento (código del catálogo, nombre o clase alergénica) a sus códigos ATC
+   * Lo que captura el personal se busca también dentro del texto ("Ketorolaco 30mg IV");
+   * una entrada del perfil solo por su código, que ya implica coincidencia exacta
+   */
+  resolveDrug(input: string | { code: string | null; name: string }): ResolvedDrug | null {
+    const code = typeof input === 'string' ? null : input.code;
+    const name = (typeof input === 'string' ? input : input.name).trim();
+    if (!name && !code) return null;
+
+    if (typeof input !== 'string') {
+      const drug = code ? catalogService.findDrug(code) : null;
+      return drug ? { code: drug.code, name: drug.name, atc: [drug.atc] } : null;
+    }
+
+    const drug = catalogService.matchTerm('medications', name);
+    if (drug) {
+      return { code: drug.code, name: drug.name, atc: [drug.atc] };
+    }
+
+    const allergen = catalogService.matchTerm('allergens', name);
+    if (allergen?.atcPrefixes?.length) {
+      return { code: null, name, atc: allergen.atcPrefixes };
+    }
+
+    return null;
+  }
+
+  /**
+   * Verifica un medicamento antes de administrarlo contra alergias y medicamentos del paciente
+   */
+  checkDrug(drug: string, context: InteractionContext): DrugCheckResult {
+    const resolved = this.resolveDrug(drug);
+    if (!resolved) {
+      return { drug: { code: null, name: drug.trim(), atc: [] }, recognized: false, warnings: [] };
+    }
+
+    const warnings = [
+      ...this.allergyWarnings(resolved, context.allergies),
+      ...context.medications.flatMap((medication) => {
+        const current = this.resolveDrug(medication);
+        return current ? this.drugWarnings(resolved, current, true) : [];
+      }),
+    ];
+
+    return { drug: resolved, recognized: true, warnings: warnings.sort(bySeverity) };
+  }
+
+  /**
+   * Alertas del perfil completo: medicamentos actuales contra alergias y entre sí
+   */
+  checkProfile(context: InteractionContext): ClinicalWarning[] {
+    const medications = context.medications
+      .map((medication) => this.resolveDrug(medication))
+      .filter((medication): medication is ResolvedDrug => medication !== null);
+
+    const warnings: ClinicalWarning[] = [];
+    medications.forEach((medication, i) => {
+      warnings.push(...this.allergyWarnings(medication, context.allergies));
+      for (const other of medications.slice(i + 1)) {
+        warnings.push(...this.drugWarnings(medication, other, false));
+      }
+    });
+
+    return warnings.sort(bySeverity);
+  }
+
+  private allergyWarnings(drug: ResolvedDrug, allergies: AllergyEntry[]): ClinicalWarning[] {
+    const warnings: ClinicalWarning[] = [];
+
+    for (const allergy of allergies) {
+      const allergen = (allergy.code && catalogService.findAllergen(allergy.code))
+        || catalogService.matchTerm('allergens', allergy.name, true);
+      // Alergias capturadas como nombre de medicamento ("Metformina")
+      const allergyDrug = allergen ? null : catalogService.matchTerm('medications', allergy.name, true);
+      const direct = [...(allergen?.atcPrefixes || []), ...(allergyDrug ? [allergyDrug.atc] : [])];
+
+      const detail = [
+        allergy.severity ? SEVERITY_LABELS[allergy.severity] : null,
+        allergy.reaction,
+      ].filter(Boolean).join(': ');
+
+      // Texto libre que solo menciona un alérgeno ("Sospecha de alergia a penicilina"):
+      // no se trata como alergia confirmada, pero se avisa para verificarla
+      const suggested = !allergen && !allergyDrug && allergy.suggestion
+        ? catalogService.findAllergen(allergy.suggestion.code)
+        : null;
+      if (suggested?.atcPrefixes && atcMatches(drug.atc, suggested.atcPrefixes)) {
+        warnings.push({
+          type: 'DRUG_ALLERGY',
+          severity: 'MODERATE',
+          drug: drug.name,
+          conflictsWith: allergy.name,
+          message: `El perfil menciona "${allergy.name}" (posible alergia a ${suggested.name})`,
+          recommendation: 'Confirmar la alergia con el paciente o sus familiares antes de administrar',
+        });
+        continue;
+      }
+
+      if (atcMatches(drug.atc, direct)) {
+        warnings.push({
+          type: 'DRUG_ALLERGY',
+          severity: 'CONTRAINDICATED',
+          drug: drug.name,
+          conflictsWith: allergy.name,
+          message: `Alergia registrada a ${allergy.name}${detail ? ` (${detail})` : ''}`,
+          recommendation: 'No administrar; elegir una alternativa de otro grupo',
+        });
+        continue;
+      }
+
+      const cross = allergen && ALLERGY_CROSS_REACTIVITY.find(
+        (rule) => rule.allergen === allergen.code && atcMatches(drug.atc, rule.atcPrefixes)
+      );
+      if (cross) {
+        warnings.push({
+          type: 'DRUG_ALLERGY',
+          severity: allergy.severity === 'SEVERE' && cross.severity === 'MODERATE' ? 'MAJOR' : cross.severity,
+          drug: drug.name,
+          conflictsWith: allergy.name,
+          message: `${cross.effect}${detail ? ` (alergia ${detail})` : ''}`,
+          recommendation: 'Administrar solo si no hay alternativa y con vigilancia de reacción',
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * candidate = medicamento por administrar (se avisa duplicidad); si no, par del perfil
+   */
+  private drugWarnings(drug: ResolvedDrug, other: ResolvedDrug, candidate: boolean): ClinicalWarning[] {
+    if (candidate && drug.code && drug.code === other.code) {
+      return [{
+        type: 'DUPLICATE_THERAPY',
+        severity: 'MODERATE',
+        drug: drug.name,
+        conflictsWith: other.name,
+        message: `El paciente ya toma ${other.name}`,
+        recommendation: 'Confirmar la hora de la última dosis para evitar sobredosificación',
+      }];
+    }
+
+    return DRUG_INTERACTIONS
+      .filter((rule) =>
+        (atcMatches(drug.atc, rule.drugsA) && atcMatches(other.atc, rule.drugsB))
+        || (atcMatches(drug.atc, rule.drugsB) && atcMatches(other.atc, rule.drugsA)))
+      .map((rule) => ({
+        type: 'DRUG_DRUG' as const,
+        severity: rule.severity,
+        drug: drug.name,
+        conflictsWith: other.name,
+        message: rule.effect,
+        recommendation: rule.recommendation,
+      }));
+  }
+}
+
+export const drugInteractionsService = new DrugInteractionsService();
+export default drugInteractionsService;
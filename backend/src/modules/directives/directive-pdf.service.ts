@@ -0,0 +1,230 @@
+// src/modules/directives/directive-pdf.service.ts
+import PDFDocument from 'pdfkit';
+import { AdvanceDirective, DirectiveStatus, DirectiveType } from '@prisma/client';
+import { generateDirectiveVerificationQR } from '../../common/utils/qr-generator';
+import { parseConstancia } from './nom151';
+import { formatDecision } from './legal-template.service';
+
+export interface DirectivePdfInput {
+  directive: AdvanceDirective;
+  patient: { name: string; curp: string; dateOfBirth: Date | null };
+  stateName: string | null;
+  documentHash: string;
+  verificationCode: string | null;
+  witnesses: { name: string; curp: string | null; signedAt: Date | null; signatureImageUrl: string | null }[];
+}
+
+const TYPE_LABELS: Record<DirectiveType, string> = {
+  DIGITAL_DRAFT: 'Voluntad anticipada digital',
+  DIGITAL_WITNESSED: 'Voluntad anticipada digital con testigos',
+  NOTARIZED_DOCUMENT: 'Documento notarial de voluntad anticipada',
+};
+
+const STATUS_LABELS: Record<DirectiveStatus, string> = {
+  DRAFT: 'Borrador',
+  PENDING_VALIDATION: 'Pendiente de validación',
+  ACTIVE: 'Activa',
+  REVOKED: 'Revocada',
+  EXPIRED: 'Expirada',
+};
+
+const VALIDATION_METHOD_LABELS: Record<string, string> = {
+  EMAIL: 'Confirmación por correo electrónico',
+  SMS: 'Confirmación por SMS',
+  WITNESS: 'Firma de testigos',
+};
+
+const DECISIONS: { key: 'acceptsCPR' | 'acceptsIntubation' | 'acceptsDialysis' | 'acceptsTransfusion' | 'acceptsArtificialNutrition'; label: string }[] = [
+  { key: 'acceptsCPR', label: 'Reanimación cardiopulmonar (RCP)' },
+  { key: 'acceptsIntubation', label: 'Intubación / ventilación mecánica' },
+  { key: 'acceptsDialysis', label: 'Diálisis' },
+  { key: 'acceptsTransfusion', label: 'Transfusiones sanguíneas' },
+  { key: 'acceptsArtificialNutrition', label: 'Nutrición artificial' },
+];
+
+const COLOR_PRIMARY = '#1E40AF';
+const COLOR_MUTED = '#6B7280';
+const COLOR_DANGER = '#B91C1C';
+
+function formatDate(date: Date | null, withTime = false): string {
+  if (!date) return '—';
+  return date.toLocaleString('es-MX', withTime
+    ? { dateStyle: 'long', timeStyle: 'short', timeZone: 'America/Mexico_City' }
+    : { dateStyle: 'long', timeZone: 'America/Mexico_City' });
+}
+
+class DirectivePdfService {
+  /**
+   * Genera el PDF imprimible de una directiva
+   * Incluye identidad, decisiones, validación, sello NOM-151, hash SHA-256 y QR de verificación
+   * El PDF no lleva firma digital propia: su integridad se comprueba con el hash,
+   * el QR de verificación y la constancia NOM-151
+   */
+  async render(input: DirectivePdfInput): Promise<Buffer> {
+    const { directive, patient, documentHash } = input;
+    const { verificationUrl, qrBuffer } = await generateDirectiveVerificationQR(documentHash);
+
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: 50,
+      info: {
+        Title: 'Voluntad Anticipada',
+        Author: patient.name,
+        Subject: TYPE_LABELS[directive.type],
+        // El hash queda en los metadatos para validación automatizada
+        Keywords: `sha256:${documentHash}`,
+        Creator: 'Sistema VIDA',
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    // Encabezado
+    doc.fillColor(COLOR_PRIMARY).fontSize(20).font('Helvetica-Bold').text('Voluntad Anticipada');
+    doc.fillColor(COLOR_MUTED).fontSize(11).font('Helvetica').text(TYPE_LABELS[directive.type]);
+    doc.moveDown(0.5);
+
+    if (directive.status !== DirectiveStatus.ACTIVE) {
+      doc.fillColor(COLOR_DANGER).fontSize(11).font('Helvetica-Bold').text(
+        directive.status === DirectiveStatus.DRAFT
+          ? 'BORRADOR — SIN VALIDEZ LEGAL'
+          : `DIRECTIVA ${STATUS_LABELS[directive.status].toUpperCase()} — NO VIGENTE`
+      );
+      doc.moveDown(0.5);
+    }
+
+    // Otorgante
+    this.section(doc, 'Datos del otorgante');
+    this.field(doc, 'Nombre', patient.name);
+    this.field(doc, 'CURP', patient.curp);
+    this.field(doc, 'Fecha de nacimiento', formatDate(patient.dateOfBirth));
+    this.field(doc, 'Estado de origen', input.stateName || directive.originState || '—');
+
+    // Decisiones
+    this.section(doc, 'Decisiones médicas');
+    if (directive.type === DirectiveType.NOTARIZED_DOCUMENT) {
+      doc.text('Las decisiones constan en el documento notarial original.');
+      this.field(doc, 'Archivo', directive.originalFileName || '—');
+    } else {
+      for (const decision of DECISIONS) {
+        this.field(doc, decision.label, formatDecision(directive[decision.key]));
+      }
+      this.field(doc, 'Solo cuidados paliativos', directive.palliativeCareOnly ? 'Sí' : 'No');
+      if (directive.additionalNotes) {
+        doc.moveDown(0.3);
+        doc.font('Helvetica-Bold').text('Indicaciones adicionales');
+        doc.font('Helvetica').text(directive.additionalNotes);
+      }
+    }
+
+    if (directive.legalBasisSummary) {
+      this.section(doc, 'Fundamento legal');
+      doc.text(directive.legalBasisSummary);
+    }
+
+    // Validación
+    this.section(doc, 'Validación');
+    this.field(doc, 'Estado', STATUS_LABELS[directive.status]);
+    this.field(doc, 'Creada', formatDate(directive.createdAt, true));
+    this.field(doc, 'Validada', formatDate(directive.validatedAt, true));
+    if (directive.validationMethod) {
+      this.field(doc, 'Método', VALIDATION_METHOD_LABELS[directive.validationMethod] || directive.validationMethod);
+    }
+    if (directive.revokedAt) {
+      this.field(doc, 'Revocada', formatDate(directive.revokedAt, true));
+    }
+
+    for (const witness of input.witnesses) {
+      doc.moveDown(0.3);
+      this.field(doc, 'Testigo', `${witness.name}${witness.curp ? ` (${witness.curp})` : ''}`);
+      this.field(doc, 'Firmó', formatDate(witness.signedAt, true));
+      const signature = this.decodeSignature(witness.signatureImageUrl);
+      if (signature) {
+        this.signatureImage(doc, signature);
+      }
+    }
+
+    // Sello NOM-151
+    this.section(doc, 'Constancia de conservación NOM-151');
+    const constancia = parseConstancia(directive.nom151Certificate);
+    if (!directive.nom151Sealed) {
+      doc.text('Sin constancia de conservación.');
+    } else {
+      this.field(doc, 'Proveedor (PSC)', directive.nom151Provider || '—');
+      this.field(doc, 'Fecha del sello', formatDate(directive.nom151Timestamp, true));
+      if (constancia) {
+        this.field(doc, 'Número de serie', constancia.tstInfo.serialNumber);
+        this.field(doc, 'Política', constancia.tstInfo.policy);
+      }
+    }
+
+    // Integridad y verificación
+    if (doc.y + 170 > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+    this.section(doc, 'Integridad');
+    const qrTop = doc.y;
+    doc.image(qrBuffer, doc.page.width - doc.page.margins.right - 110, qrTop, { width: 110 });
+    doc.font('Helvetica-Bold').text('Hash SHA-256', doc.page.margins.left, qrTop, { width: 330 });
+    doc.font('Courier').fontSize(9).text(documentHash, { width: 330 });
+    if (input.verificationCode) {
+      doc.moveDown(0.3);
+      doc.font('Helvetica-Bold').fontSize(10).text('Código de verificación', { width: 330 });
+      doc.font('Courier-Bold').fontSize(12).text(input.verificationCode, { width: 330 });
+    }
+    doc.font('Helvetica').fontSize(9).fillColor(COLOR_MUTED).moveDown(0.5).text(
+      'Escanee el código QR o visite la siguiente dirección para comprobar la vigencia del documento:',
+      { width: 330 }
+    );
+    doc.fillColor(COLOR_PRIMARY).text(verificationUrl, { width: 330, link: verificationUrl });
+    doc.y = Math.max(doc.y, qrTop + 120);
+
+    doc.fillColor(COLOR_MUTED).fontSize(8).text(
+      `Documento generado el ${formatDate(new Date(), true)}. Identificador: ${directive.id}`,
+      doc.page.margins.left
+    );
+
+    doc.end();
+    return finished;
+  }
+
+  private section(doc: PDFKit.PDFDocument, title: string) {
+    doc.moveDown(0.8);
+    doc.fillColor(COLOR_PRIMARY).fontSize(13).font('Helvetica-Bold').text(title, doc.page.margins.left);
+    doc.moveDown(0.3);
+    doc.fillColor('#111827').fontSize(10).font('Helvetica');
+  }
+
+  private field(doc: PDFKit.PDFDocument, label: string, value: string) {
+    doc.font('Helvetica-Bold').text(`${label}: `, { continued: true });
+    doc.font('Helvetica').text(value);
+  }
+
+  /**
+   * Una firma dañada no debe impedir la descarga del documento
+   */
+  private signatureImage(doc: PDFKit.PDFDocument, signature: Buffer) {
+    try {
+      doc.image(signature, { fit: [160, 50] });
+    } catch (error) {
+      console.error('Firma de testigo no legible:', error);
+      doc.font('Helvetica-Oblique').text('[Firma no disponible]');
+    }
+  }
+
+  /**
+   * Las firmas de testigos se guardan como data URL PNG
+   */
+  private decodeSignature(dataUrl: string | null): Buffer | null {
+    const match = dataUrl?.match(/^data:image\/png;base64,(.+)$/);
+    return match ? Buffer.from(match[1], 'base64') : null;
+  }
+}
+
+export const directivePdfService = new DirectivePdfService();
+export default directivePdfService;
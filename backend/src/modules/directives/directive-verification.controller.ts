@@ -0,0 +1,49 @@
+// src/modules/directives/directive-verification.controller.ts
+import { Router, Request, Response } from 'express';
+import { param, validationResult } from 'express-validator';
+import { directiveVerificationService } from './directive-verification.service';
+
+const router = Router();
+
+// Endpoint público para hospitales, notarios y aseguradoras
+
+/**
+ * GET /api/v1/directive-verification/:identifier
+ * Verifica una directiva por código de verificación o documentHash (SHA-256)
+ */
+router.get('/:identifier',
+  param('identifier').trim().isLength({ min: 12, max: 64 }),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const verification = await directiveVerificationService.verify(req.params.identifier, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      if (!verification) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'No se encontró una directiva con ese código o hash' },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { verification },
+      });
+    } catch (error: any) {
+      console.error('Error verificando directiva:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+      });
+    }
+  }
+);
+
+export default router;
@@ -2,13 +2,20 @@
 import { Router, Request, Response } from 'express';
 import { body, param, validationResult } from 'express-validator';
 import { authMiddleware } from '../../common/guards/auth.middleware';
+import { requirePremiumFeature } from '../../common/guards/premium.middleware';
 import { directivesService } from './directives.service';
+import { witnessService } from './witness.service';
+import { legalTemplateService } from './legal-template.service';
+import { documentUpload, assertFileContent } from '../../common/utils/upload';
 
 const router = Router();
 
 // Todos los endpoints requieren autenticación
 router.use(authMiddleware);
 
+// Crear, editar y activar requieren advanceDirectives; consultar, descargar y revocar
+// siguen disponibles tras un downgrade para no dejar al usuario sin su documento
+
 /**
  * GET /api/v1/directives
  * Lista todas las directivas del usuario
@@ -54,6 +61,27 @@ router.get('/active', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/v1/directives/legal-templates
+ * Lista los estados con plantilla legal y sus requisitos
+ */
+router.get('/legal-templates', async (req: Request, res: Response) => {
+  try {
+    const templates = await legalTemplateService.listActiveTemplates();
+    
+    res.json({
+      success: true,
+      data: { templates },
+    });
+  } catch (error) {
+    console.error('Error listando plantillas legales:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+    });
+  }
+});
+
 /**
  * GET /api/v1/directives/:id
  * Obtiene una directiva específica
@@ -95,6 +123,8 @@ router.get('/:id',
  * Crea un borrador de voluntad anticipada
  */
 router.post('/draft',
+  requirePremiumFeature('advanceDirectives'),
+  body('type').optional().isIn(['DIGITAL_DRAFT', 'DIGITAL_WITNESSED']),
   body('acceptsCPR').optional().isBoolean(),
   body('acceptsIntubation').optional().isBoolean(),
   body('acceptsDialysis').optional().isBoolean(),
@@ -117,11 +147,14 @@ router.post('/draft',
         message: 'Borrador de voluntad anticipada creado exitosamente',
         data: { directive },
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creando borrador:', error);
-      res.status(500).json({
+      res.status(error.status || 500).json({
         success: false,
-        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
       });
     }
   }
@@ -129,11 +162,11 @@ router.post('/draft',
 
 /**
  * POST /api/v1/directives/upload
- * Sube un documento notarizado existente
+ * Sube un documento notarizado existente (multipart, campo "document": PDF, JPEG o PNG hasta 10 MB)
  */
 router.post('/upload',
-  body('documentUrl').isURL().withMessage('URL del documento inválido'),
-  body('originalFileName').isString().notEmpty(),
+  requirePremiumFeature('advanceDirectives'),
+  documentUpload('document'),
   body('originState').optional().isString(),
   async (req: Request, res: Response) => {
     try {
@@ -142,10 +175,14 @@ router.post('/upload',
         return res.status(400).json({ success: false, errors: errors.array() });
       }
       
+      const file = req.file!;
+      await assertFileContent(file);
+      
       const directive = await directivesService.uploadDocument(req.userId!, {
-        documentUrl: req.body.documentUrl,
-        originalFileName: req.body.originalFileName,
-        originState: req.body.originState,
+        buffer: file.buffer,
+        mimeType: file.mimetype,
+        originalFileName: file.originalname,
+        originState: req.body.originState || undefined,
       });
       
       res.status(201).json({
@@ -153,11 +190,14 @@ router.post('/upload',
         message: 'Documento de voluntad anticipada cargado exitosamente',
         data: { directive },
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error cargando documento:', error);
-      res.status(500).json({
+      res.status(error.status || 500).json({
         success: false,
-        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
       });
     }
   }
@@ -168,6 +208,7 @@ router.post('/upload',
  * Actualiza un borrador existente
  */
 router.put('/:id',
+  requirePremiumFeature('advanceDirectives'),
   param('id').isUUID(),
   body('acceptsCPR').optional().isBoolean(),
   body('acceptsIntubation').optional().isBoolean(),
@@ -213,6 +254,7 @@ router.put('/:id',
  * Valida una directiva (la activa)
  */
 router.post('/:id/validate',
+  requirePremiumFeature('advanceDirectives'),
   param('id').isUUID(),
   body('method').isIn(['EMAIL', 'SMS']).withMessage('Método debe ser EMAIL o SMS'),
   async (req: Request, res: Response) => {
@@ -240,11 +282,55 @@ router.post('/:id/validate',
         message: 'Directiva validada y activada exitosamente',
         data: { directive },
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error validando directiva:', error);
-      res.status(500).json({
+      res.status(error.status || 500).json({
         success: false,
-        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/directives/:id/renew
+ * Renueva la vigencia de una directiva activa o expirada
+ */
+router.post('/:id/renew',
+  requirePremiumFeature('advanceDirectives'),
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const directive = await directivesService.renewDirective(req.userId!, req.params.id);
+      
+      if (!directive) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Directiva no encontrada o no se puede renovar' },
+        });
+      }
+      
+      res.json({
+        success: true,
+        message: 'Directiva renovada exitosamente',
+        data: { directive },
+      });
+    } catch (error: any) {
+      console.error('Error renovando directiva:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
       });
     }
   }
@@ -255,6 +341,7 @@ router.post('/:id/validate',
  * Solicita sellado NOM-151
  */
 router.post('/:id/seal',
+  requirePremiumFeature('nom151Seal'),
   param('id').isUUID(),
   async (req: Request, res: Response) => {
     try {
@@ -277,8 +364,332 @@ router.post('/:id/seal',
         message: 'Documento sellado con constancia NOM-151',
         data: { directive },
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error sellando documento:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/directives/:id/seal/verify
+ * Verifica la constancia NOM-151 contra el documento almacenado
+ * Opcionalmente contra el hash SHA-256 del documento que presenta el usuario
+ */
+router.post('/:id/seal/verify',
+  param('id').isUUID(),
+  body('documentHash').optional().isHash('sha256').withMessage('Hash SHA-256 inválido'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const verification = await directivesService.verifyNOM151Seal(
+        req.userId!,
+        req.params.id,
+        req.body.documentHash
+      );
+      
+      if (!verification) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Directiva no encontrada o sin sello NOM-151' },
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: { verification },
+      });
+    } catch (error: any) {
+      console.error('Error verificando sello:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/directives/:id/legal-requirements
+ * Requisitos legales del estado de origen y cuáles faltan
+ */
+router.get('/:id/legal-requirements',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const requirements = await directivesService.getLegalRequirements(req.userId!, req.params.id);
+      
+      if (!requirements) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Directiva no encontrada' },
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: requirements,
+      });
+    } catch (error) {
+      console.error('Error obteniendo requisitos legales:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/directives/:id/pdf
+ * Descarga la directiva en PDF con hash SHA-256 y QR de verificación
+ */
+router.get('/:id/pdf',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const result = await directivesService.generateDirectivePdf(req.userId!, req.params.id);
+      
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Directiva no encontrada' },
+        });
+      }
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+      res.setHeader('X-Document-Hash', result.documentHash);
+      res.send(result.pdf);
+    } catch (error: any) {
+      console.error('Error generando PDF de directiva:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/directives/:id/document
+ * Genera el documento HTML con la plantilla legal del estado
+ */
+router.get('/:id/document',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const html = await directivesService.renderDirectiveDocument(req.userId!, req.params.id);
+      
+      if (!html) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Directiva no encontrada' },
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: { html },
+      });
+    } catch (error: any) {
+      console.error('Error generando documento:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/directives/:id/witnesses
+ * Lista los testigos y el avance de firmas
+ */
+router.get('/:id/witnesses',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const summary = await witnessService.listWitnesses(req.userId!, req.params.id);
+      
+      if (!summary) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Directiva con testigos no encontrada' },
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      console.error('Error listando testigos:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/directives/:id/witnesses
+ * Invita a un testigo por email y/o SMS
+ */
+router.post('/:id/witnesses',
+  requirePremiumFeature('advanceDirectives'),
+  param('id').isUUID(),
+  body('name').trim().isLength({ min: 2, max: 150 }).withMessage('El nombre es requerido'),
+  body('curp').optional({ values: 'falsy' }).isLength({ min: 18, max: 18 }).withMessage('El CURP debe tener 18 caracteres'),
+  body('email').optional({ values: 'falsy' }).isEmail().normalizeEmail().withMessage('Email inválido'),
+  body('phone').optional({ values: 'falsy' }).isMobilePhone('es-MX').withMessage('Teléfono inválido'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const { name, curp, email, phone } = req.body;
+      const result = await witnessService.inviteWitness(req.userId!, req.params.id, {
+        name,
+        curp: curp || undefined,
+        email: email || undefined,
+        phone: phone || undefined,
+      });
+      
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Directiva con testigos no encontrada o ya no admite testigos' },
+        });
+      }
+      
+      res.status(201).json({
+        success: true,
+        message: 'Invitación enviada al testigo',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error invitando testigo:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/directives/:id/witnesses/:witnessId/resend
+ * Reenvía la invitación con un nuevo enlace
+ */
+router.post('/:id/witnesses/:witnessId/resend',
+  param('id').isUUID(),
+  param('witnessId').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const result = await witnessService.resendInvitation(req.userId!, req.params.id, req.params.witnessId);
+      
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Testigo no encontrado o ya firmó' },
+        });
+      }
+      
+      res.json({
+        success: true,
+        message: 'Invitación reenviada',
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error reenviando invitación:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/directives/:id/witnesses/:witnessId
+ * Elimina un testigo que aún no ha firmado
+ */
+router.delete('/:id/witnesses/:witnessId',
+  param('id').isUUID(),
+  param('witnessId').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const removed = await witnessService.removeWitness(req.userId!, req.params.id, req.params.witnessId);
+      
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Testigo no encontrado o ya firmó' },
+        });
+      }
+      
+      res.json({
+        success: true,
+        message: 'Testigo eliminado',
+      });
+    } catch (error) {
+      console.error('Error eliminando testigo:', error);
       res.status(500).json({
         success: false,
         error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
@@ -1,13 +1,19 @@
 // src/modules/directives/directives.service.ts
 import { PrismaClient, AdvanceDirective, DirectiveType, DirectiveStatus } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
-import { hashSHA256, generateSecureToken } from '../../common/utils/encryption';
+import { hashSHA256 } from '../../common/utils/encryption';
+import { getStorageProvider } from '../../common/storage';
 import config from '../../config';
+import { getNom151Provider, buildTimestampRequest, parseConstancia } from './nom151';
+import { legalTemplateService, LegalRequirements } from './legal-template.service';
+import { directivePdfService } from './directive-pdf.service';
+import { generateVerificationCode } from './directive-verification.service';
 
 const prisma = new PrismaClient();
 
 // Tipos
 interface CreateDraftInput {
+  type?: 'DIGITAL_DRAFT' | 'DIGITAL_WITNESSED';
   acceptsCPR?: boolean;
   acceptsIntubation?: boolean;
   acceptsDialysis?: boolean;
@@ -19,20 +25,30 @@ interface CreateDraftInput {
 }
 
 interface UploadDocumentInput {
-  documentUrl: string;
+  buffer: Buffer;
+  mimeType: string;
   originalFileName: string;
-  documentBuffer?: Buffer; // Para calcular hash
   originState?: string;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+};
+
 interface DirectiveResponse {
   id: string;
   type: DirectiveType;
   status: DirectiveStatus;
   documentUrl: string | null;
   originalFileName: string | null;
+  verificationCode: string | null;
   nom151Sealed: boolean;
   nom151Timestamp: Date | null;
+  nom151Provider: string | null;
   acceptsCPR: boolean | null;
   acceptsIntubation: boolean | null;
   acceptsDialysis: boolean | null;
@@ -41,11 +57,27 @@ interface DirectiveResponse {
   palliativeCareOnly: boolean | null;
   additionalNotes: string | null;
   originState: string | null;
+  legalBasisSummary: string | null;
   validatedAt: Date | null;
+  expiresAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+interface SealVerificationResult {
+  valid: boolean;
+  reason: string | null;
+  checks: {
+    signature: boolean;                 // Firma del PSC sobre la constancia
+    documentHash: boolean;              // La constancia ampara el documento almacenado
+    presentedDocument: boolean | null;  // La constancia ampara el documento presentado (si se envió)
+  };
+  sealedAt: Date | null;
+  provider: string | null;
+  serialNumber: string | null;
+  policy: string | null;
+}
+
 class DirectivesService {
   /**
    * Lista todas las directivas del usuario
@@ -89,10 +121,21 @@ class DirectivesService {
    * Crea un borrador de voluntad anticipada
    */
   async createDraft(userId: string, input: CreateDraftInput): Promise<DirectiveResponse> {
+    const type = input.type === 'DIGITAL_WITNESSED'
+      ? DirectiveType.DIGITAL_WITNESSED
+      : DirectiveType.DIGITAL_DRAFT;
+    
+    // Los testigos requeridos dependen de la legislación del estado
+    if (type === DirectiveType.DIGITAL_WITNESSED && !input.originState) {
+      throw { code: 'STATE_REQUIRED', message: 'Selecciona el estado para una voluntad con testigos', status: 400 };
+    }
+    
+    const template = await legalTemplateService.getTemplate(input.originState);
+    
     const directive = await prisma.advanceDirective.create({
       data: {
         userId,
-        type: DirectiveType.DIGITAL_DRAFT,
+        type,
         status: DirectiveStatus.DRAFT,
         acceptsCPR: input.acceptsCPR,
         acceptsIntubation: input.acceptsIntubation,
@@ -102,6 +145,7 @@ class DirectivesService {
         palliativeCareOnly: input.palliativeCareOnly,
         additionalNotes: input.additionalNotes,
         originState: input.originState,
+        legalBasisSummary: legalTemplateService.buildLegalBasisSummary(template),
       },
     });
     
@@ -110,23 +154,28 @@ class DirectivesService {
   
   /**
    * Sube un documento notarizado existente
+   * El archivo se guarda en el almacenamiento y su SHA-256 queda como documentHash
    */
   async uploadDocument(userId: string, input: UploadDocumentInput): Promise<DirectiveResponse> {
-    // Calcular hash del documento si se proporciona el buffer
-    let documentHash: string | undefined;
-    if (input.documentBuffer) {
-      documentHash = hashSHA256(input.documentBuffer);
-    }
+    const documentHash = hashSHA256(input.buffer);
+    const documentKey = `directives/${userId}/${uuidv4()}${DOCUMENT_EXTENSIONS[input.mimeType] || ''}`;
+    
+    await getStorageProvider().put(documentKey, input.buffer, input.mimeType);
+    
+    const template = await legalTemplateService.getTemplate(input.originState);
     
     const directive = await prisma.advanceDirective.create({
       data: {
         userId,
         type: DirectiveType.NOTARIZED_DOCUMENT,
         status: DirectiveStatus.PENDING_VALIDATION,
-        documentUrl: input.documentUrl,
+        documentKey,
         originalFileName: input.originalFileName,
         documentHash,
+        // El archivo ya no cambia: se puede verificar y sellar desde que se sube
+        verificationCode: generateVerificationCode(),
         originState: input.originState,
+        legalBasisSummary: legalTemplateService.buildLegalBasisSummary(template),
       },
     });
     
@@ -150,6 +199,9 @@ class DirectivesService {
       return null;
     }
     
+    const originState = input.originState ?? existing.originState;
+    const template = await legalTemplateService.getTemplate(originState);
+    
     const directive = await prisma.advanceDirective.update({
       where: { id: directiveId },
       data: {
@@ -160,7 +212,8 @@ class DirectivesService {
         acceptsArtificialNutrition: input.acceptsArtificialNutrition ?? existing.acceptsArtificialNutrition,
         palliativeCareOnly: input.palliativeCareOnly ?? existing.palliativeCareOnly,
         additionalNotes: input.additionalNotes ?? existing.additionalNotes,
-        originState: input.originState ?? existing.originState,
+        originState,
+        legalBasisSummary: legalTemplateService.buildLegalBasisSummary(template),
       },
     });
     
@@ -169,6 +222,7 @@ class DirectivesService {
   
   /**
    * Valida una directiva (cambia estado a ACTIVE)
+   * Las directivas con testigos solo se activan con las firmas requeridas (witnessService)
    */
   async validateDirective(
     userId: string, 
@@ -179,6 +233,7 @@ class DirectivesService {
       where: { 
         id: directiveId, 
         userId,
+        type: { not: DirectiveType.DIGITAL_WITNESSED },
         status: { in: [DirectiveStatus.DRAFT, DirectiveStatus.PENDING_VALIDATION] },
       },
     });
@@ -187,21 +242,73 @@ class DirectivesService {
       return null;
     }
     
+    // La directiva debe cumplir con los campos que exige la plantilla del estado
+    const template = await legalTemplateService.getTemplate(existing.originState);
+    const missingFields = legalTemplateService.getMissingFields(template, existing);
+    if (missingFields.length > 0) {
+      throw {
+        code: 'TEMPLATE_FIELDS_MISSING',
+        message: `Faltan campos requeridos por tu estado: ${missingFields.map((f) => f.label).join(', ')}`,
+        status: 400,
+      };
+    }
+    
     // En producción, aquí se enviaría un código de verificación por email/SMS
     // Por ahora, simplemente marcamos como activo
     
+    const validatedAt = new Date();
     const directive = await prisma.advanceDirective.update({
       where: { id: directiveId },
       data: {
         status: DirectiveStatus.ACTIVE,
-        validatedAt: new Date(),
+        validatedAt,
         validationMethod,
+        ...this.buildExpirationData(validatedAt),
+        ...(await this.buildVerificationData(existing)),
       },
     });
     
     return this.formatDirective(directive);
   }
   
+  /**
+   * Renueva la vigencia de una directiva activa o expirada
+   * El contenido no cambia, así que se conservan el hash y el código de verificación
+   */
+  async renewDirective(userId: string, directiveId: string): Promise<DirectiveResponse | null> {
+    const existing = await prisma.advanceDirective.findFirst({
+      where: {
+        id: directiveId,
+        userId,
+        status: { in: [DirectiveStatus.ACTIVE, DirectiveStatus.EXPIRED] },
+      },
+    });
+    
+    if (!existing) {
+      return null;
+    }
+    
+    const directive = await prisma.advanceDirective.update({
+      where: { id: directiveId },
+      data: {
+        status: DirectiveStatus.ACTIVE,
+        ...this.buildExpirationData(new Date()),
+      },
+    });
+    
+    return this.formatDirective(directive);
+  }
+  
+  /**
+   * Vigencia que corre desde la activación o renovación; los recordatorios se reinician
+   */
+  buildExpirationData(from: Date): { expiresAt: Date; lastReminderDays: null } {
+    return {
+      expiresAt: new Date(from.getTime() + config.jobs.directiveValidityDays * DAY_MS),
+      lastReminderDays: null,
+    };
+  }
+  
   /**
    * Solicita sellado NOM-151 para una directiva
    */
@@ -214,23 +321,159 @@ class DirectivesService {
       return null;
     }
     
-    // En producción, aquí se llamaría al PSC
-    // Por ahora, simulamos el sellado
-    const mockCertificate = `NOM151-CERT-${generateSecureToken(16)}`;
+    const provider = getNom151Provider();
+    if (!provider) {
+      throw { code: 'PSC_NOT_CONFIGURED', message: 'Proveedor NOM-151 no configurado', status: 503 };
+    }
+    
+    const request = buildTimestampRequest(directive.documentHash, config.psc.policyOid);
+    const constancia = await provider.requestTimestamp(request);
     
     const updated = await prisma.advanceDirective.update({
       where: { id: directiveId },
       data: {
         nom151Sealed: true,
-        nom151Timestamp: new Date(),
-        nom151Certificate: mockCertificate,
-        nom151Provider: 'PSC Demo Provider',
+        nom151Timestamp: new Date(constancia.tstInfo.genTime),
+        nom151Certificate: JSON.stringify(constancia),
+        nom151Provider: constancia.tstInfo.tsa,
       },
     });
     
     return this.formatDirective(updated);
   }
   
+  /**
+   * Verifica la constancia NOM-151 almacenada contra el documento
+   * Si se proporciona documentHash se compara también con el documento que presenta el usuario
+   */
+  async verifyNOM151Seal(
+    userId: string,
+    directiveId: string,
+    presentedHash?: string
+  ): Promise<SealVerificationResult | null> {
+    const directive = await prisma.advanceDirective.findFirst({
+      where: { id: directiveId, userId },
+    });
+    
+    if (!directive || !directive.nom151Sealed) {
+      return null;
+    }
+    
+    const constancia = parseConstancia(directive.nom151Certificate);
+    if (!constancia) {
+      // Constancias simuladas previas a la integración con el PSC
+      return {
+        valid: false,
+        reason: 'LEGACY_CERTIFICATE',
+        checks: { signature: false, documentHash: false, presentedDocument: null },
+        sealedAt: directive.nom151Timestamp,
+        provider: directive.nom151Provider,
+        serialNumber: null,
+        policy: null,
+      };
+    }
+    
+    const provider = getNom151Provider(constancia.provider);
+    const signature = provider ? await provider.verifyTimestamp(constancia) : false;
+    const imprint = constancia.tstInfo.messageImprint.hashedMessage;
+    const documentHash = !!directive.documentHash && imprint === directive.documentHash.toLowerCase();
+    const presentedDocument = presentedHash ? imprint === presentedHash.toLowerCase() : null;
+    
+    const valid = signature && documentHash && presentedDocument !== false;
+    let reason: string | null = null;
+    if (!signature) reason = provider ? 'INVALID_SIGNATURE' : 'UNKNOWN_PROVIDER';
+    else if (!documentHash) reason = 'DOCUMENT_CHANGED';
+    else if (presentedDocument === false) reason = 'PRESENTED_DOCUMENT_MISMATCH';
+    
+    return {
+      valid,
+      reason,
+      checks: { signature, documentHash, presentedDocument },
+      sealedAt: new Date(constancia.tstInfo.genTime),
+      provider: constancia.tstInfo.tsa,
+      serialNumber: constancia.tstInfo.serialNumber,
+      policy: constancia.tstInfo.policy,
+    };
+  }
+  
+  /**
+   * Requisitos legales del estado de origen y su cumplimiento
+   */
+  async getLegalRequirements(userId: string, directiveId: string): Promise<LegalRequirements | null> {
+    const directive = await prisma.advanceDirective.findFirst({
+      where: { id: directiveId, userId },
+    });
+    
+    return directive ? legalTemplateService.getRequirements(directive) : null;
+  }
+  
+  /**
+   * Genera el documento HTML con la plantilla del estado de origen
+   */
+  async renderDirectiveDocument(userId: string, directiveId: string): Promise<string | null> {
+    const directive = await prisma.advanceDirective.findFirst({
+      where: { id: directiveId, userId, type: { not: DirectiveType.NOTARIZED_DOCUMENT } },
+      include: { user: { select: { name: true, curp: true, dateOfBirth: true } } },
+    });
+    
+    if (!directive) {
+      return null;
+    }
+    
+    const html = await legalTemplateService.renderDirective(directive, directive.user);
+    if (!html) {
+      throw { code: 'TEMPLATE_NOT_FOUND', message: 'No hay plantilla legal para el estado de la directiva', status: 404 };
+    }
+    
+    return html;
+  }
+  
+  /**
+   * Genera el PDF imprimible de la directiva
+   */
+  async generateDirectivePdf(
+    userId: string,
+    directiveId: string
+  ): Promise<{ pdf: Buffer; fileName: string; documentHash: string } | null> {
+    const directive = await prisma.advanceDirective.findFirst({
+      where: { id: directiveId, userId },
+      include: {
+        user: { select: { name: true, curp: true, dateOfBirth: true } },
+        witnesses: {
+          where: { signedAt: { not: null } },
+          orderBy: { signedAt: 'asc' },
+          select: { name: true, curp: true, signedAt: true, signatureImageUrl: true },
+        },
+      },
+    });
+    
+    if (!directive) {
+      return null;
+    }
+    
+    // Hash y código se fijan al activar o subir la directiva; un borrador muestra el hash de su
+    // contenido actual, sin código de verificación
+    const documentHash = directive.documentHash || this.computeContentHash(directive, directive.user.curp);
+    const verificationCode = directive.verificationCode;
+    
+    const template = await legalTemplateService.getTemplate(directive.originState);
+    
+    const pdf = await directivePdfService.render({
+      directive,
+      patient: directive.user,
+      stateName: template?.stateName ?? null,
+      documentHash,
+      verificationCode,
+      witnesses: directive.witnesses,
+    });
+    
+    return {
+      pdf,
+      fileName: `voluntad-anticipada-${directive.id.slice(0, 8)}.pdf`,
+      documentHash,
+    };
+  }
+  
   /**
    * Revoca una directiva
    */
@@ -316,11 +559,56 @@ class DirectivesService {
       acceptsCPR: directive.acceptsCPR,
       acceptsIntubation: directive.acceptsIntubation,
       additionalNotes: directive.additionalNotes,
-      documentUrl: directive.documentUrl,
+      documentUrl: directive.documentKey
+        ? getStorageProvider().getSignedUrl(directive.documentKey)
+        : directive.documentUrl,
       validatedAt: directive.validatedAt,
     };
   }
   
+  /**
+   * Hash y código de verificación que se guardan al activar la directiva: desde ese momento
+   * se puede verificar públicamente y sellar (NOM-151). Los documentos subidos ya traen el
+   * hash del archivo; el resto se identifica por su contenido
+   */
+  async buildVerificationData(directive: AdvanceDirective): Promise<{ documentHash: string; verificationCode: string }> {
+    let documentHash = directive.documentHash;
+    
+    if (!documentHash) {
+      const user = await prisma.user.findUniqueOrThrow({
+        where: { id: directive.userId },
+        select: { curp: true },
+      });
+      documentHash = this.computeContentHash(directive, user.curp);
+    }
+    
+    return {
+      documentHash,
+      verificationCode: directive.verificationCode || generateVerificationCode(),
+    };
+  }
+  
+  /**
+   * SHA-256 del contenido de la directiva (identidad, decisiones y documento de origen)
+   */
+  private computeContentHash(directive: AdvanceDirective, curp: string): string {
+    return hashSHA256(JSON.stringify({
+      id: directive.id,
+      type: directive.type,
+      curp,
+      acceptsCPR: directive.acceptsCPR,
+      acceptsIntubation: directive.acceptsIntubation,
+      acceptsDialysis: directive.acceptsDialysis,
+      acceptsTransfusion: directive.acceptsTransfusion,
+      acceptsArtificialNutrition: directive.acceptsArtificialNutrition,
+      palliativeCareOnly: directive.palliativeCareOnly,
+      additionalNotes: directive.additionalNotes,
+      originState: directive.originState,
+      documentUrl: directive.documentUrl,
+      createdAt: directive.createdAt.toISOString(),
+    }));
+  }
+  
   /**
    * Formatea una directiva para la respuesta
    */
@@ -329,10 +617,15 @@ class DirectivesService {
       id: directive.id,
       type: directive.type,
       status: directive.status,
-      documentUrl: directive.documentUrl,
+      // Los archivos propios se entregan con URL firmada de corta vigencia
+      documentUrl: directive.documentKey
+        ? getStorageProvider().getSignedUrl(directive.documentKey)
+        : directive.documentUrl,
       originalFileName: directive.originalFileName,
+      verificationCode: directive.verificationCode,
       nom151Sealed: directive.nom151Sealed,
       nom151Timestamp: directive.nom151Timestamp,
+      nom151Provider: directive.nom151Provider,
       acceptsCPR: directive.acceptsCPR,
       acceptsIntubation: directive.acceptsIntubation,
       acceptsDialysis: directive.acceptsDialysis,
@@ -341,7 +634,9 @@ class DirectivesService {
       palliativeCareOnly: directive.palliativeCareOnly,
       additionalNotes: directive.additionalNotes,
       originState: directive.originState,
+      legalBasisSummary: directive.legalBasisSummary,
       validatedAt: directive.validatedAt,
+      expiresAt: directive.expiresAt,
       createdAt: directive.createdAt,
       updatedAt: directive.updatedAt,
     };
@@ -0,0 +1,331 @@
+// src/modules/directives/legal-template.service.ts
+import { PrismaClient, StateLegalTemplate, AdvanceDirective, DirectiveType } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Campos de la directiva que una plantilla estatal puede exigir
+ */
+export const TEMPLATE_FIELD_KEYS = [
+  'acceptsCPR',
+  'acceptsIntubation',
+  'acceptsDialysis',
+  'acceptsTransfusion',
+  'acceptsArtificialNutrition',
+  'palliativeCareOnly',
+  'additionalNotes',
+] as const;
+
+export type TemplateFieldKey = typeof TEMPLATE_FIELD_KEYS[number];
+
+// Elemento de StateLegalTemplate.templateFields
+export interface TemplateField {
+  key: TemplateFieldKey;
+  label: string;
+  required: boolean;
+  description?: string;
+}
+
+export interface LegalRequirement {
+  key: 'NOTARY' | 'WITNESSES' | 'MEDICAL_CERT';
+  label: string;
+  met: boolean;
+}
+
+export interface LegalRequirements {
+  state: { code: string; name: string } | null;
+  law: { name: string; date: Date | null; summary: string | null } | null;
+  hasTemplate: boolean;
+  requirements: LegalRequirement[];
+  missingFields: { key: TemplateFieldKey; label: string }[];
+}
+
+// Marcadores admitidos en templateHtml: {{ patient.name }}, {{ directive.acceptsCPR }}, etc.
+const PLACEHOLDER_REGEX = /\{\{\s*([a-zA-Z.]+)\s*\}\}/g;
+
+const STATIC_PLACEHOLDERS = [
+  'patient.name',
+  'patient.curp',
+  'patient.dateOfBirth',
+  'state.code',
+  'state.name',
+  'law.name',
+  'law.date',
+  'directive.createdAt',
+  'witnesses',
+  'date',
+];
+
+const ALLOWED_PLACEHOLDERS = [
+  ...STATIC_PLACEHOLDERS,
+  ...TEMPLATE_FIELD_KEYS.map((key) => `directive.${key}`),
+];
+
+interface RenderPatient {
+  name: string;
+  curp: string;
+  dateOfBirth: Date | null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toLocaleDateString('es-MX', { dateStyle: 'long' }) : '';
+}
+
+export function formatDecision(value: boolean | null): string {
+  if (value === true) return 'Sí acepto';
+  if (value === false) return 'No acepto';
+  return 'Sin preferencia';
+}
+
+class LegalTemplateService {
+  /**
+   * Obtiene la plantilla activa de un estado
+   */
+  async getTemplate(stateCode: string | null | undefined): Promise<StateLegalTemplate | null> {
+    if (!stateCode) {
+      return null;
+    }
+
+    return prisma.stateLegalTemplate.findFirst({
+      where: { stateCode, isActive: true },
+    });
+  }
+
+  /**
+   * Lista las plantillas activas (resumen para el paciente)
+   */
+  async listActiveTemplates() {
+    const templates = await prisma.stateLegalTemplate.findMany({
+      where: { isActive: true },
+      orderBy: { stateName: 'asc' },
+    });
+
+    return templates.map((t) => ({
+      stateCode: t.stateCode,
+      stateName: t.stateName,
+      lawName: t.lawName,
+      lawDate: t.lawDate,
+      requiresNotary: t.requiresNotary,
+      requiresWitnesses: t.requiresWitnesses,
+      requiresMedicalCert: t.requiresMedicalCert,
+      fields: this.parseFields(t.templateFields),
+    }));
+  }
+
+  /**
+   * Interpreta templateFields; ignora entradas mal formadas
+   */
+  parseFields(raw: unknown): TemplateField[] {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+
+    return raw.filter((f): f is TemplateField =>
+      !!f &&
+      typeof f === 'object' &&
+      TEMPLATE_FIELD_KEYS.includes((f as TemplateField).key) &&
+      typeof (f as TemplateField).label === 'string'
+    );
+  }
+
+  /**
+   * Valida la definición de una plantilla antes de guardarla
+   * Devuelve la lista de errores (vacía si es válida)
+   */
+  validateDefinition(templateFields: unknown, templateHtml: string | null | undefined): string[] {
+    const errors: string[] = [];
+
+    if (templateFields !== undefined && templateFields !== null) {
+      if (!Array.isArray(templateFields)) {
+        errors.push('templateFields debe ser una lista');
+      } else {
+        const seen = new Set<string>();
+        templateFields.forEach((raw: unknown, index: number) => {
+          if (!raw || typeof raw !== 'object') {
+            errors.push(`templateFields[${index}] debe ser un objeto`);
+            return;
+          }
+          const field = raw as TemplateField;
+          if (!TEMPLATE_FIELD_KEYS.includes(field.key)) {
+            errors.push(`templateFields[${index}].key invalido: ${field.key}`);
+          } else if (seen.has(field.key)) {
+            errors.push(`templateFields[${index}].key duplicado: ${field.key}`);
+          }
+          seen.add(field.key);
+          if (typeof field.label !== 'string' || !field.label.trim()) {
+            errors.push(`templateFields[${index}].label es requerido`);
+          }
+          if (typeof field.required !== 'boolean') {
+            errors.push(`templateFields[${index}].required debe ser booleano`);
+          }
+        });
+      }
+    }
+
+    if (templateHtml) {
+      const unknown = new Set<string>();
+      for (const match of templateHtml.matchAll(PLACEHOLDER_REGEX)) {
+        if (!ALLOWED_PLACEHOLDERS.includes(match[1])) {
+          unknown.add(match[1]);
+        }
+      }
+      if (unknown.size > 0) {
+        errors.push(`Marcadores desconocidos en templateHtml: ${[...unknown].join(', ')}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Campos requeridos por la plantilla que la directiva no ha llenado
+   */
+  getMissingFields(template: StateLegalTemplate | null, directive: AdvanceDirective): TemplateField[] {
+    if (!template) {
+      return [];
+    }
+
+    return this.parseFields(template.templateFields).filter((field) => {
+      if (!field.required) return false;
+      const value = directive[field.key];
+      return value === null || value === undefined || (typeof value === 'string' && !value.trim());
+    });
+  }
+
+  /**
+   * Resumen del fundamento legal para AdvanceDirective.legalBasisSummary
+   */
+  buildLegalBasisSummary(template: StateLegalTemplate | null): string | null {
+    if (!template) {
+      return null;
+    }
+
+    const requirements: string[] = [];
+    if (template.requiresNotary) requirements.push('ratificación ante notario');
+    if (template.requiresWitnesses > 0) requirements.push(`${template.requiresWitnesses} testigos`);
+    if (template.requiresMedicalCert) requirements.push('certificado médico');
+
+    const year = template.lawDate ? ` (${template.lawDate.getFullYear()})` : '';
+    const requirementsText = requirements.length > 0
+      ? ` Requisitos: ${requirements.join(', ')}.`
+      : '';
+
+    return `${template.lawName}${year}.${requirementsText}`;
+  }
+
+  /**
+   * Requisitos legales del estado y su cumplimiento por la directiva
+   */
+  async getRequirements(directive: AdvanceDirective): Promise<LegalRequirements> {
+    const template = await this.getTemplate(directive.originState);
+
+    if (!template) {
+      return {
+        state: null,
+        law: null,
+        hasTemplate: false,
+        requirements: [],
+        missingFields: [],
+      };
+    }
+
+    const isNotarized = directive.type === DirectiveType.NOTARIZED_DOCUMENT;
+    const signedWitnesses = await prisma.witness.count({
+      where: { directiveId: directive.id, signedAt: { not: null } },
+    });
+
+    const requirements: LegalRequirement[] = [];
+
+    if (template.requiresNotary) {
+      requirements.push({
+        key: 'NOTARY',
+        label: 'Ratificación ante notario público',
+        met: isNotarized,
+      });
+    }
+
+    if (template.requiresWitnesses > 0) {
+      requirements.push({
+        key: 'WITNESSES',
+        label: `Firma de ${template.requiresWitnesses} testigos`,
+        // El acta notarial incluye a los testigos
+        met: isNotarized || signedWitnesses >= template.requiresWitnesses,
+      });
+    }
+
+    if (template.requiresMedicalCert) {
+      requirements.push({
+        key: 'MEDICAL_CERT',
+        label: 'Certificado médico de capacidad',
+        met: false,
+      });
+    }
+
+    return {
+      state: { code: template.stateCode, name: template.stateName },
+      law: { name: template.lawName, date: template.lawDate, summary: template.lawSummary },
+      hasTemplate: true,
+      requirements,
+      missingFields: isNotarized
+        ? []
+        : this.getMissingFields(template, directive).map((f) => ({ key: f.key, label: f.label })),
+    };
+  }
+
+  /**
+   * Genera el documento HTML de la directiva con la plantilla del estado
+   * Todos los valores se escapan; la plantilla la controla un administrador
+   */
+  async renderDirective(directive: AdvanceDirective, patient: RenderPatient): Promise<string | null> {
+    const template = await this.getTemplate(directive.originState);
+
+    if (!template || !template.templateHtml) {
+      return null;
+    }
+
+    const witnesses = await prisma.witness.findMany({
+      where: { directiveId: directive.id, signedAt: { not: null } },
+      orderBy: { signedAt: 'asc' },
+      select: { name: true },
+    });
+
+    const values: Record<string, string> = {
+      'patient.name': patient.name,
+      'patient.curp': patient.curp,
+      'patient.dateOfBirth': formatDate(patient.dateOfBirth),
+      'state.code': template.stateCode,
+      'state.name': template.stateName,
+      'law.name': template.lawName,
+      'law.date': formatDate(template.lawDate),
+      'directive.createdAt': formatDate(directive.createdAt),
+      'witnesses': witnesses.map((w) => w.name).join(', '),
+      'date': formatDate(new Date()),
+    };
+
+    for (const key of TEMPLATE_FIELD_KEYS) {
+      if (key === 'additionalNotes') {
+        values[`directive.${key}`] = directive.additionalNotes || '';
+      } else if (key === 'palliativeCareOnly') {
+        values[`directive.${key}`] = directive.palliativeCareOnly ? 'Sí' : 'No';
+      } else {
+        values[`directive.${key}`] = formatDecision(directive[key]);
+      }
+    }
+
+    return template.templateHtml.replace(PLACEHOLDER_REGEX, (_, key: string) =>
+      escapeHtml(values[key] ?? '')
+    );
+  }
+}
+
+export const legalTemplateService = new LegalTemplateService();
+export default legalTemplateService;
@@ -0,0 +1,176 @@
+// src/modules/directives/nom151/http-psc.provider.ts
+import * as crypto from 'crypto';
+import config from '../../../config';
+import {
+  Nom151Provider,
+  Nom151TimestampRequest,
+  Nom151Constancia,
+  Nom151ProviderStatus,
+  serializeTSTInfo,
+  matchesRequest,
+} from './nom151.provider';
+
+// Estados de PKIStatus (RFC 3161 §2.4.2) que implican constancia emitida
+const GRANTED_STATUSES = ['granted', 'grantedWithMods'];
+
+// Algoritmos que se pueden verificar localmente con el certificado del PSC
+const LOCAL_VERIFY_ALGORITHMS = ['RSA-SHA256', 'ECDSA-SHA256'];
+
+const normalizeFingerprint = (value: string) => value.replace(/:/g, '').toUpperCase();
+
+// PSC_CA_CERT puede traer varias CAs concatenadas
+function parseCertificates(pem: string): crypto.X509Certificate[] {
+  return (pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [])
+    .map((block) => new crypto.X509Certificate(block));
+}
+
+interface PSCTimestampResponse {
+  status?: {
+    status?: string;
+    statusString?: string;
+  };
+  timeStampToken?: Omit<Nom151Constancia, 'provider'>;
+}
+
+/**
+ * PSC acreditado accesible por HTTP (config.psc.endpoint)
+ */
+export class HttpPSCProvider implements Nom151Provider {
+  readonly key = 'http';
+  readonly name = 'PSC NOM-151';
+  readonly legallyValid = true;
+
+  async requestTimestamp(request: Nom151TimestampRequest): Promise<Nom151Constancia> {
+    const response = await this.request('/timestamps', 'POST', request);
+
+    if (!response.ok) {
+      throw { code: 'PSC_ERROR', message: `El PSC respondió con error ${response.status}`, status: 502 };
+    }
+
+    const body = (await response.json()) as PSCTimestampResponse;
+    const pkiStatus = body.status?.status;
+
+    if (!pkiStatus || !GRANTED_STATUSES.includes(pkiStatus) || !body.timeStampToken?.tstInfo) {
+      throw {
+        code: 'PSC_REJECTED',
+        message: body.status?.statusString || 'El PSC rechazó la solicitud de constancia',
+        status: 502,
+      };
+    }
+
+    const constancia: Nom151Constancia = {
+      provider: this.key,
+      tstInfo: body.timeStampToken.tstInfo,
+      signatureAlgorithm: body.timeStampToken.signatureAlgorithm,
+      signature: body.timeStampToken.signature,
+      certificate: body.timeStampToken.certificate,
+    };
+
+    if (!matchesRequest(constancia, request)) {
+      throw { code: 'PSC_MISMATCH', message: 'La constancia no corresponde al documento solicitado', status: 502 };
+    }
+
+    return constancia;
+  }
+
+  async verifyTimestamp(constancia: Nom151Constancia): Promise<boolean> {
+    // Con el certificado del PSC se verifica sin depender de su disponibilidad,
+    // siempre que haya con qué anclar la confianza en ese certificado
+    const hasTrustAnchor = !!(config.psc.caCert || config.psc.certFingerprint);
+    if (hasTrustAnchor && constancia.certificate && LOCAL_VERIFY_ALGORITHMS.includes(constancia.signatureAlgorithm)) {
+      try {
+        const certificate = this.trustedCertificate(constancia.certificate, new Date(constancia.tstInfo.genTime));
+        if (!certificate) {
+          return false;
+        }
+        return crypto.verify(
+          'sha256',
+          Buffer.from(serializeTSTInfo(constancia.tstInfo)),
+          certificate.publicKey,
+          Buffer.from(constancia.signature, 'base64')
+        );
+      } catch (error) {
+        console.error('Error verificando constancia con certificado del PSC:', error);
+        return false;
+      }
+    }
+
+    const response = await this.request('/timestamps/verify', 'POST', {
+      tstInfo: constancia.tstInfo,
+      signatureAlgorithm: constancia.signatureAlgorithm,
+      signature: constancia.signature,
+    });
+
+    if (!response.ok) {
+      throw { code: 'PSC_ERROR', message: `El PSC respondió con error ${response.status}`, status: 502 };
+    }
+
+    const body = (await response.json()) as { valid?: boolean };
+    return body.valid === true;
+  }
+
+  /**
+   * El certificado viene dentro de la propia constancia: solo se acepta si coincide con la huella
+   * configurada o lo emitió una CA del PSC, y si estaba vigente cuando se selló
+   */
+  private trustedCertificate(pem: string, sealedAt: Date): crypto.X509Certificate | null {
+    const certificate = new crypto.X509Certificate(pem);
+
+    if (sealedAt < new Date(certificate.validFrom) || sealedAt > new Date(certificate.validTo)) {
+      return null;
+    }
+
+    if (config.psc.certFingerprint) {
+      return normalizeFingerprint(certificate.fingerprint256) === normalizeFingerprint(config.psc.certFingerprint)
+        ? certificate
+        : null;
+    }
+
+    const issued = parseCertificates(config.psc.caCert)
+      .some((ca) => certificate.checkIssued(ca) && certificate.verify(ca.publicKey));
+    return issued ? certificate : null;
+  }
+
+  async checkStatus(): Promise<Nom151ProviderStatus> {
+    if (!config.psc.apiKey || !config.psc.endpoint) {
+      return { available: false, details: { configured: false } };
+    }
+
+    const startTime = Date.now();
+    try {
+      const response = await this.request('/status', 'GET');
+      return {
+        available: response.ok,
+        responseTime: Date.now() - startTime,
+        details: { configured: true, httpStatus: response.status },
+      };
+    } catch (error: any) {
+      return {
+        available: false,
+        responseTime: Date.now() - startTime,
+        details: { configured: true, error: error.message || 'Error de conexión' },
+      };
+    }
+  }
+
+  private async request(path: string, method: 'GET' | 'POST', body?: object): Promise<Response> {
+    try {
+      return await fetch(`${config.psc.endpoint}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${config.psc.apiKey}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(config.psc.timeoutMs),
+      });
+    } catch (error) {
+      throw {
+        code: 'PSC_UNAVAILABLE',
+        message: error instanceof Error ? error.message : 'No se pudo contactar al PSC',
+        status: 503,
+      };
+    }
+  }
+}
@@ -0,0 +1,26 @@
+// src/modules/directives/nom151/index.ts
+import config from '../../../config';
+import { Nom151Provider } from './nom151.provider';
+import { LocalPSCProvider } from './local-psc.provider';
+import { HttpPSCProvider } from './http-psc.provider';
+
+const providers: Record<string, Nom151Provider> = {
+  local: new LocalPSCProvider(),
+  http: new HttpPSCProvider(),
+};
+
+/**
+ * Obtiene el proveedor NOM-151
+ * Sin argumento devuelve el configurado en PSC_PROVIDER; con clave, el que emitió una constancia
+ * En producción el PSC de pruebas no existe: su secreto HMAC puede ser el de omisión
+ * y sus constancias no deben emitirse ni verificarse como válidas
+ */
+export function getNom151Provider(key?: string): Nom151Provider | null {
+  const provider = providers[key || config.psc.provider] || null;
+  if (provider && !provider.legallyValid && config.env === 'production') {
+    return null;
+  }
+  return provider;
+}
+
+export * from './nom151.provider';
@@ -0,0 +1,70 @@
+// src/modules/directives/nom151/local-psc.provider.ts
+import * as crypto from 'crypto';
+import config from '../../../config';
+import {
+  Nom151Provider,
+  Nom151TimestampRequest,
+  Nom151Constancia,
+  Nom151TSTInfo,
+  Nom151ProviderStatus,
+  serializeTSTInfo,
+} from './nom151.provider';
+
+const SIGNATURE_ALGORITHM = 'HMAC-SHA256';
+
+/**
+ * PSC local para desarrollo y pruebas sin conexión
+ * Firma las constancias con HMAC; NO tienen validez legal
+ */
+export class LocalPSCProvider implements Nom151Provider {
+  readonly key = 'local';
+  readonly name = 'PSC Local (pruebas)';
+  readonly legallyValid = false;
+
+  async requestTimestamp(request: Nom151TimestampRequest): Promise<Nom151Constancia> {
+    const tstInfo: Nom151TSTInfo = {
+      version: 1,
+      policy: request.reqPolicy || config.psc.policyOid,
+      messageImprint: request.messageImprint,
+      serialNumber: crypto.randomBytes(10).toString('hex'),
+      genTime: new Date().toISOString(),
+      nonce: request.nonce,
+      tsa: this.name,
+    };
+
+    return {
+      provider: this.key,
+      tstInfo,
+      signatureAlgorithm: SIGNATURE_ALGORITHM,
+      signature: this.sign(tstInfo),
+    };
+  }
+
+  async verifyTimestamp(constancia: Nom151Constancia): Promise<boolean> {
+    if (constancia.signatureAlgorithm !== SIGNATURE_ALGORITHM) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(constancia.tstInfo), 'base64');
+    const actual = Buffer.from(constancia.signature, 'base64');
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  async checkStatus(): Promise<Nom151ProviderStatus> {
+    return {
+      available: true,
+      responseTime: 0,
+      details: {
+        warning: 'Constancias de prueba sin validez legal',
+      },
+    };
+  }
+
+  private sign(tstInfo: Nom151TSTInfo): string {
+    return crypto
+      .createHmac('sha256', config.psc.localSecret)
+      .update(serializeTSTInfo(tstInfo))
+      .digest('base64');
+  }
+}
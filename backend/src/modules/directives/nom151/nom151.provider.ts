@@ -0,0 +1,147 @@
+// src/modules/directives/nom151/nom151.provider.ts
+import * as crypto from 'crypto';
+
+/**
+ * Tipos y utilidades comunes para proveedores de constancias NOM-151
+ *
+ * La estructura sigue el modelo de RFC 3161 (TimeStampReq / TSTInfo) pero
+ * serializada como JSON, que es el formato que exponen los PSC mexicanos vía API.
+ */
+
+export const NOM151_HASH_ALGORITHM = 'SHA-256';
+
+export interface MessageImprint {
+  hashAlgorithm: typeof NOM151_HASH_ALGORITHM;
+  hashedMessage: string; // SHA-256 del documento en hex
+}
+
+// Equivalente a TimeStampReq (RFC 3161 §2.4.1)
+export interface Nom151TimestampRequest {
+  version: 1;
+  messageImprint: MessageImprint;
+  reqPolicy?: string;
+  nonce: string;
+  certReq: boolean;
+}
+
+// Equivalente a TSTInfo (RFC 3161 §2.4.2)
+export interface Nom151TSTInfo {
+  version: 1;
+  policy: string;
+  messageImprint: MessageImprint;
+  serialNumber: string;
+  genTime: string; // ISO 8601
+  nonce: string;
+  tsa: string;
+}
+
+/**
+ * Constancia de conservación emitida por el PSC
+ * Se almacena serializada en AdvanceDirective.nom151Certificate
+ */
+export interface Nom151Constancia {
+  provider: string; // Clave del proveedor que la emitió ('local' | 'http')
+  tstInfo: Nom151TSTInfo;
+  signatureAlgorithm: string;
+  signature: string; // base64
+  certificate?: string; // Certificado PEM del PSC, si se solicitó
+}
+
+export interface Nom151ProviderStatus {
+  available: boolean;
+  responseTime?: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Proveedor de Servicios de Certificación (PSC) para NOM-151
+ */
+export interface Nom151Provider {
+  readonly key: string;
+  readonly name: string;
+  readonly legallyValid: boolean; // false: constancias de prueba, nunca en producción
+
+  /**
+   * Solicita una constancia de sello de tiempo sobre el hash del documento
+   */
+  requestTimestamp(request: Nom151TimestampRequest): Promise<Nom151Constancia>;
+
+  /**
+   * Verifica la firma del PSC sobre una constancia almacenada
+   */
+  verifyTimestamp(constancia: Nom151Constancia): Promise<boolean>;
+
+  /**
+   * Reporta disponibilidad del PSC
+   */
+  checkStatus(): Promise<Nom151ProviderStatus>;
+}
+
+/**
+ * Construye una solicitud de sello de tiempo sobre el hash del documento
+ */
+export function buildTimestampRequest(documentHash: string, policy?: string): Nom151TimestampRequest {
+  return {
+    version: 1,
+    messageImprint: {
+      hashAlgorithm: NOM151_HASH_ALGORITHM,
+      hashedMessage: documentHash.toLowerCase(),
+    },
+    reqPolicy: policy || undefined,
+    nonce: crypto.randomBytes(16).toString('hex'),
+    certReq: true,
+  };
+}
+
+/**
+ * Serializa TSTInfo con orden de campos fijo para firmar y verificar
+ */
+export function serializeTSTInfo(tstInfo: Nom151TSTInfo): string {
+  return JSON.stringify([
+    tstInfo.version,
+    tstInfo.policy,
+    tstInfo.messageImprint.hashAlgorithm,
+    tstInfo.messageImprint.hashedMessage,
+    tstInfo.serialNumber,
+    tstInfo.genTime,
+    tstInfo.nonce,
+    tstInfo.tsa,
+  ]);
+}
+
+/**
+ * Verifica que la constancia responde a la solicitud enviada
+ */
+export function matchesRequest(constancia: Nom151Constancia, request: Nom151TimestampRequest): boolean {
+  const { tstInfo } = constancia;
+  return (
+    tstInfo.messageImprint.hashAlgorithm === request.messageImprint.hashAlgorithm &&
+    tstInfo.messageImprint.hashedMessage === request.messageImprint.hashedMessage &&
+    tstInfo.nonce === request.nonce &&
+    (!request.reqPolicy || tstInfo.policy === request.reqPolicy)
+  );
+}
+
+/**
+ * Interpreta la constancia almacenada
+ * Devuelve null para constancias antiguas (simuladas) o con formato inválido
+ */
+export function parseConstancia(raw: string | null): Nom151Constancia | null {
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (
+      !parsed ||
+      typeof parsed.provider !== 'string' ||
+      typeof parsed.signature !== 'string' ||
+      !parsed.tstInfo?.messageImprint?.hashedMessage ||
+      !parsed.tstInfo?.genTime
+    ) {
+      return null;
+    }
+    return parsed as Nom151Constancia;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,85 @@
+// src/modules/directives/witness.controller.ts
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { witnessService } from './witness.service';
+
+const router = Router();
+
+// Endpoints públicos: el token de la invitación identifica al testigo
+
+/**
+ * GET /api/v1/witness/:token
+ * Obtiene la invitación para firmar como testigo
+ */
+router.get('/:token',
+  param('token').isHexadecimal().isLength({ min: 64, max: 64 }),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const invitation = await witnessService.getInvitation(req.params.token);
+
+      res.json({
+        success: true,
+        data: { invitation },
+      });
+    } catch (error: any) {
+      console.error('Error obteniendo invitación de testigo:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/witness/:token/sign
+ * Confirma la identidad del testigo y registra su firma
+ */
+router.post('/:token/sign',
+  param('token').isHexadecimal().isLength({ min: 64, max: 64 }),
+  body('name').trim().isLength({ min: 2 }).withMessage('El nombre es requerido'),
+  body('curp').trim().isLength({ min: 18, max: 18 }).withMessage('El CURP debe tener 18 caracteres'),
+  body('signatureImage').isString().notEmpty().withMessage('La firma es requerida'),
+  body('acceptsStatement').equals('true').withMessage('Debes aceptar la declaración de testigo'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const { name, curp, signatureImage } = req.body;
+      const result = await witnessService.signAsWitness(
+        req.params.token,
+        { name, curp, signatureImage },
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Firma registrada. Gracias por participar como testigo.',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error registrando firma de testigo:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,448 @@
+// src/modules/directives/witness.service.ts
+import { PrismaClient, Witness, DirectiveType, DirectiveStatus } from '@prisma/client';
+import { generateSecureToken } from '../../common/utils/encryption';
+import { notificationService } from '../notification/notification.service';
+import { legalTemplateService } from './legal-template.service';
+import { directivesService } from './directives.service';
+import config from '../../config';
+
+const prisma = new PrismaClient();
+
+// Si el estado no tiene plantilla legal registrada se usa el valor por defecto del modelo
+const DEFAULT_REQUIRED_WITNESSES = 2;
+const MAX_WITNESSES = 5;
+const INVITE_EXPIRES_DAYS = 7;
+
+// Firma dibujada en el navegador (PNG en data URL, máx. ~200 KB)
+const SIGNATURE_DATA_URL_REGEX = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+const MAX_SIGNATURE_LENGTH = 280000;
+
+const CURP_REGEX = /^[A-Z]{4}[0-9]{6}[HM][A-Z]{5}[0-9A-Z][0-9]$/;
+
+// Tipos
+interface InviteWitnessInput {
+  name: string;
+  curp?: string;
+  email?: string;
+  phone?: string;
+}
+
+interface SignWitnessInput {
+  name: string;
+  curp: string;
+  signatureImage: string;
+}
+
+interface WitnessResponse {
+  id: string;
+  name: string;
+  curp: string | null;
+  email: string | null;
+  phone: string | null;
+  status: 'SIGNED' | 'PENDING' | 'EXPIRED';
+  invitedAt: Date | null;
+  inviteExpires: Date | null;
+  signedAt: Date | null;
+}
+
+interface WitnessSummary {
+  witnesses: WitnessResponse[];
+  required: number;
+  signed: number;
+  directiveStatus: DirectiveStatus;
+}
+
+/**
+ * Normaliza nombres para comparar (sin acentos, mayúsculas, espacios simples)
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+class WitnessService {
+  /**
+   * Número de testigos que exige la legislación del estado
+   */
+  async getRequiredWitnesses(originState: string | null): Promise<number> {
+    const template = await legalTemplateService.getTemplate(originState);
+    return template?.requiresWitnesses ?? DEFAULT_REQUIRED_WITNESSES;
+  }
+
+  /**
+   * Lista los testigos de una directiva y el avance de firmas
+   */
+  async listWitnesses(userId: string, directiveId: string): Promise<WitnessSummary | null> {
+    const directive = await prisma.advanceDirective.findFirst({
+      where: { id: directiveId, userId, type: DirectiveType.DIGITAL_WITNESSED },
+      include: { witnesses: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!directive) {
+      return null;
+    }
+
+    return {
+      witnesses: directive.witnesses.map((w) => this.formatWitness(w)),
+      required: await this.getRequiredWitnesses(directive.originState),
+      signed: directive.witnesses.filter((w) => w.signedAt).length,
+      directiveStatus: directive.status,
+    };
+  }
+
+  /**
+   * Invita a un testigo por email y/o SMS
+   * La directiva pasa a PENDING_VALIDATION y su contenido queda congelado
+   */
+  async inviteWitness(userId: string, directiveId: string, input: InviteWitnessInput) {
+    const directive = await prisma.advanceDirective.findFirst({
+      where: {
+        id: directiveId,
+        userId,
+        type: DirectiveType.DIGITAL_WITNESSED,
+        status: { in: [DirectiveStatus.DRAFT, DirectiveStatus.PENDING_VALIDATION] },
+      },
+      include: {
+        witnesses: true,
+        user: { select: { name: true, curp: true } },
+      },
+    });
+
+    if (!directive) {
+      return null;
+    }
+
+    if (!input.email && !input.phone) {
+      throw { code: 'CONTACT_REQUIRED', message: 'Proporciona email o teléfono del testigo', status: 400 };
+    }
+
+    // Al congelar el contenido debe cumplir con los campos que exige el estado
+    if (directive.status === DirectiveStatus.DRAFT) {
+      const template = await legalTemplateService.getTemplate(directive.originState);
+      const missingFields = legalTemplateService.getMissingFields(template, directive);
+      if (missingFields.length > 0) {
+        throw {
+          code: 'TEMPLATE_FIELDS_MISSING',
+          message: `Faltan campos requeridos por tu estado: ${missingFields.map((f) => f.label).join(', ')}`,
+          status: 400,
+        };
+      }
+    }
+
+    if (directive.witnesses.length >= MAX_WITNESSES) {
+      throw { code: 'WITNESS_LIMIT', message: `Máximo ${MAX_WITNESSES} testigos por directiva`, status: 400 };
+    }
+
+    const curp = input.curp?.toUpperCase();
+    if (curp && curp === directive.user.curp.toUpperCase()) {
+      throw { code: 'INVALID_WITNESS', message: 'No puedes ser testigo de tu propia voluntad', status: 400 };
+    }
+
+    const duplicate = directive.witnesses.some((w) =>
+      (curp && w.curp === curp) ||
+      (input.email && w.email === input.email) ||
+      (input.phone && w.phone === input.phone)
+    );
+    if (duplicate) {
+      throw { code: 'DUPLICATE_WITNESS', message: 'Este testigo ya fue invitado', status: 409 };
+    }
+
+    const inviteToken = generateSecureToken(32);
+    const inviteExpires = new Date(Date.now() + INVITE_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+
+    const witness = await prisma.witness.create({
+      data: {
+        directiveId,
+        name: input.name.trim(),
+        curp,
+        email: input.email,
+        phone: input.phone,
+        inviteToken,
+        inviteExpires,
+        invitedAt: new Date(),
+      },
+    });
+
+    if (directive.status === DirectiveStatus.DRAFT) {
+      await prisma.advanceDirective.update({
+        where: { id: directiveId },
+        data: { status: DirectiveStatus.PENDING_VALIDATION, validationMethod: 'WITNESS' },
+      });
+    }
+
+    const delivery = await notificationService.sendWitnessInvitation({
+      witnessName: witness.name,
+      patientName: directive.user.name,
+      email: witness.email,
+      phone: witness.phone,
+      signUrl: this.buildSignUrl(inviteToken),
+      expiresAt: inviteExpires,
+      directiveId,
+    });
+
+    return { witness: this.formatWitness(witness), delivery };
+  }
+
+  /**
+   * Reenvía la invitación con un nuevo enlace (invalida el anterior)
+   */
+  async resendInvitation(userId: string, directiveId: string, witnessId: string) {
+    const witness = await prisma.witness.findFirst({
+      where: {
+        id: witnessId,
+        directiveId,
+        signedAt: null,
+        directive: { userId, status: DirectiveStatus.PENDING_VALIDATION },
+      },
+      include: { directive: { include: { user: { select: { name: true } } } } },
+    });
+
+    if (!witness) {
+      return null;
+    }
+
+    const inviteToken = generateSecureToken(32);
+    const inviteExpires = new Date(Date.now() + INVITE_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+
+    const updated = await prisma.witness.update({
+      where: { id: witnessId },
+      data: { inviteToken, inviteExpires, invitedAt: new Date() },
+    });
+
+    const delivery = await notificationService.sendWitnessInvitation({
+      witnessName: updated.name,
+      patientName: witness.directive.user.name,
+      email: updated.email,
+      phone: updated.phone,
+      signUrl: this.buildSignUrl(inviteToken),
+      expiresAt: inviteExpires,
+      directiveId,
+    });
+
+    return { witness: this.formatWitness(updated), delivery };
+  }
+
+  /**
+   * Elimina un testigo que aún no ha firmado
+   */
+  async removeWitness(userId: string, directiveId: string, witnessId: string): Promise<boolean> {
+    const witness = await prisma.witness.findFirst({
+      where: {
+        id: witnessId,
+        directiveId,
+        signedAt: null,
+        directive: {
+          userId,
+          status: { in: [DirectiveStatus.DRAFT, DirectiveStatus.PENDING_VALIDATION] },
+        },
+      },
+    });
+
+    if (!witness) {
+      return false;
+    }
+
+    await prisma.witness.delete({ where: { id: witnessId } });
+    return true;
+  }
+
+  /**
+   * Obtiene la invitación para el enlace público del testigo
+   * No expone información médica del paciente
+   */
+  async getInvitation(token: string) {
+    const witness = await this.findByToken(token);
+
+    const template = await legalTemplateService.getTemplate(witness.directive.originState);
+
+    return {
+      witnessName: witness.name,
+      curpRegistered: !!witness.curp,
+      patientName: witness.directive.user.name,
+      directiveCreatedAt: witness.directive.createdAt,
+      state: template?.stateName || witness.directive.originState,
+      lawName: template?.lawName || null,
+      inviteExpires: witness.inviteExpires,
+    };
+  }
+
+  /**
+   * Registra la firma del testigo tras confirmar su identidad
+   * Activa la directiva cuando se alcanzan las firmas requeridas por el estado
+   */
+  async signAsWitness(
+    token: string,
+    input: SignWitnessInput,
+    ipAddress?: string,
+    userAgent?: string
+  ) {
+    const witness = await this.findByToken(token);
+    const curp = input.curp.toUpperCase();
+
+    if (!CURP_REGEX.test(curp)) {
+      throw { code: 'INVALID_CURP', message: 'CURP inválido', status: 400 };
+    }
+
+    if (normalizeName(input.name) !== normalizeName(witness.name)) {
+      throw { code: 'IDENTITY_MISMATCH', message: 'El nombre no coincide con el de la invitación', status: 400 };
+    }
+
+    if (witness.curp && witness.curp !== curp) {
+      throw { code: 'IDENTITY_MISMATCH', message: 'El CURP no coincide con el de la invitación', status: 400 };
+    }
+
+    if (curp === witness.directive.user.curp.toUpperCase()) {
+      throw { code: 'INVALID_WITNESS', message: 'El titular no puede firmar como testigo', status: 400 };
+    }
+
+    const curpTaken = await prisma.witness.findFirst({
+      where: { directiveId: witness.directiveId, curp, id: { not: witness.id } },
+      select: { id: true },
+    });
+    if (curpTaken) {
+      throw { code: 'DUPLICATE_WITNESS', message: 'Este CURP ya está registrado como testigo', status: 409 };
+    }
+
+    if (input.signatureImage.length > MAX_SIGNATURE_LENGTH || !SIGNATURE_DATA_URL_REGEX.test(input.signatureImage)) {
+      throw { code: 'INVALID_SIGNATURE', message: 'Firma inválida', status: 400 };
+    }
+
+    const now = new Date();
+    await prisma.witness.update({
+      where: { id: witness.id },
+      data: {
+        curp,
+        identityConfirmedAt: now,
+        signatureImageUrl: input.signatureImage,
+        signedAt: now,
+        signatureIp: ipAddress,
+        signatureUserAgent: userAgent,
+        inviteToken: null,
+        inviteExpires: null,
+      },
+    });
+
+    await this.logAudit({ ...witness, curp }, 'DIRECTIVE_WITNESS_SIGNED', ipAddress, userAgent);
+
+    const activated = await this.activateIfComplete(witness.directiveId);
+
+    return {
+      signedAt: now,
+      directiveActivated: activated,
+    };
+  }
+
+  /**
+   * Activa la directiva si ya firmaron los testigos requeridos
+   */
+  private async activateIfComplete(directiveId: string): Promise<boolean> {
+    const directive = await prisma.advanceDirective.findUnique({
+      where: { id: directiveId },
+      include: { witnesses: { where: { signedAt: { not: null } }, select: { id: true } } },
+    });
+
+    if (!directive || directive.status !== DirectiveStatus.PENDING_VALIDATION) {
+      return false;
+    }
+
+    const required = await this.getRequiredWitnesses(directive.originState);
+    if (directive.witnesses.length < required) {
+      return false;
+    }
+
+    // Condición sobre el estado para no activar dos veces con firmas simultáneas
+    const validatedAt = new Date();
+    const result = await prisma.advanceDirective.updateMany({
+      where: { id: directiveId, status: DirectiveStatus.PENDING_VALIDATION },
+      data: {
+        status: DirectiveStatus.ACTIVE,
+        validatedAt,
+        validationMethod: 'WITNESS',
+        ...directivesService.buildExpirationData(validatedAt),
+        ...(await directivesService.buildVerificationData(directive)),
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Busca una invitación vigente por token
+   */
+  private async findByToken(token: string) {
+    const witness = await prisma.witness.findUnique({
+      where: { inviteToken: token },
+      include: {
+        directive: { include: { user: { select: { name: true, curp: true } } } },
+      },
+    });
+
+    if (!witness || witness.signedAt || witness.directive.status !== DirectiveStatus.PENDING_VALIDATION) {
+      throw { code: 'INVALID_INVITATION', message: 'Invitación inválida o ya utilizada', status: 404 };
+    }
+
+    if (!witness.inviteExpires || witness.inviteExpires < new Date()) {
+      throw { code: 'INVITATION_EXPIRED', message: 'La invitación ha expirado', status: 410 };
+    }
+
+    return witness;
+  }
+
+  private buildSignUrl(token: string): string {
+    return `${config.frontendUrl}/testigo/${token}`;
+  }
+
+  /**
+   * Registra la firma del testigo en auditoría
+   */
+  private async logAudit(
+    witness: Witness & { directive: { userId: string } },
+    action: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: witness.directive.userId,
+          actorType: 'WITNESS',
+          actorId: witness.id,
+          actorName: witness.name,
+          action,
+          resource: 'directives',
+          resourceId: witness.directiveId,
+          details: { curp: witness.curp },
+          ipAddress,
+          userAgent,
+        },
+      });
+    } catch (error) {
+      console.error('Error registrando auditoría de testigo:', error);
+    }
+  }
+
+  private formatWitness(witness: Witness): WitnessResponse {
+    let status: WitnessResponse['status'] = 'PENDING';
+    if (witness.signedAt) status = 'SIGNED';
+    else if (!witness.inviteExpires || witness.inviteExpires < new Date()) status = 'EXPIRED';
+
+    return {
+      id: witness.id,
+      name: witness.name,
+      curp: witness.curp,
+      email: witness.email,
+      phone: witness.phone,
+      status,
+      invitedAt: witness.invitedAt,
+      inviteExpires: witness.inviteExpires,
+      signedAt: witness.signedAt,
+    };
+  }
+}
+
+export const witnessService = new WitnessService();
+export default witnessService;
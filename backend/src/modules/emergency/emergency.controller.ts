@@ -1,23 +1,34 @@
 // src/modules/emergency/emergency.controller.ts
 import { Router, Request, Response } from 'express';
-import { body, param, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { emergencyService } from './emergency.service';
+import { offlineCardService } from './offline-card.service';
 import { authMiddleware, optionalAuthMiddleware } from '../../common/guards/auth.middleware';
+import { staffAuthMiddleware } from '../../common/guards/staff-auth.middleware';
+import { requireOAuthScope } from '../../common/guards/oauth.middleware';
+import { OAUTH_SCOPES } from '../oauth/oauth.service';
 
 const router = Router();
 
+// El QR escaneado o, si no se puede escanear, el código manual impreso debajo (XXXX-XXXX)
+const qrTokenOrShortCode = [
+  body('qrToken').if(body('shortCode').not().exists()).isUUID().withMessage('Token QR inválido'),
+  body('shortCode').optional().isString().isLength({ min: 8, max: 12 }).withMessage('Código manual inválido'),
+];
+
 /**
  * POST /api/v1/emergency/access
- * Inicia un acceso de emergencia (escaneo de QR)
+ * Inicia un acceso de emergencia (escaneo de QR o código manual)
  * NO requiere autenticación - es acceso público de emergencia
+ * La institución es texto libre sin verificar: no se vincula a MedicalInstitution
+ * (eso solo ocurre en /access/staff y /access/institution)
  */
 router.post('/access',
-  body('qrToken').isUUID().withMessage('Token QR inválido'),
+  ...qrTokenOrShortCode,
   body('accessorName').trim().notEmpty().withMessage('Nombre del profesional requerido'),
   body('accessorRole').trim().notEmpty().withMessage('Rol del profesional requerido'),
   body('accessorLicense').optional().isString(),
-  body('institutionId').optional().isUUID(),
-  body('institutionName').optional().isString(),
+  body('institutionName').optional().isString().isLength({ max: 200 }),
   body('latitude').optional().isFloat({ min: -90, max: 90 }),
   body('longitude').optional().isFloat({ min: -180, max: 180 }),
   body('locationName').optional().isString(),
@@ -30,10 +41,10 @@ router.post('/access',
       
       const { 
         qrToken, 
+        shortCode,
         accessorName, 
         accessorRole, 
         accessorLicense,
-        institutionId,
         institutionName,
         latitude,
         longitude,
@@ -42,10 +53,10 @@ router.post('/access',
       
       const result = await emergencyService.initiateEmergencyAccess({
         qrToken,
+        shortCode,
         accessorName,
         accessorRole,
         accessorLicense,
-        institutionId,
         institutionName,
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
@@ -59,7 +70,7 @@ router.post('/access',
           success: false,
           error: { 
             code: 'PATIENT_NOT_FOUND', 
-            message: 'No se encontró paciente con este código QR' 
+            message: 'No se encontró paciente con este código' 
           },
         });
       }
@@ -69,8 +80,171 @@ router.post('/access',
         message: 'Acceso de emergencia autorizado',
         data: result,
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error en acceso de emergencia:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/emergency/access/staff
+ * Inicia un acceso de emergencia con identidad verificada de personal médico
+ * Requiere token de staff - profesional e institución se toman del token
+ */
+router.post('/access/staff', staffAuthMiddleware,
+  ...qrTokenOrShortCode,
+  body('latitude').optional().isFloat({ min: -90, max: 90 }),
+  body('longitude').optional().isFloat({ min: -180, max: 180 }),
+  body('locationName').optional().isString(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const { qrToken, shortCode, latitude, longitude, locationName } = req.body;
+      
+      const result = await emergencyService.initiateAuthenticatedEmergencyAccess(req.staffId!, {
+        qrToken,
+        shortCode,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        latitude,
+        longitude,
+        locationName,
+      });
+      
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: { 
+            code: 'PATIENT_NOT_FOUND', 
+            message: 'No se encontró paciente con este código' 
+          },
+        });
+      }
+      
+      res.json({
+        success: true,
+        message: 'Acceso de emergencia autorizado',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error en acceso de emergencia de personal:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.message || 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/emergency/access/institution
+ * Inicia un acceso de emergencia desde un sistema hospitalario
+ * Requiere token OAuth2 (client_credentials) con scope emergency:read
+ */
+router.post('/access/institution', requireOAuthScope(OAUTH_SCOPES.EMERGENCY_READ),
+  ...qrTokenOrShortCode,
+  body('accessorName').trim().notEmpty().withMessage('Nombre del profesional requerido'),
+  body('accessorRole').trim().notEmpty().withMessage('Rol del profesional requerido'),
+  body('accessorLicense').optional().isString(),
+  body('latitude').optional().isFloat({ min: -90, max: 90 }),
+  body('longitude').optional().isFloat({ min: -180, max: 180 }),
+  body('locationName').optional().isString(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const {
+        qrToken,
+        shortCode,
+        accessorName,
+        accessorRole,
+        accessorLicense,
+        latitude,
+        longitude,
+        locationName,
+      } = req.body;
+      
+      const result = await emergencyService.initiateInstitutionEmergencyAccess(req.oauthClient!, {
+        qrToken,
+        shortCode,
+        accessorName,
+        accessorRole,
+        accessorLicense,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        latitude,
+        longitude,
+        locationName,
+      });
+      
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: { 
+            code: 'PATIENT_NOT_FOUND', 
+            message: 'No se encontró paciente con este código' 
+          },
+        });
+      }
+      
+      res.json({
+        success: true,
+        message: 'Acceso de emergencia autorizado',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error en acceso de emergencia institucional:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/emergency/institution/accesses
+ * Lista los accesos de emergencia realizados por la institución del token
+ * Requiere token OAuth2 con scope emergency:history
+ */
+router.get('/institution/accesses', requireOAuthScope(OAUTH_SCOPES.EMERGENCY_HISTORY),
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const accesses = await emergencyService.getInstitutionAccesses(req.oauthClient!.institutionId, limit);
+      
+      res.json({
+        success: true,
+        data: { accesses },
+      });
+    } catch (error) {
+      console.error('Error obteniendo accesos institucionales:', error);
       res.status(500).json({
         success: false,
         error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
@@ -122,6 +296,107 @@ router.get('/verify/:accessToken',
   }
 );
 
+/**
+ * POST /api/v1/emergency/check-drug
+ * Verifica un medicamento contra alergias y medicamentos del paciente antes de administrarlo
+ * Requiere el accessToken vigente del acceso de emergencia; cada consulta queda en auditoría
+ */
+router.post('/check-drug',
+  body('accessToken').isUUID().withMessage('Token de acceso inválido'),
+  body('drug').isString().trim().notEmpty().isLength({ max: 100 }).withMessage('Medicamento requerido'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const result = await emergencyService.checkDrugForAccess(req.body.accessToken, req.body.drug, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error verificando medicamento:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/emergency/offline/keys
+ * Llaves públicas (JWKS) para verificar tarjetas offline sin conexión
+ */
+router.get('/offline/keys', (_req: Request, res: Response) => {
+  try {
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.json({
+      success: true,
+      data: offlineCardService.getPublicJwks(),
+    });
+  } catch (error) {
+    console.error('Error obteniendo llaves de tarjeta offline:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+    });
+  }
+});
+
+/**
+ * POST /api/v1/emergency/offline/sync
+ * Sincroniza los accesos hechos con la tarjeta offline cuando el dispositivo recupera la red
+ * NO requiere autenticación - cada entrada debe traer una tarjeta con firma válida
+ * Limitado por IP (solicitudes y entradas) y por tarjeta (accesos registrados)
+ */
+router.post('/offline/sync',
+  body('entries').isArray({ min: 1, max: 50 }),
+  body('entries.*.id').isUUID(),
+  body('entries.*.card').isString().isLength({ max: 2000 }),
+  body('entries.*.accessorName').trim().notEmpty().isLength({ max: 200 }),
+  body('entries.*.accessorRole').trim().notEmpty().isLength({ max: 50 }),
+  body('entries.*.scannedAt').isISO8601(),
+  body('entries.*.latitude').optional().isFloat({ min: -90, max: 90 }),
+  body('entries.*.longitude').optional().isFloat({ min: -180, max: 180 }),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const result = await offlineCardService.syncOfflineAccesses(req.body.entries, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error sincronizando accesos offline:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
 /**
  * GET /api/v1/emergency/history
  * Obtiene el historial de accesos de emergencia del usuario autenticado
@@ -137,6 +412,8 @@ router.get('/history', authMiddleware, async (req: Request, res: Response) => {
           id: access.id,
           accessorName: access.accessorName,
           accessorRole: access.accessorRole,
+          accessorVerified: access.accessorVerified,
+          accessMethod: access.accessMethod,
           institutionName: access.institutionName,
           locationName: access.locationName,
           accessedAt: access.accessedAt,
@@ -1,17 +1,28 @@
 // src/modules/emergency/emergency.service.ts
 import { PrismaClient, EmergencyAccess } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
-import { pupService } from '../pup/pup.service';
+import { pupService, EmergencyField, EmergencyVisibility } from '../pup/pup.service';
+import { qrTokenService, QrTokenSummary } from '../pup/qr-token.service';
+import { shortCodeGuardService } from './short-code-guard.service';
+import { scanAnomalyService } from './scan-anomaly.service';
+import { normalizeShortCode } from '../../common/utils/short-code';
 import { directivesService } from '../directives/directives.service';
 import { notificationService } from '../notification/notification.service';
 import { hospitalService } from '../hospital/hospital.service';
+import { drugInteractionsService, DrugCheckResult } from '../catalog/drug-interactions.service';
+import type { AllergyEntry, ClinicalWarning, ConditionEntry, MedicationEntry } from '../catalog/catalog.types';
 import { io } from '../../main';
 
 const prisma = new PrismaClient();
 
 // Tipos
 interface EmergencyAccessInput {
-  qrToken: string;
+  // Uno de los dos: el valor del QR escaneado o el código manual dictado
+  qrToken?: string;
+  shortCode?: string;
+  accessorId?: string;
+  accessorVerified?: boolean;
+  accessMethod?: 'MANUAL' | 'STAFF_TOKEN' | 'OAUTH_CLIENT';
   accessorName: string;
   accessorRole: string;
   accessorLicense?: string;
@@ -24,21 +35,44 @@ interface EmergencyAccessInput {
   locationName?: string;
 }
 
+type StaffEmergencyAccessInput = Omit<
+  EmergencyAccessInput,
+  'accessorId' | 'accessorVerified' | 'accessMethod' | 'accessorName' | 'accessorRole' | 'accessorLicense' | 'institutionId' | 'institutionName'
+>;
+
+type InstitutionEmergencyAccessInput = Omit<
+  EmergencyAccessInput,
+  'accessorId' | 'accessorVerified' | 'accessMethod' | 'institutionId' | 'institutionName'
+>;
+
+// Nivel de divulgación según cómo se autenticó quien accede
+type DisclosureTier = 'PUBLIC' | 'VERIFIED';
+
+// Campos del perfil contra los que se verifica un medicamento
+const DRUG_CHECK_FIELDS: EmergencyField[] = ['allergies', 'medications'];
+
+interface DrugCheckResponse extends DrugCheckResult {
+  checkedAgainst: EmergencyField[];
+  withheld: EmergencyField[];
+}
+
 interface EmergencyDataResponse {
   accessToken: string;
   expiresAt: Date;
   patient: {
-    name: string;
+    name: string | null;
     dateOfBirth: Date | null;
     sex: string | null;
     photoUrl: string | null;
   };
   medicalInfo: {
     bloodType: string | null;
-    allergies: string[];
-    conditions: string[];
-    medications: string[];
+    allergies: AllergyEntry[];
+    conditions: ConditionEntry[];
+    medications: MedicationEntry[];
   };
+  // Interacciones calculadas solo con los datos divulgados
+  warnings: ClinicalWarning[];
   directive: {
     hasActiveDirective: boolean;
     acceptsCPR: boolean | null;
@@ -48,7 +82,7 @@ interface EmergencyDataResponse {
     validatedAt: Date | null;
   };
   donation: {
-    isDonor: boolean;
+    isDonor: boolean | null;
   };
   representatives: {
     name: string;
@@ -56,6 +90,17 @@ interface EmergencyDataResponse {
     relation: string;
     priority: number;
   }[];
+  accessor: {
+    name: string;
+    role: string;
+    institutionName: string | null;
+    verified: boolean;
+  };
+  disclosure: {
+    tier: DisclosureTier;
+    disclosed: EmergencyField[];
+    withheld: EmergencyField[];
+  };
 }
 
 class EmergencyService {
@@ -63,27 +108,78 @@ class EmergencyService {
    * Inicia un acceso de emergencia escaneando el QR
    */
   async initiateEmergencyAccess(input: EmergencyAccessInput): Promise<EmergencyDataResponse | null> {
+    // El código manual se traduce al QR token que representa
+    const qrToken = input.shortCode
+      ? await this.resolveShortCode(input.shortCode, input.ipAddress)
+      : input.qrToken;
+    
+    if (!qrToken) {
+      return null;
+    }
+    
+    // Determinar qué campos se pueden divulgar
+    const tier: DisclosureTier = input.accessMethod === 'STAFF_TOKEN' || input.accessMethod === 'OAUTH_CLIENT'
+      ? 'VERIFIED'
+      : 'PUBLIC';
+    
+    // Solo un acceso verificado se vincula a la institución; en el público es texto libre
+    const institutionId = tier === 'VERIFIED' ? input.institutionId : undefined;
+    
+    // Los escaneos públicos del QR pasan por la detección de tokens probados al azar
+    // (el código manual tiene sus propios límites)
+    const screenScan = tier === 'PUBLIC' && !input.shortCode;
+    if (screenScan) {
+      scanAnomalyService.assertNotProbing(input.ipAddress);
+    }
+    
+    const token = await qrTokenService.findActiveToken(qrToken);
+    
+    if (!token) {
+      if (screenScan) scanAnomalyService.recordInvalidToken(input.ipAddress);
+      return null;
+    }
+    
+    // Un código suspendido por abuso solo lo abre el personal verificado
+    if (token.suspendedAt && tier === 'PUBLIC') {
+      throw {
+        code: 'QR_TOKEN_SUSPENDED',
+        message: 'Este código está suspendido por actividad sospechosa. El personal médico puede consultarlo iniciando sesión con su cuenta.',
+        status: 423,
+      };
+    }
+    
     // Buscar el perfil por QR token
-    const profileData = await pupService.getProfileByQRToken(input.qrToken);
+    const profileData = await pupService.getProfileByQRToken(qrToken);
     
     if (!profileData) {
       return null;
     }
     
+    if (input.shortCode) {
+      await shortCodeGuardService.recordUse(qrToken, profileData.userId, input.ipAddress);
+    }
+    
+    const { disclosed, withheld } = this.resolveDisclosure(profileData.emergencyVisibility, tier);
+    const can = (field: EmergencyField) => disclosed.includes(field);
+    
     // Obtener directivas activas
-    const directiveData = await directivesService.getDirectivesForEmergency(profileData.userId);
+    const directiveData = can('cpr') || can('directive')
+      ? await directivesService.getDirectivesForEmergency(profileData.userId)
+      : null;
     
     // Obtener representantes
-    const representatives = await prisma.representative.findMany({
-      where: { userId: profileData.userId },
-      orderBy: { priority: 'asc' },
-      select: {
-        name: true,
-        phone: true,
-        relation: true,
-        priority: true,
-      },
-    });
+    const representatives = can('representatives')
+      ? await prisma.representative.findMany({
+          where: { userId: profileData.userId },
+          orderBy: { priority: 'asc' },
+          select: {
+            name: true,
+            phone: true,
+            relation: true,
+            priority: true,
+          },
+        })
+      : [];
     
     // Crear token de acceso temporal (60 minutos)
     const accessToken = uuidv4();
@@ -93,36 +189,56 @@ class EmergencyService {
     const emergencyAccess = await prisma.emergencyAccess.create({
       data: {
         patientId: profileData.userId,
+        accessorId: input.accessorId,
+        accessorVerified: input.accessorVerified ?? false,
+        accessMethod: input.accessMethod || 'MANUAL',
         accessorName: input.accessorName,
         accessorRole: input.accessorRole,
         accessorLicense: input.accessorLicense,
-        institutionId: input.institutionId,
+        institutionId,
         institutionName: input.institutionName,
-        qrTokenUsed: input.qrToken,
+        qrTokenUsed: qrToken,
         ipAddress: input.ipAddress,
         userAgent: input.userAgent,
         latitude: input.latitude,
         longitude: input.longitude,
         locationName: input.locationName,
-        dataAccessed: ['profile', 'allergies', 'conditions', 'medications', 'directives', 'representatives'],
+        dataAccessed: disclosed,
         accessToken,
         expiresAt,
       },
     });
     
+    // Último escaneo del objeto físico (tarjeta, pulsera, etc.)
+    await qrTokenService.recordScan(qrToken);
+    
+    // Ráfagas, muchas IPs o ubicaciones imposibles suspenden el código (no bloquea la respuesta)
+    scanAnomalyService.inspectScan(token, emergencyAccess)
+      .catch((error) => console.error('Error revisando escaneos del QR:', error));
+    
     // Registrar en auditoría
     await prisma.auditLog.create({
       data: {
         userId: profileData.userId,
-        actorType: 'STAFF',
+        actorType: input.accessMethod === 'OAUTH_CLIENT' ? 'INSTITUTION' : 'STAFF',
+        actorId: input.accessMethod === 'OAUTH_CLIENT' ? input.institutionId : input.accessorId,
         actorName: input.accessorName,
         action: 'EMERGENCY_ACCESS',
         resource: 'patient_data',
         resourceId: profileData.userId,
         details: {
+          emergencyAccessId: emergencyAccess.id,
+          verified: input.accessorVerified ?? false,
+          accessMethod: input.accessMethod || 'MANUAL',
+          entry: input.shortCode ? 'SHORT_CODE' : 'QR_SCAN',
           accessorRole: input.accessorRole,
+          accessorLicense: input.accessorLicense,
+          institutionId,
           institutionName: input.institutionName,
           location: input.locationName,
+          disclosureTier: tier,
+          dataAccessed: disclosed,
+          dataWithheld: withheld,
         },
         ipAddress: input.ipAddress,
         userAgent: input.userAgent,
@@ -136,36 +252,185 @@ class EmergencyService {
       name: input.locationName,
     });
     
+    const directive = directiveData || {
+      hasActiveDirective: false,
+      acceptsCPR: null,
+      acceptsIntubation: null,
+      additionalNotes: null,
+      documentUrl: null,
+      validatedAt: null,
+    };
+    
+    const medicalInfo = {
+      bloodType: can('bloodType') ? profileData.bloodType : null,
+      allergies: can('allergies') ? profileData.allergies : [],
+      conditions: can('conditions') ? profileData.conditions : [],
+      medications: can('medications') ? profileData.medications : [],
+    };
+    
     return {
       accessToken,
       expiresAt,
       patient: {
-        name: profileData.name,
-        dateOfBirth: profileData.dateOfBirth,
-        sex: profileData.sex,
-        photoUrl: profileData.photoUrl,
-      },
-      medicalInfo: {
-        bloodType: profileData.bloodType,
-        allergies: profileData.allergies,
-        conditions: profileData.conditions,
-        medications: profileData.medications,
+        name: can('identity') ? profileData.name : null,
+        dateOfBirth: can('identity') ? profileData.dateOfBirth : null,
+        sex: can('identity') ? profileData.sex : null,
+        photoUrl: can('identity') ? profileData.photoUrl : null,
       },
-      directive: directiveData || {
-        hasActiveDirective: false,
-        acceptsCPR: null,
-        acceptsIntubation: null,
-        additionalNotes: null,
-        documentUrl: null,
-        validatedAt: null,
+      medicalInfo,
+      warnings: drugInteractionsService.checkProfile(medicalInfo),
+      directive: {
+        hasActiveDirective: directive.hasActiveDirective,
+        acceptsCPR: can('cpr') ? directive.acceptsCPR : null,
+        acceptsIntubation: can('directive') ? directive.acceptsIntubation : null,
+        additionalNotes: can('directive') ? directive.additionalNotes : null,
+        documentUrl: can('directive') ? directive.documentUrl : null,
+        validatedAt: directive.validatedAt,
       },
       donation: {
-        isDonor: profileData.isDonor,
+        isDonor: can('donation') ? profileData.isDonor : null,
       },
       representatives,
+      accessor: {
+        name: input.accessorName,
+        role: input.accessorRole,
+        institutionName: input.institutionName || null,
+        verified: input.accessorVerified ?? false,
+      },
+      disclosure: {
+        tier,
+        disclosed,
+        withheld,
+      },
     };
   }
   
+  /**
+   * Busca el QR token vigente de un código manual aplicando los límites contra fuerza bruta
+   * Un código mal escrito (dígito verificador) se rechaza sin contar como intento
+   */
+  private async resolveShortCode(input: string, ipAddress?: string): Promise<string | null> {
+    const shortCode = normalizeShortCode(input);
+    
+    if (!shortCode) {
+      throw {
+        code: 'INVALID_SHORT_CODE',
+        message: 'El código no es válido. Revise que esté bien escrito.',
+        status: 400,
+      };
+    }
+    
+    shortCodeGuardService.assertCanAttempt(ipAddress);
+    
+    const token = await prisma.qrToken.findFirst({
+      where: { shortCode, revokedAt: null },
+      select: { token: true },
+    });
+    
+    if (!token) {
+      shortCodeGuardService.recordFailure(ipAddress);
+      return null;
+    }
+    
+    return token.token;
+  }
+  
+  /**
+   * Calcula qué campos se divulgan según la visibilidad elegida por el paciente
+   * y el nivel de quien accede
+   */
+  private resolveDisclosure(
+    visibility: EmergencyVisibility,
+    tier: DisclosureTier
+  ): { disclosed: EmergencyField[]; withheld: EmergencyField[] } {
+    const disclosed: EmergencyField[] = [];
+    const withheld: EmergencyField[] = [];
+    
+    for (const [field, level] of Object.entries(visibility) as [EmergencyField, string][]) {
+      if (level === 'PUBLIC' || (level === 'VERIFIED' && tier === 'VERIFIED')) {
+        disclosed.push(field);
+      } else {
+        withheld.push(field);
+      }
+    }
+    
+    return { disclosed, withheld };
+  }
+  
+  /**
+   * Inicia un acceso de emergencia con identidad verificada de personal médico
+   * Los datos del profesional y la institución se toman del token de staff,
+   * no de lo que se captura en el formulario
+   */
+  async initiateAuthenticatedEmergencyAccess(
+    staffId: string,
+    input: StaffEmergencyAccessInput
+  ): Promise<EmergencyDataResponse | null> {
+    const staff = await prisma.medicalStaff.findUnique({
+      where: { id: staffId },
+      include: {
+        institution: {
+          select: { id: true, name: true, isActive: true },
+        },
+      },
+    });
+    
+    if (!staff || !staff.isActive || !staff.institution.isActive) {
+      throw { code: 'STAFF_INACTIVE', message: 'Cuenta de personal desactivada', status: 403 };
+    }
+    
+    return this.initiateEmergencyAccess({
+      ...input,
+      accessorId: staff.id,
+      accessorVerified: true,
+      accessMethod: 'STAFF_TOKEN',
+      accessorName: staff.name,
+      accessorRole: staff.role,
+      accessorLicense: staff.license || undefined,
+      institutionId: staff.institution.id,
+      institutionName: staff.institution.name,
+    });
+  }
+  
+  /**
+   * Inicia un acceso de emergencia desde un sistema hospitalario (OAuth2 client_credentials)
+   * La institución queda verificada por sus credenciales; el profesional lo reporta el sistema
+   */
+  async initiateInstitutionEmergencyAccess(
+    institution: { institutionId: string; institutionName: string; clientId: string },
+    input: InstitutionEmergencyAccessInput
+  ): Promise<EmergencyDataResponse | null> {
+    return this.initiateEmergencyAccess({
+      ...input,
+      accessorVerified: false,
+      accessMethod: 'OAUTH_CLIENT',
+      institutionId: institution.institutionId,
+      institutionName: institution.institutionName,
+    });
+  }
+  
+  /**
+   * Obtiene los accesos de emergencia realizados por una institución
+   */
+  async getInstitutionAccesses(institutionId: string, limit: number = 50) {
+    return prisma.emergencyAccess.findMany({
+      where: { institutionId },
+      orderBy: { accessedAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        accessorName: true,
+        accessorRole: true,
+        accessorLicense: true,
+        accessMethod: true,
+        locationName: true,
+        accessedAt: true,
+        expiresAt: true,
+        dataAccessed: true,
+      },
+    });
+  }
+  
   /**
    * Verifica si un token de acceso de emergencia es válido
    */
@@ -182,21 +447,86 @@ class EmergencyService {
   }
   
   /**
-   * Obtiene el historial de accesos de emergencia del paciente
+   * Verifica un medicamento antes de administrarlo, dentro de un acceso de emergencia vigente
+   * Solo se compara contra los campos que se divulgaron en ese acceso
    */
-  async getAccessHistory(userId: string): Promise<EmergencyAccess[]> {
-    return await prisma.emergencyAccess.findMany({
-      where: { patientId: userId },
-      orderBy: { accessedAt: 'desc' },
-      include: {
-        institution: {
-          select: {
-            name: true,
-            type: true,
-          },
+  async checkDrugForAccess(
+    accessToken: string,
+    drug: string,
+    meta?: { ipAddress?: string; userAgent?: string }
+  ): Promise<DrugCheckResponse> {
+    const access = await this.verifyAccessToken(accessToken);
+    if (!access) {
+      throw { code: 'INVALID_TOKEN', message: 'Token de acceso inválido o expirado', status: 401 };
+    }
+    
+    const profile = await pupService.getProfile(access.patientId);
+    if (!profile) {
+      throw { code: 'PATIENT_NOT_FOUND', message: 'Perfil no encontrado', status: 404 };
+    }
+    
+    const checkedAgainst = DRUG_CHECK_FIELDS.filter((field) => access.dataAccessed.includes(field));
+    const withheld = DRUG_CHECK_FIELDS.filter((field) => !checkedAgainst.includes(field));
+    
+    const result = drugInteractionsService.checkDrug(drug, {
+      allergies: checkedAgainst.includes('allergies') ? profile.allergies : [],
+      medications: checkedAgainst.includes('medications') ? profile.medications : [],
+    });
+    
+    await prisma.auditLog.create({
+      data: {
+        userId: access.patientId,
+        actorType: access.accessMethod === 'OAUTH_CLIENT' ? 'INSTITUTION' : 'STAFF',
+        actorId: access.accessMethod === 'OAUTH_CLIENT' ? access.institutionId : access.accessorId,
+        actorName: access.accessorName,
+        action: 'EMERGENCY_DRUG_CHECK',
+        resource: 'patient_data',
+        resourceId: access.patientId,
+        details: {
+          emergencyAccessId: access.id,
+          drug: result.drug.name,
+          drugCode: result.drug.code,
+          recognized: result.recognized,
+          checkedAgainst,
+          warnings: result.warnings.map((warning) => ({
+            type: warning.type,
+            severity: warning.severity,
+            conflictsWith: warning.conflictsWith,
+          })),
         },
+        ipAddress: meta?.ipAddress,
+        userAgent: meta?.userAgent,
       },
     });
+    
+    return { ...result, checkedAgainst, withheld };
+  }
+  
+  /**
+   * Obtiene el historial de accesos de emergencia del paciente, con el código escaneado
+   */
+  async getAccessHistory(userId: string): Promise<(EmergencyAccess & { qrToken: QrTokenSummary | null })[]> {
+    const [accesses, tokens] = await Promise.all([
+      prisma.emergencyAccess.findMany({
+        where: { patientId: userId },
+        orderBy: { accessedAt: 'desc' },
+        include: {
+          institution: {
+            select: {
+              name: true,
+              type: true,
+            },
+          },
+        },
+      }),
+      qrTokenService.getSummariesByToken(userId),
+    ]);
+    
+    // Qué objeto físico se escaneó (tarjeta, pulsera, casco...)
+    return accesses.map((access) => ({
+      ...access,
+      qrToken: tokens.get(access.qrTokenUsed) || null,
+    }));
   }
   
   /**
@@ -254,9 +584,10 @@ class EmergencyService {
       return;
     }
 
-    // Obtener condiciones del paciente (descifradas)
-    const patientProfile = await pupService.getProfileByUserId(userId);
-    const patientConditions = patientProfile?.conditions || [];
+    // Obtener condiciones del paciente (descifradas); se busca por código CIE-10 cuando existe
+    const patientProfile = await pupService.getProfile(userId);
+    const conditionEntries = patientProfile?.conditions || [];
+    const patientConditions = conditionEntries.map((condition) => condition.name);
 
     // Buscar hospitales cercanos usando filtro inteligente
     let nearestHospital: string | undefined;
@@ -268,7 +599,7 @@ class EmergencyService {
         const hospitals = await hospitalService.findNearbyHospitalsForConditions({
           latitude: location.lat,
           longitude: location.lng,
-          patientConditions,
+          patientConditions: conditionEntries.map((condition) => condition.code || condition.name),
           limit: 5,
           radiusKm: 20,
           prioritizeByCondition: true,
@@ -0,0 +1,403 @@
+// src/modules/emergency/offline-card.service.ts
+import { PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { pupService, EmergencyField } from '../pup/pup.service';
+import { qrTokenService } from '../pup/qr-token.service';
+import { directivesService } from '../directives/directives.service';
+import { generateOfflineCardQR } from '../../common/utils/qr-generator';
+import config from '../../config';
+
+const prisma = new PrismaClient();
+
+/**
+ * Resumen firmado de la tarjeta offline (claves cortas para que quepa en el QR)
+ * Solo se incluyen los campos que el paciente tiene como PUBLIC, porque cualquiera
+ * que lea el QR puede decodificarlo aunque no pueda alterarlo.
+ */
+export interface OfflineCardClaims {
+  v: 1;
+  t: string;            // QrToken.token, para asociar el acceso al sincronizar
+  n?: string;           // Nombre (identity)
+  bt?: string;          // Tipo de sangre (bloodType)
+  al?: string[];        // Alergias principales (allergies)
+  cpr?: boolean | null; // Decisión de RCP de la directiva activa (cpr)
+  ph?: string;          // Teléfono de emergencia (representatives)
+  iat: number;
+  exp: number;
+}
+
+export interface OfflineAccessEntry {
+  id: string;           // UUID generado en el dispositivo (idempotencia)
+  card: string;         // JWS escaneado
+  accessorName: string;
+  accessorRole: string;
+  scannedAt: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+interface PublicJwk extends crypto.JsonWebKey {
+  kid: string;
+  alg: 'ES256';
+  use: 'sig';
+}
+
+// Campo del perfil que representa cada claim (para registrar qué se mostró)
+const CLAIM_FIELDS: [keyof OfflineCardClaims, EmergencyField][] = [
+  ['n', 'identity'],
+  ['bt', 'bloodType'],
+  ['al', 'allergies'],
+  ['cpr', 'cpr'],
+  ['ph', 'representatives'],
+];
+
+const SEVERITY_ORDER = ['SEVERE', 'MODERATE', 'MILD', null];
+const SEVERITY_SUFFIX: Record<string, string> = { SEVERE: ' (grave)' };
+
+// Tolerancia de reloj entre el dispositivo del paramédico y el servidor
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const base64url = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+
+const SYNC_WINDOW_MS = config.offlineCard.syncWindowMinutes * 60 * 1000;
+
+// Entradas recibidas por IP y accesos registrados por tarjeta dentro de la ventana (en memoria, por instancia)
+const syncEntriesByIp = new Map<string, number[]>();
+const syncAccessesByCard = new Map<string, number[]>();
+
+function recentSync(timestamps: number[] | undefined, now: number): number[] {
+  return (timestamps || []).filter((t) => now - t < SYNC_WINDOW_MS);
+}
+
+function pruneSync(counters: Map<string, number[]>, now: number): void {
+  for (const [key, timestamps] of counters) {
+    if (recentSync(timestamps, now).length === 0) counters.delete(key);
+  }
+}
+
+class OfflineCardService {
+  private signingKey: crypto.KeyObject | null = null;
+  private publicKeys: Map<string, { key: crypto.KeyObject; jwk: PublicJwk }> | null = null;
+
+  /**
+   * JWKS con la llave vigente y las anteriores, para verificar sin conexión
+   */
+  getPublicJwks(): { keys: PublicJwk[] } {
+    return { keys: [...this.getPublicKeys().values()].map(({ jwk }) => jwk) };
+  }
+
+  /**
+   * Emite la tarjeta offline de uno de los códigos del paciente: JWS compacto (ES256) y su QR
+   */
+  async issueCard(userId: string, tokenId: string): Promise<{
+    token: string;
+    cardUrl: string;
+    qrDataUrl: string;
+    claims: OfflineCardClaims;
+    keyId: string;
+    expiresAt: Date;
+  }> {
+    const [profile, user, qrToken] = await Promise.all([
+      pupService.getProfile(userId),
+      prisma.user.findUnique({ where: { id: userId }, select: { name: true } }),
+      prisma.qrToken.findFirst({ where: { id: tokenId, userId, revokedAt: null } }),
+    ]);
+
+    if (!profile || !user) {
+      throw { code: 'PROFILE_NOT_FOUND', message: 'Perfil no encontrado', status: 404 };
+    }
+
+    if (!qrToken) {
+      throw { code: 'QR_TOKEN_NOT_FOUND', message: 'Código QR no encontrado o revocado', status: 404 };
+    }
+
+    const isPublic = (field: EmergencyField) => profile.emergencyVisibility[field] === 'PUBLIC';
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const claims: OfflineCardClaims = {
+      v: 1,
+      t: qrToken.token,
+      iat: issuedAt,
+      exp: issuedAt + config.offlineCard.validityDays * 24 * 60 * 60,
+    };
+
+    if (isPublic('identity')) claims.n = user.name;
+    if (isPublic('bloodType') && profile.bloodType) claims.bt = profile.bloodType;
+
+    if (isPublic('allergies') && profile.allergies.length > 0) {
+      claims.al = [...profile.allergies]
+        .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+        .slice(0, config.offlineCard.maxAllergies)
+        .map((allergy) => `${allergy.name}${SEVERITY_SUFFIX[allergy.severity || ''] || ''}`);
+    }
+
+    if (isPublic('cpr')) {
+      const directive = await directivesService.getDirectivesForEmergency(userId);
+      if (directive?.hasActiveDirective) claims.cpr = directive.acceptsCPR;
+    }
+
+    if (isPublic('representatives')) {
+      const representative = await prisma.representative.findFirst({
+        where: { userId, status: { not: 'DECLINED' } },
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+        select: { phone: true },
+      });
+      if (representative) claims.ph = representative.phone;
+    }
+
+    const token = this.sign(claims);
+    const qr = await generateOfflineCardQR(token);
+
+    return {
+      token,
+      cardUrl: qr.cardUrl,
+      qrDataUrl: qr.qrDataUrl,
+      claims,
+      keyId: config.offlineCard.keyId,
+      expiresAt: new Date(claims.exp * 1000),
+    };
+  }
+
+  /**
+   * Verifica firma y formato de una tarjeta; no revisa vigencia (depende del momento del escaneo)
+   */
+  verifyCard(token: string): { claims: OfflineCardClaims; keyId: string } | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    try {
+      const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+      const entry = header?.alg === 'ES256' ? this.getPublicKeys().get(header.kid) : undefined;
+      if (!entry) return null;
+
+      const valid = crypto.verify(
+        'sha256',
+        Buffer.from(`${parts[0]}.${parts[1]}`),
+        { key: entry.key, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(parts[2], 'base64url')
+      );
+      if (!valid) return null;
+
+      const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')) as OfflineCardClaims;
+      if (claims?.v !== 1 || typeof claims.t !== 'string' || typeof claims.exp !== 'number') return null;
+
+      return { claims, keyId: header.kid };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Registra los accesos hechos sin conexión una vez que el dispositivo recupera la red
+   * Es idempotente: el id del dispositivo se guarda como accessToken (ya expirado)
+   */
+  async syncOfflineAccesses(
+    entries: OfflineAccessEntry[],
+    meta?: { ipAddress?: string; userAgent?: string }
+  ): Promise<{ synced: string[]; rejected: { id: string; reason: string }[] }> {
+    const synced: string[] = [];
+    const rejected: { id: string; reason: string }[] = [];
+    const now = Date.now();
+    const maxAgeMs = config.offlineCard.syncMaxAgeDays * 24 * 60 * 60 * 1000;
+
+    this.assertSyncQuota(meta?.ipAddress, entries.length, now);
+
+    for (const entry of entries) {
+      const verified = this.verifyCard(entry.card);
+      if (!verified) {
+        rejected.push({ id: entry.id, reason: 'Firma de tarjeta inválida' });
+        continue;
+      }
+
+      const { claims, keyId } = verified;
+      const scannedAt = new Date(entry.scannedAt);
+      const scannedMs = scannedAt.getTime();
+
+      if (
+        Number.isNaN(scannedMs)
+        || scannedMs > now + CLOCK_SKEW_MS
+        || scannedMs < now - maxAgeMs
+        || scannedMs < claims.iat * 1000 - CLOCK_SKEW_MS
+        || scannedMs > claims.exp * 1000 + CLOCK_SKEW_MS
+      ) {
+        rejected.push({ id: entry.id, reason: 'Fecha de escaneo fuera de la vigencia permitida' });
+        continue;
+      }
+
+      const existing = await prisma.emergencyAccess.findUnique({
+        where: { accessToken: entry.id },
+        select: { id: true },
+      });
+      if (existing) {
+        synced.push(entry.id);
+        continue;
+      }
+
+      // Una tarjeta copiada no debe poder llenar el historial del paciente
+      const cardAccesses = recentSync(syncAccessesByCard.get(claims.t), now);
+      if (cardAccesses.length >= config.offlineCard.syncMaxEntriesPerCard) {
+        rejected.push({ id: entry.id, reason: 'Demasiados accesos sincronizados con esta tarjeta' });
+        continue;
+      }
+
+      // Un escaneo anterior a la revocación del código todavía se registra
+      const qrToken = await prisma.qrToken.findUnique({
+        where: { token: claims.t },
+        select: { userId: true, revokedAt: true },
+      });
+      if (!qrToken || (qrToken.revokedAt && qrToken.revokedAt < scannedAt)) {
+        rejected.push({ id: entry.id, reason: 'El paciente revocó este código' });
+        continue;
+      }
+
+      const dataAccessed = CLAIM_FIELDS
+        .filter(([claim]) => claims[claim] !== undefined)
+        .map(([, field]) => field);
+
+      const access = await prisma.emergencyAccess.create({
+        data: {
+          patientId: qrToken.userId,
+          accessorVerified: false,
+          accessMethod: 'OFFLINE_CARD',
+          accessorName: entry.accessorName,
+          accessorRole: entry.accessorRole,
+          qrTokenUsed: claims.t,
+          ipAddress: meta?.ipAddress,
+          userAgent: meta?.userAgent,
+          latitude: entry.latitude,
+          longitude: entry.longitude,
+          dataAccessed,
+          accessToken: entry.id,
+          accessedAt: scannedAt,
+          expiresAt: scannedAt,
+        },
+      });
+
+      syncAccessesByCard.set(claims.t, [...cardAccesses, now]);
+      await qrTokenService.recordScan(claims.t, scannedAt);
+
+      try {
+        await prisma.auditLog.create({
+          data: {
+            userId: qrToken.userId,
+            actorType: 'STAFF',
+            actorName: entry.accessorName,
+            action: 'EMERGENCY_ACCESS_OFFLINE',
+            resource: 'patient_data',
+            resourceId: qrToken.userId,
+            details: {
+              emergencyAccessId: access.id,
+              accessorRole: entry.accessorRole,
+              scannedAt: scannedAt.toISOString(),
+              keyId,
+              cardIssuedAt: new Date(claims.iat * 1000).toISOString(),
+              dataAccessed,
+            },
+            ipAddress: meta?.ipAddress,
+            userAgent: meta?.userAgent,
+          },
+        });
+      } catch (error) {
+        console.error('Error registrando auditoría de acceso offline:', error);
+      }
+
+      synced.push(entry.id);
+    }
+
+    return { synced, rejected };
+  }
+
+  /**
+   * Límite de entradas por IP en la ventana; lanza 429 sin procesar el lote
+   * (el dispositivo conserva su cola y reintenta después)
+   */
+  private assertSyncQuota(ipAddress: string | undefined, count: number, now: number): void {
+    const key = ipAddress || 'unknown';
+    pruneSync(syncEntriesByIp, now);
+    pruneSync(syncAccessesByCard, now);
+
+    const received = recentSync(syncEntriesByIp.get(key), now);
+    if (received.length + count > config.offlineCard.syncMaxEntriesPerIp) {
+      throw {
+        code: 'OFFLINE_SYNC_RATE_LIMIT',
+        message: `Demasiados accesos por sincronizar. Espere ${config.offlineCard.syncWindowMinutes} minutos.`,
+        status: 429,
+      };
+    }
+
+    syncEntriesByIp.set(key, [...received, ...Array(count).fill(now)]);
+  }
+
+  private sign(claims: OfflineCardClaims): string {
+    const header = { alg: 'ES256', kid: config.offlineCard.keyId, typ: 'JWT' };
+    const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+    const signature = crypto.sign('sha256', Buffer.from(signingInput), {
+      key: this.getSigningKey(),
+      dsaEncoding: 'ieee-p1363',
+    });
+
+    return `${signingInput}.${base64url(signature)}`;
+  }
+
+  /**
+   * Se llama al iniciar el servidor: en producción la llave es obligatoria, porque con una
+   * efímera cada reinicio invalidaría todas las tarjetas ya impresas
+   */
+  assertSigningKeyConfigured(): void {
+    if (!config.offlineCard.privateKey && config.env === 'production') {
+      throw new Error('OFFLINE_CARD_PRIVATE_KEY es obligatoria en producción');
+    }
+    this.getSigningKey();
+  }
+
+  private getSigningKey(): crypto.KeyObject {
+    if (!this.signingKey) {
+      if (config.offlineCard.privateKey) {
+        this.signingKey = crypto.createPrivateKey(config.offlineCard.privateKey);
+      } else if (config.env === 'production') {
+        throw new Error('OFFLINE_CARD_PRIVATE_KEY es obligatoria en producción');
+      } else {
+        // Solo para desarrollo y pruebas: las tarjetas dejan de validar al reiniciar el servidor
+        console.warn('⚠️  OFFLINE_CARD_PRIVATE_KEY no configurada: usando llave efímera para tarjetas offline');
+        this.signingKey = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey;
+      }
+    }
+    return this.signingKey;
+  }
+
+  private getPublicKeys(): Map<string, { key: crypto.KeyObject; jwk: PublicJwk }> {
+    if (!this.publicKeys) {
+      const keys = new Map<string, { key: crypto.KeyObject; jwk: PublicJwk }>();
+
+      const current = crypto.createPublicKey(this.getSigningKey());
+      keys.set(config.offlineCard.keyId, {
+        key: current,
+        jwk: { ...current.export({ format: 'jwk' }), kid: config.offlineCard.keyId, alg: 'ES256', use: 'sig' },
+      });
+
+      let previous: PublicJwk[] = [];
+      try {
+        previous = JSON.parse(config.offlineCard.previousPublicKeys);
+      } catch {
+        console.error('OFFLINE_CARD_PREVIOUS_KEYS no es un JSON válido; se ignora');
+      }
+
+      for (const jwk of Array.isArray(previous) ? previous : []) {
+        if (!jwk?.kid || keys.has(jwk.kid)) continue;
+        const { kid, alg, use, ...material } = jwk;
+        try {
+          const key = crypto.createPublicKey({ key: material, format: 'jwk' });
+          keys.set(kid, { key, jwk: { ...key.export({ format: 'jwk' }), kid, alg: alg || 'ES256', use: use || 'sig' } });
+        } catch (error) {
+          // Una llave mal copiada no debe impedir verificar con las demás
+          console.error(`Llave ${kid} de OFFLINE_CARD_PREVIOUS_KEYS no válida; se ignora:`, error);
+        }
+      }
+
+      this.publicKeys = keys;
+    }
+    return this.publicKeys;
+  }
+}
+
+export const offlineCardService = new OfflineCardService();
+export default offlineCardService;
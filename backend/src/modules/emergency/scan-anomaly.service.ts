@@ -0,0 +1,292 @@
+// src/modules/emergency/scan-anomaly.service.ts
+// Detección de abuso en los escaneos del QR de emergencia.
+// Sobre los accesos públicos (sin identidad verificada) de un mismo código se buscan:
+// - ráfagas de escaneos (SCAN_BURST)
+// - muchas IPs distintas (MANY_IPS)
+// - ubicaciones imposibles de recorrer en el tiempo transcurrido (IMPOSSIBLE_TRAVEL)
+// y, por IP, tokens inexistentes probados en serie (INVALID_TOKEN_PROBE).
+// Cada hallazgo queda como QrScanIncident para revisión en la auditoría de administración
+// y se avisa al paciente y a sus representantes; el código solo se suspende en los tipos
+// configurados en SCAN_ANOMALY_AUTO_SUSPEND_TYPES.
+import {
+  PrismaClient,
+  Prisma,
+  EmergencyAccess,
+  QrToken,
+  QrScanIncidentType,
+  RepresentativeStatus,
+} from '@prisma/client';
+import config from '../../config';
+import { haversineDistance } from '../../common/utils/geolocation';
+import { notificationService } from '../notification/notification.service';
+
+const prisma = new PrismaClient();
+
+const WINDOW_MS = config.scanAnomaly.windowMinutes * 60 * 1000;
+
+// Método de los accesos públicos (escaneo con el formulario, sin cuenta de personal)
+const PUBLIC_ACCESS_METHOD = 'MANUAL';
+
+// Texto que reciben el paciente y sus representantes
+const INCIDENT_LABELS: Record<QrScanIncidentType, string> = {
+  SCAN_BURST: 'se escaneó muchas veces en pocos minutos',
+  MANY_IPS: 'se escaneó desde muchos dispositivos distintos',
+  IMPOSSIBLE_TRAVEL: 'se escaneó en lugares muy lejanos entre sí en poco tiempo',
+  INVALID_TOKEN_PROBE: 'alguien intentó adivinar códigos',
+};
+
+type ScanSample = Pick<EmergencyAccess, 'id' | 'ipAddress' | 'latitude' | 'longitude' | 'accessedAt'>;
+
+interface Detection {
+  type: QrScanIncidentType;
+  details: Prisma.InputJsonObject;
+}
+
+// La ubicación llega del cuerpo de un acceso público: cualquiera con una foto del QR puede
+// fabricar un viaje imposible, así que ese hallazgo nunca suspende el código
+const NEVER_SUSPEND: QrScanIncidentType[] = ['IMPOSSIBLE_TRAVEL'];
+
+// Tokens inexistentes por IP dentro de la ventana deslizante (en memoria, por instancia)
+const invalidTokensByIp = new Map<string, number[]>();
+
+function recent(timestamps: number[] | undefined, now: number): number[] {
+  return (timestamps || []).filter((t) => now - t < WINDOW_MS);
+}
+
+class ScanAnomalyService {
+  /**
+   * Verifica que la IP no esté probando tokens al azar; lanza 429 si no
+   */
+  assertNotProbing(ipAddress: string | undefined): void {
+    const attempts = recent(invalidTokensByIp.get(ipAddress || 'unknown'), Date.now());
+
+    if (attempts.length >= config.scanAnomaly.maxInvalidTokensPerIp) {
+      throw {
+        code: 'QR_SCAN_RATE_LIMIT',
+        message: `Demasiados códigos no válidos. Espere ${config.scanAnomaly.windowMinutes} minutos.`,
+        status: 429,
+      };
+    }
+  }
+
+  /**
+   * Registra un token que no corresponde a ningún código vigente;
+   * al llegar al límite se abre un incidente (uno por ventana)
+   */
+  recordInvalidToken(ipAddress: string | undefined): void {
+    const now = Date.now();
+    const key = ipAddress || 'unknown';
+
+    for (const [ip, timestamps] of invalidTokensByIp) {
+      if (recent(timestamps, now).length === 0) invalidTokensByIp.delete(ip);
+    }
+
+    const attempts = [...recent(invalidTokensByIp.get(key), now), now];
+    invalidTokensByIp.set(key, attempts);
+
+    if (attempts.length === config.scanAnomaly.maxInvalidTokensPerIp) {
+      prisma.qrScanIncident.create({
+        data: {
+          type: 'INVALID_TOKEN_PROBE',
+          ipAddress,
+          details: {
+            attempts: attempts.length,
+            windowMinutes: config.scanAnomaly.windowMinutes,
+          },
+        },
+      }).catch((error) => console.error('Error registrando incidente de QR:', error));
+    }
+  }
+
+  /**
+   * Revisa los accesos públicos recientes del código tras un escaneo.
+   * Se cuenta desde el último incidente del código, así una reactivación no se vuelve a suspender
+   * por los mismos escaneos.
+   */
+  async inspectScan(token: QrToken, access: EmergencyAccess): Promise<void> {
+    if (access.accessMethod !== PUBLIC_ACCESS_METHOD || token.suspendedAt) {
+      return;
+    }
+
+    const lastIncident = await prisma.qrScanIncident.findFirst({
+      where: { qrTokenId: token.id },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+
+    const windowStart = new Date(access.accessedAt.getTime() - WINDOW_MS);
+    const since = lastIncident && lastIncident.createdAt > windowStart ? lastIncident.createdAt : windowStart;
+
+    const scans = await prisma.emergencyAccess.findMany({
+      where: {
+        qrTokenUsed: token.token,
+        accessMethod: PUBLIC_ACCESS_METHOD,
+        accessedAt: { gte: since },
+      },
+      orderBy: { accessedAt: 'asc' },
+      select: { id: true, ipAddress: true, latitude: true, longitude: true, accessedAt: true },
+    });
+
+    const detection = this.detect(scans, access);
+    if (detection) {
+      await this.openIncident(token, detection, access.ipAddress);
+    }
+  }
+
+  /**
+   * Aplica las reglas en orden; regresa la primera que se cumple
+   */
+  private detect(scans: ScanSample[], current: EmergencyAccess): Detection | null {
+    const { maxScansPerToken, maxDistinctIps, windowMinutes } = config.scanAnomaly;
+    const accessIds = scans.map((scan) => scan.id);
+
+    if (scans.length > maxScansPerToken) {
+      return {
+        type: 'SCAN_BURST',
+        details: { scans: scans.length, limit: maxScansPerToken, windowMinutes, accessIds },
+      };
+    }
+
+    const ips = [...new Set(scans.map((scan) => scan.ipAddress).filter((ip): ip is string => !!ip))];
+    if (ips.length > maxDistinctIps) {
+      return {
+        type: 'MANY_IPS',
+        details: { distinctIps: ips.length, limit: maxDistinctIps, windowMinutes, ips, accessIds },
+      };
+    }
+
+    return this.detectImpossibleTravel(scans, current);
+  }
+
+  /**
+   * Compara el escaneo actual contra los anteriores con ubicación
+   */
+  private detectImpossibleTravel(scans: ScanSample[], current: EmergencyAccess): Detection | null {
+    const { maxTravelSpeedKmh, minTravelDistanceKm } = config.scanAnomaly;
+
+    if (current.latitude == null || current.longitude == null) {
+      return null;
+    }
+
+    for (const previous of scans) {
+      if (previous.id === current.id || previous.latitude == null || previous.longitude == null) {
+        continue;
+      }
+
+      const distanceKm = haversineDistance(previous.latitude, previous.longitude, current.latitude, current.longitude);
+      // Mínimo un minuto para no dividir entre cero con escaneos simultáneos
+      const minutes = Math.max((current.accessedAt.getTime() - previous.accessedAt.getTime()) / 60000, 1);
+      const speedKmh = distanceKm / (minutes / 60);
+
+      if (distanceKm >= minTravelDistanceKm && speedKmh > maxTravelSpeedKmh) {
+        return {
+          type: 'IMPOSSIBLE_TRAVEL',
+          details: {
+            distanceKm: Math.round(distanceKm),
+            minutes: Math.round(minutes),
+            speedKmh: Math.round(speedKmh),
+            limitKmh: maxTravelSpeedKmh,
+            from: { accessId: previous.id, lat: previous.latitude, lng: previous.longitude },
+            to: { accessId: current.id, lat: current.latitude, lng: current.longitude },
+          },
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Suspende el código (si el tipo lo amerita), registra el incidente y avisa
+   */
+  private async openIncident(token: QrToken, detection: Detection, ipAddress: string | null): Promise<void> {
+    let tokenSuspended = false;
+
+    if (this.suspends(detection.type)) {
+      // Solo el primer escaneo concurrente que logra suspenderlo abre el incidente
+      const { count } = await prisma.qrToken.updateMany({
+        where: { id: token.id, suspendedAt: null, revokedAt: null },
+        data: { suspendedAt: new Date(), suspendedReason: detection.type },
+      });
+      if (count === 0) return;
+      tokenSuspended = true;
+    }
+
+    const incident = await prisma.qrScanIncident.create({
+      data: {
+        type: detection.type,
+        userId: token.userId,
+        qrTokenId: token.id,
+        ipAddress,
+        details: detection.details,
+        tokenSuspended,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: token.userId,
+        actorType: 'SYSTEM',
+        action: tokenSuspended ? 'QR_TOKEN_SUSPENDED' : 'QR_SCAN_ANOMALY',
+        resource: 'qr_tokens',
+        resourceId: token.id,
+        details: {
+          incidentId: incident.id,
+          type: detection.type,
+          label: token.label,
+        },
+        ipAddress,
+      },
+    });
+
+    await this.notifyPatient(token, incident.id, detection.type, tokenSuspended);
+  }
+
+  private suspends(type: QrScanIncidentType): boolean {
+    return config.scanAnomaly.autoSuspendTypes.includes(type) && !NEVER_SUSPEND.includes(type);
+  }
+
+  /**
+   * Paciente + representantes que no rechazaron la designación
+   */
+  private async notifyPatient(
+    token: QrToken,
+    incidentId: string,
+    type: QrScanIncidentType,
+    tokenSuspended: boolean
+  ): Promise<void> {
+    const patient = await prisma.user.findUnique({
+      where: { id: token.userId },
+      select: { name: true, email: true, phone: true },
+    });
+
+    if (!patient) {
+      return;
+    }
+
+    const representatives = await prisma.representative.findMany({
+      where: { userId: token.userId, status: { not: RepresentativeStatus.DECLINED } },
+      select: { name: true, phone: true, email: true },
+    });
+
+    try {
+      await notificationService.sendQrAbuseAlert({
+        userId: token.userId,
+        incidentId,
+        patientName: patient.name,
+        tokenLabel: token.label,
+        reason: INCIDENT_LABELS[type],
+        tokenSuspended,
+        recipients: [
+          { name: patient.name, phone: patient.phone, email: patient.email, isPatient: true },
+          ...representatives.map((rep) => ({ ...rep, isPatient: false })),
+        ],
+      });
+    } catch (error) {
+      console.error('Error notificando incidente de QR:', error);
+    }
+  }
+}
+
+export const scanAnomalyService = new ScanAnomalyService();
+export default scanAnomalyService;
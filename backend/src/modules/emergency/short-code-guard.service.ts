@@ -0,0 +1,129 @@
+// src/modules/emergency/short-code-guard.service.ts
+// Protección contra fuerza bruta del código manual de acceso.
+// El código corto tiene ~34 mil millones de combinaciones, así que se limita:
+// - intentos fallidos por IP (enumeración)
+// - accesos exitosos por código (un código dictado o filtrado no se reusa sin límite)
+// Los fallos en todo el servidor solo generan una alerta: rechazar a todos por ellos
+// dejaría sin acceso manual a cualquier paciente con solo rotar IPs.
+import { PrismaClient } from '@prisma/client';
+import config from '../../config';
+
+const prisma = new PrismaClient();
+
+const WINDOW_MS = config.shortCode.windowMinutes * 60 * 1000;
+
+// Marcas de tiempo por clave dentro de la ventana deslizante (en memoria, por instancia)
+const failuresByIp = new Map<string, number[]>();
+const usesByCode = new Map<string, number[]>();
+let globalFailures: number[] = [];
+let globalAlertedAt = 0;
+
+function recent(timestamps: number[] | undefined, now: number): number[] {
+  return (timestamps || []).filter((t) => now - t < WINDOW_MS);
+}
+
+// Descarta las claves sin actividad dentro de la ventana
+function prune(map: Map<string, number[]>, now: number): void {
+  for (const [key, timestamps] of map) {
+    if (recent(timestamps, now).length === 0) map.delete(key);
+  }
+}
+
+function rateLimitError(message: string) {
+  return { code: 'SHORT_CODE_RATE_LIMIT', message, status: 429 };
+}
+
+class ShortCodeGuardService {
+  /**
+   * Verifica que la IP pueda intentar otro código; lanza 429 si no
+   */
+  assertCanAttempt(ipAddress: string | undefined): void {
+    const now = Date.now();
+    const key = ipAddress || 'unknown';
+    const failures = recent(failuresByIp.get(key), now);
+
+    if (failures.length >= config.shortCode.maxFailuresPerIp) {
+      throw rateLimitError(
+        `Demasiados códigos incorrectos. Espere ${config.shortCode.windowMinutes} minutos o escanee el QR.`
+      );
+    }
+  }
+
+  /**
+   * Registra un código bien formado que no corresponde a ningún paciente
+   */
+  recordFailure(ipAddress: string | undefined): void {
+    const now = Date.now();
+    const key = ipAddress || 'unknown';
+
+    prune(failuresByIp, now);
+    failuresByIp.set(key, [...recent(failuresByIp.get(key), now), now]);
+    globalFailures = [...recent(globalFailures, now), now];
+
+    if (globalFailures.length >= config.shortCode.globalFailuresAlert && now - globalAlertedAt >= WINDOW_MS) {
+      globalAlertedAt = now;
+      this.alertGlobalFailures(globalFailures.length, failuresByIp.size);
+    }
+  }
+
+  /**
+   * Posible enumeración distribuida: queda en la auditoría para revisión (una vez por ventana)
+   */
+  private alertGlobalFailures(failures: number, distinctIps: number): void {
+    console.warn(`⚠️  ${failures} códigos manuales inexistentes en ${config.shortCode.windowMinutes} minutos desde ${distinctIps} IPs`);
+
+    prisma.auditLog.create({
+      data: {
+        actorType: 'SYSTEM',
+        action: 'SHORT_CODE_ENUMERATION_ALERT',
+        resource: 'qr_tokens',
+        details: {
+          failures,
+          distinctIps,
+          windowMinutes: config.shortCode.windowMinutes,
+        },
+      },
+    }).catch((error) => console.error('Error auditando alerta de código manual:', error));
+  }
+
+  /**
+   * Registra un acceso exitoso con el código (se indexa por el QR token que representa);
+   * si ya alcanzó el límite lo rechaza y deja constancia en la auditoría del paciente
+   */
+  async recordUse(qrToken: string, patientId: string, ipAddress: string | undefined): Promise<void> {
+    const now = Date.now();
+    prune(usesByCode, now);
+    const uses = recent(usesByCode.get(qrToken), now);
+
+    if (uses.length >= config.shortCode.maxUsesPerCode) {
+      usesByCode.set(qrToken, uses);
+
+      // Solo se audita el primer rechazo de cada ventana
+      if (uses.length === config.shortCode.maxUsesPerCode) {
+        uses.push(now);
+        await prisma.auditLog.create({
+          data: {
+            userId: patientId,
+            actorType: 'SYSTEM',
+            action: 'SHORT_CODE_LOCKED',
+            resource: 'qr_tokens',
+            details: {
+              uses: config.shortCode.maxUsesPerCode,
+              windowMinutes: config.shortCode.windowMinutes,
+            },
+            ipAddress,
+          },
+        }).catch((error) => console.error('Error auditando bloqueo de código manual:', error));
+      }
+
+      throw rateLimitError(
+        'Este código se usó demasiadas veces. Escanee el QR del paciente o intente más tarde.'
+      );
+    }
+
+    usesByCode.set(qrToken, [...uses, now]);
+  }
+}
+
+export const shortCodeGuardService = new ShortCodeGuardService();
+export default shortCodeGuardService;
@@ -0,0 +1,71 @@
+// src/modules/fhir/fhir.controller.ts
+import express, { Router, Request, Response } from 'express';
+import { authMiddleware } from '../../common/guards/auth.middleware';
+import { requirePremiumFeature } from '../../common/guards/premium.middleware';
+import { fhirService } from './fhir.service';
+
+const router = Router();
+
+// Los EHR suelen enviar application/fhir+json, que el parser global no reconoce
+router.use(express.json({ type: ['application/json', 'application/fhir+json'], limit: '10mb' }));
+
+// Todos los endpoints requieren autenticación
+router.use(authMiddleware);
+
+/**
+ * GET /api/v1/fhir/export
+ * Exporta el perfil del paciente como Bundle FHIR R4
+ */
+router.get('/export',
+  requirePremiumFeature('exportData'),
+  async (req: Request, res: Response) => {
+    try {
+      const bundle = await fhirService.exportPatientBundle(req.userId!, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.setHeader('Content-Disposition', `attachment; filename="vida-fhir-${bundle.timestamp!.slice(0, 10)}.json"`);
+      res.type('application/fhir+json').send(JSON.stringify(bundle, null, 2));
+    } catch (error: any) {
+      console.error('Error exportando FHIR:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/fhir/import
+ * Importa alergias, padecimientos, medicamentos, grupo sanguíneo y donación desde un Bundle FHIR R4
+ */
+router.post('/import', async (req: Request, res: Response) => {
+  try {
+    const summary = await fhirService.importPatientBundle(req.userId!, req.body, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    res.json({
+      success: true,
+      data: { summary },
+    });
+  } catch (error: any) {
+    console.error('Error importando FHIR:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: {
+        code: error.code || 'SERVER_ERROR',
+        message: error.status ? error.message : 'Error interno del servidor',
+        details: error.details,
+      },
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,748 @@
+// src/modules/fhir/fhir.service.ts
+import { PrismaClient, AdvanceDirective, Representative, DirectiveStatus } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { pupService } from '../pup/pup.service';
+import { catalogService } from '../catalog/catalog.service';
+import type {
+  AllergenCategory,
+  AllergyEntry,
+  AllergySeverity,
+  ConditionEntry,
+  MedicationEntry,
+} from '../catalog/catalog.types';
+import config from '../../config';
+import type {
+  AllergyIntolerance,
+  AllergyReaction,
+  Bundle,
+  BundleEntry,
+  CodeableConcept,
+  Condition,
+  Consent,
+  ConsentProvision,
+  ContactPoint,
+  FhirImportSummary,
+  MedicationStatement,
+  Observation,
+  Patient,
+  Reference,
+  RelatedPerson,
+  Resource,
+} from './fhir.types';
+
+const prisma = new PrismaClient();
+
+// Sistemas de codificación estándar
+const SYSTEMS = {
+  // OID de la CURP en el registro de HL7
+  curp: 'urn:oid:2.16.840.1.113883.4.629',
+  loinc: 'http://loinc.org',
+  allergyClinical: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical',
+  conditionClinical: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+  conditionCategory: 'http://terminology.hl7.org/CodeSystem/condition-category',
+  observationCategory: 'http://terminology.hl7.org/CodeSystem/observation-category',
+  consentScope: 'http://terminology.hl7.org/CodeSystem/consentscope',
+  consentCategory: 'http://terminology.hl7.org/CodeSystem/consentcategorycodes',
+  contactRole: 'http://terminology.hl7.org/CodeSystem/v2-0131',
+  icd10: 'http://hl7.org/fhir/sid/icd-10',
+  atc: 'http://www.whocc.no/atc',
+};
+
+// Extensiones y códigos propios de VIDA
+const vida = (path: string) => `${config.fhir.systemBase}/${path}`;
+const EXTENSIONS = {
+  organDonor: vida('StructureDefinition/organ-donor'),
+  directiveType: vida('StructureDefinition/directive-type'),
+  directiveNotes: vida('StructureDefinition/directive-notes'),
+  nom151Sealed: vida('StructureDefinition/nom151-sealed'),
+  representativePriority: vida('StructureDefinition/representative-priority'),
+  donorSpokesperson: vida('StructureDefinition/donor-spokesperson'),
+};
+const DIRECTIVE_INTERVENTIONS_SYSTEM = vida('CodeSystem/directive-intervention');
+// Códigos del catálogo local (src/modules/catalog)
+const ALLERGEN_SYSTEM = vida('CodeSystem/allergen');
+const MEDICATION_SYSTEM = vida('CodeSystem/medication');
+
+// LOINC 882-1: ABO and Rh group [Type] in Blood
+const BLOOD_TYPE_CODE = '882-1';
+const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+// Intervenciones de la directiva que se exportan como provisiones del Consent
+const DIRECTIVE_INTERVENTIONS: {
+  field: keyof Pick<AdvanceDirective,
+    'acceptsCPR' | 'acceptsIntubation' | 'acceptsDialysis' | 'acceptsTransfusion' | 'acceptsArtificialNutrition'>;
+  code: string;
+  display: string;
+}[] = [
+  { field: 'acceptsCPR', code: 'cpr', display: 'Reanimación cardiopulmonar' },
+  { field: 'acceptsIntubation', code: 'intubation', display: 'Intubación' },
+  { field: 'acceptsDialysis', code: 'dialysis', display: 'Diálisis' },
+  { field: 'acceptsTransfusion', code: 'transfusion', display: 'Transfusión sanguínea' },
+  { field: 'acceptsArtificialNutrition', code: 'artificial-nutrition', display: 'Nutrición artificial' },
+];
+
+const CONSENT_STATUS: Record<DirectiveStatus, Consent['status']> = {
+  DRAFT: 'draft',
+  PENDING_VALIDATION: 'proposed',
+  ACTIVE: 'active',
+  REVOKED: 'inactive',
+  EXPIRED: 'inactive',
+};
+
+// Estados que indican que el dato ya no aplica al paciente
+const INACTIVE_CLINICAL_STATUS = ['inactive', 'resolved', 'remission'];
+const INVALID_VERIFICATION_STATUS = ['refuted', 'entered-in-error'];
+const INACTIVE_MEDICATION_STATUS = ['completed', 'stopped', 'not-taken', 'entered-in-error'];
+
+// Categoría de alérgeno VIDA <-> FHIR (OTHER no tiene equivalente)
+const ALLERGY_CATEGORY: Partial<Record<AllergenCategory, NonNullable<AllergyIntolerance['category']>[number]>> = {
+  MEDICATION: 'medication',
+  FOOD: 'food',
+  ENVIRONMENT: 'environment',
+  BIOLOGIC: 'biologic',
+};
+
+const REACTION_SEVERITY: Record<AllergySeverity, NonNullable<AllergyReaction['severity']>> = {
+  MILD: 'mild',
+  MODERATE: 'moderate',
+  SEVERE: 'severe',
+};
+
+// Validación estructural de lo que se lee de cada recurso importado
+// (el Bundle llega del cliente: un campo con otro tipo no debe terminar en error 500)
+type ShapeCheck = (value: unknown) => boolean;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const optional = (check: ShapeCheck): ShapeCheck => (value) => value === undefined || value === null || check(value);
+const arrayOf = (check: ShapeCheck): ShapeCheck => (value) => Array.isArray(value) && value.every(check);
+const shape = (fields: Record<string, ShapeCheck>): ShapeCheck => (value) =>
+  isObject(value) && Object.entries(fields).every(([field, check]) => check(value[field]));
+
+const isString: ShapeCheck = (value) => typeof value === 'string';
+const isBoolean: ShapeCheck = (value) => typeof value === 'boolean';
+
+const isCoding = shape({ system: optional(isString), code: optional(isString), display: optional(isString) });
+const isConcept = shape({ text: optional(isString), coding: optional(arrayOf(isCoding)) });
+const isReference = shape({ reference: optional(isString) });
+
+const RESOURCE_SHAPES: Record<string, Record<string, ShapeCheck>> = {
+  Patient: {
+    identifier: arrayOf(shape({ system: optional(isString), value: optional(isString) })),
+    extension: arrayOf(shape({ url: optional(isString), valueBoolean: optional(isBoolean) })),
+  },
+  AllergyIntolerance: {
+    code: isConcept,
+    clinicalStatus: isConcept,
+    verificationStatus: isConcept,
+    patient: isReference,
+    category: arrayOf(isString),
+    criticality: isString,
+    reaction: arrayOf(shape({ manifestation: optional(arrayOf(isConcept)), severity: optional(isString) })),
+  },
+  Condition: {
+    code: isConcept,
+    clinicalStatus: isConcept,
+    verificationStatus: isConcept,
+    subject: isReference,
+  },
+  MedicationStatement: {
+    medicationCodeableConcept: isConcept,
+    subject: isReference,
+    status: isString,
+    dosage: arrayOf(shape({ text: optional(isString) })),
+  },
+  Observation: {
+    code: isConcept,
+    subject: isReference,
+    valueCodeableConcept: isConcept,
+    valueString: isString,
+  },
+};
+
+class FhirService {
+  /**
+   * Exporta el Perfil Unificado del Paciente como Bundle FHIR R4 (tipo collection)
+   */
+  async exportPatientBundle(userId: string, meta?: { ipAddress?: string; userAgent?: string }): Promise<Bundle> {
+    const [user, profile] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          email: true,
+          curp: true,
+          name: true,
+          dateOfBirth: true,
+          sex: true,
+          phone: true,
+          address: true,
+        },
+      }),
+      pupService.getProfile(userId),
+    ]);
+
+    if (!user || !profile) {
+      throw { code: 'PROFILE_NOT_FOUND', message: 'Perfil no encontrado', status: 404 };
+    }
+
+    // Los borradores no tienen efecto legal y no salen del sistema
+    const [directives, representatives] = await Promise.all([
+      prisma.advanceDirective.findMany({
+        where: { userId, status: { not: DirectiveStatus.DRAFT } },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.representative.findMany({
+        where: { userId, status: { not: 'DECLINED' } },
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      }),
+    ]);
+
+    const patientRef: Reference = { reference: `urn:uuid:${user.id}`, display: user.name };
+
+    const telecom: ContactPoint[] = [];
+    if (user.phone) telecom.push({ system: 'phone', value: user.phone, use: 'mobile' });
+    telecom.push({ system: 'email', value: user.email });
+
+    const patient: Patient = {
+      resourceType: 'Patient',
+      id: user.id,
+      identifier: [{ system: SYSTEMS.curp, value: user.curp }],
+      name: [{ use: 'official', text: user.name }],
+      gender: user.sex === 'H' ? 'male' : user.sex === 'M' ? 'female' : 'unknown',
+      birthDate: user.dateOfBirth ? user.dateOfBirth.toISOString().slice(0, 10) : undefined,
+      telecom,
+      address: user.address ? [{ text: user.address, country: 'MX' }] : undefined,
+      extension: [{ url: EXTENSIONS.organDonor, valueBoolean: profile.isDonor }],
+    };
+
+    const resources: Resource[] = [patient];
+
+    for (const allergy of profile.allergies) {
+      const category = ALLERGY_CATEGORY[allergy.category];
+      const severity = allergy.severity ? REACTION_SEVERITY[allergy.severity] : undefined;
+
+      resources.push({
+        resourceType: 'AllergyIntolerance',
+        id: uuidv4(),
+        clinicalStatus: this.statusConcept(SYSTEMS.allergyClinical, 'active'),
+        category: category ? [category] : undefined,
+        criticality: allergy.severity === 'SEVERE' ? 'high' : allergy.severity ? 'low' : undefined,
+        code: this.codedConcept(ALLERGEN_SYSTEM, allergy.code, allergy.name),
+        patient: patientRef,
+        reaction: allergy.reaction
+          ? [{ manifestation: [{ text: allergy.reaction }], severity }]
+          : undefined,
+      } as AllergyIntolerance);
+    }
+
+    for (const condition of profile.conditions) {
+      resources.push({
+        resourceType: 'Condition',
+        id: uuidv4(),
+        clinicalStatus: this.statusConcept(SYSTEMS.conditionClinical, 'active'),
+        category: [{
+          coding: [{ system: SYSTEMS.conditionCategory, code: 'problem-list-item', display: 'Problem List Item' }],
+        }],
+        code: this.codedConcept(SYSTEMS.icd10, condition.code, condition.name),
+        subject: patientRef,
+      } as Condition);
+    }
+
+    for (const medication of profile.medications) {
+      const concept = this.codedConcept(MEDICATION_SYSTEM, medication.code, medication.name);
+      const atc = medication.code ? catalogService.findDrug(medication.code)?.atc : undefined;
+      if (atc) {
+        concept.coding!.push({ system: SYSTEMS.atc, code: atc });
+      }
+      const dosage = [medication.dose, medication.frequency].filter(Boolean).join(' ');
+
+      resources.push({
+        resourceType: 'MedicationStatement',
+        id: uuidv4(),
+        status: 'active',
+        medicationCodeableConcept: concept,
+        subject: patientRef,
+        dosage: dosage ? [{ text: dosage }] : undefined,
+      } as MedicationStatement);
+    }
+
+    if (profile.bloodType) {
+      resources.push({
+        resourceType: 'Observation',
+        id: uuidv4(),
+        status: 'final',
+        category: [{
+          coding: [{ system: SYSTEMS.observationCategory, code: 'laboratory', display: 'Laboratory' }],
+        }],
+        code: {
+          coding: [{ system: SYSTEMS.loinc, code: BLOOD_TYPE_CODE, display: 'ABO and Rh group [Type] in Blood' }],
+          text: 'Grupo sanguíneo',
+        },
+        subject: patientRef,
+        valueCodeableConcept: { text: profile.bloodType },
+      } as Observation);
+    }
+
+    for (const directive of directives) {
+      resources.push(this.toConsent(directive, patientRef));
+    }
+
+    for (const representative of representatives) {
+      resources.push(this.toRelatedPerson(representative, patientRef));
+    }
+
+    await this.logAudit(userId, 'FHIR_EXPORT', {
+      resources: resources.length,
+      directives: directives.length,
+      representatives: representatives.length,
+    }, meta);
+
+    return {
+      resourceType: 'Bundle',
+      id: uuidv4(),
+      meta: { lastUpdated: new Date().toISOString() },
+      identifier: { system: vida('bundle'), value: uuidv4() },
+      type: 'collection',
+      timestamp: new Date().toISOString(),
+      entry: resources.map((resource) => ({
+        fullUrl: `urn:uuid:${resource.id}`,
+        resource,
+      })),
+    };
+  }
+
+  /**
+   * Importa un Bundle FHIR R4 al perfil del paciente
+   * Alergias, padecimientos y medicamentos se agregan sin duplicar; el grupo sanguíneo y la
+   * condición de donante se sobrescriben. Directivas y representantes no se importan porque
+   * requieren validación y aceptación dentro de VIDA.
+   */
+  async importPatientBundle(
+    userId: string,
+    bundle: Bundle,
+    meta?: { ipAddress?: string; userAgent?: string }
+  ): Promise<FhirImportSummary> {
+    if (!bundle || bundle.resourceType !== 'Bundle' || (bundle.entry !== undefined && !Array.isArray(bundle.entry))) {
+      throw { code: 'INVALID_BUNDLE', message: 'El archivo no es un Bundle FHIR válido', status: 400 };
+    }
+
+    const entries: BundleEntry[] = bundle.entry || [];
+    if (entries.length > config.fhir.maxImportEntries) {
+      throw {
+        code: 'BUNDLE_TOO_LARGE',
+        message: `El Bundle excede el máximo de ${config.fhir.maxImportEntries} recursos`,
+        status: 413,
+      };
+    }
+
+    const [user, profile] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { curp: true } }),
+      pupService.getProfile(userId),
+    ]);
+
+    if (!user || !profile) {
+      throw { code: 'PROFILE_NOT_FOUND', message: 'Perfil no encontrado', status: 404 };
+    }
+
+    // El Patient del Bundle debe ser el titular de la cuenta
+    const patientEntries = entries.filter((entry) => entry?.resource?.resourceType === 'Patient');
+    if (patientEntries.length > 1) {
+      throw { code: 'MULTIPLE_PATIENTS', message: 'El Bundle contiene más de un paciente', status: 422 };
+    }
+
+    const patientEntry = patientEntries[0];
+    // Sin un Patient legible no se puede comprobar la CURP: se rechaza todo el Bundle
+    const malformedPatient = patientEntry && this.malformedField(patientEntry.resource!);
+    if (malformedPatient) {
+      throw {
+        code: 'INVALID_RESOURCE',
+        message: `El recurso Patient tiene un formato inválido (${malformedPatient})`,
+        status: 422,
+      };
+    }
+
+    const patient = patientEntry?.resource as Patient | undefined;
+    const bundleCurp = patient?.identifier?.find((identifier) => identifier.system === SYSTEMS.curp)?.value;
+
+    if (bundleCurp && bundleCurp.toUpperCase() !== user.curp.toUpperCase()) {
+      throw {
+        code: 'PATIENT_MISMATCH',
+        message: 'El Bundle corresponde a otro paciente (CURP distinta)',
+        status: 422,
+      };
+    }
+
+    // Referencias válidas al paciente dentro del Bundle
+    const patientRefs = new Set<string>();
+    if (patientEntry?.fullUrl) patientRefs.add(patientEntry.fullUrl);
+    if (patient?.id) patientRefs.add(`Patient/${patient.id}`);
+
+    const summary: FhirImportSummary = {
+      imported: { allergies: [], conditions: [], medications: [], bloodType: null, isDonor: null },
+      skipped: [],
+    };
+    const skip = (resource: Resource, reason: string) =>
+      summary.skipped.push({ resourceType: resource.resourceType, id: resource.id, reason });
+
+    const isForPatient = (ref?: Reference) =>
+      patientRefs.size === 0 || !ref?.reference || patientRefs.has(ref.reference);
+
+    const allergies: Partial<AllergyEntry>[] = [];
+    const conditions: Partial<ConditionEntry>[] = [];
+    const medications: Partial<MedicationEntry>[] = [];
+
+    for (const entry of entries) {
+      const resource = entry?.resource;
+      if (!isObject(resource) || typeof resource.resourceType !== 'string') {
+        continue;
+      }
+
+      const malformed = this.malformedField(resource);
+      if (malformed) {
+        skip(resource, `Formato inválido en ${malformed}`);
+        continue;
+      }
+
+      switch (resource.resourceType) {
+        case 'Patient': {
+          const donor = (resource as Patient).extension?.find((ext) => ext.url === EXTENSIONS.organDonor);
+          if (typeof donor?.valueBoolean === 'boolean') {
+            summary.imported.isDonor = donor.valueBoolean;
+          }
+          break;
+        }
+
+        case 'AllergyIntolerance': {
+          const allergy = resource as AllergyIntolerance;
+          const text = this.conceptText(allergy.code);
+          if (!isForPatient(allergy.patient)) {
+            skip(resource, 'Pertenece a otro paciente');
+          } else if (!text) {
+            skip(resource, 'Sin descripción de la alergia');
+          } else if (!this.isCurrent(allergy.clinicalStatus, allergy.verificationStatus)) {
+            skip(resource, 'Alergia inactiva o descartada');
+          } else {
+            allergies.push(this.toAllergyEntry(allergy, text));
+          }
+          break;
+        }
+
+        case 'Condition': {
+          const condition = resource as Condition;
+          const text = this.conceptText(condition.code);
+          if (!isForPatient(condition.subject)) {
+            skip(resource, 'Pertenece a otro paciente');
+          } else if (!text) {
+            skip(resource, 'Sin descripción del padecimiento');
+          } else if (!this.isCurrent(condition.clinicalStatus, condition.verificationStatus)) {
+            skip(resource, 'Padecimiento resuelto o descartado');
+          } else {
+            conditions.push({ code: this.codingFor(condition.code, SYSTEMS.icd10) || null, name: text });
+          }
+          break;
+        }
+
+        case 'MedicationStatement': {
+          const statement = resource as MedicationStatement;
+          const text = this.conceptText(statement.medicationCodeableConcept);
+          if (!isForPatient(statement.subject)) {
+            skip(resource, 'Pertenece a otro paciente');
+          } else if (!text) {
+            skip(resource, 'Sin medicamento codificado como concepto');
+          } else if (INACTIVE_MEDICATION_STATUS.includes(statement.status)) {
+            skip(resource, 'Medicamento suspendido o concluido');
+          } else {
+            medications.push(this.toMedicationEntry(statement, text));
+          }
+          break;
+        }
+
+        case 'Observation': {
+          const observation = resource as Observation;
+          const isBloodType = observation.code?.coding?.some(
+            (coding) => coding.system === SYSTEMS.loinc && coding.code === BLOOD_TYPE_CODE
+          );
+          if (!isBloodType) {
+            skip(resource, 'Observación no soportada (solo grupo sanguíneo)');
+          } else if (!isForPatient(observation.subject)) {
+            skip(resource, 'Pertenece a otro paciente');
+          } else {
+            const bloodType = this.parseBloodType(
+              this.conceptText(observation.valueCodeableConcept) || observation.valueString
+            );
+            if (bloodType) {
+              summary.imported.bloodType = bloodType;
+            } else {
+              skip(resource, 'Grupo sanguíneo no reconocido');
+            }
+          }
+          break;
+        }
+
+        case 'Consent':
+          skip(resource, 'Las directivas anticipadas se registran y validan desde VIDA');
+          break;
+
+        case 'RelatedPerson':
+          skip(resource, 'Los representantes deben aceptar su designación desde VIDA');
+          break;
+
+        default:
+          skip(resource, 'Tipo de recurso no soportado');
+      }
+    }
+
+    // Se codifican contra el catálogo y se descartan los que ya están en el perfil
+    const newAllergies = this.newItems(profile.allergies, catalogService.normalizeAllergies(allergies));
+    const newConditions = this.newItems(profile.conditions, catalogService.normalizeConditions(conditions));
+    const newMedications = this.newItems(profile.medications, catalogService.normalizeMedications(medications));
+
+    const imported = summary.imported;
+    imported.allergies = newAllergies.map((entry) => entry.name);
+    imported.conditions = newConditions.map((entry) => entry.name);
+    imported.medications = newMedications.map((entry) => entry.name);
+
+    const update: Parameters<typeof pupService.updateProfile>[1] = {};
+    if (newAllergies.length) update.allergies = [...profile.allergies, ...newAllergies];
+    if (newConditions.length) update.conditions = [...profile.conditions, ...newConditions];
+    if (newMedications.length) update.medications = [...profile.medications, ...newMedications];
+    if (imported.bloodType) update.bloodType = imported.bloodType;
+    if (imported.isDonor !== null) update.isDonor = imported.isDonor;
+
+    if (Object.keys(update).length > 0) {
+      await pupService.updateProfile(userId, update);
+    }
+
+    await this.logAudit(userId, 'FHIR_IMPORT', {
+      bundleId: bundle.id,
+      entries: entries.length,
+      allergies: imported.allergies.length,
+      conditions: imported.conditions.length,
+      medications: imported.medications.length,
+      bloodType: imported.bloodType !== null,
+      isDonor: imported.isDonor,
+      skipped: summary.skipped.length,
+    }, meta);
+
+    return summary;
+  }
+
+  /**
+   * Directiva de voluntad anticipada como Consent (scope adr)
+   */
+  private toConsent(directive: AdvanceDirective, patientRef: Reference): Consent {
+    const provisions: ConsentProvision[] = [];
+
+    for (const intervention of DIRECTIVE_INTERVENTIONS) {
+      const accepts = directive[intervention.field];
+      if (accepts === null) continue;
+
+      provisions.push({
+        type: accepts ? 'permit' : 'deny',
+        code: [{
+          coding: [{ system: DIRECTIVE_INTERVENTIONS_SYSTEM, code: intervention.code, display: intervention.display }],
+          text: intervention.display,
+        }],
+      });
+    }
+
+    if (directive.palliativeCareOnly) {
+      provisions.push({
+        type: 'permit',
+        code: [{
+          coding: [{ system: DIRECTIVE_INTERVENTIONS_SYSTEM, code: 'palliative-care-only', display: 'Solo cuidados paliativos' }],
+          text: 'Solo cuidados paliativos',
+        }],
+      });
+    }
+
+    const extension: Consent['extension'] = [
+      { url: EXTENSIONS.directiveType, valueString: directive.type },
+      { url: EXTENSIONS.nom151Sealed, valueBoolean: directive.nom151Sealed },
+    ];
+    if (directive.additionalNotes) {
+      extension.push({ url: EXTENSIONS.directiveNotes, valueString: directive.additionalNotes });
+    }
+
+    return {
+      resourceType: 'Consent',
+      id: directive.id,
+      status: CONSENT_STATUS[directive.status],
+      scope: {
+        coding: [{ system: SYSTEMS.consentScope, code: 'adr', display: 'Advanced Care Directive' }],
+      },
+      category: [{
+        coding: [{ system: SYSTEMS.consentCategory, code: 'acd', display: 'Advance Directive' }],
+        text: 'Voluntad anticipada',
+      }],
+      patient: patientRef,
+      dateTime: (directive.validatedAt || directive.createdAt).toISOString(),
+      policyRule: {
+        text: directive.originState
+          ? `Ley de Voluntad Anticipada (${directive.originState})`
+          : 'Ley de Voluntad Anticipada',
+      },
+      provision: {
+        period: {
+          start: directive.validatedAt?.toISOString(),
+          end: (directive.revokedAt || directive.expiresAt)?.toISOString(),
+        },
+        provision: provisions.length ? provisions : undefined,
+      },
+      extension,
+    };
+  }
+
+  /**
+   * Representante como RelatedPerson (contacto de emergencia)
+   */
+  private toRelatedPerson(representative: Representative, patientRef: Reference): RelatedPerson {
+    const telecom: ContactPoint[] = [{ system: 'phone', value: representative.phone, use: 'mobile' }];
+    if (representative.email) {
+      telecom.push({ system: 'email', value: representative.email });
+    }
+
+    return {
+      resourceType: 'RelatedPerson',
+      id: representative.id,
+      active: representative.status === 'ACCEPTED',
+      patient: patientRef,
+      relationship: [
+        { coding: [{ system: SYSTEMS.contactRole, code: 'C', display: 'Emergency Contact' }] },
+        { text: representative.relation },
+      ],
+      name: [{ text: representative.name }],
+      telecom,
+      extension: [
+        { url: EXTENSIONS.representativePriority, valueInteger: representative.priority },
+        { url: EXTENSIONS.donorSpokesperson, valueBoolean: representative.isDonorSpokesperson },
+      ],
+    };
+  }
+
+  /**
+   * Primer campo del recurso cuyo tipo no coincide con lo que espera la importación
+   */
+  private malformedField(resource: Resource): string | null {
+    const fields = RESOURCE_SHAPES[resource.resourceType] || {};
+    const value = resource as unknown as Record<string, unknown>;
+    return Object.keys(fields).find((field) => !optional(fields[field])(value[field])) || null;
+  }
+
+  private statusConcept(system: string, code: string): CodeableConcept {
+    return { coding: [{ system, code }] };
+  }
+
+  /**
+   * Concepto con el código del catálogo (si lo hay) y el nombre como texto
+   */
+  private codedConcept(system: string, code: string | null, name: string): CodeableConcept {
+    return {
+      coding: code ? [{ system, code, display: name }] : undefined,
+      text: name,
+    };
+  }
+
+  private codingFor(concept: CodeableConcept | undefined, system: string): string | undefined {
+    return concept?.coding?.find((coding) => coding.system === system && coding.code)?.code;
+  }
+
+  private toAllergyEntry(allergy: AllergyIntolerance, name: string): Partial<AllergyEntry> {
+    const fhirCategory = allergy.category?.[0];
+    const category = (Object.keys(ALLERGY_CATEGORY) as AllergenCategory[])
+      .find((key) => ALLERGY_CATEGORY[key] === fhirCategory);
+
+    const reaction = allergy.reaction?.[0];
+    const severity = (Object.keys(REACTION_SEVERITY) as AllergySeverity[])
+      .find((key) => REACTION_SEVERITY[key] === reaction?.severity)
+      || (allergy.criticality === 'high' ? 'SEVERE' : undefined);
+
+    return {
+      code: this.codingFor(allergy.code, ALLERGEN_SYSTEM) || null,
+      name,
+      category,
+      severity: severity || null,
+      reaction: reaction?.manifestation?.map((manifestation) => this.conceptText(manifestation))
+        .filter(Boolean).join(', ') || null,
+    };
+  }
+
+  private toMedicationEntry(statement: MedicationStatement, name: string): Partial<MedicationEntry> {
+    const concept = statement.medicationCodeableConcept;
+    const atc = this.codingFor(concept, SYSTEMS.atc);
+    const code = this.codingFor(concept, MEDICATION_SYSTEM)
+      || (atc ? catalogService.findDrugByAtc(atc)?.code : undefined);
+    const dosage = statement.dosage?.find((item) => item.text)?.text;
+
+    return {
+      code: code || null,
+      name,
+      ...(dosage ? catalogService.parseDosage(dosage) : { dose: null, frequency: null }),
+    };
+  }
+
+  /**
+   * Texto legible de un concepto: text, o el display/código de la primera codificación
+   */
+  private conceptText(concept?: CodeableConcept): string | null {
+    const text = concept?.text || concept?.coding?.find((coding) => coding.display)?.display
+      || concept?.coding?.find((coding) => coding.code)?.code;
+    return text?.trim() || null;
+  }
+
+  private isCurrent(clinicalStatus?: CodeableConcept, verificationStatus?: CodeableConcept): boolean {
+    const clinical = clinicalStatus?.coding?.map((coding) => coding.code) || [];
+    const verification = verificationStatus?.coding?.map((coding) => coding.code) || [];
+
+    return !clinical.some((code) => code && INACTIVE_CLINICAL_STATUS.includes(code))
+      && !verification.some((code) => code && INVALID_VERIFICATION_STATUS.includes(code));
+  }
+
+  /**
+   * Normaliza "O Rh+", "AB negative", "A pos" al formato del perfil
+   */
+  private parseBloodType(value?: string | null): string | null {
+    const match = value?.toUpperCase().match(/\b(AB|A|B|O)\s*(?:RH)?\s*(\+|-|POS|NEG)/);
+    if (!match) return null;
+
+    const bloodType = `${match[1]}${match[2].startsWith('P') || match[2] === '+' ? '+' : '-'}`;
+    return BLOOD_TYPES.includes(bloodType) ? bloodType : null;
+  }
+
+  /**
+   * Elementos importados que aún no están en el perfil (mismo código o mismo nombre)
+   */
+  private newItems<T extends { code: string | null; name: string }>(current: T[], incoming: T[]): T[] {
+    const seen = new Set(current.map((item) => catalogService.entryKey(item)));
+    return incoming.filter((item) => !seen.has(catalogService.entryKey(item)));
+  }
+
+  private async logAudit(
+    userId: string,
+    action: 'FHIR_EXPORT' | 'FHIR_IMPORT',
+    details: Record<string, unknown>,
+    meta?: { ipAddress?: string; userAgent?: string }
+  ): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          actorType: 'USER',
+          actorId: userId,
+          action,
+          resource: 'patient_profile',
+          resourceId: userId,
+          details: details as any,
+          ipAddress: meta?.ipAddress,
+          userAgent: meta?.userAgent,
+        },
+      });
+    } catch (error) {
+      console.error('Error registrando auditoría FHIR:', error);
+    }
+  }
+}
+
+export const fhirService = new FhirService();
+export default fhirService;
@@ -0,0 +1,172 @@
+// src/modules/fhir/fhir.types.ts
+// Subconjunto de FHIR R4 que usa VIDA (https://hl7.org/fhir/R4/)
+
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Identifier {
+  system?: string;
+  value?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+export interface Period {
+  start?: string;
+  end?: string;
+}
+
+export interface Extension {
+  url: string;
+  valueBoolean?: boolean;
+  valueInteger?: number;
+  valueString?: string;
+}
+
+export interface HumanName {
+  use?: string;
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface ContactPoint {
+  system?: 'phone' | 'email' | 'other';
+  value?: string;
+  use?: string;
+}
+
+export interface Address {
+  text?: string;
+  country?: string;
+}
+
+export interface Resource {
+  resourceType: string;
+  id?: string;
+  meta?: { lastUpdated?: string; profile?: string[] };
+  [key: string]: unknown;
+}
+
+export interface Patient extends Resource {
+  resourceType: 'Patient';
+  identifier?: Identifier[];
+  name?: HumanName[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  telecom?: ContactPoint[];
+  address?: Address[];
+  extension?: Extension[];
+}
+
+export interface AllergyReaction {
+  manifestation: CodeableConcept[];
+  severity?: 'mild' | 'moderate' | 'severe';
+}
+
+export interface AllergyIntolerance extends Resource {
+  resourceType: 'AllergyIntolerance';
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: ('food' | 'medication' | 'environment' | 'biologic')[];
+  criticality?: 'low' | 'high' | 'unable-to-assess';
+  code?: CodeableConcept;
+  patient: Reference;
+  reaction?: AllergyReaction[];
+}
+
+export interface Condition extends Resource {
+  resourceType: 'Condition';
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  subject: Reference;
+}
+
+export interface MedicationStatement extends Resource {
+  resourceType: 'MedicationStatement';
+  status: string;
+  medicationCodeableConcept?: CodeableConcept;
+  subject: Reference;
+  dosage?: { text?: string }[];
+}
+
+export interface Observation extends Resource {
+  resourceType: 'Observation';
+  status: string;
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject?: Reference;
+  valueCodeableConcept?: CodeableConcept;
+  valueString?: string;
+}
+
+export interface ConsentProvision {
+  type?: 'deny' | 'permit';
+  period?: Period;
+  code?: CodeableConcept[];
+  provision?: ConsentProvision[];
+}
+
+export interface Consent extends Resource {
+  resourceType: 'Consent';
+  status: 'draft' | 'proposed' | 'active' | 'rejected' | 'inactive' | 'entered-in-error';
+  scope: CodeableConcept;
+  category: CodeableConcept[];
+  patient?: Reference;
+  dateTime?: string;
+  policyRule?: CodeableConcept;
+  provision?: ConsentProvision;
+  extension?: Extension[];
+}
+
+export interface RelatedPerson extends Resource {
+  resourceType: 'RelatedPerson';
+  active?: boolean;
+  patient: Reference;
+  relationship?: CodeableConcept[];
+  name?: HumanName[];
+  telecom?: ContactPoint[];
+  extension?: Extension[];
+}
+
+export interface BundleEntry<T extends Resource = Resource> {
+  fullUrl?: string;
+  resource?: T;
+}
+
+export interface Bundle extends Resource {
+  resourceType: 'Bundle';
+  type: 'collection' | 'document' | 'transaction' | 'batch' | 'searchset' | string;
+  timestamp?: string;
+  identifier?: Identifier;
+  entry?: BundleEntry[];
+}
+
+// Resultado de una importación
+export interface FhirImportSummary {
+  imported: {
+    allergies: string[];
+    conditions: string[];
+    medications: string[];
+    bloodType: string | null;
+    isDonor: boolean | null;
+  };
+  skipped: {
+    resourceType: string;
+    id?: string;
+    reason: string;
+  }[];
+}
@@ -0,0 +1,56 @@
+// src/modules/files/files.controller.ts
+import { Router, Request, Response } from 'express';
+import config from '../../config';
+import { localStorageProvider } from '../../common/storage';
+
+const router = Router();
+
+// Público: el acceso se autoriza con la firma HMAC de la URL, no con sesión
+
+/**
+ * GET /api/v1/files/:key
+ * Descarga un archivo del almacenamiento local mediante URL firmada
+ * Solo disponible con STORAGE_PROVIDER=local (en S3 las URLs apuntan al bucket)
+ */
+router.get('/*', async (req: Request, res: Response) => {
+  const notFound = () => res.status(404).json({
+    success: false,
+    error: { code: 'NOT_FOUND', message: 'Archivo no encontrado o enlace expirado' },
+  });
+
+  if (config.storage.provider !== 'local') {
+    return notFound();
+  }
+
+  try {
+    const file = localStorageProvider.verifySignedRequest(
+      req.params[0],
+      String(req.query.expires || ''),
+      String(req.query.signature || '')
+    );
+    if (!file) {
+      return notFound();
+    }
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Cache-Control', 'private, no-store');
+    // Las fotos se muestran desde el frontend (otro origen)
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.sendFile(file.filePath, (err) => {
+      if (err && !res.headersSent) {
+        notFound();
+      }
+    });
+  } catch (error: any) {
+    if (error.code === 'INVALID_STORAGE_KEY') {
+      return notFound();
+    }
+    console.error('Error sirviendo archivo:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+    });
+  }
+});
+
+export default router;
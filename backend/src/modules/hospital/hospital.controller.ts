@@ -96,7 +96,7 @@ router.get('/nearby', async (req: Request, res: Response) => {
 /**
  * POST /api/v1/hospitals/nearby/smart
  * Busqueda inteligente basada en condiciones del paciente
- * Body: { latitude, longitude, conditions: ["Diabetes", "Cardiopatia"], radiusKm?, limit? }
+ * Body: { latitude, longitude, conditions: ["E11", "I21.9"] (CIE-10 o nombre), radiusKm?, limit? }
  */
 router.post('/nearby/smart', async (req: Request, res: Response) => {
   try {
@@ -124,7 +124,9 @@ router.post('/nearby/smart', async (req: Request, res: Response) => {
     }
 
     // Validar condiciones
-    const patientConditions = Array.isArray(conditions) ? conditions : [];
+    const patientConditions: string[] = Array.isArray(conditions)
+      ? conditions.filter((condition: unknown) => typeof condition === 'string')
+      : [];
 
     // Obtener especialidades requeridas para el usuario
     const requiredSpecialties = hospitalService.getRequiredSpecialtiesForConditions(patientConditions);
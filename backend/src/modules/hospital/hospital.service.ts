@@ -1,33 +1,12 @@
 // src/modules/hospital/hospital.service.ts
 import { PrismaClient, MedicalInstitution, InstitutionType, AttentionLevel } from '@prisma/client';
 import { haversineDistance } from '../../common/utils/geolocation';
+import { catalogService } from '../catalog/catalog.service';
+import { CIE10_CONDITIONS } from '../catalog/data/cie10';
+import type { CatalogCondition } from '../catalog/catalog.types';
 
 const prisma = new PrismaClient();
 
-// Mapeo de condiciones medicas a especialidades requeridas
-export const conditionToSpecialties: Record<string, string[]> = {
-  'Diabetes': ['Endocrinologia', 'Medicina Interna', 'Nefrologia', 'Oftalmologia'],
-  'Hipertension': ['Cardiologia', 'Medicina Interna', 'Nefrologia'],
-  'Cardiopatia': ['Cardiologia', 'Cirugia Cardiovascular', 'Urgencias'],
-  'Infarto': ['Cardiologia', 'Cirugia Cardiovascular', 'Urgencias', 'Terapia Intensiva'],
-  'Insuficiencia Cardiaca': ['Cardiologia', 'Medicina Interna', 'Terapia Intensiva'],
-  'EPOC': ['Neumologia', 'Medicina Interna', 'Urgencias'],
-  'Asma': ['Neumologia', 'Alergologia', 'Urgencias'],
-  'Cancer': ['Oncologia', 'Cirugia Oncologica', 'Radioterapia', 'Quimioterapia'],
-  'Insuficiencia Renal': ['Nefrologia', 'Dialisis', 'Medicina Interna'],
-  'Epilepsia': ['Neurologia', 'Urgencias'],
-  'ACV': ['Neurologia', 'Neurocirugia', 'Urgencias', 'Terapia Intensiva'],
-  'Alzheimer': ['Neurologia', 'Geriatria', 'Psiquiatria'],
-  'Parkinson': ['Neurologia', 'Geriatria'],
-  'Fractura': ['Traumatologia', 'Ortopedia', 'Urgencias'],
-  'Trauma': ['Traumatologia', 'Cirugia General', 'Urgencias', 'Terapia Intensiva'],
-  'Quemaduras': ['Cirugia Plastica', 'Urgencias', 'Terapia Intensiva'],
-  'Embarazo': ['Ginecologia', 'Obstetricia', 'Neonatologia'],
-  'Embarazo Alto Riesgo': ['Ginecologia', 'Obstetricia', 'Medicina Materno Fetal', 'Neonatologia', 'Terapia Intensiva'],
-  'Pediatrico': ['Pediatria', 'Urgencias Pediatricas'],
-  'Alergias Severas': ['Alergologia', 'Urgencias', 'Terapia Intensiva'],
-};
-
 export interface HospitalWithDistance extends MedicalInstitution {
   distance: number; // Distancia en km
   matchScore?: number; // Score de coincidencia con condiciones del paciente (0-100)
@@ -50,7 +29,7 @@ interface FindNearbyParams {
 interface FindNearbyForConditionsParams {
   latitude: number;
   longitude: number;
-  patientConditions: string[]; // ["Diabetes", "Cardiopatia"]
+  patientConditions: string[]; // Códigos CIE-10 ["E11", "I21.9"]; el texto libre se resuelve con el catálogo
   radiusKm?: number;
   limit?: number;
   prioritizeByCondition?: boolean; // Si true, ordena por match score primero
@@ -124,12 +103,9 @@ class HospitalService {
       prioritizeByCondition = true,
     } = params;
 
-    // Obtener especialidades requeridas para las condiciones del paciente
-    const requiredSpecialties = new Set<string>();
-    for (const condition of patientConditions) {
-      const specialties = conditionToSpecialties[condition] || [];
-      specialties.forEach(s => requiredSpecialties.add(s));
-    }
+    // Obtener especialidades requeridas para las condiciones del paciente (por rango CIE-10)
+    const { specialties, critical: hasCritical } = catalogService.getSpecialtiesForConditions(patientConditions);
+    const requiredSpecialties = new Set<string>(specialties);
 
     // Siempre incluir Urgencias como especialidad base
     requiredSpecialties.add('Urgencias');
@@ -175,9 +151,7 @@ class HospitalService {
         if (inst.attentionLevel === 'THIRD') adjustedScore += 15;
         else if (inst.attentionLevel === 'SECOND') adjustedScore += 5;
 
-        // Bonus por tener UCI si hay condiciones criticas
-        const criticalConditions = ['Infarto', 'ACV', 'Trauma', 'Quemaduras'];
-        const hasCritical = patientConditions.some(c => criticalConditions.includes(c));
+        // Bonus por tener UCI si hay condiciones criticas (infarto, ACV, trauma, quemaduras)
         if (hasCritical && inst.hasICU) adjustedScore += 20;
         if (hasCritical && inst.hasTrauma) adjustedScore += 10;
 
@@ -209,19 +183,14 @@ class HospitalService {
    * Obtiene las especialidades requeridas para un conjunto de condiciones
    */
   getRequiredSpecialtiesForConditions(conditions: string[]): string[] {
-    const specialties = new Set<string>();
-    for (const condition of conditions) {
-      const conditionSpecialties = conditionToSpecialties[condition] || [];
-      conditionSpecialties.forEach(s => specialties.add(s));
-    }
-    return Array.from(specialties);
+    return catalogService.getSpecialtiesForConditions(conditions).specialties;
   }
 
   /**
-   * Lista las condiciones medicas conocidas
+   * Lista las condiciones medicas conocidas (catalogo CIE-10)
    */
-  getKnownConditions(): string[] {
-    return Object.keys(conditionToSpecialties);
+  getKnownConditions(): CatalogCondition[] {
+    return CIE10_CONDITIONS;
   }
 
   /**
@@ -0,0 +1,112 @@
+// src/modules/jobs/directive-expiration.job.ts
+import { PrismaClient, DirectiveStatus } from '@prisma/client';
+import config from '../../config';
+import { notificationService } from '../notification/notification.service';
+import { JobDefinition, JobSummary } from './job-scheduler';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Marca como EXPIRED las directivas vencidas
+ */
+async function expireDirectives(now: Date): Promise<number> {
+  const expired = await prisma.advanceDirective.findMany({
+    where: { status: DirectiveStatus.ACTIVE, expiresAt: { lt: now } },
+    select: { id: true, userId: true, expiresAt: true },
+  });
+
+  if (expired.length === 0) {
+    return 0;
+  }
+
+  await prisma.$transaction([
+    prisma.advanceDirective.updateMany({
+      where: { id: { in: expired.map((d) => d.id) }, status: DirectiveStatus.ACTIVE },
+      data: { status: DirectiveStatus.EXPIRED },
+    }),
+    prisma.auditLog.createMany({
+      data: expired.map((directive) => ({
+        userId: directive.userId,
+        actorType: 'SYSTEM',
+        action: 'DIRECTIVE_EXPIRED',
+        resource: 'directives',
+        resourceId: directive.id,
+        details: { expiresAt: directive.expiresAt!.toISOString() },
+      })),
+    }),
+  ]);
+
+  return expired.length;
+}
+
+/**
+ * Envía el recordatorio de la menor anticipación alcanzada que aún no se haya enviado
+ * (si el job no corrió a los 90 días pero sí a los 29, solo se envía el de 30)
+ */
+async function sendReminders(now: Date): Promise<{ reminded: number; failed: number }> {
+  const offsets = config.jobs.directiveReminderDays;
+  if (offsets.length === 0) {
+    return { reminded: 0, failed: 0 };
+  }
+
+  const directives = await prisma.advanceDirective.findMany({
+    where: {
+      status: DirectiveStatus.ACTIVE,
+      expiresAt: { gte: now, lte: new Date(now.getTime() + offsets[0] * DAY_MS) },
+    },
+    include: { user: { select: { name: true, email: true, phone: true } } },
+  });
+
+  let reminded = 0;
+  let failed = 0;
+
+  for (const directive of directives) {
+    const daysLeft = Math.ceil((directive.expiresAt!.getTime() - now.getTime()) / DAY_MS);
+    const offset = offsets.filter((days) => daysLeft <= days).pop();
+    if (offset === undefined) {
+      continue;
+    }
+    if (directive.lastReminderDays !== null && directive.lastReminderDays <= offset) {
+      continue;
+    }
+
+    const result = await notificationService.sendDirectiveReminder({
+      userId: directive.userId,
+      name: directive.user.name,
+      email: directive.user.email,
+      phone: directive.user.phone,
+      daysLeft,
+      expiresAt: directive.expiresAt!,
+      directiveId: directive.id,
+    });
+
+    if (result.emailStatus === 'sent' || result.smsStatus === 'sent') {
+      await prisma.advanceDirective.update({
+        where: { id: directive.id },
+        data: { lastReminderDays: offset },
+      });
+      reminded++;
+    } else {
+      // Se reintenta en la siguiente ejecución
+      failed++;
+    }
+  }
+
+  return { reminded, failed };
+}
+
+export const directiveExpirationJob: JobDefinition = {
+  name: 'directive-expiration',
+  description: 'Expira directivas vencidas y recuerda su renovación',
+  intervalMinutes: config.jobs.directiveIntervalMinutes,
+
+  async run(): Promise<JobSummary> {
+    const now = new Date();
+    const expired = await expireDirectives(now);
+    const { reminded, failed } = await sendReminders(now);
+
+    return { expired, remindersSent: reminded, remindersFailed: failed };
+  },
+};
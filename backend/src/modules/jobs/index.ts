@@ -0,0 +1,13 @@
+// src/modules/jobs/index.ts
+import { jobScheduler } from './job-scheduler';
+import { directiveExpirationJob } from './directive-expiration.job';
+import { panicExpirationJob } from './panic-expiration.job';
+import { panicEscalationJob } from './panic-escalation.job';
+import { jobRunCleanupJob } from './job-run-cleanup.job';
+
+jobScheduler.register(directiveExpirationJob);
+jobScheduler.register(panicExpirationJob);
+jobScheduler.register(panicEscalationJob);
+jobScheduler.register(jobRunCleanupJob);
+
+export * from './job-scheduler';
@@ -0,0 +1,23 @@
+// src/modules/jobs/job-run-cleanup.job.ts
+import { PrismaClient, JobRunStatus } from '@prisma/client';
+import config from '../../config';
+import { JobDefinition, JobSummary } from './job-scheduler';
+
+const prisma = new PrismaClient();
+
+export const jobRunCleanupJob: JobDefinition = {
+  name: 'job-run-cleanup',
+  description: 'Elimina el historial de ejecuciones más antiguo que la retención',
+  intervalMinutes: config.jobs.runCleanupIntervalMinutes,
+
+  async run(): Promise<JobSummary> {
+    const cutoff = new Date(Date.now() - config.jobs.runRetentionDays * 24 * 60 * 60 * 1000);
+
+    // Las que siguen en curso se cierran al reiniciar el servidor, no aquí
+    const { count } = await prisma.jobRun.deleteMany({
+      where: { startedAt: { lt: cutoff }, status: { not: JobRunStatus.RUNNING } },
+    });
+
+    return { deleted: count };
+  },
+};
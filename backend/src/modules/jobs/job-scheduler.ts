@@ -0,0 +1,125 @@
+// src/modules/jobs/job-scheduler.ts
+import { PrismaClient, JobRun, JobRunStatus } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type JobSummary = Record<string, number>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  run(): Promise<JobSummary>;
+}
+
+export type JobTrigger = 'SCHEDULED' | 'MANUAL';
+
+/**
+ * Ejecuta tareas periódicas en el proceso de la API
+ * Cada ejecución queda registrada en JobRun para la pantalla de salud
+ */
+class JobScheduler {
+  private jobs = new Map<string, JobDefinition>();
+  private timers: NodeJS.Timeout[] = [];
+  private running = new Set<string>();
+
+  register(job: JobDefinition): void {
+    this.jobs.set(job.name, job);
+  }
+
+  getJobs(): JobDefinition[] {
+    return Array.from(this.jobs.values());
+  }
+
+  isRunning(name: string): boolean {
+    return this.running.has(name);
+  }
+
+  /**
+   * Programa todos los jobs y ejecuta una primera pasada al arrancar
+   */
+  async start(): Promise<void> {
+    // Ejecuciones que quedaron abiertas por un reinicio del servidor
+    await prisma.jobRun.updateMany({
+      where: { status: JobRunStatus.RUNNING },
+      data: {
+        status: JobRunStatus.FAILED,
+        finishedAt: new Date(),
+        error: 'Interrumpido por reinicio del servidor',
+      },
+    });
+
+    for (const job of this.jobs.values()) {
+      const timer = setInterval(() => {
+        this.runJob(job.name, 'SCHEDULED').catch(() => undefined);
+      }, job.intervalMinutes * 60 * 1000);
+      // Los timers no deben impedir que el proceso termine
+      timer.unref();
+      this.timers.push(timer);
+
+      this.runJob(job.name, 'SCHEDULED').catch(() => undefined);
+    }
+
+    console.log(`⏱️  Tareas programadas: ${this.getJobs().map((job) => job.name).join(', ')}`);
+  }
+
+  stop(): void {
+    this.timers.forEach(clearInterval);
+    this.timers = [];
+  }
+
+  /**
+   * Ejecuta un job y registra el resultado
+   * No permite ejecuciones simultáneas del mismo job
+   */
+  async runJob(name: string, trigger: JobTrigger, triggeredBy?: string): Promise<JobRun> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw { code: 'JOB_NOT_FOUND', message: 'Tarea no encontrada', status: 404 };
+    }
+    if (this.running.has(name)) {
+      throw { code: 'JOB_ALREADY_RUNNING', message: 'La tarea ya se está ejecutando', status: 409 };
+    }
+
+    this.running.add(name);
+    const run = await prisma.jobRun.create({
+      data: { job: name, trigger, triggeredBy },
+    }).catch((error) => {
+      this.running.delete(name);
+      throw error;
+    });
+
+    try {
+      const summary = await job.run();
+      return await this.finishRun(run, JobRunStatus.SUCCEEDED, { summary });
+    } catch (error: any) {
+      console.error(`Error en tarea ${name}:`, error);
+      return await this.finishRun(run, JobRunStatus.FAILED, {
+        error: error?.message || String(error),
+      });
+    } finally {
+      this.running.delete(name);
+    }
+  }
+
+  private finishRun(
+    run: JobRun,
+    status: JobRunStatus,
+    result: { summary?: JobSummary; error?: string }
+  ): Promise<JobRun> {
+    const finishedAt = new Date();
+    return prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        summary: result.summary,
+        error: result.error,
+        finishedAt,
+        durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+      },
+    });
+  }
+}
+
+export const jobScheduler = new JobScheduler();
+export default jobScheduler;
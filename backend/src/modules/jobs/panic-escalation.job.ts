@@ -0,0 +1,14 @@
+// src/modules/jobs/panic-escalation.job.ts
+import config from '../../config';
+import { panicEscalationService } from '../panic/panic-escalation.service';
+import { JobDefinition, JobSummary } from './job-scheduler';
+
+export const panicEscalationJob: JobDefinition = {
+  name: 'panic-escalation',
+  description: 'Escala alertas de pánico sin confirmar al siguiente representante o a la cola de operadores',
+  intervalMinutes: config.jobs.panicEscalationIntervalMinutes,
+
+  async run(): Promise<JobSummary> {
+    return panicEscalationService.processDueEscalations();
+  },
+};
@@ -0,0 +1,42 @@
+// src/modules/jobs/panic-expiration.job.ts
+import { PrismaClient, PanicStatus } from '@prisma/client';
+import config from '../../config';
+import { notifyOperators } from '../realtime/operator-events';
+import { io } from '../../main';
+import { JobDefinition, JobSummary } from './job-scheduler';
+
+const prisma = new PrismaClient();
+
+export const panicExpirationJob: JobDefinition = {
+  name: 'panic-expiration',
+  description: 'Expira alertas de pánico activas sin atender',
+  intervalMinutes: config.jobs.panicIntervalMinutes,
+
+  async run(): Promise<JobSummary> {
+    const cutoff = new Date(Date.now() - config.jobs.panicAlertExpirationHours * 60 * 60 * 1000);
+
+    // Las alertas asignadas a un operador se cierran desde la consola
+    const alerts = await prisma.panicAlert.findMany({
+      where: { status: PanicStatus.ACTIVE, createdAt: { lt: cutoff }, assignedAdminId: null },
+      select: { id: true, userId: true },
+    });
+
+    if (alerts.length === 0) {
+      return { expired: 0 };
+    }
+
+    const { count } = await prisma.panicAlert.updateMany({
+      where: { id: { in: alerts.map((a) => a.id) }, status: PanicStatus.ACTIVE, assignedAdminId: null },
+      data: { status: PanicStatus.EXPIRED },
+    });
+
+    for (const alert of alerts) {
+      const payload = { alertId: alert.id, status: PanicStatus.EXPIRED };
+      io.to(`representative-${alert.userId}`).emit('panic-expired', payload);
+      io.to(`user-${alert.userId}`).emit('panic-expired', payload);
+      notifyOperators(alert.id, 'EXPIRED');
+    }
+
+    return { expired: count };
+  },
+};
@@ -1,9 +1,10 @@
 // src/modules/notification/notification.service.ts
 import twilio from 'twilio';
 import nodemailer from 'nodemailer';
-import { PrismaClient, NotificationType, NotificationChannel, NotificationStatus } from '@prisma/client';
+import { PrismaClient, NotificationType, NotificationChannel, NotificationStatus, RepresentativeStatus } from '@prisma/client';
 import config from '../../config';
 import { getGoogleMapsUrl } from '../../common/utils/geolocation';
+import { premiumFeaturesService } from '../payments/services/premium-features.service';
 
 const prisma = new PrismaClient();
 
@@ -19,11 +20,12 @@ interface EmailResult {
   error?: string;
 }
 
-interface NotificationResult {
+export interface NotificationResult {
   representativeId: string;
   name: string;
   phone: string;
   email?: string;
+  confirmed: boolean; // El representante aceptó la designación
   smsStatus: 'sent' | 'failed' | 'skipped';
   emailStatus: 'sent' | 'failed' | 'skipped';
   messageId?: string;
@@ -91,7 +93,7 @@ class NotificationService {
     const mapsUrl = getGoogleMapsUrl(location.lat, location.lng);
 
     if (type === 'PANIC') {
-      message = `ALERTA VIDA - EMERGENCIA\n\n${patientName} ha activado el boton de panico.\n\nUbicacion: ${mapsUrl}\n\n${nearestHospital ? `Hospital mas cercano: ${nearestHospital}` : ''}\n\nPor favor, contacte inmediatamente.`;
+      message = `ALERTA VIDA - EMERGENCIA\n\n${patientName} ha activado el boton de panico.\n\nUbicacion: ${mapsUrl}\n\n${nearestHospital ? `Hospital mas cercano: ${nearestHospital}` : ''}\n\nPor favor, contacte inmediatamente. Responda OK para confirmar que atiende la emergencia.`;
     } else {
       message = `ALERTA VIDA\n\nSe ha accedido a la informacion medica de ${patientName}.\n\nAcceso por: ${accessorName || 'Personal medico'}\nUbicacion: ${mapsUrl}\n\n${nearestHospital ? `Hospital cercano: ${nearestHospital}` : ''}\n\nEste es un acceso autorizado de emergencia.`;
     }
@@ -307,8 +309,585 @@ class NotificationService {
     }
   }
 
+  /**
+   * Envia un SMS generico (usa modo simulacion si Twilio no esta configurado)
+   */
+  async sendSMS(params: {
+    to: string;
+    body: string;
+    type: NotificationType;
+    userId?: string;
+    metadata?: any;
+  }): Promise<SMSResult> {
+    const { to, body, type, userId, metadata } = params;
+
+    if (this.isSimulationMode || !this.twilioClient) {
+      console.log('=== SMS SIMULADO ===');
+      console.log(`Para: ${to}`);
+      console.log(`Mensaje: ${body}`);
+      console.log('====================');
+
+      await this.saveNotification({
+        userId,
+        phone: to,
+        type,
+        channel: NotificationChannel.SMS,
+        body,
+        status: NotificationStatus.SENT,
+        metadata: { ...metadata, simulated: true },
+      });
+
+      return { success: true, messageId: `SIM-${Date.now()}` };
+    }
+
+    try {
+      const result = await this.twilioClient.messages.create({
+        body,
+        from: config.twilio.phone,
+        to: this.formatPhoneNumber(to),
+      });
+
+      await this.saveNotification({
+        userId,
+        phone: to,
+        type,
+        channel: NotificationChannel.SMS,
+        body,
+        status: NotificationStatus.SENT,
+        metadata: { ...metadata, twilioSid: result.sid },
+      });
+
+      return { success: true, messageId: result.sid };
+    } catch (error: any) {
+      console.error('Error enviando SMS:', error);
+
+      await this.saveNotification({
+        userId,
+        phone: to,
+        type,
+        channel: NotificationChannel.SMS,
+        body,
+        status: NotificationStatus.FAILED,
+        errorMessage: error.message,
+        metadata,
+      });
+
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Envia un email generico (usa modo simulacion si SMTP no esta configurado)
+   */
+  async sendEmail(params: {
+    to: string;
+    subject: string;
+    html: string;
+    type: NotificationType;
+    userId?: string;
+    metadata?: any;
+  }): Promise<EmailResult> {
+    const { to, subject, html, type, userId, metadata } = params;
+
+    if (!this.emailTransporter) {
+      console.log('=== EMAIL SIMULADO ===');
+      console.log(`Para: ${to}`);
+      console.log(`Asunto: ${subject}`);
+      console.log('======================');
+
+      await this.saveNotification({
+        userId,
+        email: to,
+        type,
+        channel: NotificationChannel.EMAIL,
+        subject,
+        body: html,
+        status: NotificationStatus.SENT,
+        metadata: { ...metadata, simulated: true },
+      });
+
+      return { success: true, messageId: `SIM-EMAIL-${Date.now()}` };
+    }
+
+    try {
+      const result = await this.emailTransporter.sendMail({
+        from: config.email.from,
+        to,
+        subject,
+        html,
+      });
+
+      await this.saveNotification({
+        userId,
+        email: to,
+        type,
+        channel: NotificationChannel.EMAIL,
+        subject,
+        body: html,
+        status: NotificationStatus.SENT,
+        metadata: { ...metadata, messageId: result.messageId },
+      });
+
+      return { success: true, messageId: result.messageId };
+    } catch (error: any) {
+      console.error('Error enviando email:', error);
+
+      await this.saveNotification({
+        userId,
+        email: to,
+        type,
+        channel: NotificationChannel.EMAIL,
+        subject,
+        body: html,
+        status: NotificationStatus.FAILED,
+        errorMessage: error.message,
+        metadata,
+      });
+
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Invita a un testigo a firmar una voluntad anticipada (SMS y/o Email)
+   */
+  async sendWitnessInvitation(params: {
+    witnessName: string;
+    patientName: string;
+    email?: string | null;
+    phone?: string | null;
+    signUrl: string;
+    expiresAt: Date;
+    directiveId: string;
+  }): Promise<{ smsStatus: 'sent' | 'failed' | 'skipped'; emailStatus: 'sent' | 'failed' | 'skipped' }> {
+    const { witnessName, patientName, email, phone, signUrl, expiresAt, directiveId } = params;
+    const expiresText = expiresAt.toLocaleDateString('es-MX', { dateStyle: 'long' });
+    const metadata = { directiveId };
+
+    let smsStatus: 'sent' | 'failed' | 'skipped' = 'skipped';
+    if (phone) {
+      const smsResult = await this.sendSMS({
+        to: phone,
+        body: `VIDA: ${patientName} te invita a ser testigo de su voluntad anticipada. Revisa y firma antes del ${expiresText}: ${signUrl}`,
+        type: NotificationType.WITNESS_INVITATION,
+        metadata,
+      });
+      smsStatus = smsResult.success ? 'sent' : 'failed';
+    }
+
+    let emailStatus: 'sent' | 'failed' | 'skipped' = 'skipped';
+    if (email) {
+      const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 20px; background: #f3f4f6;">
+        <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+          <div style="background: #0284c7; color: white; padding: 24px; text-align: center;">
+            <h1 style="margin: 0; font-size: 24px;">Invitación como testigo</h1>
+          </div>
+          <div style="padding: 24px;">
+            <p style="font-size: 18px; color: #1f2937;">Hola ${witnessName},</p>
+            <p style="color: #374151;">
+              <strong>${patientName}</strong> te ha designado como testigo de su voluntad anticipada en el Sistema VIDA.
+              Para firmar deberás confirmar tu nombre completo y tu CURP.
+            </p>
+            <div style="text-align: center; margin: 24px 0;">
+              <a href="${signUrl}" style="display: inline-block; background: #0284c7; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+                Revisar y firmar
+              </a>
+            </div>
+            <p style="color: #6b7280; font-size: 14px;">El enlace vence el ${expiresText}. Si no conoces a esta persona, ignora este mensaje.</p>
+            <div style="margin-top: 24px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+              <p style="color: #9ca3af; font-size: 14px; margin: 0;">
+                Este mensaje fue enviado automáticamente por el Sistema VIDA.
+              </p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+      const emailResult = await this.sendEmail({
+        to: email,
+        subject: `${patientName} te invita a ser testigo de su voluntad anticipada`,
+        html,
+        type: NotificationType.WITNESS_INVITATION,
+        metadata,
+      });
+      emailStatus = emailResult.success ? 'sent' : 'failed';
+    }
+
+    return { smsStatus, emailStatus };
+  }
+
+  /**
+   * Invita a un representante a aceptar su designación (SMS y/o Email)
+   */
+  async sendRepresentativeInvitation(params: {
+    representativeName: string;
+    patientName: string;
+    email?: string | null;
+    phone: string;
+    inviteUrl: string;
+    expiresAt: Date;
+    representativeId: string;
+  }): Promise<{ smsStatus: 'sent' | 'failed' | 'skipped'; emailStatus: 'sent' | 'failed' | 'skipped' }> {
+    const { representativeName, patientName, email, phone, inviteUrl, expiresAt, representativeId } = params;
+    const expiresText = expiresAt.toLocaleDateString('es-MX', { dateStyle: 'long' });
+    const metadata = { representativeId };
+
+    const smsResult = await this.sendSMS({
+      to: phone,
+      body: `VIDA: ${patientName} te designo como su representante para emergencias medicas. Confirma antes del ${expiresText}: ${inviteUrl}`,
+      type: NotificationType.REPRESENTATIVE_INVITATION,
+      metadata,
+    });
+    const smsStatus = smsResult.success ? 'sent' : 'failed';
+
+    let emailStatus: 'sent' | 'failed' | 'skipped' = 'skipped';
+    if (email) {
+      const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 20px; background: #f3f4f6;">
+        <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+          <div style="background: #4f46e5; color: white; padding: 24px; text-align: center;">
+            <h1 style="margin: 0; font-size: 24px;">Designación como representante</h1>
+          </div>
+          <div style="padding: 24px;">
+            <p style="font-size: 18px; color: #1f2937;">Hola ${representativeName},</p>
+            <p style="color: #374151;">
+              <strong>${patientName}</strong> te designó como su representante en el Sistema VIDA.
+              Si aceptas, recibirás alertas cuando active su botón de pánico o alguien consulte su
+              información médica en una emergencia.
+            </p>
+            <div style="text-align: center; margin: 24px 0;">
+              <a href="${inviteUrl}" style="display: inline-block; background: #4f46e5; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+                Revisar designación
+              </a>
+            </div>
+            <p style="color: #6b7280; font-size: 14px;">El enlace vence el ${expiresText}. Si no conoces a esta persona, puedes rechazar la designación.</p>
+            <div style="margin-top: 24px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+              <p style="color: #9ca3af; font-size: 14px; margin: 0;">
+                Este mensaje fue enviado automáticamente por el Sistema VIDA.
+              </p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+      const emailResult = await this.sendEmail({
+        to: email,
+        subject: `${patientName} te designó como su representante`,
+        html,
+        type: NotificationType.REPRESENTATIVE_INVITATION,
+        metadata,
+      });
+      emailStatus = emailResult.success ? 'sent' : 'failed';
+    }
+
+    return { smsStatus, emailStatus };
+  }
+
+  /**
+   * Envía el código de verificación de contacto a un representante
+   */
+  async sendRepresentativeCode(params: {
+    channel: 'EMAIL' | 'SMS';
+    to: string;
+    code: string;
+    patientName: string;
+    representativeId: string;
+  }): Promise<boolean> {
+    const { channel, to, code, patientName, representativeId } = params;
+    const metadata = { representativeId };
+
+    if (channel === 'SMS') {
+      const result = await this.sendSMS({
+        to,
+        body: `VIDA: Tu codigo para aceptar ser representante de ${patientName} es ${code}. Vence en 10 minutos.`,
+        type: NotificationType.VERIFICATION_SMS,
+        metadata,
+      });
+      return result.success;
+    }
+
+    const result = await this.sendEmail({
+      to,
+      subject: `Código de verificación: ${code}`,
+      html: `
+      <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 0 auto; padding: 24px;">
+        <p style="color: #374151;">Tu código para aceptar ser representante de <strong>${patientName}</strong> es:</p>
+        <p style="font-size: 32px; font-weight: 700; letter-spacing: 8px; text-align: center; color: #4f46e5;">${code}</p>
+        <p style="color: #6b7280; font-size: 14px;">El código vence en 10 minutos.</p>
+      </div>
+    `,
+      type: NotificationType.VERIFICATION_EMAIL,
+      metadata,
+    });
+    return result.success;
+  }
+
+  /**
+   * Recuerda al usuario renovar su voluntad anticipada antes de que expire (SMS y/o Email)
+   */
+  async sendDirectiveReminder(params: {
+    userId: string;
+    name: string;
+    email: string;
+    phone?: string | null;
+    daysLeft: number;
+    expiresAt: Date;
+    directiveId: string;
+  }): Promise<{ smsStatus: 'sent' | 'failed' | 'skipped'; emailStatus: 'sent' | 'failed' | 'skipped' }> {
+    const { userId, name, email, phone, daysLeft, expiresAt, directiveId } = params;
+    const expiresText = expiresAt.toLocaleDateString('es-MX', { dateStyle: 'long' });
+    const directivesUrl = `${config.frontendUrl}/directives`;
+    const metadata = { directiveId, daysLeft };
+
+    // El recordatorio por SMS requiere smsNotifications; el email se envía siempre
+    let smsStatus: 'sent' | 'failed' | 'skipped' = 'skipped';
+    if (phone && await premiumFeaturesService.hasFeature(userId, 'smsNotifications')) {
+      const smsResult = await this.sendSMS({
+        to: phone,
+        body: `VIDA: Tu voluntad anticipada vence el ${expiresText} (en ${daysLeft} dias). Renuevala para que siga vigente: ${directivesUrl}`,
+        type: NotificationType.DIRECTIVE_REMINDER,
+        userId,
+        metadata,
+      });
+      smsStatus = smsResult.success ? 'sent' : 'failed';
+    }
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 20px; background: #f3f4f6;">
+        <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+          <div style="background: #d97706; color: white; padding: 24px; text-align: center;">
+            <h1 style="margin: 0; font-size: 24px;">Tu voluntad anticipada está por vencer</h1>
+          </div>
+          <div style="padding: 24px;">
+            <p style="font-size: 18px; color: #1f2937;">Hola ${name},</p>
+            <p style="color: #374151;">
+              Tu voluntad anticipada registrada en el Sistema VIDA vence el <strong>${expiresText}</strong>
+              (en ${daysLeft} ${daysLeft === 1 ? 'día' : 'días'}). Después de esa fecha dejará de mostrarse
+              como vigente al personal médico.
+            </p>
+            <div style="text-align: center; margin: 24px 0;">
+              <a href="${directivesUrl}" style="display: inline-block; background: #d97706; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+                Renovar mi voluntad anticipada
+              </a>
+            </div>
+            <div style="margin-top: 24px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+              <p style="color: #9ca3af; font-size: 14px; margin: 0;">
+                Este mensaje fue enviado automáticamente por el Sistema VIDA.
+              </p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const emailResult = await this.sendEmail({
+      to: email,
+      subject: `Tu voluntad anticipada vence en ${daysLeft} ${daysLeft === 1 ? 'día' : 'días'}`,
+      html,
+      type: NotificationType.DIRECTIVE_REMINDER,
+      userId,
+      metadata,
+    });
+    const emailStatus = emailResult.success ? 'sent' : 'failed';
+
+    return { smsStatus, emailStatus };
+  }
+
+  /**
+   * Avisa al paciente y a sus representantes que un operador cerró la alerta de pánico (SMS y/o Email)
+   */
+  async sendPanicResolved(params: {
+    userId: string;
+    alertId: string;
+    patientName: string;
+    outcome: string; // Descripción legible del resultado
+    recipients: Array<{ name: string; phone?: string | null; email?: string | null; isPatient: boolean }>;
+  }): Promise<Array<{ name: string; smsStatus: 'sent' | 'failed' | 'skipped'; emailStatus: 'sent' | 'failed' | 'skipped' }>> {
+    const { userId, alertId, patientName, outcome, recipients } = params;
+    const metadata = { alertId };
+    const results = [];
+
+    for (const recipient of recipients) {
+      const subjectName = recipient.isPatient ? 'Tu alerta de emergencia' : `La alerta de emergencia de ${patientName}`;
+
+      let smsStatus: 'sent' | 'failed' | 'skipped' = 'skipped';
+      if (recipient.phone) {
+        const smsResult = await this.sendSMS({
+          to: recipient.phone,
+          body: `VIDA: ${subjectName} fue cerrada por un operador. Resultado: ${outcome}.`,
+          type: NotificationType.PANIC_RESOLVED,
+          userId,
+          metadata,
+        });
+        smsStatus = smsResult.success ? 'sent' : 'failed';
+      }
+
+      let emailStatus: 'sent' | 'failed' | 'skipped' = 'skipped';
+      if (recipient.email) {
+        const html = `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          </head>
+          <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 20px; background: #f3f4f6;">
+            <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+              <div style="background: #16a34a; color: white; padding: 24px; text-align: center;">
+                <h1 style="margin: 0; font-size: 24px;">Alerta de emergencia cerrada</h1>
+              </div>
+              <div style="padding: 24px;">
+                <p style="font-size: 18px; color: #1f2937;">Hola ${recipient.name},</p>
+                <p style="color: #374151;">
+                  ${subjectName} fue cerrada por un operador del Sistema VIDA.
+                </p>
+                <p style="color: #374151;"><strong>Resultado:</strong> ${outcome}</p>
+                <div style="margin-top: 24px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+                  <p style="color: #9ca3af; font-size: 14px; margin: 0;">
+                    Este mensaje fue enviado automáticamente por el Sistema VIDA.
+                  </p>
+                </div>
+              </div>
+            </div>
+          </body>
+          </html>
+        `;
+
+        const emailResult = await this.sendEmail({
+          to: recipient.email,
+          subject: `${subjectName} fue cerrada`,
+          html,
+          type: NotificationType.PANIC_RESOLVED,
+          userId,
+          metadata,
+        });
+        emailStatus = emailResult.success ? 'sent' : 'failed';
+      }
+
+      results.push({ name: recipient.name, smsStatus, emailStatus });
+    }
+
+    return results;
+  }
+
+  /**
+   * Avisa al paciente y a sus representantes que un código QR tuvo escaneos sospechosos
+   */
+  async sendQrAbuseAlert(params: {
+    userId: string;
+    incidentId: string;
+    patientName: string;
+    tokenLabel: string;
+    reason: string; // Descripción legible de la regla que se activó
+    tokenSuspended: boolean;
+    recipients: Array<{ name: string; phone?: string | null; email?: string | null; isPatient: boolean }>;
+  }): Promise<Array<{ name: string; smsStatus: 'sent' | 'failed' | 'skipped'; emailStatus: 'sent' | 'failed' | 'skipped' }>> {
+    const { userId, incidentId, patientName, tokenLabel, reason, tokenSuspended, recipients } = params;
+    const metadata = { incidentId };
+    const results = [];
+
+    for (const recipient of recipients) {
+      const subjectName = recipient.isPatient
+        ? `Tu código "${tokenLabel}"`
+        : `El código "${tokenLabel}" de ${patientName}`;
+      const action = tokenSuspended
+        ? 'Lo suspendimos: el acceso público queda bloqueado, el personal médico verificado todavía puede consultarlo.'
+        : 'Sigue activo; revisa dónde lo tienes.';
+      const nextStep = recipient.isPatient
+        ? 'Puedes reactivarlo o revocarlo desde la sección Mi Código QR.'
+        : `Comunícate con ${patientName} para confirmar que tiene el objeto consigo.`;
+
+      let smsStatus: 'sent' | 'failed' | 'skipped' = 'skipped';
+      if (recipient.phone) {
+        const smsResult = await this.sendSMS({
+          to: recipient.phone,
+          body: `VIDA: ${subjectName} ${reason}. ${action}`,
+          type: NotificationType.QR_ABUSE_ALERT,
+          userId,
+          metadata,
+        });
+        smsStatus = smsResult.success ? 'sent' : 'failed';
+      }
+
+      let emailStatus: 'sent' | 'failed' | 'skipped' = 'skipped';
+      if (recipient.email) {
+        const html = `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          </head>
+          <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 20px; background: #f3f4f6;">
+            <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+              <div style="background: #d97706; color: white; padding: 24px; text-align: center;">
+                <h1 style="margin: 0; font-size: 24px;">Actividad sospechosa en un código QR</h1>
+              </div>
+              <div style="padding: 24px;">
+                <p style="font-size: 18px; color: #1f2937;">Hola ${recipient.name},</p>
+                <p style="color: #374151;">
+                  ${subjectName} ${reason}. Puede ser una foto del código publicada o un intento de abuso.
+                </p>
+                <p style="color: #374151;"><strong>${action}</strong></p>
+                <p style="color: #374151;">${nextStep}</p>
+                <div style="margin-top: 24px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+                  <p style="color: #9ca3af; font-size: 14px; margin: 0;">
+                    Este mensaje fue enviado automáticamente por el Sistema VIDA.
+                  </p>
+                </div>
+              </div>
+            </div>
+          </body>
+          </html>
+        `;
+
+        const emailResult = await this.sendEmail({
+          to: recipient.email,
+          subject: `${subjectName} tuvo escaneos sospechosos`,
+          html,
+          type: NotificationType.QR_ABUSE_ALERT,
+          userId,
+          metadata,
+        });
+        emailStatus = emailResult.success ? 'sent' : 'failed';
+      }
+
+      results.push({ name: recipient.name, smsStatus, emailStatus });
+    }
+
+    return results;
+  }
+
   /**
    * Notifica a todos los representantes de un usuario (SMS + Email)
+   * Los que no han aceptado la designación se marcan como no confirmados,
+   * o se omiten si REPRESENTATIVE_NOTIFY_UNCONFIRMED=false
+   * Los que exceden el límite del plan se omiten; el SMS de accesos QR requiere smsNotifications
+   * (las alertas de pánico siempre se envían por SMS)
    */
   async notifyAllRepresentatives(params: {
     userId: string;
@@ -318,14 +897,16 @@ class NotificationService {
     accessorName?: string;
     nearestHospital?: string;
     nearbyHospitals?: Array<{ name: string; distance: number; phone?: string }>;
+    priority?: number; // Solo un nivel de la cadena de escalamiento
   }): Promise<NotificationResult[]> {
-    const { userId, patientName, type, location, accessorName, nearestHospital, nearbyHospitals } = params;
+    const { userId, patientName, type, location, accessorName, nearestHospital, nearbyHospitals, priority } = params;
 
     // Obtener representantes con notificacion activada
     const representatives = await prisma.representative.findMany({
       where: {
         userId,
         notifyOnEmergency: true,
+        priority,
       },
       orderBy: { priority: 'asc' },
     });
@@ -335,18 +916,46 @@ class NotificationService {
       return [];
     }
 
+    const [activeIds, smsAllowed] = await Promise.all([
+      premiumFeaturesService.getActiveRepresentativeIds(userId),
+      type === 'PANIC' ? Promise.resolve(true) : premiumFeaturesService.hasFeature(userId, 'smsNotifications'),
+    ]);
+
     const results: NotificationResult[] = [];
 
     for (const rep of representatives) {
+      const confirmed = rep.status === RepresentativeStatus.ACCEPTED;
+
+      // Quien rechazó la designación nunca se notifica, ni quien excede el límite del plan
+      if (
+        rep.status === RepresentativeStatus.DECLINED ||
+        (!confirmed && !config.representatives.notifyUnconfirmed) ||
+        (activeIds && !activeIds.has(rep.id))
+      ) {
+        results.push({
+          representativeId: rep.id,
+          name: rep.name,
+          phone: rep.phone,
+          email: rep.email || undefined,
+          confirmed,
+          smsStatus: 'skipped',
+          emailStatus: 'skipped',
+        });
+        continue;
+      }
+
       // Enviar SMS
-      const smsResult = await this.sendEmergencySMS({
-        to: rep.phone,
-        patientName,
-        location,
-        type,
-        accessorName,
-        nearestHospital,
-      });
+      let smsResult: SMSResult = { success: false };
+      if (smsAllowed) {
+        smsResult = await this.sendEmergencySMS({
+          to: rep.phone,
+          patientName,
+          location,
+          type,
+          accessorName,
+          nearestHospital,
+        });
+      }
 
       // Enviar Email si tiene email configurado
       let emailResult: EmailResult = { success: false };
@@ -367,7 +976,8 @@ class NotificationService {
         name: rep.name,
         phone: rep.phone,
         email: rep.email || undefined,
-        smsStatus: smsResult.success ? 'sent' : 'failed',
+        confirmed,
+        smsStatus: smsAllowed ? (smsResult.success ? 'sent' : 'failed') : 'skipped',
         emailStatus: rep.email ? (emailResult.success ? 'sent' : 'failed') : 'skipped',
         messageId: smsResult.messageId,
         error: smsResult.error || emailResult.error,
@@ -417,7 +1027,7 @@ class NotificationService {
   /**
    * Formatea numero de telefono para Twilio (E.164)
    */
-  private formatPhoneNumber(phone: string): string {
+  formatPhoneNumber(phone: string): string {
     // Remover espacios y caracteres especiales
     let cleaned = phone.replace(/[\s\-\(\)\.]/g, '');
 
@@ -0,0 +1,94 @@
+// src/modules/oauth/oauth.controller.ts
+import { Router, Request, Response } from 'express';
+import { oauthService, OAuthError } from './oauth.service';
+
+const router = Router();
+
+// Un valor mal codificado cuenta como credencial ausente (invalid_client), no como error del servidor
+function decodeCredential(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+/**
+ * Extrae client_id/client_secret de HTTP Basic o del cuerpo (RFC 6749 §2.3.1)
+ */
+function extractClientCredentials(req: Request): { clientId?: string; clientSecret?: string } {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader && authHeader.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      return {
+        clientId: decodeCredential(decoded.slice(0, separator)),
+        clientSecret: decodeCredential(decoded.slice(separator + 1)),
+      };
+    }
+  }
+
+  return {
+    clientId: asString(req.body.client_id),
+    clientSecret: asString(req.body.client_secret),
+  };
+}
+
+/**
+ * POST /api/v1/oauth/token
+ * Emite tokens para sistemas hospitalarios (grant client_credentials)
+ * Acepta application/x-www-form-urlencoded o JSON; las respuestas siguen RFC 6749
+ */
+router.post('/token', async (req: Request, res: Response) => {
+  res.set('Cache-Control', 'no-store');
+  res.set('Pragma', 'no-cache');
+
+  try {
+    const { grant_type: grantType, scope } = req.body;
+
+    if (grantType !== 'client_credentials') {
+      return res.status(400).json({
+        error: 'unsupported_grant_type',
+        error_description: 'Solo se admite grant_type=client_credentials',
+      });
+    }
+
+    const { clientId, clientSecret } = extractClientCredentials(req);
+
+    if (!clientId || !clientSecret) {
+      return res.status(401).json({
+        error: 'invalid_client',
+        error_description: 'client_id y client_secret son requeridos',
+      });
+    }
+
+    const token = await oauthService.issueClientCredentialsToken(
+      clientId,
+      clientSecret,
+      scope,
+      req.ip,
+      req.get('User-Agent')
+    );
+
+    res.json(token);
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return res.status(error.status).json({
+        error: error.error,
+        error_description: error.description,
+      });
+    }
+
+    console.error('Error emitiendo token OAuth:', error);
+    res.status(500).json({
+      error: 'server_error',
+      error_description: 'Error interno del servidor',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,208 @@
+// src/modules/oauth/oauth.service.ts
+import { PrismaClient } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import config from '../../config';
+
+const prisma = new PrismaClient();
+
+/**
+ * Scopes disponibles para clientes institucionales (PAE)
+ */
+export const OAUTH_SCOPES = {
+  EMERGENCY_READ: 'emergency:read',       // Iniciar accesos de emergencia y leer datos del paciente
+  EMERGENCY_HISTORY: 'emergency:history', // Consultar accesos realizados por la institución
+} as const;
+
+export type OAuthScope = typeof OAUTH_SCOPES[keyof typeof OAUTH_SCOPES];
+
+export const ALL_OAUTH_SCOPES: string[] = Object.values(OAUTH_SCOPES);
+
+interface OAuthTokenPayload {
+  sub: string;        // institutionId
+  clientId: string;
+  scope: string;      // Scopes separados por espacio (RFC 6749)
+  type: 'oauth_access';
+  iat?: number;
+}
+
+export interface OAuthClientContext {
+  institutionId: string;
+  institutionName: string;
+  clientId: string;
+  scopes: string[];
+}
+
+interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
+
+/**
+ * Error con códigos estándar de OAuth2 (RFC 6749 §5.2)
+ */
+export class OAuthError extends Error {
+  constructor(public error: string, public description: string, public status: number = 400) {
+    super(description);
+    this.name = 'OAuthError';
+  }
+}
+
+class OAuthService {
+  /**
+   * Emite un token de acceso con el grant client_credentials
+   */
+  async issueClientCredentialsToken(
+    clientId: string,
+    clientSecret: string,
+    requestedScope?: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<OAuthTokenResponse> {
+    const institution = await prisma.medicalInstitution.findUnique({
+      where: { oauthClientId: clientId },
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        oauthClientSecret: true,
+        oauthScopes: true,
+        oauthIssuedAt: true,
+      },
+    });
+
+    if (!institution || !institution.oauthClientSecret || typeof clientSecret !== 'string') {
+      throw new OAuthError('invalid_client', 'Credenciales de cliente inválidas', 401);
+    }
+
+    const isSecretValid = await bcrypt.compare(clientSecret, institution.oauthClientSecret);
+    if (!isSecretValid) {
+      await this.logAudit(institution.id, institution.name, 'OAUTH_TOKEN_DENIED', { clientId }, ipAddress, userAgent);
+      throw new OAuthError('invalid_client', 'Credenciales de cliente inválidas', 401);
+    }
+
+    if (!institution.isActive) {
+      throw new OAuthError('unauthorized_client', 'La institución no está activa', 400);
+    }
+
+    // Si no se solicita scope se otorgan todos los permitidos
+    const allowedScopes = institution.oauthScopes;
+    const scopes = requestedScope
+      ? requestedScope.split(' ').filter(Boolean)
+      : allowedScopes;
+
+    const invalidScopes = scopes.filter((s) => !allowedScopes.includes(s));
+    if (scopes.length === 0 || invalidScopes.length > 0) {
+      throw new OAuthError(
+        'invalid_scope',
+        `Scope no permitido para este cliente: ${invalidScopes.join(' ') || '(vacío)'}`
+      );
+    }
+
+    // iat nunca en el mismo segundo (o antes) que la emisión de las credenciales:
+    // verifyAccessToken rechaza esos tokens sin margen
+    const issuedAtSeconds = institution.oauthIssuedAt ? Math.ceil(institution.oauthIssuedAt.getTime() / 1000) : 0;
+    const payload: OAuthTokenPayload = {
+      sub: institution.id,
+      clientId,
+      scope: scopes.join(' '),
+      type: 'oauth_access',
+      iat: Math.max(Math.floor(Date.now() / 1000), issuedAtSeconds),
+    };
+
+    const accessToken = jwt.sign(payload, config.oauth.secret, {
+      expiresIn: config.oauth.tokenExpiresInSeconds,
+    });
+
+    await this.logAudit(institution.id, institution.name, 'OAUTH_TOKEN_ISSUED', { clientId, scope: payload.scope }, ipAddress, userAgent);
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: config.oauth.tokenExpiresInSeconds,
+      scope: payload.scope,
+    };
+  }
+
+  /**
+   * Verifica un token de cliente institucional
+   * Rechaza tokens emitidos antes de la última rotación o revocación de credenciales
+   */
+  async verifyAccessToken(token: string): Promise<OAuthClientContext> {
+    let payload: OAuthTokenPayload;
+    try {
+      payload = jwt.verify(token, config.oauth.secret) as OAuthTokenPayload;
+    } catch (error: any) {
+      if (error.name === 'TokenExpiredError') {
+        throw new OAuthError('invalid_token', 'Token expirado', 401);
+      }
+      throw new OAuthError('invalid_token', 'Token inválido', 401);
+    }
+
+    if (payload.type !== 'oauth_access') {
+      throw new OAuthError('invalid_token', 'Token inválido', 401);
+    }
+
+    const institution = await prisma.medicalInstitution.findUnique({
+      where: { id: payload.sub },
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        oauthClientId: true,
+        oauthIssuedAt: true,
+      },
+    });
+
+    if (!institution || !institution.isActive || institution.oauthClientId !== payload.clientId) {
+      throw new OAuthError('invalid_token', 'Credenciales revocadas', 401);
+    }
+
+    // iat tiene precisión de segundos: un token del mismo segundo que la rotación pudo emitirse antes
+    if (institution.oauthIssuedAt && (!payload.iat || payload.iat < Math.ceil(institution.oauthIssuedAt.getTime() / 1000))) {
+      throw new OAuthError('invalid_token', 'Credenciales rotadas; solicite un nuevo token', 401);
+    }
+
+    return {
+      institutionId: institution.id,
+      institutionName: institution.name,
+      clientId: payload.clientId,
+      scopes: payload.scope.split(' '),
+    };
+  }
+
+  /**
+   * Registra eventos del cliente institucional en auditoría
+   */
+  private async logAudit(
+    institutionId: string,
+    institutionName: string,
+    action: string,
+    details?: any,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          actorType: 'INSTITUTION',
+          actorId: institutionId,
+          actorName: institutionName,
+          action,
+          resource: 'oauth',
+          resourceId: institutionId,
+          details,
+          ipAddress,
+          userAgent,
+        },
+      });
+    } catch (error) {
+      console.error('Error registrando auditoría OAuth:', error);
+    }
+  }
+}
+
+export const oauthService = new OAuthService();
+export default oauthService;
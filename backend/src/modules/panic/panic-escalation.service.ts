@@ -0,0 +1,386 @@
+// src/modules/panic/panic-escalation.service.ts
+import { PrismaClient, PanicAlert, PanicStatus, RepresentativeStatus } from '@prisma/client';
+import { HospitalWithDistance } from '../hospital/hospital.service';
+import { notificationService, NotificationResult } from '../notification/notification.service';
+import config from '../../config';
+import { premiumFeaturesService } from '../payments/services/premium-features.service';
+import { notifyOperators } from '../realtime/operator-events';
+import { io } from '../../main';
+
+const prisma = new PrismaClient();
+
+// Respuestas SMS que confirman la atencion de la alerta
+const SMS_ACK_PATTERN = /^\s*(ok|si|sí|voy|confirmo|1)(?![\p{L}\d])/iu;
+
+export type AcknowledgementChannel = 'PORTAL' | 'SOCKET' | 'SMS' | 'OPERATOR';
+
+export interface PanicAcknowledgement {
+  channel: AcknowledgementChannel;
+  name: string;
+  representativeId?: string;
+  adminId?: string;
+  at: string;
+}
+
+export interface EscalationStep {
+  level: number;
+  type: 'REPRESENTATIVES' | 'OPERATOR_QUEUE';
+  priority?: number;
+  notifiedAt: string;
+  notifications?: NotificationResult[];
+}
+
+type AlertWithPatient = PanicAlert & { user: { name: string } };
+
+const wasDelivered = (result: NotificationResult) =>
+  result.smsStatus === 'sent' || result.emailStatus === 'sent';
+
+/**
+ * Cadena de escalamiento de alertas de panico
+ *
+ * Cada nivel corresponde a un valor de Representative.priority. Si nadie confirma
+ * en PANIC_ESCALATION_MINUTES se notifica al siguiente nivel; al agotarse la cadena
+ * la alerta pasa a la cola de operadores.
+ */
+class PanicEscalationService {
+  /**
+   * Notifica el primer nivel de la cadena al activar la alerta
+   */
+  async start(alert: AlertWithPatient): Promise<EscalationStep> {
+    return this.escalate(alert);
+  }
+
+  /**
+   * Escala las alertas activas sin confirmar cuyo plazo vencio (tarea programada)
+   */
+  async processDueEscalations(): Promise<{ due: number; escalated: number; queued: number }> {
+    const due = await prisma.panicAlert.findMany({
+      where: {
+        status: PanicStatus.ACTIVE,
+        acknowledgedAt: null,
+        nextEscalationAt: { lte: new Date() },
+      },
+      include: { user: { select: { name: true } } },
+    });
+
+    let escalated = 0;
+    let queued = 0;
+
+    for (const alert of due) {
+      // Reclamar el paso para no notificar dos veces el mismo nivel
+      const { count } = await prisma.panicAlert.updateMany({
+        where: {
+          id: alert.id,
+          status: PanicStatus.ACTIVE,
+          acknowledgedAt: null,
+          nextEscalationAt: alert.nextEscalationAt,
+        },
+        data: { nextEscalationAt: null },
+      });
+      if (count === 0) continue;
+
+      try {
+        const step = await this.escalate(alert);
+        if (step.type === 'OPERATOR_QUEUE') {
+          queued++;
+        } else {
+          escalated++;
+        }
+      } catch (error) {
+        console.error(`Error escalando alerta ${alert.id}:`, error);
+        // Se reintenta en la siguiente ejecucion
+        await prisma.panicAlert.updateMany({
+          where: { id: alert.id, acknowledgedAt: null },
+          data: { nextEscalationAt: alert.nextEscalationAt },
+        });
+      }
+    }
+
+    return { due: due.length, escalated, queued };
+  }
+
+  /**
+   * Confirmacion desde la cuenta vinculada del representante (portal o socket)
+   */
+  async acknowledgeByAccount(alertId: string, accountUserId: string, channel: 'PORTAL' | 'SOCKET') {
+    const alert = await this.findActiveAlert(alertId);
+
+    const representative = await prisma.representative.findFirst({
+      where: {
+        userId: alert.userId,
+        accountUserId,
+        status: RepresentativeStatus.ACCEPTED,
+      },
+    });
+
+    if (!representative) {
+      throw { code: 'FORBIDDEN', message: 'No eres representante de este paciente', status: 403 };
+    }
+
+    return this.recordAcknowledgement(alert, {
+      channel,
+      name: representative.name,
+      representativeId: representative.id,
+    }, accountUserId);
+  }
+
+  /**
+   * Confirmacion por respuesta SMS de un representante notificado
+   * Se asocia a la alerta activa mas reciente en la que se notifico a ese telefono
+   */
+  async acknowledgeBySms(from: string, body: string): Promise<{ acknowledged: boolean; patientName?: string }> {
+    if (!SMS_ACK_PATTERN.test(body)) {
+      return { acknowledged: false };
+    }
+
+    const sender = notificationService.formatPhoneNumber(from);
+
+    const alerts = await prisma.panicAlert.findMany({
+      where: { status: PanicStatus.ACTIVE },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        user: {
+          select: {
+            name: true,
+            representatives: {
+              where: { status: { not: RepresentativeStatus.DECLINED } },
+              select: { id: true, name: true, phone: true },
+            },
+          },
+        },
+      },
+    });
+
+    for (const alert of alerts) {
+      const notified = new Set(
+        this.getSteps(alert)
+          .flatMap((step) => step.notifications || [])
+          .filter((result) => result.smsStatus === 'sent')
+          .map((result) => result.representativeId)
+      );
+
+      const representative = alert.user.representatives.find(
+        (rep) => notified.has(rep.id) && notificationService.formatPhoneNumber(rep.phone) === sender
+      );
+
+      if (representative) {
+        await this.recordAcknowledgement(alert, {
+          channel: 'SMS',
+          name: representative.name,
+          representativeId: representative.id,
+        });
+        return { acknowledged: true, patientName: alert.user.name };
+      }
+    }
+
+    return { acknowledged: false };
+  }
+
+  /**
+   * Confirmacion de un operador desde la cola de administracion
+   */
+  async acknowledgeByOperator(alertId: string, admin: { id: string; name: string }) {
+    const alert = await this.findActiveAlert(alertId);
+
+    return this.recordAcknowledgement(alert, {
+      channel: 'OPERATOR',
+      name: admin.name,
+      adminId: admin.id,
+    });
+  }
+
+  /**
+   * Notifica el siguiente nivel de prioridad o, si no quedan, pasa a la cola de operadores
+   */
+  private async escalate(alert: AlertWithPatient): Promise<EscalationStep> {
+    const steps = this.getSteps(alert);
+    const lastPriority = [...steps].reverse().find((step) => step.type === 'REPRESENTATIVES')?.priority;
+    const priorities = await this.getEscalationPriorities(alert.userId);
+    const nextPriority = priorities.find((priority) => lastPriority === undefined || priority > lastPriority);
+
+    const now = new Date();
+    const level = steps.length + 1;
+    let step: EscalationStep;
+    let nextEscalationAt: Date | null = null;
+
+    if (nextPriority === undefined) {
+      step = { level, type: 'OPERATOR_QUEUE', notifiedAt: now.toISOString() };
+    } else {
+      const hospitals = (alert.nearbyHospitals as HospitalWithDistance[] | null) || [];
+      // Ultima posicion del trayecto en vivo (o la de activacion)
+      const location = await prisma.panicLocationPoint.findFirst({
+        where: { alertId: alert.id },
+        orderBy: { recordedAt: 'desc' },
+        select: { latitude: true, longitude: true },
+      }) || { latitude: alert.latitude, longitude: alert.longitude };
+
+      const notifications = await notificationService.notifyAllRepresentatives({
+        userId: alert.userId,
+        patientName: alert.user.name,
+        type: 'PANIC',
+        location: { lat: location.latitude, lng: location.longitude },
+        nearestHospital: hospitals[0]?.name,
+        nearbyHospitals: hospitals.map((h) => ({
+          name: h.name,
+          distance: h.distance,
+          phone: h.emergencyPhone || h.phone || undefined,
+        })),
+        priority: nextPriority,
+      });
+
+      step = { level, type: 'REPRESENTATIVES', priority: nextPriority, notifiedAt: now.toISOString(), notifications };
+
+      // Si no se entrego ninguna notificacion se pasa al siguiente nivel sin esperar
+      nextEscalationAt = notifications.some(wasDelivered)
+        ? new Date(now.getTime() + config.jobs.panicEscalationMinutes * 60 * 1000)
+        : now;
+    }
+
+    const previousNotifications = (alert.notificationsSent as NotificationResult[] | null) || [];
+
+    await prisma.panicAlert.update({
+      where: { id: alert.id },
+      data: {
+        escalationLevel: level,
+        escalationSteps: [...steps, step] as any,
+        notificationsSent: [...previousNotifications, ...(step.notifications || [])] as any,
+        ...(step.type === 'OPERATOR_QUEUE' && { operatorQueuedAt: now }),
+      },
+    });
+
+    // Una confirmacion recibida mientras se notificaba detiene la cadena
+    if (nextEscalationAt) {
+      await prisma.panicAlert.updateMany({
+        where: { id: alert.id, status: PanicStatus.ACTIVE, acknowledgedAt: null },
+        data: { nextEscalationAt },
+      });
+    }
+
+    const payload = {
+      alertId: alert.id,
+      level,
+      type: step.type,
+      priority: step.priority,
+      representatives: (step.notifications || []).filter(wasDelivered).map((result) => result.name),
+      nextEscalationAt,
+      timestamp: now,
+    };
+    io.to(`user-${alert.userId}`).emit('panic-escalated', payload);
+    io.to(`representative-${alert.userId}`).emit('panic-escalated', payload);
+    notifyOperators(alert.id, step.type === 'OPERATOR_QUEUE' ? 'QUEUED' : 'ESCALATED');
+
+    if (step.type === 'OPERATOR_QUEUE') {
+      console.log(`📟 Alerta ${alert.id} sin confirmacion de representantes: enviada a cola de operadores`);
+    } else {
+      console.log(`📣 Alerta ${alert.id} escalada al nivel ${level} (prioridad ${nextPriority})`);
+    }
+
+    return step;
+  }
+
+  /**
+   * Prioridades (ordenadas) de los representantes que pueden recibir la alerta
+   */
+  private async getEscalationPriorities(userId: string): Promise<number[]> {
+    // Los representantes suspendidos por el límite del plan no forman parte de la cadena
+    const activeIds = await premiumFeaturesService.getActiveRepresentativeIds(userId);
+    const representatives = await prisma.representative.findMany({
+      where: {
+        userId,
+        notifyOnEmergency: true,
+        status: config.representatives.notifyUnconfirmed
+          ? { not: RepresentativeStatus.DECLINED }
+          : RepresentativeStatus.ACCEPTED,
+      },
+      orderBy: { priority: 'asc' },
+      select: { id: true, priority: true },
+    });
+
+    return [...new Set(
+      representatives
+        .filter((rep) => !activeIds || activeIds.has(rep.id))
+        .map((rep) => rep.priority)
+    )];
+  }
+
+  private async recordAcknowledgement(
+    alert: PanicAlert,
+    acknowledgement: Omit<PanicAcknowledgement, 'at'>,
+    actorId?: string
+  ) {
+    const acknowledgements = (alert.acknowledgements as PanicAcknowledgement[] | null) || [];
+
+    // Confirmar dos veces no duplica el registro
+    const existing = acknowledgements.find((ack) =>
+      (acknowledgement.representativeId && ack.representativeId === acknowledgement.representativeId) ||
+      (acknowledgement.adminId && ack.adminId === acknowledgement.adminId)
+    );
+    if (existing) {
+      return { alertId: alert.id, acknowledgedAt: alert.acknowledgedAt, acknowledgement: existing };
+    }
+
+    const now = new Date();
+    const entry: PanicAcknowledgement = { ...acknowledgement, at: now.toISOString() };
+    const acknowledgedAt = alert.acknowledgedAt || now;
+
+    await prisma.panicAlert.update({
+      where: { id: alert.id },
+      data: {
+        acknowledgements: [...acknowledgements, entry] as any,
+        acknowledgedAt,
+        nextEscalationAt: null,
+      },
+    });
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: alert.userId,
+          actorType: entry.channel === 'OPERATOR' ? 'SYSTEM' : entry.channel === 'SMS' ? 'PUBLIC' : 'USER',
+          actorId: actorId || entry.adminId,
+          actorName: entry.name,
+          action: 'PANIC_ACKNOWLEDGED',
+          resource: 'panic_alerts',
+          resourceId: alert.id,
+          details: { channel: entry.channel, representativeId: entry.representativeId },
+        },
+      });
+    } catch (error) {
+      console.error('Error registrando auditoria de confirmacion:', error);
+    }
+
+    const payload = {
+      alertId: alert.id,
+      channel: entry.channel,
+      name: entry.name,
+      acknowledgedAt,
+      timestamp: now,
+    };
+    io.to(`user-${alert.userId}`).emit('panic-acknowledged', payload);
+    io.to(`representative-${alert.userId}`).emit('panic-acknowledged', payload);
+    notifyOperators(alert.id, 'ACKNOWLEDGED');
+
+    console.log(`✅ Alerta ${alert.id} confirmada por ${entry.name} (${entry.channel})`);
+
+    return { alertId: alert.id, acknowledgedAt, acknowledgement: entry };
+  }
+
+  private async findActiveAlert(alertId: string): Promise<PanicAlert> {
+    const alert = await prisma.panicAlert.findFirst({
+      where: { id: alertId, status: PanicStatus.ACTIVE },
+    });
+
+    if (!alert) {
+      throw { code: 'ALERT_NOT_FOUND', message: 'Alerta no encontrada o ya no esta activa', status: 404 };
+    }
+
+    return alert;
+  }
+
+  private getSteps(alert: PanicAlert): EscalationStep[] {
+    return (alert.escalationSteps as EscalationStep[] | null) || [];
+  }
+}
+
+export const panicEscalationService = new PanicEscalationService();
+export default panicEscalationService;
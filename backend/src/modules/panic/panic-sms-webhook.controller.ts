@@ -0,0 +1,57 @@
+// src/modules/panic/panic-sms-webhook.controller.ts
+import { Router, Request, Response } from 'express';
+import twilio from 'twilio';
+import config from '../../config';
+import { notificationService } from '../notification/notification.service';
+import { panicEscalationService } from './panic-escalation.service';
+
+const router = Router();
+
+/**
+ * Verifica la firma X-Twilio-Signature
+ * En modo simulacion (sin Twilio) y fuera de produccion se aceptan solicitudes sin firma,
+ * lo que permite simular respuestas SMS en desarrollo
+ */
+function isAuthentic(req: Request): boolean {
+  if (notificationService.isInSimulationMode()) {
+    return config.env !== 'production';
+  }
+
+  const signature = req.get('X-Twilio-Signature');
+  if (!signature) {
+    return false;
+  }
+
+  const url = config.twilio.inboundWebhookUrl || `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+  return twilio.validateRequest(config.twilio.token, signature, url, req.body);
+}
+
+/**
+ * POST /api/v1/webhooks/sms
+ * SMS entrantes de Twilio (form-urlencoded: From, Body)
+ * Una respuesta "OK" de un representante notificado confirma la alerta de panico
+ */
+router.post('/', async (req: Request, res: Response) => {
+  if (!isAuthentic(req)) {
+    console.error('Webhook SMS con firma invalida');
+    return res.status(403).send('Invalid signature');
+  }
+
+  const { From: from, Body: body } = req.body as { From?: string; Body?: string };
+  const twiml = new twilio.twiml.MessagingResponse();
+
+  try {
+    if (from && body) {
+      const result = await panicEscalationService.acknowledgeBySms(from, body);
+      if (result.acknowledged) {
+        twiml.message(`VIDA: Gracias. Confirmamos que atiende la emergencia de ${result.patientName}.`);
+      }
+    }
+  } catch (error) {
+    console.error('Error procesando SMS entrante:', error);
+  }
+
+  res.type('text/xml').send(twiml.toString());
+});
+
+export default router;
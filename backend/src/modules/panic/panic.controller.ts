@@ -162,6 +162,107 @@ router.get('/history', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/v1/emergency/panic/:alertId/location
+ * Registra la ubicacion actual del paciente mientras la alerta esta activa
+ */
+router.post('/:alertId/location', async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { alertId } = req.params;
+    const { latitude, longitude, accuracy, heading, speed, recordedAt } = req.body;
+
+    if (!isValidCoordinates(latitude, longitude)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_LOCATION',
+          message: 'Las coordenadas proporcionadas no son validas',
+        },
+      });
+    }
+
+    const recordedAtDate = recordedAt ? new Date(recordedAt) : undefined;
+    if (recordedAtDate && isNaN(recordedAtDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TIMESTAMP',
+          message: 'La fecha de la lectura no es valida',
+        },
+      });
+    }
+
+    // Campos opcionales del GPS: se descartan si no son numericos
+    const optionalNumber = (value: unknown) =>
+      typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+    const result = await panicService.updateLocation(alertId, userId, {
+      latitude,
+      longitude,
+      accuracy: optionalNumber(accuracy),
+      heading: optionalNumber(heading),
+      speed: optionalNumber(speed),
+      recordedAt: recordedAtDate,
+    });
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    if (!error.status) {
+      console.error('Error actualizando ubicacion de alerta:', error);
+    }
+    return res.status(error.status || 500).json({
+      success: false,
+      error: {
+        code: error.code || 'LOCATION_ERROR',
+        message: error.status ? error.message : 'Error al actualizar la ubicacion',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/v1/emergency/panic/:alertId/trail
+ * Obtiene el trayecto en vivo de una alerta y los hospitales cercanos vigentes
+ */
+router.get('/:alertId/trail', async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { alertId } = req.params;
+
+    const alert = await panicService.getAlertById(alertId, userId);
+
+    if (!alert) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Alerta no encontrada',
+        },
+      });
+    }
+
+    const trail = await panicService.getLocationTrail(alert);
+
+    return res.json({
+      success: true,
+      data: trail,
+    });
+  } catch (error: any) {
+    console.error('Error obteniendo trayecto de alerta:', error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'FETCH_ERROR',
+        message: 'Error al obtener el trayecto de la alerta',
+      },
+    });
+  }
+});
+
 /**
  * GET /api/v1/emergency/panic/:alertId
  * Obtiene una alerta especifica
@@ -1,8 +1,12 @@
 // src/modules/panic/panic.service.ts
-import { PrismaClient, PanicStatus } from '@prisma/client';
+import { PrismaClient, PanicAlert, PanicStatus, RepresentativeStatus } from '@prisma/client';
 import { hospitalService, HospitalWithDistance } from '../hospital/hospital.service';
 import { notificationService } from '../notification/notification.service';
 import { pupService } from '../pup/pup.service';
+import { haversineDistance } from '../../common/utils/geolocation';
+import { panicEscalationService, PanicAcknowledgement } from './panic-escalation.service';
+import config from '../../config';
+import { notifyOperators } from '../realtime/operator-events';
 import { io } from '../../main';
 
 const prisma = new PrismaClient();
@@ -15,6 +19,24 @@ interface CreatePanicParams {
   message?: string;
 }
 
+interface LocationUpdateParams {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+  recordedAt?: Date;
+}
+
+export interface LiveLocationPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  heading: number | null;
+  speed: number | null;
+  recordedAt: Date;
+}
+
 interface PanicAlertResponse {
   alertId: string;
   status: PanicStatus;
@@ -22,9 +44,15 @@ interface PanicAlertResponse {
   representativesNotified: Array<{
     name: string;
     phone: string;
+    confirmed: boolean;
     smsStatus: 'sent' | 'failed' | 'skipped';
     emailStatus: 'sent' | 'failed' | 'skipped';
   }>;
+  escalation: {
+    level: number;
+    operatorQueued: boolean; // Sin representantes a quien notificar
+    escalationMinutes: number;
+  };
   createdAt: Date;
 }
 
@@ -33,7 +61,7 @@ class PanicService {
    * Activa una alerta de panico
    * 1. Crea registro en BD
    * 2. Busca hospitales cercanos (filtrado inteligente por condiciones)
-   * 3. Notifica a representantes via SMS y Email
+   * 3. Notifica al primer nivel de representantes via SMS y Email (escalamiento por prioridad)
    * 4. Emite evento WebSocket
    */
   async activatePanic(params: CreatePanicParams): Promise<PanicAlertResponse> {
@@ -55,32 +83,8 @@ class PanicService {
       throw new Error('Usuario no encontrado');
     }
 
-    // 2. Obtener condiciones del paciente para filtrado inteligente
-    const patientProfile = await pupService.getProfileByUserId(userId);
-    const patientConditions = patientProfile?.conditions || [];
-
-    // 3. Buscar hospitales cercanos (inteligente si hay condiciones)
-    let nearbyHospitals: HospitalWithDistance[];
-
-    if (patientConditions.length > 0) {
-      // Búsqueda inteligente basada en condiciones del paciente
-      nearbyHospitals = await hospitalService.findNearbyHospitalsForConditions({
-        latitude,
-        longitude,
-        patientConditions,
-        radiusKm: 20,
-        limit: 5,
-        prioritizeByCondition: true,
-      });
-    } else {
-      // Búsqueda normal
-      nearbyHospitals = await hospitalService.findNearbyHospitals({
-        latitude,
-        longitude,
-        radiusKm: 20,
-        limit: 5,
-      });
-    }
+    // 2-3. Buscar hospitales cercanos (filtrado inteligente por condiciones del paciente)
+    const { nearbyHospitals, patientConditions } = await this.findHospitalsForPatient(userId, latitude, longitude);
 
     const nearestHospital = nearbyHospitals[0]?.name || null;
 
@@ -94,32 +98,19 @@ class PanicService {
         message,
         status: PanicStatus.ACTIVE,
         nearbyHospitals: nearbyHospitals as any,
+        lastLocationAt: new Date(),
+        // Primer punto del trayecto en vivo
+        locationPoints: {
+          create: { latitude, longitude, accuracy, recordedAt: new Date(), hospitalsRefreshed: true },
+        },
       },
     });
 
-    // 5. Notificar a representantes (SMS + Email)
-    const notificationResults = await notificationService.notifyAllRepresentatives({
-      userId,
-      patientName: user.name,
-      type: 'PANIC',
-      location: { lat: latitude, lng: longitude },
-      nearestHospital: nearestHospital || undefined,
-      nearbyHospitals: nearbyHospitals.map(h => ({
-        name: h.name,
-        distance: h.distance,
-        phone: h.emergencyPhone || h.phone || undefined,
-      })),
-    });
-
-    // 6. Actualizar alerta con resultados de notificacion
-    await prisma.panicAlert.update({
-      where: { id: panicAlert.id },
-      data: {
-        notificationsSent: notificationResults as any,
-      },
-    });
+    // 5. Notificar al primer nivel de prioridad (SMS + Email); si nadie confirma se escala
+    const firstStep = await panicEscalationService.start({ ...panicAlert, user: { name: user.name } });
+    const notificationResults = firstStep.notifications || [];
 
-    // 7. Emitir evento WebSocket a representantes
+    // 6. Emitir evento WebSocket a representantes
     const alertData = {
       type: 'PANIC_ALERT',
       alertId: panicAlert.id,
@@ -139,6 +130,7 @@ class PanicService {
     // Emitir a la sala del usuario (representantes conectados)
     io.to(`representative-${userId}`).emit('panic-alert', alertData);
     io.to(`user-${userId}`).emit('panic-alert-sent', alertData);
+    notifyOperators(panicAlert.id, 'CREATED');
 
     console.log(`🚨 ALERTA DE PANICO activada para ${user.name} (${panicAlert.id})`);
     console.log(`   Condiciones: ${patientConditions.join(', ') || 'Ninguna'}`);
@@ -151,13 +143,127 @@ class PanicService {
       representativesNotified: notificationResults.map((r) => ({
         name: r.name,
         phone: r.phone,
+        confirmed: r.confirmed,
         smsStatus: r.smsStatus,
         emailStatus: r.emailStatus,
       })),
+      escalation: {
+        level: firstStep.level,
+        operatorQueued: firstStep.type === 'OPERATOR_QUEUE',
+        escalationMinutes: config.jobs.panicEscalationMinutes,
+      },
       createdAt: panicAlert.createdAt,
     };
   }
 
+  /**
+   * Registra la ubicacion actual del paciente durante una alerta activa
+   * Si se alejo mas de PANIC_HOSPITAL_REFRESH_KM del ultimo calculo se recalculan los hospitales.
+   * El punto se envia por WebSocket a los representantes que confirmaron la alerta.
+   */
+  async updateLocation(alertId: string, userId: string, params: LocationUpdateParams) {
+    const alert = await prisma.panicAlert.findFirst({
+      where: { id: alertId, userId, status: PanicStatus.ACTIVE },
+    });
+
+    if (!alert) {
+      throw { code: 'ALERT_NOT_FOUND', message: 'Alerta no encontrada o ya no esta activa', status: 404 };
+    }
+
+    const { latitude, longitude, accuracy, heading, speed } = params;
+    const now = new Date();
+    // La hora del dispositivo no puede estar en el futuro
+    const recordedAt = params.recordedAt && params.recordedAt < now ? params.recordedAt : now;
+
+    // Punto desde el que se calcularon los hospitales por ultima vez
+    const lastRefresh = await prisma.panicLocationPoint.findFirst({
+      where: { alertId, hospitalsRefreshed: true },
+      orderBy: { recordedAt: 'desc' },
+      select: { latitude: true, longitude: true },
+    });
+    const origin = lastRefresh || { latitude: alert.latitude, longitude: alert.longitude };
+    const refreshHospitals =
+      haversineDistance(origin.latitude, origin.longitude, latitude, longitude) >= config.panic.hospitalRefreshKm;
+
+    let nearbyHospitals: HospitalWithDistance[] | undefined;
+    if (refreshHospitals) {
+      ({ nearbyHospitals } = await this.findHospitalsForPatient(userId, latitude, longitude));
+    }
+
+    const point = await prisma.panicLocationPoint.create({
+      data: {
+        alertId,
+        latitude,
+        longitude,
+        accuracy,
+        heading,
+        speed,
+        recordedAt,
+        hospitalsRefreshed: refreshHospitals,
+      },
+    });
+
+    await prisma.panicAlert.update({
+      where: { id: alertId },
+      data: {
+        lastLocationAt: recordedAt,
+        ...(nearbyHospitals && { nearbyHospitals: nearbyHospitals as any }),
+      },
+    });
+
+    const locationData = {
+      alertId,
+      patientId: userId,
+      point: this.toLocationPoint(point),
+      nearbyHospitals,
+      timestamp: now,
+    };
+
+    // Otras sesiones del paciente y representantes que confirmaron que atienden la alerta
+    io.to(`user-${userId}`).emit('panic-location', locationData);
+    const accountUserIds = await this.getLiveLocationRecipients(alert);
+    accountUserIds.forEach((accountUserId) => io.to(`user-${accountUserId}`).emit('panic-location', locationData));
+    notifyOperators(alertId, 'LOCATION', { point: locationData.point, hospitalsRefreshed: refreshHospitals });
+
+    return {
+      point: locationData.point,
+      hospitalsRefreshed: refreshHospitals,
+      nearbyHospitals,
+    };
+  }
+
+  /**
+   * Trayecto de una alerta (ultimos PANIC_TRAIL_MAX_POINTS puntos) y hospitales vigentes
+   * El llamador es responsable de verificar el acceso a la alerta
+   */
+  async getLocationTrail(alert: PanicAlert) {
+    const points = await prisma.panicLocationPoint.findMany({
+      where: { alertId: alert.id },
+      orderBy: { recordedAt: 'desc' },
+      take: config.panic.trailMaxPoints,
+    });
+
+    const trail = points.reverse().map((point) => this.toLocationPoint(point));
+
+    return {
+      alertId: alert.id,
+      status: alert.status,
+      // Alertas previas al trayecto en vivo solo tienen el punto de activacion
+      points: trail.length > 0
+        ? trail
+        : [{
+            latitude: alert.latitude,
+            longitude: alert.longitude,
+            accuracy: alert.accuracy,
+            heading: null,
+            speed: null,
+            recordedAt: alert.createdAt,
+          }],
+      nearbyHospitals: (alert.nearbyHospitals as HospitalWithDistance[] | null) || [],
+      lastLocationAt: alert.lastLocationAt || alert.createdAt,
+    };
+  }
+
   /**
    * Cancela una alerta de panico activa
    */
@@ -187,6 +293,7 @@ class PanicService {
       alertId,
       timestamp: new Date(),
     });
+    notifyOperators(alertId, 'CANCELLED');
 
     console.log(`✅ Alerta de panico ${alertId} cancelada`);
     return true;
@@ -227,6 +334,76 @@ class PanicService {
       },
     });
   }
+
+  /**
+   * Busca hospitales cercanos, priorizando los adecuados a las condiciones del paciente
+   */
+  private async findHospitalsForPatient(userId: string, latitude: number, longitude: number) {
+    const patientProfile = await pupService.getProfile(userId);
+    const conditionEntries = patientProfile?.conditions || [];
+    const patientConditions = conditionEntries.map((condition) => condition.name);
+
+    let nearbyHospitals: HospitalWithDistance[];
+
+    if (patientConditions.length > 0) {
+      // Búsqueda inteligente basada en condiciones del paciente
+      nearbyHospitals = await hospitalService.findNearbyHospitalsForConditions({
+        latitude,
+        longitude,
+        patientConditions: conditionEntries.map((condition) => condition.code || condition.name),
+        radiusKm: 20,
+        limit: 5,
+        prioritizeByCondition: true,
+      });
+    } else {
+      // Búsqueda normal
+      nearbyHospitals = await hospitalService.findNearbyHospitals({
+        latitude,
+        longitude,
+        radiusKm: 20,
+        limit: 5,
+      });
+    }
+
+    return { nearbyHospitals, patientConditions };
+  }
+
+  /**
+   * Cuentas de los representantes que confirmaron que atienden la alerta
+   */
+  private async getLiveLocationRecipients(alert: PanicAlert): Promise<string[]> {
+    const acknowledgements = (alert.acknowledgements as PanicAcknowledgement[] | null) || [];
+    const representativeIds = acknowledgements
+      .map((ack) => ack.representativeId)
+      .filter((id): id is string => !!id);
+
+    if (representativeIds.length === 0) {
+      return [];
+    }
+
+    const representatives = await prisma.representative.findMany({
+      where: {
+        id: { in: representativeIds },
+        userId: alert.userId,
+        status: RepresentativeStatus.ACCEPTED,
+        accountUserId: { not: null },
+      },
+      select: { accountUserId: true },
+    });
+
+    return [...new Set(representatives.map((rep) => rep.accountUserId!))];
+  }
+
+  private toLocationPoint(point: LiveLocationPoint): LiveLocationPoint {
+    return {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      accuracy: point.accuracy,
+      heading: point.heading,
+      speed: point.speed,
+      recordedAt: point.recordedAt,
+    };
+  }
 }
 
 export const panicService = new PanicService();
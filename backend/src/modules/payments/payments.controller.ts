@@ -11,11 +11,14 @@ import type {
   SavePaymentMethodInput,
   SaveFiscalDataInput,
   GenerateInvoiceInput,
+  PlanLimits,
 } from './types/payments.types';
 import { BillingCycle } from '@prisma/client';
 
 const router = Router();
 
+const LIMIT_KEYS: Array<keyof PlanLimits> = ['representativesLimit', 'qrDownloadsPerMonth'];
+
 // ==================== PLANES ====================
 
 /**
@@ -529,21 +532,32 @@ router.get('/check-feature/:feature', authMiddleware, async (req: Request, res:
 
 /**
  * GET /api/v1/payments/check-limit/:limit
- * Verifica el límite de un recurso para el usuario
+ * Verifica el límite de un recurso y el consumo del periodo actual
  */
 router.get('/check-limit/:limit', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
-    const limitKey = req.params.limit as keyof import('./types/payments.types').PlanLimits;
+    const limitKey = req.params.limit as keyof PlanLimits;
+
+    if (!LIMIT_KEYS.includes(limitKey)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Límite no válido',
+      });
+    }
 
-    const limit = await premiumFeaturesService.getLimit(userId, limitKey);
+    const usage = await premiumFeaturesService.getUsage(userId, limitKey);
 
     res.json({
       success: true,
       data: {
         limit: limitKey,
-        value: limit,
-        isUnlimited: limit === 0,
+        value: usage.limit,
+        isUnlimited: usage.isUnlimited,
+        used: usage.used,
+        remaining: usage.remaining,
+        periodStart: usage.periodStart,
+        periodEnd: usage.periodEnd,
       },
     });
   } catch (error) {
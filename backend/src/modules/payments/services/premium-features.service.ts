@@ -1,6 +1,7 @@
 // src/modules/payments/services/premium-features.service.ts
-import { PrismaClient, SubscriptionStatus } from '@prisma/client';
+import { PrismaClient, RepresentativeStatus, SubscriptionStatus } from '@prisma/client';
 import type { PlanFeatures, PlanLimits } from '../types/payments.types';
+import { usageMeteringService, METERED_LIMITS } from './usage-metering.service';
 
 const prisma = new PrismaClient();
 
@@ -26,6 +27,38 @@ const DEMO_PREMIUM_LIMITS: PlanLimits = {
 export type FeatureKey = keyof PlanFeatures;
 export type LimitKey = keyof PlanLimits;
 
+// Error estructurado que el frontend muestra con FeatureGate/UpgradePrompt
+export interface EntitlementError {
+  code: 'FEATURE_REQUIRED' | 'LIMIT_REACHED';
+  message: string;
+  status: 403;
+  details: {
+    feature?: FeatureKey;
+    limitKey?: LimitKey;
+    limit?: number;
+    current?: number;
+    upgradeUrl: string;
+  };
+}
+
+// Consumo de un límite del plan (GET /payments/check-limit/:limit)
+export interface LimitUsage {
+  limitKey: LimitKey;
+  limit: number;
+  used: number;
+  remaining: number | null; // null = ilimitado
+  isUnlimited: boolean;
+  periodStart: Date | null; // Solo límites por periodo
+  periodEnd: Date | null;
+}
+
+const UPGRADE_URL = '/subscription/plans';
+
+const LIMIT_MESSAGES: Record<LimitKey, (limit: number) => string> = {
+  representativesLimit: (limit) => `Tu plan permite hasta ${limit} representantes.`,
+  qrDownloadsPerMonth: (limit) => `Tu plan permite ${limit} descargas de QR por mes.`,
+};
+
 // Cache en memoria para evitar queries repetidas
 const userFeaturesCache = new Map<string, { features: PlanFeatures; limits: PlanLimits; expiresAt: number }>();
 const CACHE_TTL = 60 * 1000; // 1 minuto
@@ -37,6 +70,10 @@ export const premiumFeaturesService = {
   async getUserFeaturesAndLimits(
     userId: string
   ): Promise<{ features: PlanFeatures; limits: PlanLimits; planSlug: string }> {
+    if (DEMO_PREMIUM_MODE) {
+      return { features: DEMO_PREMIUM_FEATURES, limits: DEMO_PREMIUM_LIMITS, planSlug: 'premium' };
+    }
+
     // Verificar cache
     const cached = userFeaturesCache.get(userId);
     if (cached && cached.expiresAt > Date.now()) {
@@ -143,20 +180,120 @@ export const premiumFeaturesService = {
     return this.canCreateResource(userId, 'representativesLimit', currentCount);
   },
 
+  /**
+   * Representantes activos según el límite del plan (null = sin límite)
+   * Tras un downgrade no se borra ninguno: los que exceden el límite, en orden de
+   * prioridad, quedan suspendidos (no se notifican) hasta que el usuario elimine
+   * otros, los reordene o vuelva a un plan con más representantes.
+   * Los que rechazaron la designación no ocupan lugar (tampoco se notifican)
+   */
+  async getActiveRepresentativeIds(userId: string): Promise<Set<string> | null> {
+    const limit = await this.getLimit(userId, 'representativesLimit');
+    if (limit === 0) return null;
+
+    const representatives = await prisma.representative.findMany({
+      where: { userId, status: { not: RepresentativeStatus.DECLINED } },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true },
+      take: limit,
+    });
+
+    return new Set(representatives.map((rep) => rep.id));
+  },
+
+  /**
+   * Lanza FEATURE_REQUIRED si el plan del usuario no incluye la feature
+   */
+  async assertFeature(userId: string, featureKey: FeatureKey): Promise<void> {
+    if (!(await this.hasFeature(userId, featureKey))) {
+      throw this.featureRequiredError(featureKey);
+    }
+  },
+
+  /**
+   * Lanza LIMIT_REACHED si el usuario ya tiene tantos representantes como permite su plan
+   */
+  async assertCanAddRepresentative(userId: string): Promise<void> {
+    const result = await this.canAddRepresentative(userId);
+    if (!result.allowed) {
+      throw this.limitReachedError('representativesLimit', result.limit, result.current);
+    }
+  },
+
+  featureRequiredError(featureKey: FeatureKey): EntitlementError {
+    return {
+      code: 'FEATURE_REQUIRED',
+      message: 'Esta función requiere una suscripción Premium',
+      status: 403,
+      details: { feature: featureKey, upgradeUrl: UPGRADE_URL },
+    };
+  },
+
+  limitReachedError(limitKey: LimitKey, limit: number, current: number): EntitlementError {
+    return {
+      code: 'LIMIT_REACHED',
+      message: `${LIMIT_MESSAGES[limitKey](limit)} Actualiza a Premium para más.`,
+      status: 403,
+      details: { limitKey, limit, current, upgradeUrl: UPGRADE_URL },
+    };
+  },
+
   /**
    * Verificar límite de descargas QR por mes
    */
   async canDownloadQR(userId: string): Promise<{ allowed: boolean; limit: number; current: number }> {
-    // Contar descargas del mes actual
-    const startOfMonth = new Date();
-    startOfMonth.setDate(1);
-    startOfMonth.setHours(0, 0, 0, 0);
+    const currentCount = await usageMeteringService.getCount(userId, 'qrDownloadsPerMonth');
+    return this.canCreateResource(userId, 'qrDownloadsPerMonth', currentCount);
+  },
 
-    // Nota: Necesitarías un modelo para trackear las descargas de QR
-    // Por ahora, asumimos que no hay tracking y permitimos
-    const currentCount = 0; // TODO: Implementar tracking de descargas
+  /**
+   * Consumo actual de un límite: por periodo de facturación o, para representantes, en vivo
+   */
+  async getUsage(userId: string, limitKey: LimitKey): Promise<LimitUsage> {
+    const limit = await this.getLimit(userId, limitKey);
+    const isUnlimited = limit === 0;
 
-    return this.canCreateResource(userId, 'qrDownloadsPerMonth', currentCount);
+    let used: number;
+    let period: { start: Date; end: Date } | null = null;
+
+    if (METERED_LIMITS.includes(limitKey)) {
+      period = await usageMeteringService.getCurrentPeriod(userId);
+      used = await usageMeteringService.getCount(userId, limitKey, period);
+    } else {
+      used = await prisma.representative.count({ where: { userId } });
+    }
+
+    return {
+      limitKey,
+      limit,
+      used,
+      remaining: isUnlimited ? null : Math.max(0, limit - used),
+      isUnlimited,
+      periodStart: period?.start ?? null,
+      periodEnd: period?.end ?? null,
+    };
+  },
+
+  /**
+   * Registra un consumo de un límite por periodo; lanza LIMIT_REACHED si ya se agotó
+   */
+  async consumeLimit(userId: string, limitKey: LimitKey): Promise<LimitUsage> {
+    const limit = await this.getLimit(userId, limitKey);
+    const result = await usageMeteringService.tryIncrement(userId, limitKey, limit);
+
+    if (!result.allowed) {
+      throw this.limitReachedError(limitKey, limit, result.current);
+    }
+
+    return {
+      limitKey,
+      limit,
+      used: result.current,
+      remaining: limit === 0 ? null : Math.max(0, limit - result.current),
+      isUnlimited: limit === 0,
+      periodStart: result.period.start,
+      periodEnd: result.period.end,
+    };
   },
 
   /**
@@ -0,0 +1,108 @@
+// src/modules/payments/services/usage-metering.service.ts
+import { PrismaClient } from '@prisma/client';
+import type { PlanLimits } from '../types/payments.types';
+
+const prisma = new PrismaClient();
+
+type LimitKey = keyof PlanLimits;
+
+// Límites que se consumen por periodo; los demás (representativesLimit) se cuentan en vivo
+export const METERED_LIMITS: LimitKey[] = ['qrDownloadsPerMonth'];
+
+export interface UsagePeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Suma meses conservando el día del ancla (31 ene + 1 mes = 28/29 feb)
+ */
+function addMonths(anchor: Date, months: number): Date {
+  const date = new Date(anchor);
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(day, lastDay));
+  return date;
+}
+
+export const usageMeteringService = {
+  /**
+   * Periodo mensual vigente, anclado a Subscription.currentPeriodStart
+   * En planes anuales el contador se reinicia cada mes el mismo día; sin suscripción se usa el mes calendario
+   */
+  async getCurrentPeriod(userId: string, now: Date = new Date()): Promise<UsagePeriod> {
+    const subscription = await prisma.subscription.findUnique({
+      where: { userId },
+      select: { currentPeriodStart: true },
+    });
+
+    if (!subscription) {
+      return {
+        start: new Date(now.getFullYear(), now.getMonth(), 1),
+        end: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+      };
+    }
+
+    const anchor = subscription.currentPeriodStart;
+    let months = Math.max(
+      0,
+      (now.getFullYear() - anchor.getFullYear()) * 12 + now.getMonth() - anchor.getMonth()
+    );
+    if (months > 0 && addMonths(anchor, months) > now) {
+      months -= 1;
+    }
+
+    return {
+      start: addMonths(anchor, months),
+      end: addMonths(anchor, months + 1),
+    };
+  },
+
+  /**
+   * Consumo del periodo vigente
+   */
+  async getCount(userId: string, limitKey: LimitKey, period?: UsagePeriod): Promise<number> {
+    const { start } = period || (await this.getCurrentPeriod(userId));
+
+    const counter = await prisma.usageCounter.findUnique({
+      where: { userId_limitKey_periodStart: { userId, limitKey, periodStart: start } },
+      select: { count: true },
+    });
+
+    return counter?.count ?? 0;
+  },
+
+  /**
+   * Registra un consumo si no se ha alcanzado el límite (0 = ilimitado)
+   * El incremento es condicional para que dos solicitudes simultáneas no rebasen el límite
+   */
+  async tryIncrement(
+    userId: string,
+    limitKey: LimitKey,
+    limit: number
+  ): Promise<{ allowed: boolean; current: number; period: UsagePeriod }> {
+    const period = await this.getCurrentPeriod(userId);
+
+    await prisma.usageCounter.upsert({
+      where: { userId_limitKey_periodStart: { userId, limitKey, periodStart: period.start } },
+      create: { userId, limitKey, periodStart: period.start },
+      update: {},
+    });
+
+    const { count: updated } = await prisma.usageCounter.updateMany({
+      where: {
+        userId,
+        limitKey,
+        periodStart: period.start,
+        ...(limit > 0 ? { count: { lt: limit } } : {}),
+      },
+      data: { count: { increment: 1 } },
+    });
+
+    const current = await this.getCount(userId, limitKey, period);
+
+    return { allowed: updated > 0, current, period };
+  },
+};
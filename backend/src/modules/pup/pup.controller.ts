@@ -1,8 +1,14 @@
 // src/modules/pup/pup.controller.ts
 import { Router, Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
+import { QrTokenMedium } from '@prisma/client';
 import { authMiddleware } from '../../common/guards/auth.middleware';
-import { pupService } from './pup.service';
+import { photoUpload } from '../../common/utils/upload';
+import { pupService, EMERGENCY_FIELDS } from './pup.service';
+import { qrTokenService } from './qr-token.service';
+import { qrPrintService, PRINT_FORMATS, WALLPAPER_SIZES } from './qr-print.service';
+import { ALLERGEN_CATEGORIES, ALLERGY_SEVERITIES } from '../catalog/catalog.types';
+import { offlineCardService } from '../emergency/offline-card.service';
 
 const router = Router();
 
@@ -43,9 +49,14 @@ router.get('/', async (req: Request, res: Response) => {
  */
 router.put('/',
   body('bloodType').optional().isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']),
-  body('allergies').optional().isArray(),
-  body('conditions').optional().isArray(),
-  body('medications').optional().isArray(),
+  body('allergies').optional().isArray({ max: 50 }),
+  body('allergies.*.category').optional().isIn(ALLERGEN_CATEGORIES),
+  body('allergies.*.severity').optional({ values: 'null' }).isIn(ALLERGY_SEVERITIES),
+  body('allergies.*.reaction').optional({ values: 'null' }).isString().isLength({ max: 200 }),
+  body('conditions').optional().isArray({ max: 50 }),
+  body('medications').optional().isArray({ max: 50 }),
+  body('medications.*.dose').optional({ values: 'null' }).isString().isLength({ max: 100 }),
+  body('medications.*.frequency').optional({ values: 'null' }).isString().isLength({ max: 100 }),
   body('insuranceProvider').optional().isString(),
   body('insurancePolicy').optional().isString(),
   body('insurancePhone').optional().isString(),
@@ -67,23 +78,56 @@ router.put('/',
         success: true,
         data: { profile },
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error actualizando perfil:', error);
-      res.status(500).json({
+      res.status(error.status || 500).json({
         success: false,
-        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+          details: error.details,
+        },
       });
     }
   }
 );
 
 /**
- * POST /api/v1/profile/photo
- * Actualiza la foto de perfil
- * Espera el URL de la imagen (después de subir a S3)
+ * GET /api/v1/profile/emergency-visibility
+ * Obtiene qué campos se muestran en un acceso de emergencia según el tipo de acceso
  */
-router.post('/photo',
-  body('photoUrl').isURL().withMessage('URL de imagen inválido'),
+router.get('/emergency-visibility', async (req: Request, res: Response) => {
+  try {
+    const visibility = await pupService.getEmergencyVisibility(req.userId!);
+    
+    if (!visibility) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'PROFILE_NOT_FOUND', message: 'Perfil no encontrado' },
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: { visibility },
+    });
+  } catch (error) {
+    console.error('Error obteniendo visibilidad de emergencia:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+    });
+  }
+});
+
+/**
+ * PUT /api/v1/profile/emergency-visibility
+ * Actualiza la visibilidad por campo (PUBLIC, VERIFIED, HIDDEN)
+ */
+router.put('/emergency-visibility',
+  ...EMERGENCY_FIELDS.map((field) =>
+    body(field).optional().isIn(['PUBLIC', 'VERIFIED', 'HIDDEN']).withMessage('Visibilidad inválida')
+  ),
   async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -94,14 +138,14 @@ router.post('/photo',
         });
       }
       
-      const profile = await pupService.updatePhoto(req.userId!, req.body.photoUrl);
+      const visibility = await pupService.updateEmergencyVisibility(req.userId!, req.body);
       
       res.json({
         success: true,
-        data: { profile },
+        data: { visibility },
       });
     } catch (error) {
-      console.error('Error actualizando foto:', error);
+      console.error('Error actualizando visibilidad de emergencia:', error);
       res.status(500).json({
         success: false,
         error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
@@ -111,48 +155,54 @@ router.post('/photo',
 );
 
 /**
- * GET /api/v1/profile/qr
- * Obtiene el código QR del usuario
+ * POST /api/v1/profile/photo
+ * Actualiza la foto de perfil
+ * Multipart, campo "photo": JPEG, PNG o WebP hasta 5 MB (se recorta a 512x512)
  */
-router.get('/qr', async (req: Request, res: Response) => {
-  try {
-    const qrData = await pupService.getQR(req.userId!);
-    
-    if (!qrData) {
-      return res.status(404).json({
+router.post('/photo',
+  photoUpload('photo'),
+  async (req: Request, res: Response) => {
+    try {
+      const profile = await pupService.updatePhoto(req.userId!, req.file!.buffer);
+      
+      res.json({
+        success: true,
+        data: { profile },
+      });
+    } catch (error: any) {
+      console.error('Error actualizando foto:', error);
+      res.status(error.status || 500).json({
         success: false,
-        error: { code: 'QR_NOT_FOUND', message: 'Código QR no encontrado' },
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
       });
     }
-    
-    res.json({
-      success: true,
-      data: qrData,
-    });
-  } catch (error) {
-    console.error('Error obteniendo QR:', error);
-    res.status(500).json({
-      success: false,
-      error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
-    });
   }
-});
+);
+
+// Validación común de etiqueta y tipo de objeto de un código QR
+const qrTokenValidators = (optional: boolean) => [
+  (optional ? body('label').optional() : body('label'))
+    .isString().trim().isLength({ min: 1, max: 60 }).withMessage('Etiqueta inválida'),
+  body('medium').optional().isIn(Object.values(QrTokenMedium)).withMessage('Tipo de objeto inválido'),
+];
 
 /**
- * POST /api/v1/profile/qr/regenerate
- * Regenera el código QR (invalida el anterior)
+ * GET /api/v1/profile/qr/tokens
+ * Lista los códigos QR del paciente (uno por objeto físico)
  */
-router.post('/qr/regenerate', async (req: Request, res: Response) => {
+router.get('/qr/tokens', async (req: Request, res: Response) => {
   try {
-    const qrData = await pupService.regenerateQR(req.userId!);
+    const tokens = await qrTokenService.listTokens(req.userId!);
     
     res.json({
       success: true,
-      message: 'Código QR regenerado exitosamente. El código anterior ya no es válido.',
-      data: qrData,
+      data: { tokens },
     });
   } catch (error) {
-    console.error('Error regenerando QR:', error);
+    console.error('Error listando códigos QR:', error);
     res.status(500).json({
       success: false,
       error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
@@ -160,4 +210,303 @@ router.post('/qr/regenerate', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/v1/profile/qr/tokens
+ * Crea un código QR para otro objeto (pulsera, casco, pantalla de bloqueo)
+ */
+router.post('/qr/tokens',
+  ...qrTokenValidators(false),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+      
+      const token = await qrTokenService.createToken(req.userId!, {
+        label: req.body.label,
+        medium: req.body.medium,
+      });
+      
+      res.status(201).json({
+        success: true,
+        data: token,
+      });
+    } catch (error: any) {
+      console.error('Error creando código QR:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/profile/qr/tokens/:id
+ * Obtiene un código con su imagen QR
+ */
+router.get('/qr/tokens/:id',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+      
+      const token = await qrTokenService.getToken(req.userId!, req.params.id);
+      
+      if (!token) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'QR_TOKEN_NOT_FOUND', message: 'Código QR no encontrado' },
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: token,
+      });
+    } catch (error) {
+      console.error('Error obteniendo código QR:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/profile/qr/tokens/:id
+ * Cambia la etiqueta o el tipo de objeto de un código
+ */
+router.put('/qr/tokens/:id',
+  param('id').isUUID(),
+  ...qrTokenValidators(true),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+      
+      const token = await qrTokenService.updateToken(req.userId!, req.params.id, {
+        label: req.body.label,
+        medium: req.body.medium,
+      });
+      
+      res.json({
+        success: true,
+        data: token,
+      });
+    } catch (error: any) {
+      console.error('Error actualizando código QR:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/profile/qr/tokens/:id/revoke
+ * Revoca un código (ej. pulsera perdida); los demás siguen funcionando
+ */
+router.post('/qr/tokens/:id/revoke',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+      
+      const token = await qrTokenService.revokeToken(req.userId!, req.params.id);
+      
+      res.json({
+        success: true,
+        message: `El código "${token.label}" ya no es válido.`,
+        data: token,
+      });
+    } catch (error: any) {
+      console.error('Error revocando código QR:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/profile/qr/tokens/:id/reactivate
+ * Reactiva un código suspendido por escaneos sospechosos
+ */
+router.post('/qr/tokens/:id/reactivate',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+      
+      const token = await qrTokenService.reactivateToken(req.userId!, req.params.id);
+      
+      res.json({
+        success: true,
+        message: `El código "${token.label}" vuelve a abrir tu perfil.`,
+        data: token,
+      });
+    } catch (error: any) {
+      console.error('Error reactivando código QR:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/profile/qr/tokens/:id/download
+ * Descarga el QR para imprimir (cuenta contra el límite mensual del plan)
+ */
+router.post('/qr/tokens/:id/download',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+      
+      const token = await qrTokenService.downloadToken(req.userId!, req.params.id);
+      
+      res.json({
+        success: true,
+        data: token,
+      });
+    } catch (error: any) {
+      console.error('Error descargando QR:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+          details: error.details,
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/profile/qr/tokens/:id/print
+ * Genera material para imprimir: tarjeta de cartera (PDF), hoja de calcomanías (PDF)
+ * o fondo de pantalla de bloqueo (PNG, size). Cuenta contra el límite mensual del plan
+ */
+router.post('/qr/tokens/:id/print',
+  param('id').isUUID(),
+  body('format').isIn(PRINT_FORMATS).withMessage('Formato inválido'),
+  body('size').optional().isIn(Object.keys(WALLPAPER_SIZES)).withMessage('Tamaño de pantalla inválido'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+      
+      const asset = await qrPrintService.generate(req.userId!, req.params.id, req.body.format, req.body.size);
+      
+      res.json({
+        success: true,
+        data: asset,
+      });
+    } catch (error: any) {
+      console.error('Error generando material imprimible:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+          details: error.details,
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/profile/qr/tokens/:id/offline
+ * Genera la tarjeta offline de un código: QR con un resumen firmado verificable sin red
+ * Se emite de nuevo en cada llamada con los datos vigentes del perfil
+ */
+router.get('/qr/tokens/:id/offline',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+      
+      const card = await offlineCardService.issueCard(req.userId!, req.params.id);
+      
+      res.json({
+        success: true,
+        data: card,
+      });
+    } catch (error: any) {
+      console.error('Error generando tarjeta offline:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
 export default router;
@@ -2,15 +2,19 @@
 import { PrismaClient, PatientProfile } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 import { encrypt, decrypt, encryptJSON, decryptJSON } from '../../common/utils/encryption';
-import { generateEmergencyQR } from '../../common/utils/qr-generator';
+import { processProfilePhoto } from '../../common/utils/upload';
+import { getStorageProvider } from '../../common/storage';
+import { premiumFeaturesService } from '../payments/services/premium-features.service';
+import { catalogService } from '../catalog/catalog.service';
+import type { AllergyEntry, ConditionEntry, MedicationEntry } from '../catalog/catalog.types';
 
 const prisma = new PrismaClient();
 
-// Tipos para datos médicos (descifrados)
+// Tipos para datos médicos (descifrados y codificados)
 interface MedicalData {
-  allergies: string[];
-  conditions: string[];
-  medications: string[];
+  allergies: AllergyEntry[];
+  conditions: ConditionEntry[];
+  medications: MedicationEntry[];
 }
 
 interface DonorPreferences {
@@ -20,11 +24,44 @@ interface DonorPreferences {
   restrictions?: string;
 }
 
+// Campos del acceso de emergencia y su visibilidad
+// PUBLIC: cualquier persona que escanee el QR
+// VERIFIED: solo personal o instituciones autenticadas
+// HIDDEN: nunca se muestra en emergencias
+export const EMERGENCY_FIELDS = [
+  'identity',
+  'bloodType',
+  'allergies',
+  'conditions',
+  'medications',
+  'cpr',
+  'directive',
+  'donation',
+  'representatives',
+] as const;
+
+export type EmergencyField = typeof EMERGENCY_FIELDS[number];
+export type FieldVisibility = 'PUBLIC' | 'VERIFIED' | 'HIDDEN';
+export type EmergencyVisibility = Record<EmergencyField, FieldVisibility>;
+
+export const DEFAULT_EMERGENCY_VISIBILITY: EmergencyVisibility = {
+  identity: 'VERIFIED',
+  bloodType: 'PUBLIC',
+  allergies: 'PUBLIC',
+  conditions: 'VERIFIED',
+  medications: 'VERIFIED',
+  cpr: 'PUBLIC',
+  directive: 'VERIFIED',
+  donation: 'VERIFIED',
+  representatives: 'VERIFIED',
+};
+
+// Los datos médicos aceptan entradas codificadas o texto libre (clientes anteriores)
 interface ProfileInput {
   bloodType?: string;
-  allergies?: string[];
-  conditions?: string[];
-  medications?: string[];
+  allergies?: (Partial<AllergyEntry> | string)[];
+  conditions?: (Partial<ConditionEntry> | string)[];
+  medications?: (Partial<MedicationEntry> | string)[];
   insuranceProvider?: string;
   insurancePolicy?: string;
   insurancePhone?: string;
@@ -32,19 +69,16 @@ interface ProfileInput {
   donorPreferences?: DonorPreferences;
 }
 
-interface ProfileResponse {
+interface ProfileResponse extends MedicalData {
   id: string;
   bloodType: string | null;
-  allergies: string[];
-  conditions: string[];
-  medications: string[];
   insuranceProvider: string | null;
   insurancePolicy: string | null;
   insurancePhone: string | null;
   isDonor: boolean;
   donorPreferences: DonorPreferences | null;
   photoUrl: string | null;
-  qrToken: string;
+  emergencyVisibility: EmergencyVisibility;
 }
 
 class PupService {
@@ -75,15 +109,15 @@ class PupService {
     }
     
     if (input.allergies !== undefined) {
-      updateData.allergiesEnc = encryptJSON(input.allergies);
+      updateData.allergiesEnc = encryptJSON(catalogService.normalizeAllergies(input.allergies, true));
     }
     
     if (input.conditions !== undefined) {
-      updateData.conditionsEnc = encryptJSON(input.conditions);
+      updateData.conditionsEnc = encryptJSON(catalogService.normalizeConditions(input.conditions, true));
     }
     
     if (input.medications !== undefined) {
-      updateData.medicationsEnc = encryptJSON(input.medications);
+      updateData.medicationsEnc = encryptJSON(catalogService.normalizeMedications(input.medications, true));
     }
     
     if (input.insuranceProvider !== undefined) {
@@ -103,6 +137,8 @@ class PupService {
     }
     
     if (input.donorPreferences !== undefined) {
+      // Tras un downgrade se conservan las preferencias guardadas, pero ya no se pueden modificar
+      await premiumFeaturesService.assertFeature(userId, 'donorPreferences');
       updateData.donorPreferencesEnc = encryptJSON(input.donorPreferences);
     }
     
@@ -116,63 +152,37 @@ class PupService {
   
   /**
    * Actualiza la foto de perfil
+   * La imagen se normaliza con sharp y se guarda en el almacenamiento
    */
-  async updatePhoto(userId: string, photoUrl: string): Promise<ProfileResponse> {
-    const profile = await prisma.patientProfile.update({
-      where: { userId },
-      data: { photoUrl },
-    });
-    
-    return this.decryptProfile(profile);
-  }
-  
-  /**
-   * Regenera el código QR
-   */
-  async regenerateQR(userId: string): Promise<{ qrToken: string; qrDataUrl: string }> {
-    const newQrToken = uuidv4();
-    
-    await prisma.patientProfile.update({
+  async updatePhoto(userId: string, image: Buffer): Promise<ProfileResponse> {
+    const existing = await prisma.patientProfile.findUnique({
       where: { userId },
-      data: {
-        qrToken: newQrToken,
-        qrGeneratedAt: new Date(),
-      },
+      select: { photoKey: true },
     });
     
-    const qrResult = await generateEmergencyQR(newQrToken);
+    const photo = await processProfilePhoto(image);
+    const photoKey = `photos/${userId}/${uuidv4()}.webp`;
+    const storage = getStorageProvider();
+    await storage.put(photoKey, photo, 'image/webp');
     
-    return {
-      qrToken: newQrToken,
-      qrDataUrl: qrResult.qrDataUrl,
-    };
-  }
-  
-  /**
-   * Obtiene el código QR del usuario
-   */
-  async getQR(userId: string): Promise<{ qrToken: string; qrDataUrl: string; generatedAt: Date } | null> {
-    const profile = await prisma.patientProfile.findUnique({
+    const profile = await prisma.patientProfile.update({
       where: { userId },
-      select: { qrToken: true, qrGeneratedAt: true },
+      data: { photoKey, photoUrl: null },
     });
     
-    if (!profile) {
-      return null;
+    // La foto anterior ya no se referencia
+    if (existing?.photoKey) {
+      storage.delete(existing.photoKey).catch((error) => {
+        console.error('Error eliminando foto anterior:', error);
+      });
     }
     
-    const qrResult = await generateEmergencyQR(profile.qrToken);
-    
-    return {
-      qrToken: profile.qrToken,
-      qrDataUrl: qrResult.qrDataUrl,
-      generatedAt: profile.qrGeneratedAt,
-    };
+    return this.decryptProfile(profile);
   }
   
   /**
    * Obtiene perfil por QR token (para acceso de emergencia)
-   * Solo retorna datos críticos
+   * Solo retorna datos críticos; el token debe estar vigente
    */
   async getProfileByQRToken(qrToken: string): Promise<{
     userId: string;
@@ -180,14 +190,13 @@ class PupService {
     dateOfBirth: Date | null;
     sex: string | null;
     bloodType: string | null;
-    allergies: string[];
-    conditions: string[];
-    medications: string[];
     isDonor: boolean;
     photoUrl: string | null;
-  } | null> {
-    const profile = await prisma.patientProfile.findUnique({
-      where: { qrToken },
+    emergencyVisibility: EmergencyVisibility;
+  } & MedicalData | null> {
+    // Solo códigos vigentes: uno revocado ya no abre el perfil
+    const profile = await prisma.patientProfile.findFirst({
+      where: { user: { qrTokens: { some: { token: qrToken, revokedAt: null } } } },
       include: {
         user: {
           select: {
@@ -210,11 +219,100 @@ class PupService {
       dateOfBirth: profile.user.dateOfBirth,
       sex: profile.user.sex,
       bloodType: profile.bloodType,
-      allergies: profile.allergiesEnc ? decryptJSON<string[]>(profile.allergiesEnc) : [],
-      conditions: profile.conditionsEnc ? decryptJSON<string[]>(profile.conditionsEnc) : [],
-      medications: profile.medicationsEnc ? decryptJSON<string[]>(profile.medicationsEnc) : [],
+      ...this.decryptMedicalData(profile),
       isDonor: profile.isDonor,
-      photoUrl: profile.photoUrl,
+      photoUrl: this.resolvePhotoUrl(profile),
+      emergencyVisibility: this.resolveVisibility(profile.emergencyVisibility),
+    };
+  }
+  
+  /**
+   * Obtiene la visibilidad por campo en emergencias (con valores por defecto)
+   */
+  async getEmergencyVisibility(userId: string): Promise<EmergencyVisibility | null> {
+    const profile = await prisma.patientProfile.findUnique({
+      where: { userId },
+      select: { emergencyVisibility: true },
+    });
+    
+    if (!profile) {
+      return null;
+    }
+    
+    return this.resolveVisibility(profile.emergencyVisibility);
+  }
+  
+  /**
+   * Actualiza la visibilidad por campo en emergencias
+   */
+  async updateEmergencyVisibility(
+    userId: string,
+    input: Partial<EmergencyVisibility>
+  ): Promise<EmergencyVisibility> {
+    const current = await this.getEmergencyVisibility(userId);
+    
+    const visibility: EmergencyVisibility = {
+      ...(current || DEFAULT_EMERGENCY_VISIBILITY),
+    };
+    
+    for (const field of EMERGENCY_FIELDS) {
+      if (input[field] !== undefined) {
+        visibility[field] = input[field]!;
+      }
+    }
+    
+    await prisma.patientProfile.update({
+      where: { userId },
+      data: { emergencyVisibility: visibility },
+    });
+    
+    return visibility;
+  }
+  
+  /**
+   * Combina la visibilidad guardada con los valores por defecto
+   */
+  private resolveVisibility(stored: unknown): EmergencyVisibility {
+    const visibility: EmergencyVisibility = { ...DEFAULT_EMERGENCY_VISIBILITY };
+    
+    if (stored && typeof stored === 'object') {
+      for (const field of EMERGENCY_FIELDS) {
+        const value = (stored as Record<string, unknown>)[field];
+        if (value === 'PUBLIC' || value === 'VERIFIED' || value === 'HIDDEN') {
+          visibility[field] = value;
+        }
+      }
+    }
+    
+    return visibility;
+  }
+  
+  /**
+   * URL de la foto: firmada si está en el almacenamiento, o la URL externa heredada
+   */
+  private resolvePhotoUrl(profile: Pick<PatientProfile, 'photoKey' | 'photoUrl'>): string | null {
+    return profile.photoKey
+      ? getStorageProvider().getSignedUrl(profile.photoKey)
+      : profile.photoUrl;
+  }
+  
+  /**
+   * Descifra alergias, padecimientos y medicamentos
+   * Los perfiles anteriores guardaban texto libre; se convierten al formato codificado al leerlos
+   */
+  decryptMedicalData(
+    profile: Pick<PatientProfile, 'allergiesEnc' | 'conditionsEnc' | 'medicationsEnc'>
+  ): MedicalData {
+    return {
+      allergies: profile.allergiesEnc
+        ? catalogService.normalizeAllergies(decryptJSON<unknown[]>(profile.allergiesEnc))
+        : [],
+      conditions: profile.conditionsEnc
+        ? catalogService.normalizeConditions(decryptJSON<unknown[]>(profile.conditionsEnc))
+        : [],
+      medications: profile.medicationsEnc
+        ? catalogService.normalizeMedications(decryptJSON<unknown[]>(profile.medicationsEnc))
+        : [],
     };
   }
   
@@ -225,9 +323,7 @@ class PupService {
     return {
       id: profile.id,
       bloodType: profile.bloodType,
-      allergies: profile.allergiesEnc ? decryptJSON<string[]>(profile.allergiesEnc) : [],
-      conditions: profile.conditionsEnc ? decryptJSON<string[]>(profile.conditionsEnc) : [],
-      medications: profile.medicationsEnc ? decryptJSON<string[]>(profile.medicationsEnc) : [],
+      ...this.decryptMedicalData(profile),
       insuranceProvider: profile.insuranceProvider,
       insurancePolicy: profile.insurancePolicy,
       insurancePhone: profile.insurancePhone,
@@ -235,8 +331,8 @@ class PupService {
       donorPreferences: profile.donorPreferencesEnc 
         ? decryptJSON<DonorPreferences>(profile.donorPreferencesEnc) 
         : null,
-      photoUrl: profile.photoUrl,
-      qrToken: profile.qrToken,
+      photoUrl: this.resolvePhotoUrl(profile),
+      emergencyVisibility: this.resolveVisibility(profile.emergencyVisibility),
     };
   }
 }
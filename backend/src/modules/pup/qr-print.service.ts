@@ -0,0 +1,369 @@
+// src/modules/pup/qr-print.service.ts
+import PDFDocument from 'pdfkit';
+import sharp from 'sharp';
+import { PrismaClient } from '@prisma/client';
+import { pupService, EmergencyField } from './pup.service';
+import { qrTokenService } from './qr-token.service';
+import { getStorageProvider } from '../../common/storage';
+import { generateQRBuffer, generateQRSVG, getEmergencyUrl } from '../../common/utils/qr-generator';
+import { formatShortCode } from '../../common/utils/short-code';
+import { LimitUsage } from '../payments/services/premium-features.service';
+import config from '../../config';
+
+const prisma = new PrismaClient();
+
+export const PRINT_FORMATS = ['CARD_PDF', 'STICKER_SHEET', 'WALLPAPER'] as const;
+export type PrintFormat = typeof PRINT_FORMATS[number];
+
+// Resoluciones nativas de pantalla de los teléfonos más comunes
+export const WALLPAPER_SIZES = {
+  'iphone': { width: 1179, height: 2556 },       // iPhone 14 / 15 / 16
+  'iphone-max': { width: 1290, height: 2796 },   // iPhone Plus / Pro Max
+  'iphone-se': { width: 750, height: 1334 },
+  'android-fhd': { width: 1080, height: 2400 },
+  'android-qhd': { width: 1440, height: 3200 },
+} as const;
+export type WallpaperSize = keyof typeof WALLPAPER_SIZES;
+
+interface PrintAsset {
+  fileName: string;
+  contentType: string;
+  dataUrl: string;
+  usage: LimitUsage;
+}
+
+/**
+ * Datos impresos junto al QR. Solo los campos con visibilidad PUBLIC:
+ * cualquiera que encuentre la tarjeta o vea la pantalla bloqueada puede leerlos.
+ */
+interface PrintData {
+  name: string | null;
+  photo: Buffer | null;
+  bloodType: string | null;
+  allergies: string[];
+  emergencyUrl: string;
+  shortCode: string;
+}
+
+// Tarjeta tamaño credencial (ISO/IEC 7810 ID-1: 85.6 x 54 mm) en puntos
+const CARD_WIDTH = 242.65;
+const CARD_HEIGHT = 153.07;
+
+// Hoja carta con calcomanías de 2" x 2"
+const STICKER_SIZE = 144;
+const STICKER_COLUMNS = 3;
+const STICKER_ROWS = 4;
+
+const MAX_ALLERGIES = 4;
+const SEVERITY_ORDER = ['SEVERE', 'MODERATE', 'MILD', null];
+
+const COLOR_PRIMARY = '#1E40AF';
+const COLOR_DANGER = '#B91C1C';
+const COLOR_MUTED = '#6B7280';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const slugify = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+class QrPrintService {
+  /**
+   * Genera un material imprimible de un código; cada descarga cuenta contra qrDownloadsPerMonth
+   * La descarga se descuenta después de generar el archivo, así un error al renderizar no la gasta
+   */
+  async generate(
+    userId: string,
+    tokenId: string,
+    format: PrintFormat,
+    size: WallpaperSize = 'iphone'
+  ): Promise<PrintAsset> {
+    const token = await qrTokenService.checkDownload(userId, tokenId);
+    const data = await this.loadPrintData(userId, token.token, token.shortCode);
+    const asset = await this.render(data, `vida-${slugify(token.label) || 'codigo'}`, format, size);
+    const { usage } = await qrTokenService.consumeDownload(userId, tokenId);
+
+    return { ...asset, usage };
+  }
+
+  private async render(
+    data: PrintData,
+    baseName: string,
+    format: PrintFormat,
+    size: WallpaperSize
+  ): Promise<Omit<PrintAsset, 'usage'>> {
+    if (format === 'WALLPAPER') {
+      const png = await this.renderWallpaper(data, WALLPAPER_SIZES[size]);
+      return {
+        fileName: `${baseName}-fondo-${size}.png`,
+        contentType: 'image/png',
+        dataUrl: `data:image/png;base64,${png.toString('base64')}`,
+      };
+    }
+
+    const pdf = format === 'CARD_PDF'
+      ? await this.renderCard(data)
+      : await this.renderStickerSheet(data);
+
+    return {
+      fileName: `${baseName}-${format === 'CARD_PDF' ? 'tarjeta' : 'calcomanias'}.pdf`,
+      contentType: 'application/pdf',
+      dataUrl: `data:application/pdf;base64,${pdf.toString('base64')}`,
+    };
+  }
+
+  /**
+   * Tarjeta para la cartera: frente con foto y datos médicos, reverso con el QR
+   */
+  private async renderCard(data: PrintData): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: [CARD_WIDTH, CARD_HEIGHT],
+      margin: 0,
+      info: { Title: 'Tarjeta de emergencia', Creator: 'Sistema VIDA' },
+    });
+    const finished = this.collect(doc);
+
+    // Frente
+    doc.rect(0, 0, CARD_WIDTH, 22).fill(COLOR_DANGER);
+    doc.fillColor('#FFFFFF').font('Helvetica-Bold').fontSize(8)
+      .text('INFORMACIÓN MÉDICA DE EMERGENCIA', 0, 7.5, { width: CARD_WIDTH, align: 'center' });
+
+    let textLeft = 10;
+    if (data.photo) {
+      doc.image(data.photo, 10, 30, { width: 52, height: 64 });
+      textLeft = 70;
+    }
+    const textWidth = CARD_WIDTH - textLeft - 10;
+
+    doc.fillColor('#111827').font('Helvetica-Bold').fontSize(10)
+      .text(data.name || 'Nombre no incluido', textLeft, 30, { width: textWidth, height: 24, ellipsis: true });
+
+    doc.fillColor(COLOR_MUTED).font('Helvetica').fontSize(6).text('TIPO DE SANGRE', textLeft, 56);
+    doc.fillColor(COLOR_DANGER).font('Helvetica-Bold').fontSize(18).text(data.bloodType || '—', textLeft, 63);
+
+    doc.fillColor(COLOR_MUTED).font('Helvetica').fontSize(6).text('ALERGIAS', textLeft, 86);
+    doc.fillColor('#111827').font('Helvetica-Bold').fontSize(7).text(
+      data.allergies.length > 0 ? data.allergies.join(', ') : 'Sin alergias registradas como públicas',
+      textLeft, 94, { width: textWidth, height: 36, ellipsis: true }
+    );
+
+    doc.fillColor(COLOR_MUTED).font('Helvetica').fontSize(5.5)
+      .text('Escanee el reverso para ver el perfil completo.', 10, CARD_HEIGHT - 14, { width: CARD_WIDTH - 20 });
+
+    // Reverso
+    doc.addPage({ size: [CARD_WIDTH, CARD_HEIGHT], margin: 0 });
+    const qrSize = 116;
+    doc.image(await generateQRBuffer(data.emergencyUrl), 10, (CARD_HEIGHT - qrSize) / 2, { width: qrSize });
+
+    const infoLeft = qrSize + 18;
+    const infoWidth = CARD_WIDTH - infoLeft - 10;
+    doc.fillColor(COLOR_DANGER).font('Helvetica-Bold').fontSize(8)
+      .text('EN CASO DE EMERGENCIA ESCANEE ESTE CÓDIGO', infoLeft, 26, { width: infoWidth });
+    doc.fillColor(COLOR_MUTED).font('Helvetica').fontSize(6)
+      .text('Sin cámara, capture este código en', infoLeft, 62, { width: infoWidth });
+    doc.fillColor(COLOR_PRIMARY).fontSize(6)
+      .text(`${this.frontendHost()}/emergency/codigo`, infoLeft, 70, { width: infoWidth });
+    doc.fillColor('#111827').font('Courier-Bold').fontSize(13)
+      .text(data.shortCode, infoLeft, 90, { width: infoWidth });
+    doc.fillColor(COLOR_MUTED).font('Helvetica').fontSize(5.5)
+      .text('Cada acceso queda registrado.', infoLeft, CARD_HEIGHT - 24, { width: infoWidth });
+
+    doc.end();
+    return finished;
+  }
+
+  /**
+   * Hoja carta de calcomanías (casco, bicicleta, celular) con guías de corte
+   */
+  private async renderStickerSheet(data: PrintData): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: 0,
+      info: { Title: 'Calcomanías de emergencia', Creator: 'Sistema VIDA' },
+    });
+    const finished = this.collect(doc);
+
+    // El SVG se rasteriza a 300 dpi para que el QR imprima nítido al tamaño de la calcomanía
+    const qrSize = 100;
+    const qr = await this.rasterizeQR(data.emergencyUrl, Math.round(qrSize / 72 * 300));
+
+    const gapX = (doc.page.width - STICKER_COLUMNS * STICKER_SIZE) / (STICKER_COLUMNS + 1);
+    const gapY = (doc.page.height - STICKER_ROWS * STICKER_SIZE) / (STICKER_ROWS + 1);
+
+    for (let row = 0; row < STICKER_ROWS; row++) {
+      for (let column = 0; column < STICKER_COLUMNS; column++) {
+        const x = gapX + column * (STICKER_SIZE + gapX);
+        const y = gapY + row * (STICKER_SIZE + gapY);
+
+        doc.save().lineWidth(0.5).dash(3, { space: 3 }).strokeColor('#D1D5DB')
+          .roundedRect(x, y, STICKER_SIZE, STICKER_SIZE, 12).stroke().restore();
+
+        doc.fillColor(COLOR_DANGER).font('Helvetica-Bold').fontSize(8)
+          .text('EMERGENCIA MÉDICA', x, y + 8, { width: STICKER_SIZE, align: 'center' });
+        doc.image(qr, x + (STICKER_SIZE - qrSize) / 2, y + 19, { width: qrSize });
+        doc.fillColor('#111827').font('Courier-Bold').fontSize(9)
+          .text(data.shortCode, x, y + 122, { width: STICKER_SIZE, align: 'center' });
+      }
+    }
+
+    doc.end();
+    return finished;
+  }
+
+  /**
+   * Fondo de pantalla de bloqueo: deja libre la parte superior para el reloj
+   * y la inferior para la barra de gestos
+   */
+  private async renderWallpaper(data: PrintData, { width, height }: { width: number; height: number }): Promise<Buffer> {
+    const scale = width / 1080;
+    const px = (value: number) => Math.round(value * scale);
+
+    const panelWidth = Math.round(width * 0.84);
+    const panelLeft = Math.round((width - panelWidth) / 2);
+    const qrSize = Math.round(panelWidth * 0.6);
+
+    const lines: { text: string; size: number; color: string; weight: string; family?: string }[] = [
+      { text: 'INFORMACIÓN MÉDICA DE EMERGENCIA', size: 34, color: COLOR_DANGER, weight: 'bold' },
+    ];
+    if (data.name) lines.push({ text: data.name, size: 48, color: '#111827', weight: 'bold' });
+    if (data.bloodType) lines.push({ text: `Tipo de sangre: ${data.bloodType}`, size: 40, color: COLOR_DANGER, weight: 'bold' });
+    if (data.allergies.length > 0) {
+      for (const line of this.wrap(`Alergias: ${data.allergies.join(', ')}`, 38).slice(0, 3)) {
+        lines.push({ text: line, size: 34, color: '#111827', weight: 'normal' });
+      }
+    }
+
+    const lineGap = px(18);
+    const textHeight = lines.reduce((total, line) => total + px(line.size) + lineGap, 0);
+    const footerHeight = px(172);
+    const panelHeight = px(48) + textHeight + px(24) + qrSize + footerHeight;
+
+    // Centrado en la mitad inferior para no tapar el reloj
+    const panelTop = Math.max(Math.round(height * 0.36), Math.round(height * 0.92) - panelHeight);
+    const qrTop = panelTop + px(48) + textHeight + px(24);
+
+    let y = panelTop + px(48);
+    const text = lines.map((line) => {
+      y += px(line.size);
+      const element = `<text x="${width / 2}" y="${y}" text-anchor="middle" font-family="DejaVu Sans, Arial, sans-serif" ` +
+        `font-size="${px(line.size)}" font-weight="${line.weight}" fill="${line.color}">${escapeXml(line.text)}</text>`;
+      y += lineGap;
+      return element;
+    }).join('');
+
+    const footerTop = qrTop + qrSize;
+    const svg = `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <linearGradient id="bg" x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0%" stop-color="#111827"/>
+          <stop offset="100%" stop-color="#7F1D1D"/>
+        </linearGradient>
+      </defs>
+      <rect width="100%" height="100%" fill="url(#bg)"/>
+      <rect x="${panelLeft}" y="${panelTop}" width="${panelWidth}" height="${panelHeight}" rx="${px(48)}" fill="#FFFFFF"/>
+      ${text}
+      <text x="${width / 2}" y="${footerTop + px(62)}" text-anchor="middle" font-family="DejaVu Sans Mono, monospace"
+        font-size="${px(52)}" font-weight="bold" letter-spacing="${px(6)}" fill="#111827">${escapeXml(data.shortCode)}</text>
+      <text x="${width / 2}" y="${footerTop + px(106)}" text-anchor="middle" font-family="DejaVu Sans, Arial, sans-serif"
+        font-size="${px(26)}" fill="${COLOR_MUTED}">Sin cámara, capture el código en</text>
+      <text x="${width / 2}" y="${footerTop + px(140)}" text-anchor="middle" font-family="DejaVu Sans, Arial, sans-serif"
+        font-size="${px(26)}" fill="${COLOR_PRIMARY}">${escapeXml(this.frontendHost())}/emergency/codigo</text>
+    </svg>`;
+
+    return await sharp(Buffer.from(svg))
+      .composite([{
+        input: await this.rasterizeQR(data.emergencyUrl, qrSize),
+        left: Math.round((width - qrSize) / 2),
+        top: qrTop,
+      }])
+      .png()
+      .toBuffer();
+  }
+
+  private async loadPrintData(userId: string, qrToken: string, shortCode: string): Promise<PrintData> {
+    const [profile, user, photo] = await Promise.all([
+      pupService.getProfile(userId),
+      prisma.user.findUnique({ where: { id: userId }, select: { name: true } }),
+      prisma.patientProfile.findUnique({ where: { userId }, select: { photoKey: true } }),
+    ]);
+
+    if (!profile || !user) {
+      throw { code: 'PROFILE_NOT_FOUND', message: 'Perfil no encontrado', status: 404 };
+    }
+
+    const isPublic = (field: EmergencyField) => profile.emergencyVisibility[field] === 'PUBLIC';
+
+    return {
+      name: isPublic('identity') ? user.name : null,
+      photo: isPublic('identity') && photo?.photoKey ? await this.loadPhoto(photo.photoKey) : null,
+      bloodType: isPublic('bloodType') ? profile.bloodType : null,
+      allergies: isPublic('allergies')
+        ? [...profile.allergies]
+            .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+            .slice(0, MAX_ALLERGIES)
+            .map((allergy) => allergy.severity === 'SEVERE' ? `${allergy.name} (grave)` : allergy.name)
+        : [],
+      emergencyUrl: getEmergencyUrl(qrToken),
+      shortCode: formatShortCode(shortCode),
+    };
+  }
+
+  /**
+   * Foto del perfil recortada al formato de la tarjeta (PDFKit solo acepta JPEG y PNG)
+   */
+  private async loadPhoto(photoKey: string): Promise<Buffer | null> {
+    try {
+      const original = await getStorageProvider().get(photoKey);
+      if (!original) return null;
+
+      return await sharp(original).resize(208, 256, { fit: 'cover' }).jpeg({ quality: 90 }).toBuffer();
+    } catch (error) {
+      console.error('Error cargando foto para impresión:', error);
+      return null;
+    }
+  }
+
+  /**
+   * QR vectorial rasterizado al tamaño exacto (el SVG mide 400 px a 72 dpi)
+   */
+  private async rasterizeQR(url: string, size: number): Promise<Buffer> {
+    const svg = await generateQRSVG(url);
+    return await sharp(Buffer.from(svg), { density: (72 * size) / 400 })
+      .resize(size, size)
+      .png()
+      .toBuffer();
+  }
+
+  private wrap(text: string, maxChars: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(' ')) {
+      if (current && (current + ' ' + word).length > maxChars) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) lines.push(current);
+
+    return lines;
+  }
+
+  private frontendHost(): string {
+    return config.frontendUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
+  }
+
+  private collect(doc: PDFKit.PDFDocument): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    return new Promise<Buffer>((resolve, reject) => {
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+  }
+}
+
+export const qrPrintService = new QrPrintService();
+export default qrPrintService;
@@ -0,0 +1,306 @@
+// src/modules/pup/qr-token.service.ts
+import { Prisma, PrismaClient, QrToken, QrTokenMedium, QrScanIncidentType } from '@prisma/client';
+import { generateEmergencyQR } from '../../common/utils/qr-generator';
+import { formatShortCode, generateShortCode } from '../../common/utils/short-code';
+import { premiumFeaturesService, LimitUsage } from '../payments/services/premium-features.service';
+
+const prisma = new PrismaClient();
+
+// Etiqueta del código que se crea con la cuenta
+export const DEFAULT_QR_TOKEN_LABEL = 'Código principal';
+
+// Códigos activos por paciente (uno por objeto físico)
+const MAX_ACTIVE_QR_TOKENS = 10;
+
+// Reintentos si el código manual generado ya existe (colisión muy improbable)
+const SHORT_CODE_ATTEMPTS = 5;
+
+interface QrTokenInput {
+  label: string;
+  medium?: QrTokenMedium;
+}
+
+interface QrTokenResponse {
+  id: string;
+  token: string;
+  shortCode: string;  // Formateado para imprimir: XXXX-XXXX
+  label: string;
+  medium: QrTokenMedium;
+  lastScannedAt: Date | null;
+  scanCount: number;
+  revokedAt: Date | null;
+  suspendedAt: Date | null;  // Suspensión automática por escaneos sospechosos
+  suspendedReason: QrScanIncidentType | null;
+  createdAt: Date;
+}
+
+interface QrTokenWithImage extends QrTokenResponse {
+  qrDataUrl: string;
+  emergencyUrl: string;
+}
+
+// Datos del código escaneado que se muestran en el historial de accesos
+export type QrTokenSummary = Pick<QrToken, 'id' | 'label' | 'medium' | 'revokedAt'>;
+
+class QrTokenService {
+  /**
+   * Lista los códigos del paciente: activos primero, luego revocados
+   */
+  async listTokens(userId: string): Promise<QrTokenResponse[]> {
+    const tokens = await prisma.qrToken.findMany({
+      where: { userId },
+      orderBy: [{ revokedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'asc' }],
+    });
+
+    return tokens.map((token) => this.formatToken(token));
+  }
+
+  /**
+   * Obtiene un código con su imagen QR
+   */
+  async getToken(userId: string, tokenId: string): Promise<QrTokenWithImage | null> {
+    const token = await prisma.qrToken.findFirst({
+      where: { id: tokenId, userId },
+    });
+
+    if (!token) {
+      return null;
+    }
+
+    return this.withImage(token);
+  }
+
+  /**
+   * Crea un código nuevo para otro objeto (pulsera, casco, etc.)
+   */
+  async createToken(userId: string, input: QrTokenInput): Promise<QrTokenWithImage> {
+    const activeCount = await prisma.qrToken.count({
+      where: { userId, revokedAt: null },
+    });
+
+    if (activeCount >= MAX_ACTIVE_QR_TOKENS) {
+      throw {
+        code: 'QR_TOKEN_LIMIT',
+        message: `Puedes tener hasta ${MAX_ACTIVE_QR_TOKENS} códigos activos. Revoca alguno que ya no uses.`,
+        status: 400,
+      };
+    }
+
+    const token = await this.withUniqueShortCode((shortCode) =>
+      prisma.qrToken.create({
+        data: {
+          userId,
+          shortCode,
+          label: input.label.trim(),
+          medium: input.medium,
+        },
+      })
+    );
+
+    return this.withImage(token);
+  }
+
+  /**
+   * Ejecuta una escritura con un código manual nuevo; reintenta si choca con uno existente
+   */
+  async withUniqueShortCode<T>(write: (shortCode: string) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await write(generateShortCode());
+      } catch (error) {
+        const collision = error instanceof Prisma.PrismaClientKnownRequestError
+          && error.code === 'P2002'
+          && JSON.stringify(error.meta?.target).includes('shortCode');
+        if (!collision || attempt >= SHORT_CODE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  /**
+   * Cambia la etiqueta o el tipo de objeto de un código
+   */
+  async updateToken(userId: string, tokenId: string, input: Partial<QrTokenInput>): Promise<QrTokenResponse> {
+    await this.findOwnedToken(userId, tokenId);
+
+    const token = await prisma.qrToken.update({
+      where: { id: tokenId },
+      data: {
+        label: input.label?.trim(),
+        medium: input.medium,
+      },
+    });
+
+    return this.formatToken(token);
+  }
+
+  /**
+   * Revoca un código: deja de abrir el perfil sin afectar a los demás
+   */
+  async revokeToken(userId: string, tokenId: string): Promise<QrTokenResponse> {
+    const existing = await this.findOwnedToken(userId, tokenId);
+
+    if (existing.revokedAt) {
+      throw { code: 'QR_TOKEN_REVOKED', message: 'El código ya estaba revocado', status: 400 };
+    }
+
+    const token = await prisma.qrToken.update({
+      where: { id: tokenId },
+      data: { revokedAt: new Date() },
+    });
+
+    return this.formatToken(token);
+  }
+
+  /**
+   * Reactiva un código suspendido por escaneos sospechosos (el paciente confirma que lo tiene)
+   */
+  async reactivateToken(userId: string, tokenId: string): Promise<QrTokenResponse> {
+    const existing = await this.findOwnedToken(userId, tokenId);
+
+    if (existing.revokedAt) {
+      throw { code: 'QR_TOKEN_REVOKED', message: 'El código está revocado', status: 400 };
+    }
+
+    if (!existing.suspendedAt) {
+      throw { code: 'QR_TOKEN_NOT_SUSPENDED', message: 'El código no está suspendido', status: 400 };
+    }
+
+    const token = await prisma.qrToken.update({
+      where: { id: tokenId },
+      data: { suspendedAt: null, suspendedReason: null },
+    });
+
+    return this.formatToken(token);
+  }
+
+  /**
+   * Descarga del QR para imprimir; cuenta contra qrDownloadsPerMonth
+   */
+  async downloadToken(userId: string, tokenId: string): Promise<QrTokenWithImage & { usage: LimitUsage }> {
+    const { token, usage } = await this.consumeDownload(userId, tokenId);
+
+    return { ...(await this.withImage(token)), usage };
+  }
+
+  /**
+   * Valida que el código esté vigente y descuenta una descarga del mes
+   * (QR suelto, tarjeta, hoja de calcomanías o fondo de pantalla)
+   */
+  async consumeDownload(userId: string, tokenId: string): Promise<{ token: QrToken; usage: LimitUsage }> {
+    const token = await this.findOwnedToken(userId, tokenId);
+
+    if (token.revokedAt) {
+      throw { code: 'QR_TOKEN_REVOKED', message: 'El código está revocado', status: 400 };
+    }
+
+    const usage = await premiumFeaturesService.consumeLimit(userId, 'qrDownloadsPerMonth');
+
+    return { token, usage };
+  }
+
+  /**
+   * Mismas validaciones que consumeDownload sin descontar la descarga
+   * (para generar el material antes y cobrarla solo si se entrega)
+   */
+  async checkDownload(userId: string, tokenId: string): Promise<QrToken> {
+    const token = await this.findOwnedToken(userId, tokenId);
+
+    if (token.revokedAt) {
+      throw { code: 'QR_TOKEN_REVOKED', message: 'El código está revocado', status: 400 };
+    }
+
+    const { allowed, limit, current } = await premiumFeaturesService.canDownloadQR(userId);
+    if (!allowed) {
+      throw premiumFeaturesService.limitReachedError('qrDownloadsPerMonth', limit, current);
+    }
+
+    return token;
+  }
+
+  /**
+   * Busca un código vigente por su valor (acceso de emergencia)
+   */
+  async findActiveToken(token: string): Promise<QrToken | null> {
+    return await prisma.qrToken.findFirst({
+      where: { token, revokedAt: null },
+    });
+  }
+
+  /**
+   * Registra un escaneo; scannedAt puede ser anterior (accesos sincronizados sin conexión)
+   */
+  async recordScan(token: string, scannedAt: Date = new Date()): Promise<void> {
+    try {
+      const existing = await prisma.qrToken.findUnique({
+        where: { token },
+        select: { lastScannedAt: true },
+      });
+      if (!existing) return;
+
+      await prisma.qrToken.update({
+        where: { token },
+        data: {
+          scanCount: { increment: 1 },
+          lastScannedAt: existing.lastScannedAt && existing.lastScannedAt > scannedAt
+            ? existing.lastScannedAt
+            : scannedAt,
+        },
+      });
+    } catch (error) {
+      console.error('Error registrando escaneo de QR:', error);
+    }
+  }
+
+  /**
+   * Etiquetas de los códigos del paciente indexadas por valor (incluye revocados)
+   */
+  async getSummariesByToken(userId: string): Promise<Map<string, QrTokenSummary>> {
+    const tokens = await prisma.qrToken.findMany({
+      where: { userId },
+      select: { id: true, token: true, label: true, medium: true, revokedAt: true },
+    });
+
+    return new Map(tokens.map(({ token, ...summary }) => [token, summary]));
+  }
+
+  private async findOwnedToken(userId: string, tokenId: string): Promise<QrToken> {
+    const token = await prisma.qrToken.findFirst({
+      where: { id: tokenId, userId },
+    });
+
+    if (!token) {
+      throw { code: 'QR_TOKEN_NOT_FOUND', message: 'Código QR no encontrado', status: 404 };
+    }
+
+    return token;
+  }
+
+  private async withImage(token: QrToken): Promise<QrTokenWithImage> {
+    const qrResult = await generateEmergencyQR(token.token, formatShortCode(token.shortCode));
+
+    return {
+      ...this.formatToken(token),
+      qrDataUrl: qrResult.qrDataUrl,
+      emergencyUrl: qrResult.emergencyUrl,
+    };
+  }
+
+  private formatToken(token: QrToken): QrTokenResponse {
+    return {
+      id: token.id,
+      token: token.token,
+      shortCode: formatShortCode(token.shortCode),
+      label: token.label,
+      medium: token.medium,
+      lastScannedAt: token.lastScannedAt,
+      scanCount: token.scanCount,
+      revokedAt: token.revokedAt,
+      suspendedAt: token.suspendedAt,
+      suspendedReason: token.suspendedReason,
+      createdAt: token.createdAt,
+    };
+  }
+}
+
+export const qrTokenService = new QrTokenService();
+export default qrTokenService;
@@ -0,0 +1,35 @@
+// src/modules/realtime/operator-events.ts
+import { io } from '../../main';
+
+// Namespace de Socket.io para la consola de operadores (token de administrador)
+export const OPERATOR_NAMESPACE = '/admin';
+export const OPERATORS_ROOM = 'operators';
+
+export type OperatorAlertEvent =
+  | 'CREATED'
+  | 'ESCALATED'
+  | 'QUEUED'
+  | 'ACKNOWLEDGED'
+  | 'LOCATION'
+  | 'ASSIGNED'
+  | 'NOTE_ADDED'
+  | 'RESOLVED'
+  | 'CANCELLED'
+  | 'EXPIRED';
+
+/**
+ * Avisa a la consola de operadores que una alerta de panico cambio
+ * Los clientes recargan la alerta; LOCATION incluye el punto para no consultar el trayecto
+ */
+export function notifyOperators(
+  alertId: string,
+  event: OperatorAlertEvent,
+  data: Record<string, unknown> = {}
+): void {
+  io.of(OPERATOR_NAMESPACE).to(OPERATORS_ROOM).emit('panic-alert-updated', {
+    alertId,
+    event,
+    ...data,
+    timestamp: new Date(),
+  });
+}
@@ -0,0 +1,234 @@
+// src/modules/realtime/socket.gateway.ts
+import { PrismaClient, RepresentativeStatus } from '@prisma/client';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import jwt from 'jsonwebtoken';
+import config from '../../config';
+import { ADMIN_PERMISSIONS } from '../../common/guards/admin-roles.guard';
+import { authService, AuthError } from '../auth/auth.service';
+import { panicEscalationService } from '../panic/panic-escalation.service';
+import { OPERATOR_NAMESPACE, OPERATORS_ROOM } from './operator-events';
+
+const prisma = new PrismaClient();
+
+interface SocketUser {
+  userId: string;
+  email: string;
+}
+
+type EventAck = (response: { success: boolean; error?: { code: string; message: string } }) => void;
+
+/**
+ * Error de handshake; el cliente lo recibe en `connect_error` (message = code)
+ */
+function handshakeError(code: string, message: string): Error {
+  const error = new Error(code) as Error & { data?: { code: string; message: string } };
+  error.data = { code, message };
+  return error;
+}
+
+/**
+ * Extrae el token del handshake: `auth.token` (socket.io-client) o header Authorization
+ */
+function getHandshakeToken(socket: Socket): string | null {
+  const authToken = socket.handshake.auth?.token;
+  if (typeof authToken === 'string' && authToken) {
+    return authToken;
+  }
+
+  const header = socket.handshake.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice(7);
+  }
+
+  return null;
+}
+
+/**
+ * Pacientes que designaron al usuario como representante y cuya designación aceptó
+ */
+async function getRepresentedPatientIds(user: SocketUser): Promise<string[]> {
+  const representatives = await prisma.representative.findMany({
+    where: {
+      accountUserId: user.userId,
+      status: RepresentativeStatus.ACCEPTED,
+    },
+    select: { userId: true },
+  });
+
+  return [...new Set(representatives.map((r) => r.userId))];
+}
+
+/**
+ * Cierra la conexión al expirar el token; el cliente se reconecta con uno nuevo
+ */
+function disconnectOnExpiry(socket: Socket, exp?: number) {
+  if (!exp) return;
+  const timer = setTimeout(() => socket.disconnect(true), Math.max(exp * 1000 - Date.now(), 0));
+  socket.once('disconnect', () => clearTimeout(timer));
+}
+
+/**
+ * Autentica el handshake con el access token JWT
+ */
+async function authenticate(socket: Socket, next: (err?: Error) => void) {
+  const token = getHandshakeToken(socket);
+  if (!token) {
+    return next(handshakeError('NO_TOKEN', 'Token de autorización no proporcionado'));
+  }
+
+  try {
+    const payload = authService.verifyAccessToken(token);
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { isActive: true },
+    });
+    if (!user?.isActive) {
+      return next(handshakeError('UNAUTHORIZED', 'No autorizado'));
+    }
+
+    socket.data.user = { userId: payload.userId, email: payload.email } as SocketUser;
+    disconnectOnExpiry(socket, (payload as { exp?: number }).exp);
+
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return next(handshakeError(error.code, error.message));
+    }
+    console.error('Error autenticando socket:', error);
+    next(handshakeError('SERVER_ERROR', 'Error interno del servidor'));
+  }
+}
+
+/**
+ * Autentica a un operador con el access token de administrador
+ * Solo administradores con permiso panic:respond reciben eventos de la consola
+ */
+async function authenticateOperator(socket: Socket, next: (err?: Error) => void) {
+  const token = getHandshakeToken(socket);
+  if (!token) {
+    return next(handshakeError('NO_ADMIN_TOKEN', 'Token de administrador requerido'));
+  }
+
+  try {
+    const adminSecret = config.jwt.adminSecret || config.jwt.secret;
+    const payload = jwt.verify(token, adminSecret) as { adminId: string; type: string; exp?: number };
+
+    if (payload.type !== 'admin_access') {
+      return next(handshakeError('INVALID_TOKEN_TYPE', 'Token invalido para administrador'));
+    }
+
+    const admin = await prisma.adminUser.findUnique({
+      where: { id: payload.adminId },
+      select: { id: true, isActive: true, isSuperAdmin: true, permissions: true, lockedUntil: true },
+    });
+
+    if (!admin?.isActive || (admin.lockedUntil && admin.lockedUntil > new Date())) {
+      return next(handshakeError('UNAUTHORIZED', 'No autorizado'));
+    }
+
+    const canRespond = admin.isSuperAdmin
+      || admin.permissions.includes('*')
+      || admin.permissions.includes(ADMIN_PERMISSIONS.PANIC_RESPOND);
+    if (!canRespond) {
+      return next(handshakeError('MISSING_PERMISSION', `Permiso requerido: ${ADMIN_PERMISSIONS.PANIC_RESPOND}`));
+    }
+
+    socket.data.adminId = admin.id;
+    disconnectOnExpiry(socket, payload.exp);
+    next();
+  } catch (error: any) {
+    if (error.name === 'TokenExpiredError' || error.name === 'JsonWebTokenError') {
+      return next(handshakeError('INVALID_TOKEN', 'Token invalido o expirado'));
+    }
+    console.error('Error autenticando operador:', error);
+    next(handshakeError('SERVER_ERROR', 'Error interno del servidor'));
+  }
+}
+
+/**
+ * Registra la autenticación y los eventos de salas de Socket.io
+ *
+ * Salas:
+ * - user-{userId}: solo el propio usuario
+ * - representative-{userId}: representantes designados por el paciente
+ * - operators (namespace /admin): consola de operadores de alertas de pánico
+ */
+export function registerSocketHandlers(io: SocketIOServer): void {
+  const operators = io.of(OPERATOR_NAMESPACE);
+  operators.use((socket, next) => {
+    authenticateOperator(socket, next);
+  });
+  operators.on('connection', (socket) => {
+    console.log(`🔌 Operador conectado: ${socket.id} (admin ${socket.data.adminId})`);
+    socket.join(OPERATORS_ROOM);
+  });
+
+  io.use((socket, next) => {
+    authenticate(socket, next);
+  });
+
+  io.on('connection', async (socket) => {
+    const user = socket.data.user as SocketUser;
+    console.log(`🔌 Cliente conectado: ${socket.id} (usuario ${user.userId})`);
+
+    socket.join(`user-${user.userId}`);
+
+    // Compatibilidad: unirse explícitamente a la propia sala
+    socket.on('join-user', (userId: string, ack?: EventAck) => {
+      if (userId !== user.userId) {
+        console.warn(`⛔ Socket ${socket.id} intentó unirse a la sala de ${userId}`);
+        return ack?.({ success: false, error: { code: 'FORBIDDEN', message: 'No puedes unirte a esta sala' } });
+      }
+      socket.join(`user-${userId}`);
+      ack?.({ success: true });
+    });
+
+    // Solo representantes designados por el paciente
+    socket.on('join-representative', async (patientId: string, ack?: EventAck) => {
+      try {
+        const patientIds = await getRepresentedPatientIds(user);
+        if (!patientIds.includes(patientId)) {
+          console.warn(`⛔ Socket ${socket.id} intentó unirse como representante de ${patientId}`);
+          return ack?.({ success: false, error: { code: 'FORBIDDEN', message: 'No eres representante de este paciente' } });
+        }
+        socket.join(`representative-${patientId}`);
+        ack?.({ success: true });
+      } catch (error) {
+        console.error('Error autorizando sala de representante:', error);
+        ack?.({ success: false, error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' } });
+      }
+    });
+
+    // Un representante confirma que atiende una alerta de pánico (detiene el escalamiento)
+    socket.on('acknowledge-panic', async (alertId: string, ack?: EventAck) => {
+      try {
+        await panicEscalationService.acknowledgeByAccount(alertId, user.userId, 'SOCKET');
+        ack?.({ success: true });
+      } catch (error: any) {
+        if (!error.status) {
+          console.error('Error confirmando alerta por socket:', error);
+        }
+        ack?.({
+          success: false,
+          error: {
+            code: error.code || 'SERVER_ERROR',
+            message: error.status ? error.message : 'Error interno del servidor',
+          },
+        });
+      }
+    });
+
+    socket.on('disconnect', () => {
+      console.log(`🔌 Cliente desconectado: ${socket.id}`);
+    });
+
+    // Salas de los pacientes que designaron al usuario como representante
+    try {
+      const patientIds = await getRepresentedPatientIds(user);
+      patientIds.forEach((patientId) => socket.join(`representative-${patientId}`));
+    } catch (error) {
+      console.error('Error obteniendo pacientes representados:', error);
+    }
+  });
+}
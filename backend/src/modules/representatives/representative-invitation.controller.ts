@@ -0,0 +1,160 @@
+// src/modules/representatives/representative-invitation.controller.ts
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { authMiddleware } from '../../common/guards/auth.middleware';
+import { representativeInvitationService } from './representative-invitation.service';
+
+const router = Router();
+
+// El token de la invitación identifica al representante; aceptar requiere una cuenta VIDA
+
+const tokenParam = param('token').isHexadecimal().isLength({ min: 64, max: 64 });
+
+/**
+ * GET /api/v1/representative-invitations/:token
+ * Obtiene la invitación (sin datos médicos del paciente)
+ */
+router.get('/:token',
+  tokenParam,
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const invitation = await representativeInvitationService.getInvitation(req.params.token);
+
+      res.json({
+        success: true,
+        data: { invitation },
+      });
+    } catch (error: any) {
+      console.error('Error obteniendo invitación de representante:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/representative-invitations/:token/code
+ * Envía un código de verificación al teléfono o email registrado por el paciente
+ */
+router.post('/:token/code',
+  tokenParam,
+  body('channel').isIn(['SMS', 'EMAIL']).withMessage('Canal inválido'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const verification = await representativeInvitationService.sendVerificationCode(
+        req.params.token,
+        req.body.channel
+      );
+
+      res.json({
+        success: true,
+        message: 'Código enviado',
+        data: { verification },
+      });
+    } catch (error: any) {
+      console.error('Error enviando código a representante:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/representative-invitations/:token/accept
+ * Acepta la designación con el código y vincula la cuenta del usuario autenticado
+ */
+router.post('/:token/accept',
+  authMiddleware,
+  tokenParam,
+  body('code').trim().matches(/^\d{6}$/).withMessage('El código debe tener 6 dígitos'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const result = await representativeInvitationService.accept(
+        req.params.token,
+        req.userId!,
+        req.body.code,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Designación aceptada',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error aceptando designación de representante:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/representative-invitations/:token/decline
+ * Rechaza la designación
+ */
+router.post('/:token/decline',
+  tokenParam,
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const result = await representativeInvitationService.decline(
+        req.params.token,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        message: 'Designación rechazada',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error rechazando designación de representante:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,299 @@
+// src/modules/representatives/representative-invitation.service.ts
+import crypto from 'crypto';
+import { PrismaClient, Representative, RepresentativeStatus } from '@prisma/client';
+import { generateSecureToken, hashSHA256, secureCompare } from '../../common/utils/encryption';
+import { notificationService } from '../notification/notification.service';
+import config from '../../config';
+
+const prisma = new PrismaClient();
+
+const INVITE_EXPIRES_DAYS = 14;
+const CODE_EXPIRES_MINUTES = 10;
+const CODE_RESEND_SECONDS = 60;
+const MAX_CODE_ATTEMPTS = 5;
+
+export type VerificationChannel = 'EMAIL' | 'SMS';
+
+/**
+ * Oculta parcialmente un contacto: ma***@dominio.com, ******5678
+ */
+function maskContact(channel: VerificationChannel, value: string): string {
+  if (channel === 'EMAIL') {
+    const [local, domain] = value.split('@');
+    return `${local.slice(0, 2)}***@${domain}`;
+  }
+  return `******${value.replace(/\D/g, '').slice(-4)}`;
+}
+
+class RepresentativeInvitationService {
+  /**
+   * Envía (o reenvía) la invitación a aceptar la designación
+   * Un nuevo enlace invalida el anterior
+   */
+  async sendInvitation(userId: string, representativeId: string) {
+    const representative = await prisma.representative.findFirst({
+      where: { id: representativeId, userId },
+      include: { user: { select: { name: true } } },
+    });
+
+    if (!representative) {
+      return null;
+    }
+
+    if (representative.status === RepresentativeStatus.ACCEPTED) {
+      throw { code: 'ALREADY_ACCEPTED', message: 'El representante ya aceptó la designación', status: 409 };
+    }
+
+    const inviteToken = generateSecureToken(32);
+    const inviteExpires = new Date(Date.now() + INVITE_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+
+    const updated = await prisma.representative.update({
+      where: { id: representativeId },
+      data: {
+        status: RepresentativeStatus.PENDING,
+        inviteToken,
+        inviteExpires,
+        invitedAt: new Date(),
+        declinedAt: null,
+        verificationCodeHash: null,
+        verificationChannel: null,
+        verificationExpires: null,
+        verificationAttempts: 0,
+      },
+    });
+
+    const delivery = await notificationService.sendRepresentativeInvitation({
+      representativeName: updated.name,
+      patientName: representative.user.name,
+      email: updated.email,
+      phone: updated.phone,
+      inviteUrl: `${config.frontendUrl}/representante/${inviteToken}`,
+      expiresAt: inviteExpires,
+      representativeId,
+    });
+
+    return { representative: updated, delivery };
+  }
+
+  /**
+   * Obtiene la invitación para el enlace público
+   * No expone información médica del paciente
+   */
+  async getInvitation(token: string) {
+    const representative = await this.findByToken(token);
+
+    return {
+      representativeName: representative.name,
+      patientName: representative.user.name,
+      relation: representative.relation,
+      isDonorSpokesperson: representative.isDonorSpokesperson,
+      notifyOnEmergency: representative.notifyOnEmergency,
+      channels: {
+        SMS: maskContact('SMS', representative.phone),
+        EMAIL: representative.email ? maskContact('EMAIL', representative.email) : null,
+      },
+      inviteExpires: representative.inviteExpires,
+    };
+  }
+
+  /**
+   * Envía un código de 6 dígitos al teléfono o email registrado por el paciente
+   */
+  async sendVerificationCode(token: string, channel: VerificationChannel) {
+    const representative = await this.findByToken(token);
+
+    const destination = channel === 'SMS' ? representative.phone : representative.email;
+    if (!destination) {
+      throw { code: 'CHANNEL_UNAVAILABLE', message: 'No hay un email registrado para este representante', status: 400 };
+    }
+
+    // El código anterior se emitió hace menos de CODE_RESEND_SECONDS
+    if (representative.verificationExpires) {
+      const sentAt = representative.verificationExpires.getTime() - CODE_EXPIRES_MINUTES * 60 * 1000;
+      if (Date.now() - sentAt < CODE_RESEND_SECONDS * 1000) {
+        throw { code: 'CODE_RECENTLY_SENT', message: 'Espera un minuto antes de solicitar otro código', status: 429 };
+      }
+    }
+
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const verificationExpires = new Date(Date.now() + CODE_EXPIRES_MINUTES * 60 * 1000);
+
+    await prisma.representative.update({
+      where: { id: representative.id },
+      data: {
+        verificationCodeHash: hashSHA256(code),
+        verificationChannel: channel,
+        verificationExpires,
+        verificationAttempts: 0,
+      },
+    });
+
+    const sent = await notificationService.sendRepresentativeCode({
+      channel,
+      to: destination,
+      code,
+      patientName: representative.user.name,
+      representativeId: representative.id,
+    });
+
+    if (!sent) {
+      throw { code: 'CODE_NOT_SENT', message: 'No se pudo enviar el código, intenta de nuevo', status: 502 };
+    }
+
+    return {
+      channel,
+      destination: maskContact(channel, destination),
+      expiresAt: verificationExpires,
+    };
+  }
+
+  /**
+   * Acepta la designación y vincula la cuenta VIDA del representante
+   * Requiere el código enviado al contacto registrado por el paciente
+   */
+  async accept(token: string, accountUserId: string, code: string, ipAddress?: string, userAgent?: string) {
+    const representative = await this.findByToken(token);
+
+    if (representative.userId === accountUserId) {
+      throw { code: 'SELF_REPRESENTATION', message: 'No puedes ser tu propio representante', status: 400 };
+    }
+
+    if (!representative.verificationCodeHash || !representative.verificationExpires) {
+      throw { code: 'CODE_REQUIRED', message: 'Solicita un código de verificación', status: 400 };
+    }
+
+    if (representative.verificationExpires < new Date()) {
+      throw { code: 'CODE_EXPIRED', message: 'El código ha expirado, solicita uno nuevo', status: 400 };
+    }
+
+    if (representative.verificationAttempts >= MAX_CODE_ATTEMPTS) {
+      throw { code: 'CODE_LOCKED', message: 'Demasiados intentos, solicita un nuevo código', status: 429 };
+    }
+
+    if (!secureCompare(hashSHA256(code), representative.verificationCodeHash)) {
+      await prisma.representative.update({
+        where: { id: representative.id },
+        data: { verificationAttempts: { increment: 1 } },
+      });
+      throw { code: 'INVALID_CODE', message: 'Código incorrecto', status: 400 };
+    }
+
+    const alreadyLinked = await prisma.representative.findFirst({
+      where: {
+        userId: representative.userId,
+        accountUserId,
+        status: RepresentativeStatus.ACCEPTED,
+        id: { not: representative.id },
+      },
+      select: { id: true },
+    });
+    if (alreadyLinked) {
+      throw { code: 'ALREADY_REPRESENTATIVE', message: 'Ya eres representante de este paciente', status: 409 };
+    }
+
+    const now = new Date();
+    const updated = await prisma.representative.update({
+      where: { id: representative.id },
+      data: {
+        status: RepresentativeStatus.ACCEPTED,
+        acceptedAt: now,
+        accountUserId,
+        inviteToken: null,
+        inviteExpires: null,
+        verificationCodeHash: null,
+        verificationExpires: null,
+        verificationAttempts: 0,
+      },
+    });
+
+    await this.logAudit(updated, 'REPRESENTATIVE_ACCEPTED', {
+      actorType: 'USER',
+      actorId: accountUserId,
+      details: { channel: representative.verificationChannel },
+      ipAddress,
+      userAgent,
+    });
+
+    return {
+      patientName: representative.user.name,
+      acceptedAt: now,
+    };
+  }
+
+  /**
+   * Rechaza la designación
+   */
+  async decline(token: string, ipAddress?: string, userAgent?: string) {
+    const representative = await this.findByToken(token);
+
+    const updated = await prisma.representative.update({
+      where: { id: representative.id },
+      data: {
+        status: RepresentativeStatus.DECLINED,
+        declinedAt: new Date(),
+        inviteToken: null,
+        inviteExpires: null,
+        verificationCodeHash: null,
+        verificationExpires: null,
+      },
+    });
+
+    await this.logAudit(updated, 'REPRESENTATIVE_DECLINED', { actorType: 'PUBLIC', ipAddress, userAgent });
+
+    return { declined: true };
+  }
+
+  /**
+   * Busca una invitación vigente por token
+   */
+  private async findByToken(token: string) {
+    const representative = await prisma.representative.findUnique({
+      where: { inviteToken: token },
+      include: { user: { select: { name: true } } },
+    });
+
+    if (!representative || representative.status !== RepresentativeStatus.PENDING) {
+      throw { code: 'INVALID_INVITATION', message: 'Invitación inválida o ya utilizada', status: 404 };
+    }
+
+    if (!representative.inviteExpires || representative.inviteExpires < new Date()) {
+      throw { code: 'INVITATION_EXPIRED', message: 'La invitación ha expirado', status: 410 };
+    }
+
+    return representative;
+  }
+
+  private async logAudit(
+    representative: Representative,
+    action: string,
+    context: {
+      actorType: 'USER' | 'PUBLIC';
+      actorId?: string;
+      details?: Record<string, string | null>;
+      ipAddress?: string;
+      userAgent?: string;
+    }
+  ): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: representative.userId,
+          actorType: context.actorType,
+          actorId: context.actorId,
+          actorName: representative.name,
+          action,
+          resource: 'representatives',
+          resourceId: representative.id,
+          details: context.details,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+    } catch (error) {
+      console.error('Error registrando auditoría de representante:', error);
+    }
+  }
+}
+
+export const representativeInvitationService = new RepresentativeInvitationService();
+export default representativeInvitationService;
@@ -0,0 +1,137 @@
+// src/modules/representatives/representative-portal.controller.ts
+import { Router, Request, Response } from 'express';
+import { param, validationResult } from 'express-validator';
+import { authMiddleware } from '../../common/guards/auth.middleware';
+import { representativePortalService } from './representative-portal.service';
+import { panicEscalationService } from '../panic/panic-escalation.service';
+
+const router = Router();
+
+// Portal del representante: pacientes que lo designaron y cuya designación aceptó
+router.use(authMiddleware);
+
+/**
+ * GET /api/v1/representative-portal
+ * Pacientes representados con alertas activas, accesos recientes y deberes de vocero
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const patients = await representativePortalService.listPatients(req.userId!);
+
+    res.json({
+      success: true,
+      data: { patients },
+    });
+  } catch (error) {
+    console.error('Error obteniendo portal de representante:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+    });
+  }
+});
+
+/**
+ * POST /api/v1/representative-portal/alerts/:alertId/acknowledge
+ * Confirma que el representante atiende la alerta de pánico (detiene el escalamiento)
+ */
+router.post('/alerts/:alertId/acknowledge',
+  param('alertId').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const result = await panicEscalationService.acknowledgeByAccount(req.params.alertId, req.userId!, 'PORTAL');
+
+      res.json({
+        success: true,
+        message: 'Confirmaste que atiendes la alerta',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error confirmando alerta de pánico:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/representative-portal/alerts/:alertId/trail
+ * Trayecto en vivo del paciente (solo tras confirmar que se atiende la alerta)
+ */
+router.get('/alerts/:alertId/trail',
+  param('alertId').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const trail = await representativePortalService.getAlertTrail(req.userId!, req.params.alertId);
+
+      res.json({
+        success: true,
+        data: trail,
+      });
+    } catch (error: any) {
+      if (!error.status) {
+        console.error('Error obteniendo trayecto de alerta:', error);
+      }
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/representative-portal/:representativeId/leave
+ * Renuncia a la designación
+ */
+router.post('/:representativeId/leave',
+  param('representativeId').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const left = await representativePortalService.leave(req.userId!, req.params.representativeId);
+
+      if (!left) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Designación no encontrada' },
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Has renunciado a la designación',
+      });
+    } catch (error) {
+      console.error('Error renunciando a designación:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,175 @@
+// src/modules/representatives/representative-portal.service.ts
+import { PrismaClient, PanicStatus, RepresentativeStatus } from '@prisma/client';
+import { decryptJSON } from '../../common/utils/encryption';
+import { panicService } from '../panic/panic.service';
+import type { PanicAcknowledgement } from '../panic/panic-escalation.service';
+
+const prisma = new PrismaClient();
+
+const RECENT_ACCESSES = 10;
+
+interface DonorPreferences {
+  organs: string[];
+  tissues: string[];
+  forResearch: boolean;
+  restrictions?: string;
+}
+
+class RepresentativePortalService {
+  /**
+   * Pacientes que designaron al usuario y éste aceptó
+   * Incluye alertas de pánico activas, accesos de emergencia recientes y,
+   * para el vocero de donación, las preferencias de donación del paciente
+   */
+  async listPatients(accountUserId: string) {
+    const designations = await prisma.representative.findMany({
+      where: { accountUserId, status: RepresentativeStatus.ACCEPTED },
+      orderBy: { acceptedAt: 'asc' },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            profile: {
+              select: { isDonor: true, donorPreferencesEnc: true },
+            },
+            panicAlerts: {
+              where: { status: PanicStatus.ACTIVE },
+              orderBy: { createdAt: 'desc' },
+              select: {
+                id: true,
+                latitude: true,
+                longitude: true,
+                accuracy: true,
+                locationName: true,
+                message: true,
+                escalationLevel: true,
+                operatorQueuedAt: true,
+                acknowledgedAt: true,
+                acknowledgements: true,
+                lastLocationAt: true,
+                createdAt: true,
+              },
+            },
+            emergencyAccesses: {
+              orderBy: { accessedAt: 'desc' },
+              take: RECENT_ACCESSES,
+              select: {
+                id: true,
+                accessorName: true,
+                accessorRole: true,
+                institutionName: true,
+                locationName: true,
+                latitude: true,
+                longitude: true,
+                accessedAt: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    return designations.map((designation) => {
+      const { user } = designation;
+      const profile = user.profile;
+
+      return {
+        representativeId: designation.id,
+        patient: { id: user.id, name: user.name },
+        relation: designation.relation,
+        priority: designation.priority,
+        notifyOnEmergency: designation.notifyOnEmergency,
+        acceptedAt: designation.acceptedAt,
+        activePanicAlerts: user.panicAlerts,
+        recentAccesses: user.emergencyAccesses,
+        // Solo el vocero designado ve las preferencias de donación
+        donorSpokesperson: designation.isDonorSpokesperson
+          ? {
+              isDonor: profile?.isDonor ?? false,
+              preferences: profile?.donorPreferencesEnc
+                ? decryptJSON<DonorPreferences>(profile.donorPreferencesEnc)
+                : null,
+            }
+          : null,
+      };
+    });
+  }
+
+  /**
+   * Trayecto en vivo de una alerta activa
+   * Solo para representantes que confirmaron que atienden la alerta
+   */
+  async getAlertTrail(accountUserId: string, alertId: string) {
+    const alert = await prisma.panicAlert.findFirst({
+      where: { id: alertId, status: PanicStatus.ACTIVE },
+    });
+
+    if (!alert) {
+      throw { code: 'ALERT_NOT_FOUND', message: 'Alerta no encontrada o ya no está activa', status: 404 };
+    }
+
+    const designation = await prisma.representative.findFirst({
+      where: { userId: alert.userId, accountUserId, status: RepresentativeStatus.ACCEPTED },
+      select: { id: true },
+    });
+
+    if (!designation) {
+      throw { code: 'FORBIDDEN', message: 'No eres representante de este paciente', status: 403 };
+    }
+
+    const acknowledgements = (alert.acknowledgements as PanicAcknowledgement[] | null) || [];
+    if (!acknowledgements.some((ack) => ack.representativeId === designation.id)) {
+      throw {
+        code: 'ACKNOWLEDGEMENT_REQUIRED',
+        message: 'Confirma que atiendes la alerta para ver la ubicación en vivo',
+        status: 403,
+      };
+    }
+
+    return panicService.getLocationTrail(alert);
+  }
+
+  /**
+   * El representante renuncia a la designación y se desvincula su cuenta
+   */
+  async leave(accountUserId: string, representativeId: string): Promise<boolean> {
+    const designation = await prisma.representative.findFirst({
+      where: { id: representativeId, accountUserId, status: RepresentativeStatus.ACCEPTED },
+    });
+
+    if (!designation) {
+      return false;
+    }
+
+    await prisma.representative.update({
+      where: { id: representativeId },
+      data: {
+        status: RepresentativeStatus.DECLINED,
+        declinedAt: new Date(),
+        accountUserId: null,
+      },
+    });
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId: designation.userId,
+          actorType: 'USER',
+          actorId: accountUserId,
+          actorName: designation.name,
+          action: 'REPRESENTATIVE_WITHDRAWN',
+          resource: 'representatives',
+          resourceId: designation.id,
+        },
+      });
+    } catch (error) {
+      console.error('Error registrando auditoría de representante:', error);
+    }
+
+    return true;
+  }
+}
+
+export const representativePortalService = new RepresentativePortalService();
+export default representativePortalService;
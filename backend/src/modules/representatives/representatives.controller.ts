@@ -99,11 +99,15 @@ router.post('/',
         message: 'Representante creado exitosamente',
         data: { representative },
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creando representante:', error);
-      res.status(500).json({
+      res.status(error.status || 500).json({
         success: false,
-        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+          details: error.details,
+        },
       });
     }
   }
@@ -271,4 +275,44 @@ router.post('/:id/donor-spokesperson',
   }
 );
 
+/**
+ * POST /api/v1/representatives/:id/invite
+ * Reenvía la invitación para aceptar la designación (invalida el enlace anterior)
+ */
+router.post('/:id/invite',
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+      
+      const result = await representativesService.inviteRepresentative(req.userId!, req.params.id);
+      
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Representante no encontrado' },
+        });
+      }
+      
+      res.json({
+        success: true,
+        message: 'Invitación enviada',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error invitando representante:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.status ? error.message : 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
 export default router;
@@ -1,5 +1,7 @@
 // src/modules/representatives/representatives.service.ts
-import { PrismaClient, Representative } from '@prisma/client';
+import { PrismaClient, Representative, RepresentativeStatus } from '@prisma/client';
+import { representativeInvitationService } from './representative-invitation.service';
+import { premiumFeaturesService } from '../payments/services/premium-features.service';
 
 const prisma = new PrismaClient();
 
@@ -24,6 +26,12 @@ interface RepresentativeResponse {
   isDonorSpokesperson: boolean;
   notifyOnEmergency: boolean;
   notifyOnAccess: boolean;
+  status: RepresentativeStatus;
+  hasAccount: boolean;  // Aceptó y vinculó su cuenta VIDA
+  suspendedByPlan: boolean;  // Excede el límite del plan tras un downgrade: no se notifica
+  invitedAt: Date | null;
+  inviteExpires: Date | null;
+  acceptedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,12 +41,15 @@ class RepresentativesService {
    * Lista todos los representantes del usuario
    */
   async listRepresentatives(userId: string): Promise<RepresentativeResponse[]> {
-    const representatives = await prisma.representative.findMany({
-      where: { userId },
-      orderBy: { priority: 'asc' },
-    });
+    const [representatives, activeIds] = await Promise.all([
+      prisma.representative.findMany({
+        where: { userId },
+        orderBy: { priority: 'asc' },
+      }),
+      premiumFeaturesService.getActiveRepresentativeIds(userId),
+    ]);
     
-    return representatives.map(this.formatRepresentative);
+    return representatives.map((rep) => this.formatRepresentative(rep, activeIds));
   }
   
   /**
@@ -49,13 +60,20 @@ class RepresentativesService {
       where: { id: repId, userId },
     });
     
-    return representative ? this.formatRepresentative(representative) : null;
+    if (!representative) {
+      return null;
+    }
+    
+    const activeIds = await premiumFeaturesService.getActiveRepresentativeIds(userId);
+    return this.formatRepresentative(representative, activeIds);
   }
   
   /**
-   * Crea un nuevo representante
+   * Crea un nuevo representante y le envía la invitación para aceptar
    */
   async createRepresentative(userId: string, input: RepresentativeInput): Promise<RepresentativeResponse> {
+    await premiumFeaturesService.assertCanAddRepresentative(userId);
+    
     // Obtener la prioridad más alta actual
     const highestPriority = await prisma.representative.findFirst({
       where: { userId },
@@ -79,11 +97,12 @@ class RepresentativesService {
       },
     });
     
-    return this.formatRepresentative(representative);
+    return this.inviteOrFormat(userId, representative);
   }
   
   /**
    * Actualiza un representante
+   * Si cambia el teléfono o email la aceptación previa deja de valer y se reenvía la invitación
    */
   async updateRepresentative(
     userId: string, 
@@ -98,9 +117,18 @@ class RepresentativesService {
       return null;
     }
     
+    const phone = input.phone ?? existing.phone;
+    const email = input.email !== undefined ? input.email : existing.email;
+    const contactChanged = phone !== existing.phone || (email || null) !== existing.email;
+    
     const representative = await prisma.representative.update({
       where: { id: repId },
       data: {
+        ...(contactChanged && {
+          status: RepresentativeStatus.PENDING,
+          accountUserId: null,
+          acceptedAt: null,
+        }),
         name: input.name ?? existing.name,
         phone: input.phone ?? existing.phone,
         email: input.email !== undefined ? input.email : existing.email,
@@ -112,7 +140,9 @@ class RepresentativesService {
       },
     });
     
-    return this.formatRepresentative(representative);
+    return contactChanged
+      ? this.inviteOrFormat(userId, representative)
+      : this.formatRepresentative(representative);
   }
   
   /**
@@ -187,10 +217,41 @@ class RepresentativesService {
     return this.formatRepresentative(representative);
   }
   
+  /**
+   * Reenvía la invitación a aceptar la designación
+   */
+  async inviteRepresentative(userId: string, repId: string) {
+    const result = await representativeInvitationService.sendInvitation(userId, repId);
+    if (!result) {
+      return null;
+    }
+    
+    return {
+      representative: this.formatRepresentative(result.representative),
+      delivery: result.delivery,
+    };
+  }
+  
+  /**
+   * Envía la invitación; si falla el representante queda creado y se puede reenviar
+   */
+  private async inviteOrFormat(userId: string, representative: Representative): Promise<RepresentativeResponse> {
+    try {
+      const result = await representativeInvitationService.sendInvitation(userId, representative.id);
+      if (result) {
+        return this.formatRepresentative(result.representative);
+      }
+    } catch (error) {
+      console.error('Error enviando invitación a representante:', error);
+    }
+    return this.formatRepresentative(representative);
+  }
+  
   /**
    * Formatea un representante para la respuesta
+   * activeIds: representantes dentro del límite del plan (null = sin límite)
    */
-  private formatRepresentative(rep: Representative): RepresentativeResponse {
+  private formatRepresentative(rep: Representative, activeIds: Set<string> | null = null): RepresentativeResponse {
     return {
       id: rep.id,
       name: rep.name,
@@ -201,6 +262,12 @@ class RepresentativesService {
       isDonorSpokesperson: rep.isDonorSpokesperson,
       notifyOnEmergency: rep.notifyOnEmergency,
       notifyOnAccess: rep.notifyOnAccess,
+      status: rep.status,
+      hasAccount: !!rep.accountUserId,
+      suspendedByPlan: activeIds && rep.status !== RepresentativeStatus.DECLINED ? !activeIds.has(rep.id) : false,
+      invitedAt: rep.invitedAt,
+      inviteExpires: rep.inviteExpires,
+      acceptedAt: rep.acceptedAt,
       createdAt: rep.createdAt,
       updatedAt: rep.updatedAt,
     };
@@ -0,0 +1,206 @@
+// src/modules/staff/staff-auth.controller.ts
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { staffAuthService } from './staff-auth.service';
+import { staffAuthMiddleware } from '../../common/guards/staff-auth.middleware';
+
+const router = Router();
+
+/**
+ * POST /api/v1/staff/auth/login
+ * Inicia sesión de personal médico institucional
+ */
+router.post('/login',
+  body('email').isEmail().normalizeEmail().withMessage('Email inválido'),
+  body('password').notEmpty().withMessage('Contraseña requerida'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const { email, password } = req.body;
+      const result = await staffAuthService.login(email, password, req.ip, req.get('User-Agent'));
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error en login de personal:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.message || 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/staff/auth/refresh
+ * Renueva tokens de acceso del personal
+ */
+router.post('/refresh',
+  body('refreshToken').notEmpty().withMessage('Refresh token requerido'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      const result = await staffAuthService.refreshTokens(
+        req.body.refreshToken,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error renovando tokens de personal:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.message || 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/staff/auth/logout
+ * Cierra la sesión actual del personal
+ */
+router.post('/logout', staffAuthMiddleware,
+  body('refreshToken').notEmpty().withMessage('Refresh token requerido'),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      await staffAuthService.logout(req.body.refreshToken, req.staffId!);
+
+      res.json({
+        success: true,
+        message: 'Sesión cerrada correctamente',
+      });
+    } catch (error) {
+      console.error('Error en logout de personal:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/staff/auth/logout-all
+ * Cierra todas las sesiones del personal
+ */
+router.post('/logout-all', staffAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const count = await staffAuthService.logoutAll(req.staffId!);
+
+    res.json({
+      success: true,
+      message: `${count} sesiones cerradas`,
+    });
+  } catch (error) {
+    console.error('Error cerrando sesiones de personal:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+    });
+  }
+});
+
+/**
+ * GET /api/v1/staff/auth/me
+ * Obtiene la información del personal autenticado
+ */
+router.get('/me', staffAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const staff = await staffAuthService.getMe(req.staffId!);
+
+    res.json({
+      success: true,
+      data: { staff },
+    });
+  } catch (error: any) {
+    console.error('Error obteniendo personal:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: {
+        code: error.code || 'SERVER_ERROR',
+        message: error.message || 'Error interno del servidor',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/v1/staff/auth/sessions
+ * Lista las sesiones activas del personal
+ */
+router.get('/sessions', staffAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const sessions = await staffAuthService.getSessions(req.staffId!);
+
+    res.json({
+      success: true,
+      data: { sessions },
+    });
+  } catch (error) {
+    console.error('Error obteniendo sesiones de personal:', error);
+    res.status(500).json({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Error interno del servidor' },
+    });
+  }
+});
+
+/**
+ * DELETE /api/v1/staff/auth/sessions/:id
+ * Revoca una sesión específica del personal
+ */
+router.delete('/sessions/:id', staffAuthMiddleware,
+  param('id').isUUID(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ success: false, errors: errors.array() });
+      }
+
+      await staffAuthService.revokeSession(req.staffId!, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Sesión revocada',
+      });
+    } catch (error: any) {
+      console.error('Error revocando sesión de personal:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: {
+          code: error.code || 'SERVER_ERROR',
+          message: error.message || 'Error interno del servidor',
+        },
+      });
+    }
+  }
+);
+
+export default router;
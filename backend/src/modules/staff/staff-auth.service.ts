@@ -0,0 +1,339 @@
+// src/modules/staff/staff-auth.service.ts
+import { PrismaClient, StaffRole } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../../config';
+
+const prisma = new PrismaClient();
+
+export interface StaffTokenPayload {
+  staffId: string;
+  email: string;
+  institutionId: string;
+  role: string;
+  type: 'staff_access' | 'staff_refresh';
+}
+
+interface StaffLoginResult {
+  staff: {
+    id: string;
+    email: string;
+    name: string;
+    role: StaffRole;
+    license: string | null;
+    institution: {
+      id: string;
+      name: string;
+      isVerified: boolean;
+    };
+  };
+  accessToken: string;
+  refreshToken: string;
+}
+
+export class StaffAuthService {
+  /**
+   * Inicia sesión de personal médico de una institución
+   */
+  async login(
+    email: string,
+    password: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<StaffLoginResult> {
+    const staff = await prisma.medicalStaff.findUnique({
+      where: { email: email.toLowerCase() },
+      include: {
+        institution: {
+          select: { id: true, name: true, isVerified: true, isActive: true },
+        },
+      },
+    });
+
+    if (!staff) {
+      throw { code: 'INVALID_CREDENTIALS', message: 'Credenciales inválidas', status: 401 };
+    }
+
+    if (!staff.isActive) {
+      throw { code: 'ACCOUNT_INACTIVE', message: 'Cuenta de personal desactivada', status: 403 };
+    }
+
+    if (!staff.institution.isActive) {
+      throw { code: 'INSTITUTION_INACTIVE', message: 'La institución no está activa', status: 403 };
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, staff.passwordHash);
+
+    if (!isPasswordValid) {
+      await this.logAudit(staff.id, staff.name, 'STAFF_LOGIN_FAILED', { email: staff.email }, ipAddress, userAgent);
+      throw { code: 'INVALID_CREDENTIALS', message: 'Credenciales inválidas', status: 401 };
+    }
+
+    await prisma.medicalStaff.update({
+      where: { id: staff.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    const { accessToken, refreshToken } = this.generateTokens(staff);
+
+    // Guardar sesión
+    await prisma.staffSession.create({
+      data: {
+        staffId: staff.id,
+        refreshToken,
+        userAgent,
+        ipAddress,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 días
+      },
+    });
+
+    await this.logAudit(staff.id, staff.name, 'STAFF_LOGIN', { institutionId: staff.institutionId }, ipAddress, userAgent);
+
+    return {
+      staff: {
+        id: staff.id,
+        email: staff.email,
+        name: staff.name,
+        role: staff.role,
+        license: staff.license,
+        institution: {
+          id: staff.institution.id,
+          name: staff.institution.name,
+          isVerified: staff.institution.isVerified,
+        },
+      },
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  /**
+   * Renueva tokens de acceso rotando el refresh token
+   */
+  async refreshTokens(
+    refreshToken: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    let payload: StaffTokenPayload;
+    try {
+      payload = jwt.verify(refreshToken, config.jwt.staffSecret) as StaffTokenPayload;
+    } catch (error) {
+      throw { code: 'INVALID_TOKEN', message: 'Token inválido', status: 401 };
+    }
+
+    if (payload.type !== 'staff_refresh') {
+      throw { code: 'INVALID_TOKEN_TYPE', message: 'Token inválido', status: 401 };
+    }
+
+    const session = await prisma.staffSession.findUnique({
+      where: { refreshToken },
+      include: { staff: { include: { institution: { select: { isActive: true } } } } },
+    });
+
+    if (!session) {
+      throw { code: 'SESSION_NOT_FOUND', message: 'Sesión no encontrada', status: 401 };
+    }
+
+    if (session.expiresAt < new Date()) {
+      await prisma.staffSession.delete({ where: { id: session.id } });
+      throw { code: 'SESSION_EXPIRED', message: 'Sesión expirada', status: 401 };
+    }
+
+    if (!session.staff.isActive || !session.staff.institution.isActive) {
+      await prisma.staffSession.delete({ where: { id: session.id } });
+      throw { code: 'ACCOUNT_INACTIVE', message: 'Cuenta de personal desactivada', status: 403 };
+    }
+
+    const tokens = this.generateTokens(session.staff);
+
+    await prisma.staffSession.update({
+      where: { id: session.id },
+      data: {
+        refreshToken: tokens.refreshToken,
+        ipAddress,
+        userAgent,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Cierra la sesión asociada al refresh token
+   */
+  async logout(refreshToken: string, staffId: string): Promise<void> {
+    const session = await prisma.staffSession.findUnique({
+      where: { refreshToken },
+    });
+
+    if (session && session.staffId === staffId) {
+      await prisma.staffSession.delete({
+        where: { id: session.id },
+      });
+    }
+  }
+
+  /**
+   * Cierra todas las sesiones del personal
+   */
+  async logoutAll(staffId: string): Promise<number> {
+    const result = await prisma.staffSession.deleteMany({
+      where: { staffId },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Lista las sesiones activas del personal
+   */
+  async getSessions(staffId: string) {
+    return prisma.staffSession.findMany({
+      where: {
+        staffId,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        expiresAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoca una sesión específica del personal
+   */
+  async revokeSession(staffId: string, sessionId: string): Promise<void> {
+    const session = await prisma.staffSession.findFirst({
+      where: { id: sessionId, staffId },
+    });
+
+    if (!session) {
+      throw { code: 'SESSION_NOT_FOUND', message: 'Sesión no encontrada', status: 404 };
+    }
+
+    await prisma.staffSession.delete({ where: { id: session.id } });
+  }
+
+  /**
+   * Obtiene la información del personal autenticado
+   */
+  async getMe(staffId: string) {
+    const staff = await prisma.medicalStaff.findUnique({
+      where: { id: staffId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        license: true,
+        lastLoginAt: true,
+        institution: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            isVerified: true,
+          },
+        },
+      },
+    });
+
+    if (!staff) {
+      throw { code: 'STAFF_NOT_FOUND', message: 'Personal no encontrado', status: 404 };
+    }
+
+    return staff;
+  }
+
+  /**
+   * Verifica un token de acceso de personal
+   */
+  verifyAccessToken(token: string): StaffTokenPayload {
+    let payload: StaffTokenPayload;
+    try {
+      payload = jwt.verify(token, config.jwt.staffSecret) as StaffTokenPayload;
+    } catch (error: any) {
+      if (error.name === 'TokenExpiredError') {
+        throw { code: 'TOKEN_EXPIRED', message: 'Sesión expirada. Inicie sesión nuevamente.', status: 401 };
+      }
+      throw { code: 'INVALID_TOKEN', message: 'Token inválido', status: 401 };
+    }
+
+    if (payload.type !== 'staff_access') {
+      throw { code: 'INVALID_TOKEN_TYPE', message: 'Token inválido para personal médico', status: 401 };
+    }
+
+    return payload;
+  }
+
+  /**
+   * Genera el par de tokens JWT del personal
+   */
+  private generateTokens(staff: {
+    id: string;
+    email: string;
+    institutionId: string;
+    role: StaffRole;
+  }): { accessToken: string; refreshToken: string } {
+    const accessPayload: StaffTokenPayload = {
+      staffId: staff.id,
+      email: staff.email,
+      institutionId: staff.institutionId,
+      role: staff.role,
+      type: 'staff_access',
+    };
+
+    const accessToken = jwt.sign(accessPayload, config.jwt.staffSecret, {
+      expiresIn: config.jwt.accessExpiresIn as jwt.SignOptions['expiresIn'],
+    });
+
+    // jwtid: dos sesiones emitidas en el mismo segundo no deben compartir refresh token (es único)
+    const refreshToken = jwt.sign({ ...accessPayload, type: 'staff_refresh' }, config.jwt.staffSecret, {
+      expiresIn: config.jwt.refreshExpiresIn as jwt.SignOptions['expiresIn'],
+      jwtid: uuidv4(),
+    });
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Registra eventos de autenticación del personal en auditoría
+   */
+  private async logAudit(
+    staffId: string,
+    staffName: string,
+    action: string,
+    details?: any,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          actorType: 'STAFF',
+          actorId: staffId,
+          actorName: staffName,
+          action,
+          resource: 'staff_auth',
+          resourceId: staffId,
+          details,
+          ipAddress,
+          userAgent,
+        },
+      });
+    } catch (error) {
+      console.error('Error registrando auditoría de personal:', error);
+    }
+  }
+}
+
+export const staffAuthService = new StaffAuthService();
+export default staffAuthService;
@@ -1,6 +1,6 @@
 // src/App.tsx
-import { Routes, Route, Navigate } from 'react-router-dom';
-import { useAuth } from './context/AuthContext';
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import { useAuth, getRedirectPath } from './context/AuthContext';
 
 // Layouts
 import MainLayout from './components/layouts/MainLayout';
@@ -14,7 +14,11 @@ import Dashboard from './components/pages/Dashboard';
 import Profile from './components/pages/Profile';
 import Directives from './components/pages/Directives';
 import Representatives from './components/pages/Representatives';
+import AcceptRepresentative from './components/pages/AcceptRepresentative';
+import RepresentativePortal from './components/pages/RepresentativePortal';
 import EmergencyView from './components/pages/EmergencyView';
+import WitnessSign from './components/pages/WitnessSign';
+import VerifyDirective from './components/pages/VerifyDirective';
 import EmergencyQR from './components/pages/EmergencyQR';
 import AccessHistory from './components/pages/AccessHistory';
 import Subscription from './components/pages/Subscription';
@@ -32,6 +36,8 @@ import {
   AdminSystemHealth,
   AdminInstitutions,
   AdminSubscriptions,
+  AdminLegalTemplates,
+  AdminPanicConsole,
 } from './components/admin/pages';
 
 // Componente de carga
@@ -59,16 +65,17 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   return <>{children}</>;
 };
 
-// Ruta pública (redirige a dashboard si ya está autenticado)
+// Ruta pública (redirige a dashboard o a ?redirect= si ya está autenticado)
 const PublicRoute = ({ children }: { children: React.ReactNode }) => {
   const { isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return <LoadingScreen />;
   }
 
   if (isAuthenticated) {
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={getRedirectPath(location.search)} replace />;
   }
 
   return <>{children}</>;
@@ -102,6 +109,16 @@ function App() {
       
       {/* Acceso de emergencia (público) */}
       <Route path="/emergency/:qrToken" element={<EmergencyView />} />
+
+      {/* Firma de testigos (público) */}
+      <Route path="/testigo/:token" element={<WitnessSign />} />
+
+      {/* Invitación a representante (pública) */}
+      <Route path="/representante/:token" element={<AcceptRepresentative />} />
+
+      {/* Verificación de autenticidad de directivas (público) */}
+      <Route path="/verificar-directiva" element={<VerifyDirective />} />
+      <Route path="/verificar-directiva/:identifier" element={<VerifyDirective />} />
       
       {/* Rutas protegidas */}
       <Route
@@ -115,6 +132,7 @@ function App() {
         <Route path="/profile" element={<Profile />} />
         <Route path="/directives" element={<Directives />} />
         <Route path="/representatives" element={<Representatives />} />
+        <Route path="/representative-portal" element={<RepresentativePortal />} />
         <Route path="/emergency-qr" element={<EmergencyQR />} />
         <Route path="/access-history" element={<AccessHistory />} />
         <Route path="/subscription" element={<Subscription />} />
@@ -151,6 +169,8 @@ function App() {
         <Route path="institutions" element={<AdminInstitutions />} />
         <Route path="audit" element={<AdminAuditLog />} />
         <Route path="subscriptions" element={<AdminSubscriptions />} />
+        <Route path="legal-templates" element={<AdminLegalTemplates />} />
+        <Route path="panic-console" element={<AdminPanicConsole />} />
         <Route path="health" element={<AdminSystemHealth />} />
       </Route>
 
@@ -0,0 +1,99 @@
+// src/components/CatalogAutocomplete.tsx
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { catalogApi } from '../services/api';
+import { ALLERGEN_CATEGORY_LABELS } from '../types';
+import type { CatalogItemMap, CatalogType } from '../types';
+
+interface CatalogAutocompleteProps<T extends CatalogType> {
+  type: T;
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (item: CatalogItemMap[T]) => void;
+  onEnter?: () => void;
+  placeholder?: string;
+}
+
+// Detalle secundario que se muestra junto al nombre en la lista
+function itemDetail(type: CatalogType, item: CatalogItemMap[CatalogType]): string {
+  if (type === 'conditions') return `CIE-10 ${item.code}`;
+  if (type === 'medications') return (item as CatalogItemMap['medications']).group;
+  return ALLERGEN_CATEGORY_LABELS[(item as CatalogItemMap['allergens']).category];
+}
+
+export default function CatalogAutocomplete<T extends CatalogType>({
+  type,
+  value,
+  onChange,
+  onSelect,
+  onEnter,
+  placeholder,
+}: CatalogAutocompleteProps<T>) {
+  const [debounced, setDebounced] = useState(value);
+  const [open, setOpen] = useState(false);
+
+  // Debounce para no consultar el catálogo en cada tecla
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const { data } = useQuery({
+    queryKey: ['catalog', type, debounced],
+    queryFn: () => catalogApi.search(type, debounced, 8),
+    enabled: debounced.length >= 2,
+    staleTime: 1000 * 60 * 30,
+  });
+
+  const results = debounced.length >= 2 ? data?.data?.results || [] : [];
+
+  const select = (item: CatalogItemMap[T]) => {
+    onSelect(item);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative flex-1">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            setOpen(false);
+            onEnter?.();
+          } else if (e.key === 'Escape') {
+            setOpen(false);
+          }
+        }}
+        className="input w-full"
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+
+      {open && results.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+          {results.map((item) => (
+            <li key={item.code}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => select(item)}
+                className="w-full px-3 py-2 text-left hover:bg-gray-50 flex items-center justify-between gap-3"
+              >
+                <span className="text-sm text-gray-900">{item.name}</span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">{itemDetail(type, item)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
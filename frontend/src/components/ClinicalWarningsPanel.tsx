@@ -0,0 +1,133 @@
+// src/components/ClinicalWarningsPanel.tsx
+import { useState } from 'react';
+import { emergencyApi } from '../services/api';
+import { EMERGENCY_FIELD_LABELS, INTERACTION_SEVERITY_LABELS } from '../types';
+import type { ClinicalWarning, DrugCheckResult, InteractionSeverity } from '../types';
+import CatalogAutocomplete from './CatalogAutocomplete';
+
+interface ClinicalWarningsPanelProps {
+  accessToken: string;
+  warnings: ClinicalWarning[];
+}
+
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  CONTRAINDICATED: 'bg-red-50 border-red-500 text-red-800',
+  MAJOR: 'bg-orange-50 border-orange-500 text-orange-800',
+  MODERATE: 'bg-yellow-50 border-yellow-400 text-yellow-800',
+};
+
+function WarningItem({ warning }: { warning: ClinicalWarning }) {
+  return (
+    <li className={`border-l-4 rounded-r-lg px-3 py-2 ${SEVERITY_STYLES[warning.severity]}`}>
+      <p className="font-semibold text-sm">
+        {INTERACTION_SEVERITY_LABELS[warning.severity]}: {warning.drug}
+        {warning.type !== 'DRUG_ALLERGY' && ` + ${warning.conflictsWith}`}
+      </p>
+      <p className="text-sm">{warning.message}</p>
+      {warning.recommendation && <p className="text-xs mt-1 opacity-80">{warning.recommendation}</p>}
+    </li>
+  );
+}
+
+export default function ClinicalWarningsPanel({ accessToken, warnings }: ClinicalWarningsPanelProps) {
+  const [drug, setDrug] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<DrugCheckResult | null>(null);
+  const [error, setError] = useState('');
+
+  const checkDrug = async (value = drug) => {
+    if (!value.trim()) return;
+    setChecking(true);
+    setError('');
+    try {
+      const response = await emergencyApi.checkDrug(accessToken, value.trim());
+      setResult(response.data || null);
+    } catch (err: any) {
+      setResult(null);
+      setError(err.response?.data?.error?.message || 'No se pudo verificar el medicamento');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+      <div className="bg-red-600 text-white px-4 py-3">
+        <h3 className="font-bold flex items-center gap-2">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4c-.77-1.33-2.69-1.33-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z" />
+          </svg>
+          INTERACCIONES Y CONTRAINDICACIONES
+        </h3>
+      </div>
+      <div className="p-4 space-y-4">
+        {warnings.length > 0 ? (
+          <ul className="space-y-2">
+            {warnings.map((warning, i) => (
+              <WarningItem key={i} warning={warning} />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-400 italic text-sm">Sin interacciones detectadas en los medicamentos actuales</p>
+        )}
+
+        {/* Verificación antes de administrar */}
+        <div className="border-t border-gray-100 pt-4">
+          <p className="text-sm font-medium text-gray-700 mb-2">Verificar un medicamento antes de administrarlo</p>
+          <div className="flex gap-2">
+            <CatalogAutocomplete
+              type="medications"
+              value={drug}
+              onChange={(value) => {
+                setDrug(value);
+                setResult(null);
+              }}
+              onSelect={(item) => {
+                setDrug(item.name);
+                checkDrug(item.code);
+              }}
+              onEnter={() => checkDrug()}
+              placeholder="Ej: Ketorolaco, Ceftriaxona..."
+            />
+            <button
+              type="button"
+              onClick={() => checkDrug()}
+              disabled={checking || !drug.trim()}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 disabled:opacity-50"
+            >
+              {checking ? 'Verificando...' : 'Verificar'}
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+          {result && (
+            <div className="mt-3 space-y-2">
+              {!result.recognized ? (
+                <p className="text-sm text-gray-600">
+                  "{result.drug.name}" no está en el catálogo; verifique manualmente contra las alergias.
+                </p>
+              ) : result.warnings.length > 0 ? (
+                <ul className="space-y-2">
+                  {result.warnings.map((warning, i) => (
+                    <WarningItem key={i} warning={warning} />
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-green-700 font-medium">
+                  Sin interacciones conocidas para {result.drug.name} con el perfil del paciente
+                </p>
+              )}
+              {result.withheld.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Verificación parcial: el paciente restringió{' '}
+                  {result.withheld.map((field) => EMERGENCY_FIELD_LABELS[field].toLowerCase()).join(' y ')}.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+// src/components/DirectiveLegalRequirements.tsx
+import { useState, useEffect } from 'react';
+import { directivesApi } from '../services/api';
+import type { AdvanceDirective, LegalRequirements } from '../types';
+
+interface DirectiveLegalRequirementsProps {
+  directive: AdvanceDirective;
+  onClose: () => void;
+}
+
+export default function DirectiveLegalRequirements({ directive, onClose }: DirectiveLegalRequirementsProps) {
+  const [requirements, setRequirements] = useState<LegalRequirements | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [documentHtml, setDocumentHtml] = useState<string | null>(null);
+  const [loadingDocument, setLoadingDocument] = useState(false);
+
+  useEffect(() => {
+    loadRequirements();
+  }, [directive.id]);
+
+  const loadRequirements = async () => {
+    try {
+      setLoading(true);
+      const response = await directivesApi.getLegalRequirements(directive.id);
+      if (response.success && response.data) {
+        setRequirements(response.data);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error cargando requisitos legales');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleViewDocument = async () => {
+    setError('');
+    try {
+      setLoadingDocument(true);
+      const response = await directivesApi.getDocument(directive.id);
+      if (response.success && response.data) {
+        setDocumentHtml(response.data.html);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error generando el documento');
+    } finally {
+      setLoadingDocument(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900">Marco legal</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading || !requirements ? (
+            !error && (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            )
+          ) : !requirements.hasTemplate ? (
+            <p className="text-sm text-gray-600">
+              {directive.originState
+                ? 'Aún no contamos con la plantilla legal de tu estado. Tu directiva conserva su validez como expresión de voluntad.'
+                : 'Selecciona tu estado de origen para conocer los requisitos legales aplicables.'}
+            </p>
+          ) : (
+            <>
+              <div className="mb-6 bg-blue-50 rounded-lg p-4">
+                <p className="text-sm font-medium text-blue-900">{requirements.law?.name}</p>
+                <p className="text-xs text-blue-700">{requirements.state?.name}</p>
+                {requirements.law?.summary && (
+                  <p className="text-sm text-blue-800 mt-2">{requirements.law.summary}</p>
+                )}
+                {directive.legalBasisSummary && (
+                  <p className="text-xs text-blue-700 mt-2">{directive.legalBasisSummary}</p>
+                )}
+              </div>
+
+              {requirements.requirements.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="font-medium text-gray-900 mb-2">Requisitos del estado</h3>
+                  <ul className="space-y-2">
+                    {requirements.requirements.map((req) => (
+                      <li key={req.key} className="flex items-center gap-2 text-sm">
+                        <span className={req.met ? 'text-green-600' : 'text-yellow-600'}>
+                          {req.met ? '✓' : '○'}
+                        </span>
+                        <span className={req.met ? 'text-gray-700' : 'text-gray-900'}>{req.label}</span>
+                        {!req.met && <span className="text-xs text-yellow-700">(pendiente)</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {requirements.missingFields.length > 0 && (
+                <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                  <h3 className="text-sm font-medium text-yellow-900 mb-1">Campos requeridos sin llenar</h3>
+                  <ul className="list-disc list-inside text-sm text-yellow-800">
+                    {requirements.missingFields.map((field) => (
+                      <li key={field.key}>{field.label}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {directive.type !== 'NOTARIZED_DOCUMENT' && (
+                <button
+                  onClick={handleViewDocument}
+                  disabled={loadingDocument}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  {loadingDocument ? 'Generando...' : 'Ver documento'}
+                </button>
+              )}
+
+              {documentHtml !== null && (
+                <iframe
+                  title="Documento de voluntad anticipada"
+                  srcDoc={documentHtml}
+                  sandbox=""
+                  className="mt-4 w-full h-96 border border-gray-200 rounded-lg bg-white"
+                />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
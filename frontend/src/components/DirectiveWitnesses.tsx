@@ -0,0 +1,254 @@
+// src/components/DirectiveWitnesses.tsx
+import { useState, useEffect } from 'react';
+import { witnessesApi } from '../services/api';
+import type { CreateWitnessInput, WitnessStatus, WitnessSummary } from '../types';
+
+interface DirectiveWitnessesProps {
+  directiveId: string;
+  onClose: () => void;
+  onChange?: () => void;
+}
+
+const witnessStatusConfig: Record<WitnessStatus, { label: string; className: string }> = {
+  SIGNED: { label: 'Firmó', className: 'bg-green-100 text-green-700' },
+  PENDING: { label: 'Pendiente', className: 'bg-yellow-100 text-yellow-700' },
+  EXPIRED: { label: 'Enlace vencido', className: 'bg-gray-100 text-gray-600' },
+};
+
+const emptyForm: CreateWitnessInput = { name: '', curp: '', email: '', phone: '' };
+
+export default function DirectiveWitnesses({ directiveId, onClose, onChange }: DirectiveWitnessesProps) {
+  const [summary, setSummary] = useState<WitnessSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<CreateWitnessInput>(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    loadWitnesses();
+  }, [directiveId]);
+
+  const loadWitnesses = async () => {
+    try {
+      setLoading(true);
+      const response = await witnessesApi.list(directiveId);
+      if (response.success && response.data) {
+        setSummary(response.data);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error cargando testigos');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNotice('');
+
+    if (!form.email && !form.phone) {
+      setError('Proporciona email o teléfono del testigo');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await witnessesApi.invite(directiveId, form);
+      if (response.success) {
+        setForm(emptyForm);
+        setNotice(`Invitación enviada a ${response.data?.witness.name}`);
+        await loadWitnesses();
+        onChange?.();
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.response?.data?.errors?.[0]?.msg || 'Error invitando testigo');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleResend = async (witnessId: string) => {
+    setError('');
+    setNotice('');
+    try {
+      await witnessesApi.resend(directiveId, witnessId);
+      setNotice('Invitación reenviada con un nuevo enlace');
+      await loadWitnesses();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error reenviando invitación');
+    }
+  };
+
+  const handleRemove = async (witnessId: string) => {
+    if (!confirm('¿Eliminar a este testigo? Su enlace dejará de funcionar.')) {
+      return;
+    }
+
+    setError('');
+    setNotice('');
+    try {
+      await witnessesApi.remove(directiveId, witnessId);
+      await loadWitnesses();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error eliminando testigo');
+    }
+  };
+
+  const canInvite = summary && ['DRAFT', 'PENDING_VALIDATION'].includes(summary.directiveStatus);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900">Testigos</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {loading || !summary ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6 bg-blue-50 rounded-lg p-4">
+                <p className="text-sm text-blue-800">
+                  Tu estado requiere <strong>{summary.required}</strong> testigos.
+                  Han firmado <strong>{summary.signed}</strong> de {summary.required}.
+                </p>
+                <div className="mt-2 h-2 bg-blue-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{ width: `${Math.min(100, (summary.signed / Math.max(summary.required, 1)) * 100)}%` }}
+                  />
+                </div>
+                {summary.directiveStatus === 'DRAFT' && (
+                  <p className="text-xs text-blue-700 mt-2">
+                    Al enviar la primera invitación ya no podrás modificar el contenido de la directiva.
+                  </p>
+                )}
+                {summary.directiveStatus === 'ACTIVE' && (
+                  <p className="text-xs text-green-700 mt-2">
+                    La directiva está activa: se reunieron las firmas requeridas.
+                  </p>
+                )}
+              </div>
+
+              {error && (
+                <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+              {notice && (
+                <div className="mb-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">
+                  {notice}
+                </div>
+              )}
+
+              {summary.witnesses.length > 0 && (
+                <div className="divide-y divide-gray-100 mb-6">
+                  {summary.witnesses.map((witness) => {
+                    const status = witnessStatusConfig[witness.status];
+                    return (
+                      <div key={witness.id} className="py-3 flex items-center justify-between gap-4">
+                        <div>
+                          <p className="font-medium text-gray-900">{witness.name}</p>
+                          <p className="text-sm text-gray-500">
+                            {[witness.email, witness.phone].filter(Boolean).join(' · ')}
+                          </p>
+                          {witness.signedAt && (
+                            <p className="text-xs text-gray-400">
+                              Firmó el {new Date(witness.signedAt).toLocaleDateString('es-MX', {
+                                year: 'numeric',
+                                month: 'long',
+                                day: 'numeric',
+                              })}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                            {status.label}
+                          </span>
+                          {witness.status !== 'SIGNED' && canInvite && (
+                            <>
+                              <button
+                                onClick={() => handleResend(witness.id)}
+                                className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded"
+                              >
+                                Reenviar
+                              </button>
+                              <button
+                                onClick={() => handleRemove(witness.id)}
+                                className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded"
+                              >
+                                Eliminar
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {canInvite && (
+                <form onSubmit={handleInvite} className="space-y-3">
+                  <h3 className="font-medium text-gray-900">Invitar testigo</h3>
+                  <input
+                    type="text"
+                    required
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Nombre completo (como aparece en su INE)"
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="text"
+                    maxLength={18}
+                    value={form.curp}
+                    onChange={(e) => setForm({ ...form, curp: e.target.value.toUpperCase() })}
+                    placeholder="CURP (opcional)"
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <input
+                      type="email"
+                      value={form.email}
+                      onChange={(e) => setForm({ ...form, email: e.target.value })}
+                      placeholder="Email"
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="tel"
+                      value={form.phone}
+                      onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                      placeholder="Teléfono"
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? 'Enviando...' : 'Enviar invitación'}
+                  </button>
+                </form>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
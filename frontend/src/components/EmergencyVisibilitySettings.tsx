@@ -0,0 +1,122 @@
+// src/components/EmergencyVisibilitySettings.tsx
+import { useState, useEffect } from 'react';
+import { profileApi } from '../services/api';
+import { EMERGENCY_FIELD_LABELS } from '../types';
+import type { EmergencyField, EmergencyVisibility, FieldVisibility } from '../types';
+
+interface EmergencyVisibilitySettingsProps {
+  onError?: (error: string) => void;
+  onSuccess?: (message: string) => void;
+}
+
+const VISIBILITY_OPTIONS: { value: FieldVisibility; label: string }[] = [
+  { value: 'PUBLIC', label: 'Cualquiera que escanee' },
+  { value: 'VERIFIED', label: 'Solo personal verificado' },
+  { value: 'HIDDEN', label: 'No mostrar' },
+];
+
+// Campos cuyo ocultamiento puede poner en riesgo la atención
+const CRITICAL_FIELDS: EmergencyField[] = ['bloodType', 'allergies', 'cpr'];
+
+export default function EmergencyVisibilitySettings({ onError, onSuccess }: EmergencyVisibilitySettingsProps) {
+  const [visibility, setVisibility] = useState<EmergencyVisibility | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [savingField, setSavingField] = useState<EmergencyField | null>(null);
+
+  useEffect(() => {
+    loadVisibility();
+  }, []);
+
+  const loadVisibility = async () => {
+    try {
+      setLoading(true);
+      const response = await profileApi.getEmergencyVisibility();
+      if (response.success && response.data) {
+        setVisibility(response.data.visibility);
+      }
+    } catch (error) {
+      console.error('Error cargando visibilidad:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChange = async (field: EmergencyField, value: FieldVisibility) => {
+    if (!visibility) return;
+
+    if (value === 'HIDDEN' && CRITICAL_FIELDS.includes(field) && !window.confirm(
+      `Ocultar "${EMERGENCY_FIELD_LABELS[field]}" puede impedir que recibas la atención adecuada en una emergencia. ¿Continuar?`
+    )) {
+      return;
+    }
+
+    const previous = visibility;
+    setVisibility({ ...visibility, [field]: value });
+
+    try {
+      setSavingField(field);
+      const response = await profileApi.updateEmergencyVisibility({ [field]: value });
+      if (response.success && response.data) {
+        setVisibility(response.data.visibility);
+        onSuccess?.('Visibilidad actualizada');
+      }
+    } catch (error) {
+      console.error('Error actualizando visibilidad:', error);
+      setVisibility(previous);
+      onError?.('Error al actualizar la visibilidad');
+    } finally {
+      setSavingField(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center mb-6">
+        <div className="bg-sky-100 rounded-full p-3 mr-4">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-sky-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+          </svg>
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            Visibilidad en Emergencias
+          </h3>
+          <p className="text-sm text-gray-500">
+            Decide qué ve quien escanea tu QR
+          </p>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        El personal verificado inicia sesión con una cuenta institucional o accede desde el
+        sistema de un hospital registrado. Cualquier otra persona que escanee tu QR solo verá
+        los datos marcados como públicos.
+      </p>
+
+      {loading || !visibility ? (
+        <div className="flex justify-center py-8">
+          <div className="w-8 h-8 border-4 border-sky-200 border-t-sky-600 rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {(Object.keys(EMERGENCY_FIELD_LABELS) as EmergencyField[]).map((field) => (
+            <div key={field} className="py-3 flex items-center justify-between gap-4">
+              <span className="text-sm font-medium text-gray-900">{EMERGENCY_FIELD_LABELS[field]}</span>
+              <select
+                value={visibility[field]}
+                disabled={savingField === field}
+                onChange={(e) => handleChange(field, e.target.value as FieldVisibility)}
+                className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-sky-500 focus:border-transparent disabled:opacity-50"
+              >
+                {VISIBILITY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+// src/components/FhirDataSettings.tsx
+import { useRef, useState } from 'react';
+import { fhirApi, type FhirImportSummary } from '../services/api';
+import { FeatureGate, PremiumBadge } from './subscription/FeatureGate';
+
+interface FhirDataSettingsProps {
+  onError?: (error: string) => void;
+  onSuccess?: (message: string) => void;
+  onImported?: () => void;
+}
+
+export default function FhirDataSettings({ onError, onSuccess, onImported }: FhirDataSettingsProps) {
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<FhirImportSummary | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const blob = await fhirApi.exportBundle();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `vida-fhir-${new Date().toISOString().slice(0, 10)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+      onSuccess?.('Expediente exportado');
+    } catch (error) {
+      console.error('Error exportando FHIR:', error);
+      onError?.('Error al exportar el expediente');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(await file.text());
+    } catch {
+      onError?.('El archivo no es un JSON válido');
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const response = await fhirApi.importBundle(bundle);
+      if (response.success && response.data) {
+        setSummary(response.data.summary);
+        onSuccess?.('Expediente importado');
+        onImported?.();
+      }
+    } catch (error: any) {
+      console.error('Error importando FHIR:', error);
+      onError?.(error.response?.data?.error?.message || 'Error al importar el expediente');
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const imported = summary?.imported;
+  const importedCount = imported
+    ? imported.allergies.length + imported.conditions.length + imported.medications.length
+      + (imported.bloodType ? 1 : 0) + (imported.isDonor !== null ? 1 : 0)
+    : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center mb-6">
+        <div className="bg-emerald-100 rounded-full p-3 mr-4">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-emerald-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+          </svg>
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            Intercambio con Hospitales (FHIR)
+          </h3>
+          <p className="text-sm text-gray-500">
+            Comparte tu expediente con el sistema de tu hospital
+          </p>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        El archivo usa el estándar HL7 FHIR R4 e incluye tus datos médicos, directivas y
+        representantes. Al importar un archivo de tu hospital solo se agregan alergias,
+        padecimientos, medicamentos, grupo sanguíneo y donación; revisa tu perfil después.
+      </p>
+
+      <div className="flex flex-wrap gap-3">
+        <FeatureGate
+          feature="exportData"
+          fallback={
+            <button type="button" disabled className="btn-secondary flex items-center gap-2 opacity-60">
+              Exportar expediente <PremiumBadge />
+            </button>
+          }
+        >
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting}
+            className="btn-primary"
+          >
+            {exporting ? 'Exportando...' : 'Exportar expediente'}
+          </button>
+        </FeatureGate>
+
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="btn-secondary"
+        >
+          {importing ? 'Importando...' : 'Importar archivo FHIR'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json,application/fhir+json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      {summary && imported && (
+        <div className="mt-4 rounded-lg bg-gray-50 p-4 text-sm">
+          <p className="font-medium text-gray-900 mb-2">
+            {importedCount > 0 ? `Se importaron ${importedCount} datos nuevos` : 'No había datos nuevos que importar'}
+          </p>
+          <ul className="space-y-1 text-gray-600">
+            {imported.allergies.length > 0 && <li>Alergias: {imported.allergies.join(', ')}</li>}
+            {imported.conditions.length > 0 && <li>Padecimientos: {imported.conditions.join(', ')}</li>}
+            {imported.medications.length > 0 && <li>Medicamentos: {imported.medications.join(', ')}</li>}
+            {imported.bloodType && <li>Grupo sanguíneo: {imported.bloodType}</li>}
+            {imported.isDonor !== null && <li>Donación: {imported.isDonor ? 'Sí' : 'No'}</li>}
+          </ul>
+          {summary.skipped.length > 0 && (
+            <details className="mt-3 text-gray-500">
+              <summary className="cursor-pointer">{summary.skipped.length} recursos omitidos</summary>
+              <ul className="mt-2 space-y-1">
+                {summary.skipped.map((item, index) => (
+                  <li key={`${item.resourceType}-${item.id || index}`}>
+                    {item.resourceType}: {item.reason}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+// src/components/OfflineCardView.tsx
+import { useEffect, useState } from 'react';
+import {
+  getPendingAccesses,
+  queueOfflineAccess,
+  syncPendingAccesses,
+  verifyOfflineCard,
+} from '../services/offlineCard';
+import type { OfflineCardVerification } from '../services/offlineCard';
+
+interface OfflineCardViewProps {
+  location: { lat: number; lng: number } | null;
+  defaultAccessorName?: string;
+}
+
+export default function OfflineCardView({ location, defaultAccessorName }: OfflineCardViewProps) {
+  const [verification, setVerification] = useState<OfflineCardVerification | null>(null);
+  const [step, setStep] = useState<'form' | 'data'>('form');
+  const [pendingSync, setPendingSync] = useState(0);
+  const [accessorForm, setAccessorForm] = useState({
+    accessorName: defaultAccessorName || '',
+    accessorRole: 'PARAMEDIC',
+  });
+
+  // El JWS viaja en el fragmento (#) para que nunca llegue a un servidor
+  const card = decodeURIComponent(window.location.hash.slice(1));
+
+  useEffect(() => {
+    verifyOfflineCard(card).then(setVerification);
+  }, [card]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    queueOfflineAccess({
+      card,
+      accessorName: accessorForm.accessorName,
+      accessorRole: accessorForm.accessorRole,
+      latitude: location?.lat,
+      longitude: location?.lng,
+    });
+    setStep('data');
+
+    try {
+      await syncPendingAccesses();
+    } catch {
+      // Se reintenta al recuperar la conexión
+    }
+    setPendingSync(getPendingAccesses().length);
+  };
+
+  if (!verification) {
+    return (
+      <div className="min-h-screen bg-red-600 flex items-center justify-center">
+        <div className="text-center text-white">
+          <div className="animate-spin rounded-full h-16 w-16 border-4 border-white border-t-transparent mx-auto mb-4"></div>
+          <p className="text-xl">Verificando firma de la tarjeta...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!verification.valid) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-8 text-center">
+          <div className="w-20 h-20 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg className="w-10 h-10 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </div>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Tarjeta no verificada</h2>
+          <p className="text-gray-600">{verification.reason}</p>
+          <p className="text-sm text-gray-500 mt-4">No use esta información para decisiones clínicas.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { claims } = verification;
+
+  if (step === 'form') {
+    return (
+      <div className="min-h-screen bg-red-600 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8">
+          <div className="text-center mb-6">
+            <h1 className="text-2xl font-bold text-gray-900">Sistema VIDA</h1>
+            <p className="text-gray-600 mt-2">Tarjeta de emergencia sin conexión</p>
+          </div>
+
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
+            <p className="text-sm text-green-800">
+              <strong>✓ Firma válida.</strong> La tarjeta fue emitida por VIDA y no ha sido alterada.
+            </p>
+          </div>
+
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+            <p className="text-sm text-yellow-800">
+              <strong>⚠️ Aviso:</strong> Este acceso se guarda en el dispositivo y se registrará
+              con sus datos cuando haya conexión.
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nombre completo *
+              </label>
+              <input
+                type="text"
+                required
+                value={accessorForm.accessorName}
+                onChange={(e) => setAccessorForm({ ...accessorForm, accessorName: e.target.value })}
+                placeholder="Dr. Juan Pérez García"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rol / Especialidad *
+              </label>
+              <select
+                required
+                value={accessorForm.accessorRole}
+                onChange={(e) => setAccessorForm({ ...accessorForm, accessorRole: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              >
+                <option value="DOCTOR">Médico</option>
+                <option value="PARAMEDIC">Paramédico</option>
+                <option value="NURSE">Enfermero(a)</option>
+                <option value="EMERGENCY_TECH">Técnico en urgencias</option>
+                <option value="OTHER">Otro personal de salud</option>
+              </select>
+            </div>
+
+            <button
+              type="submit"
+              className="w-full bg-red-600 text-white py-3 rounded-lg font-semibold hover:bg-red-700 transition-colors"
+            >
+              Ver datos de emergencia
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="sticky top-0 z-50 bg-red-600 text-white shadow-lg">
+        <div className="max-w-2xl mx-auto px-4 py-3 flex items-center justify-between">
+          <span className="font-bold text-lg">TARJETA DE EMERGENCIA</span>
+          <span className="bg-white/20 text-white text-xs px-2 py-1 rounded-full">
+            {navigator.onLine ? 'En línea' : 'Sin conexión'}
+          </span>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto px-4 py-6 space-y-4">
+        {verification.expired && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+            <p className="text-sm text-yellow-800">
+              <strong>Tarjeta vencida</strong> el {new Date(claims.exp * 1000).toLocaleDateString('es-MX')}.
+              Los datos pueden estar desactualizados.
+            </p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm p-6 grid grid-cols-2 gap-4">
+          <div className="col-span-2">
+            <p className="text-sm text-gray-500">Nombre</p>
+            <p className="text-lg font-semibold">{claims.n || 'No incluido'}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Tipo de sangre</p>
+            <p className="text-2xl font-bold text-red-600">{claims.bt || 'No incluido'}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Reanimación (RCP)</p>
+            <p className={`text-lg font-bold ${claims.cpr === false ? 'text-red-600' : 'text-gray-900'}`}>
+              {claims.cpr === undefined || claims.cpr === null
+                ? 'No incluido'
+                : claims.cpr ? 'Acepta RCP' : 'NO REANIMAR'}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="bg-orange-500 text-white px-4 py-3">
+            <h3 className="font-bold">ALERGIAS PRINCIPALES</h3>
+          </div>
+          <div className="p-4">
+            {claims.al?.length ? (
+              <ul className="space-y-2">
+                {claims.al.map((allergy, i) => (
+                  <li key={i} className="bg-orange-50 text-orange-800 px-3 py-2 rounded-lg font-medium">
+                    {allergy}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-400 italic">No incluidas</p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <p className="text-sm text-gray-500">Contacto de emergencia</p>
+          {claims.ph ? (
+            <a href={`tel:${claims.ph}`} className="text-lg font-semibold text-blue-600">
+              {claims.ph}
+            </a>
+          ) : (
+            <p className="text-lg font-semibold">No incluido</p>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500 text-center">
+          Resumen firmado el {new Date(claims.iat * 1000).toLocaleDateString('es-MX')} (llave {verification.keyId}).
+          {pendingSync > 0
+            ? ` ${pendingSync} acceso(s) pendiente(s) de registrar; se enviarán al recuperar la conexión.`
+            : ' Acceso registrado.'}
+        </p>
+      </div>
+    </div>
+  );
+}
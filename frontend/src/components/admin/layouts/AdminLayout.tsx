@@ -57,6 +57,26 @@ const AdminLayout: React.FC = () => {
       ),
       permission: ADMIN_PERMISSIONS.AUDIT_READ,
     },
+    {
+      name: 'Consola de alertas',
+      path: '/admin/panic-console',
+      icon: (
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+      ),
+      permission: ADMIN_PERMISSIONS.PANIC_RESPOND,
+    },
+    {
+      name: 'Plantillas legales',
+      path: '/admin/legal-templates',
+      icon: (
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+        </svg>
+      ),
+      permission: ADMIN_PERMISSIONS.LEGAL_TEMPLATES_READ,
+    },
     {
       name: 'Ingresos',
       path: '/admin/subscriptions',
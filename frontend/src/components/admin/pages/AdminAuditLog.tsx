@@ -4,14 +4,16 @@ import {
   listAuditLogs,
   listEmergencyAccesses,
   listPanicAlerts,
+  listQrIncidents,
+  resolveQrIncident,
   exportAuditLogs,
   getAuditStats,
 } from '../../../services/adminApi';
-import { AuditLog, EmergencyAccess, PanicAlert, Pagination, AuditStats } from '../../../types/admin';
+import { AuditLog, EmergencyAccess, PanicAlert, QrScanIncident, QrScanIncidentType, Pagination, AuditStats } from '../../../types/admin';
 import { useAdminAuth } from '../../../context/AdminAuthContext';
-import { ADMIN_PERMISSIONS } from '../../../types/admin';
+import { ADMIN_PERMISSIONS, PANIC_OUTCOME_LABELS, QR_INCIDENT_TYPE_LABELS } from '../../../types/admin';
 
-type TabType = 'user' | 'emergency' | 'panic';
+type TabType = 'user' | 'emergency' | 'panic' | 'incidents';
 
 const AdminAuditLog: React.FC = () => {
   const { hasPermission } = useAdminAuth();
@@ -19,6 +21,8 @@ const AdminAuditLog: React.FC = () => {
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [emergencyAccesses, setEmergencyAccesses] = useState<EmergencyAccess[]>([]);
   const [panicAlerts, setPanicAlerts] = useState<PanicAlert[]>([]);
+  const [qrIncidents, setQrIncidents] = useState<QrScanIncident[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
   const [pagination, setPagination] = useState<Pagination | null>(null);
   const [stats, setStats] = useState<AuditStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -30,8 +34,11 @@ const AdminAuditLog: React.FC = () => {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [status, setStatus] = useState('');
+  const [incidentType, setIncidentType] = useState<QrScanIncidentType | ''>('');
+  const [incidentStatus, setIncidentStatus] = useState<'open' | 'resolved' | ''>('open');
 
   const canExport = hasPermission(ADMIN_PERMISSIONS.AUDIT_EXPORT);
+  const canResolveIncidents = hasPermission(ADMIN_PERMISSIONS.USERS_WRITE);
 
   useEffect(() => {
     loadData();
@@ -87,6 +94,19 @@ const AdminAuditLog: React.FC = () => {
           setPanicAlerts(panicResult.alerts);
           setPagination(panicResult.pagination);
           break;
+
+        case 'incidents':
+          const incidentsResult = await listQrIncidents({
+            page: currentPage,
+            limit: 30,
+            type: incidentType || undefined,
+            status: incidentStatus || undefined,
+            startDate: startDate || undefined,
+            endDate: endDate || undefined,
+          });
+          setQrIncidents(incidentsResult.incidents);
+          setPagination(incidentsResult.pagination);
+          break;
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -112,6 +132,41 @@ const AdminAuditLog: React.FC = () => {
     }
   };
 
+  const handleResolveIncident = async (incident: QrScanIncident, reactivateToken: boolean) => {
+    const question = reactivateToken
+      ? `Reactivar el codigo "${incident.qrToken?.label}" y cerrar el incidente?`
+      : 'Cerrar el incidente sin reactivar el codigo?';
+    if (!confirm(question)) return;
+
+    try {
+      setResolvingId(incident.id);
+      await resolveQrIncident(incident.id, { reactivateToken });
+      await loadData();
+    } catch (error: any) {
+      console.error('Resolve incident error:', error);
+      alert(error.message || 'Error al resolver incidente');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  // Resumen legible de lo que disparo la regla
+  const describeIncident = (incident: QrScanIncident) => {
+    const d = incident.details || {};
+    switch (incident.type) {
+      case 'SCAN_BURST':
+        return `${d.scans} escaneos en ${d.windowMinutes} min (limite ${d.limit})`;
+      case 'MANY_IPS':
+        return `${d.distinctIps} IPs en ${d.windowMinutes} min (limite ${d.limit})`;
+      case 'IMPOSSIBLE_TRAVEL':
+        return `${d.distanceKm} km en ${d.minutes} min (~${d.speedKmh} km/h)`;
+      case 'INVALID_TOKEN_PROBE':
+        return `${d.attempts} tokens invalidos en ${d.windowMinutes} min`;
+      default:
+        return '-';
+    }
+  };
+
   const formatDate = (date: string) => {
     return new Date(date).toLocaleString('es-MX', {
       year: 'numeric',
@@ -148,7 +203,7 @@ const AdminAuditLog: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Pistas de Auditoria</h1>
           <p className="text-gray-500">Registro de todas las acciones del sistema</p>
         </div>
-        {canExport && (
+        {canExport && activeTab !== 'incidents' && (
           <button
             onClick={handleExport}
             className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 flex items-center gap-2"
@@ -216,6 +271,16 @@ const AdminAuditLog: React.FC = () => {
           >
             Alertas de Panico
           </button>
+          <button
+            onClick={() => { setActiveTab('incidents'); setCurrentPage(1); }}
+            className={`px-6 py-4 font-medium transition ${
+              activeTab === 'incidents'
+                ? 'text-sky-600 border-b-2 border-sky-600'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Incidentes QR
+          </button>
         </div>
 
         {/* Filters */}
@@ -268,6 +333,30 @@ const AdminAuditLog: React.FC = () => {
             </select>
           )}
 
+          {activeTab === 'incidents' && (
+            <>
+              <select
+                value={incidentType}
+                onChange={(e) => setIncidentType(e.target.value as QrScanIncidentType | '')}
+                className="px-3 py-2 border rounded-lg"
+              >
+                <option value="">Todos los tipos</option>
+                {(Object.keys(QR_INCIDENT_TYPE_LABELS) as QrScanIncidentType[]).map((type) => (
+                  <option key={type} value={type}>{QR_INCIDENT_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <select
+                value={incidentStatus}
+                onChange={(e) => setIncidentStatus(e.target.value as 'open' | 'resolved' | '')}
+                className="px-3 py-2 border rounded-lg"
+              >
+                <option value="">Todos</option>
+                <option value="open">Abiertos</option>
+                <option value="resolved">Resueltos</option>
+              </select>
+            </>
+          )}
+
           <button
             onClick={() => { setCurrentPage(1); loadData(); }}
             className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700"
@@ -403,6 +492,89 @@ const AdminAuditLog: React.FC = () => {
                       <td className="px-6 py-4 text-sm text-gray-500">
                         {alert.resolvedAt ? formatDate(alert.resolvedAt) :
                          alert.cancelledAt ? formatDate(alert.cancelledAt) : '-'}
+                        {alert.resolutionOutcome && (
+                          <div className="text-xs text-gray-700">
+                            {PANIC_OUTCOME_LABELS[alert.resolutionOutcome]}
+                            {alert.resolvedByAdmin && <> · {alert.resolvedByAdmin.name}</>}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {/* QR Scan Incidents */}
+            {activeTab === 'incidents' && (
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fecha</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Paciente / Codigo</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tipo</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Detalle</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {qrIncidents.map((incident) => (
+                    <tr key={incident.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-500 whitespace-nowrap">
+                        {formatDate(incident.createdAt)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="font-medium text-gray-900">{incident.user?.name || '-'}</p>
+                        <p className="text-sm text-gray-500">{incident.qrToken?.label || '-'}</p>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className="inline-flex px-2 py-1 rounded text-xs font-medium bg-orange-100 text-orange-700">
+                          {QR_INCIDENT_TYPE_LABELS[incident.type]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {describeIncident(incident)}
+                        {incident.ipAddress && (
+                          <div className="text-xs text-gray-400 font-mono">{incident.ipAddress}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {incident.resolvedAt ? (
+                          <div className="text-gray-500">
+                            <span className="inline-flex px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-700">
+                              Resuelto
+                            </span>
+                            <div className="text-xs mt-1">{formatDate(incident.resolvedAt)}</div>
+                          </div>
+                        ) : (
+                          <div className="space-y-2">
+                            <span className={`inline-flex px-2 py-1 rounded text-xs font-medium ${
+                              incident.qrToken?.suspendedAt ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                            }`}>
+                              {incident.qrToken?.suspendedAt ? 'Codigo suspendido' : 'Abierto'}
+                            </span>
+                            {canResolveIncidents && (
+                              <div className="flex gap-2">
+                                {incident.qrToken?.suspendedAt && !incident.qrToken.revokedAt && (
+                                  <button
+                                    onClick={() => handleResolveIncident(incident, true)}
+                                    disabled={resolvingId === incident.id}
+                                    className="px-2 py-1 text-xs bg-sky-600 text-white rounded hover:bg-sky-700 disabled:opacity-50"
+                                  >
+                                    Reactivar
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => handleResolveIncident(incident, false)}
+                                  disabled={resolvingId === incident.id}
+                                  className="px-2 py-1 text-xs border rounded hover:bg-gray-100 disabled:opacity-50"
+                                >
+                                  Cerrar
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -413,7 +585,8 @@ const AdminAuditLog: React.FC = () => {
             {/* Empty state */}
             {((activeTab === 'user' && auditLogs.length === 0) ||
               (activeTab === 'emergency' && emergencyAccesses.length === 0) ||
-              (activeTab === 'panic' && panicAlerts.length === 0)) && (
+              (activeTab === 'panic' && panicAlerts.length === 0) ||
+              (activeTab === 'incidents' && qrIncidents.length === 0)) && (
               <div className="p-8 text-center text-gray-500">
                 No se encontraron registros
               </div>
@@ -7,7 +7,11 @@ import {
   verifyInsurance,
   getInstitutionStats,
   getInsuranceStats,
+  generateInstitutionCredentials,
+  rotateInstitutionCredentials,
+  revokeInstitutionCredentials,
 } from '../../../services/adminApi';
+import { useAdminAuth } from '../../../context/AdminAuthContext';
 import {
   MedicalInstitution,
   InsuranceCompany,
@@ -17,6 +21,8 @@ import {
   INSURANCE_TYPE_LABELS,
   INSURANCE_TYPE_COLORS,
   InsuranceType,
+  OAuthCredentials,
+  OAUTH_SCOPE_LABELS,
 } from '../../../types/admin';
 
 type TabType = 'hospitals' | 'insurance';
@@ -32,8 +38,14 @@ const INSTITUTION_TYPE_LABELS: Record<string, string> = {
 };
 
 const AdminInstitutions: React.FC = () => {
+  const { admin } = useAdminAuth();
+  const isSuperAdmin = admin?.isSuperAdmin;
   const [activeTab, setActiveTab] = useState<TabType>('hospitals');
 
+  // Credenciales OAuth (PAE)
+  const [issuedCredentials, setIssuedCredentials] = useState<OAuthCredentials | null>(null);
+  const [credentialsError, setCredentialsError] = useState<string | null>(null);
+
   // Hospitals state
   const [hospitals, setHospitals] = useState<MedicalInstitution[]>([]);
   const [hospitalPagination, setHospitalPagination] = useState<Pagination | null>(null);
@@ -138,6 +150,56 @@ const AdminInstitutions: React.FC = () => {
     }
   };
 
+  const handleGenerateCredentials = async (hospital: MedicalInstitution) => {
+    if (hospital.oauthClientId && !window.confirm(
+      `Se generaran credenciales nuevas para ${hospital.name}. El client_id actual dejara de funcionar. Continuar?`
+    )) {
+      return;
+    }
+    try {
+      setCredentialsError(null);
+      const credentials = await generateInstitutionCredentials(hospital.id);
+      setIssuedCredentials(credentials);
+      loadHospitals();
+    } catch (error: any) {
+      console.error('Error generating credentials:', error);
+      setCredentialsError(error.message || 'Error al generar credenciales');
+    }
+  };
+
+  const handleRotateCredentials = async (hospital: MedicalInstitution) => {
+    if (!window.confirm(
+      `Rotar el secret de ${hospital.name}? Los tokens emitidos con el secret anterior dejaran de ser validos.`
+    )) {
+      return;
+    }
+    try {
+      setCredentialsError(null);
+      const credentials = await rotateInstitutionCredentials(hospital.id);
+      setIssuedCredentials(credentials);
+      loadHospitals();
+    } catch (error: any) {
+      console.error('Error rotating credentials:', error);
+      setCredentialsError(error.message || 'Error al rotar credenciales');
+    }
+  };
+
+  const handleRevokeCredentials = async (hospital: MedicalInstitution) => {
+    if (!window.confirm(
+      `Revocar el acceso API de ${hospital.name}? El sistema hospitalario dejara de poder consultar datos de emergencia.`
+    )) {
+      return;
+    }
+    try {
+      setCredentialsError(null);
+      await revokeInstitutionCredentials(hospital.id);
+      loadHospitals();
+    } catch (error: any) {
+      console.error('Error revoking credentials:', error);
+      setCredentialsError(error.message || 'Error al revocar credenciales');
+    }
+  };
+
   const handleVerifyInsurance = async (id: string, verified: boolean) => {
     try {
       await verifyInsurance(id, verified);
@@ -232,6 +294,46 @@ const AdminInstitutions: React.FC = () => {
             </button>
           </form>
 
+          {credentialsError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg px-4 py-3 text-sm">
+              {credentialsError}
+            </div>
+          )}
+
+          {/* Credenciales recien emitidas */}
+          {issuedCredentials && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-medium text-amber-900">Credenciales API - {issuedCredentials.institutionName}</p>
+                  <p className="text-sm text-amber-700">{issuedCredentials.warning}</p>
+                </div>
+                <button
+                  onClick={() => setIssuedCredentials(null)}
+                  className="text-sm text-amber-700 hover:text-amber-900"
+                >
+                  Cerrar
+                </button>
+              </div>
+              <div className="grid gap-2 text-sm">
+                <div>
+                  <span className="text-gray-500">client_id: </span>
+                  <code className="bg-white px-2 py-1 rounded border select-all">{issuedCredentials.clientId}</code>
+                </div>
+                <div>
+                  <span className="text-gray-500">client_secret: </span>
+                  <code className="bg-white px-2 py-1 rounded border select-all break-all">{issuedCredentials.clientSecret}</code>
+                </div>
+                <div>
+                  <span className="text-gray-500">scopes: </span>
+                  {issuedCredentials.scopes.map((scope) => (
+                    <span key={scope} className="mr-1 px-2 py-1 bg-white border text-xs rounded">{scope}</span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Table */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
             {isLoading ? (
@@ -247,6 +349,7 @@ const AdminInstitutions: React.FC = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ubicacion</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Servicios</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">API (PAE)</th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Acciones</th>
                   </tr>
                 </thead>
@@ -289,13 +392,52 @@ const AdminInstitutions: React.FC = () => {
                           <span className="px-2 py-1 bg-yellow-100 text-yellow-700 text-xs rounded-full">Pendiente</span>
                         )}
                       </td>
+                      <td className="px-6 py-4">
+                        {hospital.oauthClientId ? (
+                          <div>
+                            <p className="text-xs font-mono text-gray-700">{hospital.oauthClientId}</p>
+                            <p className="text-xs text-gray-500">
+                              {(hospital.oauthScopes || []).map((scope) => OAUTH_SCOPE_LABELS[scope] || scope).join(', ')}
+                            </p>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-gray-400">Sin credenciales</span>
+                        )}
+                      </td>
                       <td className="px-6 py-4 text-right">
-                        <button
-                          onClick={() => handleVerifyHospital(hospital.id, !hospital.isVerified)}
-                          className={`text-sm ${hospital.isVerified ? 'text-yellow-600 hover:text-yellow-800' : 'text-green-600 hover:text-green-800'}`}
-                        >
-                          {hospital.isVerified ? 'Quitar verificacion' : 'Verificar'}
-                        </button>
+                        <div className="flex flex-col items-end gap-1">
+                          <button
+                            onClick={() => handleVerifyHospital(hospital.id, !hospital.isVerified)}
+                            className={`text-sm ${hospital.isVerified ? 'text-yellow-600 hover:text-yellow-800' : 'text-green-600 hover:text-green-800'}`}
+                          >
+                            {hospital.isVerified ? 'Quitar verificacion' : 'Verificar'}
+                          </button>
+                          {isSuperAdmin && (
+                            hospital.oauthClientId ? (
+                              <>
+                                <button
+                                  onClick={() => handleRotateCredentials(hospital)}
+                                  className="text-sm text-sky-600 hover:text-sky-800"
+                                >
+                                  Rotar secret
+                                </button>
+                                <button
+                                  onClick={() => handleRevokeCredentials(hospital)}
+                                  className="text-sm text-red-600 hover:text-red-800"
+                                >
+                                  Revocar API
+                                </button>
+                              </>
+                            ) : (
+                              <button
+                                onClick={() => handleGenerateCredentials(hospital)}
+                                className="text-sm text-sky-600 hover:text-sky-800"
+                              >
+                                Generar credenciales
+                              </button>
+                            )
+                          )}
+                        </div>
                       </td>
                     </tr>
                   ))}
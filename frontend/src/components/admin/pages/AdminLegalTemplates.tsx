@@ -0,0 +1,410 @@
+// src/components/admin/pages/AdminLegalTemplates.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  listLegalTemplates,
+  createLegalTemplate,
+  updateLegalTemplate,
+  deleteLegalTemplate,
+} from '../../../services/adminApi';
+import { useAdminAuth } from '../../../context/AdminAuthContext';
+import { StateLegalTemplate, ADMIN_PERMISSIONS } from '../../../types/admin';
+
+interface TemplateForm {
+  stateCode: string;
+  stateName: string;
+  lawName: string;
+  lawDate: string;
+  lawSummary: string;
+  templateHtml: string;
+  templateFields: string;
+  requiresNotary: boolean;
+  requiresWitnesses: number;
+  requiresMedicalCert: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  stateCode: '',
+  stateName: '',
+  lawName: '',
+  lawDate: '',
+  lawSummary: '',
+  templateHtml: '',
+  templateFields: '[]',
+  requiresNotary: false,
+  requiresWitnesses: 2,
+  requiresMedicalCert: false,
+  isActive: true,
+};
+
+const PLACEHOLDERS_HELP =
+  '{{ patient.name }}, {{ patient.curp }}, {{ patient.dateOfBirth }}, {{ state.name }}, {{ law.name }}, ' +
+  '{{ law.date }}, {{ witnesses }}, {{ date }}, {{ directive.acceptsCPR }}, {{ directive.additionalNotes }}...';
+
+const toForm = (template: StateLegalTemplate): TemplateForm => ({
+  stateCode: template.stateCode,
+  stateName: template.stateName,
+  lawName: template.lawName,
+  lawDate: template.lawDate ? template.lawDate.slice(0, 10) : '',
+  lawSummary: template.lawSummary || '',
+  templateHtml: template.templateHtml || '',
+  templateFields: JSON.stringify(template.templateFields || [], null, 2),
+  requiresNotary: template.requiresNotary,
+  requiresWitnesses: template.requiresWitnesses,
+  requiresMedicalCert: template.requiresMedicalCert,
+  isActive: template.isActive,
+});
+
+const AdminLegalTemplates: React.FC = () => {
+  const { hasPermission } = useAdminAuth();
+  const canWrite = hasPermission(ADMIN_PERMISSIONS.LEGAL_TEMPLATES_WRITE);
+
+  const [templates, setTemplates] = useState<StateLegalTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<StateLegalTemplate | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setIsLoading(true);
+      const { templates: data } = await listLegalTemplates();
+      setTemplates(data);
+    } catch (error) {
+      console.error('Error loading legal templates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (template: StateLegalTemplate) => {
+    setEditing(template);
+    setForm(toForm(template));
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    let templateFields;
+    try {
+      templateFields = JSON.parse(form.templateFields || '[]');
+    } catch {
+      setFormError('Los campos de la plantilla no son JSON valido');
+      return;
+    }
+
+    const data = {
+      stateCode: form.stateCode.toUpperCase(),
+      stateName: form.stateName,
+      lawName: form.lawName,
+      lawDate: form.lawDate || null,
+      lawSummary: form.lawSummary || null,
+      templateHtml: form.templateHtml || null,
+      templateFields,
+      requiresNotary: form.requiresNotary,
+      requiresWitnesses: Number(form.requiresWitnesses),
+      requiresMedicalCert: form.requiresMedicalCert,
+      isActive: form.isActive,
+    };
+
+    try {
+      setIsSaving(true);
+      if (editing) {
+        await updateLegalTemplate(editing.id, data);
+      } else {
+        await createLegalTemplate(data);
+      }
+      setShowForm(false);
+      loadTemplates();
+    } catch (error: any) {
+      console.error('Error saving legal template:', error);
+      setFormError(error.message || 'Error al guardar la plantilla');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: StateLegalTemplate) => {
+    if (!window.confirm(
+      `Eliminar la plantilla de ${template.stateName}? Las directivas del estado quedaran sin fundamento legal asociado.`
+    )) {
+      return;
+    }
+    try {
+      await deleteLegalTemplate(template.id);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error deleting legal template:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Plantillas legales</h1>
+          <p className="text-gray-500">Requisitos y documento de voluntad anticipada por estado</p>
+        </div>
+        {canWrite && (
+          <button
+            onClick={openCreate}
+            className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 text-sm font-medium"
+          >
+            Nueva plantilla
+          </button>
+        )}
+      </div>
+
+      {/* Lista */}
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-sky-600"></div>
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No hay plantillas registradas</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ley</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Requisitos</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Directivas</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estatus</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {templates.map((template) => (
+                <tr key={template.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-gray-900">{template.stateName}</p>
+                    <p className="text-xs text-gray-500">{template.stateCode}</p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {template.lawName}
+                    {!template.templateHtml && (
+                      <span className="block text-xs text-amber-600">Sin documento HTML</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {[
+                      template.requiresNotary && 'Notario',
+                      template.requiresWitnesses > 0 && `${template.requiresWitnesses} testigos`,
+                      template.requiresMedicalCert && 'Cert. medico',
+                    ].filter(Boolean).join(', ') || '-'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{template.directivesCount ?? 0}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      template.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {template.isActive ? 'Activa' : 'Inactiva'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm space-x-3">
+                    <button onClick={() => openEdit(template)} className="text-sky-600 hover:text-sky-800">
+                      {canWrite ? 'Editar' : 'Ver'}
+                    </button>
+                    {canWrite && (
+                      <button onClick={() => handleDelete(template)} className="text-red-600 hover:text-red-800">
+                        Eliminar
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Formulario */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {editing ? `Plantilla de ${editing.stateName}` : 'Nueva plantilla'}
+                </h2>
+                <button type="button" onClick={() => setShowForm(false)} className="text-gray-400 hover:text-gray-600">
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {formError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {formError}
+                </div>
+              )}
+
+              <fieldset disabled={!canWrite} className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Codigo</label>
+                    <input
+                      type="text"
+                      required
+                      maxLength={5}
+                      disabled={!!editing}
+                      value={form.stateCode}
+                      onChange={(e) => setForm({ ...form, stateCode: e.target.value.toUpperCase() })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm disabled:bg-gray-100"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Estado</label>
+                    <input
+                      type="text"
+                      required
+                      value={form.stateName}
+                      onChange={(e) => setForm({ ...form, stateName: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Ley</label>
+                    <input
+                      type="text"
+                      required
+                      value={form.lawName}
+                      onChange={(e) => setForm({ ...form, lawName: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Publicacion</label>
+                    <input
+                      type="date"
+                      value={form.lawDate}
+                      onChange={(e) => setForm({ ...form, lawDate: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Resumen</label>
+                  <textarea
+                    rows={2}
+                    value={form.lawSummary}
+                    onChange={(e) => setForm({ ...form, lawSummary: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                  />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-6 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.requiresNotary}
+                      onChange={(e) => setForm({ ...form, requiresNotary: e.target.checked })}
+                    />
+                    Requiere notario
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.requiresMedicalCert}
+                      onChange={(e) => setForm({ ...form, requiresMedicalCert: e.target.checked })}
+                    />
+                    Requiere certificado medico
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Testigos
+                    <input
+                      type="number"
+                      min={0}
+                      max={5}
+                      value={form.requiresWitnesses}
+                      onChange={(e) => setForm({ ...form, requiresWitnesses: Number(e.target.value) })}
+                      className="w-16 border border-gray-300 rounded-lg px-2 py-1"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.isActive}
+                      onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                    />
+                    Activa
+                  </label>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Campos (JSON)</label>
+                  <textarea
+                    rows={6}
+                    value={form.templateFields}
+                    onChange={(e) => setForm({ ...form, templateFields: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Lista de {'{ "key", "label", "required" }'}. Claves: acceptsCPR, acceptsIntubation, acceptsDialysis,
+                    acceptsTransfusion, acceptsArtificialNutrition, palliativeCareOnly, additionalNotes
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Documento (HTML)</label>
+                  <textarea
+                    rows={10}
+                    value={form.templateHtml}
+                    onChange={(e) => setForm({ ...form, templateHtml: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Marcadores: {PLACEHOLDERS_HELP}</p>
+                </div>
+              </fieldset>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 text-sm"
+                >
+                  {canWrite ? 'Cancelar' : 'Cerrar'}
+                </button>
+                {canWrite && (
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 text-sm disabled:opacity-50"
+                  >
+                    {isSaving ? 'Guardando...' : 'Guardar'}
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminLegalTemplates;
@@ -0,0 +1,520 @@
+// src/components/admin/pages/AdminPanicConsole.tsx
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { MapContainer, TileLayer, CircleMarker, Polyline, Tooltip } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import {
+  getActivePanicAlerts,
+  getPanicAlertDetail,
+  getPanicOperators,
+  assignPanicAlert,
+  addPanicCallNote,
+  resolvePanicAlert,
+  acknowledgePanicAlert,
+} from '../../../services/adminApi';
+import { useAdminAuth } from '../../../context/AdminAuthContext';
+import { useOperatorEvents } from '../../../hooks/useOperatorEvents';
+import {
+  PanicConsoleAlert,
+  PanicAlertDetail,
+  PanicOperator,
+  PanicAlertUpdate,
+  PanicCallContact,
+  PanicResolutionOutcome,
+  PANIC_OUTCOME_LABELS,
+  PANIC_CALL_CONTACT_LABELS,
+} from '../../../types/admin';
+
+const ACK_CHANNEL_LABELS: Record<string, string> = {
+  PORTAL: 'Portal',
+  SOCKET: 'App',
+  SMS: 'SMS',
+  OPERATOR: 'Operador',
+};
+
+const DEFAULT_CENTER: [number, number] = [19.4326, -99.1332]; // CDMX
+
+// Rojo: en cola sin confirmar; naranja: sin operador; azul: asignada
+const alertColor = (alert: PanicConsoleAlert) => {
+  if (alert.operatorQueuedAt && !alert.acknowledgedAt) return '#dc2626';
+  if (!alert.assignedAdmin) return '#ea580c';
+  return '#0284c7';
+};
+
+const AdminPanicConsole: React.FC = () => {
+  const { admin } = useAdminAuth();
+  const [alerts, setAlerts] = useState<PanicConsoleAlert[]>([]);
+  const [operators, setOperators] = useState<PanicOperator[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<PanicAlertDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [assigneeId, setAssigneeId] = useState('');
+  const [noteForm, setNoteForm] = useState<{ contactType: PanicCallContact; contactName: string; content: string }>({
+    contactType: 'PATIENT',
+    contactName: '',
+    content: '',
+  });
+  const [resolveForm, setResolveForm] = useState<{ outcome: PanicResolutionOutcome | ''; notes: string }>({
+    outcome: '',
+    notes: '',
+  });
+  const selectedIdRef = useRef<string | null>(null);
+  selectedIdRef.current = selectedId;
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const data = await getActivePanicAlerts();
+      setAlerts(data.alerts);
+    } catch (error) {
+      console.error('Error loading active alerts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadDetail = useCallback(async (alertId: string) => {
+    try {
+      const data = await getPanicAlertDetail(alertId);
+      if (selectedIdRef.current === alertId) {
+        setDetail(data);
+      }
+    } catch (error) {
+      console.error('Error loading alert detail:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+    getPanicOperators()
+      .then((data) => setOperators(data.operators))
+      .catch((error) => console.error('Error loading operators:', error));
+
+    // Respaldo por si el socket no esta conectado
+    const interval = setInterval(loadAlerts, 15000);
+    return () => clearInterval(interval);
+  }, [loadAlerts]);
+
+  useEffect(() => {
+    setDetail(null);
+    setAssigneeId('');
+    setResolveForm({ outcome: '', notes: '' });
+    if (selectedId) {
+      loadDetail(selectedId);
+    }
+  }, [selectedId, loadDetail]);
+
+  const handleAlertUpdated = useCallback(
+    (update: PanicAlertUpdate) => {
+      if (update.event === 'LOCATION' && update.point) {
+        // Solo se mueve el marcador; no hace falta recargar toda la lista
+        const point = update.point;
+        setAlerts((current) =>
+          current.map((alert) => (alert.id === update.alertId ? { ...alert, currentLocation: point } : alert))
+        );
+        if (selectedIdRef.current === update.alertId) {
+          setDetail((current) => (current ? { ...current, trail: [...current.trail, point] } : current));
+        }
+        return;
+      }
+
+      loadAlerts();
+      if (selectedIdRef.current === update.alertId) {
+        loadDetail(update.alertId);
+      }
+    },
+    [loadAlerts, loadDetail]
+  );
+
+  const { isConnected } = useOperatorEvents(handleAlertUpdated);
+
+  const runAction = async (action: () => Promise<unknown>, errorMessage: string) => {
+    if (!selectedId) return;
+    try {
+      setIsWorking(true);
+      await action();
+      await Promise.all([loadAlerts(), loadDetail(selectedId)]);
+    } catch (error: any) {
+      console.error(errorMessage, error);
+      alert(error.message || errorMessage);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAssign = (adminId?: string) =>
+    runAction(() => assignPanicAlert(selectedId!, adminId), 'Error al asignar la alerta');
+
+  const handleAcknowledge = () =>
+    runAction(() => acknowledgePanicAlert(selectedId!), 'Error al confirmar la alerta');
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!noteForm.content.trim()) return;
+    await runAction(async () => {
+      await addPanicCallNote(selectedId!, {
+        contactType: noteForm.contactType,
+        contactName: noteForm.contactName || undefined,
+        content: noteForm.content,
+      });
+      setNoteForm((current) => ({ ...current, contactName: '', content: '' }));
+    }, 'Error al guardar la nota');
+  };
+
+  const handleResolve = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resolveForm.outcome) return;
+    if (!confirm('¿Resolver la alerta? Se notificara al paciente y a sus representantes.')) return;
+
+    const outcome = resolveForm.outcome;
+    try {
+      setIsWorking(true);
+      await resolvePanicAlert(selectedId!, { outcome, notes: resolveForm.notes || undefined });
+      setSelectedId(null);
+      await loadAlerts();
+    } catch (error: any) {
+      console.error('Resolve error:', error);
+      alert(error.message || 'Error al resolver la alerta');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleString('es-MX', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sky-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Cargando consola de alertas...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const selected = alerts.find((alert) => alert.id === selectedId);
+  const mapCenter: [number, number] = selected
+    ? [selected.currentLocation.latitude, selected.currentLocation.longitude]
+    : alerts.length > 0
+      ? [alerts[0].currentLocation.latitude, alerts[0].currentLocation.longitude]
+      : DEFAULT_CENTER;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Consola de Alertas</h1>
+          <p className="text-gray-500">
+            Alertas de panico activas ·{' '}
+            <span className={isConnected ? 'text-green-600' : 'text-yellow-600'}>
+              {isConnected ? 'En tiempo real' : 'Actualizando cada 15 s'}
+            </span>
+          </p>
+        </div>
+        <button
+          onClick={loadAlerts}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+        >
+          Actualizar
+        </button>
+      </div>
+
+      {/* Mapa */}
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        <MapContainer
+          key={selectedId || 'all'}
+          center={mapCenter}
+          zoom={selected ? 15 : 11}
+          style={{ height: '360px', width: '100%' }}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          {detail && detail.trail.length > 1 && (
+            <Polyline
+              positions={detail.trail.map((point) => [point.latitude, point.longitude] as [number, number])}
+              pathOptions={{ color: '#0284c7', weight: 4, opacity: 0.7 }}
+            />
+          )}
+          {alerts.map((alert) => (
+            <CircleMarker
+              key={alert.id}
+              center={[alert.currentLocation.latitude, alert.currentLocation.longitude]}
+              radius={alert.id === selectedId ? 12 : 9}
+              pathOptions={{ color: '#fff', weight: 2, fillColor: alertColor(alert), fillOpacity: 0.9 }}
+              eventHandlers={{ click: () => setSelectedId(alert.id) }}
+            >
+              <Tooltip>{alert.user.name}</Tooltip>
+            </CircleMarker>
+          ))}
+        </MapContainer>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Lista de alertas */}
+        <div className="space-y-3">
+          {alerts.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-sm p-8 text-center text-gray-500">
+              No hay alertas activas
+            </div>
+          ) : (
+            alerts.map((alert) => (
+              <button
+                key={alert.id}
+                onClick={() => setSelectedId(alert.id)}
+                className={`w-full text-left bg-white rounded-xl shadow-sm p-4 border-l-4 ${
+                  alert.id === selectedId ? 'ring-2 ring-sky-500' : ''
+                }`}
+                style={{ borderLeftColor: alertColor(alert) }}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-semibold text-gray-900">{alert.user.name}</p>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">{formatDate(alert.createdAt)}</span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {alert.assignedAdmin ? `Asignada a ${alert.assignedAdmin.name}` : 'Sin operador'}
+                  {alert._count.callNotes > 0 && <> · {alert._count.callNotes} nota(s)</>}
+                </p>
+                {alert.operatorQueuedAt && !alert.acknowledgedAt && (
+                  <p className="text-xs text-red-700 mt-1">En cola sin confirmar</p>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Detalle */}
+        <div className="lg:col-span-2">
+          {!selectedId ? (
+            <div className="bg-white rounded-xl shadow-sm p-12 text-center text-gray-500">
+              Selecciona una alerta en el mapa o en la lista
+            </div>
+          ) : !detail ? (
+            <div className="bg-white rounded-xl shadow-sm p-12 text-center text-gray-500">Cargando alerta...</div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{detail.user.name}</h2>
+                  <p className="text-sm text-gray-500">
+                    {detail.user.phone ? (
+                      <a href={`tel:${detail.user.phone}`} className="text-sky-600 hover:underline">
+                        {detail.user.phone}
+                      </a>
+                    ) : (
+                      'Sin telefono'
+                    )}{' '}
+                    · {detail.user.email}
+                  </p>
+                  <p className="text-sm text-gray-600 mt-2">Activada {formatDate(detail.createdAt)}</p>
+                  {detail.message && <p className="text-sm text-gray-700 mt-1">"{detail.message}"</p>}
+                  {selected && (
+                    <a
+                      href={`https://www.google.com/maps?q=${selected.currentLocation.latitude},${selected.currentLocation.longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-block text-sm text-sky-600 hover:underline mt-1"
+                    >
+                      Ubicacion actual ({formatDate(selected.currentLocation.recordedAt)})
+                    </a>
+                  )}
+                </div>
+                {detail.acknowledgedAt ? (
+                  <span className="px-3 py-1 bg-green-100 text-green-800 text-sm rounded-full whitespace-nowrap">
+                    Atendida
+                  </span>
+                ) : (
+                  <button
+                    onClick={handleAcknowledge}
+                    disabled={isWorking}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 whitespace-nowrap"
+                  >
+                    Atender
+                  </button>
+                )}
+              </div>
+
+              {/* Asignacion */}
+              <div className="flex flex-wrap items-center gap-3 p-4 bg-gray-50 rounded-lg">
+                <span className="text-sm text-gray-700">
+                  Operador:{' '}
+                  <strong>{detail.assignedAdmin ? detail.assignedAdmin.name : 'Sin asignar'}</strong>
+                  {detail.assignedAt && <> desde {formatDate(detail.assignedAt)}</>}
+                </span>
+                {detail.assignedAdmin?.id !== admin?.id && (
+                  <button
+                    onClick={() => handleAssign()}
+                    disabled={isWorking}
+                    className="px-3 py-1.5 bg-sky-600 text-white text-sm rounded-lg hover:bg-sky-700 disabled:opacity-50"
+                  >
+                    Tomar
+                  </button>
+                )}
+                <select
+                  value={assigneeId}
+                  onChange={(e) => setAssigneeId(e.target.value)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">Asignar a...</option>
+                  {operators.map((operator) => (
+                    <option key={operator.id} value={operator.id}>
+                      {operator.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleAssign(assigneeId)}
+                  disabled={isWorking || !assigneeId}
+                  className="px-3 py-1.5 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 disabled:opacity-50"
+                >
+                  Asignar
+                </button>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Representantes</h3>
+                  <ul className="space-y-1 text-sm text-gray-600">
+                    {detail.user.representatives.map((rep) => (
+                      <li key={rep.id}>
+                        {rep.priority}. {rep.name} ({rep.relation}) ·{' '}
+                        <a href={`tel:${rep.phone}`} className="text-sky-600 hover:underline">
+                          {rep.phone}
+                        </a>
+                        {rep.status !== 'ACCEPTED' && <span className="text-yellow-700"> (sin confirmar)</span>}
+                      </li>
+                    ))}
+                  </ul>
+                  {detail.acknowledgements && detail.acknowledgements.length > 0 && (
+                    <p className="text-sm text-green-700 mt-2">
+                      Confirmada por{' '}
+                      {detail.acknowledgements
+                        .map((ack) => `${ack.name} (${ACK_CHANNEL_LABELS[ack.channel] || ack.channel})`)
+                        .join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Cadena de escalamiento</h3>
+                  <ul className="space-y-1 text-sm text-gray-600">
+                    {(detail.escalationSteps || []).map((step) => (
+                      <li key={step.level}>
+                        {step.level}. {formatDate(step.notifiedAt)} ·{' '}
+                        {step.type === 'OPERATOR_QUEUE'
+                          ? 'Cola de operadores'
+                          : `Prioridad ${step.priority}: ${(step.notifications || []).map((n) => n.name).join(', ')}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+
+              {/* Notas de llamada */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Notas de llamada</h3>
+                {detail.callNotes.length === 0 ? (
+                  <p className="text-sm text-gray-500">Sin notas registradas</p>
+                ) : (
+                  <ul className="space-y-2 mb-4">
+                    {detail.callNotes.map((note) => (
+                      <li key={note.id} className="text-sm border-l-2 border-gray-200 pl-3">
+                        <p className="text-gray-500">
+                          {formatDate(note.createdAt)} · {note.admin.name} ·{' '}
+                          {PANIC_CALL_CONTACT_LABELS[note.contactType]}
+                          {note.contactName && <> ({note.contactName})</>}
+                        </p>
+                        <p className="text-gray-800 whitespace-pre-wrap">{note.content}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <form onSubmit={handleAddNote} className="space-y-2 mt-3">
+                  <div className="flex gap-2">
+                    <select
+                      value={noteForm.contactType}
+                      onChange={(e) => setNoteForm({ ...noteForm, contactType: e.target.value as PanicCallContact })}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {Object.entries(PANIC_CALL_CONTACT_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={noteForm.contactName}
+                      onChange={(e) => setNoteForm({ ...noteForm, contactName: e.target.value })}
+                      placeholder="Nombre del contacto (opcional)"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                  <textarea
+                    value={noteForm.content}
+                    onChange={(e) => setNoteForm({ ...noteForm, content: e.target.value })}
+                    placeholder="Resumen de la llamada"
+                    rows={3}
+                    maxLength={2000}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isWorking || !noteForm.content.trim()}
+                    className="px-4 py-2 bg-sky-600 text-white text-sm rounded-lg hover:bg-sky-700 disabled:opacity-50"
+                  >
+                    Guardar nota
+                  </button>
+                </form>
+              </div>
+
+              {/* Resolucion */}
+              <form onSubmit={handleResolve} className="space-y-2 pt-4 border-t border-gray-200">
+                <h3 className="text-sm font-medium text-gray-700">Resolver alerta</h3>
+                <select
+                  value={resolveForm.outcome}
+                  onChange={(e) =>
+                    setResolveForm({ ...resolveForm, outcome: e.target.value as PanicResolutionOutcome | '' })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">Selecciona el resultado...</option>
+                  {Object.entries(PANIC_OUTCOME_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <textarea
+                  value={resolveForm.notes}
+                  onChange={(e) => setResolveForm({ ...resolveForm, notes: e.target.value })}
+                  placeholder="Notas de cierre (opcional)"
+                  rows={2}
+                  maxLength={2000}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={isWorking || !resolveForm.outcome}
+                  className="px-4 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  Resolver y notificar
+                </button>
+              </form>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPanicConsole;
@@ -1,7 +1,7 @@
 // src/components/admin/pages/AdminSystemHealth.tsx
 import React, { useState, useEffect } from 'react';
-import { getSystemHealth, getPerformanceMetrics, runSystemCleanup } from '../../../services/adminApi';
-import { SystemHealth, ServiceStatus } from '../../../types/admin';
+import { getSystemHealth, getPerformanceMetrics, runSystemCleanup, getJobRuns, runScheduledJob } from '../../../services/adminApi';
+import { SystemHealth, ServiceStatus, JobRunsResponse } from '../../../types/admin';
 import { useAdminAuth } from '../../../context/AdminAuthContext';
 
 const AdminSystemHealth: React.FC = () => {
@@ -11,12 +11,15 @@ const AdminSystemHealth: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [cleanupResult, setCleanupResult] = useState<any>(null);
   const [isRunningCleanup, setIsRunningCleanup] = useState(false);
+  const [jobRuns, setJobRuns] = useState<JobRunsResponse | null>(null);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
 
   const isSuperAdmin = admin?.isSuperAdmin;
 
   useEffect(() => {
     loadHealth();
     loadPerformance();
+    loadJobRuns();
     const interval = setInterval(loadHealth, 30000); // Refresh every 30s
     return () => clearInterval(interval);
   }, []);
@@ -41,6 +44,33 @@ const AdminSystemHealth: React.FC = () => {
     }
   };
 
+  const loadJobRuns = async () => {
+    try {
+      const data = await getJobRuns({ limit: 10 });
+      setJobRuns(data);
+    } catch (error) {
+      console.error('Error loading job runs:', error);
+    }
+  };
+
+  const handleRunJob = async (name: string) => {
+    try {
+      setRunningJob(name);
+      await runScheduledJob(name);
+      await loadJobRuns();
+    } catch (error: any) {
+      console.error('Job run error:', error);
+      alert(error.message || 'Error al ejecutar tarea');
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  const formatSummary = (summary: Record<string, number> | null) => {
+    if (!summary) return '-';
+    return Object.entries(summary).map(([key, value]) => `${key}: ${value}`).join(', ');
+  };
+
   const handleCleanup = async (dryRun: boolean) => {
     if (!dryRun && !window.confirm('Estas seguro de ejecutar la limpieza? Esto eliminara sesiones y datos expirados.')) {
       return;
@@ -256,6 +286,102 @@ const AdminSystemHealth: React.FC = () => {
         </div>
       )}
 
+      {/* Scheduled Jobs */}
+      {jobRuns && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Tareas Programadas</h3>
+            <button
+              onClick={loadJobRuns}
+              className="text-sm text-sky-600 hover:text-sky-700"
+            >
+              Actualizar
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            {jobRuns.jobs.map((job) => (
+              <div key={job.name} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">{job.name}</p>
+                    <p className="text-sm text-gray-500">{job.description}</p>
+                    <p className="text-xs text-gray-400 mt-1">Cada {job.intervalMinutes} min</p>
+                  </div>
+                  {isSuperAdmin && (
+                    <button
+                      onClick={() => handleRunJob(job.name)}
+                      disabled={job.running || runningJob !== null}
+                      className="px-3 py-1 text-sm bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:opacity-50"
+                    >
+                      {runningJob === job.name || job.running ? 'Ejecutando...' : 'Ejecutar'}
+                    </button>
+                  )}
+                </div>
+                <div className="mt-3 text-sm space-y-1">
+                  <p>
+                    Ultima ejecucion:{' '}
+                    {job.lastRun ? (
+                      <span className={job.lastRun.status === 'FAILED' ? 'text-red-600 font-medium' : 'text-gray-900'}>
+                        {new Date(job.lastRun.startedAt).toLocaleString('es-MX')} ({job.lastRun.status})
+                      </span>
+                    ) : (
+                      <span className="text-orange-600">Nunca</span>
+                    )}
+                  </p>
+                  <p>
+                    Ultimo exito:{' '}
+                    <span className="text-gray-900">
+                      {job.lastSuccessAt ? new Date(job.lastSuccessAt).toLocaleString('es-MX') : '-'}
+                    </span>
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Tarea</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Inicio</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Origen</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Estado</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Duracion</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Resultado</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {jobRuns.runs.map((run) => (
+                  <tr key={run.id}>
+                    <td className="px-4 py-2 text-gray-900">{run.job}</td>
+                    <td className="px-4 py-2 text-gray-600">{new Date(run.startedAt).toLocaleString('es-MX')}</td>
+                    <td className="px-4 py-2 text-gray-600">{run.trigger === 'MANUAL' ? 'Manual' : 'Programada'}</td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        run.status === 'SUCCEEDED' ? 'bg-green-100 text-green-700' :
+                        run.status === 'FAILED' ? 'bg-red-100 text-red-700' :
+                        'bg-yellow-100 text-yellow-700'
+                      }`}>
+                        {run.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{run.durationMs !== null ? `${run.durationMs}ms` : '-'}</td>
+                    <td className="px-4 py-2 text-gray-600">{run.error || formatSummary(run.summary)}</td>
+                  </tr>
+                ))}
+                {jobRuns.runs.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">Sin ejecuciones registradas</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Cleanup Tool (Super Admin only) */}
       {isSuperAdmin && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
@@ -6,3 +6,5 @@ export { default as AdminAuditLog } from './AdminAuditLog';
 export { default as AdminSystemHealth } from './AdminSystemHealth';
 export { default as AdminInstitutions } from './AdminInstitutions';
 export { default as AdminSubscriptions } from './AdminSubscriptions';
+export { default as AdminLegalTemplates } from './AdminLegalTemplates';
+export { default as AdminPanicConsole } from './AdminPanicConsole';
@@ -1,5 +1,5 @@
 // src/components/layouts/MainLayout.tsx
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 import {
@@ -14,17 +14,21 @@ import {
   LogOut,
   Heart,
   Shield,
-  CreditCard
+  CreditCard,
+  UserCheck,
+  MapPin
 } from 'lucide-react';
 import PanicButton from '../panic/PanicButton';
 import PanicAlertModal from '../panic/PanicAlertModal';
 import { panicApi } from '../../services/api';
+import { usePanicLocationStream } from '../../hooks/usePanicLocationStream';
 
 const navigation = [
   { name: 'Inicio', href: '/dashboard', icon: Home },
   { name: 'Mi Perfil', href: '/profile', icon: User },
   { name: 'Voluntad Anticipada', href: '/directives', icon: FileText },
   { name: 'Representantes', href: '/representatives', icon: Users },
+  { name: 'Soy Representante', href: '/representative-portal', icon: UserCheck },
   { name: 'Mi Código QR', href: '/emergency-qr', icon: QrCode },
   { name: 'Historial de Accesos', href: '/access-history', icon: History },
   { name: 'Mi Suscripción', href: '/subscription', icon: CreditCard },
@@ -34,19 +38,44 @@ interface PanicAlertResult {
   alertId: string;
   status: string;
   nearbyHospitals: any[];
-  representativesNotified: Array<{ name: string; phone: string; status: 'sent' | 'failed' }>;
+  representativesNotified: Array<{
+    name: string;
+    phone: string;
+    confirmed: boolean;
+    smsStatus: 'sent' | 'failed' | 'skipped';
+    emailStatus: 'sent' | 'failed' | 'skipped';
+  }>;
+  escalation?: {
+    level: number;
+    operatorQueued: boolean;
+    escalationMinutes: number;
+  };
   createdAt: string;
 }
 
 export default function MainLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [panicResult, setPanicResult] = useState<PanicAlertResult | null>(null);
+  const [showPanicModal, setShowPanicModal] = useState(false);
   const [panicLocation, setPanicLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [panicError, setPanicError] = useState<string | null>(null);
   const location = useLocation();
   const navigate = useNavigate();
   const { user, logout } = useAuth();
 
+  // Ubicación en vivo mientras la alerta sigue activa (aunque se cierre el modal)
+  const panicStream = usePanicLocationStream(panicResult?.alertId ?? null);
+  const lastPoint = panicStream.trail[panicStream.trail.length - 1];
+  const panicUserLocation = lastPoint ? { lat: lastPoint.latitude, lng: lastPoint.longitude } : panicLocation;
+
+  useEffect(() => {
+    // La alerta se canceló, resolvió o expiró en otra sesión
+    if (panicStream.ended) {
+      setPanicResult(null);
+      setShowPanicModal(false);
+    }
+  }, [panicStream.ended]);
+
   const handleLogout = async () => {
     await logout();
     navigate('/');
@@ -54,6 +83,7 @@ export default function MainLayout() {
 
   const handlePanicActivated = (result: PanicAlertResult & { location?: { lat: number; lng: number } }) => {
     setPanicResult(result);
+    setShowPanicModal(true);
     // Get current location for map
     navigator.geolocation.getCurrentPosition(
       (pos) => setPanicLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
@@ -65,6 +95,7 @@ export default function MainLayout() {
     try {
       await panicApi.cancel(alertId);
       setPanicResult(null);
+      setShowPanicModal(false);
     } catch (error) {
       console.error('Error cancelling panic:', error);
     }
@@ -207,15 +238,32 @@ export default function MainLayout() {
       />
 
       {/* Panic Alert Modal */}
-      {panicResult && panicLocation && (
+      {panicResult && showPanicModal && panicUserLocation && (
         <PanicAlertModal
           result={panicResult}
-          userLocation={panicLocation}
-          onClose={() => setPanicResult(null)}
+          userLocation={panicUserLocation}
+          trail={panicStream.trail.map((point) => ({ lat: point.latitude, lng: point.longitude }))}
+          nearbyHospitals={panicStream.nearbyHospitals ?? undefined}
+          isSharingLocation={panicStream.isStreaming}
+          locationError={panicStream.error}
+          onClose={() => setShowPanicModal(false)}
           onCancel={handleCancelPanic}
         />
       )}
 
+      {/* Alerta activa con el modal cerrado */}
+      {panicResult && !showPanicModal && (
+        <button
+          onClick={() => setShowPanicModal(true)}
+          className="fixed bottom-6 left-6 z-40 flex items-center gap-2 bg-red-600 text-white px-4 py-3 rounded-full shadow-lg hover:bg-red-700 transition"
+        >
+          <MapPin className="w-5 h-5 animate-pulse" />
+          <span className="text-sm font-medium">
+            {panicStream.isStreaming ? 'Compartiendo tu ubicación · Ver alerta' : 'Alerta activa · Ver alerta'}
+          </span>
+        </button>
+      )}
+
       {/* Error Toast */}
       {panicError && (
         <div className="fixed bottom-6 left-6 z-50 bg-red-600 text-white px-6 py-4 rounded-xl shadow-lg max-w-sm">
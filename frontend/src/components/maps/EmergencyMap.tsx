@@ -1,6 +1,6 @@
 // src/components/maps/EmergencyMap.tsx
 import { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Circle, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Circle, CircleMarker, Polyline, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
@@ -79,14 +79,17 @@ interface EmergencyMapProps {
   height?: string;
   onHospitalSelect?: (hospital: Hospital) => void;
   showMatchScore?: boolean;
+  trail?: Array<{ lat: number; lng: number }>; // Trayecto en vivo durante una alerta (el ultimo punto es userLocation)
+  locationLabel?: string;
 }
 
 // Component to recenter map when location changes
 function RecenterMap({ center }: { center: [number, number] }) {
   const map = useMap();
+  // Solo al cambiar la posicion (no en cada render) para no interrumpir al usuario
   useEffect(() => {
     map.setView(center, map.getZoom());
-  }, [center, map]);
+  }, [center[0], center[1], map]);
   return null;
 }
 
@@ -98,6 +101,8 @@ export default function EmergencyMap({
   height = '400px',
   onHospitalSelect,
   showMatchScore = false,
+  trail = [],
+  locationLabel = 'Tu ubicacion',
 }: EmergencyMapProps) {
   const [mapCenter, setMapCenter] = useState<[number, number]>([19.4326, -99.1332]); // CDMX default
 
@@ -156,13 +161,32 @@ export default function EmergencyMap({
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
 
+        {/* Live trail */}
+        {trail.length > 1 && (
+          <>
+            <Polyline
+              positions={trail.map((point) => [point.lat, point.lng] as [number, number])}
+              pathOptions={{ color: '#dc2626', weight: 4, opacity: 0.7 }}
+            />
+            <CircleMarker
+              center={[trail[0].lat, trail[0].lng]}
+              radius={6}
+              pathOptions={{ color: '#dc2626', fillColor: '#ffffff', fillOpacity: 1, weight: 3 }}
+            >
+              <Popup>
+                <span className="text-sm text-gray-700">Ubicacion al activar la alerta</span>
+              </Popup>
+            </CircleMarker>
+          </>
+        )}
+
         {/* User location */}
         {userLocation && (
           <>
             <Marker position={[userLocation.lat, userLocation.lng]} icon={userIcon}>
               <Popup>
                 <div className="text-center">
-                  <strong className="text-red-600">Tu ubicacion</strong>
+                  <strong className="text-red-600">{locationLabel}</strong>
                   <br />
                   <span className="text-sm text-gray-500">
                     {userLocation.lat.toFixed(6)}, {userLocation.lng.toFixed(6)}
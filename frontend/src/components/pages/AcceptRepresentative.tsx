@@ -0,0 +1,289 @@
+// src/components/pages/AcceptRepresentative.tsx
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { representativeInvitationsApi } from '../../services/api';
+import type { RepresentativeInvitation, VerificationChannel } from '../../types';
+
+const channelLabels: Record<VerificationChannel, string> = {
+  SMS: 'SMS',
+  EMAIL: 'Correo electrónico',
+};
+
+export default function AcceptRepresentative() {
+  const { token } = useParams<{ token: string }>();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const [invitation, setInvitation] = useState<RepresentativeInvitation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [channel, setChannel] = useState<VerificationChannel>('SMS');
+  const [codeSentTo, setCodeSentTo] = useState('');
+  const [code, setCode] = useState('');
+  const [sendingCode, setSendingCode] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<'accepted' | 'declined' | null>(null);
+
+  const redirectQuery = `?redirect=${encodeURIComponent(`/representante/${token}`)}`;
+
+  useEffect(() => {
+    loadInvitation();
+  }, [token]);
+
+  const loadInvitation = async () => {
+    try {
+      setLoading(true);
+      const response = await representativeInvitationsApi.get(token!);
+      if (response.success && response.data) {
+        setInvitation(response.data.invitation);
+      }
+    } catch (err: any) {
+      setLoadError(err.response?.data?.error?.message || 'No se pudo cargar la invitación');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendCode = async () => {
+    setError('');
+    try {
+      setSendingCode(true);
+      const response = await representativeInvitationsApi.sendCode(token!, channel);
+      if (response.success && response.data) {
+        setCodeSentTo(response.data.verification.destination);
+        setCode('');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error enviando el código');
+    } finally {
+      setSendingCode(false);
+    }
+  };
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setSubmitting(true);
+      const response = await representativeInvitationsApi.accept(token!, code);
+      if (response.success) {
+        setResult('accepted');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.response?.data?.errors?.[0]?.msg || 'Error aceptando la designación');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!confirm('¿Seguro que deseas rechazar la designación?')) return;
+    setError('');
+
+    try {
+      setSubmitting(true);
+      const response = await representativeInvitationsApi.decline(token!);
+      if (response.success) {
+        setResult('declined');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error rechazando la designación');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (result) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-sm p-8 max-w-md text-center">
+          {result === 'accepted' ? (
+            <>
+              <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900 mb-2">Designación aceptada</h1>
+              <p className="text-gray-600 mb-6">
+                Ahora eres representante de {invitation?.patientName}. Recibirás sus alertas de emergencia
+                y podrás consultarlas desde tu portal.
+              </p>
+              <Link
+                to="/representative-portal"
+                className="inline-block px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Ir a mi portal de representante
+              </Link>
+            </>
+          ) : (
+            <>
+              <h1 className="text-xl font-semibold text-gray-900 mb-2">Designación rechazada</h1>
+              <p className="text-gray-600">
+                {invitation?.patientName} verá en su lista de representantes que rechazaste la designación.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (loadError || !invitation) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-sm p-8 max-w-md text-center">
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Invitación no disponible</h1>
+          <p className="text-gray-600">{loadError || 'La invitación no existe.'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h1 className="text-2xl font-bold text-gray-900">Invitación a representante</h1>
+          <p className="mt-2 text-gray-600">
+            Hola {invitation.representativeName}, <strong>{invitation.patientName}</strong> te designó como
+            su representante en VIDA.
+          </p>
+          <ul className="mt-4 space-y-1 text-sm text-gray-600 list-disc list-inside">
+            {invitation.notifyOnEmergency && (
+              <li>Recibirás sus alertas de pánico y avisos de acceso de emergencia.</li>
+            )}
+            {invitation.isDonorSpokesperson && (
+              <li>Serás su vocero de donación de órganos y podrás consultar sus preferencias.</li>
+            )}
+            <li>Puedes renunciar a la designación en cualquier momento.</li>
+          </ul>
+          <p className="mt-3 text-sm text-gray-500">
+            El enlace vence el {new Date(invitation.inviteExpires).toLocaleDateString('es-MX', {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })}
+          </p>
+
+          {error && (
+            <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {!isAuthenticated ? (
+            <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <p className="text-sm text-blue-800">
+                Para aceptar necesitas una cuenta VIDA. Inicia sesión o crea tu cuenta y volverás a esta página.
+              </p>
+              <div className="mt-4 flex gap-3">
+                <Link
+                  to={`/login${redirectQuery}`}
+                  className="flex-1 text-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Iniciar sesión
+                </Link>
+                <Link
+                  to={`/register${redirectQuery}`}
+                  className="flex-1 text-center px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors"
+                >
+                  Crear cuenta
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleAccept} className="mt-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Aceptarás con la cuenta <strong>{user?.email}</strong>. Confirma que eres tú con un código
+                enviado al contacto que registró {invitation.patientName}.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Enviar código por</label>
+                <div className="flex gap-3">
+                  {(['SMS', 'EMAIL'] as VerificationChannel[]).map((option) => {
+                    const destination = invitation.channels[option];
+                    if (!destination) return null;
+                    return (
+                      <label
+                        key={option}
+                        className={`flex-1 border rounded-lg px-3 py-2 cursor-pointer text-sm ${
+                          channel === option ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="channel"
+                          value={option}
+                          checked={channel === option}
+                          onChange={() => setChannel(option)}
+                          className="sr-only"
+                        />
+                        <span className="block font-medium text-gray-900">{channelLabels[option]}</span>
+                        <span className="block text-gray-500">{destination}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSendCode}
+                  disabled={sendingCode}
+                  className="mt-3 text-sm text-blue-600 hover:underline disabled:opacity-50"
+                >
+                  {sendingCode ? 'Enviando...' : codeSentTo ? 'Reenviar código' : 'Enviar código'}
+                </button>
+                {codeSentTo && (
+                  <p className="mt-1 text-xs text-gray-500">Código enviado a {codeSentTo}. Vence en 10 minutos.</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Código de verificación</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  required
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                  placeholder="000000"
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting || code.length !== 6}
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Procesando...' : 'Aceptar designación'}
+              </button>
+            </form>
+          )}
+
+          <button
+            type="button"
+            onClick={handleDecline}
+            disabled={submitting}
+            className="mt-4 w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Rechazar designación
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,22 @@
 // src/components/pages/AccessHistory.tsx
 import { useState, useEffect } from 'react';
 import { emergencyApi } from '../../services/api';
+import { EMERGENCY_FIELD_LABELS, QR_TOKEN_MEDIUM_LABELS } from '../../types';
 import type { EmergencyAccess } from '../../types';
 
+// Etiquetas de registros anteriores a la divulgación por niveles
+const LEGACY_DATA_LABELS: Record<string, string> = {
+  profile: 'Perfil',
+  directives: 'Voluntad anticipada',
+};
+
+const ACCESS_METHOD_LABELS: Record<string, { label: string; className: string }> = {
+  MANUAL: { label: 'Sin verificar', className: 'bg-gray-100 text-gray-600' },
+  STAFF_TOKEN: { label: 'Personal verificado', className: 'bg-green-100 text-green-700' },
+  OAUTH_CLIENT: { label: 'Sistema hospitalario', className: 'bg-blue-100 text-blue-700' },
+  OFFLINE_CARD: { label: 'Tarjeta sin conexión', className: 'bg-amber-100 text-amber-700' },
+};
+
 export default function AccessHistory() {
   const [accesses, setAccesses] = useState<EmergencyAccess[]>([]);
   const [loading, setLoading] = useState(true);
@@ -25,6 +39,9 @@ export default function AccessHistory() {
     fetchHistory();
   }, []);
 
+  const getDataLabel = (item: string) =>
+    EMERGENCY_FIELD_LABELS[item as keyof typeof EMERGENCY_FIELD_LABELS] || LEGACY_DATA_LABELS[item] || item;
+
   const getRoleLabel = (role: string) => {
     const roles: Record<string, string> = {
       DOCTOR: 'Medico',
@@ -112,7 +129,14 @@ export default function AccessHistory() {
                       </svg>
                     </div>
                     <div>
-                      <h3 className="font-semibold text-gray-900">{access.accessorName}</h3>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold text-gray-900">{access.accessorName}</h3>
+                        {access.accessMethod && ACCESS_METHOD_LABELS[access.accessMethod] && (
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${ACCESS_METHOD_LABELS[access.accessMethod].className}`}>
+                            {ACCESS_METHOD_LABELS[access.accessMethod].label}
+                          </span>
+                        )}
+                      </div>
                       <p className="text-sm text-gray-500">{getRoleLabel(access.accessorRole)}</p>
                       {access.institutionName && (
                         <p className="text-sm text-gray-500">{access.institutionName}</p>
@@ -136,6 +160,14 @@ export default function AccessHistory() {
                   </div>
                 </div>
 
+                {/* Scanned QR */}
+                {access.qrToken && (
+                  <p className="mt-4 text-sm text-gray-500">
+                    Código escaneado: <span className="font-medium text-gray-700">{access.qrToken.label}</span>
+                    {' '}({QR_TOKEN_MEDIUM_LABELS[access.qrToken.medium]}{access.qrToken.revokedAt && ', revocado'})
+                  </p>
+                )}
+
                 {/* Location */}
                 {access.locationName && (
                   <div className="mt-4 flex items-center gap-2 text-sm text-gray-500">
@@ -150,14 +182,14 @@ export default function AccessHistory() {
                 {/* Data accessed */}
                 {access.dataAccessed && access.dataAccessed.length > 0 && (
                   <div className="mt-4 pt-4 border-t border-gray-100">
-                    <p className="text-xs text-gray-400 mb-2">Datos consultados:</p>
+                    <p className="text-xs text-gray-400 mb-2">Datos mostrados en este acceso:</p>
                     <div className="flex flex-wrap gap-2">
                       {access.dataAccessed.map((item, i) => (
                         <span
                           key={i}
                           className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-600"
                         >
-                          {item}
+                          {getDataLabel(item)}
                         </span>
                       ))}
                     </div>
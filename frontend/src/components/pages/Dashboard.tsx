@@ -238,7 +238,7 @@ export default function Dashboard() {
                 <div className="mt-1 flex flex-wrap gap-1">
                   {profile.allergies.length > 0 ? (
                     profile.allergies.map((allergy, i) => (
-                      <span key={i} className="badge-danger">{allergy}</span>
+                      <span key={i} className="badge-danger">{allergy.name}</span>
                     ))
                   ) : (
                     <span className="text-gray-400 text-sm">Ninguna registrada</span>
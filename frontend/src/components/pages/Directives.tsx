@@ -1,8 +1,12 @@
 // src/components/pages/Directives.tsx
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { directivesApi } from '../../services/api';
-import type { AdvanceDirective, DirectiveDraft } from '../../types';
+import { directivesApi, getEntitlementError, EntitlementError } from '../../services/api';
+import { usePremium } from '../../hooks/usePremium';
+import { EntitlementNotice, PremiumBadge } from '../subscription/FeatureGate';
+import DirectiveWitnesses from '../DirectiveWitnesses';
+import DirectiveLegalRequirements from '../DirectiveLegalRequirements';
+import type { AdvanceDirective, DirectiveDraft, LegalTemplateSummary } from '../../types';
 
 type DirectiveStatus = 'DRAFT' | 'PENDING_VALIDATION' | 'ACTIVE' | 'REVOKED' | 'EXPIRED';
 
@@ -21,8 +25,16 @@ export default function Directives() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState('');
+  const [witnessesDirectiveId, setWitnessesDirectiveId] = useState<string | null>(null);
+  const [legalDirective, setLegalDirective] = useState<AdvanceDirective | null>(null);
+  const [legalTemplates, setLegalTemplates] = useState<LegalTemplateSummary[]>([]);
+  const [entitlementError, setEntitlementError] = useState<EntitlementError | null>(null);
+  const { hasFeature, loading: premiumLoading } = usePremium();
+  // Sin el plan se pueden consultar, descargar y revocar las existentes, pero no crear nuevas
+  const canManageDirectives = premiumLoading || hasFeature('advanceDirectives');
   
   const [draftForm, setDraftForm] = useState<DirectiveDraft>({
+    type: 'DIGITAL_DRAFT',
     acceptsCPR: null,
     acceptsIntubation: null,
     acceptsDialysis: null,
@@ -35,8 +47,22 @@ export default function Directives() {
 
   useEffect(() => {
     loadDirectives();
+    loadLegalTemplates();
   }, []);
 
+  const loadLegalTemplates = async () => {
+    try {
+      const res = await directivesApi.getLegalTemplates();
+      if (res.success && res.data) {
+        setLegalTemplates(res.data.templates);
+      }
+    } catch {
+      // Sin plantillas el formulario funciona igual
+    }
+  };
+
+  const selectedTemplate = legalTemplates.find((t) => t.stateCode === draftForm.originState);
+
   const loadDirectives = async () => {
     try {
       setLoading(true);
@@ -69,6 +95,7 @@ export default function Directives() {
         setShowCreateModal(false);
         loadDirectives();
         setDraftForm({
+          type: 'DIGITAL_DRAFT',
           acceptsCPR: null,
           acceptsIntubation: null,
           acceptsDialysis: null,
@@ -80,7 +107,13 @@ export default function Directives() {
         });
       }
     } catch (err: any) {
-      setError(err.response?.data?.error?.message || 'Error creando borrador');
+      const planError = getEntitlementError(err);
+      if (planError) {
+        setShowCreateModal(false);
+        setEntitlementError(planError);
+      } else {
+        setError(err.response?.data?.error?.message || 'Error creando borrador');
+      }
     } finally {
       setCreating(false);
     }
@@ -91,7 +124,40 @@ export default function Directives() {
       await directivesApi.validate(id, 'EMAIL');
       loadDirectives();
     } catch (err: any) {
-      setError(err.response?.data?.error?.message || 'Error validando directiva');
+      const planError = getEntitlementError(err);
+      if (planError) {
+        setEntitlementError(planError);
+      } else {
+        setError(err.response?.data?.error?.message || 'Error validando directiva');
+      }
+    }
+  };
+
+  const handleRenew = async (id: string) => {
+    try {
+      await directivesApi.renew(id);
+      loadDirectives();
+    } catch (err: any) {
+      const planError = getEntitlementError(err);
+      if (planError) {
+        setEntitlementError(planError);
+      } else {
+        setError(err.response?.data?.error?.message || 'Error renovando directiva');
+      }
+    }
+  };
+
+  const handleDownloadPdf = async (id: string) => {
+    try {
+      const blob = await directivesApi.downloadPdf(id);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `voluntad-anticipada-${id.slice(0, 8)}.pdf`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError('Error generando el PDF');
     }
   };
 
@@ -189,17 +255,27 @@ export default function Directives() {
               Gestiona tus directivas de voluntad anticipada
             </p>
           </div>
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Crear nueva
-          </button>
+          <div className="flex items-center gap-3">
+            {!canManageDirectives && <PremiumBadge />}
+            <button
+              onClick={() => setShowCreateModal(true)}
+              disabled={!canManageDirectives}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Crear nueva
+            </button>
+          </div>
         </div>
 
+        {entitlementError && (
+          <div className="mb-6">
+            <EntitlementNotice error={entitlementError} />
+          </div>
+        )}
+
         {error && (
           <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
             {error}
@@ -230,6 +306,15 @@ export default function Directives() {
                     day: 'numeric',
                   })}
                 </p>
+                {activeDirective.expiresAt && (
+                  <p className="text-sm text-green-600">
+                    Vence el {new Date(activeDirective.expiresAt).toLocaleDateString('es-MX', {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric',
+                    })}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -279,6 +364,16 @@ export default function Directives() {
                         })}
                       </p>
 
+                      {directive.verificationCode && (
+                        <p className="text-xs text-gray-500 -mt-2 mb-4">
+                          Código de verificación: <span className="font-mono text-gray-700">{directive.verificationCode}</span>
+                        </p>
+                      )}
+
+                      {directive.legalBasisSummary && (
+                        <p className="text-xs text-gray-500 -mt-2 mb-4">{directive.legalBasisSummary}</p>
+                      )}
+
                       {/* Medical Decisions Summary */}
                       <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm">
                         <div className="flex items-center gap-2">
@@ -304,14 +399,38 @@ export default function Directives() {
 
                     {/* Actions */}
                     <div className="flex gap-2 ml-4">
+                      <button
+                        onClick={() => handleDownloadPdf(directive.id)}
+                        className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 transition-colors"
+                      >
+                        PDF
+                      </button>
+                      {directive.originState && (
+                        <button
+                          onClick={() => setLegalDirective(directive)}
+                          className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 transition-colors"
+                        >
+                          Marco legal
+                        </button>
+                      )}
+                      {directive.type === 'DIGITAL_WITNESSED' && directive.status !== 'REVOKED' && (
+                        <button
+                          onClick={() => setWitnessesDirectiveId(directive.id)}
+                          className="px-3 py-1.5 bg-blue-100 text-blue-700 rounded-lg text-sm hover:bg-blue-200 transition-colors"
+                        >
+                          Testigos
+                        </button>
+                      )}
                       {directive.status === 'DRAFT' && (
                         <>
-                          <button
-                            onClick={() => handleValidate(directive.id)}
-                            className="px-3 py-1.5 bg-green-100 text-green-700 rounded-lg text-sm hover:bg-green-200 transition-colors"
-                          >
-                            Validar
-                          </button>
+                          {directive.type !== 'DIGITAL_WITNESSED' && (
+                            <button
+                              onClick={() => handleValidate(directive.id)}
+                              className="px-3 py-1.5 bg-green-100 text-green-700 rounded-lg text-sm hover:bg-green-200 transition-colors"
+                            >
+                              Validar
+                            </button>
+                          )}
                           <button
                             onClick={() => handleDelete(directive.id)}
                             className="px-3 py-1.5 bg-red-100 text-red-700 rounded-lg text-sm hover:bg-red-200 transition-colors"
@@ -320,6 +439,14 @@ export default function Directives() {
                           </button>
                         </>
                       )}
+                      {(directive.status === 'ACTIVE' || directive.status === 'EXPIRED') && (
+                        <button
+                          onClick={() => handleRenew(directive.id)}
+                          className="px-3 py-1.5 bg-green-100 text-green-700 rounded-lg text-sm hover:bg-green-200 transition-colors"
+                        >
+                          Renovar
+                        </button>
+                      )}
                       {directive.status === 'ACTIVE' && (
                         <button
                           onClick={() => handleRevoke(directive.id)}
@@ -378,6 +505,29 @@ export default function Directives() {
             </div>
 
             <form onSubmit={handleCreateDraft} className="p-6">
+              <div className="grid grid-cols-2 gap-3 mb-6">
+                <button
+                  type="button"
+                  onClick={() => setDraftForm({ ...draftForm, type: 'DIGITAL_DRAFT' })}
+                  className={`p-3 rounded-lg border text-left transition-colors ${
+                    draftForm.type === 'DIGITAL_DRAFT' ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="block font-medium text-gray-900">Borrador digital</span>
+                  <span className="block text-xs text-gray-500">Validación por email o SMS</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDraftForm({ ...draftForm, type: 'DIGITAL_WITNESSED' })}
+                  className={`p-3 rounded-lg border text-left transition-colors ${
+                    draftForm.type === 'DIGITAL_WITNESSED' ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="block font-medium text-gray-900">Con testigos</span>
+                  <span className="block text-xs text-gray-500">Se activa cuando firman los testigos que exige tu estado</span>
+                </button>
+              </div>
+
               <div className="space-y-2 mb-6">
                 <h3 className="font-medium text-gray-900">Decisiones médicas</h3>
                 <p className="text-sm text-gray-500">
@@ -432,6 +582,7 @@ export default function Directives() {
                 </label>
                 <select
                   value={draftForm.originState}
+                  required={draftForm.type === 'DIGITAL_WITNESSED'}
                   onChange={(e) => setDraftForm({ ...draftForm, originState: e.target.value })}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
@@ -452,6 +603,24 @@ export default function Directives() {
                   <option value="SLP">San Luis Potosí</option>
                   <option value="YUC">Yucatán</option>
                 </select>
+
+                {selectedTemplate && (
+                  <div className="mt-3 bg-blue-50 rounded-lg p-4 text-sm">
+                    <p className="font-medium text-blue-900">{selectedTemplate.lawName}</p>
+                    <ul className="mt-2 list-disc list-inside text-blue-800">
+                      {selectedTemplate.requiresNotary && <li>Ratificación ante notario público</li>}
+                      {selectedTemplate.requiresWitnesses > 0 && (
+                        <li>Firma de {selectedTemplate.requiresWitnesses} testigos</li>
+                      )}
+                      {selectedTemplate.requiresMedicalCert && <li>Certificado médico de capacidad</li>}
+                    </ul>
+                    {selectedTemplate.fields.some((f) => f.required) && (
+                      <p className="mt-2 text-xs text-blue-700">
+                        Campos obligatorios: {selectedTemplate.fields.filter((f) => f.required).map((f) => f.label).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="mt-6">
@@ -488,6 +657,21 @@ export default function Directives() {
           </div>
         </div>
       )}
+
+      {witnessesDirectiveId && (
+        <DirectiveWitnesses
+          directiveId={witnessesDirectiveId}
+          onClose={() => setWitnessesDirectiveId(null)}
+          onChange={loadDirectives}
+        />
+      )}
+
+      {legalDirective && (
+        <DirectiveLegalRequirements
+          directive={legalDirective}
+          onClose={() => setLegalDirective(null)}
+        />
+      )}
     </div>
   );
 }
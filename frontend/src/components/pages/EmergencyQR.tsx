@@ -1,59 +1,223 @@
 // src/components/pages/EmergencyQR.tsx
 import { useState, useEffect } from 'react';
-import { profileApi } from '../../services/api';
+import { profileApi, getEntitlementError, EntitlementError } from '../../services/api';
 import { QRCodeSVG } from 'qrcode.react';
+import toast from 'react-hot-toast';
+import { useLimitUsage } from '../../hooks/usePremium';
+import { EntitlementNotice, LimitUsageReadout } from '../subscription/FeatureGate';
+import { QR_SUSPENSION_REASON_LABELS, QR_TOKEN_MEDIUM_LABELS, WALLPAPER_SIZE_LABELS } from '../../types';
+import type { OfflineCard, QrPrintFormat, QrToken, QrTokenMedium, QrTokenWithImage, WallpaperSize } from '../../types';
 
 export default function EmergencyQR() {
-  const [qrData, setQrData] = useState<{
-    qrToken: string;
-    qrDataUrl: string;
-    generatedAt: string;
-  } | null>(null);
+  const [tokens, setTokens] = useState<QrToken[]>([]);
+  const [selected, setSelected] = useState<QrTokenWithImage | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [regenerating, setRegenerating] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [createForm, setCreateForm] = useState<{ label: string; medium: QrTokenMedium }>({
+    label: '',
+    medium: 'WALLET_CARD',
+  });
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [reactivatingId, setReactivatingId] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [printing, setPrinting] = useState<QrPrintFormat | null>(null);
+  const [wallpaperSize, setWallpaperSize] = useState<WallpaperSize>('iphone');
+  const [entitlementError, setEntitlementError] = useState<EntitlementError | null>(null);
+  const { usage: downloadUsage, setUsed: setDownloadsUsed } = useLimitUsage('qrDownloadsPerMonth');
+  const [offlineCard, setOfflineCard] = useState<OfflineCard | null>(null);
+  const [issuingCard, setIssuingCard] = useState(false);
+  const downloadsExhausted = !!downloadUsage && !downloadUsage.isUnlimited && downloadUsage.used >= downloadUsage.value;
 
-  const fetchQR = async () => {
+  const selectToken = async (id: string) => {
     try {
-      setLoading(true);
-      const res = await profileApi.getQR();
-      if (res.success) {
-        setQrData(res.data);
+      const res = await profileApi.getQRToken(id);
+      if (res.success && res.data) {
+        setSelected(res.data);
+        setOfflineCard(null);
       }
     } catch (err: any) {
       setError(err.response?.data?.error?.message || 'Error al cargar el código QR');
+    }
+  };
+
+  const fetchTokens = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const res = await profileApi.getQRTokens();
+      if (res.success && res.data) {
+        setTokens(res.data.tokens);
+        const firstActive = res.data.tokens.find((token) => !token.revokedAt);
+        if (firstActive) {
+          await selectToken(firstActive.id);
+        }
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error al cargar los códigos QR');
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchQR();
+    fetchTokens();
   }, []);
 
-  const handleRegenerate = async () => {
-    if (!confirm('¿Estás seguro de regenerar el código QR? El código anterior dejará de funcionar.')) {
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setCreating(true);
+      const res = await profileApi.createQRToken({
+        label: createForm.label.trim(),
+        medium: createForm.medium,
+      });
+      if (res.success && res.data) {
+        const { qrDataUrl: _qrDataUrl, emergencyUrl: _emergencyUrl, ...token } = res.data;
+        setTokens((current) => [...current.filter((item) => !item.revokedAt), token, ...current.filter((item) => item.revokedAt)]);
+        setSelected(res.data);
+        setOfflineCard(null);
+        setShowCreate(false);
+        setCreateForm({ label: '', medium: 'WALLET_CARD' });
+        toast.success('Código creado');
+      }
+    } catch (err: any) {
+      toast.error(err.response?.data?.error?.message || 'Error al crear el código QR');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Revocar solo invalida el objeto perdido o robado; los demás códigos siguen funcionando
+  const handleRevoke = async (token: QrToken) => {
+    if (!confirm(`¿Revocar "${token.label}"? Ese código dejará de funcionar; los demás no cambian.`)) {
       return;
     }
 
     try {
-      setRegenerating(true);
-      const res = await profileApi.regenerateQR();
-      if (res.success) {
-        setQrData({
-          qrToken: res.data.qrToken,
-          qrDataUrl: res.data.qrDataUrl,
-          generatedAt: new Date().toISOString(),
-        });
+      setRevokingId(token.id);
+      const res = await profileApi.revokeQRToken(token.id);
+      if (res.success && res.data) {
+        const revoked = res.data;
+        setTokens((current) => [
+          ...current.filter((item) => !item.revokedAt && item.id !== revoked.id),
+          revoked,
+          ...current.filter((item) => item.revokedAt),
+        ]);
+        if (selected?.id === revoked.id) {
+          setSelected(null);
+          setOfflineCard(null);
+        }
+        toast.success(res.message || 'Código revocado');
       }
     } catch (err: any) {
-      setError(err.response?.data?.error?.message || 'Error al regenerar el código QR');
+      toast.error(err.response?.data?.error?.message || 'Error al revocar el código QR');
     } finally {
-      setRegenerating(false);
+      setRevokingId(null);
     }
   };
 
-  const emergencyUrl = qrData ? `${window.location.origin}/emergency/${qrData.qrToken}` : '';
+  // Un código suspendido por escaneos sospechosos solo se reactiva si el paciente lo tiene consigo
+  const handleReactivate = async (token: QrToken) => {
+    if (!confirm(`¿Reactivar "${token.label}"? Hazlo solo si tienes el objeto contigo y nadie más tiene una foto del código. Si no, revócalo y crea uno nuevo.`)) {
+      return;
+    }
+
+    try {
+      setReactivatingId(token.id);
+      const res = await profileApi.reactivateQRToken(token.id);
+      if (res.success && res.data) {
+        const reactivated = res.data;
+        setTokens((current) => current.map((item) => (item.id === reactivated.id ? reactivated : item)));
+        if (selected?.id === reactivated.id) {
+          setSelected({ ...selected, ...reactivated });
+        }
+        toast.success(res.message || 'Código reactivado');
+      }
+    } catch (err: any) {
+      toast.error(err.response?.data?.error?.message || 'Error al reactivar el código QR');
+    } finally {
+      setReactivatingId(null);
+    }
+  };
+
+  // La descarga para imprimir cuenta contra el límite mensual del plan
+  const handleDownload = async () => {
+    if (!selected) return;
+
+    try {
+      setDownloading(true);
+      const res = await profileApi.downloadQRToken(selected.id);
+      if (res.success && res.data) {
+        setDownloadsUsed(res.data.usage.used);
+        const link = document.createElement('a');
+        link.href = res.data.qrDataUrl;
+        link.download = `codigo-qr-vida-${selected.label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.png`;
+        link.click();
+      }
+    } catch (err: any) {
+      handleDownloadError(err, 'Error al descargar el código QR');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  // Tarjeta, calcomanías y fondos de pantalla también cuentan como descarga
+  const handlePrint = async (format: QrPrintFormat) => {
+    if (!selected) return;
+
+    try {
+      setPrinting(format);
+      const res = await profileApi.printQRToken(selected.id, {
+        format,
+        size: format === 'WALLPAPER' ? wallpaperSize : undefined,
+      });
+      if (res.success && res.data) {
+        setDownloadsUsed(res.data.usage.used);
+        const link = document.createElement('a');
+        link.href = res.data.dataUrl;
+        link.download = res.data.fileName;
+        link.click();
+      }
+    } catch (err: any) {
+      handleDownloadError(err, 'Error al generar el material para imprimir');
+    } finally {
+      setPrinting(null);
+    }
+  };
+
+  const handleDownloadError = (err: any, fallback: string) => {
+    const planError = getEntitlementError(err);
+    if (planError) {
+      setEntitlementError(planError);
+      if (planError.details.current !== undefined) {
+        setDownloadsUsed(planError.details.current);
+      }
+    } else {
+      toast.error(err.response?.data?.error?.message || fallback);
+    }
+  };
+
+  // Tarjeta offline: resumen firmado que se verifica sin red en el dispositivo que escanea
+  const handleOfflineCard = async () => {
+    if (!selected) return;
+
+    try {
+      setIssuingCard(true);
+      const res = await profileApi.getOfflineCard(selected.id);
+      if (res.success && res.data) {
+        setOfflineCard(res.data);
+      }
+    } catch (err: any) {
+      toast.error(err.response?.data?.error?.message || 'Error al generar la tarjeta sin conexión');
+    } finally {
+      setIssuingCard(false);
+    }
+  };
+
+  const emergencyUrl = selected ? `${window.location.origin}/emergency/${selected.token}` : '';
 
   if (loading) {
     return (
@@ -72,7 +236,7 @@ export default function EmergencyQR() {
         <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
           <p className="text-red-600 mb-4">{error}</p>
           <button
-            onClick={fetchQR}
+            onClick={fetchTokens}
             className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700"
           >
             Reintentar
@@ -86,86 +250,269 @@ export default function EmergencyQR() {
     <div className="max-w-2xl mx-auto space-y-6">
       {/* Header */}
       <div>
-        <h1 className="text-2xl font-bold text-gray-900">Mi Código QR de Emergencia</h1>
+        <h1 className="text-2xl font-bold text-gray-900">Mis Códigos QR de Emergencia</h1>
         <p className="text-gray-600 mt-1">
-          Este código permite a personal médico acceder a tu información en caso de emergencia
+          Usa un código por cada objeto donde lo llevas. Si pierdes uno, revócalo sin afectar a los demás.
         </p>
       </div>
 
-      {/* QR Card */}
-      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
-        <div className="bg-gradient-to-r from-vida-600 to-vida-700 text-white p-6 text-center">
-          <h2 className="text-xl font-semibold">Sistema VIDA</h2>
-          <p className="text-vida-100 text-sm">Código de Acceso de Emergencia</p>
-        </div>
-
-        <div className="p-8 flex flex-col items-center">
-          {qrData && (
-            <>
-              {/* QR Code */}
-              <div className="bg-white p-4 rounded-xl shadow-lg border-4 border-vida-100 mb-6">
-                <QRCodeSVG
-                  value={emergencyUrl}
-                  size={250}
-                  level="H"
-                  includeMargin={true}
-                  fgColor="#1E40AF"
-                />
-              </div>
-
-              {/* Token info */}
-              <p className="text-xs text-gray-400 font-mono mb-4">
-                Token: {qrData.qrToken}
+      {/* Token list */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+        {tokens.map((token) => (
+          <div
+            key={token.id}
+            className={`p-4 flex items-center justify-between gap-4 ${selected?.id === token.id ? 'bg-vida-50' : ''}`}
+          >
+            <button
+              onClick={() => !token.revokedAt && selectToken(token.id)}
+              disabled={!!token.revokedAt}
+              className="flex-1 text-left disabled:cursor-default"
+            >
+              <p className={`font-medium ${token.revokedAt ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                {token.label}
               </p>
-
-              {/* Generated date */}
-              <p className="text-sm text-gray-500 mb-6">
-                Generado: {new Date(qrData.generatedAt).toLocaleString('es-MX')}
+              <p className="text-sm text-gray-500">
+                {QR_TOKEN_MEDIUM_LABELS[token.medium]}
+                {' · '}
+                {token.revokedAt
+                  ? `Revocado el ${new Date(token.revokedAt).toLocaleDateString('es-MX')}`
+                  : token.lastScannedAt
+                    ? `Último escaneo: ${new Date(token.lastScannedAt).toLocaleString('es-MX')}`
+                    : 'Nunca escaneado'}
               </p>
-            </>
-          )}
+              {token.suspendedAt && !token.revokedAt && (
+                <p className="text-sm text-amber-700 mt-1">
+                  Suspendido por {token.suspendedReason ? QR_SUSPENSION_REASON_LABELS[token.suspendedReason] : 'actividad sospechosa'}.
+                  {' '}Solo el personal médico verificado puede abrirlo.
+                </p>
+              )}
+            </button>
+            {token.suspendedAt && !token.revokedAt && (
+              <button
+                onClick={() => handleReactivate(token)}
+                disabled={reactivatingId === token.id}
+                className="text-sm text-vida-600 hover:text-vida-700 disabled:opacity-50"
+              >
+                {reactivatingId === token.id ? 'Reactivando...' : 'Reactivar'}
+              </button>
+            )}
+            {!token.revokedAt && (
+              <button
+                onClick={() => handleRevoke(token)}
+                disabled={revokingId === token.id}
+                className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                {revokingId === token.id ? 'Revocando...' : 'Revocar'}
+              </button>
+            )}
+          </div>
+        ))}
 
-          {/* Actions */}
-          <div className="flex gap-4">
+        {showCreate ? (
+          <form onSubmit={handleCreate} className="p-4 flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              required
+              maxLength={60}
+              value={createForm.label}
+              onChange={(e) => setCreateForm({ ...createForm, label: e.target.value })}
+              placeholder="Ej: Casco de la moto"
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-vida-500 focus:border-transparent"
+            />
+            <select
+              value={createForm.medium}
+              onChange={(e) => setCreateForm({ ...createForm, medium: e.target.value as QrTokenMedium })}
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-vida-500 focus:border-transparent"
+            >
+              {(Object.keys(QR_TOKEN_MEDIUM_LABELS) as QrTokenMedium[]).map((medium) => (
+                <option key={medium} value={medium}>{QR_TOKEN_MEDIUM_LABELS[medium]}</option>
+              ))}
+            </select>
             <button
-              onClick={handleRegenerate}
-              disabled={regenerating}
-              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2"
+              type="submit"
+              disabled={creating || !createForm.label.trim()}
+              className="px-4 py-2 bg-vida-600 text-white rounded-lg hover:bg-vida-700 disabled:opacity-50"
             >
-              {regenerating ? (
-                <>
-                  <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
-                  Regenerando...
-                </>
-              ) : (
-                <>
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                  </svg>
-                  Regenerar QR
-                </>
-              )}
+              {creating ? 'Creando...' : 'Crear'}
             </button>
+            <button
+              type="button"
+              onClick={() => setShowCreate(false)}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Cancelar
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setShowCreate(true)}
+            className="w-full p-4 text-left text-vida-600 font-medium hover:bg-gray-50"
+          >
+            + Agregar código para otro objeto
+          </button>
+        )}
+      </div>
+
+      {/* QR Card */}
+      {selected && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="bg-gradient-to-r from-vida-600 to-vida-700 text-white p-6 text-center">
+            <h2 className="text-xl font-semibold">{selected.label}</h2>
+            <p className="text-vida-100 text-sm">Código de Acceso de Emergencia</p>
+          </div>
+
+          <div className="p-8 flex flex-col items-center">
+            {/* QR Code */}
+            <div className="bg-white p-4 rounded-xl shadow-lg border-4 border-vida-100 mb-6 text-center">
+              <QRCodeSVG
+                value={emergencyUrl}
+                size={250}
+                level="H"
+                includeMargin={true}
+                fgColor="#1E40AF"
+              />
+              {/* Código manual: se imprime igual en la descarga */}
+              <p className="text-2xl font-mono font-bold tracking-widest text-vida-800 mt-2">
+                {selected.shortCode}
+              </p>
+            </div>
 
+            {/* Token info */}
+            <p className="text-xs text-gray-400 font-mono mb-4">
+              Token: {selected.token}
+            </p>
+
+            {/* Generated date */}
+            <p className="text-sm text-gray-500 mb-6">
+              Creado: {new Date(selected.createdAt).toLocaleString('es-MX')}
+              {selected.scanCount > 0 && ` · ${selected.scanCount} escaneo(s)`}
+            </p>
+
+            {/* Actions */}
             <button
-              onClick={() => {
-                if (qrData?.qrDataUrl) {
-                  const link = document.createElement('a');
-                  link.href = qrData.qrDataUrl;
-                  link.download = 'mi-codigo-qr-vida.png';
-                  link.click();
-                }
-              }}
-              className="px-4 py-2 bg-vida-600 text-white rounded-lg hover:bg-vida-700 flex items-center gap-2"
+              onClick={handleDownload}
+              disabled={downloading || downloadsExhausted}
+              className="px-4 py-2 bg-vida-600 text-white rounded-lg hover:bg-vida-700 disabled:opacity-50 flex items-center gap-2"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
               </svg>
-              Descargar
+              {downloading ? 'Descargando...' : 'Descargar'}
+            </button>
+
+            {downloadUsage && <LimitUsageReadout usage={downloadUsage} className="mt-4" />}
+          </div>
+        </div>
+      )}
+
+      {/* Print assets */}
+      {selected && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold text-gray-900">Material para imprimir</h2>
+          <p className="text-gray-600 text-sm mt-1">
+            Incluye el QR, el código manual y solo los datos que tienes como públicos (nombre, foto, tipo de sangre y
+            alergias). Cada archivo cuenta como una descarga del mes.
+          </p>
+
+          <div className="grid gap-3 sm:grid-cols-3 mt-4">
+            <button
+              onClick={() => handlePrint('CARD_PDF')}
+              disabled={!!printing || downloadsExhausted}
+              className="px-4 py-3 border border-gray-200 rounded-lg text-left hover:bg-gray-50 disabled:opacity-50"
+            >
+              <span className="block font-medium text-gray-900">
+                {printing === 'CARD_PDF' ? 'Generando...' : 'Tarjeta de cartera'}
+              </span>
+              <span className="block text-xs text-gray-500">PDF tamaño credencial, frente y reverso</span>
             </button>
+            <button
+              onClick={() => handlePrint('STICKER_SHEET')}
+              disabled={!!printing || downloadsExhausted}
+              className="px-4 py-3 border border-gray-200 rounded-lg text-left hover:bg-gray-50 disabled:opacity-50"
+            >
+              <span className="block font-medium text-gray-900">
+                {printing === 'STICKER_SHEET' ? 'Generando...' : 'Hoja de calcomanías'}
+              </span>
+              <span className="block text-xs text-gray-500">PDF carta, 12 calcomanías de 5 × 5 cm</span>
+            </button>
+            <div className="px-4 py-3 border border-gray-200 rounded-lg">
+              <select
+                value={wallpaperSize}
+                onChange={(e) => setWallpaperSize(e.target.value as WallpaperSize)}
+                className="w-full border border-gray-300 rounded-lg px-2 py-1 text-xs mb-2"
+              >
+                {(Object.keys(WALLPAPER_SIZE_LABELS) as WallpaperSize[]).map((size) => (
+                  <option key={size} value={size}>{WALLPAPER_SIZE_LABELS[size]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handlePrint('WALLPAPER')}
+                disabled={!!printing || downloadsExhausted}
+                className="w-full px-3 py-1.5 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 disabled:opacity-50"
+              >
+                {printing === 'WALLPAPER' ? 'Generando...' : 'Fondo de pantalla'}
+              </button>
+            </div>
           </div>
         </div>
-      </div>
+      )}
+
+      {entitlementError && <EntitlementNotice error={entitlementError} />}
+
+      {/* Offline card */}
+      {selected && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold text-gray-900">Tarjeta sin conexión</h2>
+          <p className="text-gray-600 text-sm mt-1">
+            Un segundo código para "{selected.label}" con tu tipo de sangre, alergias principales, decisión de RCP y un teléfono
+            de emergencia, firmado por VIDA. Se puede leer y verificar aunque no haya internet.
+          </p>
+
+          {offlineCard ? (
+            <div className="flex flex-col items-center mt-6">
+              <div className="bg-white p-4 rounded-xl shadow-lg border-4 border-red-100 mb-4">
+                <QRCodeSVG
+                  value={offlineCard.cardUrl}
+                  size={250}
+                  level="M"
+                  includeMargin={true}
+                  fgColor="#DC2626"
+                />
+              </div>
+
+              <dl className="w-full grid grid-cols-2 gap-2 text-sm">
+                <dt className="text-gray-500">Nombre</dt>
+                <dd className="text-gray-900">{offlineCard.claims.n || 'No incluido'}</dd>
+                <dt className="text-gray-500">Tipo de sangre</dt>
+                <dd className="text-gray-900">{offlineCard.claims.bt || 'No incluido'}</dd>
+                <dt className="text-gray-500">Alergias</dt>
+                <dd className="text-gray-900">{offlineCard.claims.al?.join(', ') || 'No incluidas'}</dd>
+                <dt className="text-gray-500">RCP</dt>
+                <dd className="text-gray-900">
+                  {offlineCard.claims.cpr === undefined || offlineCard.claims.cpr === null
+                    ? 'No incluido'
+                    : offlineCard.claims.cpr ? 'Acepta' : 'No reanimar'}
+                </dd>
+                <dt className="text-gray-500">Teléfono</dt>
+                <dd className="text-gray-900">{offlineCard.claims.ph || 'No incluido'}</dd>
+              </dl>
+
+              <p className="text-xs text-gray-500 mt-4 text-center">
+                Válida hasta el {new Date(offlineCard.expiresAt).toLocaleDateString('es-MX')}. Solo incluye los
+                datos que tienes como públicos; vuelve a generarla si cambias tu perfil.
+              </p>
+            </div>
+          ) : (
+            <button
+              onClick={handleOfflineCard}
+              disabled={issuingCard}
+              className="mt-4 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+            >
+              {issuingCard ? 'Generando...' : 'Generar tarjeta sin conexión'}
+            </button>
+          )}
+        </div>
+      )}
 
       {/* Instructions */}
       <div className="bg-amber-50 border border-amber-200 rounded-xl p-6">
@@ -178,7 +525,7 @@ export default function EmergencyQR() {
         <ul className="text-amber-700 space-y-2 text-sm">
           <li className="flex items-start gap-2">
             <span className="font-bold">1.</span>
-            Imprime este código o guárdalo en tu celular
+            Crea un código para cada objeto e imprímelo o guárdalo en tu celular
           </li>
           <li className="flex items-start gap-2">
             <span className="font-bold">2.</span>
@@ -190,6 +537,10 @@ export default function EmergencyQR() {
           </li>
           <li className="flex items-start gap-2">
             <span className="font-bold">4.</span>
+            Si el QR está dañado o no hay cámara, pueden capturar el código de 8 caracteres en {window.location.host}/emergency/codigo
+          </li>
+          <li className="flex items-start gap-2">
+            <span className="font-bold">5.</span>
             Cada acceso queda registrado y tus representantes son notificados
           </li>
         </ul>
@@ -204,8 +555,9 @@ export default function EmergencyQR() {
           Seguridad
         </h3>
         <p className="text-gray-600 text-sm">
-          Si crees que tu código ha sido comprometido, puedes regenerarlo en cualquier momento.
-          El código anterior dejará de funcionar inmediatamente.
+          Si pierdes un objeto o crees que su código fue comprometido, revócalo y crea uno nuevo.
+          El código revocado deja de funcionar inmediatamente y tus otros códigos siguen activos.
+          El código manual también se revoca y solo admite unos cuantos accesos por hora.
         </p>
       </div>
     </div>
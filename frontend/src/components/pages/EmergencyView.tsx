@@ -1,12 +1,19 @@
 // src/components/pages/EmergencyView.tsx
 import { useState, useEffect } from 'react';
 import { useParams, useSearchParams } from 'react-router-dom';
-import { emergencyApi } from '../../services/api';
-import type { EmergencyData } from '../../types';
+import { emergencyApi, staffApi } from '../../services/api';
+import { EMERGENCY_FIELD_LABELS, ALLERGEN_CATEGORY_LABELS, ALLERGY_SEVERITY_LABELS } from '../../types';
+import type { EmergencyData, StaffMember } from '../../types';
+import ClinicalWarningsPanel from '../ClinicalWarningsPanel';
+import OfflineCardView from '../OfflineCardView';
 
 export default function EmergencyView() {
   const { qrToken } = useParams<{ qrToken: string }>();
   const [searchParams] = useSearchParams();
+
+  // Sin QR legible: /emergency/codigo permite capturar el código impreso debajo del QR
+  const byCode = qrToken === 'codigo';
+  const [shortCode, setShortCode] = useState('');
   
   const [step, setStep] = useState<'form' | 'loading' | 'data' | 'error'>('form');
   const [emergencyData, setEmergencyData] = useState<EmergencyData | null>(null);
@@ -21,6 +28,26 @@ export default function EmergencyView() {
     institutionName: '',
   });
 
+  // Personal institucional autenticado
+  const [accessMode, setAccessMode] = useState<'manual' | 'staff'>('manual');
+  const [staff, setStaff] = useState<StaffMember | null>(null);
+  const [staffForm, setStaffForm] = useState({ email: '', password: '' });
+  const [staffError, setStaffError] = useState('');
+  const [staffLoading, setStaffLoading] = useState(false);
+
+  useEffect(() => {
+    if (!staffApi.isLoggedIn()) return;
+
+    staffApi.getMe()
+      .then((res) => {
+        if (res.success && res.data) {
+          setStaff(res.data.staff);
+          setAccessMode('staff');
+        }
+      })
+      .catch(() => setStaff(null));
+  }, []);
+
   // Timer para mostrar tiempo restante
   useEffect(() => {
     if (!expiresAt) return;
@@ -62,11 +89,30 @@ export default function EmergencyView() {
     }
   }, []);
 
+  const handleAccessResult = (res: Awaited<ReturnType<typeof emergencyApi.initiateAccess>>) => {
+    if (res.success && res.data) {
+      setEmergencyData(res.data);
+      setExpiresAt(new Date(res.data.expiresAt));
+      setStep('data');
+    } else {
+      throw new Error('Error al acceder');
+    }
+  };
+
+  // Identifica al paciente por el QR escaneado o por el código capturado
+  const getPatientRef = (): { qrToken: string } | { shortCode: string } | null => {
+    if (byCode) {
+      return shortCode.trim() ? { shortCode: shortCode.trim() } : null;
+    }
+    return qrToken ? { qrToken } : null;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!qrToken) {
-      setError('Token QR inválido');
+    const patientRef = getPatientRef();
+    if (!patientRef) {
+      setError(byCode ? 'Capture el código impreso debajo del QR' : 'Token QR inválido');
       setStep('error');
       return;
     }
@@ -75,7 +121,7 @@ export default function EmergencyView() {
     
     try {
       const res = await emergencyApi.initiateAccess({
-        qrToken,
+        ...patientRef,
         accessorName: accessorForm.accessorName,
         accessorRole: accessorForm.accessorRole,
         accessorLicense: accessorForm.accessorLicense || undefined,
@@ -85,19 +131,73 @@ export default function EmergencyView() {
         locationName: location?.name,
       });
       
-      if (res.success) {
-        setEmergencyData(res.data);
-        setExpiresAt(new Date(res.data.expiresAt));
-        setStep('data');
-      } else {
-        throw new Error('Error al acceder');
+      handleAccessResult(res);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'No se pudo acceder a los datos del paciente');
+      setStep('error');
+    }
+  };
+
+  const handleStaffLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStaffError('');
+    setStaffLoading(true);
+
+    try {
+      const res = await staffApi.login(staffForm.email, staffForm.password);
+      if (res.success && res.data) {
+        setStaff(res.data.staff);
+        setStaffForm({ email: '', password: '' });
       }
     } catch (err: any) {
+      setStaffError(err.response?.data?.error?.message || 'No se pudo iniciar sesión');
+    } finally {
+      setStaffLoading(false);
+    }
+  };
+
+  const handleStaffLogout = async () => {
+    try {
+      await staffApi.logout();
+    } catch {
+      // La sesión local ya se limpió
+    }
+    setStaff(null);
+  };
+
+  const handleStaffAccess = async () => {
+    const patientRef = getPatientRef();
+    if (!patientRef) {
+      setError(byCode ? 'Capture el código impreso debajo del QR' : 'Token QR inválido');
+      setStep('error');
+      return;
+    }
+
+    setStep('loading');
+
+    try {
+      const res = await staffApi.initiateAccess({
+        ...patientRef,
+        latitude: location?.lat,
+        longitude: location?.lng,
+        locationName: location?.name,
+      });
+
+      handleAccessResult(res);
+    } catch (err: any) {
+      if (err.response?.status === 401) {
+        setStaff(null);
+      }
       setError(err.response?.data?.error?.message || 'No se pudo acceder a los datos del paciente');
       setStep('error');
     }
   };
 
+  // Tarjeta offline: /emergency/offline#<JWS>, se verifica en el dispositivo
+  if (qrToken === 'offline') {
+    return <OfflineCardView location={location} defaultAccessorName={staff?.name} />;
+  }
+
   // Vista de formulario de acceso
   if (step === 'form') {
     return (
@@ -120,6 +220,126 @@ export default function EmergencyView() {
             </p>
           </div>
 
+          {byCode && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Código del paciente *
+              </label>
+              <input
+                type="text"
+                required
+                autoFocus
+                autoComplete="off"
+                maxLength={9}
+                value={shortCode}
+                onChange={(e) => setShortCode(e.target.value.toUpperCase())}
+                placeholder="XXXX-XXXX"
+                className="w-full border border-gray-300 rounded-lg px-3 py-3 text-center text-2xl font-mono tracking-widest focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Los 8 caracteres impresos debajo del QR de la tarjeta, pulsera o calcomanía.
+              </p>
+            </div>
+          )}
+
+          <div className="flex rounded-lg bg-gray-100 p-1 mb-6">
+            <button
+              type="button"
+              onClick={() => setAccessMode('manual')}
+              className={`flex-1 py-2 text-sm font-medium rounded-md transition-colors ${
+                accessMode === 'manual' ? 'bg-white shadow text-gray-900' : 'text-gray-500'
+              }`}
+            >
+              Acceso manual
+            </button>
+            <button
+              type="button"
+              onClick={() => setAccessMode('staff')}
+              className={`flex-1 py-2 text-sm font-medium rounded-md transition-colors ${
+                accessMode === 'staff' ? 'bg-white shadow text-gray-900' : 'text-gray-500'
+              }`}
+            >
+              Personal institucional
+            </button>
+          </div>
+
+          {accessMode === 'staff' ? (
+            staff ? (
+              <div className="space-y-4">
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                  <p className="text-sm text-green-800">
+                    <strong>✓ Identidad verificada</strong>
+                  </p>
+                  <p className="text-gray-900 font-medium mt-1">{staff.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {staff.institution.name}
+                    {staff.license && ` · Cédula ${staff.license}`}
+                  </p>
+                </div>
+
+                {location && (
+                  <p className="text-xs text-gray-500">
+                    📍 Ubicación detectada: {location.lat.toFixed(4)}, {location.lng.toFixed(4)}
+                  </p>
+                )}
+
+                <button
+                  type="button"
+                  onClick={handleStaffAccess}
+                  className="w-full bg-red-600 text-white py-3 rounded-lg font-semibold hover:bg-red-700 transition-colors"
+                >
+                  Acceder como personal verificado
+                </button>
+                <button
+                  type="button"
+                  onClick={handleStaffLogout}
+                  className="w-full text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Cerrar sesión institucional
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleStaffLogin} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Correo institucional
+                  </label>
+                  <input
+                    type="email"
+                    required
+                    value={staffForm.email}
+                    onChange={(e) => setStaffForm({ ...staffForm, email: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Contraseña
+                  </label>
+                  <input
+                    type="password"
+                    required
+                    value={staffForm.password}
+                    onChange={(e) => setStaffForm({ ...staffForm, password: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+
+                {staffError && (
+                  <p className="text-sm text-red-600">{staffError}</p>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={staffLoading}
+                  className="w-full bg-gray-900 text-white py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  {staffLoading ? 'Verificando...' : 'Iniciar sesión'}
+                </button>
+              </form>
+            )
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -192,6 +412,7 @@ export default function EmergencyView() {
               Acceder a datos de emergencia
             </button>
           </form>
+          )}
         </div>
       </div>
     );
@@ -248,6 +469,11 @@ export default function EmergencyView() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
             </svg>
             <span className="font-bold text-lg">ACCESO DE EMERGENCIA</span>
+            {emergencyData.accessor?.verified && (
+              <span className="bg-white/20 text-white text-xs px-2 py-1 rounded-full">
+                ✓ {emergencyData.accessor.name}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-4">
             <span className="text-sm">Sesión expira en:</span>
@@ -259,6 +485,17 @@ export default function EmergencyView() {
       </div>
 
       <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {/* Datos restringidos por el paciente */}
+        {emergencyData.disclosure && emergencyData.disclosure.withheld.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+            <p className="text-sm text-yellow-800">
+              <strong>Acceso {emergencyData.disclosure.tier === 'VERIFIED' ? 'verificado' : 'público'}.</strong>{' '}
+              El paciente restringió: {emergencyData.disclosure.withheld.map((field) => EMERGENCY_FIELD_LABELS[field]).join(', ')}.
+              {emergencyData.disclosure.tier === 'PUBLIC' && ' El personal con cuenta institucional puede ver más información.'}
+            </p>
+          </div>
+        )}
+
         {/* Información del paciente */}
         <div className="bg-white rounded-xl shadow-sm overflow-hidden">
           <div className="bg-blue-600 text-white px-6 py-4">
@@ -276,7 +513,7 @@ export default function EmergencyView() {
               <div className="flex-1 grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-sm text-gray-500">Nombre</p>
-                  <p className="text-lg font-semibold">{emergencyData.patient.name}</p>
+                  <p className="text-lg font-semibold">{emergencyData.patient.name || 'Restringido'}</p>
                 </div>
                 <div>
                   <p className="text-sm text-gray-500">Fecha de nacimiento</p>
@@ -304,6 +541,12 @@ export default function EmergencyView() {
           </div>
         </div>
 
+        {/* Interacciones y verificación de medicamentos */}
+        <ClinicalWarningsPanel
+          accessToken={emergencyData.accessToken}
+          warnings={emergencyData.warnings || []}
+        />
+
         {/* Información médica crítica */}
         <div className="grid md:grid-cols-3 gap-4">
           {/* Alergias */}
@@ -320,9 +563,23 @@ export default function EmergencyView() {
               {emergencyData.medicalInfo.allergies.length > 0 ? (
                 <ul className="space-y-2">
                   {emergencyData.medicalInfo.allergies.map((allergy, i) => (
-                    <li key={i} className="flex items-center gap-2 text-orange-700 font-medium">
-                      <span className="w-2 h-2 bg-orange-500 rounded-full"></span>
-                      {allergy}
+                    <li key={i} className="flex items-start gap-2 text-orange-700">
+                      <span className="w-2 h-2 mt-2 bg-orange-500 rounded-full flex-shrink-0"></span>
+                      <div>
+                        <p className="font-medium">
+                          {allergy.name}
+                          {allergy.severity && (
+                            <span className={`ml-2 text-xs px-1.5 py-0.5 rounded ${
+                              allergy.severity === 'SEVERE' ? 'bg-red-600 text-white' : 'bg-orange-100 text-orange-800'
+                            }`}>
+                              {ALLERGY_SEVERITY_LABELS[allergy.severity]}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {[ALLERGEN_CATEGORY_LABELS[allergy.category], allergy.reaction].filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
                     </li>
                   ))}
                 </ul>
@@ -348,7 +605,8 @@ export default function EmergencyView() {
                   {emergencyData.medicalInfo.conditions.map((condition, i) => (
                     <li key={i} className="flex items-center gap-2 text-purple-700">
                       <span className="w-2 h-2 bg-purple-500 rounded-full"></span>
-                      {condition}
+                      {condition.name}
+                      {condition.code && <span className="text-xs font-mono text-gray-500">{condition.code}</span>}
                     </li>
                   ))}
                 </ul>
@@ -372,9 +630,14 @@ export default function EmergencyView() {
               {emergencyData.medicalInfo.medications.length > 0 ? (
                 <ul className="space-y-2">
                   {emergencyData.medicalInfo.medications.map((med, i) => (
-                    <li key={i} className="flex items-center gap-2 text-green-700">
-                      <span className="w-2 h-2 bg-green-500 rounded-full"></span>
-                      {med}
+                    <li key={i} className="flex items-start gap-2 text-green-700">
+                      <span className="w-2 h-2 mt-2 bg-green-500 rounded-full flex-shrink-0"></span>
+                      <div>
+                        <p className="font-medium">{med.name}</p>
+                        {(med.dose || med.frequency) && (
+                          <p className="text-xs text-gray-500">{[med.dose, med.frequency].filter(Boolean).join(' · ')}</p>
+                        )}
+                      </div>
                     </li>
                   ))}
                 </ul>
@@ -499,7 +762,9 @@ export default function EmergencyView() {
               <div>
                 <h3 className="text-lg font-bold">Donación de Órganos</h3>
                 <p className={emergencyData.donation.isDonor ? 'text-teal-600 font-medium' : 'text-gray-500'}>
-                  {emergencyData.donation.isDonor ? '✓ El paciente es donador registrado' : 'No es donador registrado'}
+                  {emergencyData.donation.isDonor === null
+                    ? 'Información restringida'
+                    : emergencyData.donation.isDonor ? '✓ El paciente es donador registrado' : 'No es donador registrado'}
                 </p>
               </div>
             </div>
@@ -1,12 +1,12 @@
 // src/components/pages/Login.tsx
 import { useState, useEffect } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Eye, EyeOff, Mail, Lock, AlertCircle, Fingerprint } from 'lucide-react';
 import { startAuthentication } from '@simplewebauthn/browser';
-import { useAuth } from '../../context/AuthContext';
+import { useAuth, getRedirectPath } from '../../context/AuthContext';
 import { webauthnApi } from '../../services/api';
 import toast from 'react-hot-toast';
 
@@ -25,6 +25,8 @@ export default function Login() {
   const [isWebAuthnSupported, setIsWebAuthnSupported] = useState(false);
   const { login, loginWithTokens } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const redirectTo = getRedirectPath(location.search);
 
   const {
     register,
@@ -75,7 +77,7 @@ export default function Login() {
     try {
       await login(data);
       toast.success('¡Bienvenido de nuevo!');
-      navigate('/dashboard');
+      navigate(redirectTo, { replace: true });
     } catch (error: any) {
       toast.error(error.message || 'Error al iniciar sesión');
     } finally {
@@ -115,7 +117,7 @@ export default function Login() {
       loginWithTokens(user, { accessToken, refreshToken });
 
       toast.success('¡Bienvenido de nuevo!');
-      navigate('/dashboard');
+      navigate(redirectTo, { replace: true });
     } catch (error: any) {
       console.error('Error en login biométrico:', error);
 
@@ -282,7 +284,7 @@ export default function Login() {
       {/* Register link */}
       <p className="mt-8 text-center text-gray-600">
         ¿No tienes cuenta?{' '}
-        <Link to="/register" className="text-vida-600 hover:text-vida-700 font-medium">
+        <Link to={{ pathname: '/register', search: location.search }} className="text-vida-600 hover:text-vida-700 font-medium">
           Regístrate aquí
         </Link>
       </p>
@@ -20,11 +20,33 @@ import {
   ChevronDown
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import type { ProfileForm } from '../../types';
+import { ALLERGEN_CATEGORY_LABELS, ALLERGY_SEVERITY_LABELS } from '../../types';
+import type {
+  ProfileForm,
+  AllergenCategory,
+  AllergySeverity,
+  AllergyEntry,
+  MedicationEntry,
+} from '../../types';
 import BiometricSettings from '../BiometricSettings';
+import CatalogAutocomplete from '../CatalogAutocomplete';
+import EmergencyVisibilitySettings from '../EmergencyVisibilitySettings';
+import FhirDataSettings from '../FhirDataSettings';
 
 const bloodTypes = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
 
+const emptyAllergy: Omit<AllergyEntry, 'name'> = { code: null, category: 'OTHER', severity: null, reaction: null };
+const emptyMedication: Omit<MedicationEntry, 'name'> = { code: null, dose: null, frequency: null };
+
+// Misma clave de duplicado que el backend: código de catálogo o nombre
+const entryKey = (entry: { code: string | null; name: string }) =>
+  entry.code ? `code:${entry.code}` : `name:${entry.name.trim().toLowerCase()}`;
+
+// Agrega la entrada si no está repetida (mismo criterio que el backend)
+function withEntry<T extends { code: string | null; name: string }>(current: T[], entry: T): T[] {
+  return current.some((item) => entryKey(item) === entryKey(entry)) ? current : [...current, entry];
+}
+
 // Etiquetas para tipos de aseguradoras
 const INSURANCE_TYPE_LABELS: Record<string, string> = {
   HEALTH: 'Gastos Médicos',
@@ -39,8 +61,12 @@ export default function Profile() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [newAllergy, setNewAllergy] = useState('');
+  const [allergyDraft, setAllergyDraft] = useState<Omit<AllergyEntry, 'name'>>(emptyAllergy);
   const [newCondition, setNewCondition] = useState('');
+  const [conditionCode, setConditionCode] = useState<string | null>(null);
   const [newMedication, setNewMedication] = useState('');
+  const [medicationDraft, setMedicationDraft] = useState<Omit<MedicationEntry, 'name'>>(emptyMedication);
+  const [medicationStrengths, setMedicationStrengths] = useState<string[]>([]);
   const [insuranceSearch, setInsuranceSearch] = useState('');
   const [showInsuranceDropdown, setShowInsuranceDropdown] = useState(false);
   const [showNetworkModal, setShowNetworkModal] = useState(false);
@@ -124,14 +150,26 @@ export default function Profile() {
     updateMutation.mutate(data);
   };
 
-  const addItem = (field: 'allergies' | 'conditions' | 'medications', value: string, setter: (v: string) => void) => {
-    if (value.trim()) {
-      const current = watch(field) || [];
-      if (!current.includes(value.trim())) {
-        setValue(field, [...current, value.trim()], { shouldDirty: true });
-      }
-      setter('');
-    }
+  const addAllergy = () => {
+    if (!newAllergy.trim()) return;
+    setValue('allergies', withEntry(allergies, { ...allergyDraft, name: newAllergy.trim() }), { shouldDirty: true });
+    setNewAllergy('');
+    setAllergyDraft(emptyAllergy);
+  };
+
+  const addCondition = () => {
+    if (!newCondition.trim()) return;
+    setValue('conditions', withEntry(conditions, { code: conditionCode, name: newCondition.trim() }), { shouldDirty: true });
+    setNewCondition('');
+    setConditionCode(null);
+  };
+
+  const addMedication = () => {
+    if (!newMedication.trim()) return;
+    setValue('medications', withEntry(medications, { ...medicationDraft, name: newMedication.trim() }), { shouldDirty: true });
+    setNewMedication('');
+    setMedicationDraft(emptyMedication);
+    setMedicationStrengths([]);
   };
 
   const removeItem = (field: 'allergies' | 'conditions' | 'medications', index: number) => {
@@ -139,6 +177,34 @@ export default function Profile() {
     setValue(field, current.filter((_, i) => i !== index), { shouldDirty: true });
   };
 
+  // El paciente confirma que su texto corresponde al término sugerido del catálogo;
+  // se conserva lo que escribió como nombre
+  const acceptSuggestion = (field: 'allergies' | 'conditions' | 'medications', index: number) => {
+    const current = watch(field) || [];
+    setValue(
+      field,
+      current.map((item, i) =>
+        i === index && item.suggestion ? { ...item, code: item.suggestion.code, suggestion: undefined } : item
+      ),
+      { shouldDirty: true }
+    );
+  };
+
+  const suggestionButton = (
+    field: 'allergies' | 'conditions' | 'medications',
+    index: number,
+    entry: { code: string | null; suggestion?: { name: string } }
+  ) => !entry.code && entry.suggestion && (
+    <button
+      type="button"
+      onClick={() => acceptSuggestion(field, index)}
+      title="Confirmar que corresponde a este término del catálogo"
+      className="text-xs underline decoration-dotted opacity-80 hover:opacity-100"
+    >
+      ¿{entry.suggestion.name}?
+    </button>
+  );
+
   if (isLoading) {
     return (
       <div className="space-y-6 animate-pulse">
@@ -205,28 +271,74 @@ export default function Profile() {
             Lista de alergias conocidas (medicamentos, alimentos, etc.)
           </p>
           
-          <div className="flex gap-2 mb-4">
-            <input
-              type="text"
+          <div className="flex gap-2 mb-2">
+            <CatalogAutocomplete
+              type="allergens"
               value={newAllergy}
-              onChange={(e) => setNewAllergy(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addItem('allergies', newAllergy, setNewAllergy))}
-              className="input flex-1"
+              onChange={(value) => {
+                setNewAllergy(value);
+                setAllergyDraft((draft) => ({ ...draft, code: null }));
+              }}
+              onSelect={(item) => {
+                setNewAllergy(item.name);
+                setAllergyDraft((draft) => ({ ...draft, code: item.code, category: item.category }));
+              }}
+              onEnter={addAllergy}
               placeholder="Ej: Penicilina, Mariscos..."
             />
             <button
               type="button"
-              onClick={() => addItem('allergies', newAllergy, setNewAllergy)}
+              onClick={addAllergy}
               className="btn-secondary"
             >
               <Plus className="w-5 h-5" />
             </button>
           </div>
+          <div className="grid md:grid-cols-3 gap-2 mb-4">
+            <select
+              value={allergyDraft.category}
+              onChange={(e) => setAllergyDraft({ ...allergyDraft, category: e.target.value as AllergenCategory })}
+              className="input"
+              disabled={!!allergyDraft.code}
+            >
+              {(Object.keys(ALLERGEN_CATEGORY_LABELS) as AllergenCategory[]).map((category) => (
+                <option key={category} value={category}>{ALLERGEN_CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+            <select
+              value={allergyDraft.severity || ''}
+              onChange={(e) => setAllergyDraft({ ...allergyDraft, severity: (e.target.value || null) as AllergySeverity | null })}
+              className="input"
+            >
+              <option value="">Severidad...</option>
+              {(Object.keys(ALLERGY_SEVERITY_LABELS) as AllergySeverity[]).map((severity) => (
+                <option key={severity} value={severity}>{ALLERGY_SEVERITY_LABELS[severity]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={allergyDraft.reaction || ''}
+              onChange={(e) => setAllergyDraft({ ...allergyDraft, reaction: e.target.value || null })}
+              className="input"
+              placeholder="Reacción (ej: urticaria, anafilaxia)"
+              maxLength={200}
+            />
+          </div>
           
           <div className="flex flex-wrap gap-2">
             {allergies.map((allergy, index) => (
-              <span key={index} className="inline-flex items-center gap-1 px-3 py-1.5 bg-coral-100 text-coral-800 rounded-full text-sm">
-                {allergy}
+              <span
+                key={index}
+                title={[ALLERGEN_CATEGORY_LABELS[allergy.category], allergy.reaction].filter(Boolean).join(' · ')}
+                className={`inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-sm ${
+                  allergy.severity === 'SEVERE' ? 'bg-coral-600 text-white' : 'bg-coral-100 text-coral-800'
+                }`}
+              >
+                {allergy.name}
+                {allergy.severity && (
+                  <span className="text-xs opacity-80">({ALLERGY_SEVERITY_LABELS[allergy.severity]})</span>
+                )}
+                {suggestionButton('allergies', index, allergy)}
                 <button
                   type="button"
                   onClick={() => removeItem('allergies', index)}
@@ -253,17 +365,23 @@ export default function Profile() {
           </p>
           
           <div className="flex gap-2 mb-4">
-            <input
-              type="text"
+            <CatalogAutocomplete
+              type="conditions"
               value={newCondition}
-              onChange={(e) => setNewCondition(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addItem('conditions', newCondition, setNewCondition))}
-              className="input flex-1"
+              onChange={(value) => {
+                setNewCondition(value);
+                setConditionCode(null);
+              }}
+              onSelect={(item) => {
+                setNewCondition(item.name);
+                setConditionCode(item.code);
+              }}
+              onEnter={addCondition}
               placeholder="Ej: Diabetes Tipo 2, Hipertensión..."
             />
             <button
               type="button"
-              onClick={() => addItem('conditions', newCondition, setNewCondition)}
+              onClick={addCondition}
               className="btn-secondary"
             >
               <Plus className="w-5 h-5" />
@@ -273,7 +391,9 @@ export default function Profile() {
           <div className="flex flex-wrap gap-2">
             {conditions.map((condition, index) => (
               <span key={index} className="inline-flex items-center gap-1 px-3 py-1.5 bg-vida-100 text-vida-800 rounded-full text-sm">
-                {condition}
+                {condition.name}
+                {condition.code && <span className="text-xs font-mono opacity-70">{condition.code}</span>}
+                {suggestionButton('conditions', index, condition)}
                 <button
                   type="button"
                   onClick={() => removeItem('conditions', index)}
@@ -299,28 +419,66 @@ export default function Profile() {
             Medicamentos que tomas regularmente
           </p>
           
-          <div className="flex gap-2 mb-4">
-            <input
-              type="text"
+          <div className="flex gap-2 mb-2">
+            <CatalogAutocomplete
+              type="medications"
               value={newMedication}
-              onChange={(e) => setNewMedication(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addItem('medications', newMedication, setNewMedication))}
-              className="input flex-1"
-              placeholder="Ej: Metformina 500mg, Losartán 50mg..."
+              onChange={(value) => {
+                setNewMedication(value);
+                setMedicationDraft((draft) => ({ ...draft, code: null }));
+                setMedicationStrengths([]);
+              }}
+              onSelect={(item) => {
+                setNewMedication(item.name);
+                setMedicationDraft((draft) => ({ ...draft, code: item.code }));
+                setMedicationStrengths(item.strengths);
+              }}
+              onEnter={addMedication}
+              placeholder="Ej: Metformina, Losartán..."
             />
             <button
               type="button"
-              onClick={() => addItem('medications', newMedication, setNewMedication)}
+              onClick={addMedication}
               className="btn-secondary"
             >
               <Plus className="w-5 h-5" />
             </button>
           </div>
+          <div className="grid md:grid-cols-2 gap-2 mb-4">
+            <input
+              type="text"
+              list="medication-strengths"
+              value={medicationDraft.dose || ''}
+              onChange={(e) => setMedicationDraft({ ...medicationDraft, dose: e.target.value || null })}
+              className="input"
+              placeholder="Dosis (ej: 850 mg)"
+              maxLength={100}
+            />
+            <datalist id="medication-strengths">
+              {medicationStrengths.map((strength) => (
+                <option key={strength} value={strength} />
+              ))}
+            </datalist>
+            <input
+              type="text"
+              value={medicationDraft.frequency || ''}
+              onChange={(e) => setMedicationDraft({ ...medicationDraft, frequency: e.target.value || null })}
+              className="input"
+              placeholder="Frecuencia (ej: cada 12 horas)"
+              maxLength={100}
+            />
+          </div>
           
           <div className="flex flex-wrap gap-2">
             {medications.map((medication, index) => (
               <span key={index} className="inline-flex items-center gap-1 px-3 py-1.5 bg-salud-100 text-salud-800 rounded-full text-sm">
-                {medication}
+                {medication.name}
+                {(medication.dose || medication.frequency) && (
+                  <span className="text-xs opacity-80">
+                    {[medication.dose, medication.frequency].filter(Boolean).join(' · ')}
+                  </span>
+                )}
+                {suggestionButton('medications', index, medication)}
                 <button
                   type="button"
                   onClick={() => removeItem('medications', index)}
@@ -577,6 +735,19 @@ export default function Profile() {
         </div>
       </form>
 
+      {/* Visibilidad en emergencias - se guarda por campo, fuera del form */}
+      <EmergencyVisibilitySettings
+        onError={(error) => toast.error(error)}
+        onSuccess={(message) => toast.success(message)}
+      />
+
+      {/* Exportación/importación FHIR - al importar se recarga el perfil */}
+      <FhirDataSettings
+        onError={(error) => toast.error(error)}
+        onSuccess={(message) => toast.success(message)}
+        onImported={() => queryClient.invalidateQueries({ queryKey: ['profile'] })}
+      />
+
       {/* Autenticación Biométrica - fuera del form porque tiene su propia lógica */}
       <BiometricSettings
         onError={(error) => toast.error(error)}
@@ -1,11 +1,11 @@
 // src/components/pages/Register.tsx
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Eye, EyeOff, Mail, Lock, User, Phone, Calendar, AlertCircle, CheckCircle } from 'lucide-react';
-import { useAuth } from '../../context/AuthContext';
+import { useAuth, getRedirectPath } from '../../context/AuthContext';
 import toast from 'react-hot-toast';
 
 const registerSchema = z.object({
@@ -41,6 +41,8 @@ export default function Register() {
   const [isLoading, setIsLoading] = useState(false);
   const { register: registerUser } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const redirectTo = getRedirectPath(location.search);
 
   const {
     register,
@@ -64,7 +66,7 @@ export default function Register() {
         phone: data.phone,
       });
       toast.success('¡Cuenta creada exitosamente!');
-      navigate('/dashboard');
+      navigate(redirectTo, { replace: true });
     } catch (error: any) {
       toast.error(error.message || 'Error al crear la cuenta');
     } finally {
@@ -287,7 +289,7 @@ export default function Register() {
       {/* Login link */}
       <p className="mt-6 text-center text-gray-600">
         ¿Ya tienes cuenta?{' '}
-        <Link to="/login" className="text-vida-600 hover:text-vida-700 font-medium">
+        <Link to={{ pathname: '/login', search: location.search }} className="text-vida-600 hover:text-vida-700 font-medium">
           Inicia sesión
         </Link>
       </p>
@@ -0,0 +1,332 @@
+// src/components/pages/RepresentativePortal.tsx
+import { useState, useEffect, useCallback } from 'react';
+import { representativePortalApi } from '../../services/api';
+import { useWebSocket, PanicLocationUpdate } from '../../hooks/useWebSocket';
+import EmergencyMap from '../maps/EmergencyMap';
+import type { PanicLocationTrail, RepresentedPatient } from '../../types';
+
+const relationLabels: Record<string, string> = {
+  LEGAL_REPRESENTATIVE: 'Apoderado Legal',
+  SPOUSE: 'Cónyuge',
+  PARENT: 'Padre/Madre',
+  CHILD: 'Hijo(a)',
+  SIBLING: 'Hermano(a)',
+  GRANDPARENT: 'Abuelo(a)',
+  FRIEND: 'Amigo(a)',
+  OTHER: 'Otro',
+};
+
+const roleLabels: Record<string, string> = {
+  DOCTOR: 'Medico',
+  PARAMEDIC: 'Paramedico',
+  NURSE: 'Enfermero(a)',
+  EMERGENCY_TECH: 'Tecnico en urgencias',
+  OTHER: 'Otro personal de salud',
+};
+
+const ACK_CHANNEL_LABELS: Record<string, string> = {
+  PORTAL: 'portal',
+  SOCKET: 'app',
+  SMS: 'SMS',
+  OPERATOR: 'operador VIDA',
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('es-MX', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function RepresentativePortal() {
+  const [patients, setPatients] = useState<RepresentedPatient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  // Trayectos en vivo de las alertas que el representante confirmó
+  const [trails, setTrails] = useState<Record<string, PanicLocationTrail>>({});
+
+  const loadPatients = useCallback(async () => {
+    try {
+      const res = await representativePortalApi.list();
+      if (res.success && res.data) {
+        setPatients(res.data.patients);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error al cargar el portal');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const handlePanicLocation = useCallback((data: PanicLocationUpdate) => {
+    setTrails((current) => {
+      const trail = current[data.alertId];
+      if (!trail) return current;
+      return {
+        ...current,
+        [data.alertId]: {
+          ...trail,
+          points: [...trail.points, data.point],
+          nearbyHospitals: data.nearbyHospitals || trail.nearbyHospitals,
+          lastLocationAt: data.point.recordedAt,
+        },
+      };
+    });
+  }, []);
+
+  // Las alertas de los pacientes representados llegan por su sala de representante
+  const { isConnected } = useWebSocket({
+    onPanicAlert: loadPatients,
+    onPanicCancelled: loadPatients,
+    onQRAccessAlert: loadPatients,
+    onPanicAcknowledged: loadPatients,
+    onPanicEscalated: loadPatients,
+    onPanicLocation: handlePanicLocation,
+  });
+
+  useEffect(() => {
+    loadPatients();
+  }, [loadPatients]);
+
+  // Cargar el trayecto de cada alerta activa que el representante ya confirmó
+  useEffect(() => {
+    const acknowledgedAlertIds = patients.flatMap((item) =>
+      item.activePanicAlerts
+        .filter((alert) => alert.acknowledgements?.some((ack) => ack.representativeId === item.representativeId))
+        .map((alert) => alert.id)
+    );
+
+    acknowledgedAlertIds
+      .filter((alertId) => !trails[alertId])
+      .forEach(async (alertId) => {
+        try {
+          const res = await representativePortalApi.getAlertTrail(alertId);
+          if (res.success && res.data) {
+            const trail = res.data;
+            setTrails((current) => ({ ...current, [alertId]: trail }));
+          }
+        } catch (err) {
+          console.error('Error cargando trayecto de la alerta:', err);
+        }
+      });
+  }, [patients]);
+
+  const handleAcknowledge = async (alertId: string) => {
+    try {
+      setAcknowledgingId(alertId);
+      await representativePortalApi.acknowledgeAlert(alertId);
+      loadPatients();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error al confirmar la alerta');
+    } finally {
+      setAcknowledgingId(null);
+    }
+  };
+
+  const handleLeave = async (patient: RepresentedPatient) => {
+    if (!confirm(`¿Renunciar a ser representante de ${patient.patient.name}?`)) return;
+
+    try {
+      await representativePortalApi.leave(patient.representativeId);
+      loadPatients();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error al renunciar a la designación');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-vida-200 border-t-vida-600 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Cargando portal...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Portal de Representante</h1>
+          <p className="text-gray-600 mt-1">
+            Personas que te designaron como representante y cuya designación aceptaste
+          </p>
+        </div>
+        <span
+          className={`px-2 py-1 text-xs rounded-full ${
+            isConnected ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {isConnected ? 'En vivo' : 'Sin conexión en vivo'}
+        </span>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+          <button onClick={() => setError('')} className="float-right">&times;</button>
+        </div>
+      )}
+
+      {patients.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Aún no representas a nadie</h3>
+          <p className="text-gray-500">
+            Cuando alguien te designe como representante recibirás una invitación por SMS o correo.
+          </p>
+        </div>
+      ) : (
+        patients.map((item) => (
+          <div key={item.representativeId} className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{item.patient.name}</h2>
+                <p className="text-sm text-gray-500">
+                  {relationLabels[item.relation] || item.relation} · Prioridad {item.priority}
+                  {item.acceptedAt && <> · Aceptada el {new Date(item.acceptedAt).toLocaleDateString('es-MX')}</>}
+                </p>
+              </div>
+              <button
+                onClick={() => handleLeave(item)}
+                className="text-sm text-gray-500 hover:text-red-600"
+              >
+                Renunciar
+              </button>
+            </div>
+
+            {/* Alertas de pánico activas */}
+            {item.activePanicAlerts.length > 0 && (
+              <div className="p-6 bg-red-50 border-b border-red-100 space-y-3">
+                <h3 className="font-semibold text-red-700">Alertas de pánico activas</h3>
+                {item.activePanicAlerts.map((alert) => {
+                  const trail = trails[alert.id];
+                  const lastPoint = trail?.points[trail.points.length - 1];
+                  const current = lastPoint || alert;
+
+                  return (
+                    <div key={alert.id} className="bg-white rounded-lg p-4 border border-red-200">
+                      <p className="text-sm text-gray-900">
+                        {alert.message || 'Alerta de emergencia'} · {formatDateTime(alert.createdAt)}
+                      </p>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {alert.locationName || `${alert.latitude.toFixed(5)}, ${alert.longitude.toFixed(5)}`}
+                      </p>
+                      {alert.acknowledgements && alert.acknowledgements.length > 0 ? (
+                        <p className="text-sm text-green-700 mt-2">
+                          Atendida por{' '}
+                          {alert.acknowledgements
+                            .map((ack) => `${ack.name} (${ACK_CHANNEL_LABELS[ack.channel] || ack.channel})`)
+                            .join(', ')}
+                        </p>
+                      ) : (
+                        <p className="text-sm text-red-700 mt-2">
+                          {alert.operatorQueuedAt
+                            ? 'Nadie ha confirmado: la alerta pasó a los operadores de VIDA'
+                            : 'Nadie ha confirmado todavía. Si no se confirma se avisará al siguiente representante.'}
+                        </p>
+                      )}
+                      {trail && lastPoint && (
+                        <div className="mt-3">
+                          <p className="text-xs text-gray-500 mb-2">
+                            Ubicación en vivo · actualizada {formatDateTime(trail.lastLocationAt)}
+                          </p>
+                          <EmergencyMap
+                            userLocation={{ lat: lastPoint.latitude, lng: lastPoint.longitude }}
+                            hospitals={trail.nearbyHospitals}
+                            trail={trail.points.map((point) => ({ lat: point.latitude, lng: point.longitude }))}
+                            locationLabel={item.patient.name}
+                            showRadius={false}
+                            height="250px"
+                          />
+                        </div>
+                      )}
+                      <div className="mt-3 flex flex-wrap items-center gap-4">
+                        {!alert.acknowledgements?.some((ack) => ack.representativeId === item.representativeId) && (
+                          <button
+                            onClick={() => handleAcknowledge(alert.id)}
+                            disabled={acknowledgingId === alert.id}
+                            className="px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                          >
+                            {acknowledgingId === alert.id ? 'Confirmando...' : 'Confirmo que atiendo'}
+                          </button>
+                        )}
+                        <a
+                          href={`https://www.google.com/maps?q=${current.latitude},${current.longitude}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-red-700 font-medium hover:underline"
+                        >
+                          Ver ubicación en el mapa
+                        </a>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Deberes de vocero de donación */}
+            {item.donorSpokesperson && (
+              <div className="p-6 border-b border-gray-100">
+                <h3 className="font-semibold text-gray-900 mb-2">Vocero de donación</h3>
+                {!item.donorSpokesperson.isDonor ? (
+                  <p className="text-sm text-gray-600">{item.patient.name} no está registrado(a) como donante.</p>
+                ) : (
+                  <div className="text-sm text-gray-700 space-y-1">
+                    <p>{item.patient.name} es donante. Deberás comunicar su voluntad al equipo médico.</p>
+                    {item.donorSpokesperson.preferences && (
+                      <>
+                        {item.donorSpokesperson.preferences.organs.length > 0 && (
+                          <p>Órganos: {item.donorSpokesperson.preferences.organs.join(', ')}</p>
+                        )}
+                        {item.donorSpokesperson.preferences.tissues.length > 0 && (
+                          <p>Tejidos: {item.donorSpokesperson.preferences.tissues.join(', ')}</p>
+                        )}
+                        <p>
+                          Donación para investigación:{' '}
+                          {item.donorSpokesperson.preferences.forResearch ? 'Sí' : 'No'}
+                        </p>
+                        {item.donorSpokesperson.preferences.restrictions && (
+                          <p>Restricciones: {item.donorSpokesperson.preferences.restrictions}</p>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Accesos de emergencia recientes */}
+            <div className="p-6">
+              <h3 className="font-semibold text-gray-900 mb-3">Accesos de emergencia recientes</h3>
+              {item.recentAccesses.length === 0 ? (
+                <p className="text-sm text-gray-500">Sin accesos registrados.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {item.recentAccesses.map((access) => (
+                    <li key={access.id} className="py-2 flex items-center justify-between text-sm">
+                      <div>
+                        <p className="text-gray-900">
+                          {access.accessorName} · {roleLabels[access.accessorRole] || access.accessorRole}
+                        </p>
+                        {(access.institutionName || access.locationName) && (
+                          <p className="text-gray-500">{access.institutionName || access.locationName}</p>
+                        )}
+                      </div>
+                      <span className="text-gray-500">{formatDateTime(access.accessedAt)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
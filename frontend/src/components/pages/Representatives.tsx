@@ -1,7 +1,9 @@
 // src/components/pages/Representatives.tsx
 import { useState, useEffect } from 'react';
-import { representativesApi } from '../../services/api';
-import type { Representative, CreateRepresentativeInput } from '../../types';
+import { representativesApi, getEntitlementError, EntitlementError } from '../../services/api';
+import { usePremium } from '../../hooks/usePremium';
+import { EntitlementNotice, LimitIndicator } from '../subscription/FeatureGate';
+import type { Representative, RepresentativeStatus, CreateRepresentativeInput } from '../../types';
 
 const relationOptions = [
   { value: 'LEGAL_REPRESENTATIVE', label: 'Apoderado Legal' },
@@ -14,6 +16,12 @@ const relationOptions = [
   { value: 'OTHER', label: 'Otro' },
 ];
 
+const statusBadges: Record<RepresentativeStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Invitación pendiente', className: 'bg-yellow-100 text-yellow-700' },
+  ACCEPTED: { label: 'Aceptó la designación', className: 'bg-green-100 text-green-700' },
+  DECLINED: { label: 'Rechazó la designación', className: 'bg-red-100 text-red-700' },
+};
+
 export default function Representatives() {
   const [representatives, setRepresentatives] = useState<Representative[]>([]);
   const [loading, setLoading] = useState(true);
@@ -21,6 +29,10 @@ export default function Representatives() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [invitingId, setInvitingId] = useState<string | null>(null);
+  const [entitlementError, setEntitlementError] = useState<EntitlementError | null>(null);
+  const { canCreateMore, getLimit, refresh: refreshPremium } = usePremium();
 
   const emptyForm: CreateRepresentativeInput = {
     name: '',
@@ -86,7 +98,15 @@ export default function Representatives() {
       setShowModal(false);
       loadRepresentatives();
     } catch (err: any) {
-      setError(err.response?.data?.error?.message || 'Error guardando representante');
+      const planError = getEntitlementError(err);
+      if (planError) {
+        // El plan cambió desde que se cargó la página
+        setShowModal(false);
+        setEntitlementError(planError);
+        refreshPremium();
+      } else {
+        setError(err.response?.data?.error?.message || 'Error guardando representante');
+      }
     } finally {
       setSaving(false);
     }
@@ -112,6 +132,26 @@ export default function Representatives() {
     }
   };
 
+  const handleInvite = async (id: string) => {
+    try {
+      setInvitingId(id);
+      const res = await representativesApi.invite(id);
+      if (res.success && res.data) {
+        const { smsStatus, emailStatus } = res.data.delivery;
+        setNotice(
+          smsStatus === 'sent' || emailStatus === 'sent'
+            ? 'Invitación enviada'
+            : 'La invitación se generó pero no pudo entregarse; verifica el teléfono y el correo'
+        );
+        loadRepresentatives();
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Error enviando invitación');
+    } finally {
+      setInvitingId(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -131,18 +171,34 @@ export default function Representatives() {
               Personas que pueden tomar decisiones médicas en tu nombre
             </p>
           </div>
-          <button
-            onClick={handleOpenCreate}
-            disabled={representatives.length >= 5}
-            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Agregar
-          </button>
+          <div className="flex items-center gap-3">
+            <LimitIndicator limit="representativesLimit" currentCount={representatives.length} />
+            <button
+              onClick={handleOpenCreate}
+              disabled={!canCreateMore('representativesLimit', representatives.length)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Agregar
+            </button>
+          </div>
         </div>
 
+        {entitlementError && (
+          <div className="mb-6">
+            <EntitlementNotice error={entitlementError} />
+          </div>
+        )}
+
+        {representatives.some((rep) => rep.suspendedByPlan) && (
+          <div className="mb-6 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+            Tu plan permite {getLimit('representativesLimit')} representantes. Los marcados como suspendidos
+            se conservan, pero no reciben notificaciones hasta que elimines otros, los reordenes o actualices tu plan.
+          </div>
+        )}
+
         {error && (
           <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
             {error}
@@ -150,6 +206,13 @@ export default function Representatives() {
           </div>
         )}
 
+        {notice && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+            {notice}
+            <button onClick={() => setNotice('')} className="float-right">&times;</button>
+          </div>
+        )}
+
         {/* Info banner */}
         <div className="mb-6 bg-blue-50 border border-blue-200 rounded-xl p-4">
           <div className="flex gap-3">
@@ -159,7 +222,11 @@ export default function Representatives() {
             <div>
               <p className="text-sm text-blue-800">
                 Los representantes serán notificados automáticamente cuando alguien acceda a tu 
-                información médica en una emergencia. Puedes designar hasta 5 representantes.
+                información médica en una emergencia.
+              </p>
+              <p className="text-sm text-blue-800 mt-2">
+                Cada representante recibe una invitación para confirmar su teléfono o correo y vincular
+                su cuenta VIDA. Hasta que la acepte, sus notificaciones se marcan como no confirmadas.
               </p>
             </div>
           </div>
@@ -215,6 +282,14 @@ export default function Representatives() {
                       </div>
 
                       <div className="mt-3 flex flex-wrap gap-2">
+                        <span className={`px-2 py-1 text-xs rounded-full ${statusBadges[rep.status].className}`}>
+                          {statusBadges[rep.status].label}
+                        </span>
+                        {rep.suspendedByPlan && (
+                          <span className="px-2 py-1 bg-amber-100 text-amber-800 text-xs rounded-full">
+                            Suspendido por límite del plan
+                          </span>
+                        )}
                         {rep.notifyOnEmergency && (
                           <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded-full">
                             Notificar en emergencia
@@ -235,6 +310,18 @@ export default function Representatives() {
                   </div>
 
                   <div className="flex gap-2">
+                    {rep.status !== 'ACCEPTED' && (
+                      <button
+                        onClick={() => handleInvite(rep.id)}
+                        disabled={invitingId === rep.id}
+                        title={rep.invitedAt ? 'Reenviar invitación' : 'Enviar invitación'}
+                        className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                        </svg>
+                      </button>
+                    )}
                     {!rep.isDonorSpokesperson && (
                       <button
                         onClick={() => handleSetDonorSpokesperson(rep.id)}
@@ -2,8 +2,9 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useSubscription, usePaymentHistory, useInvoices } from '../../hooks/useSubscription';
-import { usePremium } from '../../hooks/usePremium';
+import { usePremium, useLimitUsage } from '../../hooks/usePremium';
 import { TrialExpiringBanner, CancellingBanner } from '../subscription/UpgradePrompt';
+import { LimitUsageReadout } from '../subscription/FeatureGate';
 import type { Payment, Invoice } from '../../services/api';
 
 export default function Subscription() {
@@ -11,6 +12,8 @@ export default function Subscription() {
   const { status, isPremium, isInTrial } = usePremium();
   const { payments, loading: loadingPayments } = usePaymentHistory(5);
   const { invoices, loading: loadingInvoices, generate: generateInvoice } = useInvoices(5);
+  const { usage: representativesUsage } = useLimitUsage('representativesLimit');
+  const { usage: qrDownloadsUsage } = useLimitUsage('qrDownloadsPerMonth');
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [cancelReason, setCancelReason] = useState('');
   const [cancelling, setCancelling] = useState(false);
@@ -218,19 +221,25 @@ export default function Subscription() {
               <svg className="w-5 h-5 text-green-500 mr-3" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
               </svg>
-              <span className="text-gray-900">
-                Hasta {status?.limits.representativesLimit} representantes
-              </span>
+              <div>
+                <span className="text-gray-900">
+                  Hasta {status?.limits.representativesLimit} representantes
+                </span>
+                {representativesUsage && <LimitUsageReadout usage={representativesUsage} className="block" />}
+              </div>
             </div>
             <div className="flex items-center">
               <svg className="w-5 h-5 text-green-500 mr-3" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
               </svg>
-              <span className="text-gray-900">
-                {status?.limits.qrDownloadsPerMonth === 0
-                  ? 'Descargas QR ilimitadas'
-                  : `${status?.limits.qrDownloadsPerMonth} descargas QR/mes`}
-              </span>
+              <div>
+                <span className="text-gray-900">
+                  {status?.limits.qrDownloadsPerMonth === 0
+                    ? 'Descargas QR ilimitadas'
+                    : `${status?.limits.qrDownloadsPerMonth} descargas QR/mes`}
+                </span>
+                {qrDownloadsUsage && <LimitUsageReadout usage={qrDownloadsUsage} className="block" />}
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,197 @@
+// src/components/pages/VerifyDirective.tsx
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { directiveVerificationApi } from '../../services/api';
+import type { DirectiveVerification } from '../../types';
+
+const statusConfig: Record<DirectiveVerification['status'], { label: string; description: string; className: string }> = {
+  ACTIVE: {
+    label: 'Vigente',
+    description: 'La directiva es auténtica y se encuentra activa.',
+    className: 'bg-green-50 border-green-200 text-green-800',
+  },
+  REVOKED: {
+    label: 'Revocada',
+    description: 'El otorgante revocó esta directiva. No debe aplicarse.',
+    className: 'bg-red-50 border-red-200 text-red-800',
+  },
+  EXPIRED: {
+    label: 'Expirada',
+    description: 'La vigencia de esta directiva terminó.',
+    className: 'bg-gray-50 border-gray-200 text-gray-700',
+  },
+  PENDING_VALIDATION: {
+    label: 'Pendiente de validación',
+    description: 'La directiva existe pero aún no ha sido validada.',
+    className: 'bg-yellow-50 border-yellow-200 text-yellow-800',
+  },
+};
+
+const typeLabels: Record<DirectiveVerification['type'], string> = {
+  DIGITAL_DRAFT: 'Digital',
+  DIGITAL_WITNESSED: 'Digital con testigos',
+  NOTARIZED_DOCUMENT: 'Documento notarial',
+};
+
+const formatDate = (date: string | null) =>
+  date
+    ? new Date(date).toLocaleDateString('es-MX', { year: 'numeric', month: 'long', day: 'numeric' })
+    : '—';
+
+export default function VerifyDirective() {
+  const { identifier } = useParams<{ identifier: string }>();
+  const navigate = useNavigate();
+
+  const [input, setInput] = useState(identifier || '');
+  const [verification, setVerification] = useState<DirectiveVerification | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (identifier) {
+      verify(identifier);
+    }
+  }, [identifier]);
+
+  const verify = async (value: string) => {
+    try {
+      setLoading(true);
+      setError('');
+      setVerification(null);
+      const response = await directiveVerificationApi.verify(value.trim());
+      if (response.success && response.data) {
+        setVerification(response.data.verification);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'No se pudo verificar la directiva');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) {
+      navigate(`/verificar-directiva/${encodeURIComponent(input.trim())}`);
+    }
+  };
+
+  const status = verification ? statusConfig[verification.status] : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h1 className="text-2xl font-bold text-gray-900">Verificar voluntad anticipada</h1>
+          <p className="mt-2 text-gray-600">
+            Ingresa el código de verificación o el hash SHA-256 impreso en el documento.
+          </p>
+
+          <form onSubmit={handleSubmit} className="mt-6 flex gap-3">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="XXXX-XXXX-XXXX"
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={loading || !input.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Verificar
+            </button>
+          </form>
+
+          {loading && (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {error && (
+            <div className="mt-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {verification && status && (
+            <div className="mt-6 space-y-4">
+              <div className={`border rounded-lg p-4 ${status.className}`}>
+                <p className="text-lg font-semibold">{status.label}</p>
+                <p className="text-sm">{status.description}</p>
+              </div>
+
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+                <dt className="text-gray-500">Tipo</dt>
+                <dd className="text-gray-900">{typeLabels[verification.type]}</dd>
+                <dt className="text-gray-500">Estado de origen</dt>
+                <dd className="text-gray-900">
+                  {verification.originState ? verification.originState.name || verification.originState.code : '—'}
+                </dd>
+                <dt className="text-gray-500">Validada</dt>
+                <dd className="text-gray-900">{formatDate(verification.validatedAt)}</dd>
+                {verification.revokedAt && (
+                  <>
+                    <dt className="text-gray-500">Revocada</dt>
+                    <dd className="text-gray-900">{formatDate(verification.revokedAt)}</dd>
+                  </>
+                )}
+                {verification.expiresAt && (
+                  <>
+                    <dt className="text-gray-500">Vigencia</dt>
+                    <dd className="text-gray-900">{formatDate(verification.expiresAt)}</dd>
+                  </>
+                )}
+              </dl>
+
+              <div className="border-t border-gray-100 pt-4">
+                <h2 className="font-medium text-gray-900 mb-2">Constancia NOM-151</h2>
+                {verification.nom151.sealed ? (
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+                    <dt className="text-gray-500">Fecha del sello</dt>
+                    <dd className="text-gray-900">{formatDate(verification.nom151.sealedAt)}</dd>
+                    <dt className="text-gray-500">Proveedor</dt>
+                    <dd className="text-gray-900">{verification.nom151.provider || '—'}</dd>
+                    {verification.nom151.serialNumber && (
+                      <>
+                        <dt className="text-gray-500">Número de serie</dt>
+                        <dd className="text-gray-900 font-mono break-all">{verification.nom151.serialNumber}</dd>
+                      </>
+                    )}
+                    <dt className="text-gray-500">Firma del PSC</dt>
+                    <dd className={verification.nom151.signatureValid ? 'text-green-700' : 'text-red-700'}>
+                      {verification.nom151.signatureValid ? 'Válida' : 'No verificable'}
+                    </dd>
+                    {verification.nom151.legallyValid === false && (
+                      <>
+                        <dt className="text-gray-500">Validez legal</dt>
+                        <dd className="text-red-700">Constancia de prueba, sin validez legal</dd>
+                      </>
+                    )}
+                    {verification.nom151.coversDocument !== null && (
+                      <>
+                        <dt className="text-gray-500">Ampara el documento</dt>
+                        <dd className={verification.nom151.coversDocument ? 'text-green-700' : 'text-red-700'}>
+                          {verification.nom151.coversDocument ? 'Sí' : 'No'}
+                        </dd>
+                      </>
+                    )}
+                  </dl>
+                ) : (
+                  <p className="text-sm text-gray-500">La directiva no cuenta con constancia de conservación.</p>
+                )}
+              </div>
+
+              <p className="text-xs text-gray-400">
+                Consulta registrada el {new Date(verification.verifiedAt).toLocaleString('es-MX')}.
+                Esta verificación no muestra información médica del otorgante.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
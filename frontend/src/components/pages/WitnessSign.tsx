@@ -0,0 +1,245 @@
+// src/components/pages/WitnessSign.tsx
+import { useState, useEffect, useRef } from 'react';
+import { useParams } from 'react-router-dom';
+import { witnessesApi } from '../../services/api';
+import type { WitnessInvitation } from '../../types';
+
+export default function WitnessSign() {
+  const { token } = useParams<{ token: string }>();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  const [invitation, setInvitation] = useState<WitnessInvitation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [name, setName] = useState('');
+  const [curp, setCurp] = useState('');
+  const [acceptsStatement, setAcceptsStatement] = useState(false);
+  const [hasSignature, setHasSignature] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<{ directiveActivated: boolean } | null>(null);
+
+  useEffect(() => {
+    loadInvitation();
+  }, [token]);
+
+  const loadInvitation = async () => {
+    try {
+      setLoading(true);
+      const response = await witnessesApi.getInvitation(token!);
+      if (response.success && response.data) {
+        setInvitation(response.data.invitation);
+        setName(response.data.invitation.witnessName);
+      }
+    } catch (err: any) {
+      setLoadError(err.response?.data?.error?.message || 'No se pudo cargar la invitación');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = '#111827';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasSignature(true);
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+  };
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!hasSignature || !canvasRef.current) {
+      setError('Dibuja tu firma en el recuadro');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await witnessesApi.sign(token!, {
+        name,
+        curp: curp.toUpperCase(),
+        signatureImage: canvasRef.current.toDataURL('image/png'),
+        acceptsStatement,
+      });
+      if (response.success && response.data) {
+        setResult({ directiveActivated: response.data.directiveActivated });
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.response?.data?.errors?.[0]?.msg || 'Error registrando la firma');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (loadError || !invitation) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-sm p-8 max-w-md text-center">
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Invitación no disponible</h1>
+          <p className="text-gray-600">{loadError || 'La invitación no existe.'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (result) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-sm p-8 max-w-md text-center">
+          <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Firma registrada</h1>
+          <p className="text-gray-600">
+            Gracias por participar como testigo de la voluntad anticipada de {invitation.patientName}.
+            {result.directiveActivated && ' Con tu firma el documento quedó activo.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h1 className="text-2xl font-bold text-gray-900">Firma como testigo</h1>
+          <p className="mt-2 text-gray-600">
+            <strong>{invitation.patientName}</strong> te designó como testigo de su voluntad anticipada
+            {invitation.state && <> conforme a la legislación de <strong>{invitation.state}</strong></>}.
+          </p>
+          {invitation.lawName && (
+            <p className="mt-1 text-sm text-gray-500">{invitation.lawName}</p>
+          )}
+          <p className="mt-1 text-sm text-gray-500">
+            El enlace vence el {new Date(invitation.inviteExpires).toLocaleDateString('es-MX', {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })}
+          </p>
+
+          {error && (
+            <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Nombre completo</label>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">CURP</label>
+              <input
+                type="text"
+                required
+                maxLength={18}
+                value={curp}
+                onChange={(e) => setCurp(e.target.value.toUpperCase())}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {invitation.curpRegistered && (
+                <p className="mt-1 text-xs text-gray-500">Debe coincidir con el CURP registrado en la invitación.</p>
+              )}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">Firma</label>
+                <button type="button" onClick={clearSignature} className="text-sm text-blue-600 hover:underline">
+                  Limpiar
+                </button>
+              </div>
+              <canvas
+                ref={canvasRef}
+                width={500}
+                height={180}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+                className="w-full h-44 border-2 border-dashed border-gray-300 rounded-lg bg-white touch-none"
+              />
+            </div>
+
+            <label className="flex items-start gap-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={acceptsStatement}
+                onChange={(e) => setAcceptsStatement(e.target.checked)}
+                className="mt-1 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <span>
+                Declaro que conozco a {invitation.patientName}, que actúa por voluntad propia y en pleno uso de
+                sus facultades, y que los datos que proporciono son verídicos.
+              </span>
+            </label>
+
+            <button
+              type="submit"
+              disabled={submitting || !acceptsStatement}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Registrando...' : 'Firmar como testigo'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
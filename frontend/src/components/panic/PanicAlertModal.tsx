@@ -21,14 +21,25 @@ interface PanicAlertResult {
   representativesNotified: Array<{
     name: string;
     phone: string;
-    status: 'sent' | 'failed';
+    confirmed: boolean;
+    smsStatus: 'sent' | 'failed' | 'skipped';
+    emailStatus: 'sent' | 'failed' | 'skipped';
   }>;
+  escalation?: {
+    level: number;
+    operatorQueued: boolean;
+    escalationMinutes: number;
+  };
   createdAt: string;
 }
 
 interface PanicAlertModalProps {
   result: PanicAlertResult;
   userLocation: { lat: number; lng: number };
+  trail?: Array<{ lat: number; lng: number }>;
+  nearbyHospitals?: Hospital[]; // Recalculados al desplazarse; por defecto los de la activacion
+  isSharingLocation?: boolean;
+  locationError?: string | null;
   onClose: () => void;
   onCancel?: (alertId: string) => void;
 }
@@ -36,10 +47,15 @@ interface PanicAlertModalProps {
 export default function PanicAlertModal({
   result,
   userLocation,
+  trail = [],
+  nearbyHospitals,
+  isSharingLocation = false,
+  locationError,
   onClose,
   onCancel,
 }: PanicAlertModalProps) {
   const [isCancelling, setIsCancelling] = useState(false);
+  const hospitals = nearbyHospitals ?? result.nearbyHospitals;
 
   const handleCancel = async () => {
     if (!onCancel) return;
@@ -54,7 +70,10 @@ export default function PanicAlertModal({
     }
   };
 
-  const successCount = result.representativesNotified.filter((r) => r.status === 'sent').length;
+  const wasSent = (rep: PanicAlertResult['representativesNotified'][number]) =>
+    rep.smsStatus === 'sent' || rep.emailStatus === 'sent';
+
+  const successCount = result.representativesNotified.filter(wasSent).length;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 overflow-y-auto">
@@ -89,14 +108,17 @@ export default function PanicAlertModal({
                 <div
                   key={i}
                   className={`flex items-center justify-between p-3 rounded-lg ${
-                    rep.status === 'sent' ? 'bg-green-50' : 'bg-red-50'
+                    wasSent(rep) ? 'bg-green-50' : 'bg-red-50'
                   }`}
                 >
                   <div>
                     <p className="font-medium text-gray-900">{rep.name}</p>
                     <p className="text-sm text-gray-500">{rep.phone}</p>
+                    {!rep.confirmed && (
+                      <p className="text-xs text-yellow-700">No ha confirmado su designación</p>
+                    )}
                   </div>
-                  {rep.status === 'sent' ? (
+                  {wasSent(rep) ? (
                     <span className="text-green-600 flex items-center gap-1">
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -114,10 +136,17 @@ export default function PanicAlertModal({
                 </div>
               ))}
             </div>
+            {result.escalation && (
+              <p className="mt-3 text-sm text-gray-600">
+                {result.escalation.operatorQueued
+                  ? 'No tienes representantes a quien avisar: un operador de VIDA atenderá tu alerta.'
+                  : `Si nadie confirma en ${result.escalation.escalationMinutes} minutos avisaremos a tu siguiente representante y, al final, a un operador de VIDA.`}
+              </p>
+            )}
           </div>
 
           {/* Map with nearby hospitals */}
-          {result.nearbyHospitals.length > 0 && (
+          {(hospitals.length > 0 || trail.length > 1) && (
             <div>
               <h3 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
                 <svg className="w-5 h-5 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -125,16 +154,24 @@ export default function PanicAlertModal({
                 </svg>
                 Hospitales Cercanos
               </h3>
+              {isSharingLocation && (
+                <p className="mb-3 text-sm text-gray-600 flex items-center gap-2">
+                  <span className="w-2 h-2 bg-red-600 rounded-full animate-pulse" />
+                  Compartiendo tu ubicación en vivo con los representantes que atiendan la alerta
+                </p>
+              )}
+              {locationError && <p className="mb-3 text-sm text-yellow-700">{locationError}</p>}
               <EmergencyMap
                 userLocation={userLocation}
-                hospitals={result.nearbyHospitals}
+                hospitals={hospitals}
+                trail={trail}
                 height="250px"
                 radiusKm={20}
               />
 
               {/* Hospital list */}
               <div className="mt-4 space-y-2">
-                {result.nearbyHospitals.slice(0, 3).map((hospital) => (
+                {hospitals.slice(0, 3).map((hospital) => (
                   <div
                     key={hospital.id}
                     className="flex items-center justify-between p-3 bg-sky-50 rounded-lg"
@@ -2,7 +2,7 @@
 import React, { ReactNode } from 'react';
 import { Link } from 'react-router-dom';
 import { usePremium } from '../../hooks/usePremium';
-import { PlanFeatures, PlanLimits } from '../../services/api';
+import { PlanFeatures, PlanLimits, EntitlementError, LimitCheck } from '../../services/api';
 
 interface FeatureGateProps {
   feature: keyof PlanFeatures;
@@ -48,6 +48,11 @@ export function FeatureGate({
     return null;
   }
 
+  return <FeatureUpgradeCard feature={feature} />;
+}
+
+// Tarjeta de upgrade para una feature no incluida en el plan
+export function FeatureUpgradeCard({ feature }: { feature: keyof PlanFeatures }) {
   return (
     <div className="bg-gradient-to-r from-purple-50 to-indigo-50 border border-purple-200 rounded-lg p-6 text-center">
       <div className="inline-flex items-center justify-center w-12 h-12 bg-purple-100 rounded-full mb-4">
@@ -137,8 +142,11 @@ export function LimitGate({
     return null;
   }
 
-  const limitValue = getLimit(limit);
+  return <LimitReachedCard limit={limit} limitValue={getLimit(limit)} />;
+}
 
+// Tarjeta de límite alcanzado
+export function LimitReachedCard({ limit, limitValue }: { limit: keyof PlanLimits; limitValue: number }) {
   return (
     <div className="bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-lg p-6 text-center">
       <div className="inline-flex items-center justify-center w-12 h-12 bg-amber-100 rounded-full mb-4">
@@ -187,6 +195,21 @@ export function LimitGate({
   );
 }
 
+// Muestra el error FEATURE_REQUIRED / LIMIT_REACHED devuelto por el backend
+export function EntitlementNotice({ error }: { error: EntitlementError }) {
+  const { feature, limitKey, limit } = error.details;
+
+  if (error.code === 'FEATURE_REQUIRED' && feature) {
+    return <FeatureUpgradeCard feature={feature} />;
+  }
+
+  if (error.code === 'LIMIT_REACHED' && limitKey) {
+    return <LimitReachedCard limit={limitKey} limitValue={limit ?? 0} />;
+  }
+
+  return null;
+}
+
 // Badge para indicar que algo es Premium
 interface PremiumBadgeProps {
   className?: string;
@@ -263,3 +286,32 @@ export function LimitIndicator({
     </div>
   );
 }
+
+// Consumo del periodo actual: "3 de 5 descargas usadas este mes"
+const usageNames: Record<keyof PlanLimits, { unit: string; period: string }> = {
+  representativesLimit: { unit: 'representantes', period: '' },
+  qrDownloadsPerMonth: { unit: 'descargas usadas', period: ' este mes' },
+};
+
+export function LimitUsageReadout({ usage, className = '' }: { usage: LimitCheck; className?: string }) {
+  const names = usageNames[usage.limit];
+
+  if (usage.isUnlimited) {
+    return (
+      <span className={`text-sm text-green-600 ${className}`}>
+        {usage.used} {names.unit}{names.period} · ilimitado
+      </span>
+    );
+  }
+
+  const exhausted = usage.used >= usage.value;
+
+  return (
+    <span className={`text-sm ${exhausted ? 'text-red-600' : 'text-gray-600'} ${className}`}>
+      {usage.used} de {usage.value} {names.unit}{names.period}
+      {usage.periodEnd && (
+        <> · se renueva el {new Date(usage.periodEnd).toLocaleDateString('es-MX', { day: 'numeric', month: 'long' })}</>
+      )}
+    </span>
+  );
+}
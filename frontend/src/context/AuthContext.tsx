@@ -21,6 +21,12 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Ruta a la que volver tras iniciar sesión (?redirect=); solo rutas internas
+export const getRedirectPath = (search: string, fallback = '/dashboard'): string => {
+  const redirect = new URLSearchParams(search).get('redirect');
+  return redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : fallback;
+};
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (!context) {
@@ -0,0 +1,72 @@
+// src/hooks/useOperatorEvents.ts
+import { useEffect, useRef, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { getAdminToken, refreshAdminTokens } from '../services/adminApi';
+import type { PanicAlertUpdate } from '../types/admin';
+
+// Errores de handshake que se resuelven renovando el token de administrador
+const AUTH_ERROR_CODES = ['NO_ADMIN_TOKEN', 'INVALID_TOKEN', 'UNAUTHORIZED'];
+
+/**
+ * Eventos en tiempo real de la consola de operadores (namespace /admin)
+ * Requiere el permiso panic:respond
+ */
+export function useOperatorEvents(onAlertUpdated: (update: PanicAlertUpdate) => void) {
+  const [isConnected, setIsConnected] = useState(false);
+  const handlerRef = useRef(onAlertUpdated);
+  handlerRef.current = onAlertUpdated;
+
+  useEffect(() => {
+    if (!getAdminToken()) return;
+
+    let refreshAttempted = false;
+    const baseUrl = import.meta.env.VITE_WS_URL || 'http://189.137.0.35:3001';
+
+    const socket: Socket = io(`${baseUrl}/admin`, {
+      transports: ['websocket', 'polling'],
+      // Se evalúa en cada intento para usar el token vigente
+      auth: (cb) => cb({ token: getAdminToken() }),
+    });
+
+    socket.on('connect', () => {
+      refreshAttempted = false;
+      setIsConnected(true);
+    });
+
+    socket.on('connect_error', async (err: Error) => {
+      if (!AUTH_ERROR_CODES.includes(err.message)) {
+        // Error de red o permiso insuficiente: socket.io reintenta solo los de red
+        console.warn('Error de conexión de operador:', err.message);
+        return;
+      }
+
+      if (!refreshAttempted) {
+        refreshAttempted = true;
+        if (await refreshAdminTokens()) {
+          socket.connect();
+        }
+      }
+    });
+
+    socket.on('disconnect', (reason) => {
+      setIsConnected(false);
+
+      // El servidor cierra la conexión cuando expira el token
+      if (reason === 'io server disconnect') {
+        socket.connect();
+      }
+    });
+
+    socket.on('panic-alert-updated', (update: PanicAlertUpdate) => {
+      handlerRef.current(update);
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, []);
+
+  return { isConnected };
+}
+
+export default useOperatorEvents;
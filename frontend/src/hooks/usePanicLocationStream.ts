@@ -0,0 +1,135 @@
+// src/hooks/usePanicLocationStream.ts
+import { useEffect, useRef, useState } from 'react';
+import { panicApi } from '../services/api';
+import type { PanicHospital, PanicLocationPoint } from '../types';
+
+// Se envía la posición como máximo cada 15 s, o antes si el usuario se movió 25 m
+const MIN_SEND_INTERVAL_MS = 15000;
+const MIN_MOVE_METERS = 25;
+
+// Distancia aproximada en metros (Haversine)
+function distanceMeters(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Comparte la ubicación del dispositivo mientras la alerta de pánico está activa
+ * Se detiene al pasar alertId = null o cuando el servidor indica que la alerta ya no está activa
+ */
+export function usePanicLocationStream(alertId: string | null) {
+  const [trail, setTrail] = useState<PanicLocationPoint[]>([]);
+  const [nearbyHospitals, setNearbyHospitals] = useState<PanicHospital[] | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [ended, setEnded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const lastSentRef = useRef<{ point: PanicLocationPoint; at: number } | null>(null);
+  const sendingRef = useRef(false);
+
+  useEffect(() => {
+    setTrail([]);
+    setNearbyHospitals(null);
+    setError(null);
+    setEnded(false);
+    lastSentRef.current = null;
+
+    if (!alertId) {
+      setIsStreaming(false);
+      return;
+    }
+
+    if (!navigator.geolocation) {
+      setError('Tu dispositivo no permite compartir la ubicación');
+      return;
+    }
+
+    let stopped = false;
+    let watchId: number | null = null;
+
+    const stop = () => {
+      stopped = true;
+      if (watchId !== null) {
+        navigator.geolocation.clearWatch(watchId);
+        watchId = null;
+      }
+      setIsStreaming(false);
+    };
+
+    // Trayecto registrado hasta ahora (incluye el punto de activación)
+    panicApi.getTrail(alertId)
+      .then((res) => {
+        if (stopped || !res.success || !res.data) return;
+        const { points, nearbyHospitals: hospitals } = res.data;
+        const known = new Set(points.map((point) => point.recordedAt));
+        setTrail((current) => [...points, ...current.filter((point) => !known.has(point.recordedAt))]);
+        setNearbyHospitals((current) => current || hospitals);
+      })
+      .catch((err) => console.error('Error cargando trayecto:', err));
+
+    const handlePosition = async (position: GeolocationPosition) => {
+      if (stopped || sendingRef.current) return;
+
+      const { latitude, longitude, accuracy, heading, speed } = position.coords;
+      const now = Date.now();
+      const last = lastSentRef.current;
+
+      if (last && now - last.at < MIN_SEND_INTERVAL_MS && distanceMeters(last.point, { latitude, longitude }) < MIN_MOVE_METERS) {
+        return;
+      }
+
+      sendingRef.current = true;
+      try {
+        const res = await panicApi.updateLocation(alertId, {
+          latitude,
+          longitude,
+          accuracy,
+          heading: heading ?? undefined,
+          speed: speed ?? undefined,
+          recordedAt: new Date(position.timestamp).toISOString(),
+        });
+
+        if (stopped || !res.success || !res.data) return;
+        const { point, nearbyHospitals: hospitals } = res.data;
+
+        lastSentRef.current = { point, at: now };
+        setTrail((current) => [...current, point]);
+        if (hospitals) {
+          setNearbyHospitals(hospitals);
+        }
+        setError(null);
+      } catch (err: any) {
+        if (err.response?.status === 404) {
+          // Alerta cancelada, resuelta o expirada
+          stop();
+          setEnded(true);
+          return;
+        }
+        console.error('Error enviando ubicación:', err);
+        setError('No se pudo enviar tu ubicación; reintentando');
+      } finally {
+        sendingRef.current = false;
+      }
+    };
+
+    watchId = navigator.geolocation.watchPosition(
+      handlePosition,
+      (err) => {
+        console.error('Error de geolocalización:', err);
+        setError('No se pudo obtener tu ubicación');
+      },
+      { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+    );
+    setIsStreaming(true);
+
+    return stop;
+  }, [alertId]);
+
+  return { trail, nearbyHospitals, isStreaming, ended, error };
+}
+
+export default usePanicLocationStream;
@@ -1,6 +1,6 @@
 // src/hooks/usePremium.ts
 import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
-import { paymentsApi, PremiumStatus, PlanFeatures, PlanLimits } from '../services/api';
+import { paymentsApi, PremiumStatus, PlanFeatures, PlanLimits, LimitCheck } from '../services/api';
 
 interface PremiumContextType {
   status: PremiumStatus | null;
@@ -153,3 +153,42 @@ export function useResourceLimit(limit: keyof PlanLimits): {
     loading,
   };
 }
+
+// Consumo de un límite en el periodo actual (GET /payments/check-limit/:limit)
+export function useLimitUsage(limit: keyof PlanLimits): {
+  usage: LimitCheck | null;
+  loading: boolean;
+  refresh: () => Promise<void>;
+  setUsed: (used: number) => void;
+} {
+  const [usage, setUsage] = useState<LimitCheck | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await paymentsApi.checkLimit(limit);
+      if (response.success && response.data) {
+        setUsage(response.data);
+      }
+    } catch (err) {
+      console.error('Error fetching limit usage:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [limit]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Actualiza el consumo con la respuesta de la operación sin volver a consultar
+  const setUsed = useCallback((used: number) => {
+    setUsage((current) =>
+      current
+        ? { ...current, used, remaining: current.isUnlimited ? null : Math.max(0, current.value - used) }
+        : current
+    );
+  }, []);
+
+  return { usage, loading, refresh, setUsed };
+}
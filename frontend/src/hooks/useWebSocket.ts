@@ -1,6 +1,8 @@
 // src/hooks/useWebSocket.ts
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { authApi } from '../services/api';
+import type { PanicHospital, PanicLocationPoint } from '../types';
 
 interface PanicAlert {
   type: 'PANIC_ALERT';
@@ -29,43 +31,130 @@ interface QRAccessAlert {
 
 type AlertEvent = PanicAlert | QRAccessAlert;
 
+interface PanicAcknowledged {
+  alertId: string;
+  channel: 'PORTAL' | 'SOCKET' | 'SMS' | 'OPERATOR';
+  name: string;
+  acknowledgedAt: string;
+  timestamp: string;
+}
+
+interface PanicEscalated {
+  alertId: string;
+  level: number;
+  type: 'REPRESENTATIVES' | 'OPERATOR_QUEUE';
+  priority?: number;
+  representatives: string[];
+  nextEscalationAt: string | null;
+  timestamp: string;
+}
+
+// Ubicación en vivo: solo la reciben el paciente y los representantes que confirmaron la alerta
+export interface PanicLocationUpdate {
+  alertId: string;
+  patientId: string;
+  point: PanicLocationPoint;
+  nearbyHospitals?: PanicHospital[]; // Solo cuando se recalcularon
+  timestamp: string;
+}
+
+interface SocketAuthError {
+  code: string;
+  message: string;
+}
+
+interface JoinResponse {
+  success: boolean;
+  error?: SocketAuthError;
+}
+
+// Errores de handshake que se resuelven renovando el access token
+const AUTH_ERROR_CODES = ['NO_TOKEN', 'INVALID_TOKEN', 'UNAUTHORIZED'];
+
 interface UseWebSocketOptions {
-  userId?: string;
   autoConnect?: boolean;
   onPanicAlert?: (alert: PanicAlert) => void;
   onQRAccessAlert?: (alert: QRAccessAlert) => void;
   onPanicCancelled?: (data: { alertId: string }) => void;
+  onPanicAcknowledged?: (data: PanicAcknowledged) => void;
+  onPanicEscalated?: (data: PanicEscalated) => void;
+  onPanicLocation?: (data: PanicLocationUpdate) => void;
+  onAuthError?: (error: SocketAuthError) => void;
 }
 
+/**
+ * Conexión autenticada a Socket.io
+ * El servidor une al usuario a su sala y a las de los pacientes que lo designaron representante
+ */
 export function useWebSocket(options: UseWebSocketOptions = {}) {
-  const { userId, autoConnect = true, onPanicAlert, onQRAccessAlert, onPanicCancelled } = options;
+  const {
+    autoConnect = true,
+    onPanicAlert,
+    onQRAccessAlert,
+    onPanicCancelled,
+    onPanicAcknowledged,
+    onPanicEscalated,
+    onPanicLocation,
+    onAuthError,
+  } = options;
 
   const [isConnected, setIsConnected] = useState(false);
   const [lastAlert, setLastAlert] = useState<AlertEvent | null>(null);
+  const [authError, setAuthError] = useState<SocketAuthError | null>(null);
   const socketRef = useRef<Socket | null>(null);
+  const refreshAttemptedRef = useRef(false);
 
   const connect = useCallback(() => {
     if (socketRef.current?.connected) return;
+    if (!localStorage.getItem('accessToken')) return;
 
     const socket = io(import.meta.env.VITE_WS_URL || 'http://189.137.0.35:3001', {
       transports: ['websocket', 'polling'],
       autoConnect: true,
+      // Se evalúa en cada intento para usar el token vigente
+      auth: (cb) => cb({ token: localStorage.getItem('accessToken') }),
     });
 
     socket.on('connect', () => {
       console.log('WebSocket conectado:', socket.id);
+      refreshAttemptedRef.current = false;
+      setAuthError(null);
       setIsConnected(true);
+    });
+
+    socket.on('connect_error', async (err: Error & { data?: SocketAuthError }) => {
+      if (!AUTH_ERROR_CODES.includes(err.message)) {
+        // Error de red: socket.io reintenta automáticamente
+        console.warn('Error de conexión WebSocket:', err.message);
+        return;
+      }
 
-      // Unirse a salas si hay userId
-      if (userId) {
-        socket.emit('join-user', userId);
-        socket.emit('join-representative', userId);
+      // Un intento de renovar el token (el interceptor de axios hace el refresh)
+      if (!refreshAttemptedRef.current) {
+        refreshAttemptedRef.current = true;
+        try {
+          await authApi.getMe();
+          socket.connect();
+          return;
+        } catch {
+          // Sin sesión válida
+        }
       }
+
+      const error = err.data || { code: err.message, message: 'No autorizado' };
+      console.error('WebSocket no autorizado:', error);
+      setAuthError(error);
+      onAuthError?.(error);
     });
 
-    socket.on('disconnect', () => {
+    socket.on('disconnect', (reason) => {
       console.log('WebSocket desconectado');
       setIsConnected(false);
+
+      // El servidor cierra la conexión cuando expira el token
+      if (reason === 'io server disconnect') {
+        socket.connect();
+      }
     });
 
     // Eventos de alerta de panico
@@ -85,6 +174,21 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
       onPanicCancelled?.(data);
     });
 
+    // Escalamiento y confirmaciones de atención
+    socket.on('panic-acknowledged', (data: PanicAcknowledged) => {
+      console.log('Alerta de panico confirmada:', data);
+      onPanicAcknowledged?.(data);
+    });
+
+    socket.on('panic-escalated', (data: PanicEscalated) => {
+      console.log('Alerta de panico escalada:', data);
+      onPanicEscalated?.(data);
+    });
+
+    socket.on('panic-location', (data: PanicLocationUpdate) => {
+      onPanicLocation?.(data);
+    });
+
     // Eventos de acceso QR
     socket.on('qr-access-alert', (data: QRAccessAlert) => {
       console.log('Alerta de acceso QR recibida:', data);
@@ -98,7 +202,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     });
 
     socketRef.current = socket;
-  }, [userId, onPanicAlert, onQRAccessAlert, onPanicCancelled]);
+  }, [onPanicAlert, onQRAccessAlert, onPanicCancelled, onPanicAcknowledged, onPanicEscalated, onPanicLocation, onAuthError]);
 
   const disconnect = useCallback(() => {
     if (socketRef.current) {
@@ -108,11 +212,31 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     }
   }, []);
 
-  const joinUserRoom = useCallback((roomUserId: string) => {
-    if (socketRef.current?.connected) {
-      socketRef.current.emit('join-user', roomUserId);
-      socketRef.current.emit('join-representative', roomUserId);
-    }
+  // Solo autorizado si el paciente designó al usuario como representante
+  const joinRepresentativeRoom = useCallback((patientId: string): Promise<JoinResponse> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: { code: 'NOT_CONNECTED', message: 'Sin conexión' } });
+        return;
+      }
+      socketRef.current.emit('join-representative', patientId, (response: JoinResponse) => {
+        if (!response.success) {
+          console.warn('No autorizado para la sala del paciente:', response.error);
+        }
+        resolve(response);
+      });
+    });
+  }, []);
+
+  // El representante confirma que atiende la alerta (detiene el escalamiento)
+  const acknowledgePanic = useCallback((alertId: string): Promise<JoinResponse> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: { code: 'NOT_CONNECTED', message: 'Sin conexión' } });
+        return;
+      }
+      socketRef.current.emit('acknowledge-panic', alertId, (response: JoinResponse) => resolve(response));
+    });
   }, []);
 
   // Auto-connect on mount
@@ -126,19 +250,14 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     };
   }, [autoConnect, connect, disconnect]);
 
-  // Join room when userId changes
-  useEffect(() => {
-    if (userId && isConnected) {
-      joinUserRoom(userId);
-    }
-  }, [userId, isConnected, joinUserRoom]);
-
   return {
     isConnected,
     lastAlert,
+    authError,
     connect,
     disconnect,
-    joinUserRoom,
+    joinRepresentativeRoom,
+    acknowledgePanic,
     socket: socketRef.current,
   };
 }
@@ -6,6 +6,7 @@ import { Toaster } from 'react-hot-toast';
 import App from './App';
 import { AuthProvider } from './context/AuthContext';
 import { PremiumProvider } from './hooks/usePremium';
+import { refreshOfflineKeys, syncPendingAccesses } from './services/offlineCard';
 import './index.css';
 
 const queryClient = new QueryClient({
@@ -18,6 +19,21 @@ const queryClient = new QueryClient({
   },
 });
 
+// Tarjeta offline: llaves de verificación al día y envío de accesos hechos sin red
+const syncOfflineCard = () => {
+  refreshOfflineKeys().catch(() => undefined);
+  syncPendingAccesses().catch(() => undefined);
+};
+syncOfflineCard();
+window.addEventListener('online', syncOfflineCard);
+
+// Solo en HTTPS (producción): la verificación de firmas también lo requiere
+if ('serviceWorker' in navigator && window.location.protocol === 'https:') {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => console.error('Service worker:', error));
+  });
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
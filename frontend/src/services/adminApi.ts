@@ -12,10 +12,23 @@ import {
   AdminAuditLog,
   EmergencyAccess,
   PanicAlert,
+  QrScanIncident,
+  QrScanIncidentType,
+  PanicConsoleAlert,
+  PanicAlertDetail,
+  PanicOperator,
+  PanicCallNote,
+  PanicCallContact,
+  PanicResolutionOutcome,
+  PanicAcknowledgement,
   MedicalInstitution,
   SystemHealth,
+  JobRun,
+  JobRunsResponse,
   AuditStats,
   InstitutionStats,
+  OAuthCredentials,
+  StateLegalTemplate,
 } from '../types/admin';
 
 const API_BASE = import.meta.env.VITE_API_URL || 'http://189.137.0.35:3001/api/v1';
@@ -307,6 +320,36 @@ export const listPanicAlerts = async (
   return adminFetch(`/admin/audit/panic-alerts?${searchParams.toString()}`);
 };
 
+export const listQrIncidents = async (
+  params: {
+    page?: number;
+    limit?: number;
+    userId?: string;
+    type?: QrScanIncidentType;
+    status?: 'open' | 'resolved';
+    startDate?: string;
+    endDate?: string;
+  } = {}
+): Promise<{ incidents: QrScanIncident[]; pagination: Pagination }> => {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) searchParams.set(key, value.toString());
+  });
+
+  return adminFetch(`/admin/audit/qr-incidents?${searchParams.toString()}`);
+};
+
+export const resolveQrIncident = async (
+  incidentId: string,
+  data: { reactivateToken?: boolean; notes?: string } = {}
+): Promise<QrScanIncident & { tokenReactivated: boolean }> => {
+  return adminFetch(`/admin/audit/qr-incidents/${incidentId}/resolve`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+};
+
 export const exportAuditLogs = async (
   type: 'user' | 'admin' | 'emergency',
   format: 'csv' | 'json' = 'csv',
@@ -402,6 +445,32 @@ export const getInstitutionStats = async (): Promise<InstitutionStats> => {
   return adminFetch('/admin/institutions/stats');
 };
 
+export const generateInstitutionCredentials = async (
+  institutionId: string,
+  scopes?: string[]
+): Promise<OAuthCredentials> => {
+  return adminFetch(`/admin/institutions/${institutionId}/oauth-credentials`, {
+    method: 'POST',
+    body: JSON.stringify({ scopes }),
+  });
+};
+
+export const rotateInstitutionCredentials = async (
+  institutionId: string
+): Promise<OAuthCredentials> => {
+  return adminFetch(`/admin/institutions/${institutionId}/oauth-credentials/rotate`, {
+    method: 'POST',
+  });
+};
+
+export const revokeInstitutionCredentials = async (
+  institutionId: string
+): Promise<{ revoked: boolean }> => {
+  return adminFetch(`/admin/institutions/${institutionId}/oauth-credentials`, {
+    method: 'DELETE',
+  });
+};
+
 // ==================== ASEGURADORAS ====================
 
 interface ListInsuranceParams {
@@ -517,6 +586,41 @@ export const getInsuranceStats = async (): Promise<any> => {
   return adminFetch('/admin/insurance/stats');
 };
 
+// ==================== PLANTILLAS LEGALES ====================
+
+export const listLegalTemplates = async (): Promise<{ templates: StateLegalTemplate[] }> => {
+  return adminFetch('/admin/legal-templates');
+};
+
+export const getLegalTemplate = async (templateId: string): Promise<StateLegalTemplate> => {
+  return adminFetch(`/admin/legal-templates/${templateId}`);
+};
+
+export const createLegalTemplate = async (
+  data: Partial<StateLegalTemplate>
+): Promise<StateLegalTemplate> => {
+  return adminFetch('/admin/legal-templates', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+};
+
+export const updateLegalTemplate = async (
+  templateId: string,
+  data: Partial<StateLegalTemplate>
+): Promise<StateLegalTemplate> => {
+  return adminFetch(`/admin/legal-templates/${templateId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+};
+
+export const deleteLegalTemplate = async (templateId: string): Promise<{ deleted: boolean }> => {
+  return adminFetch(`/admin/legal-templates/${templateId}`, {
+    method: 'DELETE',
+  });
+};
+
 // ==================== SALUD DEL SISTEMA ====================
 
 export const getSystemHealth = async (): Promise<SystemHealth> => {
@@ -538,6 +642,72 @@ export const runSystemCleanup = async (dryRun: boolean = true): Promise<any> =>
   });
 };
 
+export const getJobRuns = async (params: { job?: string; page?: number; limit?: number } = {}): Promise<JobRunsResponse> => {
+  const searchParams = new URLSearchParams();
+  if (params.job) searchParams.set('job', params.job);
+  if (params.page) searchParams.set('page', params.page.toString());
+  if (params.limit) searchParams.set('limit', params.limit.toString());
+  return adminFetch(`/admin/health/jobs?${searchParams.toString()}`);
+};
+
+export const runScheduledJob = async (name: string): Promise<JobRun> => {
+  return adminFetch(`/admin/health/jobs/${encodeURIComponent(name)}/run`, {
+    method: 'POST',
+  });
+};
+
+// ==================== CONSOLA DE OPERADORES ====================
+
+export const getActivePanicAlerts = async (): Promise<{ alerts: PanicConsoleAlert[] }> => {
+  return adminFetch('/admin/panic-console/alerts');
+};
+
+export const getPanicAlertDetail = async (alertId: string): Promise<PanicAlertDetail> => {
+  return adminFetch(`/admin/panic-console/alerts/${alertId}`);
+};
+
+export const getPanicOperators = async (): Promise<{ operators: PanicOperator[] }> => {
+  return adminFetch('/admin/panic-console/operators');
+};
+
+export const assignPanicAlert = async (
+  alertId: string,
+  adminId?: string
+): Promise<{ id: string; assignedAt: string; assignedAdmin: { id: string; name: string } }> => {
+  return adminFetch(`/admin/panic-console/alerts/${alertId}/assign`, {
+    method: 'POST',
+    body: JSON.stringify({ adminId }),
+  });
+};
+
+export const addPanicCallNote = async (
+  alertId: string,
+  data: { contactType: PanicCallContact; contactName?: string; content: string }
+): Promise<PanicCallNote> => {
+  return adminFetch(`/admin/panic-console/alerts/${alertId}/notes`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+};
+
+export const resolvePanicAlert = async (
+  alertId: string,
+  data: { outcome: PanicResolutionOutcome; notes?: string }
+): Promise<{ alertId: string; status: string; resolvedAt: string; outcome: PanicResolutionOutcome }> => {
+  return adminFetch(`/admin/panic-console/alerts/${alertId}/resolve`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+};
+
+export const acknowledgePanicAlert = async (
+  alertId: string
+): Promise<{ alertId: string; acknowledgedAt: string; acknowledgement: PanicAcknowledgement }> => {
+  return adminFetch(`/admin/panic-queue/${alertId}/acknowledge`, {
+    method: 'POST',
+  });
+};
+
 // ==================== GESTION DE ADMINS ====================
 
 export const listAdmins = async (): Promise<AdminUser[]> => {
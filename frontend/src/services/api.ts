@@ -14,6 +14,39 @@ import type {
   DirectiveDraft,
   CreateRepresentativeInput,
   ProfileForm,
+  StaffMember,
+  EmergencyVisibility,
+  SealVerification,
+  DirectiveVerification,
+  LegalTemplateSummary,
+  LegalRequirements,
+  Witness,
+  WitnessSummary,
+  CreateWitnessInput,
+  WitnessDelivery,
+  WitnessInvitation,
+  RepresentativeInvitation,
+  RepresentedPatient,
+  VerificationChannel,
+  PanicAcknowledgement,
+  PanicHospital,
+  PanicLocationPoint,
+  PanicLocationTrail,
+  CatalogType,
+  CatalogItemMap,
+  DrugCheckResult,
+  OfflineCard,
+  OfflineCardJwk,
+  QrToken,
+  QrTokenMedium,
+  QrTokenWithImage,
+  QrPrintAsset,
+  QrPrintFormat,
+  WallpaperSize,
+  OfflineAccessEntry,
+  CatalogCondition,
+  AllergenCategory,
+  AllergySeverity,
 } from '../types';
 
 const API_URL = import.meta.env.VITE_API_URL || '/api/v1';
@@ -125,18 +158,125 @@ export const profileApi = {
     return response.data;
   },
   
-  async updatePhoto(photoUrl: string): Promise<ApiResponse<{ profile: PatientProfile }>> {
-    const response = await api.post('/profile/photo', { photoUrl });
+  async updatePhoto(photo: File): Promise<ApiResponse<{ profile: PatientProfile }>> {
+    const formData = new FormData();
+    formData.append('photo', photo);
+    const response = await api.post('/profile/photo', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
     return response.data;
   },
   
-  async getQR(): Promise<ApiResponse<{ qrToken: string; qrDataUrl: string; generatedAt: string }>> {
-    const response = await api.get('/profile/qr');
+  // Códigos QR: uno por objeto físico (tarjeta, pulsera, casco...)
+  async getQRTokens(): Promise<ApiResponse<{ tokens: QrToken[] }>> {
+    const response = await api.get('/profile/qr/tokens');
     return response.data;
   },
-  
-  async regenerateQR(): Promise<ApiResponse<{ qrToken: string; qrDataUrl: string }>> {
-    const response = await api.post('/profile/qr/regenerate');
+
+  async getQRToken(id: string): Promise<ApiResponse<QrTokenWithImage>> {
+    const response = await api.get(`/profile/qr/tokens/${id}`);
+    return response.data;
+  },
+
+  async createQRToken(data: { label: string; medium?: QrTokenMedium }): Promise<ApiResponse<QrTokenWithImage>> {
+    const response = await api.post('/profile/qr/tokens', data);
+    return response.data;
+  },
+
+  async updateQRToken(id: string, data: { label?: string; medium?: QrTokenMedium }): Promise<ApiResponse<QrToken>> {
+    const response = await api.put(`/profile/qr/tokens/${id}`, data);
+    return response.data;
+  },
+
+  async revokeQRToken(id: string): Promise<ApiResponse<QrToken>> {
+    const response = await api.post(`/profile/qr/tokens/${id}/revoke`);
+    return response.data;
+  },
+
+  async reactivateQRToken(id: string): Promise<ApiResponse<QrToken>> {
+    const response = await api.post(`/profile/qr/tokens/${id}/reactivate`);
+    return response.data;
+  },
+
+  async downloadQRToken(id: string): Promise<ApiResponse<QrTokenWithImage & { usage: LimitUsage }>> {
+    const response = await api.post(`/profile/qr/tokens/${id}/download`);
+    return response.data;
+  },
+
+  // Tarjeta de cartera, hoja de calcomanías o fondo de pantalla (cuenta como descarga)
+  async printQRToken(
+    id: string,
+    data: { format: QrPrintFormat; size?: WallpaperSize }
+  ): Promise<ApiResponse<QrPrintAsset & { usage: LimitUsage }>> {
+    const response = await api.post(`/profile/qr/tokens/${id}/print`, data);
+    return response.data;
+  },
+
+  // Tarjeta offline del código: QR con resumen firmado verificable sin red
+  async getOfflineCard(tokenId: string): Promise<ApiResponse<OfflineCard>> {
+    const response = await api.get(`/profile/qr/tokens/${tokenId}/offline`);
+    return response.data;
+  },
+
+  async getEmergencyVisibility(): Promise<ApiResponse<{ visibility: EmergencyVisibility }>> {
+    const response = await api.get('/profile/emergency-visibility');
+    return response.data;
+  },
+
+  async updateEmergencyVisibility(data: Partial<EmergencyVisibility>): Promise<ApiResponse<{ visibility: EmergencyVisibility }>> {
+    const response = await api.put('/profile/emergency-visibility', data);
+    return response.data;
+  },
+};
+
+// ==================== FHIR API ====================
+export interface FhirImportSummary {
+  imported: {
+    allergies: string[];
+    conditions: string[];
+    medications: string[];
+    bloodType: string | null;
+    isDonor: boolean | null;
+  };
+  skipped: {
+    resourceType: string;
+    id?: string;
+    reason: string;
+  }[];
+}
+
+export const fhirApi = {
+  // Bundle FHIR R4 (application/fhir+json) listo para descargar
+  async exportBundle(): Promise<Blob> {
+    const response = await api.get('/fhir/export', { responseType: 'blob' });
+    return response.data;
+  },
+
+  async importBundle(bundle: unknown): Promise<ApiResponse<{ summary: FhirImportSummary }>> {
+    const response = await api.post('/fhir/import', bundle, {
+      headers: { 'Content-Type': 'application/fhir+json' },
+    });
+    return response.data;
+  },
+};
+
+// ==================== Catalog API ====================
+// Catálogo médico (CIE-10, medicamentos, alérgenos) para autocompletado
+export const catalogApi = {
+  async search<T extends CatalogType>(
+    type: T,
+    q: string,
+    limit = 10
+  ): Promise<ApiResponse<{ results: CatalogItemMap[T][] }>> {
+    const response = await api.get(`/catalog/${type}`, { params: { q, limit } });
+    return response.data;
+  },
+
+  async getAllergenCategories(): Promise<ApiResponse<{
+    categories: AllergenCategory[];
+    severities: AllergySeverity[];
+  }>> {
+    const response = await api.get('/catalog/allergen-categories');
     return response.data;
   },
 };
@@ -158,13 +298,40 @@ export const directivesApi = {
     return response.data;
   },
   
+  async getLegalTemplates(): Promise<ApiResponse<{ templates: LegalTemplateSummary[] }>> {
+    const response = await api.get('/directives/legal-templates');
+    return response.data;
+  },
+  
+  async getLegalRequirements(id: string): Promise<ApiResponse<LegalRequirements>> {
+    const response = await api.get(`/directives/${id}/legal-requirements`);
+    return response.data;
+  },
+  
+  async getDocument(id: string): Promise<ApiResponse<{ html: string }>> {
+    const response = await api.get(`/directives/${id}/document`);
+    return response.data;
+  },
+  
+  async downloadPdf(id: string): Promise<Blob> {
+    const response = await api.get(`/directives/${id}/pdf`, { responseType: 'blob' });
+    return response.data;
+  },
+  
   async createDraft(data: DirectiveDraft): Promise<ApiResponse<{ directive: AdvanceDirective }>> {
     const response = await api.post('/directives/draft', data);
     return response.data;
   },
   
-  async uploadDocument(documentUrl: string, originalFileName: string, originState?: string): Promise<ApiResponse<{ directive: AdvanceDirective }>> {
-    const response = await api.post('/directives/upload', { documentUrl, originalFileName, originState });
+  async uploadDocument(document: File, originState?: string): Promise<ApiResponse<{ directive: AdvanceDirective }>> {
+    const formData = new FormData();
+    formData.append('document', document);
+    if (originState) {
+      formData.append('originState', originState);
+    }
+    const response = await api.post('/directives/upload', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
     return response.data;
   },
   
@@ -178,11 +345,21 @@ export const directivesApi = {
     return response.data;
   },
   
+  async renew(id: string): Promise<ApiResponse<{ directive: AdvanceDirective }>> {
+    const response = await api.post(`/directives/${id}/renew`);
+    return response.data;
+  },
+  
   async requestSeal(id: string): Promise<ApiResponse<{ directive: AdvanceDirective }>> {
     const response = await api.post(`/directives/${id}/seal`);
     return response.data;
   },
   
+  async verifySeal(id: string, documentHash?: string): Promise<ApiResponse<{ verification: SealVerification }>> {
+    const response = await api.post(`/directives/${id}/seal/verify`, { documentHash });
+    return response.data;
+  },
+  
   async revoke(id: string): Promise<ApiResponse<{ directive: AdvanceDirective }>> {
     const response = await api.post(`/directives/${id}/revoke`);
     return response.data;
@@ -194,6 +371,48 @@ export const directivesApi = {
   },
 };
 
+// ==================== Directive Verification API ====================
+export const directiveVerificationApi = {
+  async verify(identifier: string): Promise<ApiResponse<{ verification: DirectiveVerification }>> {
+    const response = await api.get(`/directive-verification/${encodeURIComponent(identifier)}`);
+    return response.data;
+  },
+};
+
+// ==================== Witnesses API ====================
+export const witnessesApi = {
+  async list(directiveId: string): Promise<ApiResponse<WitnessSummary>> {
+    const response = await api.get(`/directives/${directiveId}/witnesses`);
+    return response.data;
+  },
+  
+  async invite(directiveId: string, data: CreateWitnessInput): Promise<ApiResponse<{ witness: Witness; delivery: WitnessDelivery }>> {
+    const response = await api.post(`/directives/${directiveId}/witnesses`, data);
+    return response.data;
+  },
+  
+  async resend(directiveId: string, witnessId: string): Promise<ApiResponse<{ witness: Witness; delivery: WitnessDelivery }>> {
+    const response = await api.post(`/directives/${directiveId}/witnesses/${witnessId}/resend`);
+    return response.data;
+  },
+  
+  async remove(directiveId: string, witnessId: string): Promise<ApiResponse<void>> {
+    const response = await api.delete(`/directives/${directiveId}/witnesses/${witnessId}`);
+    return response.data;
+  },
+  
+  // Endpoints públicos del enlace de invitación
+  async getInvitation(token: string): Promise<ApiResponse<{ invitation: WitnessInvitation }>> {
+    const response = await api.get(`/witness/${token}`);
+    return response.data;
+  },
+  
+  async sign(token: string, data: { name: string; curp: string; signatureImage: string; acceptsStatement: boolean }): Promise<ApiResponse<{ signedAt: string; directiveActivated: boolean }>> {
+    const response = await api.post(`/witness/${token}/sign`, data);
+    return response.data;
+  },
+};
+
 // ==================== Representatives API ====================
 export const representativesApi = {
   async list(): Promise<ApiResponse<{ representatives: Representative[] }>> {
@@ -230,12 +449,68 @@ export const representativesApi = {
     const response = await api.post(`/representatives/${id}/donor-spokesperson`);
     return response.data;
   },
+  
+  async invite(id: string): Promise<ApiResponse<{ representative: Representative; delivery: WitnessDelivery }>> {
+    const response = await api.post(`/representatives/${id}/invite`);
+    return response.data;
+  },
+};
+
+// ==================== Representative Invitations API ====================
+export const representativeInvitationsApi = {
+  async get(token: string): Promise<ApiResponse<{ invitation: RepresentativeInvitation }>> {
+    const response = await api.get(`/representative-invitations/${token}`);
+    return response.data;
+  },
+  
+  async sendCode(token: string, channel: VerificationChannel): Promise<ApiResponse<{ verification: { channel: VerificationChannel; destination: string; expiresAt: string } }>> {
+    const response = await api.post(`/representative-invitations/${token}/code`, { channel });
+    return response.data;
+  },
+  
+  // Requiere sesión: vincula la designación a la cuenta del usuario
+  async accept(token: string, code: string): Promise<ApiResponse<{ patientName: string; acceptedAt: string }>> {
+    const response = await api.post(`/representative-invitations/${token}/accept`, { code });
+    return response.data;
+  },
+  
+  async decline(token: string): Promise<ApiResponse<{ declined: boolean }>> {
+    const response = await api.post(`/representative-invitations/${token}/decline`);
+    return response.data;
+  },
+};
+
+// ==================== Representative Portal API ====================
+export const representativePortalApi = {
+  async list(): Promise<ApiResponse<{ patients: RepresentedPatient[] }>> {
+    const response = await api.get('/representative-portal');
+    return response.data;
+  },
+  
+  async leave(representativeId: string): Promise<ApiResponse<void>> {
+    const response = await api.post(`/representative-portal/${representativeId}/leave`);
+    return response.data;
+  },
+  
+  // Confirma que el representante atiende la alerta de pánico
+  async acknowledgeAlert(alertId: string): Promise<ApiResponse<{ alertId: string; acknowledgedAt: string; acknowledgement: PanicAcknowledgement }>> {
+    const response = await api.post(`/representative-portal/alerts/${alertId}/acknowledge`);
+    return response.data;
+  },
+  
+  // Trayecto en vivo (disponible tras confirmar la alerta)
+  async getAlertTrail(alertId: string): Promise<ApiResponse<PanicLocationTrail>> {
+    const response = await api.get(`/representative-portal/alerts/${alertId}/trail`);
+    return response.data;
+  },
 };
 
 // ==================== Emergency API ====================
 export const emergencyApi = {
+  // qrToken del QR escaneado o shortCode capturado a mano
   async initiateAccess(data: {
-    qrToken: string;
+    qrToken?: string;
+    shortCode?: string;
     accessorName: string;
     accessorRole: string;
     accessorLicense?: string;
@@ -253,10 +528,124 @@ export const emergencyApi = {
     return response.data;
   },
 
+  // Verificación de un medicamento antes de administrarlo (queda en auditoría)
+  async checkDrug(accessToken: string, drug: string): Promise<ApiResponse<DrugCheckResult>> {
+    const response = await api.post('/emergency/check-drug', { accessToken, drug });
+    return response.data;
+  },
+
   async getHistory(): Promise<ApiResponse<{ accesses: EmergencyAccess[] }>> {
     const response = await api.get('/emergency/history');
     return response.data;
   },
+
+  async getOfflineKeys(): Promise<ApiResponse<{ keys: OfflineCardJwk[] }>> {
+    const response = await api.get('/emergency/offline/keys');
+    return response.data;
+  },
+
+  async syncOfflineAccesses(entries: OfflineAccessEntry[]): Promise<ApiResponse<{
+    synced: string[];
+    rejected: { id: string; reason: string }[];
+  }>> {
+    const response = await api.post('/emergency/offline/sync', { entries });
+    return response.data;
+  },
+};
+
+// ==================== Staff API ====================
+// Instancia separada: el personal médico usa sus propios tokens y no debe
+// mezclarse con la sesión del paciente ni con su flujo de refresh
+const staffHttp: AxiosInstance = axios.create({
+  baseURL: API_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+staffHttp.interceptors.request.use(
+  (config: InternalAxiosRequestConfig) => {
+    const token = localStorage.getItem('staffAccessToken');
+    if (token && config.headers) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => Promise.reject(error)
+);
+
+staffHttp.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
+
+    if (error.response?.status === 401 && !originalRequest._retry) {
+      originalRequest._retry = true;
+
+      try {
+        const refreshToken = localStorage.getItem('staffRefreshToken');
+        if (refreshToken) {
+          const response = await axios.post(`${API_URL}/staff/auth/refresh`, { refreshToken });
+          const tokens = response.data.data;
+
+          localStorage.setItem('staffAccessToken', tokens.accessToken);
+          localStorage.setItem('staffRefreshToken', tokens.refreshToken);
+
+          if (originalRequest.headers) {
+            originalRequest.headers.Authorization = `Bearer ${tokens.accessToken}`;
+          }
+
+          return staffHttp(originalRequest);
+        }
+      } catch (refreshError) {
+        localStorage.removeItem('staffAccessToken');
+        localStorage.removeItem('staffRefreshToken');
+      }
+    }
+
+    return Promise.reject(error);
+  }
+);
+
+export const staffApi = {
+  async login(email: string, password: string): Promise<ApiResponse<{ staff: StaffMember; accessToken: string; refreshToken: string }>> {
+    const response = await staffHttp.post('/staff/auth/login', { email, password });
+    if (response.data.success) {
+      localStorage.setItem('staffAccessToken', response.data.data.accessToken);
+      localStorage.setItem('staffRefreshToken', response.data.data.refreshToken);
+    }
+    return response.data;
+  },
+
+  async logout(): Promise<void> {
+    const refreshToken = localStorage.getItem('staffRefreshToken');
+    try {
+      await staffHttp.post('/staff/auth/logout', { refreshToken });
+    } finally {
+      localStorage.removeItem('staffAccessToken');
+      localStorage.removeItem('staffRefreshToken');
+    }
+  },
+
+  async getMe(): Promise<ApiResponse<{ staff: StaffMember }>> {
+    const response = await staffHttp.get('/staff/auth/me');
+    return response.data;
+  },
+
+  isLoggedIn(): boolean {
+    return !!localStorage.getItem('staffAccessToken');
+  },
+
+  async initiateAccess(data: {
+    qrToken?: string;
+    shortCode?: string;
+    latitude?: number;
+    longitude?: number;
+    locationName?: string;
+  }): Promise<ApiResponse<EmergencyData>> {
+    const response = await staffHttp.post('/emergency/access/staff', data);
+    return response.data;
+  },
 };
 
 // ==================== Panic API ====================
@@ -273,9 +662,15 @@ export const panicApi = {
     representativesNotified: Array<{
       name: string;
       phone: string;
+      confirmed: boolean;
       smsStatus: 'sent' | 'failed' | 'skipped';
       emailStatus: 'sent' | 'failed' | 'skipped';
     }>;
+    escalation: {
+      level: number;
+      operatorQueued: boolean;
+      escalationMinutes: number;
+    };
     createdAt: string;
   }>> {
     const response = await api.post('/emergency/panic', data);
@@ -287,6 +682,28 @@ export const panicApi = {
     return response.data;
   },
 
+  // Posición actual del paciente mientras la alerta está activa
+  async updateLocation(alertId: string, data: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    heading?: number;
+    speed?: number;
+    recordedAt?: string;
+  }): Promise<ApiResponse<{
+    point: PanicLocationPoint;
+    hospitalsRefreshed: boolean;
+    nearbyHospitals?: PanicHospital[];
+  }>> {
+    const response = await api.post(`/emergency/panic/${alertId}/location`, data);
+    return response.data;
+  },
+
+  async getTrail(alertId: string): Promise<ApiResponse<PanicLocationTrail>> {
+    const response = await api.get(`/emergency/panic/${alertId}/trail`);
+    return response.data;
+  },
+
   async getActive(): Promise<ApiResponse<{ alerts: any[]; count: number }>> {
     const response = await api.get('/emergency/panic/active');
     return response.data;
@@ -371,7 +788,7 @@ export const hospitalsApi = {
     return response.data;
   },
 
-  async getConditions(): Promise<ApiResponse<{ conditions: string[]; total: number }>> {
+  async getConditions(): Promise<ApiResponse<{ conditions: CatalogCondition[]; total: number }>> {
     const response = await api.get('/hospitals/conditions');
     return response.data;
   },
@@ -572,6 +989,47 @@ export interface PlanLimits {
   qrDownloadsPerMonth: number;
 }
 
+// Consumo de un límite en el periodo actual (periodStart/periodEnd solo en límites mensuales)
+export interface LimitUsage {
+  limitKey: keyof PlanLimits;
+  limit: number;
+  used: number;
+  remaining: number | null;
+  isUnlimited: boolean;
+  periodStart: string | null;
+  periodEnd: string | null;
+}
+
+// Respuesta de /payments/check-limit/:limit
+export interface LimitCheck extends Omit<LimitUsage, 'limitKey' | 'limit'> {
+  limit: keyof PlanLimits;
+  value: number;
+}
+
+// Error 403 del backend cuando el plan no incluye la feature o se alcanzó un límite
+export interface EntitlementError {
+  code: 'FEATURE_REQUIRED' | 'LIMIT_REACHED';
+  message: string;
+  details: {
+    feature?: keyof PlanFeatures;
+    limitKey?: keyof PlanLimits;
+    limit?: number;
+    current?: number;
+    upgradeUrl: string;
+  };
+}
+
+/**
+ * Extrae el error de plan de una respuesta de Axios (null si es otro error)
+ */
+export function getEntitlementError(error: unknown): EntitlementError | null {
+  const apiError = (error as AxiosError<{ error?: EntitlementError }>)?.response?.data?.error;
+  if (apiError && (apiError.code === 'FEATURE_REQUIRED' || apiError.code === 'LIMIT_REACHED') && apiError.details) {
+    return apiError;
+  }
+  return null;
+}
+
 export interface SubscriptionPlan {
   id: string;
   name: string;
@@ -781,7 +1239,7 @@ export const paymentsApi = {
     return response.data;
   },
 
-  async checkLimit(limit: keyof PlanLimits): Promise<ApiResponse<{ limit: string; value: number; isUnlimited: boolean }>> {
+  async checkLimit(limit: keyof PlanLimits): Promise<ApiResponse<LimitCheck>> {
     const response = await api.get(`/payments/check-limit/${limit}`);
     return response.data;
   },
@@ -0,0 +1,141 @@
+// src/services/offlineCard.ts
+// Verificación local de la tarjeta offline (JWS ES256) y cola de accesos por sincronizar
+import { emergencyApi } from './api';
+import type { OfflineAccessEntry, OfflineCardClaims, OfflineCardJwk } from '../types';
+
+const KEYS_STORAGE = 'offlineCardKeys';
+const QUEUE_STORAGE = 'offlineAccessQueue';
+
+export type OfflineCardVerification =
+  | { valid: true; claims: OfflineCardClaims; keyId: string; expired: boolean }
+  | { valid: false; reason: string };
+
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return new Uint8Array([...atob(base64)].map((char) => char.charCodeAt(0)));
+};
+
+const decodeJson = <T>(value: string): T => JSON.parse(new TextDecoder().decode(decodeBase64Url(value)));
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function getCachedKeys(): OfflineCardJwk[] {
+  return readJson<OfflineCardJwk[]>(KEYS_STORAGE, []);
+}
+
+/**
+ * Descarga y guarda las llaves públicas para poder verificar después sin red
+ */
+export async function refreshOfflineKeys(): Promise<OfflineCardJwk[]> {
+  const response = await emergencyApi.getOfflineKeys();
+  const keys = response.data?.keys || [];
+  if (keys.length > 0) {
+    localStorage.setItem(KEYS_STORAGE, JSON.stringify(keys));
+  }
+  return keys;
+}
+
+/**
+ * Verifica la firma de la tarjeta con las llaves guardadas (o las descarga si hay red)
+ */
+export async function verifyOfflineCard(token: string): Promise<OfflineCardVerification> {
+  const parts = token.trim().split('.');
+  if (parts.length !== 3) {
+    return { valid: false, reason: 'El código no es una tarjeta VIDA' };
+  }
+
+  let header: { alg?: string; kid?: string };
+  let claims: OfflineCardClaims;
+  try {
+    header = decodeJson(parts[0]);
+    claims = decodeJson(parts[1]);
+  } catch {
+    return { valid: false, reason: 'El código no es una tarjeta VIDA' };
+  }
+
+  if (header.alg !== 'ES256' || !header.kid) {
+    return { valid: false, reason: 'Algoritmo de firma no soportado' };
+  }
+
+  let jwk = getCachedKeys().find((key) => key.kid === header.kid);
+  if (!jwk && navigator.onLine) {
+    try {
+      jwk = (await refreshOfflineKeys()).find((key) => key.kid === header.kid);
+    } catch {
+      // Sin conexión real aunque el navegador diga lo contrario
+    }
+  }
+  if (!jwk) {
+    return {
+      valid: false,
+      reason: 'No hay llaves de verificación en este dispositivo. Abra VIDA una vez con conexión.',
+    };
+  }
+
+  if (!window.crypto?.subtle) {
+    return { valid: false, reason: 'Este navegador no permite verificar firmas (se requiere HTTPS)' };
+  }
+
+  try {
+    const { kid: _kid, alg: _alg, use: _use, key_ops: _ops, ...material } = jwk;
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      material,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      decodeBase64Url(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+
+    if (!valid) {
+      return { valid: false, reason: 'Firma inválida: la tarjeta fue alterada o no la emitió VIDA' };
+    }
+  } catch {
+    return { valid: false, reason: 'No se pudo verificar la firma' };
+  }
+
+  return { valid: true, claims, keyId: header.kid, expired: claims.exp * 1000 < Date.now() };
+}
+
+export function getPendingAccesses(): OfflineAccessEntry[] {
+  return readJson<OfflineAccessEntry[]>(QUEUE_STORAGE, []);
+}
+
+export function queueOfflineAccess(entry: Omit<OfflineAccessEntry, 'id' | 'scannedAt'>): OfflineAccessEntry {
+  const queued: OfflineAccessEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    scannedAt: new Date().toISOString(),
+  };
+  localStorage.setItem(QUEUE_STORAGE, JSON.stringify([...getPendingAccesses(), queued]));
+  return queued;
+}
+
+/**
+ * Envía los accesos pendientes; se quitan de la cola los sincronizados y los rechazados
+ */
+export async function syncPendingAccesses(): Promise<number> {
+  const pending = getPendingAccesses();
+  if (pending.length === 0 || !navigator.onLine) return 0;
+
+  const response = await emergencyApi.syncOfflineAccesses(pending.slice(0, 50));
+  const done = new Set([
+    ...(response.data?.synced || []),
+    ...(response.data?.rejected || []).map((entry) => entry.id),
+  ]);
+
+  localStorage.setItem(QUEUE_STORAGE, JSON.stringify(getPendingAccesses().filter((entry) => !done.has(entry.id))));
+  return response.data?.synced.length || 0;
+}
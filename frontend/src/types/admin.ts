@@ -122,10 +122,18 @@ export interface SystemUserDetail extends SystemUser {
     insurancePolicy?: string;
     isDonor: boolean;
     photoUrl?: string;
-    qrToken: string;
     createdAt: string;
     updatedAt: string;
   };
+  qrTokens: {
+    id: string;
+    label: string;
+    medium: string;
+    lastScannedAt?: string;
+    scanCount: number;
+    revokedAt?: string;
+    createdAt: string;
+  }[];
   directives: {
     id: string;
     type: string;
@@ -276,8 +284,175 @@ export interface PanicAlert {
   createdAt: string;
   cancelledAt?: string;
   resolvedAt?: string;
+  escalationLevel?: number;
+  escalationSteps?: PanicEscalationStep[] | null;
+  nextEscalationAt?: string | null;
+  operatorQueuedAt?: string | null;
+  acknowledgedAt?: string | null;
+  acknowledgements?: PanicAcknowledgement[] | null;
+  assignedAdmin?: { id: string; name: string } | null;
+  assignedAt?: string | null;
+  resolvedByAdmin?: { id: string; name: string } | null;
+  resolutionOutcome?: PanicResolutionOutcome | null;
+  resolutionNotes?: string | null;
+}
+
+export type PanicResolutionOutcome =
+  | 'PATIENT_SAFE'
+  | 'ASSISTED_BY_REPRESENTATIVE'
+  | 'EMERGENCY_SERVICES_DISPATCHED'
+  | 'TRANSFERRED_TO_HOSPITAL'
+  | 'FALSE_ALARM'
+  | 'UNREACHABLE'
+  | 'OTHER';
+
+export type PanicCallContact = 'PATIENT' | 'REPRESENTATIVE' | 'EMERGENCY_SERVICES' | 'HOSPITAL' | 'OTHER';
+
+// Incidente de abuso en escaneos de QR
+export type QrScanIncidentType = 'SCAN_BURST' | 'MANY_IPS' | 'IMPOSSIBLE_TRAVEL' | 'INVALID_TOKEN_PROBE';
+
+export interface QrScanIncident {
+  id: string;
+  type: QrScanIncidentType;
+  userId?: string | null;
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+  qrTokenId?: string | null;
+  qrToken?: {
+    id: string;
+    label: string;
+    medium: string;
+    suspendedAt?: string | null;
+    revokedAt?: string | null;
+  } | null;
+  ipAddress?: string | null;
+  details: Record<string, any>;
+  tokenSuspended: boolean;
+  resolvedAt?: string | null;
+  resolvedById?: string | null;
+  resolutionNotes?: string | null;
+  createdAt: string;
+}
+
+// Paso de la cadena de escalamiento (un nivel de prioridad o la cola de operadores)
+export interface PanicEscalationStep {
+  level: number;
+  type: 'REPRESENTATIVES' | 'OPERATOR_QUEUE';
+  priority?: number;
+  notifiedAt: string;
+  notifications?: Array<{
+    representativeId: string;
+    name: string;
+    phone: string;
+    confirmed: boolean;
+    smsStatus: 'sent' | 'failed' | 'skipped';
+    emailStatus: 'sent' | 'failed' | 'skipped';
+  }>;
+}
+
+export interface PanicAcknowledgement {
+  channel: 'PORTAL' | 'SOCKET' | 'SMS' | 'OPERATOR';
+  name: string;
+  representativeId?: string;
+  adminId?: string;
+  at: string;
+}
+
+// Alerta activa en la consola de operadores
+export interface PanicConsoleAlert extends PanicAlert {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    phone?: string;
+  };
+  currentLocation: { latitude: number; longitude: number; recordedAt: string };
+  _count: { callNotes: number };
+}
+
+export interface PanicCallNote {
+  id: string;
+  alertId: string;
+  contactType: PanicCallContact;
+  contactName?: string | null;
+  content: string;
+  admin: { id: string; name: string };
+  createdAt: string;
+}
+
+// Detalle de la alerta en la consola
+export interface PanicAlertDetail extends PanicAlert {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    phone?: string;
+    representatives: Array<{
+      id: string;
+      name: string;
+      phone: string;
+      email?: string | null;
+      relation: string;
+      priority: number;
+      status: 'PENDING' | 'ACCEPTED' | 'DECLINED';
+    }>;
+  };
+  callNotes: PanicCallNote[];
+  trail: Array<{ latitude: number; longitude: number; recordedAt: string }>;
 }
 
+export interface PanicOperator {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// Evento de socket del namespace /admin
+export interface PanicAlertUpdate {
+  alertId: string;
+  event:
+    | 'CREATED'
+    | 'ESCALATED'
+    | 'QUEUED'
+    | 'ACKNOWLEDGED'
+    | 'LOCATION'
+    | 'ASSIGNED'
+    | 'NOTE_ADDED'
+    | 'RESOLVED'
+    | 'CANCELLED'
+    | 'EXPIRED';
+  point?: { latitude: number; longitude: number; recordedAt: string };
+  timestamp: string;
+}
+
+export const PANIC_OUTCOME_LABELS: Record<PanicResolutionOutcome, string> = {
+  PATIENT_SAFE: 'Paciente a salvo',
+  ASSISTED_BY_REPRESENTATIVE: 'Atendida por representante',
+  EMERGENCY_SERVICES_DISPATCHED: 'Servicios de emergencia enviados',
+  TRANSFERRED_TO_HOSPITAL: 'Trasladado a hospital',
+  FALSE_ALARM: 'Falsa alarma',
+  UNREACHABLE: 'Sin contacto',
+  OTHER: 'Otro',
+};
+
+export const PANIC_CALL_CONTACT_LABELS: Record<PanicCallContact, string> = {
+  PATIENT: 'Paciente',
+  REPRESENTATIVE: 'Representante',
+  EMERGENCY_SERVICES: 'Servicios de emergencia',
+  HOSPITAL: 'Hospital',
+  OTHER: 'Otro',
+};
+
+export const QR_INCIDENT_TYPE_LABELS: Record<QrScanIncidentType, string> = {
+  SCAN_BURST: 'Rafaga de escaneos',
+  MANY_IPS: 'Muchas IPs distintas',
+  IMPOSSIBLE_TRAVEL: 'Ubicaciones imposibles',
+  INVALID_TOKEN_PROBE: 'Tokens invalidos',
+};
+
 // Institucion medica
 export interface MedicalInstitution {
   id: string;
@@ -299,12 +474,30 @@ export interface MedicalInstitution {
   isVerified: boolean;
   verifiedAt?: string;
   createdAt: string;
+  oauthClientId?: string | null;
+  oauthScopes?: string[];
+  oauthIssuedAt?: string | null;
   _count?: {
     emergencyAccesses: number;
     staff: number;
   };
 }
 
+// Credenciales OAuth de institucion (el secret solo se devuelve una vez)
+export interface OAuthCredentials {
+  institutionId: string;
+  institutionName: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  warning: string;
+}
+
+export const OAUTH_SCOPE_LABELS: Record<string, string> = {
+  'emergency:read': 'Acceso de emergencia',
+  'emergency:history': 'Historial de accesos',
+};
+
 // Estado de salud del sistema
 export interface SystemHealth {
   status: 'healthy' | 'degraded' | 'down';
@@ -337,6 +530,40 @@ export interface ServiceStatus {
   optional?: boolean; // Servicios opcionales no afectan estado general en desarrollo
 }
 
+// Tareas programadas
+export interface JobRun {
+  id: string;
+  job: string;
+  trigger: 'SCHEDULED' | 'MANUAL';
+  triggeredBy: string | null;
+  status: 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+  summary: Record<string, number> | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+}
+
+export interface ScheduledJobStatus {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  running: boolean;
+  lastRun: JobRun | null;
+  lastSuccessAt: string | null;
+}
+
+export interface JobRunsResponse {
+  jobs: ScheduledJobStatus[];
+  runs: JobRun[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
 // Estadisticas de auditoria
 export interface AuditStats {
   totals: {
@@ -448,6 +675,33 @@ export const INSURANCE_TYPE_COLORS: Record<InsuranceType, string> = {
   OTHER: 'bg-gray-100 text-gray-800',
 };
 
+// ==================== PLANTILLAS LEGALES ====================
+
+export interface LegalTemplateField {
+  key: string;
+  label: string;
+  required: boolean;
+  description?: string;
+}
+
+export interface StateLegalTemplate {
+  id: string;
+  stateCode: string;
+  stateName: string;
+  lawName: string;
+  lawDate?: string | null;
+  lawSummary?: string | null;
+  templateHtml?: string | null;
+  templateFields?: LegalTemplateField[] | null;
+  requiresNotary: boolean;
+  requiresWitnesses: number;
+  requiresMedicalCert: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  directivesCount?: number;
+}
+
 // Permisos del sistema
 export const ADMIN_PERMISSIONS = {
   METRICS_READ: 'metrics:read',
@@ -462,6 +716,9 @@ export const ADMIN_PERMISSIONS = {
   ADMINS_WRITE: 'admins:write',
   CONFIG_READ: 'config:read',
   CONFIG_WRITE: 'config:write',
+  LEGAL_TEMPLATES_READ: 'legal_templates:read',
+  LEGAL_TEMPLATES_WRITE: 'legal_templates:write',
+  PANIC_RESPOND: 'panic:respond',
 } as const;
 
 // Labels para roles
@@ -23,18 +23,209 @@ export interface AuthTokens {
 export interface PatientProfile {
   id: string;
   bloodType: string | null;
-  allergies: string[];
-  conditions: string[];
-  medications: string[];
+  allergies: AllergyEntry[];
+  conditions: ConditionEntry[];
+  medications: MedicationEntry[];
   insuranceProvider: string | null;
   insurancePolicy: string | null;
   insurancePhone: string | null;
   isDonor: boolean;
   donorPreferences: DonorPreferences | null;
   photoUrl: string | null;
-  qrToken: string;
+  emergencyVisibility?: EmergencyVisibility;
 }
 
+// ==================== Códigos QR ====================
+// Un código por objeto físico; revocar uno no afecta a los demás
+export type QrTokenMedium = 'WALLET_CARD' | 'BRACELET' | 'LOCK_SCREEN' | 'STICKER' | 'OTHER';
+
+export const QR_TOKEN_MEDIUM_LABELS: Record<QrTokenMedium, string> = {
+  WALLET_CARD: 'Tarjeta de cartera',
+  BRACELET: 'Pulsera',
+  LOCK_SCREEN: 'Pantalla de bloqueo',
+  STICKER: 'Calcomanía',
+  OTHER: 'Otro',
+};
+
+export interface QrToken {
+  id: string;
+  token: string;
+  shortCode: string;  // Código manual impreso bajo el QR (XXXX-XXXX)
+  label: string;
+  medium: QrTokenMedium;
+  lastScannedAt: string | null;
+  scanCount: number;
+  revokedAt: string | null;
+  // Suspensión automática por escaneos sospechosos: solo el personal verificado lo abre
+  suspendedAt: string | null;
+  suspendedReason: QrScanIncidentType | null;
+  createdAt: string;
+}
+
+export type QrScanIncidentType = 'SCAN_BURST' | 'MANY_IPS' | 'IMPOSSIBLE_TRAVEL' | 'INVALID_TOKEN_PROBE';
+
+export const QR_SUSPENSION_REASON_LABELS: Record<QrScanIncidentType, string> = {
+  SCAN_BURST: 'muchos escaneos en pocos minutos',
+  MANY_IPS: 'escaneos desde muchos dispositivos',
+  IMPOSSIBLE_TRAVEL: 'escaneos en lugares muy lejanos entre sí',
+  INVALID_TOKEN_PROBE: 'intentos de adivinar códigos',
+};
+
+export interface QrTokenWithImage extends QrToken {
+  qrDataUrl: string;
+  emergencyUrl: string;
+}
+
+// Material imprimible de un código (cada descarga cuenta contra qrDownloadsPerMonth)
+export type QrPrintFormat = 'CARD_PDF' | 'STICKER_SHEET' | 'WALLPAPER';
+export type WallpaperSize = 'iphone' | 'iphone-max' | 'iphone-se' | 'android-fhd' | 'android-qhd';
+
+export const WALLPAPER_SIZE_LABELS: Record<WallpaperSize, string> = {
+  'iphone': 'iPhone 14 / 15 / 16 (1179 × 2556)',
+  'iphone-max': 'iPhone Plus / Pro Max (1290 × 2796)',
+  'iphone-se': 'iPhone SE (750 × 1334)',
+  'android-fhd': 'Android Full HD+ (1080 × 2400)',
+  'android-qhd': 'Android QHD+ (1440 × 3200)',
+};
+
+export interface QrPrintAsset {
+  fileName: string;
+  contentType: string;
+  dataUrl: string;
+}
+
+// ==================== Datos médicos codificados ====================
+// code es null cuando la entrada no está en el catálogo (texto libre)
+export type AllergenCategory = 'MEDICATION' | 'FOOD' | 'ENVIRONMENT' | 'BIOLOGIC' | 'OTHER';
+export type AllergySeverity = 'MILD' | 'MODERATE' | 'SEVERE';
+
+// Término del catálogo encontrado dentro del texto libre; el paciente decide si aplica
+export interface CatalogSuggestion {
+  code: string;
+  name: string;
+}
+
+export interface AllergyEntry {
+  code: string | null;
+  name: string;
+  category: AllergenCategory;
+  severity: AllergySeverity | null;
+  reaction: string | null;
+  suggestion?: CatalogSuggestion;
+}
+
+export interface ConditionEntry {
+  code: string | null;
+  name: string;
+  suggestion?: CatalogSuggestion;
+}
+
+export interface MedicationEntry {
+  code: string | null;
+  name: string;
+  dose: string | null;
+  frequency: string | null;
+  suggestion?: CatalogSuggestion;
+}
+
+export const ALLERGEN_CATEGORY_LABELS: Record<AllergenCategory, string> = {
+  MEDICATION: 'Medicamento',
+  FOOD: 'Alimento',
+  ENVIRONMENT: 'Ambiental',
+  BIOLOGIC: 'Biológico',
+  OTHER: 'Otro',
+};
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  MILD: 'Leve',
+  MODERATE: 'Moderada',
+  SEVERE: 'Grave',
+};
+
+// Alertas de interacción (alergia-medicamento, medicamento-medicamento)
+export type InteractionSeverity = 'CONTRAINDICATED' | 'MAJOR' | 'MODERATE';
+
+export interface ClinicalWarning {
+  type: 'DRUG_ALLERGY' | 'DRUG_DRUG' | 'DUPLICATE_THERAPY';
+  severity: InteractionSeverity;
+  drug: string;
+  conflictsWith: string;
+  message: string;
+  recommendation: string | null;
+}
+
+export const INTERACTION_SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  CONTRAINDICATED: 'Contraindicado',
+  MAJOR: 'Riesgo alto',
+  MODERATE: 'Precaución',
+};
+
+export interface DrugCheckResult {
+  drug: { code: string | null; name: string; atc: string[] };
+  recognized: boolean;
+  warnings: ClinicalWarning[];
+  checkedAgainst: EmergencyField[];
+  withheld: EmergencyField[];
+}
+
+// Elementos del catálogo (GET /catalog/:type)
+export type CatalogType = 'conditions' | 'medications' | 'allergens';
+
+export interface CatalogCondition {
+  code: string;
+  name: string;
+  synonyms?: string[];
+}
+
+export interface CatalogDrug {
+  code: string;
+  name: string;
+  atc: string;
+  group: string;
+  strengths: string[];
+  synonyms?: string[];
+}
+
+export interface CatalogAllergen {
+  code: string;
+  name: string;
+  category: AllergenCategory;
+  atcPrefixes?: string[];
+  synonyms?: string[];
+}
+
+export interface CatalogItemMap {
+  conditions: CatalogCondition;
+  medications: CatalogDrug;
+  allergens: CatalogAllergen;
+}
+
+// Visibilidad por campo en accesos de emergencia
+export type EmergencyField =
+  | 'identity'
+  | 'bloodType'
+  | 'allergies'
+  | 'conditions'
+  | 'medications'
+  | 'cpr'
+  | 'directive'
+  | 'donation'
+  | 'representatives';
+export type FieldVisibility = 'PUBLIC' | 'VERIFIED' | 'HIDDEN';
+export type EmergencyVisibility = Record<EmergencyField, FieldVisibility>;
+
+export const EMERGENCY_FIELD_LABELS: Record<EmergencyField, string> = {
+  identity: 'Nombre, foto y fecha de nacimiento',
+  bloodType: 'Tipo de sangre',
+  allergies: 'Alergias',
+  conditions: 'Condiciones médicas',
+  medications: 'Medicamentos',
+  cpr: 'Decisión sobre RCP',
+  directive: 'Voluntad anticipada completa',
+  donation: 'Donación de órganos',
+  representatives: 'Contactos de emergencia',
+};
+
 export interface DonorPreferences {
   organs: string[];
   tissues: string[];
@@ -52,8 +243,10 @@ export interface AdvanceDirective {
   status: DirectiveStatus;
   documentUrl: string | null;
   originalFileName: string | null;
+  verificationCode: string | null;
   nom151Sealed: boolean;
   nom151Timestamp: string | null;
+  nom151Provider: string | null;
   acceptsCPR: boolean | null;
   acceptsIntubation: boolean | null;
   acceptsDialysis: boolean | null;
@@ -62,12 +255,48 @@ export interface AdvanceDirective {
   palliativeCareOnly: boolean | null;
   additionalNotes: string | null;
   originState: string | null;
+  legalBasisSummary: string | null;
   validatedAt: string | null;
+  expiresAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface SealVerification {
+  valid: boolean;
+  reason: 'LEGACY_CERTIFICATE' | 'INVALID_SIGNATURE' | 'UNKNOWN_PROVIDER' | 'DOCUMENT_CHANGED' | 'PRESENTED_DOCUMENT_MISMATCH' | null;
+  checks: {
+    signature: boolean;
+    documentHash: boolean;
+    presentedDocument: boolean | null;
+  };
+  sealedAt: string | null;
+  provider: string | null;
+  serialNumber: string | null;
+  policy: string | null;
+}
+
+export interface DirectiveVerification {
+  status: 'ACTIVE' | 'REVOKED' | 'EXPIRED' | 'PENDING_VALIDATION';
+  type: DirectiveType;
+  validatedAt: string | null;
+  revokedAt: string | null;
+  expiresAt: string | null;
+  originState: { code: string; name: string | null } | null;
+  nom151: {
+    sealed: boolean;
+    sealedAt: string | null;
+    provider: string | null;
+    serialNumber: string | null;
+    coversDocument: boolean | null;
+    signatureValid: boolean | null;
+    legallyValid: boolean | null;
+  };
+  verifiedAt: string;
+}
+
 export interface DirectiveDraft {
+  type?: 'DIGITAL_DRAFT' | 'DIGITAL_WITNESSED';
   acceptsCPR?: boolean | null;
   acceptsIntubation?: boolean | null;
   acceptsDialysis?: boolean | null;
@@ -78,6 +307,92 @@ export interface DirectiveDraft {
   originState?: string;
 }
 
+// ==================== Plantillas legales ====================
+export type TemplateFieldKey =
+  | 'acceptsCPR'
+  | 'acceptsIntubation'
+  | 'acceptsDialysis'
+  | 'acceptsTransfusion'
+  | 'acceptsArtificialNutrition'
+  | 'palliativeCareOnly'
+  | 'additionalNotes';
+
+export interface TemplateField {
+  key: TemplateFieldKey;
+  label: string;
+  required: boolean;
+  description?: string;
+}
+
+export interface LegalTemplateSummary {
+  stateCode: string;
+  stateName: string;
+  lawName: string;
+  lawDate: string | null;
+  requiresNotary: boolean;
+  requiresWitnesses: number;
+  requiresMedicalCert: boolean;
+  fields: TemplateField[];
+}
+
+export interface LegalRequirement {
+  key: 'NOTARY' | 'WITNESSES' | 'MEDICAL_CERT';
+  label: string;
+  met: boolean;
+}
+
+export interface LegalRequirements {
+  state: { code: string; name: string } | null;
+  law: { name: string; date: string | null; summary: string | null } | null;
+  hasTemplate: boolean;
+  requirements: LegalRequirement[];
+  missingFields: { key: TemplateFieldKey; label: string }[];
+}
+
+// ==================== Testigos ====================
+export type WitnessStatus = 'SIGNED' | 'PENDING' | 'EXPIRED';
+
+export interface Witness {
+  id: string;
+  name: string;
+  curp: string | null;
+  email: string | null;
+  phone: string | null;
+  status: WitnessStatus;
+  invitedAt: string | null;
+  inviteExpires: string | null;
+  signedAt: string | null;
+}
+
+export interface WitnessSummary {
+  witnesses: Witness[];
+  required: number;
+  signed: number;
+  directiveStatus: DirectiveStatus;
+}
+
+export interface CreateWitnessInput {
+  name: string;
+  curp?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface WitnessDelivery {
+  smsStatus: 'sent' | 'failed' | 'skipped';
+  emailStatus: 'sent' | 'failed' | 'skipped';
+}
+
+export interface WitnessInvitation {
+  witnessName: string;
+  curpRegistered: boolean;
+  patientName: string;
+  directiveCreatedAt: string;
+  state: string | null;
+  lawName: string | null;
+  inviteExpires: string;
+}
+
 // ==================== Representantes ====================
 export interface Representative {
   id: string;
@@ -90,10 +405,114 @@ export interface Representative {
   canMakeMedicalDecisions: boolean;
   notifyOnEmergency: boolean;
   notifyOnAccess: boolean;
+  status: RepresentativeStatus;
+  hasAccount: boolean;
+  suspendedByPlan: boolean; // Excede el límite del plan tras un downgrade
+  invitedAt: string | null;
+  inviteExpires: string | null;
+  acceptedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type RepresentativeStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED';
+
+export type VerificationChannel = 'SMS' | 'EMAIL';
+
+export interface RepresentativeInvitation {
+  representativeName: string;
+  patientName: string;
+  relation: string;
+  isDonorSpokesperson: boolean;
+  notifyOnEmergency: boolean;
+  channels: {
+    SMS: string;
+    EMAIL: string | null;
+  };
+  inviteExpires: string;
+}
+
+export interface PanicAcknowledgement {
+  channel: 'PORTAL' | 'SOCKET' | 'SMS' | 'OPERATOR';
+  name: string;
+  representativeId?: string;
+  adminId?: string;
+  at: string;
+}
+
+export interface PanicLocationPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  heading: number | null;
+  speed: number | null;
+  recordedAt: string;
+}
+
+export interface PanicHospital {
+  id: string;
+  name: string;
+  type: string;
+  address?: string;
+  phone?: string;
+  emergencyPhone?: string;
+  latitude: number;
+  longitude: number;
+  distance: number;
+  matchScore?: number;
+  matchedSpecialties?: string[];
+}
+
+export interface PanicLocationTrail {
+  alertId: string;
+  status: string;
+  points: PanicLocationPoint[];
+  nearbyHospitals: PanicHospital[];
+  lastLocationAt: string;
+}
+
+export interface RepresentedPatient {
+  representativeId: string;
+  patient: { id: string; name: string };
+  relation: string;
+  priority: number;
+  notifyOnEmergency: boolean;
+  acceptedAt: string | null;
+  activePanicAlerts: Array<{
+    id: string;
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    locationName: string | null;
+    message: string | null;
+    escalationLevel: number;
+    operatorQueuedAt: string | null;
+    acknowledgedAt: string | null;
+    acknowledgements: PanicAcknowledgement[] | null;
+    lastLocationAt: string | null;
+    createdAt: string;
+  }>;
+  recentAccesses: Array<{
+    id: string;
+    accessorName: string;
+    accessorRole: string;
+    institutionName: string | null;
+    locationName: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    accessedAt: string;
+  }>;
+  donorSpokesperson: {
+    isDonor: boolean;
+    preferences: {
+      organs: string[];
+      tissues: string[];
+      forResearch: boolean;
+      restrictions?: string;
+    } | null;
+  } | null;
+}
+
 export interface CreateRepresentativeInput {
   name: string;
   phone: string;
@@ -107,31 +526,73 @@ export interface CreateRepresentativeInput {
 }
 
 // ==================== Emergencia ====================
+// Resumen firmado de la tarjeta offline (claves cortas del QR)
+export interface OfflineCardClaims {
+  v: 1;
+  t: string;
+  n?: string;
+  bt?: string;
+  al?: string[];
+  cpr?: boolean | null;
+  ph?: string;
+  iat: number;
+  exp: number;
+}
+
+export interface OfflineCard {
+  token: string;
+  cardUrl: string;
+  qrDataUrl: string;
+  claims: OfflineCardClaims;
+  keyId: string;
+  expiresAt: string;
+}
+
+export interface OfflineCardJwk extends JsonWebKey {
+  kid: string;
+}
+
+// Acceso hecho sin conexión, pendiente de sincronizar
+export interface OfflineAccessEntry {
+  id: string;
+  card: string;
+  accessorName: string;
+  accessorRole: string;
+  scannedAt: string;
+  latitude?: number;
+  longitude?: number;
+}
+
 export interface EmergencyAccess {
   id: string;
   accessorName: string;
   accessorRole: string;
+  accessorVerified?: boolean;
+  accessMethod?: 'MANUAL' | 'STAFF_TOKEN' | 'OAUTH_CLIENT' | 'OFFLINE_CARD';
   institutionName: string | null;
   locationName: string | null;
   accessedAt: string;
   dataAccessed: string[];
+  // Objeto físico escaneado (null si el código ya no existe)
+  qrToken?: Pick<QrToken, 'id' | 'label' | 'medium' | 'revokedAt'> | null;
 }
 
 export interface EmergencyData {
   accessToken: string;
   expiresAt: string;
   patient: {
-    name: string;
+    name: string | null;
     dateOfBirth: string | null;
     sex: string | null;
     photoUrl: string | null;
   };
   medicalInfo: {
     bloodType: string | null;
-    allergies: string[];
-    conditions: string[];
-    medications: string[];
+    allergies: AllergyEntry[];
+    conditions: ConditionEntry[];
+    medications: MedicationEntry[];
   };
+  warnings: ClinicalWarning[];
   directive: {
     hasActiveDirective: boolean;
     acceptsCPR: boolean | null;
@@ -142,7 +603,7 @@ export interface EmergencyData {
     validatedAt: string | null;
   };
   donation: {
-    isDonor: boolean;
+    isDonor: boolean | null;
   };
   representatives: {
     name: string;
@@ -150,6 +611,31 @@ export interface EmergencyData {
     relation: string;
     priority: number;
   }[];
+  accessor?: {
+    name: string;
+    role: string;
+    institutionName: string | null;
+    verified: boolean;
+  };
+  disclosure?: {
+    tier: 'PUBLIC' | 'VERIFIED';
+    disclosed: EmergencyField[];
+    withheld: EmergencyField[];
+  };
+}
+
+// Personal médico institucional
+export interface StaffMember {
+  id: string;
+  email: string;
+  name: string;
+  role: 'ADMIN' | 'DOCTOR' | 'PARAMEDIC' | 'NURSE' | 'EMERGENCY_TECH';
+  license: string | null;
+  institution: {
+    id: string;
+    name: string;
+    isVerified: boolean;
+  };
 }
 
 // ==================== API Responses ====================
@@ -187,9 +673,9 @@ export interface RegisterForm {
 
 export interface ProfileForm {
   bloodType?: string;
-  allergies?: string[];
-  conditions?: string[];
-  medications?: string[];
+  allergies?: AllergyEntry[];
+  conditions?: ConditionEntry[];
+  medications?: MedicationEntry[];
   insuranceProvider?: string;
   insurancePolicy?: string;
   insurancePhone?: string;